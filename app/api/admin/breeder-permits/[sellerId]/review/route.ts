@@ -53,7 +53,8 @@ export async function POST(request: Request, { params }: { params: { sellerId: s
     reviewedBy: adminId,
     updatedAt: now,
     rejectionReason: status === 'rejected' ? rejectionReason : null,
-    ...(expiresAt ? { expiresAt: Timestamp.fromDate(expiresAt) } : {}),
+    // A new expiry date restarts the expiry reminders (complianceExpiryReminders).
+    ...(expiresAt ? { expiresAt: Timestamp.fromDate(expiresAt), expiryNoticesSent: [] } : {}),
   };
 
   await permitRef.update(update);
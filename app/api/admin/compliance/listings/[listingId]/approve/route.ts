@@ -4,7 +4,7 @@
  * Admin-only: approve compliance for a listing.
  * IMPORTANT: This does NOT necessarily publish the listing:
  * - If seller is not verified (admin approval queue) OR category is whitetail_breeder, keep status 'pending'.
- * - Otherwise, activate the listing.
+ * - Otherwise, activate the listing (or mark it `scheduled` when the seller picked a future start).
  */
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -16,6 +16,7 @@ import { tryDispatchEmailJobNow } from '@/lib/email/dispatchEmailJobNow';
 import { listAdminRecipientUids } from '@/lib/admin/adminRecipients';
 import { getSiteUrl } from '@/lib/site-url';
 import { createAuditLog } from '@/lib/audit/logger';
+import { resolveGoLive } from '@/lib/listings/scheduling';
 
 export async function POST(request: Request, ctx: { params: { listingId: string } }) {
   const rl = await requireRateLimit(request);
@@ -42,6 +43,7 @@ export async function POST(request: Request, ctx: { params: { listingId: string
 
   const now = Timestamp.now();
   const shouldPublish = listing?.status === 'pending' && sellerVerified && !isWhitetail;
+  const goLive = resolveGoLive(listing, now.toMillis());
 
   const beforeState = {
     status: listing?.status,
@@ -54,7 +56,16 @@ export async function POST(request: Request, ctx: { params: { listingId: string
     complianceStatus: 'approved',
     complianceReviewedBy: actorUid,
     complianceReviewedAt: now,
-    ...(shouldPublish ? { status: 'active', publishedAt: now } : {}),
+    ...(shouldPublish
+      ? {
+          status: goLive.status,
+          ...(goLive.status === 'active' ? { publishedAt: now } : {}),
+          startAt: Timestamp.fromMillis(goLive.startAtMs),
+          endAt: Timestamp.fromMillis(goLive.endAtMs),
+          durationDays: goLive.durationDays,
+          ...(listing?.type === 'auction' ? { endsAt: Timestamp.fromMillis(goLive.endAtMs) } : {}),
+        }
+      : {}),
     updatedAt: now,
     updatedBy: actorUid,
   });
@@ -67,7 +78,7 @@ export async function POST(request: Request, ctx: { params: { listingId: string
       listingId,
       targetUserId: sellerId,
       beforeState,
-      afterState: { complianceStatus: 'approved', ...(shouldPublish ? { status: 'active' } : {}) },
+      afterState: { complianceStatus: 'approved', ...(shouldPublish ? { status: goLive.status } : {}) },
       metadata: { listingTitle: title, published: shouldPublish },
       source: 'admin_ui',
     });
@@ -105,6 +116,7 @@ export async function POST(request: Request, ctx: { params: { listingId: string
           listingId,
           listingTitle: title,
           listingUrl: `${origin}/listing/${listingId}`,
+          ...(goLive.status === 'scheduled' ? { startsAt: new Date(goLive.startAtMs).toISOString() } : {}),
         },
         optionalHash: `listing_approved:${listingId}`,
       });
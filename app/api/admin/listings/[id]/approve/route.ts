@@ -13,6 +13,7 @@ import { tryDispatchEmailJobNow } from '@/lib/email/dispatchEmailJobNow';
 import { listAdminRecipientUids } from '@/lib/admin/adminRecipients';
 import { getSiteUrl } from '@/lib/site-url';
 import { createAuditLog } from '@/lib/audit/logger';
+import { resolveGoLive } from '@/lib/listings/scheduling';
 
 function json(body: any, init?: { status?: number }) {
   return new Response(JSON.stringify(body), {
@@ -81,13 +82,22 @@ export async function POST(req: Request, ctx: { params: { id: string } }) {
     );
   }
 
+  // Seller-requested future start: approve now, go live at startAt (activateScheduledListings job).
+  const now = Timestamp.now();
+  const goLive = resolveGoLive(listing, now.toMillis());
+  const endAt = Timestamp.fromMillis(goLive.endAtMs);
+
   await listingRef.update({
-    status: 'active',
+    status: goLive.status,
     complianceStatus: listing?.complianceStatus === 'pending_review' ? 'approved' : listing?.complianceStatus || 'none',
     approvedBy: uid,
-    approvedAt: Timestamp.now(),
-    publishedAt: Timestamp.now(),
-    updatedAt: Timestamp.now(),
+    approvedAt: now,
+    ...(goLive.status === 'active' ? { publishedAt: now } : {}),
+    startAt: Timestamp.fromMillis(goLive.startAtMs),
+    endAt,
+    durationDays: goLive.durationDays,
+    ...(listing?.type === 'auction' ? { endsAt: endAt } : {}),
+    updatedAt: now,
     updatedBy: uid,
   });
 
@@ -100,8 +110,8 @@ export async function POST(req: Request, ctx: { params: { id: string } }) {
       listingId,
       targetUserId: sellerId,
       beforeState,
-      afterState: { status: 'active', approvedBy: uid },
-      metadata: { listingTitle: title },
+      afterState: { status: goLive.status, approvedBy: uid },
+      metadata: { listingTitle: title, ...(goLive.status === 'scheduled' ? { startAt: new Date(goLive.startAtMs).toISOString() } : {}) },
       source: 'admin_ui',
     });
   } catch {
@@ -149,6 +159,7 @@ export async function POST(req: Request, ctx: { params: { id: string } }) {
         listingId,
         listingTitle: title,
         listingUrl: `${origin}/listing/${listingId}`,
+        ...(goLive.status === 'scheduled' ? { startsAt: new Date(goLive.startAtMs).toISOString() } : {}),
       },
       optionalHash: `listing_approved:${listingId}`,
     });
@@ -159,6 +170,6 @@ export async function POST(req: Request, ctx: { params: { id: string } }) {
     // Do not block moderation actions on notification failures.
   }
 
-  return json({ ok: true });
+  return json({ ok: true, status: goLive.status });
 }
 
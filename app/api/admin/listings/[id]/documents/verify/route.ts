@@ -11,6 +11,7 @@
 import { Timestamp } from 'firebase-admin/firestore';
 import { requireAdmin, json } from '@/app/api/admin/_util';
 import { createAuditLog } from '@/lib/audit/logger';
+import { toVerifiedDocumentFieldUpdates } from '@/lib/compliance/extraction';
 
 export async function POST(
   request: Request,
@@ -34,7 +35,7 @@ export async function POST(
 
     const listingId = params.id;
     const body = await request.json();
-    const { documentId, status, rejectionReason } = body;
+    const { documentId, status, rejectionReason, fields } = body;
 
     if (!documentId || !status) {
       return json({ error: 'documentId and status are required' }, { status: 400 });
@@ -70,6 +71,10 @@ export async function POST(
       updateData.rejectionReason = null;
     }
 
+    // Permit fields the admin confirmed or corrected (prefilled from the upload's extraction).
+    const fieldUpdates = status === 'verified' ? toVerifiedDocumentFieldUpdates(fields) : {};
+    Object.assign(updateData, fieldUpdates);
+
     await docRef.update(updateData);
 
     // Audit log (best-effort).
@@ -90,8 +95,9 @@ export async function POST(
           type: beforeState?.type,
           status,
           ...(status === 'rejected' ? { rejectionReason: String(rejectionReason || '').trim() } : {}),
+          ...(fieldUpdates.permitNumber ? { permitNumber: fieldUpdates.permitNumber } : {}),
         },
-        metadata: { documentId, type: beforeState?.type },
+        metadata: { documentId, type: beforeState?.type, ...(Object.keys(fieldUpdates).length ? { fieldsUpdated: Object.keys(fieldUpdates) } : {}) },
         source: 'admin_ui',
       });
     } catch {
@@ -99,7 +105,7 @@ export async function POST(
     }
 
     // If TPWD_BREEDER_PERMIT is verified, update listing compliance status
-    const docData = docSnap.data()!;
+    const docData = { ...docSnap.data()!, ...fieldUpdates };
     if (docData.type === 'TPWD_BREEDER_PERMIT' && status === 'verified') {
       const listingRef = db.collection('listings').doc(listingId);
       await listingRef.update({
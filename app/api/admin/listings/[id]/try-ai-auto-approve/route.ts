@@ -14,7 +14,7 @@ import { emitAndProcessEventForUser } from '@/lib/notifications';
 import { tryDispatchEmailJobNow } from '@/lib/email/dispatchEmailJobNow';
 import { getSiteUrl } from '@/lib/site-url';
 import { createAuditLog } from '@/lib/audit/logger';
-import { coerceDurationDays, computeEndAt } from '@/lib/listings/duration';
+import { resolveGoLive } from '@/lib/listings/scheduling';
 
 export async function POST(req: Request, routeCtx: { params: Promise<{ id: string }> | { id: string } }) {
   const params = typeof (routeCtx.params as any)?.then === 'function'
@@ -111,16 +111,15 @@ export async function POST(req: Request, routeCtx: { params: Promise<{ id: strin
   };
 
   const now = Timestamp.now();
-  const durationDays = coerceDurationDays((listingData as any)?.durationDays, 7);
-  const startAt = now;
-  const endAtMs = computeEndAt(startAt.toMillis(), durationDays);
-  const endAt = Timestamp.fromMillis(endAtMs);
+  const goLive = resolveGoLive(listingData as any, now.toMillis());
+  const endAt = Timestamp.fromMillis(goLive.endAtMs);
 
   await listingRef.update({
-    status: 'active',
-    publishedAt: now,
-    startAt,
+    status: goLive.status,
+    ...(goLive.status === 'active' ? { publishedAt: now } : {}),
+    startAt: Timestamp.fromMillis(goLive.startAtMs),
     endAt,
+    durationDays: goLive.durationDays,
     complianceStatus: 'approved',
     aiModeration: buildAiModeration(),
     updatedAt: now,
@@ -135,7 +134,7 @@ export async function POST(req: Request, routeCtx: { params: Promise<{ id: strin
     listingId,
     targetUserId: sellerId,
     beforeState: { status: 'pending' },
-    afterState: { status: 'active', complianceStatus: 'approved' },
+    afterState: { status: goLive.status, complianceStatus: 'approved' },
     metadata: { source: 'try_ai_auto_approve', scores: decision.scores },
     source: 'admin_ui',
   });
@@ -153,6 +152,7 @@ export async function POST(req: Request, routeCtx: { params: Promise<{ id: strin
         listingId,
         listingTitle: String(listingData?.title || 'Listing'),
         listingUrl: `${origin}/listing/${listingId}`,
+        ...(goLive.status === 'scheduled' ? { startsAt: new Date(goLive.startAtMs).toISOString() } : {}),
       },
       optionalHash: `listing_approved:${listingId}`,
     });
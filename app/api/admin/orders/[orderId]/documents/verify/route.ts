@@ -13,6 +13,7 @@ import { requireAdmin, json } from '@/app/api/admin/_util';
 import { appendOrderTimelineEvent } from '@/lib/orders/timeline';
 import { recomputeOrderComplianceDocsStatus } from '@/lib/orders/complianceDocsStatus';
 import { createAuditLog } from '@/lib/audit/logger';
+import { toVerifiedDocumentFieldUpdates } from '@/lib/compliance/extraction';
 
 export async function POST(
   request: Request,
@@ -38,7 +39,7 @@ export async function POST(
 
     // Parse body
     const body = await request.json();
-    const { documentId, status, rejectionReason } = body;
+    const { documentId, status, rejectionReason, fields } = body;
 
     if (!documentId || !status) {
       return json({ error: 'documentId and status are required' }, { status: 400 });
@@ -72,6 +73,10 @@ export async function POST(
       updateData.rejectionReason = null;
     }
 
+    // Permit/CVI fields the admin confirmed or corrected (prefilled from the upload's extraction).
+    const fieldUpdates = status === 'verified' ? toVerifiedDocumentFieldUpdates(fields) : {};
+    Object.assign(updateData, fieldUpdates);
+
     await documentRef.update(updateData);
 
     // Audit log (best-effort).
@@ -93,7 +98,7 @@ export async function POST(
           status,
           ...(status === 'rejected' ? { rejectionReason: String(rejectionReason || '').trim() } : {}),
         },
-        metadata: { documentId, type: beforeDoc?.type },
+        metadata: { documentId, type: beforeDoc?.type, ...(Object.keys(fieldUpdates).length ? { fieldsUpdated: Object.keys(fieldUpdates) } : {}) },
         source: 'admin_ui',
       });
     } catch {
@@ -129,32 +134,9 @@ export async function POST(
       }
     }
 
-    // If TAHC_CVI is verified/rejected, keep the order's compliance snapshot current and clear/set payout holds (best-effort).
-    if (documentData.type === 'TAHC_CVI') {
-      const orderRef = db.collection('orders').doc(orderId);
-
-      try {
-        const orderSnap = await orderRef.get();
-        const existingHold = orderSnap.exists ? (orderSnap.data() as any)?.payoutHoldReason : null;
-
-        // If CVI is now verified, clear the "missing CVI" hold reason (if it was set).
-        const nextHold =
-          status === 'verified'
-            ? (existingHold === 'MISSING_TAHC_CVI' ? 'none' : existingHold)
-            : 'MISSING_TAHC_CVI';
-
-        await orderRef.set(
-          {
-            payoutHoldReason: nextHold,
-            updatedAt: Timestamp.now(),
-            lastUpdatedByRole: 'admin',
-          },
-          { merge: true }
-        );
-      } catch {
-        // best-effort
-      }
-
+    // Keep the order's compliance snapshot current; this also sets/clears MISSING_<type> payout holds for the
+    // movement paperwork (CVI, brand inspection, Coggins, TB/brucellosis) the route requires (best-effort).
+    if (documentData.type !== 'TPWD_TRANSFER_APPROVAL') {
       try {
         await recomputeOrderComplianceDocsStatus({ db: db as any, orderId });
       } catch {
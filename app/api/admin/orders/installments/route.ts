@@ -0,0 +1,83 @@
+/**
+ * GET /api/admin/orders/installments
+ *
+ * Admin-only: open installment plans with their risk level (see lib/pricing/installments.ts).
+ * `?filter=at_risk` (default) keeps overdue and defaulted plans; `?filter=all` lists every open plan.
+ */
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { requireAdmin, requireRateLimit, json } from '@/app/api/admin/_util';
+import { getInstallmentDueAt, getInstallmentRisk, type InstallmentRiskLevel } from '@/lib/pricing/installments';
+
+const RISK_ORDER: Record<InstallmentRiskLevel, number> = {
+  defaulted: 0,
+  overdue: 1,
+  due_soon: 2,
+  on_track: 3,
+  completed: 4,
+};
+
+function toIso(v: any): string | null {
+  if (!v) return null;
+  if (v instanceof Date) return v.toISOString();
+  if (typeof v?.toDate === 'function') return v.toDate().toISOString();
+  if (typeof v?.seconds === 'number') return new Date(v.seconds * 1000).toISOString();
+  return null;
+}
+
+export async function GET(request: Request) {
+  const rl = await requireRateLimit(request);
+  if (!rl.ok) return rl.response;
+
+  const admin = await requireAdmin(request);
+  if (!admin.ok) return admin.response;
+
+  const url = new URL(request.url);
+  const filter = url.searchParams.get('filter') === 'all' ? 'all' : 'at_risk';
+
+  const db = admin.ctx.db;
+  const snap = await db.collection('orders').where('installmentPlan.status', 'in', ['active', 'defaulted']).limit(500).get();
+
+  const now = new Date();
+  const plans = snap.docs
+    .map((d) => {
+      const data = d.data() as any;
+      const plan = data.installmentPlan;
+      const risk = getInstallmentRisk(plan, now);
+      return {
+        orderId: d.id,
+        listingId: data.listingId || null,
+        listingTitle: data.listingSnapshot?.title || data.listingTitle || null,
+        buyerId: data.buyerId || null,
+        sellerId: data.sellerId || null,
+        transactionStatus: data.transactionStatus || null,
+        orderTotal: typeof data.amount === 'number' ? data.amount : null,
+        installmentCount: plan.installmentCount,
+        intervalDays: plan.intervalDays,
+        planStatus: plan.status,
+        defaultedAt: toIso(plan.defaultedAt),
+        riskLevel: risk.level,
+        daysOverdue: risk.daysOverdue,
+        paidCount: risk.paidCount,
+        paidAmount: risk.paidAmount,
+        remainingAmount: risk.remainingAmount,
+        nextInstallment: risk.next
+          ? { number: risk.next.number, amount: risk.next.amount, dueAt: getInstallmentDueAt(risk.next)?.toISOString() ?? null }
+          : null,
+      };
+    })
+    .filter((p) => filter === 'all' || p.riskLevel === 'overdue' || p.riskLevel === 'defaulted')
+    .sort((a, b) => RISK_ORDER[a.riskLevel] - RISK_ORDER[b.riskLevel] || b.daysOverdue - a.daysOverdue);
+
+  const summary = {
+    open: snap.size,
+    defaulted: plans.filter((p) => p.riskLevel === 'defaulted').length,
+    overdue: plans.filter((p) => p.riskLevel === 'overdue').length,
+    remainingAtRisk: plans
+      .filter((p) => p.riskLevel === 'overdue' || p.riskLevel === 'defaulted')
+      .reduce((sum, p) => sum + p.remainingAmount, 0),
+  };
+
+  return json({ ok: true, filter, plans, summary });
+}
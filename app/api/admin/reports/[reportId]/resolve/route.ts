@@ -0,0 +1,66 @@
+/**
+ * POST /api/admin/reports/[reportId]/resolve
+ *
+ * Admin-only: close a Trust & Safety report as resolved (action taken) or dismissed (no action).
+ */
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { z } from 'zod';
+import { Timestamp } from 'firebase-admin/firestore';
+import { requireAdmin, requireRateLimit, json } from '@/app/api/admin/_util';
+import { createAuditLog } from '@/lib/audit/logger';
+
+const BodySchema = z.object({
+  status: z.enum(['resolved', 'dismissed']),
+  note: z.string().trim().max(2000).optional(),
+});
+
+export async function POST(request: Request, ctx: { params: { reportId: string } }) {
+  const rl = await requireRateLimit(request);
+  if (!rl.ok) return rl.response;
+
+  const admin = await requireAdmin(request);
+  if (!admin.ok) return admin.response;
+
+  const reportId = String(ctx?.params?.reportId || '').trim();
+  if (!reportId) return json({ ok: false, error: 'Missing reportId' }, { status: 400 });
+
+  const parsed = BodySchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) return json({ ok: false, error: 'Validation error' }, { status: 400 });
+
+  const db = admin.ctx.db;
+  const ref = db.collection('reports').doc(reportId);
+  const snap = await ref.get();
+  if (!snap.exists) return json({ ok: false, error: 'Not found' }, { status: 404 });
+  const report = snap.data() as any;
+
+  const now = Timestamp.now();
+  await ref.set(
+    {
+      status: parsed.data.status,
+      resolvedAt: now,
+      resolvedBy: admin.ctx.actorUid,
+      resolutionNote: parsed.data.note || null,
+      updatedAt: now,
+    },
+    { merge: true }
+  );
+
+  await createAuditLog(db as any, {
+    actorUid: admin.ctx.actorUid,
+    actorRole: 'admin',
+    actionType: 'admin_report_resolved',
+    ...(report?.targetType === 'listing' ? { listingId: String(report.targetId) } : {}),
+    ...(report?.reportedUserId ? { targetUserId: String(report.reportedUserId) } : {}),
+    metadata: {
+      reportId,
+      status: parsed.data.status,
+      reason: report?.reason || null,
+      note: parsed.data.note || null,
+    },
+    source: 'admin_ui',
+  });
+
+  return json({ ok: true });
+}
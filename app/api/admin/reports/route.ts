@@ -0,0 +1,78 @@
+/**
+ * GET /api/admin/reports
+ *
+ * Admin-only: Trust & Safety moderation queue (listing/user reports).
+ */
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { requireAdmin, requireRateLimit, json } from '@/app/api/admin/_util';
+import type { Query, CollectionReference } from 'firebase-admin/firestore';
+import { getReportReasonLabel } from '@/lib/safety/reports';
+
+function toInt(v: string | null, fallback: number) {
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.floor(n) : fallback;
+}
+
+function toIso(v: any): string | null {
+  if (!v) return null;
+  if (typeof v?.toDate === 'function') return v.toDate().toISOString();
+  if (typeof v?.seconds === 'number') return new Date(v.seconds * 1000).toISOString();
+  return null;
+}
+
+export async function GET(request: Request) {
+  const rl = await requireRateLimit(request);
+  if (!rl.ok) return rl.response;
+
+  const admin = await requireAdmin(request);
+  if (!admin.ok) return admin.response;
+
+  const url = new URL(request.url);
+  const status = (url.searchParams.get('status') || 'open').trim(); // open | resolved | dismissed | all
+  const targetType = url.searchParams.get('targetType')?.trim(); // listing | user
+  const limit = Math.max(1, Math.min(200, toInt(url.searchParams.get('limit'), 100)));
+
+  const db = admin.ctx.db;
+  let q: Query | CollectionReference = db.collection('reports');
+  if (status === 'open' || status === 'resolved' || status === 'dismissed') {
+    q = q.where('status', '==', status);
+  }
+  if (targetType === 'listing' || targetType === 'user') {
+    q = q.where('targetType', '==', targetType);
+  }
+  q = q.orderBy('createdAt', 'desc').limit(limit);
+
+  const snap = await q.get();
+  const reports = snap.docs.map((d) => {
+    const data = d.data() as any;
+    return {
+      reportId: d.id,
+      status: data?.status || 'open',
+      targetType: data?.targetType,
+      targetId: data?.targetId,
+      listingTitle: data?.listingTitle || null,
+      reportedUserId: data?.reportedUserId || null,
+      reporterId: data?.reporterId || null,
+      reason: data?.reason || 'other',
+      reasonLabel: getReportReasonLabel(String(data?.reason || 'other')),
+      details: data?.details || null,
+      resolutionNote: data?.resolutionNote || null,
+      createdAt: toIso(data?.createdAt),
+      updatedAt: toIso(data?.updatedAt),
+      resolvedAt: toIso(data?.resolvedAt),
+      resolvedBy: data?.resolvedBy || null,
+    };
+  });
+
+  // Repeat offenders: how many open reports in this page point at the same user.
+  const openCountByUser: Record<string, number> = {};
+  for (const r of reports) {
+    if (r.status === 'open' && r.reportedUserId) {
+      openCountByUser[r.reportedUserId] = (openCountByUser[r.reportedUserId] || 0) + 1;
+    }
+  }
+
+  return json({ ok: true, reports, openCountByUser });
+}
@@ -17,6 +17,7 @@ import { requireAdmin } from '@/app/api/admin/_util';
 import { rateLimitMiddleware, RATE_LIMITS } from '@/lib/rate-limit';
 import { logInfo, logError, logWarn } from '@/lib/monitoring/logger';
 import { captureException } from '@/lib/monitoring/capture';
+import { summarizeSalesTax } from '@/lib/tax/salesTax';
 function json(body: any, init?: { status?: number; headers?: Record<string, string> }) {
   return new Response(JSON.stringify(body), {
     status: init?.status ?? 200,
@@ -255,6 +256,7 @@ export async function GET(request: Request) {
           listingTitle: listingTitle || '—',
           amount,
           platformFee,
+          salesTax: typeof d.salesTax?.amount === 'number' ? d.salesTax.amount : 0,
           sellerId: (d.sellerId as string) || '',
           status: (d.status as string) || '',
         };
@@ -263,6 +265,9 @@ export async function GET(request: Request) {
       .sort((a, b) => new Date(b.paidAt).getTime() - new Date(a.paidAt).getTime())
       .slice(0, MAX_TRANSACTIONS);
 
+    // Sales tax collected in the period (from each order's immutable tax snapshot; passed through to sellers).
+    const salesTax = summarizeSalesTax(ordersSnapshot.docs.map((doc) => doc.data() as any));
+
     logInfo('Revenue report generated', {
       route: '/api/admin/revenue',
       adminId,
@@ -301,6 +306,7 @@ export async function GET(request: Request) {
         last30Days: ordersCount30d,
         inPeriod: ordersSnapshot.size,
       },
+      salesTax,
       transactions,
       generatedAt: new Date().toISOString(),
     });
@@ -2,6 +2,7 @@
  * POST /api/admin/reviews/[orderId]/moderate
  *
  * Admin-only: hide/unhide/flag a review with reason.
+ * `target: 'response'` moderates the seller's public response instead (published | hidden).
  */
 import { requireAdmin, requireRateLimit, json } from '@/app/api/admin/_util';
 import { getFirestore, Timestamp } from 'firebase-admin/firestore';
@@ -30,7 +31,9 @@ export async function POST(request: Request, ctx: { params: { orderId: string }
   }
   const nextStatus = String(body?.status || '').trim();
   const reason = typeof body?.reason === 'string' ? body.reason.trim() : null;
-  if (!['published', 'hidden', 'flagged'].includes(nextStatus)) {
+  const target = body?.target === 'response' ? 'response' : 'review';
+  const allowedStatuses = target === 'response' ? ['published', 'hidden'] : ['published', 'hidden', 'flagged'];
+  if (!allowedStatuses.includes(nextStatus)) {
     return json({ ok: false, error: 'Invalid status' }, { status: 400 });
   }
 
@@ -42,6 +45,27 @@ export async function POST(request: Request, ctx: { params: { orderId: string }
       const snap = await tx.get(reviewRef);
       if (!(snap as any).exists) throw new Error('Review not found');
       const review = (snap as any).data() as any;
+
+      // Seller response: no aggregate impact, just flip its visibility.
+      if (target === 'response') {
+        if (!review?.sellerResponse) throw new Error('Response not found');
+        tx.set(
+          reviewRef,
+          {
+            sellerResponse: {
+              ...review.sellerResponse,
+              status: nextStatus,
+              moderatedAt: now,
+              moderatedBy: actorUid,
+              moderationReason: reason || null,
+            },
+            updatedAt: now,
+          },
+          { merge: true }
+        );
+        return;
+      }
+
       const prevStatus = String(review?.status || 'published');
 
       if (prevStatus === nextStatus) return;
@@ -89,13 +113,14 @@ export async function POST(request: Request, ctx: { params: { orderId: string }
       actorRole: 'admin',
       actionType: 'review_moderated',
       orderId,
-      metadata: { status: nextStatus, reason: reason || null },
+      metadata: { target, status: nextStatus, reason: reason || null },
       source: 'admin_ui',
     });
 
     return json({ ok: true });
   } catch (e: any) {
     if (String(e?.message || '') === 'Review not found') return json({ ok: false, error: 'Review not found' }, { status: 404 });
+    if (String(e?.message || '') === 'Response not found') return json({ ok: false, error: 'Response not found' }, { status: 404 });
     return json({ ok: false, error: e?.message || 'Failed to moderate review' }, { status: 500 });
   }
 }
@@ -47,6 +47,15 @@ export async function GET(request: Request, ctx: { params: { orderId: string } }
       moderatedAt: tsToIso(data.moderatedAt),
       moderatedBy: data.moderatedBy || null,
       moderationReason: data.moderationReason || null,
+      sellerResponse: data.sellerResponse
+        ? {
+            text: data.sellerResponse.text || '',
+            status: data.sellerResponse.status || 'published',
+            createdAt: tsToIso(data.sellerResponse.createdAt),
+            updatedAt: tsToIso(data.sellerResponse.updatedAt),
+            moderationReason: data.sellerResponse.moderationReason || null,
+          }
+        : null,
     },
   });
 }
@@ -13,8 +13,11 @@ import { rateLimitMiddleware, RATE_LIMITS } from '@/lib/rate-limit';
 import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
 import { getSiteUrl } from '@/lib/site-url';
 import { emitAndProcessEventForUser } from '@/lib/notifications';
-import { computeNextState, getMinIncrementCents, type AutoBidEntry } from '@/lib/auctions/proxyBidding';
+import { computeNextState, type AutoBidEntry } from '@/lib/auctions/proxyBidding';
+import { getMinNextBidCents, resolveBidIncrementLadder } from '@/lib/auctions/bidIncrements';
+import { normalizeCategory } from '@/lib/listings/normalizeCategory';
 import { tryDispatchEmailJobNow } from '@/lib/email/dispatchEmailJobNow';
+import { getBlockedUserIds, isBlockedBetween, USER_BLOCKED_ERROR } from '@/lib/safety/blocks';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -83,6 +86,9 @@ export async function POST(request: Request, ctx: { params: Promise<{ auctionId:
       if (listing.type !== 'auction') throw new Error('Auto-bid is only available for auctions');
       if (listing.status !== 'active') throw new Error('Auction is not active');
       if (listing.sellerId === userId) throw new Error('Cannot auto-bid on your own listing');
+      if (await isBlockedBetween(db, userId, String(listing.sellerId || ''))) {
+        throw Object.assign(new Error(USER_BLOCKED_ERROR.message), { code: USER_BLOCKED_ERROR.code, status: 403 });
+      }
       if (listing.endsAt?.toDate) {
         const endsAt = listing.endsAt.toDate() as Date;
         if (endsAt.getTime() <= Date.now()) throw new Error('This auction has ended');
@@ -102,8 +108,15 @@ export async function POST(request: Request, ctx: { params: Promise<{ auctionId:
           ? Number(listing.startingBidCents)
           : Math.max(0, Math.round(startingBidUsd * 100));
 
+      let category: string | undefined;
+      try {
+        category = normalizeCategory(listing.category);
+      } catch {
+        category = undefined;
+      }
+      const incrementLadder = resolveBidIncrementLadder({ category, bidIncrementLadder: listing.bidIncrementLadder });
       const hasAnyBids = Boolean(listing.currentBidderId) || Number(listing?.metrics?.bidCount || 0) > 0;
-      const minRequiredCents = hasAnyBids ? currentBidCents + getMinIncrementCents(currentBidCents) : startingBidCents;
+      const minRequiredCents = getMinNextBidCents({ currentBidCents, startingBidCents, hasAnyBids, ladder: incrementLadder });
       if (maxBidCents < minRequiredCents) {
         throw new Error(`Max bid must be at least $${(minRequiredCents / 100).toLocaleString()}`);
       }
@@ -135,10 +148,15 @@ export async function POST(request: Request, ctx: { params: Promise<{ auctionId:
         };
       });
 
-      const merged: AutoBidEntry[] = [...autoBidSet.filter((e) => e.userId !== userId), { userId, maxBidCents, enabled: true, createdAtMs }];
+      // A block placed after a max bid was set takes that max bid out of proxy bidding.
+      const blockedAutoBidders = await getBlockedUserIds(db, String(listing.sellerId || ''), autoBidSet.map((e) => e.userId));
+      const merged: AutoBidEntry[] = [
+        ...autoBidSet.filter((e) => e.userId !== userId && !blockedAutoBidders.has(e.userId)),
+        { userId, maxBidCents, enabled: true, createdAtMs },
+      ];
       const prevBidderId = typeof listing.currentBidderId === 'string' ? listing.currentBidderId : null;
 
-      const out = computeNextState({ currentBidCents, highBidderId: prevBidderId, autoBidSet: merged });
+      const out = computeNextState({ currentBidCents, highBidderId: prevBidderId, autoBidSet: merged, incrementLadder });
       const newCurrentBidCents = out.newCurrentBidCents;
       const newHighBidderId = out.newHighBidderId;
       const priceMoved = newCurrentBidCents !== currentBidCents;
@@ -284,7 +302,10 @@ export async function POST(request: Request, ctx: { params: Promise<{ auctionId:
 
     return json(result);
   } catch (e: any) {
-    return json({ ok: false, error: e?.message || 'Failed to set auto-bid' }, { status: 400 });
+    return json(
+      { ok: false, error: e?.message || 'Failed to set auto-bid', ...(e?.code ? { code: e.code } : {}) },
+      { status: e?.status === 403 ? 403 : 400 }
+    );
   }
 }
 
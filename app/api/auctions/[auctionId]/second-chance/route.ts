@@ -0,0 +1,189 @@
+/**
+ * /api/auctions/[auctionId]/second-chance
+ *
+ * GET  - Seller: eligibility + ranked bidders for a second-chance offer.
+ * POST - Seller: send a time-limited second-chance offer to one bidder.
+ *
+ * The offer is a normal Best Offer doc (status `countered`), so the buyer accepts/declines and pays
+ * through the existing offer routes + checkout. See lib/auctions/secondChance.ts for the state machine.
+ *
+ * POST body: { buyerId: string, amount: number (USD), expiresInHours?: number, note?: string }
+ */
+
+import { z } from 'zod';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { createAuditLog } from '@/lib/audit/logger';
+import { emitAndProcessEventForUser } from '@/lib/notifications';
+import { getSiteUrl } from '@/lib/site-url';
+import { tryDispatchEmailJobNow } from '@/lib/email/dispatchEmailJobNow';
+import { captureException } from '@/lib/monitoring/capture';
+import {
+  SECOND_CHANCE_OFFER_DEFAULT_HOURS,
+  SECOND_CHANCE_OFFER_MAX_HOURS,
+  SECOND_CHANCE_OFFER_MIN_HOURS,
+  SECOND_CHANCE_SOURCE_STATUSES,
+  createSecondChanceOffer,
+  listSecondChanceCandidates,
+} from '@/lib/auctions/secondChance';
+import { getBuyerReputationSummaries, type BuyerReputationSummary } from '@/lib/reviews/buyerReputation';
+import type { AuctionResultStatus } from '@/lib/types/auctionResult';
+import { json, offerAmountSchema, requireAuth, requireRateLimit } from '../../../offers/_util';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const MAX_CANDIDATES_RETURNED = 10;
+
+const bodySchema = z.object({
+  buyerId: z.string().min(1),
+  amount: offerAmountSchema,
+  expiresInHours: z.number().int().min(SECOND_CHANCE_OFFER_MIN_HOURS).max(SECOND_CHANCE_OFFER_MAX_HOURS).optional(),
+  note: z.string().max(500).optional(),
+});
+
+function tsToIso(v: any): string | null {
+  return typeof v?.toDate === 'function' ? v.toDate().toISOString() : null;
+}
+
+export async function GET(request: Request, ctx: { params: { auctionId: string } }) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+  const sellerId = auth.decoded.uid;
+  const listingId = String(ctx.params?.auctionId || '');
+  if (!listingId) return json({ ok: false, error: 'auctionId is required' }, { status: 400 });
+
+  try {
+    const db = getAdminDb();
+    const [listingSnap, resultSnap] = await Promise.all([
+      db.collection('listings').doc(listingId).get(),
+      db.collection('auctionResults').doc(listingId).get(),
+    ]);
+    if (!listingSnap.exists) return json({ ok: false, error: 'Listing not found' }, { status: 404 });
+    const listing = listingSnap.data() as any;
+    if (String(listing?.sellerId || '') !== sellerId) return json({ ok: false, error: 'Forbidden' }, { status: 403 });
+
+    const ar = resultSnap.exists ? (resultSnap.data() as any) : null;
+    const status = (ar?.status ? String(ar.status) : null) as AuctionResultStatus | null;
+    const isSold = listing?.status === 'sold' || Boolean(listing?.soldAt);
+    const eligible = Boolean(status && SECOND_CHANCE_SOURCE_STATUSES.includes(status)) && !isSold;
+
+    const candidates = (ar ? await listSecondChanceCandidates({ db, listingId, auctionResult: ar }) : []).slice(
+      0,
+      MAX_CANDIDATES_RETURNED
+    );
+    const reputation: Record<string, BuyerReputationSummary | null> = await getBuyerReputationSummaries(
+      db,
+      candidates.map((c) => c.userId)
+    ).catch(() => ({}));
+
+    return json({
+      ok: true,
+      eligible,
+      status,
+      reservePrice: typeof ar?.reservePriceCents === 'number' ? ar.reservePriceCents / 100 : null,
+      deadlineAt: tsToIso(ar?.secondChanceDeadlineAt),
+      pending: ar?.secondChance
+        ? {
+            offerId: String(ar.secondChance.offerId || ''),
+            buyerId: String(ar.secondChance.buyerId || ''),
+            amount: Number(ar.secondChance.amountCents || 0) / 100,
+            expiresAt: tsToIso(ar.secondChance.expiresAt),
+          }
+        : null,
+      defaultExpiresInHours: SECOND_CHANCE_OFFER_DEFAULT_HOURS,
+      candidates: candidates.map((c, i) => ({
+        buyerId: c.userId,
+        rank: i + 1,
+        maxBid: c.maxBidCents / 100,
+        buyerReputation: reputation[c.userId] ?? null,
+      })),
+    });
+  } catch (e: any) {
+    return json({ ok: false, error: 'Failed to load second-chance candidates', message: e?.message || String(e) }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request, ctx: { params: { auctionId: string } }) {
+  const rate = await requireRateLimit(request);
+  if (!rate.ok) return rate.response;
+
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+  const sellerId = auth.decoded.uid;
+  const listingId = String(ctx.params?.auctionId || '');
+  if (!listingId) return json({ ok: false, error: 'auctionId is required' }, { status: 400 });
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return json({ ok: false, error: 'Invalid JSON' }, { status: 400 });
+  }
+  const parsed = bodySchema.safeParse(body);
+  if (!parsed.success) return json({ ok: false, error: 'Invalid request', details: parsed.error.flatten() }, { status: 400 });
+
+  const db = getAdminDb();
+  try {
+    const result = await createSecondChanceOffer({
+      db: db as any,
+      listingId,
+      sellerId,
+      buyerId: parsed.data.buyerId,
+      amountUsd: parsed.data.amount,
+      expiresInHours: parsed.data.expiresInHours,
+      note: parsed.data.note,
+    });
+    if (!result.ok) return json({ ok: false, error: result.message, code: result.code }, { status: result.status });
+
+    try {
+      await createAuditLog(db, {
+        actorUid: sellerId,
+        actorRole: 'seller',
+        actionType: 'offer_second_chance_sent',
+        listingId,
+        targetUserId: result.buyerId,
+        metadata: { offerId: result.offerId, amount: result.amount },
+        source: 'seller_ui',
+      });
+    } catch (e) {
+      console.error('[second-chance] audit log failed (ignored)', e);
+    }
+
+    try {
+      const ev = await emitAndProcessEventForUser({
+        type: 'Auction.SecondChanceOffered',
+        actorId: sellerId,
+        entityType: 'listing',
+        entityId: listingId,
+        targetUserId: result.buyerId,
+        payload: {
+          type: 'Auction.SecondChanceOffered',
+          offerId: result.offerId,
+          listingId,
+          listingTitle: result.listingTitle || 'an auction',
+          offerUrl: `${getSiteUrl()}/dashboard/offers`,
+          amount: result.amount,
+          expiresAt: result.expiresAt.toDate().toISOString(),
+        },
+        optionalHash: `offer:${result.offerId}:second_chance`,
+      });
+      if (ev?.ok && typeof ev?.eventId === 'string') {
+        void tryDispatchEmailJobNow({ db: db as any, jobId: ev.eventId, waitForJob: true }).catch((err) => {
+          captureException(err instanceof Error ? err : new Error(String(err)), {
+            context: 'email-dispatch',
+            eventType: 'Auction.SecondChanceOffered',
+            jobId: ev.eventId,
+            offerId: result.offerId,
+            endpoint: '/api/auctions/[auctionId]/second-chance',
+          });
+        });
+      }
+    } catch {
+      // best-effort
+    }
+
+    return json({ ok: true, offerId: result.offerId, expiresAt: result.expiresAt.toDate().toISOString() });
+  } catch (e: any) {
+    return json({ ok: false, error: 'Failed to send second-chance offer', message: e?.message || String(e) }, { status: 500 });
+  }
+}
@@ -8,6 +8,7 @@
 import { z } from 'zod';
 import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
 import { rateLimitMiddleware, RATE_LIMITS } from '@/lib/rate-limit';
+import { getIncrementFromLadder, resolveBidIncrementLadder } from '@/lib/auctions/bidIncrements';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -227,6 +228,8 @@ export async function GET(request: Request) {
       const endsAtMs = tsToMillis(listing?.endsAt);
       const isEnded = typeof endsAtMs === 'number' ? endsAtMs <= now : false;
       const currentHighestBid = Number(listing?.currentBid ?? listing?.startingBid ?? 0);
+      const minIncrement =
+        getIncrementFromLadder(Math.round(currentHighestBid * 100), resolveBidIncrementLadder(listing)) / 100;
       // Normalize to string for reliable comparison (listing.currentBidderId is the source of truth)
       const currentHighestBidderId = (listing?.currentBidderId != null && String(listing.currentBidderId).trim() !== '')
         ? String(listing.currentBidderId).trim()
@@ -254,6 +257,7 @@ export async function GET(request: Request) {
         myBidCount: g.myBidCount,
         myLastBidAt: g.myLastBidAt,
         currentHighestBid,
+        minIncrement,
         endsAt: endsAtMs,
         status,
       };
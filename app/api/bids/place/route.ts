@@ -5,6 +5,8 @@
  * - Prevents bypassing listing.status gates
  * - Enforces TX-only for animal categories
  * - Enforces auction not ended
+ * - Blocks bids between users who have blocked each other
+ * - Applies anti-sniping soft-close (late qualifying bids extend endsAt/endAt)
  *
  * Body: { listingId: string; amount: number }
  */
@@ -16,10 +18,15 @@ import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
 import { getSiteUrl } from '@/lib/site-url';
 import { emitAndProcessEventForUser, emitEventForUser } from '@/lib/notifications';
 import { tryDispatchEmailJobNow } from '@/lib/email/dispatchEmailJobNow';
-import { computeNextState, getMinIncrementCents, type AutoBidEntry } from '@/lib/auctions/proxyBidding';
+import { computeNextState, type AutoBidEntry } from '@/lib/auctions/proxyBidding';
+import { getMinNextBidCents, resolveBidIncrementLadder } from '@/lib/auctions/bidIncrements';
+import { computeSoftCloseExtension, resolveSoftCloseConfig } from '@/lib/auctions/softClose';
+import { listListingWatcherIds } from '@/lib/listings/watchers';
 import { normalizeCategory } from '@/lib/listings/normalizeCategory';
-import { isTexasOnlyCategory } from '@/lib/compliance/requirements';
+import { getCategoryRequirements } from '@/lib/compliance/requirements';
+import { resolveStateCompliance } from '@/lib/compliance/stateRules';
 import { coerceDurationDays, computeEndAt, toMillisSafe } from '@/lib/listings/duration';
+import { getBlockedUserIds, isBlockedBetween, USER_BLOCKED_ERROR } from '@/lib/safety/blocks';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -138,17 +145,17 @@ export async function POST(request: Request) {
   }
 
   try {
-    let eventInfo:
-      | {
-          listingId: string;
-          listingTitle: string;
-          listingUrl: string;
-          endsAtIso?: string;
-          sellerId?: string;
-          prevBidderId?: string;
-          newBidderId: string;
-        }
-      | null = null;
+    // Cast (not annotate) so TS doesn't narrow to `null` — it's assigned inside the transaction callback.
+    let eventInfo = null as {
+      listingId: string;
+      listingTitle: string;
+      listingUrl: string;
+      endsAtIso?: string;
+      sellerId?: string;
+      prevBidderId?: string;
+      newBidderId: string;
+      extension?: { endsAtIso: string; previousEndsAtIso: string; extensionCount: number };
+    } | null;
 
     const result = await db.runTransaction(async (tx) => {
       const listingRef = db.collection('listings').doc(listingId);
@@ -163,7 +170,11 @@ export async function POST(request: Request) {
       }
 
       if (listing.sellerId === bidderId) throw new BidError({ code: 'OWN_LISTING', message: 'Cannot bid on your own listing', status: 400 });
+      if (await isBlockedBetween(db, bidderId, String(listing.sellerId || ''))) {
+        throw new BidError({ code: USER_BLOCKED_ERROR.code, message: USER_BLOCKED_ERROR.message, status: 403 });
+      }
       if (listing.type !== 'auction') throw new BidError({ code: 'NOT_AUCTION', message: 'Bids can only be placed on auction listings', status: 400 });
+      if (listing.status === 'scheduled') throw new BidError({ code: 'LISTING_NOT_STARTED', message: 'This auction has not started yet', status: 400 });
       if (listing.status !== 'active') throw new BidError({ code: 'LISTING_NOT_ACTIVE', message: 'Bids can only be placed on active listings', status: 400 });
 
       // End guard (server authoritative):
@@ -184,17 +195,27 @@ export async function POST(request: Request) {
         throw new BidError({ code: 'LISTING_ENDED', message: 'This listing has ended', status: 409 });
       }
 
-      // TX-only for animals (buyer + listing)
-      if (isTexasOnlyCategory(listingCategory as any)) {
-        if (listing.location?.state !== 'TX') {
-          throw new BidError({ code: 'TX_ONLY_LISTING', message: 'Animal listings must be located in Texas.', status: 400 });
+      // State rules for animals (listing origin + bidder state; see lib/compliance/stateRules.ts)
+      if (getCategoryRequirements(listingCategory as any).texasOnly) {
+        const listingState = resolveStateCompliance({ category: listingCategory as any, originState: listing.location?.state });
+        if (listingState.code === 'LISTING_STATE_NOT_SUPPORTED') {
+          throw new BidError({ code: 'LISTING_STATE_NOT_SUPPORTED', message: listingState.message || 'Listing state not supported', status: 400 });
         }
 
         const userRef = db.collection('users').doc(bidderId);
         const userSnap = await tx.get(userRef);
         const userData = userSnap.exists ? (userSnap.data() as any) : null;
         const buyerState = userData?.profile?.location?.state;
-        if (buyerState !== 'TX') throw new BidError({ code: 'TX_ONLY_BUYER', message: 'Only Texas residents can bid on animal listings.', status: 400 });
+        const route = resolveStateCompliance({ category: listingCategory as any, originState: listing.location?.state, destinationState: buyerState });
+        if (!buyerState || !route.allowed) {
+          throw new BidError({
+            code: 'BUYER_STATE_NOT_ALLOWED',
+            message: !buyerState
+              ? 'Please add your state to your profile location before bidding on animal listings.'
+              : route.message || 'This listing cannot be sold to your state.',
+            status: 400,
+          });
+        }
       }
 
       const now = Timestamp.now();
@@ -213,9 +234,10 @@ export async function POST(request: Request) {
 
       const amountCents = Math.max(0, Math.round(amount * 100));
 
-      // Enforce minimum increment server-side.
+      // Enforce minimum increment server-side (category/listing ladder; same resolver as the bid UI).
+      const incrementLadder = resolveBidIncrementLadder({ category: listingCategory, bidIncrementLadder: listing.bidIncrementLadder });
       const hasAnyBids = Boolean(listing.currentBidderId) || Number(listing?.metrics?.bidCount || 0) > 0;
-      const minRequiredCents = hasAnyBids ? currentBidCents + getMinIncrementCents(currentBidCents) : startingBidCents;
+      const minRequiredCents = getMinNextBidCents({ currentBidCents, startingBidCents, hasAnyBids, ladder: incrementLadder });
       if (amountCents < minRequiredCents) {
         throw new BidError({
           code: 'BID_TOO_LOW',
@@ -257,9 +279,12 @@ export async function POST(request: Request) {
         };
       });
 
+      // Max bids of users blocked with the seller (blocked after setting them) never bid.
+      const blockedAutoBidders = await getBlockedUserIds(db, String(listing.sellerId || ''), autoBidSet.map((e) => e.userId));
+
       // Ensure bidder's updated max is represented.
       const mergedAutoBidSet: AutoBidEntry[] = [
-        ...autoBidSet.filter((e) => e.userId !== bidderId),
+        ...autoBidSet.filter((e) => e.userId !== bidderId && !blockedAutoBidders.has(e.userId)),
         { userId: bidderId, maxBidCents: amountCents, enabled: true, createdAtMs },
       ];
 
@@ -268,6 +293,7 @@ export async function POST(request: Request) {
         currentBidCents,
         highBidderId: prevBidderId,
         autoBidSet: mergedAutoBidSet,
+        incrementLadder,
       });
 
       const newCurrentBidCents = out.newCurrentBidCents;
@@ -277,6 +303,18 @@ export async function POST(request: Request) {
       const priceMoved = newCurrentBidCents !== currentBidCents;
       const highBidderChanged = newHighBidderId && newHighBidderId !== prevBidderId;
 
+      // Soft-close: only bids that visibly move the auction can extend it.
+      const softClose =
+        (priceMoved || highBidderChanged) && endMs
+          ? computeSoftCloseExtension({
+              endMs,
+              nowMs,
+              extensionCount: Number(listing.softCloseExtensionCount || 0) || 0,
+              config: resolveSoftCloseConfig(listing),
+            })
+          : null;
+      const extension = softClose && softClose.extended ? softClose : null;
+
       const bidsCol = db.collection('bids');
       const bidWrites: Array<{ id: string; bidderId: string; amountCents: number; isAuto: boolean }> = [];
 
@@ -337,6 +375,16 @@ export async function POST(request: Request) {
           updatedBy: bidderId,
           'metrics.bidCount': FieldValue.increment(bidWrites.length),
           'metrics.lastBidAt': FieldValue.serverTimestamp(),
+          ...(extension
+            ? {
+                // Keep both end fields in lockstep so finalizeAuctions/expireListings/bid guard all agree.
+                endsAt: Timestamp.fromMillis(extension.endMs),
+                ...(listing.endAt ? { endAt: Timestamp.fromMillis(extension.endMs) } : {}),
+                softCloseExtensionCount: extension.extensionCount,
+                ...(listing.originalEndsAt ? {} : { originalEndsAt: Timestamp.fromMillis(extension.previousEndMs) }),
+                lastExtendedAt: now,
+              }
+            : {}),
         });
       } else {
         // No visible change; only max increased.
@@ -359,7 +407,11 @@ export async function POST(request: Request) {
       }
 
       // Capture info for notification events after tx commits.
-      const endsAt = listing.endsAt?.toDate ? (listing.endsAt.toDate() as Date) : undefined;
+      const endsAt = extension
+        ? new Date(extension.endMs)
+        : listing.endsAt?.toDate
+          ? (listing.endsAt.toDate() as Date)
+          : undefined;
       eventInfo = {
         listingId,
         listingTitle: listing.title || 'a listing',
@@ -368,6 +420,15 @@ export async function POST(request: Request) {
         ...(listing.sellerId ? { sellerId: listing.sellerId } : {}),
         ...(prevBidderId ? { prevBidderId } : {}),
         newBidderId: newHighBidderId || prevBidderId || bidderId,
+        ...(extension
+          ? {
+              extension: {
+                endsAtIso: new Date(extension.endMs).toISOString(),
+                previousEndsAtIso: new Date(extension.previousEndMs).toISOString(),
+                extensionCount: extension.extensionCount,
+              },
+            }
+          : {}),
       };
 
       return {
@@ -379,6 +440,9 @@ export async function POST(request: Request) {
         priceMoved,
         highBidderChanged,
         yourMaxBid: amountCents / 100,
+        ...(extension
+          ? { extended: true, endsAt: new Date(extension.endMs).toISOString(), softCloseExtensionCount: extension.extensionCount }
+          : {}),
       };
     });
 
@@ -400,7 +464,7 @@ export async function POST(request: Request) {
 
     // Notification events (outside tx, idempotent)
     if (eventInfo) {
-      const { sellerId, prevBidderId, listingTitle, listingUrl, endsAtIso, newBidderId } = eventInfo;
+      const { sellerId, prevBidderId, listingTitle, listingUrl, endsAtIso, newBidderId, extension } = eventInfo;
 
       // Seller: bid received (low priority but useful)
       if (sellerId) {
@@ -501,6 +565,40 @@ export async function POST(request: Request) {
         });
         if (immediateOutbidRes?.created) void trySendEmailJob(immediateOutbidRes.eventId);
       }
+
+      // Soft-close extension: surface the new end time to watchers, the seller and the displaced bidder.
+      // Sent in parallel so bid latency doesn't grow with the watcher count; watchers are only enqueued
+      // (the scheduled processor delivers them), the seller and displaced bidder are processed inline.
+      if (extension) {
+        const immediate = new Set<string>();
+        if (sellerId) immediate.add(sellerId);
+        if (prevBidderId) immediate.add(prevBidderId);
+        immediate.delete(bidderId);
+        const watcherIds = (await listListingWatcherIds(db as any, listingId)).filter(
+          (uid) => uid !== bidderId && !immediate.has(uid)
+        );
+        const extensionEvent = {
+          type: 'Auction.Extended' as const,
+          actorId: bidderId,
+          entityType: 'listing' as const,
+          entityId: listingId,
+          payload: {
+            type: 'Auction.Extended' as const,
+            listingId,
+            listingTitle,
+            listingUrl,
+            endsAt: extension.endsAtIso,
+            previousEndsAt: extension.previousEndsAtIso,
+            extensionCount: extension.extensionCount,
+            currentBidAmount: result.newCurrentBid,
+          },
+          optionalHash: `ext:${extension.extensionCount}`,
+        };
+        await Promise.allSettled([
+          ...Array.from(immediate).map((uid) => emitAndProcessEventForUser({ ...extensionEvent, targetUserId: uid })),
+          ...watcherIds.map((uid) => emitEventForUser({ ...extensionEvent, targetUserId: uid })),
+        ]);
+      }
     }
 
     return json({ ok: true, ...result });
@@ -0,0 +1,69 @@
+/**
+ * GET /api/listings/[id]/animal-history
+ *
+ * On-platform transfer history of the animal a listing offers (animal registry).
+ * - No auth required (public listing pages)
+ * - Rate limited
+ * - Dates, event types and states only; no user ids, order ids or prices
+ */
+
+import { z } from 'zod';
+import { rateLimitMiddleware, RATE_LIMITS } from '@/lib/rate-limit';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { getAnimalTransferHistory } from '@/lib/animals/registry';
+
+const paramsSchema = z.object({
+  id: z.string().min(1),
+});
+
+/** Listings the public can't see don't expose their animal either. */
+const HIDDEN_STATUSES = new Set(['draft', 'pending', 'removed']);
+
+function json(body: any, init?: { status?: number; headers?: Record<string, string> }) {
+  return new Response(JSON.stringify(body), {
+    status: init?.status ?? 200,
+    headers: {
+      'content-type': 'application/json',
+      ...(init?.headers || {}),
+    },
+  });
+}
+
+export async function GET(request: Request, ctx: { params: Promise<{ id: string }> }) {
+  const rateLimitCheck = rateLimitMiddleware(RATE_LIMITS.default);
+  const rateLimitResult = await rateLimitCheck(request as any);
+  if (!rateLimitResult.allowed) {
+    return json(rateLimitResult.body, {
+      status: rateLimitResult.status,
+      headers: { 'Retry-After': rateLimitResult.body.retryAfter.toString() },
+    });
+  }
+
+  const rawParams = await ctx.params;
+  const parsed = paramsSchema.safeParse(rawParams);
+  if (!parsed.success) return json({ error: 'Invalid id' }, { status: 400 });
+
+  const { id } = parsed.data;
+  const db = getAdminDb();
+
+  try {
+    const snap = await db.collection('listings').doc(id).get();
+    const listing = snap.exists ? (snap.data() as any) : null;
+    if (!listing || HIDDEN_STATUSES.has(String(listing.status || ''))) {
+      return json({ ok: false, error: 'Listing not found' }, { status: 404 });
+    }
+
+    const animalId = Array.isArray(listing.animalIds) && listing.animalIds.length > 0 ? String(listing.animalIds[0]) : null;
+    if (!animalId) return json({ ok: true, registered: false, priorSales: 0, history: [] });
+
+    const { priorSales, history } = await getAnimalTransferHistory(db as any, animalId);
+    return json({
+      ok: true,
+      registered: true,
+      priorSales,
+      history: history.map((h) => ({ type: h.type, at: h.at.toISOString(), state: h.state })),
+    });
+  } catch (e: any) {
+    return json({ ok: false, error: 'Failed to load animal history', message: e?.message || String(e) }, { status: 500 });
+  }
+}
@@ -19,6 +19,8 @@ import { z } from 'zod';
 import { rateLimitMiddleware, RATE_LIMITS } from '@/lib/rate-limit';
 import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
 import { deleteStoragePathsBestEffort, getStoragePathFromUrl } from '@/lib/firebase/storage-cleanup';
+import { runDocumentExtraction } from '@/lib/compliance/extraction';
+import { computeWhitetailInternalFlags, getExtractedPermitNumbers } from '@/lib/compliance/internalFlags';
 
 const bodySchema = z.object({
   documentUrl: z.string().url(),
@@ -109,12 +111,9 @@ export async function POST(
     if (expiresAt) docData.expiresAt = Timestamp.fromDate(new Date(expiresAt));
     if (metadata !== undefined) docData.metadata = metadata;
 
+    let docRef: FirebaseFirestore.DocumentReference;
     try {
-      const docRef = await documentsRef.add(docData);
-      return json({
-        success: true,
-        documentId: docRef.id,
-      });
+      docRef = await documentsRef.add(docData);
     } catch (e) {
       const path = getStoragePathFromUrl(documentUrl);
       if (path && path.startsWith(`listings/${listingId}/documents/`)) {
@@ -122,6 +121,30 @@ export async function POST(
       }
       throw e;
     }
+
+    // Propose permit fields for admin review (best-effort; never fails the upload).
+    const extraction = await runDocumentExtraction({
+      docRef,
+      documentUrl,
+      documentType: type,
+      entityPath: `listings/${listingId}`,
+      declaredAttributes: listingData.attributes || null,
+    });
+
+    // An extracted permit number can reveal a permit declared by another seller.
+    if (extraction?.fields.permitNumber && type === 'TPWD_BREEDER_PERMIT' && listingData.category === 'whitetail_breeder') {
+      try {
+        const flags = await computeWhitetailInternalFlags(db, listingData, await getExtractedPermitNumbers(db, listingId));
+        await listingRef.update({ ...flags, updatedAt: Timestamp.now() });
+      } catch (e) {
+        console.error('Failed to refresh listing internal flags after extraction', e);
+      }
+    }
+
+    return json({
+      success: true,
+      documentId: docRef.id,
+    });
   } catch (error: any) {
     console.error('Error uploading document:', error);
     return json({ error: error.message || 'Failed to upload document' }, { status: 500 });
@@ -153,6 +153,10 @@ export async function POST(
     bestOfferAutoAcceptPrice: typeof src?.bestOfferAutoAcceptPrice === 'number' ? src.bestOfferAutoAcceptPrice : FieldValue.delete(),
     bestOfferSettings: src?.bestOfferSettings && typeof src.bestOfferSettings === 'object' ? src.bestOfferSettings : FieldValue.delete(),
 
+    // Deposit terms (re-validated at checkout)
+    depositTerms: src?.depositTerms && typeof src.depositTerms === 'object' ? src.depositTerms : FieldValue.delete(),
+    installmentPlan: src?.installmentPlan && typeof src.installmentPlan === 'object' ? src.installmentPlan : FieldValue.delete(),
+
     // Protected Transaction (removed) — clear on duplicate
     protectedTransactionEnabled: FieldValue.delete(),
     protectedTransactionDays: FieldValue.delete(),
@@ -6,7 +6,7 @@
  *
  * eBay Rules Implemented:
  * - Once auction starts: Type, Duration, Starting Bid, Reserve Price are locked
- * - Once auction has bids: Title, Category, Location, Trust badges are also locked
+ * - Once auction has bids: Title, Category, Location, Trust badges and deposit terms are also locked
  * - Only Description, Photos, and some Attributes can be changed after bids exist
  * - Fixed price with offers: Price is locked once offers exist
  *
@@ -27,6 +27,10 @@ export const dynamic = 'force-dynamic';
 import { z } from 'zod';
 import { FieldValue, Timestamp } from 'firebase-admin/firestore';
 import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
+import { buildListingSearchTokens, LISTING_SEARCH_INDEX_VERSION } from '@/lib/search/listingSearchIndex';
+import { validateListingDepositTerms } from '@/lib/pricing/deposit';
+import { validateListingInstallmentPlan } from '@/lib/pricing/installments';
+import { geocodeListingLocation, listingLocationChanged } from '@/lib/geo/geocode';
 
 function json(body: any, init?: { status?: number }) {
   return new Response(JSON.stringify(body), {
@@ -57,6 +61,11 @@ const IMMUTABLE_OR_SERVER_ONLY_FIELDS = new Set([
   'purchaseReservedUntil',
   // status changes should be handled by publish/resubmit routes
   'status',
+  // Search index is derived server-side from the merged doc below
+  'searchTokens',
+  'searchIndexVersion',
+  // Geocoded server-side (publish, and below when the location changes)
+  'geo',
 ]);
 
 // Fields locked for ALL active auctions (eBay rule: once auction starts, these are locked)
@@ -86,6 +95,8 @@ const ACTIVE_AUCTION_WITH_BIDS_LOCKED_FIELDS = new Set([
   'subcategory',
   'location', // Location changes could affect shipping/transport
   'trust', // Trust badges shouldn't change mid-auction
+  'depositTerms', // Bidders bid on the deposit/balance terms shown
+  'installmentPlan',
 ]);
 
 // Fields locked for active fixed price listings WITH OFFERS (eBay rule: once offers exist, price is locked)
@@ -155,6 +166,20 @@ export async function PATCH(request: Request, ctx: { params: Promise<{ id: strin
     return json({ ok: false, error: 'Invalid category' }, { status: 400 });
   }
 
+  // Validate deposit terms if provided; null clears back to the platform default.
+  if (Object.prototype.hasOwnProperty.call(updates, 'depositTerms')) {
+    const deposit = validateListingDepositTerms(updates.depositTerms);
+    if (!deposit.ok) return json({ ok: false, error: deposit.message, code: 'INVALID_DEPOSIT_TERMS' }, { status: 400 });
+    updates.depositTerms = deposit.terms ?? FieldValue.delete();
+  }
+  if (Object.prototype.hasOwnProperty.call(updates, 'installmentPlan')) {
+    const installments = validateListingInstallmentPlan(updates.installmentPlan);
+    if (!installments.ok) {
+      return json({ ok: false, error: installments.message, code: 'INVALID_INSTALLMENT_PLAN' }, { status: 400 });
+    }
+    updates.installmentPlan = installments.plan ?? FieldValue.delete();
+  }
+
   const db = getAdminDb();
   const ref = db.collection('listings').doc(listingId);
   const snap = await ref.get();
@@ -179,10 +204,11 @@ export async function PATCH(request: Request, ctx: { params: Promise<{ id: strin
                       return false;
                     })();
 
-  // Universal rule: once active, duration cannot be changed/extended (eBay rule)
-  if (currentStatus === 'active') {
+  // Universal rule: once active, duration cannot be changed/extended (eBay rule).
+  // Scheduled listings are approved with startAt/endAt already computed, so the same applies.
+  if (currentStatus === 'active' || currentStatus === 'scheduled') {
     const requestedKeys = Object.keys(updates);
-    const blocked = requestedKeys.filter((k) => k === 'durationDays');
+    const blocked = requestedKeys.filter((k) => k === 'durationDays' || k === 'scheduledStartAt');
     if (blocked.length > 0) {
       return json(
         {
@@ -247,11 +273,27 @@ export async function PATCH(request: Request, ctx: { params: Promise<{ id: strin
     const ts = maybeTimestamp(updates.endsAt);
     updates.endsAt = ts ?? FieldValue.delete();
   }
+  if (Object.prototype.hasOwnProperty.call(updates, 'scheduledStartAt')) {
+    const ts = maybeTimestamp(updates.scheduledStartAt);
+    updates.scheduledStartAt = ts ?? FieldValue.delete();
+  }
   if (Object.prototype.hasOwnProperty.call(updates, 'featuredUntil')) {
     const ts = maybeTimestamp(updates.featuredUntil);
     updates.featuredUntil = ts ?? FieldValue.delete();
   }
 
+  // Keep near-me / delivers-to-me search in sync with the edited location. Drafts are geocoded at publish.
+  if (
+    currentStatus !== 'draft' &&
+    Object.prototype.hasOwnProperty.call(updates, 'location') &&
+    listingLocationChanged(current?.location, updates.location)
+  ) {
+    const geo = await geocodeListingLocation(updates.location);
+    updates.geo = geo ? { ...geo, geocodedAt: Timestamp.now() } : FieldValue.delete();
+  }
+
+  updates.searchTokens = buildListingSearchTokens({ ...current, ...updates });
+  updates.searchIndexVersion = LISTING_SEARCH_INDEX_VERSION;
   updates.updatedAt = FieldValue.serverTimestamp();
   updates.updatedBy = uid;
 
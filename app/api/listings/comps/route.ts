@@ -1,16 +1,19 @@
 /**
  * GET /api/listings/comps
  *
- * Returns similar sold comps for a given listing (Admin SDK query).
+ * Returns similar sold comps for a given listing (Admin SDK query), or for a draft that doesn't exist yet
+ * (new-listing price guidance).
  *
  * Query params:
- * - listingId (required)
+ * - listingId (existing listing), OR
+ * - category + state (required for drafts), speciesId / breed / sex / age (optional)
  * - windowDays (optional: 30 | 90, default 90)
  *
  * Output:
- * { comps: Array<{ listingId, title, soldAt, soldPriceCents, location, primaryImageUrl, urlSlug? }>, stats?: { count, medianCents, p25Cents, p75Cents } }
+ * { comps: Array<{ listingId, title, soldAt, soldPriceCents, location, primaryImageUrl, urlSlug? }>, stats?: { count, medianCents, p25Cents, p75Cents }, refinedBy?: Array<'sex' | 'age'> }
  */
 import { getAdminDb } from '@/lib/firebase/admin';
+import { computeSoldCompsStats, refineCompsByAttributes, type SoldCompsCriteria } from '@/lib/listings/soldComps';
 
 function json(body: any, init?: { status?: number }) {
   return new Response(JSON.stringify(body), {
@@ -24,24 +27,47 @@ function clampWindowDays(raw: string | null): 30 | 90 {
   return n === 30 ? 30 : 90;
 }
 
-function percentile(sorted: number[], p: number): number | null {
-  if (!sorted.length) return null;
-  const idx = (sorted.length - 1) * p;
-  const lo = Math.floor(idx);
-  const hi = Math.ceil(idx);
-  if (lo === hi) return sorted[lo] ?? null;
-  const a = sorted[lo] ?? 0;
-  const b = sorted[hi] ?? 0;
-  const t = idx - lo;
-  return Math.round(a + (b - a) * t);
+function nonEmptyString(v: unknown): string | null {
+  return typeof v === 'string' && v.trim() ? v.trim() : null;
+}
+
+function criteriaFromListing(listing: any): SoldCompsCriteria | null {
+  const category = nonEmptyString(listing?.category);
+  const state = nonEmptyString(listing?.location?.state);
+  if (!category || !state) return null;
+  const attrs = listing?.attributes || {};
+  return {
+    category,
+    state,
+    speciesId: nonEmptyString(attrs.speciesId),
+    breed: nonEmptyString(attrs.breed),
+    sex: nonEmptyString(attrs.sex),
+    age: typeof attrs.age === 'number' || typeof attrs.age === 'string' ? attrs.age : null,
+  };
+}
+
+function criteriaFromParams(sp: URLSearchParams): SoldCompsCriteria | null {
+  const category = nonEmptyString(sp.get('category'));
+  const state = nonEmptyString(sp.get('state'));
+  if (!category || !state) return null;
+  return {
+    category,
+    state: state.toUpperCase(),
+    speciesId: nonEmptyString(sp.get('speciesId')),
+    breed: nonEmptyString(sp.get('breed')),
+    sex: nonEmptyString(sp.get('sex')),
+    age: nonEmptyString(sp.get('age')),
+  };
 }
 
 export async function GET(request: Request) {
   const url = new URL(request.url);
-  const listingId = String(url.searchParams.get('listingId') || '').trim();
-  if (!listingId) return json({ error: 'listingId is required' }, { status: 400 });
+  const sp = url.searchParams;
+  const listingId = String(sp.get('listingId') || '').trim();
+  const draftCategory = String(sp.get('category') || '').trim();
+  if (!listingId && !draftCategory) return json({ error: 'listingId or category is required' }, { status: 400 });
 
-  const windowDays = clampWindowDays(url.searchParams.get('windowDays'));
+  const windowDays = clampWindowDays(sp.get('windowDays'));
 
   let db: ReturnType<typeof getAdminDb>;
   try {
@@ -50,25 +76,22 @@ export async function GET(request: Request) {
     return json({ error: 'Server not configured', message: e?.message }, { status: 503 });
   }
 
-  const listingSnap = await db.collection('listings').doc(listingId).get();
-  if (!listingSnap.exists) return json({ comps: [] });
-
-  const listing = listingSnap.data() as any;
-  const category = typeof listing?.category === 'string' ? listing.category : null;
-  const state = typeof listing?.location?.state === 'string' ? listing.location.state : null;
-  const speciesId =
-    typeof listing?.attributes?.speciesId === 'string' && listing.attributes.speciesId.trim()
-      ? String(listing.attributes.speciesId)
-      : null;
-  const breed =
-    typeof listing?.attributes?.breed === 'string' && listing.attributes.breed.trim()
-      ? String(listing.attributes.breed)
-      : null;
-
-  if (!category || !state) {
+  let criteria: SoldCompsCriteria | null;
+  if (listingId) {
+    const listingSnap = await db.collection('listings').doc(listingId).get();
+    if (!listingSnap.exists) return json({ comps: [] });
+    criteria = criteriaFromListing(listingSnap.data());
+  } else {
+    criteria = criteriaFromParams(sp);
+  }
+
+  if (!criteria) {
     // Can't match meaningfully without these basics; return empty.
     return json({ comps: [] });
   }
+  const { category, state } = criteria;
+  const speciesId = criteria.speciesId || null;
+  const breed = criteria.breed || null;
 
   const now = Date.now();
   const windowStart = new Date(now - windowDays * 24 * 60 * 60 * 1000);
@@ -83,7 +106,7 @@ export async function GET(request: Request) {
     .where('location.state', '==', state)
     .where('soldAt', '>=', windowStart)
     .orderBy('soldAt', 'desc')
-    .limit(30); // fetch extra to allow in-memory tightening + self-filter
+    .limit(50); // fetch extra to allow in-memory tightening (sex/age) + self-filter
 
   // If the listing has a stable match key (existing schema), include it.
   // We do NOT invent new fields.
@@ -101,7 +124,7 @@ export async function GET(request: Request) {
     return json({ comps: [], error: 'Failed to query comps', message: e?.message || String(e) }, { status: 200 });
   }
 
-  const comps = snap.docs
+  const priced = snap.docs
     .filter((d) => d.id !== listingId)
     .map((d) => {
       const data = d.data() as any;
@@ -125,23 +148,17 @@ export async function GET(request: Request) {
         },
         primaryImageUrl,
         urlSlug: typeof data?.urlSlug === 'string' ? data.urlSlug : undefined,
+        attributes: data?.attributes,
       };
     })
     .filter((c) => typeof c.soldPriceCents === 'number' && c.soldPriceCents > 0 && typeof c.soldAt === 'string');
 
-  const limited = comps.slice(0, 12);
+  // Tighten to same sex / age bucket when enough comps remain (not indexed; done in memory).
+  const refined = refineCompsByAttributes(priced, criteria);
+  const limited = refined.comps.slice(0, 12).map(({ attributes: _attributes, ...comp }) => comp);
 
-  const prices = limited.map((c) => c.soldPriceCents as number).filter((n) => Number.isFinite(n)).sort((a, b) => a - b);
-  const stats =
-    prices.length >= 3
-      ? {
-          count: prices.length,
-          medianCents: percentile(prices, 0.5) as number,
-          p25Cents: percentile(prices, 0.25) as number,
-          p75Cents: percentile(prices, 0.75) as number,
-        }
-      : undefined;
+  const stats = computeSoldCompsStats(limited.map((c) => c.soldPriceCents as number));
 
-  return json({ comps: limited, ...(stats ? { stats } : {}) });
+  return json({ comps: limited, ...(stats ? { stats } : {}), ...(refined.refinedBy.length ? { refinedBy: refined.refinedBy } : {}) });
 }
 
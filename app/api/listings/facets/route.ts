@@ -0,0 +1,58 @@
+/**
+ * GET /api/listings/facets
+ *
+ * Attribute facet counts for a category's active listings (see `lib/search/categoryFacets.ts`).
+ * Public; no auth required.
+ *
+ * Query params:
+ * - category (required) — must be a category with attribute facets
+ * - type (optional) — auction | fixed | classified
+ * - attr.<field>=a,b (optional) — current facet selections (counts are disjunctive)
+ */
+import { getAdminDb } from '@/lib/firebase/admin';
+import { attributeFacetsFromSearchParams, computeAttributeFacetCounts, getCategoryAttributeFacets } from '@/lib/search/categoryFacets';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/** Upper bound on docs scanned per request; `truncated` tells the client counts are partial. */
+const MAX_SCAN = 1000;
+
+function json(body: any, init?: { status?: number }) {
+  return new Response(JSON.stringify(body), {
+    status: init?.status ?? 200,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+export async function GET(request: Request) {
+  const sp = new URL(request.url).searchParams;
+  const category = String(sp.get('category') || '').trim();
+  if (!getCategoryAttributeFacets(category).length) {
+    return json({ ok: false, error: 'Unknown or unfaceted category' }, { status: 400 });
+  }
+  const type = sp.get('type');
+  const selections = attributeFacetsFromSearchParams(sp, category);
+
+  let db: ReturnType<typeof getAdminDb>;
+  try {
+    db = getAdminDb();
+  } catch {
+    return json({ ok: false, error: 'Server not configured' }, { status: 503 });
+  }
+
+  try {
+    let q: FirebaseFirestore.Query = db.collection('listings').where('status', '==', 'active').where('category', '==', category);
+    if (type === 'auction' || type === 'fixed' || type === 'classified') q = q.where('type', '==', type);
+    const snap = await q.select('category', 'attributes').limit(MAX_SCAN).get();
+    const docs = snap.docs.map((d) => d.data());
+    return json({
+      ok: true,
+      counts: computeAttributeFacetCounts(docs, category, selections),
+      total: docs.length,
+      truncated: snap.size >= MAX_SCAN,
+    });
+  } catch (e: any) {
+    return json({ ok: false, error: 'Failed to load facet counts', message: e?.message || String(e) }, { status: 500 });
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * GET /api/listings/nearby
+ *
+ * "Within X miles" listing search over geocoded listings (`geo.geohash`, set at publish time).
+ * Public; no auth required.
+ *
+ * Query params:
+ * - zip OR lat+lng (required) — search center; ZIP is geocoded server-side
+ * - radiusMiles (optional, default 50, max 500)
+ * - q (optional) — keyword filter using the same matching as /api/listings/search
+ * - type, category, state, featured, minPrice, maxPrice (optional) — same meaning as browse filters
+ * - deliversToLat, deliversToLng (optional) — only listings whose seller delivers to this point
+ * - sort (optional) — distance (default) | newest | priceAsc | priceDesc | endingSoon
+ * - limit (optional, default 24, max 60), cursor (optional, opaque `nextCursor`)
+ *
+ * Response includes `center` so the client can show per-card distance without re-geocoding.
+ */
+import { getAdminDb } from '@/lib/firebase/admin';
+import { normalizeFirestoreValue } from '@/lib/firebase/normalizeFirestoreValue';
+import {
+  distanceMiles,
+  geohashQueryBounds,
+  isValidLatLng,
+  MAX_SEARCH_RADIUS_MILES,
+  sellerDeliversTo,
+  type LatLng,
+} from '@/lib/geo/geohash';
+import { geocodeZip } from '@/lib/geo/geocode';
+import { parseSearchQuery, scoreListingForQuery } from '@/lib/search/listingSearchIndex';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const DEFAULT_RADIUS_MILES = 50;
+const DEFAULT_LIMIT = 24;
+const MAX_LIMIT = 60;
+/** Per geohash range; up to 9 ranges per search. */
+const MAX_CANDIDATES_PER_RANGE = 300;
+
+const SORTS = ['distance', 'newest', 'priceAsc', 'priceDesc', 'endingSoon'] as const;
+type NearbySort = (typeof SORTS)[number];
+
+function json(body: any, init?: { status?: number }) {
+  return new Response(JSON.stringify(body), {
+    status: init?.status ?? 200,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ o: offset }), 'utf8').toString('base64url');
+}
+
+function decodeCursor(raw: string | null): number {
+  if (!raw) return 0;
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    const o = Math.floor(Number(parsed?.o));
+    return Number.isFinite(o) && o > 0 ? o : 0;
+  } catch {
+    return 0;
+  }
+}
+
+function toMillis(v: any): number | null {
+  if (!v) return null;
+  if (typeof v?.toMillis === 'function') return v.toMillis();
+  if (typeof v?.toDate === 'function') return v.toDate().getTime();
+  const d = new Date(v);
+  return Number.isFinite(d.getTime()) ? d.getTime() : null;
+}
+
+function getPriceUsd(d: any): number {
+  if (d?.type === 'auction') return Number(d?.currentBid ?? d?.startingBid ?? 0) || 0;
+  return Number(d?.price ?? 0) || 0;
+}
+
+function isEndedAuction(d: any, nowMs: number): boolean {
+  if (d?.type !== 'auction' || d?.soldAt) return false;
+  const endMs = toMillis(d?.endAt) ?? toMillis(d?.endsAt);
+  return typeof endMs === 'number' && endMs <= nowMs;
+}
+
+export async function GET(request: Request) {
+  const sp = new URL(request.url).searchParams;
+
+  const radiusMiles = Math.min(MAX_SEARCH_RADIUS_MILES, Math.max(1, Number(sp.get('radiusMiles')) || DEFAULT_RADIUS_MILES));
+  const type = sp.get('type') || null;
+  const category = sp.get('category') || null;
+  const state = sp.get('state') || null;
+  const featured = sp.get('featured') === 'true';
+  const minPrice = sp.get('minPrice') !== null ? Number(sp.get('minPrice')) : null;
+  const maxPrice = sp.get('maxPrice') !== null ? Number(sp.get('maxPrice')) : null;
+  const queryTokens = parseSearchQuery(sp.get('q'));
+  const deliversToRaw = { lat: Number(sp.get('deliversToLat')), lng: Number(sp.get('deliversToLng')) };
+  const deliversTo = sp.get('deliversToLat') !== null && isValidLatLng(deliversToRaw) ? deliversToRaw : null;
+  const sortRaw = String(sp.get('sort') || 'distance');
+  const sort: NearbySort = (SORTS as readonly string[]).includes(sortRaw) ? (sortRaw as NearbySort) : 'distance';
+  const limit = Math.floor(Math.min(MAX_LIMIT, Math.max(1, Number(sp.get('limit')) || DEFAULT_LIMIT)));
+  const offset = decodeCursor(sp.get('cursor'));
+
+  let center: LatLng | null = null;
+  const latLng = { lat: Number(sp.get('lat')), lng: Number(sp.get('lng')) };
+  if (sp.get('lat') !== null && sp.get('lng') !== null && isValidLatLng(latLng)) {
+    center = latLng;
+  } else if (sp.get('zip')) {
+    center = await geocodeZip(sp.get('zip'));
+    if (!center) return json({ ok: false, error: 'Could not find that ZIP code', code: 'ZIP_NOT_FOUND', items: [] }, { status: 400 });
+  }
+  if (!center) return json({ ok: false, error: 'zip or lat/lng is required', items: [] }, { status: 400 });
+
+  let db: ReturnType<typeof getAdminDb>;
+  try {
+    db = getAdminDb();
+  } catch {
+    return json({ ok: false, error: 'Server not configured', items: [] }, { status: 503 });
+  }
+
+  const bounds = geohashQueryBounds(center, radiusMiles);
+  let snaps: FirebaseFirestore.QuerySnapshot[];
+  try {
+    snaps = await Promise.all(
+      bounds.map(([start, end]) =>
+        db
+          .collection('listings')
+          .where('status', '==', 'active')
+          .orderBy('geo.geohash')
+          .startAt(start)
+          .endAt(end)
+          .limit(MAX_CANDIDATES_PER_RANGE)
+          .get()
+      )
+    );
+  } catch (e: any) {
+    return json({ ok: false, error: 'Nearby search failed', message: e?.message || String(e), items: [] }, { status: 500 });
+  }
+
+  const nowMs = Date.now();
+  const seen = new Set<string>();
+  const matches: Array<{ id: string; data: any; distance: number }> = [];
+  for (const snap of snaps) {
+    for (const doc of snap.docs) {
+      if (seen.has(doc.id)) continue;
+      seen.add(doc.id);
+      const d = doc.data() as any;
+      if (!isValidLatLng(d?.geo)) continue;
+      const distance = distanceMiles(center, d.geo);
+      if (distance > radiusMiles) continue;
+      if (isEndedAuction(d, nowMs)) continue;
+      if (type && d?.type !== type) continue;
+      if (category && d?.category !== category) continue;
+      if (state && d?.location?.state !== state) continue;
+      if (featured && d?.featured !== true) continue;
+      const price = getPriceUsd(d);
+      if (minPrice !== null && Number.isFinite(minPrice) && price < minPrice) continue;
+      if (maxPrice !== null && Number.isFinite(maxPrice) && price > maxPrice) continue;
+      if (queryTokens.length && scoreListingForQuery(d, queryTokens) <= 0) continue;
+      if (
+        deliversTo &&
+        !sellerDeliversTo({ listingGeo: d.geo, maxDeliveryRadiusMiles: d?.deliveryDetails?.maxDeliveryRadiusMiles, buyer: deliversTo })
+      ) {
+        continue;
+      }
+      matches.push({ id: doc.id, data: d, distance });
+    }
+  }
+
+  matches.sort((a, b) => {
+    switch (sort) {
+      case 'newest':
+        return (toMillis(b.data?.createdAt) ?? 0) - (toMillis(a.data?.createdAt) ?? 0);
+      case 'priceAsc':
+        return getPriceUsd(a.data) - getPriceUsd(b.data);
+      case 'priceDesc':
+        return getPriceUsd(b.data) - getPriceUsd(a.data);
+      case 'endingSoon':
+        return (toMillis(a.data?.endsAt) ?? Number.MAX_SAFE_INTEGER) - (toMillis(b.data?.endsAt) ?? Number.MAX_SAFE_INTEGER);
+      default:
+        return a.distance - b.distance;
+    }
+  });
+
+  const page = matches.slice(offset, offset + limit);
+  const nextOffset = offset + page.length;
+  const hasMore = nextOffset < matches.length;
+
+  return json({
+    ok: true,
+    center,
+    radiusMiles,
+    items: page.map((m) => {
+      const { searchTokens: _tokens, ...rest } = m.data || {};
+      return { ...normalizeFirestoreValue(rest), id: m.id, distanceMiles: Math.round(m.distance * 10) / 10 };
+    }),
+    nextCursor: hasMore ? encodeCursor(nextOffset) : null,
+    hasMore,
+    total: matches.length,
+    truncated: snaps.some((s) => s.size >= MAX_CANDIDATES_PER_RANGE),
+  });
+}
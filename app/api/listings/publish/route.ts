@@ -7,7 +7,7 @@
 // IMPORTANT:
 // Avoid importing `NextRequest` / `NextResponse` from `next/server` in this repo.
 // Route handlers work fine with standard Web `Request` / `Response`.
-import { Timestamp, type Firestore } from 'firebase-admin/firestore';
+import { FieldValue, Timestamp, type Firestore } from 'firebase-admin/firestore';
 import { validateRequest } from '@/lib/validation/api-schemas';
 import { rateLimitMiddleware, RATE_LIMITS } from '@/lib/rate-limit';
 import { z } from 'zod';
@@ -15,6 +15,8 @@ import { getEffectiveSubscriptionTier, getTierWeight } from '@/lib/pricing/subsc
 import { logInfo, logError } from '@/lib/monitoring/logger';
 import { captureException } from '@/lib/monitoring/capture';
 import { validateListingCompliance } from '@/lib/compliance/validation';
+import { isComplianceDocumentExpired } from '@/lib/compliance/expiry';
+import { computeWhitetailInternalFlags, getExtractedPermitNumbers } from '@/lib/compliance/internalFlags';
 import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
 import { emitAndProcessEventForUser } from '@/lib/notifications';
 import { listAdminRecipientUids } from '@/lib/admin/adminRecipients';
@@ -22,6 +24,11 @@ import { normalizeCategory } from '@/lib/listings/normalizeCategory';
 import { getCategoryRequirements } from '@/lib/compliance/requirements';
 import { coerceDurationDays, computeEndAt, isValidDurationDays, toMillisSafe } from '@/lib/listings/duration';
 import { createAuditLog } from '@/lib/audit/logger';
+import { buildListingSearchTokens, LISTING_SEARCH_INDEX_VERSION } from '@/lib/search/listingSearchIndex';
+import { geocodeListingLocation } from '@/lib/geo/geocode';
+import { validateScheduledStartAt } from '@/lib/listings/scheduling';
+import { registerListingAnimal } from '@/lib/animals/registry';
+import type { ListingCategory } from '@/lib/types';
 
 const publishListingSchema = z.object({
   listingId: z.string().min(1),
@@ -134,70 +141,6 @@ function validatePublishRequiredFields(listingData: any): { ok: true } | { ok: f
   return { ok: true };
 }
 
-async function computeWhitetailInternalFlags(db: Firestore, listingData: any): Promise<{
-  internalFlags: { duplicatePermitNumber?: boolean; duplicateFacilityId?: boolean };
-  internalFlagsNotes: { duplicatePermitNumber?: string; duplicateFacilityId?: string };
-}> {
-  const permit = listingData?.attributes?.tpwdBreederPermitNumber;
-  const facility = listingData?.attributes?.breederFacilityId;
-  const sellerId = listingData?.sellerId;
-
-  const internalFlags: any = {};
-  const internalFlagsNotes: any = {};
-
-  // Duplicate permit number across multiple sellers
-  if (permit && String(permit).trim().length > 0) {
-    const snap = await db
-      .collection('listings')
-      .where('attributes.tpwdBreederPermitNumber', '==', String(permit).trim())
-      .get();
-
-    const sellerIds = new Set<string>();
-    snap.docs.forEach((d) => {
-      const data = d.data();
-      if (data?.category === 'whitetail_breeder' && data?.sellerId) {
-        sellerIds.add(String(data.sellerId));
-      }
-    });
-
-    // Count distinct sellers using this permit
-    if (sellerIds.size > 1 && !sellerIds.has(String(sellerId))) {
-      // Defensive, but should not happen.
-      sellerIds.add(String(sellerId));
-    }
-
-    const distinctSellers = sellerIds.size;
-    if (distinctSellers > 1) {
-      internalFlags.duplicatePermitNumber = true;
-      internalFlagsNotes.duplicatePermitNumber = `Permit number appears on ${distinctSellers} sellers`;
-    }
-  }
-
-  // Duplicate facility ID across multiple sellers
-  if (facility && String(facility).trim().length > 0) {
-    const snap = await db
-      .collection('listings')
-      .where('attributes.breederFacilityId', '==', String(facility).trim())
-      .get();
-
-    const sellerIds = new Set<string>();
-    snap.docs.forEach((d) => {
-      const data = d.data();
-      if (data?.category === 'whitetail_breeder' && data?.sellerId) {
-        sellerIds.add(String(data.sellerId));
-      }
-    });
-
-    const distinctSellers = sellerIds.size;
-    if (distinctSellers > 1) {
-      internalFlags.duplicateFacilityId = true;
-      internalFlagsNotes.duplicateFacilityId = `Facility ID appears on ${distinctSellers} sellers`;
-    }
-  }
-
-  return { internalFlags, internalFlagsNotes };
-}
-
 export async function POST(request: Request) {
   try {
     // Lazily initialize Admin SDK inside the handler so we can return a structured error
@@ -338,8 +281,8 @@ export async function POST(request: Request) {
     }
 
     // Check if listing is already active
-    if (listingData.status === 'active') {
-      // Idempotency: treat publish as a no-op if it's already active.
+    if (listingData.status === 'active' || listingData.status === 'scheduled') {
+      // Idempotency: treat publish as a no-op if it's already active (or approved and waiting to start).
       // This prevents "autosave restored an old listingId" from hard-failing the seller flow.
       return json({ ok: true, alreadyActive: true }, { status: 200 });
     }
@@ -394,6 +337,15 @@ export async function POST(request: Request) {
       );
     }
 
+    // Scheduled start (optional): re-checked at approval time by resolveGoLive().
+    const scheduledStartAtMs = toMillisSafe(listingData.scheduledStartAt);
+    if (scheduledStartAtMs !== null) {
+      const scheduleError = validateScheduledStartAt(scheduledStartAtMs);
+      if (scheduleError) {
+        return json({ error: 'Invalid scheduled start', code: 'INVALID_SCHEDULED_START', message: scheduleError }, { status: 400 });
+      }
+    }
+
     // Whitetail seller attestation hard gate
     if (listingData.category === 'whitetail_breeder' && listingData.sellerAttestationAccepted !== true) {
       return json(
@@ -406,6 +358,23 @@ export async function POST(request: Request) {
       );
     }
 
+    // Whitetail: the seller's verified breeder permit must not have expired (see complianceExpiryReminders).
+    if (normalizedCategory === 'whitetail_breeder') {
+      const permitSnap = await db.collection('sellerPermits').doc(userId).get();
+      const permitExpiresAt = permitSnap.exists ? (permitSnap.data() as any)?.expiresAt : null;
+      if (isComplianceDocumentExpired(permitExpiresAt, new Date())) {
+        return json(
+          {
+            error: 'Breeder permit expired',
+            code: 'BREEDER_PERMIT_EXPIRED',
+            message:
+              'Your TPWD Deer Breeder Permit on file has expired. Upload your renewed permit before publishing whitetail breeder listings.',
+          },
+          { status: 400 }
+        );
+      }
+    }
+
     // Animal categories: require seller acknowledgment (server-authoritative).
     // NOTE: whitetail uses a stricter, category-specific attestation above.
     const req = getCategoryRequirements(normalizedCategory as any);
@@ -564,11 +533,53 @@ export async function POST(request: Request) {
     // Admin-only guardrails (flags only): compute on submission/publish for whitetail
     const flagUpdate: any = {};
     if (normalizedCategory === 'whitetail_breeder') {
-      const { internalFlags, internalFlagsNotes } = await computeWhitetailInternalFlags(db, listingData);
+      const extractedPermitNumbers = await getExtractedPermitNumbers(db, listingId).catch(() => []);
+      const { internalFlags, internalFlagsNotes } = await computeWhitetailInternalFlags(db, listingData, extractedPermitNumbers);
       flagUpdate.internalFlags = internalFlags;
       flagUpdate.internalFlagsNotes = internalFlagsNotes;
     }
 
+    // Animal registry: link the listing's tag/microchip/registration to one animal record. The same animal on
+    // another live listing blocks publish; a seller who isn't its last on-platform buyer is flagged for admins.
+    let animalRegistration: Awaited<ReturnType<typeof registerListingAnimal>> | null = null;
+    try {
+      animalRegistration = await registerListingAnimal(db as Firestore, {
+        listingId,
+        sellerId: userId,
+        category: normalizedCategory as ListingCategory,
+        attributes: listingData?.attributes,
+        state: listingData?.location?.state || null,
+      });
+    } catch (e: any) {
+      logError('Animal registry registration failed (non-blocking)', e, { listingId });
+    }
+    if (animalRegistration?.conflict) {
+      const { identifier } = animalRegistration.conflict;
+      return json(
+        {
+          error: 'Animal already listed',
+          code: 'ANIMAL_ALREADY_LISTED',
+          message: `Another active listing already offers the animal with ${identifier.type.replace('_', ' ')} ${identifier.value}. End that listing before publishing this one.`,
+        },
+        { status: 409 }
+      );
+    }
+    if (animalRegistration && animalRegistration.animalIds.length > 0) {
+      flagUpdate.animalIds = animalRegistration.animalIds;
+    }
+    if (animalRegistration?.ownerMismatch) {
+      flagUpdate.internalFlags = { ...(flagUpdate.internalFlags || {}), animalOwnerMismatch: true };
+      flagUpdate.internalFlagsNotes = {
+        ...(flagUpdate.internalFlagsNotes || {}),
+        animalOwnerMismatch: 'Animal was last sold on-platform to a different user',
+      };
+    }
+
+    // Radius search: geocode ZIP/city once per publish. Fail-soft — a listing without `geo` is simply
+    // excluded from "near me" results; clear any stale point so a moved listing can't match its old spot.
+    const geo = await geocodeListingLocation((listingData as any)?.location);
+    const geoUpdate = geo ? { geo: { ...geo, geocodedAt: Timestamp.now() } } : { geo: FieldValue.delete() };
+
     if (needsReview) {
       const durationDays = coerceDurationDays((listingData as any)?.durationDays, 7);
       const attrsQtyPending = Number((listingData as any)?.attributes?.quantity ?? 1) || 1;
@@ -659,6 +670,9 @@ export async function POST(request: Request) {
         sellerTierSnapshot: sellerTier,
         sellerTierWeightSnapshot: sellerTierWeight,
         sellerSnapshot: publicSellerSnapshot,
+        searchTokens: buildListingSearchTokens(listingData),
+        searchIndexVersion: LISTING_SEARCH_INDEX_VERSION,
+        ...geoUpdate,
         ...flagUpdate,
         ...inventoryInitPending,
         ...(aiModerationForPending ? { aiModeration: aiModerationForPending } : {}),
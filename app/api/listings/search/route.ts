@@ -0,0 +1,220 @@
+/**
+ * GET /api/listings/search
+ *
+ * Server-side full-text listing search over the `searchTokens` index (see lib/search/listingSearchIndex.ts).
+ * Public; no auth required.
+ *
+ * Query params:
+ * - q (required) — free text, e.g. "axis doe"
+ * - lifecycle (optional) — active (default) | completed | sold
+ * - type, category, state, featured (optional) — same meaning as browse filters
+ * - minPrice, maxPrice (optional, USD)
+ * - deliversToLat, deliversToLng (optional) — only listings whose seller delivers to this point
+ * - sort (optional) — relevance (default) | newest | oldest | priceAsc | priceDesc | endingSoon
+ * - limit (optional, default 24, max 60)
+ * - cursor (optional) — opaque `nextCursor` from a previous response
+ *
+ * Candidates come from `array-contains` on the query's rarest token (fewest indexed listings, via count
+ * aggregations); the other tokens and filters are matched in memory. Candidates are scanned in document-id
+ * order and the cursor is the last scanned doc id (`startAfter`), so no match is skipped and each page reads
+ * only new docs. Sorting/ranking applies within a page.
+ */
+import { FieldPath } from 'firebase-admin/firestore';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { normalizeFirestoreValue } from '@/lib/firebase/normalizeFirestoreValue';
+import { parseSearchQuery, scoreListingForQuery } from '@/lib/search/listingSearchIndex';
+import { isValidLatLng, sellerDeliversTo } from '@/lib/geo/geohash';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const DEFAULT_LIMIT = 24;
+const MAX_LIMIT = 60;
+/** Candidate docs read per Firestore round trip. */
+const SCAN_BATCH_SIZE = 200;
+/** Upper bound on candidate docs read per page; a sparse query returns a short page plus a cursor. */
+const MAX_SCAN_PER_PAGE = 1000;
+
+const SORTS = ['relevance', 'newest', 'oldest', 'priceAsc', 'priceDesc', 'endingSoon'] as const;
+type SearchSort = (typeof SORTS)[number];
+
+function json(body: any, init?: { status?: number }) {
+  return new Response(JSON.stringify(body), {
+    status: init?.status ?? 200,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+function encodeCursor(afterId: string): string {
+  return Buffer.from(JSON.stringify({ a: afterId }), 'utf8').toString('base64url');
+}
+
+function decodeCursor(raw: string | null): string | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    return typeof parsed?.a === 'string' && parsed.a ? parsed.a : null;
+  } catch {
+    return null;
+  }
+}
+
+function toMillis(v: any): number | null {
+  if (!v) return null;
+  if (typeof v?.toMillis === 'function') return v.toMillis();
+  if (typeof v?.toDate === 'function') return v.toDate().getTime();
+  const d = new Date(v);
+  return Number.isFinite(d.getTime()) ? d.getTime() : null;
+}
+
+function getPriceUsd(d: any, soldOnly: boolean): number {
+  if (soldOnly && typeof d?.soldPriceCents === 'number') return d.soldPriceCents / 100;
+  if (d?.type === 'auction') return Number(d?.currentBid ?? d?.startingBid ?? 0) || 0;
+  return Number(d?.price ?? 0) || 0;
+}
+
+function isEndedAuction(d: any, nowMs: number): boolean {
+  if (d?.type !== 'auction' || d?.soldAt) return false;
+  const endMs = toMillis(d?.endAt) ?? toMillis(d?.endsAt);
+  return typeof endMs === 'number' && endMs <= nowMs;
+}
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const sp = url.searchParams;
+  const q = String(sp.get('q') || '').trim();
+  const queryTokens = parseSearchQuery(q);
+  if (!queryTokens.length) return json({ ok: false, error: 'q is required', items: [] }, { status: 400 });
+
+  const lifecycleRaw = String(sp.get('lifecycle') || 'active');
+  const lifecycle: 'active' | 'completed' | 'sold' =
+    lifecycleRaw === 'completed' || lifecycleRaw === 'sold' ? lifecycleRaw : 'active';
+  const type = sp.get('type') || null;
+  const category = sp.get('category') || null;
+  const state = sp.get('state') || null;
+  const featured = sp.get('featured') === 'true';
+  const minPrice = sp.get('minPrice') !== null ? Number(sp.get('minPrice')) : null;
+  const maxPrice = sp.get('maxPrice') !== null ? Number(sp.get('maxPrice')) : null;
+  const deliversToRaw = { lat: Number(sp.get('deliversToLat')), lng: Number(sp.get('deliversToLng')) };
+  const deliversTo = sp.get('deliversToLat') !== null && isValidLatLng(deliversToRaw) ? deliversToRaw : null;
+  const sortRaw = String(sp.get('sort') || 'relevance');
+  const sort: SearchSort = (SORTS as readonly string[]).includes(sortRaw) ? (sortRaw as SearchSort) : 'relevance';
+  const limit = Math.floor(Math.min(MAX_LIMIT, Math.max(1, Number(sp.get('limit')) || DEFAULT_LIMIT)));
+  const afterId = decodeCursor(sp.get('cursor'));
+
+  let db: ReturnType<typeof getAdminDb>;
+  try {
+    db = getAdminDb();
+  } catch {
+    return json({ ok: false, error: 'Server not configured', items: [] }, { status: 503 });
+  }
+
+  let base: FirebaseFirestore.Query = db.collection('listings');
+  if (lifecycle === 'active') base = base.where('status', '==', 'active');
+
+  // Narrow on the token with the fewest indexed listings; the rest are matched in memory (AND semantics).
+  let candidateToken = queryTokens[0]!;
+  if (queryTokens.length > 1) {
+    try {
+      const counts = await Promise.all(
+        queryTokens.map(async (t) => (await base.where('searchTokens', 'array-contains', t).count().get()).data().count)
+      );
+      candidateToken = queryTokens[counts.indexOf(Math.min(...counts))]!;
+    } catch {
+      // Fall back to the longest token (usually the most specific).
+      candidateToken = [...queryTokens].sort((a, b) => b.length - a.length)[0]!;
+    }
+  }
+  const candidates = base.where('searchTokens', 'array-contains', candidateToken).orderBy(FieldPath.documentId());
+
+  const nowMs = Date.now();
+  const soldOnly = lifecycle === 'sold';
+  const allowedStatuses =
+    lifecycle === 'completed' ? new Set(['active', 'sold', 'ended', 'expired']) : new Set([soldOnly ? 'sold' : 'active']);
+
+  const matchScore = (d: any): number => {
+    if (!allowedStatuses.has(String(d?.status || ''))) return 0;
+    if (lifecycle === 'active' && isEndedAuction(d, nowMs)) return 0;
+    if (lifecycle === 'completed' && d?.status === 'active' && !isEndedAuction(d, nowMs)) return 0;
+    if (type && d?.type !== type) return 0;
+    if (category && d?.category !== category) return 0;
+    if (state && d?.location?.state !== state) return 0;
+    if (featured && d?.featured !== true) return 0;
+    const price = getPriceUsd(d, soldOnly);
+    if (minPrice !== null && Number.isFinite(minPrice) && price < minPrice) return 0;
+    if (maxPrice !== null && Number.isFinite(maxPrice) && price > maxPrice) return 0;
+    if (
+      deliversTo &&
+      !sellerDeliversTo({ listingGeo: d?.geo, maxDeliveryRadiusMiles: d?.deliveryDetails?.maxDeliveryRadiusMiles, buyer: deliversTo })
+    ) {
+      return 0;
+    }
+    return scoreListingForQuery(d, queryTokens);
+  };
+
+  const ranked: Array<{ id: string; data: any; score: number }> = [];
+  let lastScannedId = afterId;
+  let scanned = 0;
+  let exhausted = false;
+  try {
+    while (ranked.length < limit && scanned < MAX_SCAN_PER_PAGE) {
+      let q = candidates.limit(SCAN_BATCH_SIZE);
+      if (lastScannedId) q = q.startAfter(lastScannedId);
+      const snap = await q.get();
+      let consumedBatch = true;
+      for (let i = 0; i < snap.docs.length; i++) {
+        const doc = snap.docs[i]!;
+        scanned += 1;
+        lastScannedId = doc.id;
+        const d = doc.data() as any;
+        const score = matchScore(d);
+        if (score > 0) ranked.push({ id: doc.id, data: d, score });
+        if (ranked.length >= limit) {
+          consumedBatch = i === snap.docs.length - 1;
+          break;
+        }
+      }
+      // A short batch read to the end means there are no more candidates.
+      if (snap.size < SCAN_BATCH_SIZE && consumedBatch) {
+        exhausted = true;
+        break;
+      }
+    }
+  } catch (e: any) {
+    return json({ ok: false, error: 'Search failed', message: e?.message || String(e), items: [] }, { status: 500 });
+  }
+
+  const createdMs = (r: { data: any }) => toMillis(soldOnly ? r.data?.soldAt : r.data?.createdAt) ?? 0;
+  ranked.sort((a, b) => {
+    switch (sort) {
+      case 'newest':
+        return createdMs(b) - createdMs(a);
+      case 'oldest':
+        return createdMs(a) - createdMs(b);
+      case 'priceAsc':
+        return getPriceUsd(a.data, soldOnly) - getPriceUsd(b.data, soldOnly);
+      case 'priceDesc':
+        return getPriceUsd(b.data, soldOnly) - getPriceUsd(a.data, soldOnly);
+      case 'endingSoon': {
+        const ae = toMillis(a.data?.endsAt) ?? Number.MAX_SAFE_INTEGER;
+        const be = toMillis(b.data?.endsAt) ?? Number.MAX_SAFE_INTEGER;
+        return ae - be;
+      }
+      default:
+        return b.score - a.score || createdMs(b) - createdMs(a);
+    }
+  });
+
+  const hasMore = !exhausted && !!lastScannedId;
+
+  return json({
+    ok: true,
+    items: ranked.map((r) => {
+      // The token array is index-only; don't ship it to the client.
+      const { searchTokens: _tokens, ...rest } = r.data || {};
+      return { ...normalizeFirestoreValue(rest), id: r.id, searchScore: r.score };
+    }),
+    nextCursor: hasMore ? encodeCursor(lastScannedId!) : null,
+    hasMore,
+  });
+}
@@ -14,6 +14,7 @@ import { getSiteUrl } from '@/lib/site-url';
 import { buildInAppNotification } from '@/lib/notifications/inApp';
 import { tryDispatchEmailJobNow } from '@/lib/email/dispatchEmailJobNow';
 import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { isBlockedBetween, USER_BLOCKED_ERROR } from '@/lib/safety/blocks';
 
 function json(body: any, init?: { status?: number; headers?: Record<string, string> }) {
   return new Response(JSON.stringify(body), {
@@ -154,6 +155,11 @@ export async function POST(request: Request) {
     // Canonical recipient is always the other party in the thread (never trust client input)
     const recipientId = senderId === threadData.buyerId ? threadData.sellerId : threadData.buyerId;
 
+    // Blocked in either direction: the thread stays readable but no new messages go through.
+    if (await isBlockedBetween(db, senderId, String(recipientId || ''))) {
+      return json(USER_BLOCKED_ERROR, { status: 403 });
+    }
+
     // Check order status to determine if contact should be allowed
     let orderStatus: 'pending' | 'paid' | 'completed' | undefined;
     const ordersRef = db.collection('orders');
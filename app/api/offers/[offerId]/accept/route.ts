@@ -13,6 +13,7 @@ import { getSiteUrl } from '@/lib/site-url';
 import { json, requireAuth, requireRateLimit } from '../../_util';
 import { tryDispatchEmailJobNow } from '@/lib/email/dispatchEmailJobNow';
 import { captureException } from '@/lib/monitoring/capture';
+import { getOfferListingIds } from '@/lib/offers/bundle';
 
 export async function POST(request: Request, ctx: { params: { offerId: string } }) {
   const rate = await requireRateLimit(request);
@@ -48,6 +49,12 @@ export async function POST(request: Request, ctx: { params: { offerId: string }
       }
       const listing = listingSnap.data() as any;
 
+      // Bundle offers: the other included listings must be just as available as the primary one.
+      const otherListingRefs = getOfferListingIds(offer)
+        .filter((id) => id !== offer.listingId)
+        .map((id) => db.collection('listings').doc(id));
+      const otherListingSnaps = await Promise.all(otherListingRefs.map((ref) => tx.get(ref)));
+
       // Ownership/role checks
       const isSeller = offer.sellerId === actorId;
       const isBuyer = offer.buyerId === actorId;
@@ -55,9 +62,14 @@ export async function POST(request: Request, ctx: { params: { offerId: string }
         return { ok: false as const, status: 403, body: { error: 'Forbidden' } };
       }
 
-      if (listing.status !== 'active') {
+      // Second-chance offers are made after the auction ended (listing status `expired`).
+      const isSecondChance = Boolean(offer.secondChance) && listing.type === 'auction';
+      if (listing.status !== 'active' && !(isSecondChance && listing.status === 'expired')) {
         return { ok: false as const, status: 400, body: { error: 'Listing is not active' } };
       }
+      if (isSecondChance && (listing.soldAt || listing.relistedToListingId)) {
+        return { ok: false as const, status: 409, body: { error: 'This auction is no longer available' } };
+      }
 
       // If a checkout reservation is still active (pending payment), block accept to prevent double-sell/race.
       // Note: this is separate from `offerReservedByOfferId` and is driven by checkout/session creation.
@@ -114,6 +126,26 @@ export async function POST(request: Request, ctx: { params: { offerId: string }
         return { ok: false as const, status: 409, body: { error: 'Listing is already reserved by another offer' } };
       }
 
+      for (const snap of otherListingSnaps) {
+        const other = snap.exists ? (snap.data() as any) : null;
+        const title = String(other?.title || 'A bundled listing');
+        if (!other || other.status !== 'active' || other.sellerId !== offer.sellerId) {
+          return { ok: false as const, status: 400, body: { error: `${title} is no longer available`, listingId: snap.id } };
+        }
+        if (other.offerReservedByOfferId && other.offerReservedByOfferId !== offerId) {
+          return { ok: false as const, status: 409, body: { error: `${title} is already reserved by another offer`, listingId: snap.id } };
+        }
+        const otherReservedUntilMs =
+          typeof other?.purchaseReservedUntil?.toMillis === 'function' ? other.purchaseReservedUntil.toMillis() : null;
+        if (other.purchaseReservedByOrderId && typeof otherReservedUntilMs === 'number' && otherReservedUntilMs > now.toMillis()) {
+          return {
+            ok: false as const,
+            status: 409,
+            body: { error: `${title} is reserved pending payment confirmation. Please try again later.`, listingId: snap.id },
+          };
+        }
+      }
+
       tx.update(offerRef, {
         status: 'accepted',
         acceptedAmount: offer.currentAmount,
@@ -128,14 +160,23 @@ export async function POST(request: Request, ctx: { params: { offerId: string }
         ],
       });
 
-      tx.update(listingRef, {
-        offerReservedByOfferId: offerId,
-        offerReservedAt: now,
-        offerReservedUntil: acceptedUntil,
-        updatedAt: now,
-      });
+      for (const ref of [listingRef, ...otherListingRefs]) {
+        tx.update(ref, {
+          offerReservedByOfferId: offerId,
+          offerReservedAt: now,
+          offerReservedUntil: acceptedUntil,
+          updatedAt: now,
+        });
+      }
 
-      return { ok: true as const, listingId: offer.listingId, amount: offer.currentAmount, sellerId: offer.sellerId, buyerId: offer.buyerId };
+      return {
+        ok: true as const,
+        listingId: offer.listingId,
+        amount: offer.currentAmount,
+        sellerId: offer.sellerId,
+        buyerId: offer.buyerId,
+        bundleTitle: offer.bundle ? String(offer.listingSnapshot?.title || '') : '',
+      };
     });
 
     if (!result.ok) return json(result.body, { status: result.status });
@@ -157,7 +198,9 @@ export async function POST(request: Request, ctx: { params: { offerId: string }
     // Phase 3A (A3): Notify both sides that the offer was accepted.
     try {
       const base = getSiteUrl();
-      const listingTitle = String((await db.collection('listings').doc(result.listingId).get()).data()?.title || 'a listing');
+      const listingTitle = String(
+        result.bundleTitle || (await db.collection('listings').doc(result.listingId).get()).data()?.title || 'a listing'
+      );
 
       const evBuyer = await emitAndProcessEventForUser({
         type: 'Offer.Accepted',
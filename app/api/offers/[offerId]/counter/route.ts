@@ -14,6 +14,7 @@ import { getSiteUrl } from '@/lib/site-url';
 import { offerAmountSchema, json, requireAuth, requireRateLimit } from '../../_util';
 import { tryDispatchEmailJobNow } from '@/lib/email/dispatchEmailJobNow';
 import { captureException } from '@/lib/monitoring/capture';
+import { getOfferListingIds } from '@/lib/offers/bundle';
 
 const counterSchema = z.object({
   amount: offerAmountSchema,
@@ -56,16 +57,41 @@ export async function POST(request: Request, ctx: { params: { offerId: string }
       if (!listingSnap.exists) return { ok: false as const, status: 404, body: { error: 'Listing not found' } };
       const listing = listingSnap.data() as any;
 
+      // Bundle offers negotiate one amount for every included listing.
+      const otherListingSnaps = await Promise.all(
+        getOfferListingIds(offer)
+          .filter((id) => id !== offer.listingId)
+          .map((id) => tx.get(db.collection('listings').doc(id)))
+      );
+      const otherListings = otherListingSnaps.map((snap) => (snap.exists ? (snap.data() as any) : null));
+
       const isSeller = offer.sellerId === actorId;
       const isBuyer = offer.buyerId === actorId;
       if (!isSeller && !isBuyer) return { ok: false as const, status: 403, body: { error: 'Forbidden' } };
 
+      if (offer.secondChance) {
+        return {
+          ok: false as const,
+          status: 400,
+          body: { error: 'Second-chance offers can be accepted or declined, but not countered', code: 'SECOND_CHANCE_NO_COUNTER' },
+        };
+      }
+
       if (listing.status !== 'active') return { ok: false as const, status: 400, body: { error: 'Listing is not active' } };
 
       if (listing.offerReservedByOfferId) {
         return { ok: false as const, status: 409, body: { error: 'Listing is reserved by an accepted offer' } };
       }
 
+      for (const other of otherListings) {
+        if (!other || other.status !== 'active') {
+          return { ok: false as const, status: 400, body: { error: 'A listing in this bundle is no longer active' } };
+        }
+        if (other.offerReservedByOfferId) {
+          return { ok: false as const, status: 409, body: { error: 'A listing in this bundle is reserved by an accepted offer' } };
+        }
+      }
+
       // Enforce expiry
       const expiresAt: any = offer.expiresAt;
       if ((offer.status === 'open' || offer.status === 'countered') && expiresAt?.toMillis && expiresAt.toMillis() < now.toMillis()) {
@@ -91,6 +117,18 @@ export async function POST(request: Request, ctx: { params: { offerId: string }
         allowCounter: true,
         offerExpiryHours: 48,
       };
+      if (offer.bundle) {
+        // Floors add up across the bundle; the shortest expiry window wins.
+        settings.allowCounter = offer.bundle.allowCounter !== false;
+        let floorTotal = typeof settings.minPrice === 'number' && Number.isFinite(settings.minPrice) ? settings.minPrice : 0;
+        for (const other of otherListings) {
+          const s = other?.bestOfferSettings || { minPrice: other?.bestOfferMinPrice, offerExpiryHours: 48 };
+          if (typeof s.minPrice === 'number' && Number.isFinite(s.minPrice)) floorTotal += s.minPrice;
+          const h = typeof s.offerExpiryHours === 'number' && Number.isFinite(s.offerExpiryHours) ? s.offerExpiryHours : 48;
+          settings.offerExpiryHours = Math.min(Number(settings.offerExpiryHours ?? 48), h);
+        }
+        settings.minPrice = floorTotal > 0 ? floorTotal : undefined;
+      }
       if (isSeller && settings.allowCounter === false) {
         return { ok: false as const, status: 400, body: { error: 'Seller counters are disabled for this listing' } };
       }
@@ -134,7 +172,7 @@ export async function POST(request: Request, ctx: { params: { offerId: string }
       return {
         ok: true as const,
         listingId: offer.listingId,
-        listingTitle: String(listing.title || 'a listing'),
+        listingTitle: String((offer.bundle ? offer.listingSnapshot?.title : listing.title) || 'a listing'),
         role,
         sellerId: String(offer.sellerId),
         buyerId: String(offer.buyerId),
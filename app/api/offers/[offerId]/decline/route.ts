@@ -13,6 +13,7 @@ import { getSiteUrl } from '@/lib/site-url';
 import { json, requireAuth, requireRateLimit } from '../../_util';
 import { tryDispatchEmailJobNow } from '@/lib/email/dispatchEmailJobNow';
 import { captureException } from '@/lib/monitoring/capture';
+import { settleSecondChanceOffer } from '@/lib/auctions/secondChance';
 
 const declineSchema = z.object({
   note: z.string().max(500).optional(),
@@ -100,15 +101,25 @@ export async function POST(request: Request, ctx: { params: { offerId: string }
       return {
         ok: true as const,
         listingId: offer.listingId,
-        listingTitle: String(listing.title || 'a listing'),
+        listingTitle: String((offer.bundle ? offer.listingSnapshot?.title : listing.title) || 'a listing'),
         role,
         sellerId: String(offer.sellerId),
         buyerId: String(offer.buyerId),
+        isSecondChance: Boolean(offer.secondChance),
       };
     });
 
     if (!result.ok) return json(result.body, { status: result.status });
 
+    // Second-chance offers: hand the auction back to the seller right away (cron sweep is the fallback).
+    if (result.isSecondChance) {
+      try {
+        await settleSecondChanceOffer({ db: db as any, listingId: result.listingId });
+      } catch (e) {
+        console.error('[offers.decline] second-chance settle failed (ignored)', e);
+      }
+    }
+
     // Best-effort audit logging (never block declining)
     try {
       await createAuditLog(db, {
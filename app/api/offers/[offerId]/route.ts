@@ -5,6 +5,7 @@
  */
 
 import { getAdminDb } from '@/lib/firebase/admin';
+import { getBuyerReputationSummaries } from '@/lib/reviews/buyerReputation';
 import { getPrimaryListingImageUrl, isAdminUid, json, requireAuth, requireRateLimit } from '../_util';
 
 function tsToMillis(v: any): number | null {
@@ -38,6 +39,10 @@ function serializeOffer(doc: any) {
     acceptedBy: data.acceptedBy,
     checkoutSessionId: data.checkoutSessionId,
     orderId: data.orderId,
+    secondChance: data.secondChance || undefined,
+    bundle: data.bundle || undefined,
+    listingIds: Array.isArray(data.listingIds) ? data.listingIds : undefined,
+    orderGroupId: data.orderGroupId || undefined,
   };
 }
 
@@ -75,6 +80,16 @@ export async function GET(request: Request, ctx: { params: { offerId: string } }
     }
   }
 
+  // Sellers (and admins) see the buyer's reputation from past seller ratings; buyers don't see their own here.
+  if (admin || offer.sellerId === uid) {
+    try {
+      const reputation = await getBuyerReputationSummaries(db, [String(base.buyerId || '')]);
+      base.buyerReputation = reputation[String(base.buyerId || '')] ?? null;
+    } catch {
+      // ignore
+    }
+  }
+
   return json({ ok: true, offer: base });
 }
 
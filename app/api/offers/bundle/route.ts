@@ -0,0 +1,381 @@
+/**
+ * POST /api/offers/bundle
+ *
+ * Buyer offers one lump sum for several of a seller's fixed/classified listings ("all 3 bred heifers for $X").
+ * Stored as a regular offer (primary `listingId` + `listingIds` + `bundle`), so counter/accept/decline/expire
+ * work unchanged; accept reserves every included listing.
+ * Server authoritative; uses a transaction for:
+ * - one active offer per buyer per listing (across single and bundle offers)
+ * - auto-accept + reservation of every listing
+ */
+
+import { z } from 'zod';
+import { Timestamp } from 'firebase-admin/firestore';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { createAuditLog } from '@/lib/audit/logger';
+import { emitAndProcessEventForUser } from '@/lib/notifications';
+import { getSiteUrl } from '@/lib/site-url';
+import { getPrimaryListingImageUrl, offerAmountSchema, json, requireAuth, requireRateLimit } from '../_util';
+import { coerceDurationDays, computeEndAt, toMillisSafe } from '@/lib/listings/duration';
+import { formatBundleOfferTitle, getOfferListingIds, MAX_BUNDLE_OFFER_LISTINGS } from '@/lib/offers/bundle';
+import { isGroupLotQuantityMode, type OfferBundleItem } from '@/lib/types';
+import { isBlockedBetween, USER_BLOCKED_ERROR } from '@/lib/safety/blocks';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const createBundleOfferSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        listingId: z.string().min(1),
+        quantity: z.number().int().min(1).max(100).optional(),
+      })
+    )
+    .min(2)
+    .max(MAX_BUNDLE_OFFER_LISTINGS),
+  amount: offerAmountSchema,
+  note: z.string().max(500).optional(),
+});
+
+type Failure = { ok: false; status: number; body: Record<string, unknown> };
+
+function fail(status: number, error: string, extra?: Record<string, unknown>): Failure {
+  return { ok: false, status, body: { error, ...(extra || {}) } };
+}
+
+export async function POST(request: Request) {
+  const rate = await requireRateLimit(request);
+  if (!rate.ok) return rate.response;
+
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+  const buyerId = auth.decoded.uid;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return json({ error: 'Invalid JSON in request body' }, { status: 400 });
+  }
+
+  const parsed = createBundleOfferSchema.safeParse(body);
+  if (!parsed.success) {
+    return json({ error: 'Invalid request', details: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const { items, amount, note } = parsed.data;
+  const cleanNote = typeof note === 'string' ? note.trim() : '';
+  const listingIds = Array.from(new Set(items.map((i) => i.listingId)));
+  if (listingIds.length !== items.length) {
+    return json({ error: 'Each listing can only appear once in a bundle' }, { status: 400 });
+  }
+
+  let db: ReturnType<typeof getAdminDb>;
+  try {
+    db = getAdminDb();
+  } catch (e: any) {
+    return json(
+      {
+        error: 'Server is not configured for offers yet',
+        code: e?.code || 'FIREBASE_ADMIN_INIT_FAILED',
+        message: e?.message || 'Failed to initialize Firebase Admin SDK',
+        missing: e?.missing || undefined,
+      },
+      { status: 503 }
+    );
+  }
+
+  const offersRef = db.collection('offers');
+  const offerRef = offersRef.doc();
+
+  try {
+    const now = Timestamp.now();
+    const acceptedWindowHoursRaw = Number(process.env.OFFER_ACCEPTED_PAYMENT_WINDOW_HOURS || '24');
+    const acceptedWindowHours =
+      Number.isFinite(acceptedWindowHoursRaw) ? Math.max(1, Math.min(168, Math.round(acceptedWindowHoursRaw))) : 24;
+    const acceptedUntil = Timestamp.fromMillis(now.toMillis() + acceptedWindowHours * 60 * 60 * 1000);
+
+    const result = await db.runTransaction(async (tx) => {
+      const listingRefs = listingIds.map((id) => db.collection('listings').doc(id));
+      const listingSnaps = await Promise.all(listingRefs.map((ref) => tx.get(ref)));
+
+      let sellerId = '';
+      let floorTotal = 0;
+      let autoAcceptTotal: number | null = 0;
+      let allowCounter = true;
+      let expiryHours = 168;
+      let allPriced = true;
+      const bundleItems: OfferBundleItem[] = [];
+      const nowMs = Date.now();
+
+      for (let i = 0; i < listingSnaps.length; i++) {
+        const snap = listingSnaps[i];
+        if (!snap.exists) return fail(404, 'Listing not found', { listingId: listingIds[i] });
+        const listing = snap.data() as any;
+        const title = String(listing.title || 'Listing');
+
+        if (listing.status !== 'active') {
+          return fail(400, `"${title}" is not available for offers`, { listingId: snap.id });
+        }
+        const endMsDirect = toMillisSafe(listing?.endAt) ?? toMillisSafe(listing?.endsAt);
+        const startMs = toMillisSafe(listing?.startAt) ?? toMillisSafe(listing?.publishedAt) ?? toMillisSafe(listing?.createdAt);
+        const endMs =
+          endMsDirect ?? (typeof startMs === 'number' ? computeEndAt(startMs, coerceDurationDays(listing?.durationDays, 7)) : null);
+        if (typeof endMs === 'number' && endMs <= nowMs) {
+          return fail(409, `"${title}" has ended`, { code: 'LISTING_ENDED', listingId: snap.id });
+        }
+        if (listing.type !== 'fixed' && listing.type !== 'classified') {
+          return fail(400, 'Bundle offers are only available for fixed/classified listings', { listingId: snap.id });
+        }
+
+        const settings = listing.bestOfferSettings || {
+          enabled: !!listing.bestOfferEnabled,
+          minPrice: listing.bestOfferMinPrice,
+          autoAcceptPrice: listing.bestOfferAutoAcceptPrice,
+          allowCounter: true,
+          offerExpiryHours: 48,
+        };
+        if (!settings?.enabled) {
+          return fail(400, `Best Offer is not enabled for "${title}"`, { listingId: snap.id });
+        }
+        if (listing.sellerId === buyerId) {
+          return fail(400, 'You cannot make an offer on your own listing');
+        }
+        if (!sellerId) sellerId = String(listing.sellerId || '');
+        if (String(listing.sellerId || '') !== sellerId) {
+          return fail(400, 'Bundle offers must include listings from a single seller', { code: 'BUNDLE_SELLER_MISMATCH' });
+        }
+        if (listing.offerReservedByOfferId) {
+          return fail(409, `"${title}" is reserved by an accepted offer`, { listingId: snap.id });
+        }
+
+        const requested = items.find((it) => it.listingId === snap.id)?.quantity ?? 1;
+        const available =
+          typeof listing.quantityAvailable === 'number' && Number.isFinite(listing.quantityAvailable)
+            ? Math.max(0, Math.floor(listing.quantityAvailable))
+            : null;
+        if (available !== null && requested > available) {
+          return fail(400, `Only ${available} available for "${title}"`, { code: 'QUANTITY_EXCEEDS_AVAILABLE', listingId: snap.id });
+        }
+
+        const price = Number(listing.price);
+        const isGroupLot = isGroupLotQuantityMode(listing?.attributes?.quantityMode);
+        const listPrice = Number.isFinite(price) && price > 0 ? (isGroupLot ? price : price * requested) : 0;
+        if (!listPrice) allPriced = false;
+
+        // Floors and auto-accept prices are per listing; a bundle has to clear their sum.
+        const floor = settings.minPrice;
+        if (typeof floor === 'number' && Number.isFinite(floor)) floorTotal += floor;
+        const auto = settings.autoAcceptPrice;
+        autoAcceptTotal =
+          autoAcceptTotal !== null && typeof auto === 'number' && Number.isFinite(auto) ? autoAcceptTotal + auto : null;
+        if (settings.allowCounter === false) allowCounter = false;
+        if (typeof settings.offerExpiryHours === 'number' && Number.isFinite(settings.offerExpiryHours)) {
+          expiryHours = Math.min(expiryHours, settings.offerExpiryHours);
+        } else {
+          expiryHours = Math.min(expiryHours, 48);
+        }
+
+        const imageUrl = getPrimaryListingImageUrl(listing);
+        bundleItems.push({ listingId: snap.id, title, quantity: requested, listPrice, ...(imageUrl ? { imageUrl } : {}) });
+      }
+
+      if (await isBlockedBetween(db, buyerId, sellerId)) {
+        return { ok: false as const, status: 403, body: { ...USER_BLOCKED_ERROR } };
+      }
+
+      const listPriceTotal = bundleItems.reduce((sum, it) => sum + it.listPrice, 0);
+      if (allPriced && amount > listPriceTotal) {
+        return fail(400, 'Offer amount cannot exceed the combined listing price', {
+          code: 'OFFER_EXCEEDS_PRICE',
+          message: `The maximum offer amount for this bundle is $${listPriceTotal.toFixed(2)}.`,
+        });
+      }
+      if (floorTotal > 0 && amount < floorTotal) {
+        return fail(400, `Offer must be at least $${floorTotal}`);
+      }
+
+      // One active offer per buyer per listing, whether single or bundled.
+      // Avoid composite-index requirements by querying on buyerId only and filtering in-memory.
+      const mineSnap = await tx.get(offersRef.where('buyerId', '==', buyerId).limit(200));
+      const overlapping = mineSnap.docs.find((d) => {
+        const o = d.data() as any;
+        if (o?.status !== 'open' && o?.status !== 'countered') return false;
+        return getOfferListingIds(o).some((id) => listingIds.includes(id));
+      });
+      if (overlapping) {
+        return fail(409, 'You already have an active offer on one of these listings', { code: 'OFFER_ALREADY_ACTIVE' });
+      }
+
+      const expiresAt = Timestamp.fromMillis(now.toMillis() + Math.max(1, expiryHours) * 60 * 60 * 1000);
+      const shouldAutoAccept = autoAcceptTotal !== null && autoAcceptTotal > 0 && amount >= autoAcceptTotal;
+
+      const baseHistory = [
+        {
+          type: 'offer',
+          actorId: buyerId,
+          actorRole: 'buyer',
+          amount,
+          ...(cleanNote ? { note: cleanNote } : {}),
+          createdAt: now,
+        },
+      ];
+
+      const sellerSnap = await tx.get(db.collection('users').doc(sellerId));
+      const sellerData = sellerSnap.exists ? (sellerSnap.data() as any) : null;
+      const sellerDisplayName = sellerData?.displayName || sellerData?.profile?.fullName || '';
+      const primary = listingSnaps[0].data() as any;
+
+      const offerDoc: any = {
+        listingId: listingIds[0],
+        listingIds,
+        listingSnapshot: {
+          title: formatBundleOfferTitle(bundleItems),
+          category: primary.category,
+          type: primary.type,
+          sellerId,
+          imageUrl: bundleItems[0].imageUrl || undefined,
+          sellerSnapshot: sellerDisplayName ? { displayName: sellerDisplayName } : undefined,
+        },
+        bundle: { items: bundleItems, listPriceTotal, allowCounter },
+        sellerId,
+        buyerId,
+        currency: 'usd',
+        status: shouldAutoAccept ? 'accepted' : 'open',
+        currentAmount: amount,
+        originalAmount: amount,
+        quantity: 1,
+        lastActorRole: shouldAutoAccept ? 'system' : 'buyer',
+        expiresAt,
+        createdAt: now,
+        updatedAt: now,
+        history: shouldAutoAccept
+          ? [
+              ...baseHistory,
+              { type: 'accept', actorId: 'system', actorRole: 'system', amount, note: 'Auto-accepted', createdAt: now },
+            ]
+          : baseHistory,
+      };
+
+      if (shouldAutoAccept) {
+        offerDoc.acceptedAmount = amount;
+        offerDoc.acceptedAt = now;
+        offerDoc.acceptedUntil = acceptedUntil;
+        offerDoc.acceptedBy = 'system';
+        for (const ref of listingRefs) {
+          tx.update(ref, {
+            offerReservedByOfferId: offerRef.id,
+            offerReservedAt: now,
+            offerReservedUntil: acceptedUntil,
+            updatedAt: now,
+          });
+        }
+      }
+
+      tx.set(offerRef, offerDoc);
+
+      return { ok: true as const, offerId: offerRef.id, offerDoc };
+    });
+
+    if (!result.ok) {
+      return json(result.body, { status: result.status });
+    }
+
+    const primaryListingId = listingIds[0];
+    const listingTitle = String(result.offerDoc?.listingSnapshot?.title || 'a bundle');
+
+    // Audit logs (outside txn) - best-effort
+    try {
+      await createAuditLog(db, {
+        actorUid: buyerId,
+        actorRole: 'buyer',
+        actionType: 'offer_created',
+        listingId: primaryListingId,
+        metadata: { offerId: result.offerId, amount, listingIds },
+        source: 'buyer_ui',
+      });
+      if (result.offerDoc.status === 'accepted') {
+        await createAuditLog(db, {
+          actorUid: 'system',
+          actorRole: 'system',
+          actionType: 'offer_accepted',
+          listingId: primaryListingId,
+          metadata: { offerId: result.offerId, amount, listingIds, auto: true },
+          source: 'api',
+        });
+      }
+    } catch (e) {
+      console.error('[offers.bundle] audit log failed (ignored)', e);
+    }
+
+    // Same lifecycle notifications as single-listing offers, titled for the bundle.
+    try {
+      const base = getSiteUrl();
+      const sellerId = String(result.offerDoc?.sellerId || '');
+      const accepted = result.offerDoc.status === 'accepted';
+      const expiresAtIso = result.offerDoc?.expiresAt?.toDate?.().toISOString?.() || undefined;
+
+      await emitAndProcessEventForUser({
+        type: accepted ? 'Offer.Accepted' : 'Offer.Submitted',
+        actorId: accepted ? 'system' : buyerId,
+        entityType: 'listing',
+        entityId: primaryListingId,
+        targetUserId: buyerId,
+        payload: accepted
+          ? {
+              type: 'Offer.Accepted',
+              offerId: result.offerId,
+              listingId: primaryListingId,
+              listingTitle,
+              offerUrl: `${base}/dashboard/offers`,
+              amount,
+            }
+          : {
+              type: 'Offer.Submitted',
+              offerId: result.offerId,
+              listingId: primaryListingId,
+              listingTitle,
+              offerUrl: `${base}/dashboard/offers`,
+              amount,
+              expiresAt: expiresAtIso,
+            },
+        optionalHash: `offer:${result.offerId}:${accepted ? 'accepted' : 'submitted'}`,
+      });
+      if (sellerId) {
+        await emitAndProcessEventForUser({
+          type: accepted ? 'Offer.Accepted' : 'Offer.Received',
+          actorId: accepted ? 'system' : buyerId,
+          entityType: 'listing',
+          entityId: primaryListingId,
+          targetUserId: sellerId,
+          payload: accepted
+            ? {
+                type: 'Offer.Accepted',
+                offerId: result.offerId,
+                listingId: primaryListingId,
+                listingTitle,
+                offerUrl: `${base}/seller/offers/${result.offerId}`,
+                amount,
+              }
+            : {
+                type: 'Offer.Received',
+                offerId: result.offerId,
+                listingId: primaryListingId,
+                listingTitle,
+                offerUrl: `${base}/seller/offers/${result.offerId}`,
+                amount,
+                expiresAt: expiresAtIso,
+              },
+          optionalHash: `offer:${result.offerId}:${accepted ? 'accepted_seller' : 'received'}`,
+        });
+      }
+    } catch {
+      // best-effort; do not fail offer creation on notification errors
+    }
+
+    return json({ ok: true, offerId: result.offerId, status: result.offerDoc.status });
+  } catch (error: any) {
+    return json({ error: 'Failed to create bundle offer', message: String(error?.message || 'Unknown error') }, { status: 500 });
+  }
+}
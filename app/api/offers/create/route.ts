@@ -17,6 +17,7 @@ import { getPrimaryListingImageUrl, offerAmountSchema, json, requireAuth, requir
 import { coerceDurationDays, computeEndAt, toMillisSafe } from '@/lib/listings/duration';
 import { tryDispatchEmailJobNow } from '@/lib/email/dispatchEmailJobNow';
 import { captureException } from '@/lib/monitoring/capture';
+import { isBlockedBetween, USER_BLOCKED_ERROR } from '@/lib/safety/blocks';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -122,6 +123,10 @@ export async function POST(request: Request) {
         return { ok: false as const, status: 400, body: { error: 'You cannot make an offer on your own listing' } };
       }
 
+      if (await isBlockedBetween(db, buyerId, String(listing.sellerId || ''))) {
+        return { ok: false as const, status: 403, body: USER_BLOCKED_ERROR };
+      }
+
       if (listing.offerReservedByOfferId) {
         return { ok: false as const, status: 409, body: { error: 'Listing is reserved by an accepted offer' } };
       }
@@ -160,15 +165,25 @@ export async function POST(request: Request) {
         return { ok: false as const, status: 400, body: { error: `Offer must be at least $${floor}` } };
       }
 
-      // Enforce one active offer per buyer per listing
-      const existingSnap = await tx.get(
-        offersRef
-          .where('listingId', '==', listingId)
-          .where('buyerId', '==', buyerId)
-          .where('status', 'in', ['open', 'countered'])
-          .limit(1)
-      );
-      if (!existingSnap.empty) {
+      // Enforce one active offer per buyer per listing, including bundles that contain it (`listingIds`)
+      // but whose primary `listingId` is another listing.
+      const [existingSnap, existingBundleSnap] = await Promise.all([
+        tx.get(
+          offersRef
+            .where('listingId', '==', listingId)
+            .where('buyerId', '==', buyerId)
+            .where('status', 'in', ['open', 'countered'])
+            .limit(1)
+        ),
+        tx.get(
+          offersRef
+            .where('listingIds', 'array-contains', listingId)
+            .where('buyerId', '==', buyerId)
+            .where('status', 'in', ['open', 'countered'])
+            .limit(1)
+        ),
+      ]);
+      if (!existingSnap.empty || !existingBundleSnap.empty) {
         return { ok: false as const, status: 409, body: { error: 'You already have an active offer on this listing' } };
       }
 
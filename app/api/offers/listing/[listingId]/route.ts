@@ -43,6 +43,10 @@ function serializeOffer(doc: any) {
     acceptedBy: data.acceptedBy,
     checkoutSessionId: data.checkoutSessionId,
     orderId: data.orderId,
+    secondChance: data.secondChance || undefined,
+    bundle: data.bundle || undefined,
+    listingIds: Array.isArray(data.listingIds) ? data.listingIds : undefined,
+    orderGroupId: data.orderGroupId || undefined,
   };
 }
 
@@ -7,6 +7,7 @@
 
 import { z } from 'zod';
 import { getAdminDb } from '@/lib/firebase/admin';
+import { getBuyerReputationSummaries } from '@/lib/reviews/buyerReputation';
 import { getPrimaryListingImageUrl, json, requireAuth, requireRateLimit } from '../_util';
 
 export const runtime = 'nodejs';
@@ -44,6 +45,10 @@ function serializeOffer(doc: any) {
     acceptedAt: tsToMillis(data.acceptedAt),
     checkoutSessionId: data.checkoutSessionId,
     orderId: data.orderId,
+    secondChance: data.secondChance || undefined,
+    bundle: data.bundle || undefined,
+    listingIds: Array.isArray(data.listingIds) ? data.listingIds : undefined,
+    orderGroupId: data.orderGroupId || undefined,
   };
 }
 
@@ -129,6 +134,14 @@ export async function GET(request: Request) {
       // best-effort
     }
 
+    // Hydrate buyer reputation (seller ratings of the buyer) so sellers can weigh offers.
+    try {
+      const reputation = await getBuyerReputationSummaries(db, offers.map((o: any) => String(o.buyerId || '')));
+      offers = offers.map((o: any) => ({ ...o, buyerReputation: reputation[String(o.buyerId || '')] ?? null }));
+    } catch {
+      // best-effort
+    }
+
     offers.sort((a: any, b: any) => {
       const am = typeof a.updatedAt === 'number' ? a.updatedAt : 0;
       const bm = typeof b.updatedAt === 'number' ? b.updatedAt : 0;
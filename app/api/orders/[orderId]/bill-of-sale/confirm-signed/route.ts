@@ -6,12 +6,30 @@
  * - Seller can set billOfSaleSellerSignedAt
  *
  * NOTE: This does not implement e-sign; it records attestation timestamps.
+ * For cart checkouts the attestation covers every order in the group.
  */
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { Timestamp } from 'firebase-admin/firestore';
 import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
+import { mirrorToOrderGroupSiblings } from '@/lib/orders/orderGroups';
+import type { TransactionStatus } from '@/lib/types';
+
+// Any open (not completed/cancelled/refunded) group order can still be signed for.
+const OPEN_STATUSES: TransactionStatus[] = [
+  'PAID',
+  'FULFILLMENT_REQUIRED',
+  'AWAITING_TRANSFER_COMPLIANCE',
+  'DELIVERY_PROPOSED',
+  'DELIVERY_SCHEDULED',
+  'OUT_FOR_DELIVERY',
+  'DELIVERED_PENDING_CONFIRMATION',
+  'READY_FOR_PICKUP',
+  'PICKUP_PROPOSED',
+  'PICKUP_SCHEDULED',
+  'PICKED_UP',
+];
 
 function json(body: any, init?: { status?: number }) {
   return new Response(JSON.stringify(body), {
@@ -71,9 +89,17 @@ export async function POST(request: Request, ctx: { params: { orderId: string }
   }
 
   await orderRef.set(updates, { merge: true });
+  const groupOrderIds = await mirrorToOrderGroupSiblings({
+    db: db as any,
+    orderId,
+    orderData: order,
+    statuses: OPEN_STATUSES,
+    update: () => updates,
+  }).catch(() => [] as string[]);
   return json({
     ok: true,
     orderId,
+    ...(groupOrderIds.length ? { groupOrderIds } : {}),
     buyerSignedAt: isBuyer ? now.toDate().toISOString() : null,
     sellerSignedAt: isSeller ? now.toDate().toISOString() : null,
   });
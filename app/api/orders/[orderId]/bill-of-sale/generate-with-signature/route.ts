@@ -147,6 +147,7 @@ export async function POST(
     orderId,
     saleDateIso,
     purchasePriceUsd: orderAmount,
+    ...(orderData?.salesTax ? { salesTax: orderData.salesTax } : {}),
     seller,
     buyer,
     horse,
@@ -3,6 +3,7 @@
  *
  * Buyer confirms receipt of the item/animal.
  * Transitions: paid_held/paid/in_transit/delivered → buyer_confirmed (or ready_to_release if eligible)
+ * Optional body `{ receivedQuantity }` records how many head arrived on multi-quantity orders.
  */
 // IMPORTANT: Avoid importing `NextRequest` / `NextResponse` from `next/server` in this repo.
 // Route handlers work fine with Web `Request` / `Response`.
@@ -17,6 +18,12 @@ import { enqueueReviewRequest } from '@/lib/reviews/reviewRequest';
 import { getSiteUrl } from '@/lib/site-url';
 import { tryDispatchEmailJobNow } from '@/lib/email/dispatchEmailJobNow';
 import { captureException } from '@/lib/monitoring/capture';
+import { buildQuantityFulfillmentUpdate } from '@/lib/orders/quantityRefunds';
+import { z } from 'zod';
+
+const bodySchema = z.object({
+  receivedQuantity: z.number().int().min(0).optional(),
+});
 
 function json(body: any, init?: { status?: number; headers?: Record<string, string> }) {
   return new Response(JSON.stringify(body), {
@@ -57,6 +64,12 @@ export async function POST(request: Request, { params }: { params: { orderId: st
       return json({ error: 'Invalid token' }, { status: 401 });
     }
 
+    const parsed = bodySchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: 'Invalid request data', details: parsed.error.flatten() }, { status: 400 });
+    }
+    const { receivedQuantity } = parsed.data;
+
     const buyerId = decodedToken.uid;
     const orderId = params.orderId;
 
@@ -104,6 +117,12 @@ export async function POST(request: Request, { params }: { params: { orderId: st
     }
 
     const now = new Date();
+    const quantityUpdate =
+      receivedQuantity !== undefined ? buildQuantityFulfillmentUpdate(orderData, 'buyer', receivedQuantity, now) : null;
+    if (quantityUpdate && !quantityUpdate.ok) {
+      return json({ error: 'Invalid received quantity', details: quantityUpdate.message }, { status: 400 });
+    }
+
     const updateData: any = {
       status: 'buyer_confirmed' as OrderStatus,
       transactionStatus: 'COMPLETED' as TransactionStatus,
@@ -115,6 +134,10 @@ export async function POST(request: Request, { params }: { params: { orderId: st
       lastUpdatedByRole: 'buyer',
     };
 
+    if (quantityUpdate?.ok) {
+      updateData.quantityFulfillment = quantityUpdate.quantityFulfillment;
+    }
+
     // Ensure we have a delivery marker; only the buyer confirms receipt to complete the transaction.
     if (!orderData.deliveredAt) {
       updateData.deliveredAt = now;
@@ -143,6 +166,7 @@ export async function POST(request: Request, { params }: { params: { orderId: st
           actor: 'buyer',
           visibility: 'buyer',
           timestamp: Timestamp.fromDate(now),
+          ...(quantityUpdate?.ok ? { meta: { receivedQuantity, expectedQuantity: quantityUpdate.quantityFulfillment.expected } } : {}),
         },
       });
     } catch (e) {
@@ -3,6 +3,7 @@
  * 
  * Buyer opens a protected transaction dispute
  * Requires evidence and validates time windows
+ * Multi-quantity orders may claim only some head (`affectedQuantity`), resolved later as a per-head refund.
  */
 
 // IMPORTANT: Avoid importing `NextRequest` / `NextResponse` from `next/server` in this repo.
@@ -16,6 +17,8 @@ import { createAuditLog } from '@/lib/audit/logger';
 import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
 import { emitEventToUsers } from '@/lib/notifications';
 import { listAdminRecipientUids } from '@/lib/admin/adminRecipients';
+import { getOrderUnitCount } from '@/lib/orders/quantityRefunds';
+import { recordAnimalDispute } from '@/lib/animals/registry';
 
 const disputeSchema = z.object({
   reason: z.enum(['death', 'serious_illness', 'injury', 'escape', 'wrong_animal']),
@@ -24,6 +27,9 @@ const disputeSchema = z.object({
     type: z.enum(['photo', 'video', 'vet_report', 'delivery_doc', 'tag_microchip']),
     url: z.string().url(),
   })).min(1, 'At least one evidence item is required'),
+  affectedQuantity: z.number().int().positive().optional(),
+  /** Tag/microchip read off the delivered animal; checked against the animal registry. */
+  observedAnimalId: z.string().trim().max(100).optional(),
 });
 
 function json(body: any, init?: { status?: number; headers?: Record<string, string> }) {
@@ -80,7 +86,7 @@ export async function POST(
       return json({ error: 'Invalid request data', details: validation.error.flatten() }, { status: 400 });
     }
 
-    const { reason, notes, evidence } = validation.data;
+    const { reason, notes, evidence, affectedQuantity, observedAnimalId } = validation.data;
 
     // Get order
     const orderRef = db.collection('orders').doc(orderId);
@@ -124,6 +130,13 @@ export async function POST(
       return json({ error: 'You are not eligible for protected transactions due to previous fraudulent claims' }, { status: 403 });
     }
 
+    const orderQuantity = getOrderUnitCount(orderData);
+    if (affectedQuantity !== undefined && affectedQuantity > orderQuantity) {
+      return json({ error: `Affected head cannot exceed the ${orderQuantity} on this order` }, { status: 400 });
+    }
+    // A claim covering every head is a whole-order dispute.
+    const disputeQuantity = affectedQuantity !== undefined && affectedQuantity < orderQuantity ? affectedQuantity : null;
+
     // Validate time windows based on reason (before transaction)
     const deliveryConfirmedAt = orderData.deliveryConfirmedAt.toDate();
     const hoursSinceDelivery = (Date.now() - deliveryConfirmedAt.getTime()) / (1000 * 60 * 60);
@@ -196,6 +209,7 @@ export async function POST(
           protectedDisputeReason: reason,
           protectedDisputeNotes: notes || null,
           protectedDisputeEvidence: evidenceWithTimestamps,
+          protectedDisputeQuantity: disputeQuantity,
           disputeOpenedAt: now,
           transactionStatus: 'DISPUTE_OPENED' as TransactionStatus, // NEW: Primary status
           // Populate issues object
@@ -233,6 +247,20 @@ export async function POST(
       // Non-blocking: claims count update failure shouldn't block dispute creation
     });
 
+    // Animal registry: note the dispute on the order's animals (best-effort).
+    let observedAnimalIdMatches: boolean | null = null;
+    try {
+      const animalIds: string[] = Array.isArray(orderData.animalIds) ? orderData.animalIds.map(String) : [];
+      ({ observedMatches: observedAnimalIdMatches } = await recordAnimalDispute(db as any, {
+        orderId,
+        animalIds,
+        reason,
+        observedIdentifier: observedAnimalId || null,
+      }));
+    } catch {
+      // ignore
+    }
+
     // Create audit log
     await createAuditLog(db, {
       actorUid: buyerId,
@@ -249,7 +277,9 @@ export async function POST(
       metadata: {
         reason,
         evidenceCount: evidence.length,
+        affectedQuantity: disputeQuantity,
         needsVetReport: needsVetReport && !hasVetReport,
+        ...(observedAnimalIdMatches !== null ? { observedAnimalIdMatches } : {}),
       },
       source: 'buyer_ui',
     });
@@ -2,6 +2,9 @@
  * POST /api/orders/[orderId]/disputes/resolve
  * 
  * Admin resolves a dispute (release, refund, or partial refund)
+ *
+ * Partial refunds take either `refundAmount` or `refundQuantity` (head, priced per head from the order);
+ * with neither, a per-unit claim (`protectedDisputeQuantity`) is refunded by head.
  */
 
 // IMPORTANT: Avoid importing `NextRequest` / `NextResponse` from `next/server` in this repo.
@@ -15,6 +18,9 @@ import { validateRequest, resolveDisputeSchema } from '@/lib/validation/api-sche
 import { createAuditLog } from '@/lib/audit/logger';
 import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
 import { appendOrderTimelineEvent } from '@/lib/orders/timeline';
+import { computeAmountRefund, computePerHeadRefund } from '@/lib/orders/quantityRefunds';
+import { getOrderGroupLineRefund } from '@/lib/orders/orderGroups';
+import { reverseAnimalSale } from '@/lib/animals/registry';
 
 function json(body: any, init?: { status?: number; headers?: Record<string, string> }) {
   return new Response(JSON.stringify(body), {
@@ -88,7 +94,7 @@ export async function POST(
       return json({ error: validation.error, details: validation.details?.errors }, { status: 400 });
     }
 
-    const { resolution, refundAmount, refundReason, markFraudulent, adminNotes } = validation.data;
+    const { resolution, refundAmount, refundQuantity, refundReason, markFraudulent, adminNotes } = validation.data;
     const orderId = params.orderId;
 
     // Get order
@@ -109,9 +115,32 @@ export async function POST(
       return json({ error: 'Dispute is not in a resolvable state' }, { status: 400 });
     }
 
-    // Validate partial refund
-    if (resolution === 'partial_refund' && (!refundAmount || refundAmount >= orderData.amount)) {
-      return json({ error: 'Partial refund amount must be less than order amount' }, { status: 400 });
+    // Per-head partial refund: explicit head count, else the buyer's per-unit claim when no amount was given.
+    const claimedQuantity =
+      typeof orderData.protectedDisputeQuantity === 'number' && orderData.protectedDisputeQuantity > 0
+        ? orderData.protectedDisputeQuantity
+        : undefined;
+    const headsToRefund =
+      resolution === 'partial_refund' ? refundQuantity ?? (refundAmount ? undefined : claimedQuantity) : undefined;
+    const perHead = headsToRefund ? computePerHeadRefund(orderData, headsToRefund) : null;
+    if (perHead && !perHead.ok) {
+      return json({ error: perHead.message, code: perHead.code }, { status: 400 });
+    }
+    if (perHead?.ok && perHead.isFullRefund) {
+      return json({ error: 'That covers every remaining head - use a full refund instead' }, { status: 400 });
+    }
+
+    // Validate partial refund: it adds to whatever was already refunded (per head or by amount).
+    const amountRefund =
+      resolution === 'partial_refund' && !perHead && refundAmount ? computeAmountRefund(orderData, Math.round(refundAmount * 100)) : null;
+    if (resolution === 'partial_refund' && !perHead && !amountRefund) {
+      return json({ error: 'Partial refund amount is required' }, { status: 400 });
+    }
+    if (amountRefund && !amountRefund.ok) {
+      return json({ error: amountRefund.message, code: amountRefund.code }, { status: 400 });
+    }
+    if (amountRefund?.ok && amountRefund.isFullRefund) {
+      return json({ error: 'That covers everything not yet refunded - use a full refund instead' }, { status: 400 });
     }
 
     // Capture before state for audit
@@ -147,17 +176,30 @@ export async function POST(
         return json({ error: 'Payment intent not found' }, { status: 400 });
       }
 
+      // A cart line shares the group's PaymentIntent; refunding it without an amount would refund every line.
+      const groupLine = getOrderGroupLineRefund(orderData, null);
+      if (groupLine && groupLine.amountCents <= 0) {
+        return json({ error: 'Nothing is left to refund on this cart line' }, { status: 400 });
+      }
+
       const refund = await stripe.refunds.create(
         {
           payment_intent: orderData.stripePaymentIntentId,
+          ...(groupLine ? { amount: groupLine.amountCents } : {}),
           metadata: {
             orderId: orderId,
             resolution: 'dispute_refund',
             resolvedBy: adminId,
+            ...(groupLine ? { orderGroupId: String(orderData.orderGroupId) } : {}),
           },
         },
         { idempotencyKey: `dispute-resolve:refund:${orderId}` }
       );
+      if (groupLine) updateData.lineRefundedAmount = groupLine.lineRefundedAmountAfter;
+      // The refund covers the sales tax collected at checkout too.
+      if (typeof orderData.salesTax?.amount === 'number' && orderData.salesTax.amount > 0) {
+        updateData.refundedTaxAmount = orderData.salesTax.amount;
+      }
 
       updateData.protectedDisputeStatus = 'resolved_refund';
       updateData.status = 'refunded';
@@ -173,8 +215,18 @@ export async function POST(
         return json({ error: 'Payment intent not found' }, { status: 400 });
       }
 
-      const refundAmountValue = refundAmount ?? 0;
-      const refundAmountCents = Math.round(refundAmountValue * 100);
+      const refundAmountValue = perHead?.ok ? perHead.amount : refundAmount ?? 0;
+      // Sales tax goes back pro rata with the pre-tax amount.
+      const partialCalc = perHead?.ok ? perHead : amountRefund?.ok ? amountRefund : null;
+      const taxCents = partialCalc?.taxCents ?? 0;
+      const refundAmountCents = Math.round(refundAmountValue * 100) + taxCents;
+      const groupLine = getOrderGroupLineRefund(orderData, refundAmountCents);
+      if (groupLine && groupLine.amountCents < refundAmountCents) {
+        return json(
+          { error: `Refund amount cannot exceed the $${(groupLine.lineLeftCents / 100).toFixed(2)} charged for this cart line and not yet refunded` },
+          { status: 400 }
+        );
+      }
       const refund = await stripe.refunds.create(
         {
           payment_intent: orderData.stripePaymentIntentId,
@@ -183,6 +235,7 @@ export async function POST(
             orderId: orderId,
             resolution: 'dispute_partial_refund',
             resolvedBy: adminId,
+            ...(perHead?.ok ? { refundQuantity: String(perHead.headCount) } : {}),
           },
         },
         { idempotencyKey: `dispute-resolve:partial:${orderId}:${refundAmountCents}` }
@@ -193,9 +246,14 @@ export async function POST(
       updateData.stripeRefundId = refund.id;
       updateData.refundedBy = adminId;
       updateData.refundedAt = now;
-      updateData.refundReason = `Dispute resolved - partial refund of $${refundAmountValue}`;
-      updateData.refundAmount = refundAmountValue;
+      updateData.refundReason = perHead?.ok
+        ? `Dispute resolved - partial refund of $${refundAmountValue} for ${perHead.headCount} head`
+        : `Dispute resolved - partial refund of $${refundAmountValue}`;
+      updateData.refundAmount = partialCalc ? partialCalc.refundAmountAfter : refundAmountValue;
+      if (partialCalc && taxCents > 0) updateData.refundedTaxAmount = partialCalc.refundedTaxAmountAfter;
+      if (perHead?.ok) updateData.refundedQuantity = perHead.refundedQuantityAfter;
       updateData.isFullRefund = false;
+      if (groupLine) updateData.lineRefundedAmount = groupLine.lineRefundedAmountAfter;
       updateData.transactionStatus = 'COMPLETED'; // Partial refund resolved - order complete
       
       // NOTE: Seller already received full payment immediately via destination charge.
@@ -224,6 +282,15 @@ export async function POST(
 
     await orderRef.update(updateData);
 
+    // A fully refunded sale never happened as far as the animal registry is concerned (best-effort).
+    if (resolution === 'refund') {
+      try {
+        await reverseAnimalSale(db, { orderId, reason: 'dispute_refund' });
+      } catch {
+        // ignore; best-effort
+      }
+    }
+
     // Create audit log
     await createAuditLog(db, {
       actorUid: adminId,
@@ -241,7 +308,9 @@ export async function POST(
       },
       metadata: {
         resolution,
-        refundAmount: resolution === 'partial_refund' ? refundAmount : undefined,
+        refundAmount: resolution === 'partial_refund' ? (perHead?.ok ? perHead.amount : refundAmount) : undefined,
+        refundQuantity: perHead?.ok ? perHead.headCount : undefined,
+        disputeQuantity: claimedQuantity,
         refundReason: refundReason || undefined,
         markFraudulent,
         adminNotes,
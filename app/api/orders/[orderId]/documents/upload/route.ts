@@ -14,6 +14,7 @@ import { rateLimitMiddleware, RATE_LIMITS } from '@/lib/rate-limit';
 import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
 import { recomputeOrderComplianceDocsStatus } from '@/lib/orders/complianceDocsStatus';
 import { appendOrderTimelineEvent } from '@/lib/orders/timeline';
+import { EXTRACTABLE_DOCUMENT_TYPES, runDocumentExtraction } from '@/lib/compliance/extraction';
 
 const bodySchema = z.object({
   documentUrl: z.string().url(),
@@ -96,6 +97,10 @@ export async function POST(
       'DELIVERY_PROOF',
       'HEALTH_CERTIFICATE',
       'TAHC_CVI',
+      'BRAND_INSPECTION',
+      'COGGINS_TEST',
+      'TB_TEST',
+      'BRUCELLOSIS_TEST',
       'BILL_OF_SALE',
       'OTHER',
     ];
@@ -121,6 +126,22 @@ export async function POST(
 
     const docRef = await documentsRef.add(docData);
 
+    // Propose CVI/permit fields for admin review, diffed against the listing's declared attributes (best-effort).
+    if (EXTRACTABLE_DOCUMENT_TYPES.includes(type as DocumentType)) {
+      const listingAttributes =
+        orderData.listingSnapshot?.attributes ||
+        (orderData.listingId
+          ? ((await db.collection('listings').doc(String(orderData.listingId)).get().catch(() => null))?.data() as any)?.attributes
+          : null);
+      await runDocumentExtraction({
+        docRef,
+        documentUrl,
+        documentType: type,
+        entityPath: `orders/${orderId}`,
+        declaredAttributes: listingAttributes || null,
+      });
+    }
+
     // Update order transferPermitStatus if TPWD_TRANSFER_APPROVAL uploaded
     if (type === 'TPWD_TRANSFER_APPROVAL') {
       await orderRef.update({
@@ -3,6 +3,9 @@
  *
  * Buyer creates a Stripe Checkout Session for the final payment (balance due).
  * Allowed when order is OUT_FOR_DELIVERY (or DELIVERY_SCHEDULED) and final payment not yet confirmed.
+ * Orders with a balance due date (listing deposit terms) can pay any time before delivery, until the
+ * balance expires (see lib/orders/balanceDue.ts).
+ * Installment-plan orders pay through /api/orders/[orderId]/installment-session instead.
  */
 
 import { getFirestore } from 'firebase-admin/firestore';
@@ -10,6 +13,7 @@ import { rateLimitMiddleware, RATE_LIMITS } from '@/lib/rate-limit';
 import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
 import { getEffectiveTransactionStatus } from '@/lib/orders/status';
 import { getOrderBalanceDue } from '@/lib/orders/progress';
+import { BALANCE_PAYABLE_STATUSES } from '@/lib/orders/balanceDue';
 import { stripe, calculatePlatformFee, getAppUrl, isStripeConfigured } from '@/lib/stripe/config';
 import { logWarn } from '@/lib/monitoring/logger';
 
@@ -73,6 +77,18 @@ export async function POST(request: Request, { params }: { params: { orderId: st
     if (order.finalPaymentConfirmedAt) {
       return json({ error: 'Final payment already completed' }, { status: 400 });
     }
+    if (order.installmentPlan) {
+      return json(
+        { error: 'This order is on an installment plan. Pay the next installment instead.', code: 'INSTALLMENT_PLAN' },
+        { status: 400 }
+      );
+    }
+    if (order.depositExpiredAt) {
+      return json(
+        { error: 'The balance due date has passed and this order was cancelled', code: 'BALANCE_EXPIRED' },
+        { status: 400 }
+      );
+    }
 
     // Balance due = total − deposit (when deposit was paid); otherwise use stored finalPaymentAmount
     const balanceDue = getOrderBalanceDue(order as any);
@@ -81,7 +97,9 @@ export async function POST(request: Request, { params }: { params: { orderId: st
     }
 
     const txStatus = getEffectiveTransactionStatus(order);
-    const allowedStatuses = ['OUT_FOR_DELIVERY', 'DELIVERY_SCHEDULED', 'FULFILLMENT_REQUIRED'];
+    const allowedStatuses: string[] = order.balanceDueAt
+      ? BALANCE_PAYABLE_STATUSES
+      : ['OUT_FOR_DELIVERY', 'DELIVERY_SCHEDULED', 'FULFILLMENT_REQUIRED'];
     if (!allowedStatuses.includes(txStatus)) {
       return json(
         {
@@ -103,6 +121,8 @@ export async function POST(request: Request, { params }: { params: { orderId: st
     const sellerAmount = amountCents - platformFee;
     const baseUrl = getAppUrl();
     const listingTitle = order.listingTitle || order.listingSnapshot?.title || 'Order';
+    const total = typeof order.amount === 'number' ? order.amount : 0;
+    const remainingPercent = total > 0 ? Math.round((balanceDue / total) * 100) : 80;
 
     const session = await stripe.checkout.sessions.create({
       payment_method_types: ['card'],
@@ -113,7 +133,7 @@ export async function POST(request: Request, { params }: { params: { orderId: st
             currency: 'usd',
             product_data: {
               name: `Final payment – ${listingTitle}`,
-              description: `Balance due for order (80% remaining).`,
+              description: `Balance due for order (${remainingPercent}% remaining).`,
             },
             unit_amount: amountCents,
           },
@@ -11,6 +11,7 @@ import { TransactionStatus } from '@/lib/types';
 import { z } from 'zod';
 import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
 import { appendOrderTimelineEvent } from '@/lib/orders/timeline';
+import { mirrorToOrderGroupSiblings } from '@/lib/orders/orderGroups';
 import { emitAndProcessEventForUser } from '@/lib/notifications';
 import { resolveActionNotifications } from '@/lib/notifications/resolveAction';
 import { getSiteUrl } from '@/lib/site-url';
@@ -166,6 +167,29 @@ export async function POST(
       /* best-effort */
     }
 
+    // Cart checkouts: the chosen window applies to every order in the group on the same proposal.
+    let groupOrderIds: string[] = [];
+    try {
+      groupOrderIds = await mirrorToOrderGroupSiblings({
+        db: db as any,
+        orderId,
+        orderData,
+        statuses: ['DELIVERY_PROPOSED'],
+        update: () => sanitized,
+        timelineEvent: (siblingId) => ({
+          id: `DELIVERY_AGREED:${siblingId}`,
+          type: 'ORDER_PLACED',
+          label: 'Buyer chose delivery date',
+          actor: 'buyer',
+          visibility: 'seller',
+          timestamp: Timestamp.fromDate(now),
+          meta: { windowStart: start.toISOString(), windowEnd: end.toISOString() },
+        }),
+      });
+    } catch (e) {
+      captureException(e instanceof Error ? e : new Error(String(e)), { orderId, context: 'order-group-agree-delivery' });
+    }
+
     try {
       const listingDoc = await db.collection('listings').doc(orderData.listingId).get();
       const listingTitle = (listingDoc.data() as any)?.title || 'Your listing';
@@ -202,15 +226,20 @@ export async function POST(
     }
 
     // Smart notifications: resolve "Accept delivery date" when buyer completes the action (real-time update in UI).
-    await resolveActionNotifications(db, buyerId, {
-      type: 'order_delivery_scheduled',
-      entityId: orderId,
-    });
+    await Promise.all(
+      [orderId, ...groupOrderIds].map((id) =>
+        resolveActionNotifications(db, buyerId, {
+          type: 'order_delivery_scheduled',
+          entityId: id,
+        })
+      )
+    );
 
     return json({
       success: true,
       orderId,
       transactionStatus: 'DELIVERY_SCHEDULED',
+      ...(groupOrderIds.length ? { groupOrderIds } : {}),
       agreedWindow: { start: start.toISOString(), end: end.toISOString() },
       message: 'Delivery date chosen. Seller will deliver within this timeframe.',
     });
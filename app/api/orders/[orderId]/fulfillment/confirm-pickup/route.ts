@@ -3,6 +3,7 @@
  * 
  * BUYER_TRANSPORT: Buyer confirms pickup with pickup code
  * Transitions: PICKUP_SCHEDULED → PICKED_UP → COMPLETED
+ * Optional `pickedUpQuantity` records how many head were loaded on multi-quantity orders.
  */
 
 import { getFirestore, Timestamp } from 'firebase-admin/firestore';
@@ -16,10 +17,13 @@ import { emitAndProcessEventForUser } from '@/lib/notifications';
 import { getSiteUrl } from '@/lib/site-url';
 import { tryDispatchEmailJobNow } from '@/lib/email/dispatchEmailJobNow';
 import { captureException } from '@/lib/monitoring/capture';
+import { buildQuantityFulfillmentUpdate } from '@/lib/orders/quantityRefunds';
+import { isInstallmentPlanOutstanding } from '@/lib/pricing/installments';
 
 const confirmPickupSchema = z.object({
   pickupCode: z.string().length(6, 'Pickup code must be 6 digits'),
   proofPhotos: z.array(z.string().url()).optional(),
+  pickedUpQuantity: z.number().int().min(0).optional(),
 });
 
 function json(body: any, init?: { status?: number; headers?: Record<string, string> }) {
@@ -76,7 +80,7 @@ export async function POST(
       return json({ error: 'Invalid request data', details: validation.error.flatten() }, { status: 400 });
     }
 
-    const { pickupCode, proofPhotos } = validation.data;
+    const { pickupCode, proofPhotos, pickedUpQuantity } = validation.data;
 
     // Get order
     const orderRef = db.collection('orders').doc(orderId);
@@ -117,6 +121,18 @@ export async function POST(
       );
     }
 
+    // Installment plans: the animal / equipment is only released once the last installment is paid.
+    if (isInstallmentPlanOutstanding(orderData)) {
+      return json(
+        {
+          error: 'Installments outstanding',
+          details: 'Pay the remaining installments before picking up your order.',
+          code: 'INSTALLMENTS_OUTSTANDING',
+        },
+        { status: 400 }
+      );
+    }
+
     // Validate pickup code
     const expectedCode = orderData.pickup?.pickupCode;
     if (!expectedCode) {
@@ -141,6 +157,12 @@ export async function POST(
 
     // Update order
     const now = new Date();
+    const quantityUpdate =
+      pickedUpQuantity !== undefined ? buildQuantityFulfillmentUpdate(orderData, 'buyer', pickedUpQuantity, now) : null;
+    if (quantityUpdate && !quantityUpdate.ok) {
+      return json({ error: 'Invalid picked-up quantity', details: quantityUpdate.message }, { status: 400 });
+    }
+
     const updateData: any = {
       transactionStatus: 'COMPLETED' as TransactionStatus, // Directly to COMPLETED (PICKED_UP is implicit)
       status: 'completed', // Legacy status for backward compatibility
@@ -153,6 +175,7 @@ export async function POST(
         confirmedAt: now,
         ...(proofPhotos && proofPhotos.length > 0 ? { proofPhotos } : {}),
       },
+      ...(quantityUpdate?.ok ? { quantityFulfillment: quantityUpdate.quantityFulfillment } : {}),
     };
 
     await orderRef.update(updateData);
@@ -179,7 +202,14 @@ export async function POST(
           actor: 'buyer',
           visibility: 'seller',
           timestamp: Timestamp.fromDate(now),
-          ...(proofPhotos?.length ? { meta: { proofPhotosCount: proofPhotos.length } } : {}),
+          ...(proofPhotos?.length || quantityUpdate?.ok
+            ? {
+                meta: {
+                  ...(proofPhotos?.length ? { proofPhotosCount: proofPhotos.length } : {}),
+                  ...(quantityUpdate?.ok ? { pickedUpQuantity } : {}),
+                },
+              }
+            : {}),
         },
       });
     } catch {
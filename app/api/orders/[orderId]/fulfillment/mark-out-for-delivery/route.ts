@@ -6,6 +6,7 @@
  */
 
 import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { isInstallmentPlanOutstanding } from '@/lib/pricing/installments';
 import { rateLimitMiddleware, RATE_LIMITS } from '@/lib/rate-limit';
 import { TransactionStatus } from '@/lib/types';
 import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
@@ -117,6 +118,18 @@ export async function POST(
       );
     }
 
+    // Installment plans: the animal / equipment is only released once the last installment is paid.
+    if (isInstallmentPlanOutstanding(orderData)) {
+      return json(
+        {
+          error: 'Installments outstanding',
+          details: 'The buyer is paying on an installment plan. Deliver once the last installment is paid.',
+          code: 'INSTALLMENTS_OUTSTANDING',
+        },
+        { status: 400 }
+      );
+    }
+
     // Update order
     const now = new Date();
     const updateData: any = {
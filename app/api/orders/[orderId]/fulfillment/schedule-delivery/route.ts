@@ -12,6 +12,7 @@ import { TransactionStatus } from '@/lib/types';
 import { z } from 'zod';
 import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
 import { appendOrderTimelineEvent } from '@/lib/orders/timeline';
+import { mirrorToOrderGroupSiblings } from '@/lib/orders/orderGroups';
 import { emitAndProcessEventForUser } from '@/lib/notifications';
 import { resolveActionNotifications } from '@/lib/notifications/resolveAction';
 import { getSiteUrl } from '@/lib/site-url';
@@ -170,12 +171,11 @@ export async function POST(
       : undefined;
 
     let transactionStatus: TransactionStatus;
-    let deliveryPayload: Record<string, unknown>;
+    let deliveryFields: Record<string, unknown>;
 
     if (useWindows) {
       transactionStatus = 'DELIVERY_PROPOSED';
-      deliveryPayload = {
-        ...(orderData.delivery || {}),
+      deliveryFields = {
         windows: windowsWithDates,
         proposedAt: now,
         ...(notes ? { notes } : {}),
@@ -184,12 +184,12 @@ export async function POST(
     } else {
       transactionStatus = 'DELIVERY_SCHEDULED';
       const etaDate = new Date(eta!);
-      deliveryPayload = {
-        ...(orderData.delivery || {}),
+      deliveryFields = {
         eta: etaDate,
         ...(transporter ? { transporter } : {}),
       };
     }
+    const deliveryPayload: Record<string, unknown> = { ...(orderData.delivery || {}), ...deliveryFields };
 
     const updateData: any = {
       transactionStatus,
@@ -224,6 +224,34 @@ export async function POST(
       /* best-effort */
     }
 
+    // Cart checkouts: the same delivery proposal covers every order in the group (one trip).
+    let groupOrderIds: string[] = [];
+    try {
+      groupOrderIds = await mirrorToOrderGroupSiblings({
+        db: db as any,
+        orderId,
+        orderData,
+        statuses: allowedStatuses,
+        update: (sibling) =>
+          sanitizeFirestorePayload({
+            transactionStatus,
+            updatedAt: now,
+            lastUpdatedByRole: 'seller',
+            delivery: { ...(sibling.data.delivery || {}), ...deliveryFields },
+          }),
+        timelineEvent: (siblingId) => ({
+          id: useWindows ? `DELIVERY_PROPOSED:${siblingId}` : `DELIVERY_SCHEDULED:${siblingId}`,
+          type: 'SELLER_PREPARING',
+          label: useWindows ? 'Seller proposed delivery times' : 'Seller scheduled delivery',
+          actor: 'seller',
+          visibility: 'buyer',
+          timestamp: Timestamp.fromDate(now),
+        }),
+      });
+    } catch (e) {
+      captureException(e instanceof Error ? e : new Error(String(e)), { orderId, context: 'order-group-schedule-delivery' });
+    }
+
     try {
       const listingDoc = await db.collection('listings').doc(orderData.listingId).get();
       const listingTitle = (listingDoc.data() as any)?.title || 'Your order';
@@ -260,12 +288,14 @@ export async function POST(
       console.error('Error emitting Order.DeliveryScheduled notification event:', e);
     }
 
-    // Resolve seller "new sale / propose delivery" action items for this order
+    // Resolve seller "new sale / propose delivery" action items for this order (and its group siblings)
     try {
-      await Promise.all([
-        resolveActionNotifications(db as any, sellerId, { type: 'order_created', entityId: orderId }),
-        resolveActionNotifications(db as any, sellerId, { type: 'order_delivery_address_set', entityId: orderId }),
-      ]);
+      await Promise.all(
+        [orderId, ...groupOrderIds].flatMap((id) => [
+          resolveActionNotifications(db as any, sellerId, { type: 'order_created', entityId: id }),
+          resolveActionNotifications(db as any, sellerId, { type: 'order_delivery_address_set', entityId: id }),
+        ])
+      );
     } catch {
       /* best-effort */
     }
@@ -274,6 +304,7 @@ export async function POST(
       success: true,
       orderId,
       transactionStatus,
+      ...(groupOrderIds.length ? { groupOrderIds } : {}),
       ...(useWindows ? { windows: windowsWithDates, message: 'Delivery windows proposed. Buyer will agree to one.' } : { eta: (deliveryPayload as any).eta?.toISOString?.(), message: 'Delivery scheduled successfully.' }),
     });
   } catch (error: any) {
@@ -0,0 +1,187 @@
+/**
+ * POST /api/orders/[orderId]/installment-session
+ *
+ * Buyer creates a Stripe Checkout Session for the next unpaid installment of an installment plan
+ * (see lib/pricing/installments.ts). Installments can be paid early; a defaulted plan can still be caught up.
+ * The last installment is charged as the order's final payment (paymentType 'final'), which releases the
+ * order for delivery / pickup.
+ *
+ * A session still open for the same installment is returned instead of a new one, and creation is idempotent
+ * per previous session, so double clicks can't open two payable checkouts (a duplicate that still gets paid is
+ * refunded by the webhook).
+ */
+
+import { getFirestore } from 'firebase-admin/firestore';
+import { rateLimitMiddleware, RATE_LIMITS } from '@/lib/rate-limit';
+import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
+import { getEffectiveTransactionStatus } from '@/lib/orders/status';
+import { BALANCE_PAYABLE_STATUSES } from '@/lib/orders/balanceDue';
+import { getNextInstallment, isLastInstallment } from '@/lib/pricing/installments';
+import { stripe, calculatePlatformFee, getAppUrl, isStripeConfigured } from '@/lib/stripe/config';
+import { logWarn } from '@/lib/monitoring/logger';
+
+function json(body: any, init?: { status?: number; headers?: Record<string, string> }) {
+  return new Response(JSON.stringify(body), {
+    status: init?.status ?? 200,
+    headers: {
+      'content-type': 'application/json',
+      ...(init?.headers || {}),
+    },
+  });
+}
+
+export async function POST(request: Request, { params }: { params: { orderId: string } }) {
+  try {
+    const auth = getAdminAuth();
+    const db = getAdminDb() as unknown as ReturnType<typeof getFirestore>;
+
+    const rateLimitCheck = rateLimitMiddleware(RATE_LIMITS.default);
+    const rateLimitResult = await rateLimitCheck(request as any);
+    if (!rateLimitResult.allowed) {
+      return json(rateLimitResult.body, {
+        status: rateLimitResult.status,
+        headers: { 'Retry-After': rateLimitResult.body.retryAfter?.toString() },
+      });
+    }
+
+    if (!isStripeConfigured() || !stripe) {
+      return json({ error: 'Stripe is not configured' }, { status: 503 });
+    }
+
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let uid: string;
+    try {
+      const decoded = await auth.verifyIdToken(authHeader.split('Bearer ')[1]!);
+      uid = decoded.uid;
+    } catch {
+      return json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const orderId = params?.orderId?.trim();
+    if (!orderId) {
+      return json({ error: 'orderId required' }, { status: 400 });
+    }
+
+    const orderSnap = await db.collection('orders').doc(orderId).get();
+    if (!orderSnap.exists) {
+      return json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    const order = orderSnap.data() as any;
+    if (order.buyerId !== uid) {
+      return json({ error: 'Only the buyer can pay an installment' }, { status: 403 });
+    }
+
+    const plan = order.installmentPlan;
+    if (!plan) {
+      return json({ error: 'This order is not on an installment plan' }, { status: 400 });
+    }
+    const installment = getNextInstallment(plan);
+    if (!installment || order.finalPaymentConfirmedAt) {
+      return json({ error: 'All installments are paid' }, { status: 400 });
+    }
+
+    const txStatus = getEffectiveTransactionStatus(order);
+    if (!BALANCE_PAYABLE_STATUSES.includes(txStatus)) {
+      return json(
+        {
+          error: 'Installment payment is not available',
+          details: `Order must be in fulfillment or delivery. Current: ${txStatus}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const sellerStripeAccountId = order.sellerStripeAccountId;
+    if (!sellerStripeAccountId) {
+      logWarn('Installment payment: order missing sellerStripeAccountId', { orderId });
+      return json({ error: 'Seller payment account not found' }, { status: 400 });
+    }
+
+    const previous = order.installmentCheckoutSession;
+    const previousSessionId =
+      previous?.installmentNumber === installment.number && typeof previous?.sessionId === 'string' ? previous.sessionId : null;
+    if (previousSessionId) {
+      try {
+        const prevSession = await stripe.checkout.sessions.retrieve(previousSessionId);
+        if (prevSession.status === 'open' && prevSession.url) return json({ url: prevSession.url });
+        if (prevSession.status === 'complete') {
+          return json({ error: 'This installment was just paid; it can take a moment to show on the order' }, { status: 409 });
+        }
+      } catch (e: any) {
+        logWarn('Installment payment: could not load previous session', { orderId, sessionId: previousSessionId, error: String(e?.message || e) });
+      }
+    }
+
+    const paymentType = isLastInstallment(plan, installment) ? 'final' : 'installment';
+    const amountCents = Math.round(installment.amount * 100);
+    const platformFee = calculatePlatformFee(amountCents);
+    const sellerAmount = amountCents - platformFee;
+    const baseUrl = getAppUrl();
+    const listingTitle = order.listingTitle || order.listingSnapshot?.title || 'Order';
+
+    const session = await stripe.checkout.sessions.create({
+      payment_method_types: ['card'],
+      customer_email: undefined,
+      line_items: [
+        {
+          price_data: {
+            currency: 'usd',
+            product_data: {
+              name: `Installment ${installment.number} of ${plan.installmentCount} – ${listingTitle}`,
+              description:
+                paymentType === 'final'
+                  ? 'Final installment. Your order is released for delivery once it is paid.'
+                  : `Installment plan payment (${plan.installmentCount} payments every ${plan.intervalDays} days).`,
+            },
+            unit_amount: amountCents,
+          },
+          quantity: 1,
+        },
+      ],
+      mode: 'payment',
+      success_url: `${baseUrl}/dashboard/orders/${orderId}?session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${baseUrl}/dashboard/orders/${orderId}`,
+      payment_intent_data: {
+        application_fee_amount: platformFee,
+        transfer_data: { destination: sellerStripeAccountId },
+        metadata: {
+          orderId,
+          buyerId: uid,
+          sellerId: order.sellerId,
+          transportOption: order.transportOption || 'SELLER_TRANSPORT',
+          paymentType,
+          installmentNumber: String(installment.number),
+        },
+      },
+      metadata: {
+        orderId,
+        buyerId: uid,
+        sellerId: order.sellerId,
+        sellerStripeAccountId,
+        listingTitle,
+        sellerAmount: String(sellerAmount),
+        platformFee: String(platformFee),
+        paymentType,
+        installmentNumber: String(installment.number),
+      },
+    }, { idempotencyKey: `installment-session:${orderId}:${installment.number}:${previousSessionId || 'first'}` });
+
+    await db.collection('orders').doc(orderId).set(
+      { installmentCheckoutSession: { installmentNumber: installment.number, sessionId: session.id, createdAt: new Date() } },
+      { merge: true }
+    );
+
+    return json({ url: session.url });
+  } catch (e: any) {
+    console.error('[installment-session]', e);
+    return json(
+      { error: e?.message || 'Failed to create payment session' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,9 +4,12 @@
  * SELLER_TRANSPORT: Seller marks order as delivered. Requires at least one DELIVERY_PROOF
  * document (photo of animal delivered). Transitions: OUT_FOR_DELIVERY → DELIVERED_PENDING_CONFIRMATION.
  * Buyer confirms receipt separately to complete the transaction.
+ * Optional body `{ deliveredQuantity }` records how many head were delivered on multi-quantity orders.
  */
 
 import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { isInstallmentPlanOutstanding } from '@/lib/pricing/installments';
+import { z } from 'zod';
 import { rateLimitMiddleware, RATE_LIMITS } from '@/lib/rate-limit';
 import { TransactionStatus } from '@/lib/types';
 import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
@@ -17,6 +20,11 @@ import { tryDispatchEmailJobNow } from '@/lib/email/dispatchEmailJobNow';
 import { captureException } from '@/lib/monitoring/capture';
 import { sanitizeFirestorePayload } from '@/lib/firebase/sanitizeFirestore';
 import { assertNoCorruptInt32 } from '@/lib/firebase/assertNoCorruptInt32';
+import { buildQuantityFulfillmentUpdate } from '@/lib/orders/quantityRefunds';
+
+const bodySchema = z.object({
+  deliveredQuantity: z.number().int().min(0).optional(),
+});
 
 function json(body: any, init?: { status?: number; headers?: Record<string, string> }) {
   return new Response(JSON.stringify(body), {
@@ -63,6 +71,12 @@ export async function POST(
       return json({ error: 'Invalid token' }, { status: 401 });
     }
 
+    const parsed = bodySchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return json({ error: 'Invalid request data', details: parsed.error.flatten() }, { status: 400 });
+    }
+    const { deliveredQuantity } = parsed.data;
+
     const sellerId = decodedToken.uid;
     const orderRef = db.collection('orders').doc(orderId);
     const orderDoc = await orderRef.get();
@@ -96,6 +110,18 @@ export async function POST(
       );
     }
 
+    // Installment plans: the animal / equipment is only released once the last installment is paid.
+    if (isInstallmentPlanOutstanding(orderData)) {
+      return json(
+        {
+          error: 'Installments outstanding',
+          details: 'The buyer is paying on an installment plan. Deliver once the last installment is paid.',
+          code: 'INSTALLMENTS_OUTSTANDING',
+        },
+        { status: 400 }
+      );
+    }
+
     const proofSnap = await orderRef.collection('documents').where('type', '==', 'DELIVERY_PROOF').get();
     if (!proofSnap.size) {
       return json(
@@ -112,6 +138,12 @@ export async function POST(
       .filter((u): u is string => typeof u === 'string' && u.length > 0);
 
     const now = new Date();
+    const quantityUpdate =
+      deliveredQuantity !== undefined ? buildQuantityFulfillmentUpdate(orderData, 'seller', deliveredQuantity, now) : null;
+    if (quantityUpdate && !quantityUpdate.ok) {
+      return json({ error: 'Invalid delivered quantity', details: quantityUpdate.message }, { status: 400 });
+    }
+
     const proofUploads = proofUrls.map((url) => ({ type: 'DELIVERY_PROOF', url, uploadedAt: now }));
 
     const updateData: Record<string, unknown> = {
@@ -123,6 +155,7 @@ export async function POST(
       deliveryProofUrls: proofUrls,
       'delivery.proofUploads': proofUploads,
       'delivery.deliveredAt': now,
+      ...(quantityUpdate?.ok ? { quantityFulfillment: quantityUpdate.quantityFulfillment } : {}),
     };
 
     const sanitized = sanitizeFirestorePayload(updateData);
@@ -142,7 +175,10 @@ export async function POST(
           actor: 'seller',
           visibility: 'buyer',
           timestamp: Timestamp.fromDate(now),
-          meta: { proofCount: proofUrls.length },
+          meta: {
+            proofCount: proofUrls.length,
+            ...(quantityUpdate?.ok ? { deliveredQuantity, expectedQuantity: quantityUpdate.quantityFulfillment.expected } : {}),
+          },
         },
       });
     } catch {
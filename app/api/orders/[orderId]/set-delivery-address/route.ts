@@ -12,6 +12,8 @@ import { z } from 'zod';
 import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
 import { getEffectiveTransactionStatus } from '@/lib/orders/status';
 import { appendOrderTimelineEvent } from '@/lib/orders/timeline';
+import { mirrorToOrderGroupSiblings } from '@/lib/orders/orderGroups';
+import { recomputeOrderComplianceDocsStatus } from '@/lib/orders/complianceDocsStatus';
 import { emitAndProcessEventForUser } from '@/lib/notifications';
 import { resolveActionNotifications } from '@/lib/notifications/resolveAction';
 import { getSiteUrl } from '@/lib/site-url';
@@ -155,6 +157,41 @@ export async function POST(
       // best-effort
     }
 
+    // Cart checkouts: one address covers every order in the group still waiting on it.
+    let groupOrderIds: string[] = [];
+    try {
+      groupOrderIds = await mirrorToOrderGroupSiblings({
+        db: db as any,
+        orderId,
+        orderData,
+        statuses: ['FULFILLMENT_REQUIRED', 'AWAITING_TRANSFER_COMPLIANCE'],
+        update: (sibling) => ({
+          updatedAt: now,
+          lastUpdatedByRole: 'buyer',
+          delivery: sanitizeFirestorePayload({ ...(sibling.data.delivery || {}), buyerAddress, buyerAddressSetAt: now }),
+        }),
+        timelineEvent: (siblingId) => ({
+          id: `DELIVERY_ADDRESS:${siblingId}`,
+          type: 'DELIVERY_ADDRESS_SET',
+          label: 'Buyer set delivery address',
+          actor: 'buyer',
+          visibility: 'seller',
+          timestamp: Timestamp.fromDate(now),
+        }),
+      });
+    } catch (e) {
+      captureException(e instanceof Error ? e : new Error(String(e)), { orderId, context: 'order-group-delivery-address' });
+    }
+
+    // The destination state decides the movement paperwork (interstate CVI etc.); refresh required docs.
+    for (const id of [orderId, ...groupOrderIds]) {
+      try {
+        await recomputeOrderComplianceDocsStatus({ db: db as any, orderId: id });
+      } catch (e) {
+        captureException(e instanceof Error ? e : new Error(String(e)), { orderId: id, context: 'delivery-address-compliance-docs' });
+      }
+    }
+
     const sellerId = orderData.sellerId;
     const listingTitle = String((orderData.listingSnapshot as any)?.title || orderData.listingTitle || 'Order').trim();
     try {
@@ -188,7 +225,11 @@ export async function POST(
 
     // Resolve the buyer's "Set delivery address" action-required notification so it disappears from Needs action
     try {
-      await resolveActionNotifications(db as any, buyerId, { type: 'order_created', entityId: orderId });
+      await Promise.all(
+        [orderId, ...groupOrderIds].map((id) =>
+          resolveActionNotifications(db as any, buyerId, { type: 'order_created', entityId: id })
+        )
+      );
     } catch (e) {
       captureException(e instanceof Error ? e : new Error(String(e)), {
         context: 'resolve-action-after-set-delivery-address',
@@ -199,6 +240,7 @@ export async function POST(
     return json({
       success: true,
       orderId,
+      ...(groupOrderIds.length ? { groupOrderIds } : {}),
       message: 'Delivery address saved. The seller will use this to propose a delivery date.',
     });
   } catch (error: any) {
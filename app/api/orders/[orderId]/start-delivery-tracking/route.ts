@@ -17,6 +17,7 @@ import { emitAndProcessEventForUser } from '@/lib/notifications';
 import { getSiteUrl } from '@/lib/site-url';
 import { tryDispatchEmailJobNow } from '@/lib/email/dispatchEmailJobNow';
 import { captureException } from '@/lib/monitoring/capture';
+import { isInstallmentPlanOutstanding } from '@/lib/pricing/installments';
 
 function json(body: unknown, init?: { status?: number; headers?: Record<string, string> }) {
   return new Response(JSON.stringify(body), {
@@ -110,6 +111,18 @@ export async function POST(
       );
     }
 
+    // Installment plans: the animal / equipment is only released once the last installment is paid.
+    if (isInstallmentPlanOutstanding(orderData)) {
+      return json(
+        {
+          error: 'Installments outstanding',
+          details: 'The buyer is paying on an installment plan. Deliver once the last installment is paid.',
+          code: 'INSTALLMENTS_OUTSTANDING',
+        },
+        { status: 400 }
+      );
+    }
+
     if ((orderData.deliveryTracking as { enabled?: boolean } | undefined)?.enabled) {
       return json({ error: 'Tracking already enabled', success: true, orderId }, { status: 200 });
     }
@@ -0,0 +1,107 @@
+/**
+ * POST /api/reports
+ *
+ * Report a listing or a user to Trust & Safety.
+ * - Auth required; rate limited like support tickets
+ * - Reason must be one of the codes allowed for the target type (lib/safety/reports.ts)
+ * - One open report per reporter per target (deterministic doc id); re-reporting refreshes it
+ * - Reports are worked from /dashboard/admin/reports
+ */
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { z } from 'zod';
+import { Timestamp } from 'firebase-admin/firestore';
+import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
+import { json } from '@/app/api/admin/_util';
+import { rateLimitMiddleware, RATE_LIMITS } from '@/lib/rate-limit';
+import { REPORT_REASON_CODES, getReportDocId, isReportReasonAllowed } from '@/lib/safety/reports';
+
+const CreateSchema = z.object({
+  targetType: z.enum(['listing', 'user']),
+  targetId: z.string().trim().min(1).max(200),
+  reason: z.enum(REPORT_REASON_CODES),
+  details: z.string().trim().max(2000).optional(),
+});
+
+export async function POST(request: Request) {
+  const rl = await rateLimitMiddleware(RATE_LIMITS.support)(request as any);
+  if (!rl.allowed) {
+    return json(rl.body, { status: rl.status, headers: { 'Retry-After': String(rl.body.retryAfter || 60) } });
+  }
+
+  let auth: ReturnType<typeof getAdminAuth>;
+  let db: ReturnType<typeof getAdminDb>;
+  try {
+    auth = getAdminAuth();
+    db = getAdminDb();
+  } catch (e: any) {
+    return json({ ok: false, error: 'Server not configured', message: e?.message }, { status: 503 });
+  }
+
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return json({ ok: false, error: 'Unauthorized' }, { status: 401 });
+  let uid = '';
+  try {
+    const decoded = await auth.verifyIdToken(authHeader.slice('Bearer '.length));
+    uid = String(decoded?.uid || '').trim();
+  } catch {
+    return json({ ok: false, error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!uid) return json({ ok: false, error: 'Unauthorized' }, { status: 401 });
+
+  const parsed = CreateSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) return json({ ok: false, error: 'Validation error', details: parsed.error.flatten() }, { status: 400 });
+
+  const { targetType, targetId, reason, details } = parsed.data;
+  if (!isReportReasonAllowed(targetType, reason)) {
+    return json({ ok: false, error: 'That reason does not apply to this report', code: 'INVALID_REASON' }, { status: 400 });
+  }
+
+  // Resolve who is being reported (listing -> seller).
+  let reportedUserId = '';
+  let listingTitle: string | null = null;
+  if (targetType === 'listing') {
+    const listingSnap = await db.collection('listings').doc(targetId).get();
+    if (!listingSnap.exists) return json({ ok: false, error: 'Listing not found' }, { status: 404 });
+    const listing = listingSnap.data() as any;
+    reportedUserId = String(listing?.sellerId || '');
+    listingTitle = listing?.title ? String(listing.title) : null;
+  } else {
+    const userSnap = await db.collection('users').doc(targetId).get();
+    if (!userSnap.exists) return json({ ok: false, error: 'User not found' }, { status: 404 });
+    reportedUserId = targetId;
+  }
+
+  if (reportedUserId && reportedUserId === uid) {
+    return json({ ok: false, error: 'You cannot report yourself', code: 'SELF_REPORT' }, { status: 400 });
+  }
+
+  const now = Timestamp.now();
+  const reportId = getReportDocId(uid, targetType, targetId);
+  const ref = db.collection('reports').doc(reportId);
+  const existing = await ref.get();
+  const prev = existing.exists ? (existing.data() as any) : null;
+  const reopening = !prev || prev.status !== 'open';
+
+  await ref.set(
+    {
+      reportId,
+      status: 'open',
+      targetType,
+      targetId,
+      reportedUserId: reportedUserId || null,
+      ...(targetType === 'listing' ? { listingId: targetId, listingTitle } : {}),
+      reporterId: uid,
+      reason,
+      details: details || null,
+      updatedAt: now,
+      ...(reopening
+        ? { createdAt: now, resolvedAt: null, resolvedBy: null, resolutionNote: null }
+        : {}),
+    },
+    { merge: true }
+  );
+
+  return json({ ok: true, reportId, updated: !reopening }, { status: reopening ? 201 : 200 });
+}
@@ -0,0 +1,110 @@
+/**
+ * POST /api/reviews/buyer/create
+ *
+ * Seller-only: rate the buyer on a completed or cancelled order (on-time payment, pickup reliability,
+ * communication). Aggregates into `users/{buyerId}.buyerReviewStats`, which sellers see on offers and bidder lists.
+ */
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
+import { applyBuyerReviewDelta, initBuyerReviewStats } from '@/lib/reviews/aggregates';
+import {
+  BUYER_REVIEW_TEXT_MAX_LENGTH,
+  getBuyerReviewEligibility,
+  normalizeBuyerRatings,
+} from '@/lib/reviews/buyerReputation';
+
+function json(body: any, init?: { status?: number; headers?: Record<string, string> }) {
+  return new Response(JSON.stringify(body), {
+    status: init?.status ?? 200,
+    headers: { 'content-type': 'application/json', ...(init?.headers || {}) },
+  });
+}
+
+export async function POST(request: Request) {
+  const auth = getAdminAuth();
+  const db = getAdminDb() as unknown as ReturnType<typeof getFirestore>;
+
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return json({ ok: false, error: 'Unauthorized' }, { status: 401 });
+  const token = authHeader.split('Bearer ')[1];
+  let decoded: any;
+  try {
+    decoded = await auth.verifyIdToken(token);
+  } catch {
+    return json({ ok: false, error: 'Invalid token' }, { status: 401 });
+  }
+
+  let body: any = null;
+  try {
+    body = await request.json();
+  } catch {
+    body = {};
+  }
+
+  const orderId = String(body?.orderId || '').trim();
+  const text = typeof body?.text === 'string' ? body.text.trim().slice(0, BUYER_REVIEW_TEXT_MAX_LENGTH) : null;
+  if (!orderId) return json({ ok: false, error: 'Missing orderId' }, { status: 400 });
+
+  try {
+    const now = Timestamp.now();
+    const reviewRef = db.collection('buyerReviews').doc(orderId);
+    const orderRef = db.collection('orders').doc(orderId);
+
+    await db.runTransaction(async (tx) => {
+      // Firestore transactions require ALL reads before ANY writes.
+      const [orderSnap, existingReviewSnap] = await Promise.all([tx.get(orderRef), tx.get(reviewRef)]);
+      if (!orderSnap.exists) throw new Error('Order not found');
+      if (existingReviewSnap.exists) throw new Error('ALREADY_REVIEWED');
+
+      const order = orderSnap.data() as any;
+      const sellerId = String(order?.sellerId || '');
+      if (sellerId !== decoded.uid) throw new Error('NOT_SELLER');
+
+      const eligibility = getBuyerReviewEligibility(order, now.toMillis());
+      if (!eligibility.eligible) throw new Error(eligibility.reason);
+
+      const normalized = normalizeBuyerRatings(body?.ratings, { pickupApplicable: eligibility.pickupApplicable });
+      if (!normalized.ok) throw new Error('INVALID_RATINGS');
+
+      const buyerId = String(order?.buyerId || '');
+      if (!buyerId) throw new Error('MISSING_BUYER');
+      const userRef = db.collection('users').doc(buyerId);
+      const userSnap = await tx.get(userRef);
+      const userData = userSnap.exists ? (userSnap.data() as any) : null;
+      const nextStats = applyBuyerReviewDelta(
+        userData?.buyerReviewStats || initBuyerReviewStats(),
+        normalized,
+        1,
+        now.toDate()
+      );
+
+      // All reads done. Now perform all writes.
+      tx.set(reviewRef, {
+        orderId,
+        listingId: String(order?.listingId || ''),
+        buyerId,
+        sellerId,
+        orderOutcome: eligibility.outcome,
+        ratings: normalized.ratings,
+        rating: normalized.rating,
+        text: text || null,
+        status: 'published',
+        createdAt: now,
+        updatedAt: now,
+      });
+      tx.set(userRef, { buyerReviewStats: nextStats, updatedAt: now }, { merge: true });
+    });
+
+    return json({ ok: true });
+  } catch (e: any) {
+    const code = String(e?.message || '');
+    if (code === 'ALREADY_REVIEWED') return json({ ok: false, error: 'Already rated' }, { status: 409 });
+    if (code === 'NOT_SELLER') return json({ ok: false, error: 'Unauthorized' }, { status: 403 });
+    if (code === 'ORDER_NOT_CLOSED') return json({ ok: false, error: 'Order is not completed or cancelled' }, { status: 400 });
+    if (code === 'MISSING_CLOSED_TIMESTAMP') return json({ ok: false, error: 'Missing order close timestamp' }, { status: 400 });
+    if (code === 'REVIEW_WINDOW_EXPIRED') return json({ ok: false, error: 'Review window expired' }, { status: 400 });
+    if (code === 'INVALID_RATINGS') return json({ ok: false, error: 'Each rating must be a whole number from 1 to 5' }, { status: 400 });
+    if (code === 'MISSING_BUYER') return json({ ok: false, error: 'Order has no buyer' }, { status: 400 });
+    return json({ ok: false, error: e?.message || 'Failed to rate buyer' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * GET /api/reviews/buyer/eligibility?orderId=
+ *
+ * Seller-only: checks if the seller can rate the buyer on this order.
+ */
+import { getFirestore } from 'firebase-admin/firestore';
+import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
+import { getBuyerReviewEligibility } from '@/lib/reviews/buyerReputation';
+
+function json(body: any, init?: { status?: number; headers?: Record<string, string> }) {
+  return new Response(JSON.stringify(body), {
+    status: init?.status ?? 200,
+    headers: { 'content-type': 'application/json', ...(init?.headers || {}) },
+  });
+}
+
+export async function GET(request: Request) {
+  const auth = getAdminAuth();
+  const db = getAdminDb() as unknown as ReturnType<typeof getFirestore>;
+
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return json({ ok: false, error: 'Unauthorized' }, { status: 401 });
+  const token = authHeader.split('Bearer ')[1];
+  let decoded: any;
+  try {
+    decoded = await auth.verifyIdToken(token);
+  } catch {
+    return json({ ok: false, error: 'Invalid token' }, { status: 401 });
+  }
+
+  const url = new URL(request.url);
+  const orderId = String(url.searchParams.get('orderId') || '').trim();
+  if (!orderId) return json({ ok: false, error: 'Missing orderId' }, { status: 400 });
+
+  const orderSnap = await db.collection('orders').doc(orderId).get();
+  if (!orderSnap.exists) return json({ ok: false, error: 'Order not found' }, { status: 404 });
+  const order = orderSnap.data() as any;
+
+  if (String(order?.sellerId || '') !== decoded.uid) {
+    return json({ ok: false, eligible: false, reason: 'NOT_SELLER' }, { status: 403 });
+  }
+
+  const eligibility = getBuyerReviewEligibility(order);
+  if (!eligibility.eligible) return json({ ok: true, eligible: false, reason: eligibility.reason });
+
+  const reviewSnap = await db.collection('buyerReviews').doc(orderId).get();
+  if (reviewSnap.exists) {
+    return json({ ok: true, eligible: false, reason: 'ALREADY_REVIEWED', closedAt: eligibility.closedAt.toISOString() });
+  }
+
+  return json({
+    ok: true,
+    eligible: true,
+    outcome: eligibility.outcome,
+    pickupApplicable: eligibility.pickupApplicable,
+    closedAt: eligibility.closedAt.toISOString(),
+  });
+}
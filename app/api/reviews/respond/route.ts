@@ -0,0 +1,123 @@
+/**
+ * POST /api/reviews/respond
+ *
+ * Seller-only: post (or, within the edit window, update) the single public response to a review.
+ * Admins can hide it via /api/admin/reviews/[orderId]/moderate with `target: 'response'`.
+ */
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
+import { getSellerResponseEditState, normalizeSellerResponseText } from '@/lib/reviews/sellerResponse';
+import { emitAndProcessEventForUser } from '@/lib/notifications';
+import { getSiteUrl } from '@/lib/site-url';
+
+function json(body: any, init?: { status?: number; headers?: Record<string, string> }) {
+  return new Response(JSON.stringify(body), {
+    status: init?.status ?? 200,
+    headers: { 'content-type': 'application/json', ...(init?.headers || {}) },
+  });
+}
+
+export async function POST(request: Request) {
+  const auth = getAdminAuth();
+  const db = getAdminDb() as unknown as ReturnType<typeof getFirestore>;
+
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return json({ ok: false, error: 'Unauthorized' }, { status: 401 });
+  const token = authHeader.split('Bearer ')[1];
+  let decoded: any;
+  try {
+    decoded = await auth.verifyIdToken(token);
+  } catch {
+    return json({ ok: false, error: 'Invalid token' }, { status: 401 });
+  }
+
+  let body: any = null;
+  try {
+    body = await request.json();
+  } catch {
+    body = {};
+  }
+
+  const orderId = String(body?.orderId || '').trim();
+  if (!orderId) return json({ ok: false, error: 'Missing orderId' }, { status: 400 });
+  const normalized = normalizeSellerResponseText(body?.text);
+  if (!normalized.ok) return json({ ok: false, error: normalized.error }, { status: 400 });
+
+  try {
+    const now = Timestamp.now();
+    const reviewRef = db.collection('reviews').doc(orderId);
+
+    const result = await db.runTransaction(async (tx) => {
+      const snap = await tx.get(reviewRef);
+      if (!snap.exists) throw new Error('REVIEW_NOT_FOUND');
+      const review = snap.data() as any;
+      if (String(review?.sellerId || '') !== decoded.uid) throw new Error('NOT_SELLER');
+      if (String(review?.status || 'published') === 'hidden') throw new Error('REVIEW_HIDDEN');
+
+      const existing = review?.sellerResponse || null;
+      const state = getSellerResponseEditState(existing, now.toMillis());
+      if (state.mode === 'locked') throw new Error(state.reason === 'hidden' ? 'RESPONSE_HIDDEN' : 'EDIT_WINDOW_CLOSED');
+
+      tx.set(
+        reviewRef,
+        {
+          sellerResponse: {
+            text: normalized.text,
+            status: 'published',
+            createdAt: existing?.createdAt || now,
+            updatedAt: now,
+          },
+          updatedAt: now,
+        },
+        { merge: true }
+      );
+      return { created: state.mode === 'create', review };
+    });
+
+    // Notify the buyer once (edits reuse the same event hash and are deduped).
+    if (result.created) {
+      try {
+        const review = result.review;
+        const [orderSnap, sellerSnap] = await Promise.all([
+          db.collection('orders').doc(orderId).get(),
+          db.collection('users').doc(decoded.uid).get(),
+        ]);
+        const order = orderSnap.exists ? (orderSnap.data() as any) : null;
+        const seller = sellerSnap.exists ? (sellerSnap.data() as any) : null;
+        const sellerName =
+          String(
+            order?.sellerDisplayName || seller?.profile?.businessName || seller?.profile?.fullName || seller?.displayName || ''
+          ).trim() || 'The seller';
+        await emitAndProcessEventForUser({
+          type: 'Review.Responded',
+          actorId: decoded.uid,
+          entityType: 'order',
+          entityId: orderId,
+          targetUserId: String(review?.buyerId || ''),
+          payload: {
+            type: 'Review.Responded',
+            orderId,
+            listingId: String(review?.listingId || order?.listingId || orderId),
+            listingTitle: String(order?.listingSnapshot?.title || '').trim() || 'your purchase',
+            sellerName,
+            responseText: normalized.text,
+            reviewUrl: `${getSiteUrl()}/sellers/${decoded.uid}#seller-reviews`,
+          },
+          optionalHash: `review_response:${orderId}`,
+        });
+      } catch {
+        // best-effort; do not fail the response
+      }
+    }
+
+    return json({ ok: true, created: result.created });
+  } catch (e: any) {
+    const code = String(e?.message || '');
+    if (code === 'REVIEW_NOT_FOUND') return json({ ok: false, error: 'Review not found' }, { status: 404 });
+    if (code === 'NOT_SELLER') return json({ ok: false, error: 'Unauthorized' }, { status: 403 });
+    if (code === 'REVIEW_HIDDEN') return json({ ok: false, error: 'Review is not public' }, { status: 400 });
+    if (code === 'RESPONSE_HIDDEN') return json({ ok: false, error: 'Response was removed by moderation' }, { status: 409 });
+    if (code === 'EDIT_WINDOW_CLOSED') return json({ ok: false, error: 'Response can no longer be edited' }, { status: 409 });
+    return json({ ok: false, error: e?.message || 'Failed to save response' }, { status: 500 });
+  }
+}
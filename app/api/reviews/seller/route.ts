@@ -88,6 +88,14 @@ export async function GET(request: Request) {
         status: data.status || 'published',
         verified: true,
         createdAt: tsToIso(data.createdAt),
+        sellerResponse:
+          data.sellerResponse && data.sellerResponse.status !== 'hidden'
+            ? {
+                text: data.sellerResponse.text || '',
+                createdAt: tsToIso(data.sellerResponse.createdAt),
+                updatedAt: tsToIso(data.sellerResponse.updatedAt),
+              }
+            : null,
       };
     });
 
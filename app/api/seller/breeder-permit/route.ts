@@ -29,6 +29,8 @@ type SellerPermitDoc = {
   reviewedBy?: string | null;
   rejectionReason?: string | null;
   expiresAt?: FirebaseFirestore.Timestamp | null;
+  /** Expiry notices already sent for the current permit (complianceExpiryReminders); reset on each upload. */
+  expiryNoticesSent?: number[];
 };
 
 async function requireUser(request: Request): Promise<
@@ -143,6 +145,7 @@ export async function POST(request: Request) {
     reviewedAt: null,
     reviewedBy: null,
     rejectionReason: null,
+    expiryNoticesSent: [],
     ...(expiresAt ? { expiresAt: Timestamp.fromDate(expiresAt) } : {}),
   };
 
@@ -0,0 +1,140 @@
+/**
+ * GET /api/seller/statements?year=2026[&month=3][&format=json|csv|pdf]
+ *
+ * Monthly (with `month`) or annual earnings statement for the signed-in seller:
+ * gross sales, platform fees, refunds, lost chargebacks, net payout, per-month and per-category breakdowns,
+ * and every line item. See `lib/seller/statements.ts` for how amounts are attributed to periods.
+ *
+ * Auth: seller (own statements only). Read-only.
+ */
+import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
+import { rateLimitMiddleware, RATE_LIMITS } from '@/lib/rate-limit';
+import {
+  buildSellerStatement,
+  getSellerStatementFilename,
+  getSellerStatementPeriod,
+  sellerStatementToCsv,
+  toSellerStatementOrder,
+} from '@/lib/seller/statements';
+import { renderSellerStatementPdfBuffer } from '@/lib/seller/statementPdf';
+
+function json(body: any, init?: { status?: number; headers?: Record<string, string> }) {
+  return new Response(JSON.stringify(body), {
+    status: init?.status ?? 200,
+    headers: { 'content-type': 'application/json', ...(init?.headers || {}) },
+  });
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const rl = rateLimitMiddleware(RATE_LIMITS.default);
+  const rlRes = await rl(request as any);
+  if (!rlRes.allowed) {
+    return json(rlRes.body, {
+      status: rlRes.status,
+      headers: { 'Retry-After': rlRes.body.retryAfter.toString() },
+    });
+  }
+
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) {
+    return json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let uid: string | null = null;
+  let email: string | null = null;
+  try {
+    const decoded = await getAdminAuth().verifyIdToken(authHeader.slice('Bearer '.length));
+    uid = decoded?.uid || null;
+    email = decoded?.email || null;
+  } catch {
+    return json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!uid) return json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { searchParams } = new URL(request.url);
+  const nowYear = new Date().getUTCFullYear();
+  const year = Number(searchParams.get('year') || nowYear);
+  const monthParam = searchParams.get('month');
+  const month = monthParam ? Number(monthParam) : null;
+  const format = String(searchParams.get('format') || 'json').toLowerCase();
+  if (!Number.isInteger(year) || year < 2020 || year > nowYear) {
+    return json({ error: 'Invalid year', code: 'INVALID_YEAR' }, { status: 400 });
+  }
+  if (month !== null && (!Number.isInteger(month) || month < 1 || month > 12)) {
+    return json({ error: 'Invalid month', code: 'INVALID_MONTH' }, { status: 400 });
+  }
+  if (!['json', 'csv', 'pdf'].includes(format)) {
+    return json({ error: 'Invalid format', code: 'INVALID_FORMAT' }, { status: 400 });
+  }
+
+  const period = getSellerStatementPeriod(year, month);
+  let statement: ReturnType<typeof buildSellerStatement>;
+  let sellerName: string;
+  try {
+    const db = getAdminDb();
+    const sellerOrders = db.collection('orders').where('sellerId', '==', uid);
+    // Only orders that can land in this period: paid or refunded within it, or with a lost chargeback
+    // (its date is on the chargeback doc, so those are filtered by buildSellerStatement).
+    const [paidSnap, refundedSnap, lostSnap, userSnap] = await Promise.all([
+      sellerOrders.where('paidAt', '>=', period.start).where('paidAt', '<', period.end).get(),
+      sellerOrders.where('refundedAt', '>=', period.start).where('refundedAt', '<', period.end).get(),
+      sellerOrders.where('chargebackStatus', '==', 'lost').get(),
+      db.collection('users').doc(uid).get(),
+    ]);
+    const orderDocs = new Map<string, any>();
+    for (const d of [...paidSnap.docs, ...refundedSnap.docs, ...lostSnap.docs]) orderDocs.set(d.id, d.data());
+
+    // Lost chargebacks: amount/date live on `chargebacks/{disputeId}`, keyed by payment intent.
+    const chargebackByPi = new Map<string, any>();
+    const lostPis = lostSnap.docs
+      .map((d) => d.data() as any)
+      .filter((o) => typeof o?.stripePaymentIntentId === 'string')
+      .map((o) => String(o.stripePaymentIntentId));
+    await Promise.all(
+      lostPis.map(async (pi) => {
+        const cb = await db.collection('chargebacks').where('paymentIntent', '==', pi).limit(1).get();
+        if (!cb.empty) chargebackByPi.set(pi, cb.docs[0].data());
+      })
+    );
+
+    statement = buildSellerStatement(
+      Array.from(orderDocs.entries()).map(([id, data]) =>
+        toSellerStatementOrder(id, data, chargebackByPi.get(String(data?.stripePaymentIntentId || '')))
+      ),
+      period
+    );
+
+    const profile = (userSnap.exists ? (userSnap.data() as any) : {})?.profile || {};
+    sellerName = String(profile.businessName || profile.fullName || profile.displayName || email || 'Seller');
+  } catch (e: any) {
+    return json({ error: 'Failed to build statement', message: e?.message || String(e) }, { status: 500 });
+  }
+
+  if (format === 'csv') {
+    return new Response(sellerStatementToCsv(statement, sellerName), {
+      status: 200,
+      headers: {
+        'content-type': 'text/csv; charset=utf-8',
+        'content-disposition': `attachment; filename="${getSellerStatementFilename(period, 'csv')}"`,
+        'cache-control': 'no-store',
+      },
+    });
+  }
+
+  if (format === 'pdf') {
+    const pdf = await renderSellerStatementPdfBuffer(statement, { uid, name: sellerName, email });
+    return new Response(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        'content-type': 'application/pdf',
+        'content-disposition': `attachment; filename="${getSellerStatementFilename(period, 'pdf')}"`,
+        'cache-control': 'no-store',
+      },
+    });
+  }
+
+  return json({ ok: true, statement });
+}
@@ -0,0 +1,600 @@
+/**
+ * POST /api/stripe/checkout/create-cart-session
+ *
+ * Creates one Stripe Checkout session for every cart item from a single seller.
+ * - Card only (bank rails settle asynchronously and stay single-listing).
+ * - Each line is validated like Buy Now (status, end date, reservations, quantity, TX-only, animal ack).
+ * - Writes a parent `orderGroups/{id}` doc; the webhook creates one order per line when payment succeeds.
+ * - With `offerId`, pays for an accepted bundle offer instead: lines come from the offer and the agreed
+ *   amount is split across them by list price.
+ */
+
+import { Timestamp } from 'firebase-admin/firestore';
+import Stripe from 'stripe';
+import { stripe, getAppUrl, isStripeConfigured } from '@/lib/stripe/config';
+import { getEffectiveSubscriptionTier, getTierWeight } from '@/lib/pricing/subscriptions';
+import { MARKETPLACE_FEE_PERCENT } from '@/lib/pricing/plans';
+import { validateRequest, createCartCheckoutSessionSchema } from '@/lib/validation/api-schemas';
+import { checkRateLimitByKey, RATE_LIMITS } from '@/lib/rate-limit';
+import { logInfo, logWarn } from '@/lib/monitoring/logger';
+import { captureException } from '@/lib/monitoring/capture';
+import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
+import { containsProhibitedKeywords } from '@/lib/compliance/validation';
+import { normalizeCategory } from '@/lib/listings/normalizeCategory';
+import { getCategoryRequirements } from '@/lib/compliance/requirements';
+import { resolveStateCompliance } from '@/lib/compliance/stateRules';
+import { coerceDurationDays, computeEndAt, toMillisSafe } from '@/lib/listings/duration';
+import { isGroupLotQuantityMode, type OrderGroupLine } from '@/lib/types';
+import { sanitizeFirestorePayload } from '@/lib/firebase/sanitizeFirestore';
+import {
+  buildOrderGroupLine,
+  getOrderGroupLineSalesTaxCents,
+  MAX_ORDER_GROUP_LINES,
+  summarizeOrderGroupLines,
+} from '@/lib/orders/orderGroups';
+import { allocateBundleOfferAmount } from '@/lib/offers/bundle';
+import { formatSalesTaxLabel, quoteSalesTax, toOrderSalesTax } from '@/lib/tax/salesTax';
+import { describeDeposit, formatDepositLabel, getListingDepositTerms } from '@/lib/pricing/deposit';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function json(body: any, init?: { status?: number; headers?: Record<string, string> }) {
+  return new Response(JSON.stringify(body), {
+    status: init?.status ?? 200,
+    headers: {
+      'content-type': 'application/json',
+      ...(init?.headers || {}),
+    },
+  });
+}
+
+type LineError = { status: number; error: string; code: string };
+
+/**
+ * Validate one cart item against the live listing. Mirrors the fixed-price checks in create-session.
+ */
+function validateCartLine(params: {
+  listingId: string;
+  listing: any;
+  item: any;
+  buyerId: string;
+  sellerId: string;
+  nowMs: number;
+  /** Bundle offer checkout: the offer's own reservation is expected, and its share of the agreed amount is the price. */
+  offerId?: string;
+  orderTotal?: number;
+}): { ok: true; line: OrderGroupLine; category: string; isAnimal: boolean; texasOnly: boolean } | ({ ok: false } & LineError) {
+  const { listingId, listing, item, buyerId, sellerId, nowMs, offerId } = params;
+  const title = String(listing?.title || 'Listing');
+
+  if (String(listing?.type || '') !== 'fixed' && !(offerId && listing?.type === 'classified')) {
+    return { ok: false, status: 400, error: `"${title}" can't be bought from the cart.`, code: 'CART_FIXED_ONLY' };
+  }
+  if (listing?.sellerId !== sellerId) {
+    return { ok: false, status: 400, error: `"${title}" is from a different seller.`, code: 'CART_SELLER_MISMATCH' };
+  }
+  if (listing?.sellerId === buyerId) {
+    return { ok: false, status: 400, error: 'You cannot purchase your own listing', code: 'OWN_LISTING' };
+  }
+  if (listing?.status !== 'active') {
+    return { ok: false, status: 409, error: `"${title}" is no longer available.`, code: 'LISTING_UNAVAILABLE' };
+  }
+  const endMsDirect = toMillisSafe(listing?.endAt) ?? toMillisSafe(listing?.endsAt);
+  const startMs = toMillisSafe(listing?.startAt) ?? toMillisSafe(listing?.publishedAt) ?? toMillisSafe(listing?.createdAt);
+  const endMs =
+    endMsDirect ?? (typeof startMs === 'number' ? computeEndAt(startMs, coerceDurationDays(listing?.durationDays, 7)) : null);
+  if (typeof endMs === 'number' && endMs <= nowMs) {
+    return { ok: false, status: 409, error: `"${title}" has ended.`, code: 'LISTING_ENDED' };
+  }
+  const reservedUntilMs = toMillisSafe(listing?.purchaseReservedUntil);
+  const reservedByOtherOffer = offerId
+    ? listing?.offerReservedByOfferId !== offerId
+    : Boolean(listing?.offerReservedByOfferId);
+  if ((listing?.purchaseReservedByOrderId && reservedUntilMs && reservedUntilMs > nowMs) || reservedByOtherOffer) {
+    return { ok: false, status: 409, error: `"${title}" is reserved for another buyer.`, code: 'LISTING_RESERVED' };
+  }
+
+  let category: string;
+  try {
+    category = normalizeCategory(listing?.category);
+  } catch {
+    return { ok: false, status: 400, error: `"${title}" has an invalid category.`, code: 'INVALID_CATEGORY' };
+  }
+  const categoryReq = getCategoryRequirements(category as any);
+
+  const price = typeof params.orderTotal === 'number' ? params.orderTotal : Number(listing?.price);
+  if (!Number.isFinite(price) || price <= 0) {
+    return { ok: false, status: 400, error: `"${title}" does not have a valid price.`, code: 'INVALID_PRICE' };
+  }
+
+  // Quantity: same rules as Buy Now (by-sex for fixed_group, capped by quantityAvailable).
+  const attrs = listing?.attributes ?? {};
+  const attrsMale = Math.max(0, Math.floor(attrs?.quantityMale ?? 0));
+  const attrsFemale = Math.max(0, Math.floor(attrs?.quantityFemale ?? 0));
+  const hasQuantityBySex = attrsMale > 0 || attrsFemale > 0;
+  const quantityTotal =
+    typeof listing?.quantityTotal === 'number' && Number.isFinite(listing.quantityTotal)
+      ? Math.max(1, Math.floor(listing.quantityTotal))
+      : Math.max(1, Math.floor(Number(attrs?.quantity ?? 1) || 1));
+  let quantity = Math.min(Math.max(1, Math.floor(Number(item?.quantity) || 1)), 100);
+  if (hasQuantityBySex && (typeof item?.quantityMale === 'number' || typeof item?.quantityFemale === 'number')) {
+    const male = Math.max(0, Math.floor(Number(item?.quantityMale) || 0));
+    const female = Math.max(0, Math.floor(Number(item?.quantityFemale) || 0));
+    if (male > attrsMale || female > attrsFemale) {
+      return { ok: false, status: 400, error: `Not enough available for "${title}".`, code: 'QUANTITY_EXCEEDS_AVAILABLE' };
+    }
+    quantity = Math.min(male + female, 100);
+    if (quantity < 1) {
+      return { ok: false, status: 400, error: `Select at least one animal for "${title}".`, code: 'QUANTITY_REQUIRED' };
+    }
+  }
+  if (quantityTotal > 1) {
+    const available =
+      typeof listing?.quantityAvailable === 'number' && Number.isFinite(listing.quantityAvailable)
+        ? Math.max(0, Math.floor(listing.quantityAvailable))
+        : quantityTotal;
+    if (quantity > available) {
+      return { ok: false, status: 400, error: `Only ${available} available for "${title}".`, code: 'QUANTITY_EXCEEDS_AVAILABLE' };
+    }
+  } else {
+    quantity = 1;
+  }
+
+  if (categoryReq.texasOnly) {
+    const listingState = resolveStateCompliance({ category: category as any, originState: listing?.location?.state });
+    if (listingState.code === 'LISTING_STATE_NOT_SUPPORTED') {
+      return { ok: false, status: 400, error: `"${title}": ${listingState.message}`, code: listingState.code };
+    }
+    if (containsProhibitedKeywords(listing?.title) || containsProhibitedKeywords(listing?.description)) {
+      return { ok: false, status: 400, error: `"${title}" cannot be purchased.`, code: 'PROHIBITED_CONTENT' };
+    }
+  }
+
+  return {
+    ok: true,
+    line: buildOrderGroupLine({
+      listingId,
+      listingTitle: title,
+      unitPrice: typeof params.orderTotal === 'number' ? Math.round((params.orderTotal / quantity) * 100) / 100 : price,
+      quantity,
+      isGroupLot: isGroupLotQuantityMode(attrs?.quantityMode),
+      ...(typeof params.orderTotal === 'number' ? { orderTotal: params.orderTotal } : {}),
+      depositTerms: getListingDepositTerms(listing),
+    }),
+    category,
+    isAnimal: categoryReq.isAnimal,
+    texasOnly: categoryReq.texasOnly,
+  };
+}
+
+export async function POST(request: Request) {
+  try {
+    let auth: ReturnType<typeof getAdminAuth>;
+    let db: ReturnType<typeof getAdminDb>;
+    try {
+      auth = getAdminAuth();
+      db = getAdminDb();
+    } catch (e: any) {
+      return json(
+        {
+          error: 'Server is not configured for checkout yet',
+          code: e?.code || 'FIREBASE_ADMIN_INIT_FAILED',
+          message: e?.message || 'Failed to initialize Firebase Admin SDK',
+        },
+        { status: 503 }
+      );
+    }
+
+    if (!isStripeConfigured() || !stripe) {
+      return json({ error: 'Stripe is not configured. Please set STRIPE_SECRET_KEY environment variable.' }, { status: 503 });
+    }
+
+    if (process.env.GLOBAL_CHECKOUT_FREEZE_ENABLED === 'true') {
+      return json(
+        {
+          error: 'Checkout is temporarily paused by platform operations.',
+          code: 'GLOBAL_CHECKOUT_FREEZE',
+          message: 'Checkout is temporarily paused by platform operations.',
+        },
+        { status: 403 }
+      );
+    }
+
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return json({ error: 'Unauthorized - Missing or invalid authorization header' }, { status: 401 });
+    }
+    let decodedToken;
+    try {
+      decodedToken = await auth.verifyIdToken(authHeader.split('Bearer ')[1]);
+    } catch {
+      return json({ error: 'Unauthorized - Invalid token' }, { status: 401 });
+    }
+    const buyerId = decodedToken.uid;
+
+    const buyerRecord = await auth.getUser(buyerId).catch(() => null as any);
+    if (buyerRecord?.emailVerified !== true) {
+      return json(
+        {
+          error: 'Email verification required',
+          code: 'EMAIL_NOT_VERIFIED',
+          message: 'Please verify your email address before checking out.',
+        },
+        { status: 403 }
+      );
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+    const validation = validateRequest(createCartCheckoutSessionSchema, body);
+    if (!validation.success) {
+      return json({ error: validation.error, details: validation.details?.errors }, { status: 400 });
+    }
+    const { sellerId, buyerAcksAnimalRisk, offerId } = validation.data;
+
+    const rl = await checkRateLimitByKey(`checkout:user:${buyerId}:cart:${sellerId}`, RATE_LIMITS.checkout);
+    if (!rl.allowed) {
+      return json(
+        { error: rl.error || 'Too many requests. Please try again later.', retryAfter: rl.retryAfter },
+        { status: rl.status ?? 429, headers: { 'Retry-After': String(rl.retryAfter) } }
+      );
+    }
+
+    if (sellerId === buyerId) {
+      return json({ error: 'You cannot purchase your own listing' }, { status: 400 });
+    }
+
+    // Line sources: the buyer's cart for this seller, or the items of an accepted bundle offer.
+    let sources: Array<{ listingId: string; item: any; orderTotal?: number }>;
+    const offerRef = offerId ? db.collection('offers').doc(offerId) : null;
+    if (offerRef) {
+      const offerSnap = await offerRef.get();
+      if (!offerSnap.exists) {
+        return json({ error: 'Offer not found' }, { status: 404 });
+      }
+      const offer = offerSnap.data() as any;
+      if (offer?.buyerId !== buyerId) {
+        return json({ error: 'Forbidden' }, { status: 403 });
+      }
+      if (offer?.sellerId !== sellerId || !offer?.bundle) {
+        return json({ error: 'Offer does not match this checkout', code: 'OFFER_MISMATCH' }, { status: 400 });
+      }
+      if (offer?.status !== 'accepted') {
+        return json({ error: 'Offer is not accepted', code: 'OFFER_NOT_ACCEPTED' }, { status: 400 });
+      }
+      // If we already created a session for this offer, reuse it (prevent double checkout sessions)
+      const existingSessionId = typeof offer?.checkoutSessionId === 'string' ? offer.checkoutSessionId : '';
+      if (existingSessionId.startsWith('creating:')) {
+        return json({ error: 'Checkout session is being created. Please retry.' }, { status: 409 });
+      }
+      if (existingSessionId) {
+        const existing = await stripe.checkout.sessions.retrieve(existingSessionId);
+        return json({
+          sessionId: existing.id,
+          url: existing.url,
+          orderGroupId: offer?.orderGroupId,
+          message: 'Checkout session already exists for this offer',
+        });
+      }
+      const accepted = Number(offer?.acceptedAmount ?? offer?.currentAmount);
+      const bundleItems: any[] = Array.isArray(offer.bundle?.items) ? offer.bundle.items : [];
+      if (!Number.isFinite(accepted) || accepted <= 0 || bundleItems.length === 0) {
+        return json({ error: 'Offer has an invalid accepted amount' }, { status: 400 });
+      }
+      const shares = allocateBundleOfferAmount(accepted, bundleItems);
+      sources = bundleItems.map((it, idx) => ({
+        listingId: String(it.listingId),
+        item: { quantity: it.quantity },
+        orderTotal: shares[idx],
+      }));
+    } else {
+      const cartSnap = await db.collection('users').doc(buyerId).collection('cart').where('sellerId', '==', sellerId).get();
+      if (cartSnap.empty) {
+        return json({ error: 'Your cart has no items from this seller.', code: 'CART_EMPTY' }, { status: 400 });
+      }
+      sources = cartSnap.docs.map((d) => ({ listingId: d.id, item: d.data() }));
+    }
+    if (sources.length > MAX_ORDER_GROUP_LINES) {
+      return json(
+        { error: `Check out at most ${MAX_ORDER_GROUP_LINES} items from one seller at a time.`, code: 'CART_TOO_LARGE' },
+        { status: 400 }
+      );
+    }
+
+    const nowMs = Date.now();
+    const validated: Array<{
+      line: OrderGroupLine;
+      category: string;
+      originState: string | null;
+      isAnimal: boolean;
+      texasOnly: boolean;
+      images: string[];
+    }> = [];
+    for (const source of sources) {
+      const listingId = source.listingId;
+      const listingSnap = await db.collection('listings').doc(listingId).get();
+      if (!listingSnap.exists) {
+        return json({ error: 'A listing in your cart no longer exists.', code: 'LISTING_NOT_FOUND', listingId }, { status: 404 });
+      }
+      const listing = listingSnap.data() as any;
+      const res = validateCartLine({
+        listingId,
+        listing,
+        item: source.item,
+        buyerId,
+        sellerId,
+        nowMs,
+        ...(offerId ? { offerId, orderTotal: source.orderTotal } : {}),
+      });
+      if (!res.ok) {
+        return json({ error: res.error, code: res.code, listingId }, { status: res.status });
+      }
+      // Sales tax per line (each listing's own location and category), charged alongside the deposits.
+      const salesTax = toOrderSalesTax(
+        await quoteSalesTax({
+          category: res.category,
+          amountCents: Math.round(res.line.orderTotal * 100),
+          location: listing?.location,
+        })
+      );
+      validated.push({
+        line: { ...res.line, salesTax },
+        category: res.category,
+        originState: typeof listing?.location?.state === 'string' ? listing.location.state : null,
+        isAnimal: res.isAnimal,
+        texasOnly: res.texasOnly,
+        images: Array.isArray(listing?.images) ? listing.images.slice(0, 1) : [],
+      });
+    }
+
+    const anyAnimal = validated.some((v) => v.isAnimal);
+    if (anyAnimal && buyerAcksAnimalRisk !== true) {
+      return json(
+        {
+          error: 'Buyer acknowledgment required',
+          code: 'BUYER_ACK_REQUIRED',
+          message:
+            'Before purchasing an animal listing, you must acknowledge live-animal risk, seller-only representations, and that the platform does not take custody.',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (validated.some((v) => v.texasOnly)) {
+      const buyerDoc = await db.collection('users').doc(buyerId).get();
+      const buyerState = buyerDoc.exists ? (buyerDoc.data() as any)?.profile?.location?.state : null;
+      if (!buyerState) {
+        return json(
+          { error: 'Please add your state to your profile location before purchasing animal listings.', code: 'BUYER_STATE_NOT_ALLOWED' },
+          { status: 400 }
+        );
+      }
+      for (const v of validated.filter((x) => x.texasOnly)) {
+        const route = resolveStateCompliance({ category: v.category as any, originState: v.originState, destinationState: buyerState });
+        if (!route.allowed) {
+          return json(
+            {
+              error: `"${v.line.listingTitle}": ${route.message} Please check your profile location.`,
+              code: route.code,
+              listingId: v.line.listingId,
+              ...(route.note ? { note: route.note } : {}),
+            },
+            { status: 400 }
+          );
+        }
+      }
+    }
+
+    // Seller payout readiness (cached flags, refreshed from Stripe once if they look stale).
+    const sellerRef = db.collection('users').doc(sellerId);
+    const sellerDoc = await sellerRef.get();
+    if (!sellerDoc.exists) {
+      return json({ error: 'Seller not found' }, { status: 404 });
+    }
+    const sellerData = sellerDoc.data() as any;
+    const sellerStripeAccountId = sellerData?.stripeAccountId ? String(sellerData.stripeAccountId) : null;
+    if (!sellerStripeAccountId) {
+      return json(
+        { error: 'Seller is not ready to receive payouts yet. Please contact seller or try later.', code: 'SELLER_NOT_PAYOUT_READY' },
+        { status: 400 }
+      );
+    }
+    let isPayoutReady =
+      !!sellerData?.chargesEnabled &&
+      !!sellerData?.payoutsEnabled &&
+      !!sellerData?.stripeDetailsSubmitted &&
+      sellerData?.stripeOnboardingStatus === 'complete';
+    try {
+      const acct: any = await stripe.accounts.retrieve(sellerStripeAccountId);
+      if (!isPayoutReady) {
+        isPayoutReady =
+          !!acct?.details_submitted &&
+          (acct?.capabilities?.card_payments === 'active' || !!acct?.charges_enabled) &&
+          (acct?.capabilities?.transfers === 'active' || !!acct?.payouts_enabled);
+      }
+    } catch (accErr: any) {
+      logWarn('Cart checkout: seller Connect account invalid or missing', {
+        route: '/api/stripe/checkout/create-cart-session',
+        sellerId,
+        sellerStripeAccountId,
+        error: accErr?.message,
+      });
+      return json(
+        {
+          error: "The seller's payment account is not set up correctly. Please try again later or contact the seller.",
+          code: 'SELLER_ACCOUNT_INVALID',
+        },
+        { status: 400 }
+      );
+    }
+    if (!isPayoutReady) {
+      return json(
+        { error: 'Seller is not ready to receive payouts yet. Please contact seller or try later.', code: 'SELLER_NOT_PAYOUT_READY' },
+        { status: 400 }
+      );
+    }
+    const sellerTier = getEffectiveSubscriptionTier(sellerData as any);
+    const sellerTierWeight = getTierWeight(sellerTier);
+
+    // TX-only lines go first: if the webhook has to refund for a TX-only violation it stops before
+    // creating orders for the remaining lines.
+    validated.sort((a, b) => Number(b.texasOnly) - Number(a.texasOnly));
+    const lines = validated.map((v) => v.line);
+    const totals = summarizeOrderGroupLines(lines);
+    const salesTaxCents = lines.reduce((sum, l) => sum + getOrderGroupLineSalesTaxCents(l), 0);
+    const transportOption = 'SELLER_TRANSPORT';
+    const now = Timestamp.now();
+
+    const groupRef = db.collection('orderGroups').doc();
+
+    // If offer checkout, lock the offer to prevent duplicate session creation (no order created yet).
+    if (offerRef) {
+      await db.runTransaction(async (tx) => {
+        const offerSnap = await tx.get(offerRef);
+        const offer = offerSnap.exists ? (offerSnap.data() as any) : null;
+        if (!offer || offer.status !== 'accepted') throw new Error('Offer is not accepted');
+        if (offer.checkoutSessionId) throw new Error('Checkout session already exists');
+        tx.update(offerRef, { checkoutSessionId: `creating:${Date.now()}:${buyerId}`, updatedAt: now });
+      });
+    }
+
+    await groupRef.set(
+      sanitizeFirestorePayload({
+        buyerId,
+        sellerId,
+        lines,
+        orderIds: [],
+        orderTotal: totals.orderTotal,
+        depositCents: totals.depositCents,
+        platformFeeCents: totals.platformFeeCents,
+        salesTaxCents,
+        status: 'pending_payment',
+        ...(offerId ? { offerId } : {}),
+        createdAt: now,
+        updatedAt: now,
+      })
+    );
+
+    const baseUrl = getAppUrl();
+    const sessionConfig: Stripe.Checkout.SessionCreateParams = {
+      payment_method_types: ['card'],
+      customer_email: decodedToken.email || undefined,
+      line_items: validated.flatMap((v) => [
+        {
+          price_data: {
+            currency: 'usd',
+            product_data: {
+              name: `${formatDepositLabel(v.line.depositTerms)} – ${v.line.listingTitle}`,
+              description:
+                v.line.quantity > 1
+                  ? `${describeDeposit(v.line.depositTerms)} – ${v.line.quantity} × $${v.line.unitPrice.toLocaleString()}`
+                  : describeDeposit(v.line.depositTerms),
+              images: v.images,
+            },
+            unit_amount: v.line.depositCents,
+          },
+          quantity: 1,
+        },
+        ...(getOrderGroupLineSalesTaxCents(v.line) > 0 && v.line.salesTax
+          ? [
+              {
+                price_data: {
+                  currency: 'usd',
+                  product_data: { name: `${formatSalesTaxLabel(v.line.salesTax)} – ${v.line.listingTitle}` },
+                  unit_amount: getOrderGroupLineSalesTaxCents(v.line),
+                },
+                quantity: 1,
+              },
+            ]
+          : []),
+      ]),
+      mode: 'payment',
+      success_url: `${baseUrl}/dashboard/orders?session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: offerId ? `${baseUrl}/dashboard/offers` : `${baseUrl}/dashboard/cart`,
+      payment_intent_data: {
+        application_fee_amount: totals.platformFeeCents,
+        transfer_data: { destination: sellerStripeAccountId },
+        metadata: {
+          orderGroupId: groupRef.id,
+          buyerId,
+          sellerId,
+          transportOption,
+          paymentType: 'deposit',
+          ...(offerId ? { offerId } : {}),
+        },
+      },
+      metadata: {
+        orderGroupId: groupRef.id,
+        buyerId,
+        sellerId,
+        sellerStripeAccountId,
+        sellerTierSnapshot: sellerTier,
+        sellerTierWeight: String(sellerTierWeight),
+        platformFeePercent: MARKETPLACE_FEE_PERCENT.toString(),
+        paymentMethod: 'card',
+        transportOption,
+        paymentType: 'deposit',
+        ...(offerId ? { offerId } : {}),
+      },
+    };
+    if (anyAnimal) {
+      sessionConfig.shipping_address_collection = { allowed_countries: ['US'] };
+      sessionConfig.billing_address_collection = 'required';
+    }
+
+    let session: Stripe.Checkout.Session;
+    try {
+      session = await stripe.checkout.sessions.create(sessionConfig, { idempotencyKey: `checkout:group:${groupRef.id}` });
+    } catch (stripeError: any) {
+      await groupRef.set({ status: 'expired', updatedAt: Timestamp.now() }, { merge: true }).catch(() => null);
+      if (offerRef) {
+        await offerRef.set({ checkoutSessionId: null, updatedAt: Timestamp.now() }, { merge: true }).catch(() => null);
+      }
+      const msg = String(stripeError?.message || '');
+      if (/no such destination|invalid destination|destination.*invalid|account.*cannot be used/i.test(msg)) {
+        const friendly = "The seller's payment account is not set up correctly. Please try again later or contact the seller.";
+        return json({ error: friendly, code: 'SELLER_ACCOUNT_INVALID', message: friendly }, { status: 400 });
+      }
+      throw stripeError;
+    }
+
+    await groupRef.set({ stripeCheckoutSessionId: session.id, updatedAt: Timestamp.now() }, { merge: true });
+    if (offerRef) {
+      await offerRef.set(
+        { checkoutSessionId: session.id, orderGroupId: groupRef.id, updatedAt: Timestamp.now() },
+        { merge: true }
+      );
+    }
+
+    logInfo('Cart checkout session created', {
+      route: '/api/stripe/checkout/create-cart-session',
+      buyerId,
+      sellerId,
+      orderGroupId: groupRef.id,
+      offerId,
+      lineCount: lines.length,
+      sessionId: session.id,
+    });
+
+    return json({
+      sessionId: session.id,
+      url: session.url,
+      orderGroupId: groupRef.id,
+      message: 'Checkout session created successfully',
+    });
+  } catch (error: any) {
+    captureException(error instanceof Error ? error : new Error(String(error)), {
+      endpoint: '/api/stripe/checkout/create-cart-session',
+      errorMessage: error?.message,
+    });
+    return json(
+      { error: 'Failed to create checkout session', message: error?.message || 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
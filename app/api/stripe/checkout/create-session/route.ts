@@ -22,12 +22,24 @@ import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
 import { containsProhibitedKeywords } from '@/lib/compliance/validation';
 import { ACH_DEBIT_MIN_TOTAL_USD } from '@/lib/payments/constants';
 import { finalizeAuctionIfNeeded } from '@/lib/auctions/finalizeAuction';
+import { getOfferCheckoutListingError } from '@/lib/auctions/secondChance';
 import { normalizeCategory } from '@/lib/listings/normalizeCategory';
-import { getCategoryRequirements, isTexasOnlyCategory } from '@/lib/compliance/requirements';
+import { getCategoryRequirements } from '@/lib/compliance/requirements';
+import { resolveStateCompliance } from '@/lib/compliance/stateRules';
 import { coerceDurationDays, computeEndAt, toMillisSafe } from '@/lib/listings/duration';
 import { isGroupLotQuantityMode } from '@/lib/types';
 import { BUILD_INFO } from '@/lib/build-info';
 import { sanitizeFirestorePayload } from '@/lib/firebase/sanitizeFirestore';
+import { formatSalesTaxLabel, quoteSalesTax, serializeSalesTaxMetadata, toOrderSalesTax } from '@/lib/tax/salesTax';
+import { describeDeposit, formatDepositLabel, getListingDepositTerms, quoteDeposit, serializeDepositTermsMetadata, toOrderDepositTerms } from '@/lib/pricing/deposit';
+import {
+  INSTALLMENT_MIN_ORDER_TOTAL,
+  describeInstallmentPlan,
+  getListingInstallmentPlan,
+  isInstallmentEligible,
+  quoteInstallments,
+  serializeInstallmentPlanMetadata,
+} from '@/lib/pricing/installments';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -154,7 +166,7 @@ export async function POST(request: Request) {
       );
     }
 
-    const { listingId, offerId, quantity: quantityRaw, quantityMale: quantityMaleRaw, quantityFemale: quantityFemaleRaw, paymentMethod: paymentMethodRaw, buyerAcksAnimalRisk } = validation.data as any;
+    const { listingId, offerId, quantity: quantityRaw, quantityMale: quantityMaleRaw, quantityFemale: quantityFemaleRaw, paymentMethod: paymentMethodRaw, paymentPlan, buyerAcksAnimalRisk } = validation.data as any;
 
     // Back-compat: clients may still send "ach" (older UI); normalize to "ach_debit".
     const normalizedPaymentMethod =
@@ -331,6 +343,13 @@ export async function POST(request: Request) {
       if (offerData?.status !== 'accepted') {
         return NextResponse.json({ error: 'Offer is not accepted' }, { status: 400 });
       }
+      if (offerData?.bundle) {
+        // Bundle offers pay for every included listing in one cart-style checkout (create-cart-session).
+        return NextResponse.json(
+          { error: 'Bundle offers are paid from your offers page', code: 'BUNDLE_OFFER_CHECKOUT' },
+          { status: 400 }
+        );
+      }
       if (listingData?.offerReservedByOfferId && listingData.offerReservedByOfferId !== String(offerId)) {
         return NextResponse.json({ error: 'Listing is reserved by another offer' }, { status: 409 });
       }
@@ -381,15 +400,16 @@ export async function POST(request: Request) {
     let auctionResultSnapshot: any | null = null;
     
     if (offerId) {
-      // Accepted offer dictates the price (server authoritative). Same deposit logic as Buy Now: 20% at checkout.
-      if (listingData.type !== 'fixed' && listingData.type !== 'classified') {
-        return NextResponse.json({ error: 'Offer checkout is only supported for fixed/classified listings' }, { status: 400 });
+      // Accepted offer dictates the price (server authoritative). Same deposit logic as Buy Now (listing's deposit terms).
+      const offerCheckoutError = getOfferCheckoutListingError(listingData, offerData);
+      if (offerCheckoutError) {
+        return NextResponse.json({ error: offerCheckoutError }, { status: 400 });
       }
       const accepted = Number(offerData?.acceptedAmount ?? offerData?.currentAmount);
       if (!Number.isFinite(accepted) || accepted <= 0) {
         return NextResponse.json({ error: 'Offer has an invalid accepted amount' }, { status: 400 });
       }
-      // Offer amounts are in dollars (same as listing.price); deposit = purchaseTotalAmount * 0.2
+      // Offer amounts are in dollars (same as listing.price); deposit comes from quoteDeposit(purchaseTotalAmount)
       purchaseAmount = accepted;
     } else if (listingData.type === 'fixed') {
       // Fixed price listing - use listing price
@@ -521,12 +541,12 @@ export async function POST(request: Request) {
       );
     }
 
-    // P0: Texas-only enforcement for animal listings
+    // P0: state rules for animal listings (origin = listing state, destination = buyer state)
     if (categoryReq.texasOnly) {
-      // Verify listing is in Texas
-      if (listingData.location?.state !== 'TX') {
+      const listingState = resolveStateCompliance({ category: listingCategory as any, originState: listingData.location?.state });
+      if (listingState.code === 'LISTING_STATE_NOT_SUPPORTED') {
         return NextResponse.json(
-          { error: 'Animal listings must be located in Texas.' },
+          { error: listingState.message, code: listingState.code },
           { status: 400 }
         );
       }
@@ -544,12 +564,20 @@ export async function POST(request: Request) {
 
       const buyerData = buyerDoc.data()!;
       const buyerState = buyerData.profile?.location?.state;
-      
-      if (!buyerState || buyerState !== 'TX') {
+      const route = resolveStateCompliance({
+        category: listingCategory as any,
+        originState: listingData.location?.state,
+        destinationState: buyerState,
+      });
+
+      if (!buyerState || !route.allowed) {
         return NextResponse.json(
-          { 
-            error: 'Only Texas residents can purchase animal listings. Please update your profile location to Texas.',
-            code: 'TEXAS_ONLY_REQUIRED'
+          {
+            error: !buyerState
+              ? 'Please add your state to your profile location before purchasing animal listings.'
+              : `${route.message} Please check your profile location.`,
+            code: route.code || 'BUYER_STATE_NOT_ALLOWED',
+            ...(route.note ? { note: route.note } : {}),
           },
           { status: 400 }
         );
@@ -754,14 +782,56 @@ export async function POST(request: Request) {
       );
     }
 
-    // Calculate fees: initial payment is 20% non-refundable deposit (flat fee on deposit)
+    // Calculate fees: initial payment is the deposit (20% non-refundable unless the listing sets its own terms;
+    // flat fee on deposit)
     const feePercent = MARKETPLACE_FEE_PERCENT;
-    const depositAmountDollars = purchaseTotalAmount * 0.2;
-    const finalPaymentAmountDollars = purchaseTotalAmount * 0.8;
+    const listingDepositTerms = getListingDepositTerms(listingData);
+    const deposit = quoteDeposit(purchaseTotalAmount, listingDepositTerms, quantityRequested);
+
+    // Installment plan: the first installment replaces the deposit and the listing's deposit terms don't apply.
+    const listingInstallmentPlan = paymentPlan === 'installments' ? getListingInstallmentPlan(listingData) : null;
+    if (paymentPlan === 'installments') {
+      if (paymentMethod !== 'card') {
+        return NextResponse.json(
+          { error: 'Installment plans are only available when paying by card.', code: 'INSTALLMENTS_CARD_ONLY' },
+          { status: 400 }
+        );
+      }
+      if (!isInstallmentEligible(purchaseTotalAmount, listingInstallmentPlan)) {
+        return NextResponse.json(
+          {
+            error: listingInstallmentPlan
+              ? `Installment plans are available on orders of $${INSTALLMENT_MIN_ORDER_TOTAL.toLocaleString()} or more.`
+              : 'This listing does not offer an installment plan.',
+            code: 'INSTALLMENTS_NOT_AVAILABLE',
+          },
+          { status: 400 }
+        );
+      }
+    }
+    const installmentAmounts = listingInstallmentPlan
+      ? quoteInstallments(purchaseTotalAmount, listingInstallmentPlan.installmentCount)
+      : null;
+    const depositTerms = !installmentAmounts && deposit.custom ? toOrderDepositTerms(listingDepositTerms, deposit) : null;
+    const depositAmountDollars = installmentAmounts ? installmentAmounts[0] : deposit.depositAmount;
+    const finalPaymentAmountDollars = installmentAmounts
+      ? Math.round((purchaseTotalAmount - installmentAmounts[0]) * 100) / 100
+      : deposit.finalPaymentAmount;
     const amount = Math.round(depositAmountDollars * 100); // Deposit in cents
     const platformFee = calculatePlatformFee(amount);
     const sellerAmount = amount - platformFee;
 
+    // Sales tax on the full purchase price, charged now as its own line and passed through to the seller
+    // (not part of the deposit math or the platform fee).
+    const salesTax = toOrderSalesTax(
+      await quoteSalesTax({
+        category: listingCategory,
+        amountCents: Math.round(purchaseTotalAmount * 100),
+        location: listingData.location,
+      })
+    );
+    const salesTaxCents = Math.round(salesTax.amount * 100);
+
     // NOTE: We intentionally do NOT enforce a hard minimum for ACH here.
     // Stripe + risk controls remain server-side authoritative, but UX should always allow ACH selection.
 
@@ -852,16 +922,35 @@ export async function POST(request: Request) {
           price_data: {
             currency: 'usd',
             product_data: {
-              name: `20% deposit – ${listingData.title}`,
-              description: listingData.type === 'auction'
-                ? `Auction Winner (20% non-refundable deposit) - ${(listingData.description || '').substring(0, 400)}`
-                : `20% non-refundable deposit – ${(listingData.description || '').substring(0, 450)}`,
+              name: listingInstallmentPlan
+                ? `Installment 1 of ${listingInstallmentPlan.installmentCount} – ${listingData.title}`
+                : `${formatDepositLabel(depositTerms)} – ${listingData.title}`,
+              description: listingInstallmentPlan
+                ? `${describeInstallmentPlan(purchaseTotalAmount, listingInstallmentPlan)} – ${(listingData.description || '').substring(0, 400)}`
+                : listingData.type === 'auction'
+                  ? `Auction Winner (${describeDeposit(depositTerms)}) - ${(listingData.description || '').substring(0, 400)}`
+                  : `${describeDeposit(depositTerms)} – ${(listingData.description || '').substring(0, 450)}`,
               images: (listingData.images || []).slice(0, 1), // First image only
             },
-            unit_amount: amount, // Deposit total in cents (single line item)
+            unit_amount: amount, // Deposit total in cents
           },
           quantity: 1,
         },
+        ...(salesTaxCents > 0
+          ? [
+              {
+                price_data: {
+                  currency: 'usd',
+                  product_data: {
+                    name: formatSalesTaxLabel(salesTax),
+                    description: `Sales tax on the full purchase price of $${purchaseTotalAmount.toFixed(2)}`,
+                  },
+                  unit_amount: salesTaxCents,
+                },
+                quantity: 1,
+              },
+            ]
+          : []),
       ],
       mode: 'payment',
       success_url: `${baseUrl}/dashboard/orders?session_id={CHECKOUT_SESSION_ID}`,
@@ -900,6 +989,9 @@ export async function POST(request: Request) {
         paymentMethod,
         transportOption: String(transportOption),
         paymentType: 'deposit',
+        salesTax: serializeSalesTaxMetadata(salesTax),
+        ...(depositTerms ? { depositTerms: serializeDepositTermsMetadata(depositTerms) } : {}),
+        ...(listingInstallmentPlan ? { installmentPlan: serializeInstallmentPlanMetadata(listingInstallmentPlan) } : {}),
         ...(offerId ? { offerId: String(offerId), acceptedAmount: String(purchaseAmount) } : {}),
       },
     };
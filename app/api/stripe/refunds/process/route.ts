@@ -3,6 +3,9 @@
  * 
  * Admin-only endpoint to process refunds
  * Creates a Stripe refund and updates order status
+ *
+ * Body takes either `amount` (partial, dollars) or `quantity` (per-head refund on a multi-quantity order,
+ * priced by `lib/orders/quantityRefunds.ts`); neither = full refund.
  */
 
 // IMPORTANT: Avoid importing `NextRequest` / `NextResponse` from `next/server` in this repo.
@@ -15,6 +18,9 @@ import { rateLimitMiddleware, RATE_LIMITS } from '@/lib/rate-limit';
 import { createAuditLog } from '@/lib/audit/logger';
 import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
 import { logInfo, logError } from '@/lib/monitoring/logger';
+import { computeAmountRefund, computePerHeadRefund } from '@/lib/orders/quantityRefunds';
+import { getOrderGroupLineRefund } from '@/lib/orders/orderGroups';
+import { reverseAnimalSale } from '@/lib/animals/registry';
 
 function json(body: any, init?: { status?: number; headers?: Record<string, string> }) {
   return new Response(JSON.stringify(body), {
@@ -105,7 +111,7 @@ export async function POST(request: Request) {
       return json({ error: validation.error, details: validation.details?.errors }, { status: 400 });
     }
 
-    const { orderId, reason, notes, amount: refundAmount } = validation.data;
+    const { orderId, reason, notes, amount: refundAmount, quantity: refundQuantity } = validation.data;
 
     // Get order from Firestore
     const orderRef = db.collection('orders').doc(orderId);
@@ -144,20 +150,33 @@ export async function POST(request: Request) {
       return json({ error: 'Payment intent not found' }, { status: 400 });
     }
 
-    // Determine refund amount (full refund if not specified)
-    const totalAmount = orderData.amount * 100; // Convert to cents
-    const refundAmountCents = refundAmount 
-      ? Math.round(refundAmount * 100) 
-      : totalAmount; // Full refund
-
-    // Validate refund amount
-    if (refundAmountCents > totalAmount) {
-      return json({ error: 'Refund amount cannot exceed order amount' }, { status: 400 });
+    // Determine refund amount (everything not yet refunded if not specified). Both kinds add to the order's
+    // running `refundAmount`, so an amount refund after per-head refunds can't over-refund or reset the total.
+    const perHeadCalc = refundQuantity ? computePerHeadRefund(orderData, refundQuantity) : null;
+    const refundCalc = perHeadCalc ?? computeAmountRefund(orderData, refundAmount ? Math.round(refundAmount * 100) : null);
+    if (!refundCalc.ok) {
+      return json({ error: refundCalc.message, code: refundCalc.code }, { status: 400 });
     }
-
-    if (refundAmountCents <= 0) {
-      return json({ error: 'Refund amount must be greater than zero' }, { status: 400 });
+    const perHead = perHeadCalc?.ok ? perHeadCalc : null;
+    // The sales tax collected at checkout goes back with it (pro rata; all of it on a full refund).
+    const withTaxCents = refundCalc.amountCents + refundCalc.taxCents;
+    // Cart lines share the group's PaymentIntent: never refund more than this line was charged.
+    const groupLine = getOrderGroupLineRefund(orderData, withTaxCents);
+    if (groupLine && groupLine.amountCents <= 0) {
+      return json({ error: 'Nothing is left to refund on this cart line.', code: 'NOTHING_TO_REFUND' }, { status: 400 });
     }
+    if (groupLine && groupLine.amountCents < withTaxCents && (refundAmount || perHead)) {
+      return json(
+        {
+          error: `Refund amount cannot exceed the $${(groupLine.lineLeftCents / 100).toFixed(2)} charged for this cart line and not yet refunded`,
+          code: 'INVALID_AMOUNT',
+        },
+        { status: 400 }
+      );
+    }
+    const refundAmountCents = groupLine ? groupLine.amountCents : withTaxCents;
+    // Partial refunds settle the order once the running total reaches the order amount.
+    const isFullRefund = refundCalc.isFullRefund;
 
     // Transaction guard: prevent concurrent refunds (P3)
     const now = new Date();
@@ -199,9 +218,15 @@ export async function POST(request: Request) {
             sellerId: orderData.sellerId,
             refundedBy: adminId,
             refundReason: reason || 'Admin refund',
+            ...(perHead ? { refundQuantity: String(perHead.headCount) } : {}),
+            ...(orderData.orderGroupId ? { orderGroupId: String(orderData.orderGroupId) } : {}),
           },
         },
-        { idempotencyKey: `refund:${orderId}:${refundAmountCents}` }
+        {
+          idempotencyKey: perHead
+            ? `refund:${orderId}:head:${perHead.refundedQuantityAfter}:${refundAmountCents}`
+            : `refund:${orderId}:to:${Math.round(refundCalc.refundAmountAfter * 100)}:${refundAmountCents}`,
+        }
       );
     } catch (stripeErr: any) {
       await orderRef.update({ refundInProgressAt: FieldValue.delete(), updatedAt: new Date() }).catch((e) => {
@@ -218,11 +243,14 @@ export async function POST(request: Request) {
       status: orderData.status,
       stripeRefundId: orderData.stripeRefundId,
       refundedBy: orderData.refundedBy,
+      refundAmount: orderData.refundAmount ?? null,
+      refundedTaxAmount: orderData.refundedTaxAmount ?? null,
+      ...(perHead ? { refundedQuantity: orderData.refundedQuantity ?? 0 } : {}),
     };
 
     // Update order in Firestore; clear refund-in-progress lock
     const updateData: any = {
-      status: refundAmountCents === totalAmount ? 'refunded' : 'completed',
+      status: isFullRefund ? 'refunded' : 'completed',
       stripeRefundId: refund.id,
       refundedBy: adminId,
       refundedAt: now,
@@ -231,9 +259,10 @@ export async function POST(request: Request) {
       refundInProgressAt: FieldValue.delete(),
     };
 
-    if (refundAmountCents < totalAmount) {
-      updateData.refundAmount = refundAmountCents / 100;
-    }
+    updateData.refundAmount = refundCalc.refundAmountAfter;
+    if (refundCalc.taxCents > 0) updateData.refundedTaxAmount = refundCalc.refundedTaxAmountAfter;
+    if (groupLine) updateData.lineRefundedAmount = groupLine.lineRefundedAmountAfter;
+    if (perHead) updateData.refundedQuantity = perHead.refundedQuantityAfter;
 
     const existingNotes = orderData.adminActionNotes || [];
     updateData.adminActionNotes = [
@@ -243,7 +272,8 @@ export async function POST(request: Request) {
         notes: notes ?? null,
         actorUid: adminId,
         createdAt: Timestamp.now(),
-        action: refundAmountCents === totalAmount ? 'refund_full' : 'refund_partial',
+        action: isFullRefund ? 'refund_full' : 'refund_partial',
+        ...(perHead ? { quantity: perHead.headCount } : {}),
       },
     ];
 
@@ -259,10 +289,19 @@ export async function POST(request: Request) {
       throw updateErr;
     }
 
+    // Full refund: the animal goes back to the seller in the registry (best-effort).
+    if (isFullRefund) {
+      try {
+        await reverseAnimalSale(db, { orderId, reason: 'refunded' });
+      } catch {
+        // ignore; best-effort
+      }
+    }
+
     await createAuditLog(db, {
       actorUid: adminId,
       actorRole: 'admin',
-      actionType: refundAmountCents === totalAmount ? 'refund_full' : 'refund_partial',
+      actionType: isFullRefund ? 'refund_full' : 'refund_partial',
       orderId: orderId,
       listingId: orderData.listingId,
       beforeState,
@@ -270,12 +309,15 @@ export async function POST(request: Request) {
         status: updateData.status,
         stripeRefundId: refund.id,
         refundedBy: adminId,
-        refundAmount: refundAmountCents < totalAmount ? refundAmountCents / 100 : null,
+        refundAmount: updateData.refundAmount ?? null,
+        ...(perHead ? { refundedQuantity: perHead.refundedQuantityAfter } : {}),
       },
       metadata: {
         refundId: refund.id,
         refundAmount: refundAmountCents / 100,
-        isFullRefund: refundAmountCents === totalAmount,
+        salesTaxRefunded: refundCalc.taxCents / 100,
+        isFullRefund,
+        ...(perHead ? { refundQuantity: perHead.headCount, perHeadPrice: perHead.perHeadPrice } : {}),
         reason,
         notes: notes ?? null,
       },
@@ -287,17 +329,21 @@ export async function POST(request: Request) {
       orderId,
       refundId: refund.id,
       amountUsd: refundAmountCents / 100,
-      isFullRefund: refundAmountCents === totalAmount,
+      isFullRefund,
+      ...(perHead ? { refundQuantity: perHead.headCount } : {}),
     });
 
     return json({
       success: true,
       refundId: refund.id,
       amount: refundAmountCents / 100,
-      isFullRefund: refundAmountCents === totalAmount,
-      message: refundAmountCents === totalAmount 
-        ? 'Full refund processed successfully' 
-        : 'Partial refund processed successfully',
+      isFullRefund,
+      ...(perHead ? { refundQuantity: perHead.headCount, refundedQuantity: perHead.refundedQuantityAfter } : {}),
+      message: perHead
+        ? `Refunded ${perHead.headCount} head successfully`
+        : isFullRefund
+          ? 'Full refund processed successfully'
+          : 'Partial refund processed successfully',
     });
   } catch (error: any) {
     logError('Error processing refund', error, { route: '/api/stripe/refunds/process' });
@@ -5,7 +5,7 @@
  * These handlers can be called with test Firestore instances
  */
 
-import { getFirestore, Timestamp, Firestore } from 'firebase-admin/firestore';
+import { getFirestore, FieldValue, Timestamp, Firestore } from 'firebase-admin/firestore';
 import Stripe from 'stripe';
 import { stripe, calculatePlatformFee } from '@/lib/stripe/config';
 import { createAuditLog } from '@/lib/audit/logger';
@@ -16,9 +16,25 @@ import { resolveActionNotifications } from '@/lib/notifications/resolveAction';
 import { getSiteUrl } from '@/lib/site-url';
 import { MARKETPLACE_FEE_PERCENT } from '@/lib/pricing/plans';
 import { normalizeCategory } from '@/lib/listings/normalizeCategory';
-import { isTexasOnlyCategory } from '@/lib/compliance/requirements';
+import { getCategoryRequirements } from '@/lib/compliance/requirements';
+import { resolveStateCompliance } from '@/lib/compliance/stateRules';
 import { recomputeOrderComplianceDocsStatus } from '@/lib/orders/complianceDocsStatus';
+import { recordAnimalSale, reverseAnimalSale } from '@/lib/animals/registry';
 import { appendOrderTimelineEvent } from '@/lib/orders/timeline';
+import { getEffectiveTransactionStatus } from '@/lib/orders/status';
+import { settleSecondChanceOffer } from '@/lib/auctions/secondChance';
+import { buildOrderGroupLineMetadata } from '@/lib/orders/orderGroups';
+import { parseSalesTaxMetadata } from '@/lib/tax/salesTax';
+import { parseDepositTermsMetadata, resolveBalanceDueAt } from '@/lib/pricing/deposit';
+import {
+  buildInstallmentSchedule,
+  getInstallmentDueAt,
+  getNextInstallment,
+  isDuplicateInstallmentPayment,
+  isLastInstallment,
+  markInstallmentPaid,
+  parseInstallmentPlanMetadata,
+} from '@/lib/pricing/installments';
 import { tryDispatchEmailJobNow } from '@/lib/email/dispatchEmailJobNow';
 import { sanitizeFirestorePayload } from '@/lib/firebase/sanitizeFirestore';
 import { assertNoCorruptInt32 } from '@/lib/firebase/assertNoCorruptInt32';
@@ -134,6 +150,16 @@ export async function handleCheckoutSessionCompleted(
       await handleFinalPaymentCompleted(db, session, requestId);
       return;
     }
+    if (paymentType === 'installment') {
+      await handleInstallmentPaymentCompleted(db, session, requestId);
+      return;
+    }
+
+    // Cart checkout: the group session has no listingId; each line is applied below as its own order.
+    if (session.metadata?.orderGroupId && !session.metadata?.listingId) {
+      await handleOrderGroupCheckoutCompleted(db, session, requestId);
+      return;
+    }
 
     const checkoutSessionId = session.id;
     // Orders are created only on payment success; create-session no longer sends orderId.
@@ -141,6 +167,7 @@ export async function handleCheckoutSessionCompleted(
     const buyerId = session.metadata?.buyerId;
     const sellerId = session.metadata?.sellerId;
     const offerId = session.metadata?.offerId;
+    const orderGroupId = session.metadata?.orderGroupId;
     const sellerStripeAccountId = session.metadata?.sellerStripeAccountId;
     const sellerAmountCents = session.metadata?.sellerAmount;
     const platformFeeCents = session.metadata?.platformFee;
@@ -159,6 +186,8 @@ export async function handleCheckoutSessionCompleted(
     const orderTotalMeta = session.metadata?.orderTotal;
     const depositAmountMeta = session.metadata?.depositAmount;
     const finalPaymentAmountMeta = session.metadata?.finalPaymentAmount;
+    const salesTaxSnapshot = parseSalesTaxMetadata(session.metadata?.salesTax);
+    const depositTermsSnapshot = parseDepositTermsMetadata(session.metadata?.depositTerms);
     const fullOrderTotalDollars =
       typeof orderTotalMeta === 'string' && orderTotalMeta.trim()
         ? Number(orderTotalMeta)
@@ -228,6 +257,11 @@ export async function handleCheckoutSessionCompleted(
         error: error.message,
       });
     }
+    // Order group lines share one PaymentIntent; this line's share of the deposit comes from metadata.
+    const lineAmountMeta = session.metadata?.lineAmount;
+    if (orderGroupId && lineAmountMeta) {
+      amount = parseInt(lineAmountMeta, 10);
+    }
 
     // Use plan snapshot from checkout metadata (immutable snapshot at time of checkout)
     // This ensures fee matches what was calculated at checkout, not current plan
@@ -282,7 +316,8 @@ export async function handleCheckoutSessionCompleted(
     }
     
     // P0: AIR-TIGHT TX-ONLY ENFORCEMENT (diligence note)
-    // We enforce TX-only in the money path (checkout + webhook) because it is the most reliable place to prevent interstate misuse:
+    // State rules (lib/compliance/stateRules.ts; TX-only until other market states are enabled) are enforced
+    // in the money path (checkout + webhook) because it is the most reliable place to prevent interstate misuse:
     // - Checkout can block based on buyer profile state + listing location.
     // - Webhook re-verifies based on Stripe-collected billing/shipping signals (source-of-truth for what was provided at payment time).
     // Async payment rails are handled differently: `checkout.session.completed` can arrive before funds settle, so we avoid premature refunds here.
@@ -305,7 +340,7 @@ export async function handleCheckoutSessionCompleted(
       return;
     }
     
-    if (isTexasOnlyCategory(listingCategory as any)) {
+    if (getCategoryRequirements(listingCategory as any).texasOnly) {
       // Get buyer state from Stripe session (customer_details or shipping_details)
       let buyerState: string | null = null;
       
@@ -343,11 +378,17 @@ export async function handleCheckoutSessionCompleted(
       // If no address found in Stripe, check if order was already refunded (idempotency)
       const existingRefundCheck = await ordersRef
         .where('stripeCheckoutSessionId', '==', checkoutSessionId)
+        .where('listingId', '==', listingId)
         .where('status', '==', 'refunded')
         .limit(1)
         .get();
       
-      if (!buyerState || buyerState !== 'TX') {
+      const stateRoute = resolveStateCompliance({
+        category: listingCategory as any,
+        originState: (listingData as any)?.location?.state,
+        destinationState: buyerState,
+      });
+      if (!buyerState || !stateRoute.allowed) {
         // For ANY async flow (e.g., ACH), do NOT attempt refunds here; funds may not be received yet.
         if (isAsync) {
           logWarn('TX-only violation detected for async payment (will be handled when payment is confirmed)', {
@@ -381,10 +422,12 @@ export async function handleCheckoutSessionCompleted(
           }
 
           try {
-            // Create refund (idempotent at Stripe level as well)
+            // Create refund (idempotent at Stripe level as well).
+            // Cart lines share one PaymentIntent: refund only this line's share so the other lines stay paid.
             const refund = await stripe.refunds.create(
               {
                 payment_intent: paymentIntentId,
+                ...(orderGroupId ? { amount } : {}),
                 reason: 'requested_by_customer',
                 metadata: {
                   reason: 'tx_only_violation',
@@ -393,9 +436,10 @@ export async function handleCheckoutSessionCompleted(
                   listingCategory,
                   buyerState: buyerState || 'NOT_FOUND',
                   refundedBy: 'system',
+                  ...(orderGroupId ? { orderGroupId } : {}),
                 },
               },
-              { idempotencyKey: `refund:tx_only:${checkoutSessionId}` }
+              { idempotencyKey: orderGroupId ? `refund:tx_only:${checkoutSessionId}:${listingId}` : `refund:tx_only:${checkoutSessionId}` }
             );
             const now = new Date();
 
@@ -411,13 +455,13 @@ export async function handleCheckoutSessionCompleted(
               stripeCheckoutSessionId: checkoutSessionId,
               stripePaymentIntentId: paymentIntentId,
               stripeRefundId: refund.id,
-              refundReason: 'Texas-only violation: Buyer state is not Texas',
+              refundReason: 'State compliance violation: Buyer state is not allowed for this listing',
               refundedAt: now,
               refundedBy: 'system',
               createdAt: now,
               updatedAt: now,
               complianceViolation: true,
-              complianceViolationReason: `Animal listing requires TX buyer. Buyer state: ${buyerState || 'NOT_FOUND'}`,
+              complianceViolationReason: `${stateRoute.message || 'Buyer state not allowed.'} Buyer state: ${buyerState || 'NOT_FOUND'}`,
             });
 
             // Create audit log
@@ -491,13 +535,26 @@ export async function handleCheckoutSessionCompleted(
     // Dispute window duration (hours) - for internal enforcement only, does not affect Stripe payout timing
     const disputeWindowHours = parseInt(process.env.DISPUTE_WINDOW_HOURS || '72', 10);
     const disputeDeadline = new Date(now.getTime() + disputeWindowHours * 60 * 60 * 1000);
+    // Listing's own deposit terms; a balance due date starts counting once the deposit has cleared.
+    const balanceDueAt = depositAmountDollars > 0 && !isAsync ? resolveBalanceDueAt(depositTermsSnapshot, now) : null;
+    // Installment plan: the deposit was installment 1; the rest fall due on the plan's interval from today.
+    const installmentTerms = depositAmountDollars > 0 && !isAsync ? parseInstallmentPlanMetadata(session.metadata?.installmentPlan) : null;
+    const installmentPlan = installmentTerms
+      ? buildInstallmentSchedule(fullOrderTotalDollars, installmentTerms, now, {
+          stripeCheckoutSessionId: checkoutSessionId,
+          stripePaymentIntentId: paymentIntentId,
+        })
+      : null;
+    const nextInstallmentDueAt = installmentPlan ? getInstallmentDueAt(getNextInstallment(installmentPlan)) : null;
     
     let orderRef: import('firebase-admin/firestore').DocumentReference;
     let existingOrderData: any | null = null;
-    const existingOrderQuery = await ordersRef.where('stripeCheckoutSessionId', '==', checkoutSessionId).limit(1).get();
-    if (!existingOrderQuery.empty) {
-      orderRef = existingOrderQuery.docs[0].ref;
-      existingOrderData = existingOrderQuery.docs[0].data() as any;
+    // Cart sessions produce one order per listing, so match on listingId as well.
+    const existingOrderQuery = await ordersRef.where('stripeCheckoutSessionId', '==', checkoutSessionId).get();
+    const existingOrderDoc = existingOrderQuery.docs.find((d) => String((d.data() as any)?.listingId || '') === listingId);
+    if (existingOrderDoc) {
+      orderRef = existingOrderDoc.ref;
+      existingOrderData = existingOrderDoc.data() as any;
     } else {
       orderRef = ordersRef.doc();
     }
@@ -632,6 +689,9 @@ export async function handleCheckoutSessionCompleted(
         ...(sellerPhotoURL ? { photoURL: sellerPhotoURL } : {}),
       },
       ...(offerId ? { offerId: String(offerId) } : {}),
+      ...(orderGroupId ? { orderGroupId: String(orderGroupId) } : {}),
+      // This line's share of the group's PaymentIntent caps refunds of this order (see getOrderGroupLineRefund).
+      ...(orderGroupId && lineAmountMeta ? { lineAmount: amount / 100 } : {}),
       amount: fullOrderTotalDollars,
       platformFee:
         depositAmountDollars > 0
@@ -649,7 +709,11 @@ export async function handleCheckoutSessionCompleted(
             finalPaymentAmount: finalPaymentAmountDollars,
           }
         : {}),
+      ...(depositAmountDollars > 0 && depositTermsSnapshot ? { depositTerms: depositTermsSnapshot } : {}),
+      ...(balanceDueAt ? { balanceDueAt, balanceDuePending: true } : {}),
+      ...(installmentPlan ? { installmentPlan, installmentsPending: true, nextInstallmentDueAt } : {}),
       ...(typeof unitPriceFromMeta === 'number' && Number.isFinite(unitPriceFromMeta) ? { unitPrice: unitPriceFromMeta } : {}),
+      ...(salesTaxSnapshot ? { salesTax: salesTaxSnapshot } : {}),
       status: orderStatus, // Legacy status for backward compatibility
       transactionStatus: transactionStatus, // NEW: Fulfillment-based status (seller already paid immediately)
       transportOption: String(transportOption), // NEW: Transport option for fulfillment workflow
@@ -821,6 +885,16 @@ export async function handleCheckoutSessionCompleted(
       // ignore; best-effort
     }
 
+    // Animal registry: transfer the listed animal to the buyer (best-effort). Async payments transfer it in
+    // handleCheckoutSessionAsyncPaymentSucceeded once the funds clear.
+    if (paymentConfirmed) {
+      try {
+        await recordAnimalSale(db as any, { orderId: orderRef.id, listingId, buyerId, sellerId });
+      } catch {
+        // ignore; best-effort
+      }
+    }
+
     // Server-authored timeline events (idempotent).
     try {
       await appendOrderTimelineEvent({
@@ -920,6 +994,10 @@ export async function handleCheckoutSessionCompleted(
             entityId: String(offerId),
           });
         }
+        // Second-chance auction offers: AuctionResult -> ended_paid (no-op for non-auction offers).
+        if (paymentConfirmed) {
+          await settleSecondChanceOffer({ db: db as any, listingId: String(listingId), requestId });
+        }
       } catch (e) {
         logWarn('Failed to link offer to order', {
           requestId,
@@ -1153,6 +1231,7 @@ export async function handleCheckoutSessionCompleted(
             orderUrl: buyerOrderUrl,
             amount: amount / 100,
             paymentMethod: effectivePaymentMethod || undefined,
+            ...(salesTaxSnapshot && salesTaxSnapshot.amount > 0 ? { salesTaxAmount: salesTaxSnapshot.amount } : {}),
           },
           optionalHash: `checkout:${checkoutSessionId}`,
         });
@@ -1241,6 +1320,81 @@ export async function handleCheckoutSessionCompleted(
   }
 }
 
+/**
+ * Handle checkout.session.completed for a cart checkout (metadata.orderGroupId, no listingId).
+ * Runs the normal order-creation path once per line so each listing still reserves quantity and
+ * records its own soldPriceCents, then links the created orders on the group and clears the cart.
+ */
+async function handleOrderGroupCheckoutCompleted(
+  db: Firestore,
+  session: Stripe.Checkout.Session,
+  requestId?: string
+) {
+  const orderGroupId = String(session.metadata?.orderGroupId || '');
+  const groupRef = db.collection('orderGroups').doc(orderGroupId);
+  const groupSnap = await groupRef.get();
+  if (!groupSnap.exists) {
+    logError('Order group not found for checkout session', undefined, {
+      requestId,
+      route: '/api/stripe/webhook',
+      orderGroupId,
+      checkoutSessionId: session.id,
+    });
+    return;
+  }
+  const group = groupSnap.data() as any;
+  const lines = Array.isArray(group?.lines) ? group.lines : [];
+  const ordersRef = db.collection('orders');
+
+  // Each line is checked on its own: a TX-only violation refunds just that line's share (lineAmount) and
+  // records a refunded order for it, while the other lines are applied as paid.
+  for (const line of lines) {
+    const metadata = buildOrderGroupLineMetadata((session.metadata || {}) as Record<string, string>, orderGroupId, line);
+    await handleCheckoutSessionCompleted(db, { ...session, metadata } as Stripe.Checkout.Session, requestId);
+  }
+
+  const createdSnap = await ordersRef.where('stripeCheckoutSessionId', '==', session.id).get();
+  const orderIds = createdSnap.docs
+    .filter((d) => String((d.data() as any)?.orderGroupId || '') === orderGroupId)
+    .map((d) => d.id);
+  const paid = isCheckoutSessionPaid(session);
+  const now = new Date();
+  await safeSet(
+    groupRef,
+    {
+      orderIds,
+      stripeCheckoutSessionId: session.id,
+      ...(paid ? { status: 'paid', paidAt: now } : {}),
+      updatedAt: now,
+    },
+    { merge: true }
+  );
+
+  // Bundle offers: each line already linked the offer to its order; record the whole group on the offer.
+  if (session.metadata?.offerId && orderIds.length > 0) {
+    await safeSet(
+      db.collection('offers').doc(String(session.metadata.offerId)),
+      { orderGroupId, orderIds, updatedAt: now },
+      { merge: true }
+    );
+  }
+
+  if (paid && group?.buyerId) {
+    const cartRef = db.collection('users').doc(String(group.buyerId)).collection('cart');
+    await Promise.all(
+      lines.map((l: any) => cartRef.doc(String(l?.listingId || '')).delete().catch(() => null))
+    );
+  }
+
+  logInfo('Order group checkout completed', {
+    requestId,
+    route: '/api/stripe/webhook',
+    orderGroupId,
+    checkoutSessionId: session.id,
+    orderIds,
+  });
+}
+
 /**
  * Handle checkout.session.completed for paymentType === 'final'.
  * Updates order with finalPaymentConfirmedAt, appends timeline event, auto-creates delivery session with PIN.
@@ -1293,13 +1447,60 @@ export async function handleFinalPaymentCompleted(
     return;
   }
 
+  // A balance checkout opened before the order expired can still complete afterwards: the order is cancelled
+  // and the listing relisted, so hand the money back.
+  if (orderData.depositExpiredAt) {
+    const paymentIntentId =
+      typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id;
+    logWarn('Final payment received after balance expiry; refunding', {
+      requestId,
+      route: '/api/stripe/webhook',
+      orderId,
+      checkoutSessionId: session.id,
+    });
+    if (stripe && paymentIntentId) {
+      await stripe.refunds.create(
+        {
+          payment_intent: paymentIntentId,
+          reason: 'requested_by_customer',
+          metadata: { reason: 'balance_after_expiry', orderId, buyerId, refundedBy: 'system' },
+        },
+        { idempotencyKey: `refund:balance_after_expiry:${session.id}` }
+      );
+    }
+    return;
+  }
+
   const now = new Date();
   const nowTs = Timestamp.fromDate(now);
+  // Balance due dates let the buyer pay ahead of delivery; fulfillment then carries on as normal and the
+  // delivery session is created when the seller schedules delivery.
+  // Installment orders are paid off before the animal / equipment is released, so the same applies.
+  const paidAheadOfDelivery =
+    (!!orderData.balanceDueAt || !!orderData.installmentPlan) &&
+    !['DELIVERY_SCHEDULED', 'OUT_FOR_DELIVERY'].includes(getEffectiveTransactionStatus(orderData));
+  // The last installment of a plan is charged as the final payment.
+  const lastInstallment = orderData.installmentPlan ? getNextInstallment(orderData.installmentPlan) : null;
+  const stripePaymentIntentId =
+    typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id;
 
   await orderRef.update({
     finalPaymentConfirmedAt: now,
     updatedAt: now,
-    transactionStatus: 'DELIVERED_PENDING_CONFIRMATION',
+    ...(orderData.balanceDuePending ? { balanceDuePending: false } : {}),
+    ...(orderData.installmentPlan
+      ? {
+          installmentPlan: lastInstallment
+            ? markInstallmentPaid(orderData.installmentPlan, lastInstallment.number, now, {
+                stripeCheckoutSessionId: session.id,
+                stripePaymentIntentId,
+              })
+            : orderData.installmentPlan,
+          installmentsPending: false,
+          nextInstallmentDueAt: FieldValue.delete(),
+        }
+      : {}),
+    ...(paidAheadOfDelivery ? {} : { transactionStatus: 'DELIVERED_PENDING_CONFIRMATION' }),
   });
 
   await appendOrderTimelineEvent({
@@ -1325,7 +1526,9 @@ export async function handleFinalPaymentCompleted(
   const sellerId = orderData.sellerId ? String(orderData.sellerId) : null;
   const listingId = orderData.listingId ? String(orderData.listingId) : '';
   const listingTitle = (orderData.listingSnapshot as any)?.title || 'Your order';
-  const finalAmount = typeof orderData.finalPaymentAmount === 'number' ? orderData.finalPaymentAmount : (session.amount_total ? session.amount_total / 100 : 0);
+  const finalAmount = lastInstallment
+    ? lastInstallment.amount
+    : typeof orderData.finalPaymentAmount === 'number' ? orderData.finalPaymentAmount : (session.amount_total ? session.amount_total / 100 : 0);
   if (sellerId) {
     try {
       const ev = await emitAndProcessEventForUser({
@@ -1360,6 +1563,16 @@ export async function handleFinalPaymentCompleted(
     }
   }
 
+  if (paidAheadOfDelivery) {
+    logInfo('Final payment confirmed ahead of delivery', {
+      requestId,
+      route: '/api/stripe/webhook',
+      orderId,
+      checkoutSessionId: session.id,
+    });
+    return;
+  }
+
   let sessionId: string | null = null;
   const existingSession = await db
     .collection('deliverySessions')
@@ -1408,6 +1621,143 @@ export async function handleFinalPaymentCompleted(
   });
 }
 
+/**
+ * Handle checkout.session.completed for paymentType === 'installment' (installments 2..N-1 of a plan; the last
+ * one is charged as the final payment). Marks the installment paid and moves the dunning clock to the next one.
+ */
+export async function handleInstallmentPaymentCompleted(
+  db: Firestore,
+  session: Stripe.Checkout.Session,
+  requestId?: string
+) {
+  const orderId = session.metadata?.orderId ? String(session.metadata.orderId).trim() : null;
+  const buyerId = session.metadata?.buyerId ? String(session.metadata.buyerId) : null;
+  const installmentNumber = Number(session.metadata?.installmentNumber);
+  if (!orderId || !buyerId || !Number.isInteger(installmentNumber)) {
+    logError('Installment session missing orderId, buyerId or installmentNumber', undefined, {
+      requestId,
+      route: '/api/stripe/webhook',
+      checkoutSessionId: session.id,
+    });
+    return;
+  }
+
+  const orderRef = db.collection('orders').doc(orderId);
+  const now = new Date();
+  const paymentIntentId =
+    typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id;
+
+  const result = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(orderRef);
+    if (!snap.exists) return { applied: false as const, reason: 'not_found' };
+    const orderData = snap.data() as any;
+    if (orderData.buyerId !== buyerId) return { applied: false as const, reason: 'buyer_mismatch' };
+    const plan = orderData.installmentPlan;
+    const installment = Array.isArray(plan?.installments)
+      ? plan.installments.find((i: any) => i.number === installmentNumber)
+      : null;
+    if (!installment) return { applied: false as const, reason: 'no_installment' };
+    if (installment.paidAt) {
+      const duplicate = isDuplicateInstallmentPayment(installment, {
+        stripeCheckoutSessionId: session.id,
+        stripePaymentIntentId: paymentIntentId,
+      });
+      return { applied: false as const, reason: duplicate ? 'duplicate_payment' : 'already_paid' };
+    }
+    if (['CANCELLED', 'REFUNDED'].includes(getEffectiveTransactionStatus(orderData))) {
+      return { applied: false as const, reason: 'order_ended' };
+    }
+    if (isLastInstallment(plan, installment)) return { applied: false as const, reason: 'last_installment' };
+
+    const nextPlan = markInstallmentPaid(plan, installmentNumber, now, {
+      stripeCheckoutSessionId: session.id,
+      stripePaymentIntentId: paymentIntentId,
+    });
+    const nextDueAt = getInstallmentDueAt(getNextInstallment(nextPlan));
+    tx.update(orderRef, {
+      installmentPlan: nextPlan,
+      installmentsPending: nextPlan.status === 'active',
+      nextInstallmentDueAt: nextDueAt ?? FieldValue.delete(),
+      updatedAt: now,
+    });
+    return { applied: true as const, orderData, installment, nextPlan };
+  });
+
+  if (!result.applied) {
+    if (result.reason === 'order_ended' && stripe && paymentIntentId) {
+      // Checkout opened before an admin cancelled the order: hand the money back.
+      await stripe.refunds.create(
+        {
+          payment_intent: paymentIntentId,
+          reason: 'requested_by_customer',
+          metadata: { reason: 'installment_after_cancel', orderId, buyerId, refundedBy: 'system' },
+        },
+        { idempotencyKey: `refund:installment_after_cancel:${session.id}` }
+      );
+    }
+    if (result.reason === 'duplicate_payment' && stripe && paymentIntentId) {
+      // Two checkouts for the same installment both went through: the first one counts, refund this one.
+      await stripe.refunds.create(
+        {
+          payment_intent: paymentIntentId,
+          reason: 'duplicate',
+          metadata: { reason: 'installment_duplicate', orderId, buyerId, installmentNumber: String(installmentNumber), refundedBy: 'system' },
+        },
+        { idempotencyKey: `refund:installment_duplicate:${session.id}` }
+      );
+    }
+    logInfo('Installment payment not applied', {
+      requestId,
+      route: '/api/stripe/webhook',
+      orderId,
+      installmentNumber,
+      reason: result.reason,
+      checkoutSessionId: session.id,
+    });
+    return;
+  }
+
+  const nowTs = Timestamp.fromDate(now);
+  await appendOrderTimelineEvent({
+    db,
+    orderId,
+    event: {
+      id: `INSTALLMENT_PAID:${orderId}:${installmentNumber}`,
+      type: 'INSTALLMENT_PAID',
+      label: `Installment ${installmentNumber} of ${result.nextPlan.installmentCount} paid`,
+      actor: 'system',
+      visibility: 'both',
+      timestamp: nowTs,
+      meta: { amount: result.installment.amount },
+    },
+    now: nowTs,
+  });
+
+  await resolveActionNotifications(db, buyerId, { type: 'order_installment_due', entityId: orderId });
+
+  if (result.orderData.installmentPlan?.status === 'defaulted') {
+    await createAuditLog(db, {
+      actorUid: buyerId,
+      actorRole: 'buyer',
+      actionType: 'order_installment_plan_reinstated',
+      orderId,
+      listingId: result.orderData.listingId,
+      beforeState: { installmentPlanStatus: 'defaulted' },
+      afterState: { installmentPlanStatus: result.nextPlan.status },
+      metadata: { installmentNumber, checkoutSessionId: session.id },
+      source: 'webhook',
+    });
+  }
+
+  logInfo('Installment payment confirmed', {
+    requestId,
+    route: '/api/stripe/webhook',
+    orderId,
+    installmentNumber,
+    checkoutSessionId: session.id,
+  });
+}
+
 /**
  * Handle checkout.session.async_payment_succeeded
  * Used for asynchronous payment methods (e.g., Stripe bank transfer rails).
@@ -1518,6 +1868,8 @@ export async function handleCheckoutSessionAsyncPaymentSucceeded(
   const now = new Date();
   const disputeWindowHours = parseInt(process.env.DISPUTE_WINDOW_HOURS || '72', 10);
   const disputeDeadline = new Date(now.getTime() + disputeWindowHours * 60 * 60 * 1000);
+  // Deposit terms with a balance due date: the clock starts now that the deposit has cleared.
+  const balanceDueAt = resolveBalanceDueAt(orderData.depositTerms, now);
 
   // SLA tracking: Set fulfillment deadlines (configurable via env, default 7 days)
   const fulfillmentSlaDays = parseInt(process.env.FULFILLMENT_SLA_DAYS || '7', 10);
@@ -1533,6 +1885,7 @@ export async function handleCheckoutSessionAsyncPaymentSucceeded(
       stripePaymentIntentId: paymentIntentId,
       ...(stripeSettlement ? stripeSettlement : {}),
       paidAt: now,
+      ...(balanceDueAt ? { balanceDueAt, balanceDuePending: true } : {}),
       disputeDeadlineAt: disputeDeadline, // For internal enforcement only (does not affect Stripe payout)
       fulfillmentSlaStartedAt,
       fulfillmentSlaDeadlineAt,
@@ -1541,6 +1894,13 @@ export async function handleCheckoutSessionAsyncPaymentSucceeded(
     { merge: true }
   );
 
+  // Animal registry: the payment has cleared, so the animal now belongs to the buyer (best-effort).
+  try {
+    await recordAnimalSale(db as any, { orderId: orderDoc.id, listingId, buyerId, sellerId });
+  } catch {
+    // ignore; best-effort
+  }
+
   // Timeline events (idempotent).
   try {
     await appendOrderTimelineEvent({
@@ -1773,6 +2133,13 @@ export async function handleCheckoutSessionAsyncPaymentFailed(
     { merge: true }
   );
 
+  // Unpaid orders don't move the animal, but older ones did; undo that if so (best-effort).
+  try {
+    await reverseAnimalSale(db as any, { orderId: orderDoc.id, reason: 'payment_failed' });
+  } catch {
+    // ignore; best-effort
+  }
+
   if (listingId) {
     const listingRef = db.collection('listings').doc(String(listingId));
     const reservationRef = listingRef.collection('purchaseReservations').doc(orderDoc.id);
@@ -1851,6 +2218,33 @@ export async function handleCheckoutSessionExpired(
   const listingId = session.metadata?.listingId;
   const orderIdFromMeta = session.metadata?.orderId;
 
+  // Cart checkouts create no orders until payment, so only the group doc needs closing out.
+  const orderGroupId = session.metadata?.orderGroupId;
+  if (orderGroupId && !listingId) {
+    const groupRef = db.collection('orderGroups').doc(String(orderGroupId));
+    const groupSnap = await groupRef.get();
+    if (groupSnap.exists && String((groupSnap.data() as any)?.status || '') === 'pending_payment') {
+      await safeSet(groupRef, { status: 'expired', updatedAt: new Date() }, { merge: true });
+      // Bundle offer checkout: release the session lock so the buyer can start a new checkout
+      // while the offer's acceptance window is still open.
+      const offerId = session.metadata?.offerId;
+      if (offerId) {
+        const offerRef = db.collection('offers').doc(String(offerId));
+        const offerSnap = await offerRef.get();
+        if (offerSnap.exists && (offerSnap.data() as any)?.checkoutSessionId === checkoutSessionId) {
+          await safeSet(offerRef, { checkoutSessionId: null, orderGroupId: null, updatedAt: new Date() }, { merge: true });
+        }
+      }
+    }
+    logInfo('Checkout session expired for order group', {
+      requestId,
+      route: '/api/stripe/webhook',
+      orderGroupId,
+      checkoutSessionId,
+    });
+    return;
+  }
+
   const ordersRef = db.collection('orders');
   let orderDoc: FirebaseFirestore.QueryDocumentSnapshot | null = null;
 
@@ -2045,6 +2439,20 @@ export async function handleWirePaymentIntentSucceeded(
     { merge: true }
   );
 
+  // Animal registry: the wire has landed, so the animal moves to the buyer now (best-effort).
+  if (listingId && orderData?.buyerId && orderData?.sellerId) {
+    try {
+      await recordAnimalSale(db as any, {
+        orderId: orderDoc.id,
+        listingId,
+        buyerId: String(orderData.buyerId),
+        sellerId: String(orderData.sellerId),
+      });
+    } catch {
+      // ignore; best-effort
+    }
+  }
+
   // Timeline events (idempotent).
   try {
     await appendOrderTimelineEvent({
@@ -2306,6 +2714,13 @@ export async function handleWirePaymentIntentCanceled(
     }
   }
 
+  // The bill of sale was generated with the wire instructions; drop it from the animal's history (best-effort).
+  try {
+    await reverseAnimalSale(db as any, { orderId: orderDoc.id, reason: 'cancelled' });
+  } catch {
+    // ignore; best-effort
+  }
+
   logInfo('Wire PI canceled: order cancelled and listing reservation cleared', {
     requestId,
     route: '/api/stripe/webhook',
@@ -21,12 +21,15 @@ import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
 import { containsProhibitedKeywords } from '@/lib/compliance/validation';
 import { formatWireInstructionsFromPaymentIntent } from '@/lib/stripe/wire';
 import { normalizeCategory } from '@/lib/listings/normalizeCategory';
-import { getCategoryRequirements, isTexasOnlyCategory } from '@/lib/compliance/requirements';
+import { getCategoryRequirements } from '@/lib/compliance/requirements';
+import { resolveStateCompliance } from '@/lib/compliance/stateRules';
 import { ensureBillOfSaleForOrder } from '@/lib/orders/billOfSale';
 import { recomputeOrderComplianceDocsStatus } from '@/lib/orders/complianceDocsStatus';
 import { LEGAL_VERSIONS } from '@/lib/legal/versions';
 import { coerceDurationDays, computeEndAt, toMillisSafe } from '@/lib/listings/duration';
 import { isGroupLotQuantityMode } from '@/lib/types';
+import { quoteSalesTax, serializeSalesTaxMetadata, toOrderSalesTax } from '@/lib/tax/salesTax';
+import { getOfferCheckoutListingError, isSecondChanceOfferCheckout } from '@/lib/auctions/secondChance';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -202,6 +205,10 @@ export async function POST(request: Request) {
       if (offerData?.listingId !== listingId) return NextResponse.json({ error: 'Offer does not match listing' }, { status: 400 });
       if (offerData?.buyerId !== buyerId) return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
       if (offerData?.status !== 'accepted') return NextResponse.json({ error: 'Offer is not accepted' }, { status: 400 });
+      if (offerData?.bundle) {
+        // Bundle checkout is card only (one Stripe session across every included listing).
+        return NextResponse.json({ error: 'Bundle offers can only be paid by card', code: 'BUNDLE_OFFER_CHECKOUT' }, { status: 400 });
+      }
       if (listingData?.offerReservedByOfferId && listingData.offerReservedByOfferId !== String(offerId)) {
         return NextResponse.json({ error: 'Listing is reserved by another offer' }, { status: 409 });
       }
@@ -236,7 +243,7 @@ export async function POST(request: Request) {
       );
     }
 
-    if (listingData.status !== 'active') {
+    if (listingData.status !== 'active' && !(offerId && isSecondChanceOfferCheckout(listingData, offerData))) {
       return NextResponse.json({ error: 'Listing is not available for purchase' }, { status: 400 });
     }
 
@@ -248,8 +255,9 @@ export async function POST(request: Request) {
     // Determine purchase amount (server authoritative)
     let purchaseAmountUsd: number;
     if (offerId) {
-      if (listingData.type !== 'fixed' && listingData.type !== 'classified') {
-        return NextResponse.json({ error: 'Offer checkout is only supported for fixed/classified listings' }, { status: 400 });
+      const offerCheckoutError = getOfferCheckoutListingError(listingData, offerData);
+      if (offerCheckoutError) {
+        return NextResponse.json({ error: offerCheckoutError }, { status: 400 });
       }
       const accepted = Number(offerData?.acceptedAmount ?? offerData?.currentAmount);
       if (!Number.isFinite(accepted) || accepted <= 0) {
@@ -294,19 +302,27 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'You cannot purchase your own listing' }, { status: 400 });
     }
 
-    // TX-only enforcement for configured categories (server authoritative)
-    if (isTexasOnlyCategory(listingCategory)) {
-      if (listingData.location?.state !== 'TX') {
-        return NextResponse.json({ error: 'Animal listings must be located in Texas.' }, { status: 400 });
+    // State rules for animal listings (server authoritative; see lib/compliance/stateRules.ts)
+    if (categoryReq.texasOnly) {
+      const listingState = resolveStateCompliance({ category: listingCategory, originState: listingData.location?.state });
+      if (listingState.code === 'LISTING_STATE_NOT_SUPPORTED') {
+        return NextResponse.json({ error: listingState.message, code: listingState.code }, { status: 400 });
       }
       const buyerRef = db.collection('users').doc(buyerId);
       const buyerDoc = await buyerRef.get();
       if (!buyerDoc.exists) return NextResponse.json({ error: 'Buyer profile not found. Please complete your profile.' }, { status: 400 });
       const buyerData = buyerDoc.data()!;
       const buyerState = buyerData.profile?.location?.state;
-      if (!buyerState || buyerState !== 'TX') {
+      const route = resolveStateCompliance({ category: listingCategory, originState: listingData.location?.state, destinationState: buyerState });
+      if (!buyerState || !route.allowed) {
         return NextResponse.json(
-          { error: 'Only Texas residents can purchase animal listings. Please update your profile location to Texas.', code: 'TEXAS_ONLY_REQUIRED' },
+          {
+            error: !buyerState
+              ? 'Please add your state to your profile location before purchasing animal listings.'
+              : `${route.message} Please check your profile location.`,
+            code: route.code || 'BUYER_STATE_NOT_ALLOWED',
+            ...(route.note ? { note: route.note } : {}),
+          },
           { status: 400 }
         );
       }
@@ -364,6 +380,12 @@ export async function POST(request: Request) {
     const platformFeeCents = calculatePlatformFee(amountCents);
     const sellerAmountCents = amountCents - platformFeeCents;
 
+    // Sales tax is added on top of the purchase price and passed through to the seller (no platform fee on tax).
+    const salesTax = toOrderSalesTax(
+      await quoteSalesTax({ category: listingCategory, amountCents, location: listingData.location })
+    );
+    const salesTaxCents = Math.round(salesTax.amount * 100);
+
     // Ensure Stripe Customer exists (required for customer_balance bank transfer instructions).
     // Stored customer id may be stale (e.g. from another Stripe mode or deleted) -> verify and recreate if missing.
     const buyerUserRef = db.collection('users').doc(buyerId);
@@ -414,6 +436,7 @@ export async function POST(request: Request) {
       listingId,
       buyerId,
       amountCents,
+      salesTaxCents,
       stripeCustomerId,
     });
 
@@ -422,7 +445,7 @@ export async function POST(request: Request) {
     
     // STRIPE CONNECT DESTINATION CHARGE: Seller receives funds immediately, platform fee deducted automatically
     const pi = await stripe.paymentIntents.create({
-      amount: amountCents,
+      amount: amountCents + salesTaxCents,
       currency: 'usd',
       customer: stripeCustomerId,
       payment_method_types: ['customer_balance'],
@@ -454,6 +477,7 @@ export async function POST(request: Request) {
         unitPrice: String(purchaseAmountUsd),
         transportOption: String(transportOption),
         paymentType: 'full',
+        salesTax: serializeSalesTaxMetadata(salesTax),
         ...(offerId ? { offerId: String(offerId), acceptedAmount: String(purchaseAmountUsd) } : {}),
       },
     });
@@ -568,6 +592,7 @@ export async function POST(request: Request) {
         amount: amountCents / 100,
         platformFee: platformFeeCents / 100,
         sellerAmount: sellerAmountCents / 100,
+        salesTax,
         quantity: quantityRequested,
         unitPrice: String((listingData as any)?.type || '') === 'fixed' ? purchaseAmountUsd : undefined,
         reservationExpiresAt: reserveUntilTs,
@@ -647,6 +672,10 @@ export async function POST(request: Request) {
       ]);
     };
 
+    // Animal registry: ownership moves when the wire arrives (see handleWirePaymentIntentSucceeded); the bill of
+    // sale just references the listing's animals.
+    const animalIds: string[] = Array.isArray((listingData as any).animalIds) ? (listingData as any).animalIds.map(String) : [];
+
     try {
       const bucket = getStorage().bucket();
       const nowTs = Timestamp.now();
@@ -665,8 +694,10 @@ export async function POST(request: Request) {
           title: String(listingData.title || ''),
           category: listingCategory,
           attributes: (listingData as any).attributes || null,
+          animalIds,
         },
         orderAmountUsd: Number(amountCents / 100),
+        salesTax,
         buyer: {
           uid: buyerId,
           fullName: String(buyerData2?.profile?.displayName || buyerData2?.profile?.name || decodedToken?.name || decodedToken?.email || 'Buyer'),
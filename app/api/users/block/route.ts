@@ -0,0 +1,95 @@
+/**
+ * POST /api/users/block
+ *
+ * Block or unblock another user.
+ * Server-authored doc: users/{viewerUid}/blockedUsers/{userId}
+ * Enforced (both directions) in /api/messages/send, /api/offers/create, /api/offers/bundle and /api/bids/place.
+ */
+
+import { z } from 'zod';
+import { Timestamp } from 'firebase-admin/firestore';
+import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
+
+function json(body: any, init?: { status?: number }) {
+  return new Response(JSON.stringify(body), {
+    status: init?.status ?? 200,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+const schema = z.object({
+  userId: z.string().min(1).max(200),
+  action: z.enum(['block', 'unblock']),
+});
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return json({ ok: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = schema.safeParse(body);
+    if (!parsed.success) {
+      return json({ ok: false, error: 'Invalid request', details: parsed.error.errors }, { status: 400 });
+    }
+
+    const { userId, action } = parsed.data;
+
+    const auth = getAdminAuth();
+    const db = getAdminDb();
+    const token = authHeader.split('Bearer ')[1];
+    let decodedToken;
+    try {
+      decodedToken = await auth.verifyIdToken(token);
+    } catch {
+      return json({ ok: false, error: 'Invalid token' }, { status: 401 });
+    }
+    const viewerUid = decodedToken.uid;
+
+    if (!viewerUid) return json({ ok: false, error: 'Unauthorized' }, { status: 401 });
+    if (userId === viewerUid) {
+      return json({ ok: false, error: 'You cannot block yourself', code: 'SELF_BLOCK' }, { status: 400 });
+    }
+
+    const blockRef = db.collection('users').doc(viewerUid).collection('blockedUsers').doc(userId);
+
+    if (action === 'unblock') {
+      await blockRef.delete();
+      return json({ ok: true, action: 'unblock' });
+    }
+
+    const [existing, targetSnap, targetPublicSnap] = await Promise.all([
+      blockRef.get(),
+      db.collection('users').doc(userId).get(),
+      db.collection('publicProfiles').doc(userId).get(),
+    ]);
+    if (!targetSnap.exists) {
+      return json({ ok: false, error: 'User not found', code: 'USER_NOT_FOUND' }, { status: 404 });
+    }
+    if (existing.exists) {
+      // Idempotent
+      return json({ ok: true, action: 'block', changed: false });
+    }
+
+    const target = targetSnap.data() as any;
+    const pub = targetPublicSnap.exists ? (targetPublicSnap.data() as any) : null;
+    const displayName = String(
+      pub?.displayName || target?.displayName || target?.profile?.businessName || target?.profile?.fullName || 'User'
+    ).trim();
+
+    await blockRef.set({
+      blockedUserId: userId,
+      blockedDisplayName: displayName,
+      blockedAt: Timestamp.now(),
+    });
+
+    return json({ ok: true, action: 'block', changed: true });
+  } catch (e: any) {
+    return json({ ok: false, error: 'Failed to update blocked users', message: e?.message || String(e) }, { status: 500 });
+  }
+}
@@ -26,6 +26,9 @@ import { ScrollToTop } from '@/components/ui/scroll-to-top';
 import { cn } from '@/lib/utils';
 import { formatUserFacingError } from '@/lib/format-user-facing-error';
 import { useToast } from '@/hooks/use-toast';
+import { useAttributeFacetCounts, useAttributeFacetUrlSync } from '@/hooks/use-category-facets';
+import { CategoryFacetPanel } from '@/components/browse/CategoryFacetPanel';
+import { listingMatchesAttributeFacets } from '@/lib/search/categoryFacets';
 
 type SortOption = 'newest' | 'oldest' | 'price-low' | 'price-high' | 'ending-soon' | 'featured';
 type ViewMode = 'card' | 'list';
@@ -44,6 +47,8 @@ export default function CattleLivestockBrowsePage() {
   const [nextCursor, setNextCursor] = useState<BrowseCursor | null>(null);
   const [hasMore, setHasMore] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>('card');
+  useAttributeFacetUrlSync('cattle_livestock', filters, setFilters);
+  const facetCounts = useAttributeFacetCounts('cattle_livestock', selectedType === 'all' ? null : selectedType, filters.attributes);
 
   useEffect(() => {
     if (typeof window !== 'undefined') {
@@ -153,8 +158,12 @@ export default function CattleLivestockBrowsePage() {
       });
     }
 
+    if (filters.attributes) {
+      result = result.filter((listing) => listingMatchesAttributeFacets(listing, filters.attributes));
+    }
+
     return result;
-  }, [listings, debouncedSearchQuery]);
+  }, [listings, debouncedSearchQuery, filters.attributes]);
 
   if (loading && listings.length === 0) {
     return (
@@ -221,6 +230,13 @@ export default function CattleLivestockBrowsePage() {
                 </SelectContent>
               </Select>
             </div>
+            <CategoryFacetPanel
+              category="cattle_livestock"
+              value={filters.attributes}
+              onChange={(attributes) => setFilters((prev) => ({ ...prev, attributes }))}
+              counts={facetCounts}
+              className="mt-4"
+            />
           </CardContent>
         </Card>
 
@@ -23,6 +23,9 @@ import { ScrollToTop } from '@/components/ui/scroll-to-top';
 import { cn } from '@/lib/utils';
 import { formatUserFacingError } from '@/lib/format-user-facing-error';
 import { useToast } from '@/hooks/use-toast';
+import { useAttributeFacetCounts, useAttributeFacetUrlSync } from '@/hooks/use-category-facets';
+import { CategoryFacetPanel } from '@/components/browse/CategoryFacetPanel';
+import { listingMatchesAttributeFacets } from '@/lib/search/categoryFacets';
 
 type SortOption = 'newest' | 'oldest' | 'price-low' | 'price-high' | 'ending-soon' | 'featured';
 type ViewMode = 'card' | 'list';
@@ -41,6 +44,8 @@ export default function FarmAnimalsBrowsePage() {
   const [nextCursor, setNextCursor] = useState<BrowseCursor | null>(null);
   const [hasMore, setHasMore] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>('card');
+  useAttributeFacetUrlSync('farm_animals', filters, setFilters);
+  const facetCounts = useAttributeFacetCounts('farm_animals', selectedType === 'all' ? null : selectedType, filters.attributes);
 
   useEffect(() => {
     if (typeof window !== 'undefined') {
@@ -132,8 +137,12 @@ export default function FarmAnimalsBrowsePage() {
         return titleMatch || descMatch || breedMatch || speciesMatch;
       });
     }
+    if (filters.attributes) {
+      result = result.filter((listing) => listingMatchesAttributeFacets(listing, filters.attributes));
+    }
+
     return result;
-  }, [listings, debouncedSearchQuery]);
+  }, [listings, debouncedSearchQuery, filters.attributes]);
 
   if (loading && listings.length === 0) {
     return (
@@ -198,6 +207,13 @@ export default function FarmAnimalsBrowsePage() {
                 </SelectContent>
               </Select>
             </div>
+            <CategoryFacetPanel
+              category="farm_animals"
+              value={filters.attributes}
+              onChange={(attributes) => setFilters((prev) => ({ ...prev, attributes }))}
+              counts={facetCounts}
+              className="mt-4"
+            />
           </CardContent>
         </Card>
 
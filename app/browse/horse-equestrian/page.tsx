@@ -18,6 +18,9 @@ import { ScrollToTop } from '@/components/ui/scroll-to-top';
 import { cn } from '@/lib/utils';
 import { formatUserFacingError } from '@/lib/format-user-facing-error';
 import { useToast } from '@/hooks/use-toast';
+import { useAttributeFacetCounts, useAttributeFacetUrlSync } from '@/hooks/use-category-facets';
+import { CategoryFacetPanel } from '@/components/browse/CategoryFacetPanel';
+import { listingMatchesAttributeFacets } from '@/lib/search/categoryFacets';
 
 type SortOption = 'newest' | 'oldest' | 'price-low' | 'price-high' | 'ending-soon' | 'featured';
 type ViewMode = 'card' | 'list';
@@ -36,6 +39,8 @@ export default function HorseEquestrianBrowsePage() {
   const [nextCursor, setNextCursor] = useState<BrowseCursor | null>(null);
   const [hasMore, setHasMore] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>('card');
+  useAttributeFacetUrlSync('horse_equestrian', filters, setFilters);
+  const facetCounts = useAttributeFacetCounts('horse_equestrian', selectedType === 'all' ? null : selectedType, filters.attributes);
 
   useEffect(() => {
     if (typeof window !== 'undefined') {
@@ -131,8 +136,12 @@ export default function HorseEquestrianBrowsePage() {
         return titleMatch || descMatch || idMatch;
       });
     }
+    if (filters.attributes) {
+      result = result.filter((listing) => listingMatchesAttributeFacets(listing, filters.attributes));
+    }
+
     return result;
-  }, [listings, debouncedSearchQuery]);
+  }, [listings, debouncedSearchQuery, filters.attributes]);
 
   if (loading && listings.length === 0) {
     return (
@@ -208,6 +217,13 @@ export default function HorseEquestrianBrowsePage() {
                 </SelectContent>
               </Select>
             </div>
+            <CategoryFacetPanel
+              category="horse_equestrian"
+              value={filters.attributes}
+              onChange={(attributes) => setFilters((prev) => ({ ...prev, attributes }))}
+              counts={facetCounts}
+              className="mt-4"
+            />
           </CardContent>
         </Card>
 
@@ -12,11 +12,14 @@ import { FeaturedListingCard } from '@/components/listings/FeaturedListingCard';
 import { ListItem } from '@/components/listings/ListItem';
 import { SkeletonListingGrid } from '@/components/skeletons/SkeletonCard';
 import { queryListingsForBrowse, BrowseCursor, BrowseFilters, BrowseSort } from '@/lib/firebase/listings';
-import { ListingType, Listing } from '@/lib/types';
+import { FilterState, ListingType, Listing } from '@/lib/types';
 import { ScrollToTop } from '@/components/ui/scroll-to-top';
 import { cn } from '@/lib/utils';
 import { formatUserFacingError } from '@/lib/format-user-facing-error';
 import { useToast } from '@/hooks/use-toast';
+import { useAttributeFacetCounts, useAttributeFacetUrlSync } from '@/hooks/use-category-facets';
+import { CategoryFacetPanel } from '@/components/browse/CategoryFacetPanel';
+import { listingMatchesAttributeFacets } from '@/lib/search/categoryFacets';
 
 type SortOption = 'newest' | 'oldest' | 'price-low' | 'price-high' | 'ending-soon' | 'featured';
 type ViewMode = 'card' | 'list';
@@ -25,6 +28,7 @@ export default function HuntingOutfitterAssetsBrowsePage() {
   const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState('');
   const debouncedSearchQuery = useDebounce(searchQuery, 300);
+  const [filters, setFilters] = useState<FilterState>({});
   const [selectedType, setSelectedType] = useState<ListingType | 'all'>('all');
   const [sortBy, setSortBy] = useState<SortOption>('newest');
   const [listings, setListings] = useState<Listing[]>([]);
@@ -34,6 +38,8 @@ export default function HuntingOutfitterAssetsBrowsePage() {
   const [nextCursor, setNextCursor] = useState<BrowseCursor | null>(null);
   const [hasMore, setHasMore] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>('card');
+  useAttributeFacetUrlSync('hunting_outfitter_assets', filters, setFilters);
+  const facetCounts = useAttributeFacetCounts('hunting_outfitter_assets', selectedType === 'all' ? null : selectedType, filters.attributes);
 
   useEffect(() => {
     if (typeof window !== 'undefined') {
@@ -128,8 +134,12 @@ export default function HuntingOutfitterAssetsBrowsePage() {
         return titleMatch || descMatch || typeMatch || makeMatch || modelMatch;
       });
     }
+    if (filters.attributes) {
+      result = result.filter((listing) => listingMatchesAttributeFacets(listing, filters.attributes));
+    }
+
     return result;
-  }, [listings, debouncedSearchQuery]);
+  }, [listings, debouncedSearchQuery, filters.attributes]);
 
   if (loading && listings.length === 0) {
     return (
@@ -192,6 +202,13 @@ export default function HuntingOutfitterAssetsBrowsePage() {
                 </SelectContent>
               </Select>
             </div>
+            <CategoryFacetPanel
+              category="hunting_outfitter_assets"
+              value={filters.attributes}
+              onChange={(attributes) => setFilters((prev) => ({ ...prev, attributes }))}
+              counts={facetCounts}
+              className="mt-4"
+            />
           </CardContent>
         </Card>
 
@@ -27,6 +27,17 @@ import { FilterBottomSheet } from '@/components/navigation/FilterBottomSheet';
 import { MobileBrowseFilterSheet } from '@/components/navigation/MobileBrowseFilterSheet';
 import { Badge } from '@/components/ui/badge';
 import { queryListingsForBrowse, getDistinctListingStates, BrowseCursor, BrowseFilters, BrowseSort } from '@/lib/firebase/listings';
+import { searchListingsNearbyServer, searchListingsServer, type ListingSearchSort, type NearbyListingSort } from '@/lib/api/listingSearch';
+import { getAddresses } from '@/lib/firebase/addresses';
+import { distanceMiles, isValidLatLng, MAX_SEARCH_RADIUS_MILES, type LatLng } from '@/lib/geo/geohash';
+import { listingMatchesFilters } from '@/lib/search/listingFilters';
+import {
+  attributeFacetsFromSearchParams,
+  getCategoryAttributeFacets,
+  getFacetOptionLabel,
+  setAttributeFacetSearchParams,
+} from '@/lib/search/categoryFacets';
+import { useAttributeFacetCounts } from '@/hooks/use-category-facets';
 import { FilterState, ListingType, Listing } from '@/lib/types';
 import { FLAGS } from '@/lib/featureFlags';
 import { getBrowseCacheEntry, setBrowseCache } from '@/lib/browseCache';
@@ -64,6 +75,8 @@ type SortOption = 'newest' | 'oldest' | 'price-low' | 'price-high' | 'ending-soo
 
 type ViewMode = 'card' | 'list';
 
+const SEARCH_PAGE_SIZE = 24;
+
 function getSortChipLabel(sortBy: SortOption, listingStatus: 'active' | 'completed' | 'sold'): string {
   switch (sortBy) {
     case 'newest': return listingStatus === 'sold' ? 'Recently sold' : 'Newest';
@@ -159,6 +172,12 @@ export default function BrowsePage() {
   const [error, setError] = useState<string | null>(null);
   const showSkeleton = useMinLoading(!loading, 300);
   const [nextCursor, setNextCursor] = useState<BrowseCursor | null>(null);
+  // Keyword and near-me searches page through /api/listings/search|nearby with an opaque string cursor instead.
+  const [searchCursor, setSearchCursor] = useState<string | null>(null);
+  // Resolved center of the near-me search (ZIP geocoded server-side); drives per-card distance.
+  const [nearCenter, setNearCenter] = useState<LatLng | null>(null);
+  // Buyer's default saved address; used for "Seller delivers to me" and distance when no near-me search is active.
+  const [buyerLocation, setBuyerLocation] = useState<LatLng | null>(null);
   const [hasMore, setHasMore] = useState(false);
   const isInitialLoadRef = useRef(true);
   const lastRevalidatedKeyRef = useRef<string | null>(null);
@@ -263,26 +282,52 @@ export default function BrowsePage() {
       }
       if (state) next.location = { ...(next.location || {}), state };
       if (speciesId) next.species = [speciesId];
+      const attributes = next.category ? attributeFacetsFromSearchParams(searchParams, next.category) : undefined;
+      if (attributes) next.attributes = attributes;
       return next;
     });
     urlReadRef.current = true;
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [searchParams]);
 
+  useEffect(() => {
+    if (!user?.uid) {
+      setBuyerLocation(null);
+      return;
+    }
+    let cancelled = false;
+    getAddresses(user.uid)
+      .then((addresses) => {
+        if (cancelled) return;
+        const addr = addresses.find((a) => a.isDefault) ?? addresses[0];
+        const point = addr ? { lat: addr.lat, lng: addr.lng } : null;
+        setBuyerLocation(isValidLatLng(point) ? point : null);
+      })
+      .catch(() => {
+        if (!cancelled) setBuyerLocation(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.uid]);
+
+  // "Seller delivers to me" is filtered server-side so pages come back full. Without a keyword or near-me search
+  // it pages through /api/listings/nearby around the buyer's address.
+  const deliversTo = useMemo(() => (filters.deliversToMe ? buyerLocation : null), [filters.deliversToMe, buyerLocation]);
+
   // Phase 2B: deterministic cache key — must change when any input that affects results changes
   const cacheKey = useMemo(() => {
-    if (!FLAGS.browseCache) return '';
     const q = debouncedSearchQuery?.trim() || '';
-    const limit = q ? 120 : 20;
+    // Keyword/near-me searches page with a server cursor that the browse cache can't hold; skip caching them.
+    if (!FLAGS.browseCache || q || filters.near || deliversTo) return '';
     return 'browse:' + stableStringify({
       listingStatus,
       selectedType,
       filters,
       sortBy,
-      searchQuery: q,
-      limit,
+      limit: 20,
     });
-  }, [listingStatus, selectedType, filters, sortBy, debouncedSearchQuery]);
+  }, [listingStatus, selectedType, filters, sortBy, debouncedSearchQuery, deliversTo]);
 
   // eBay-style: sync browse state to URL so back/forward and sharing work
   useEffect(() => {
@@ -295,6 +340,7 @@ export default function BrowsePage() {
     if (filters.category) params.set('category', filters.category);
     if (filters.location?.state) params.set('state', filters.location.state);
     if (filters.species?.[0]) params.set('speciesId', filters.species[0]);
+    setAttributeFacetSearchParams(params, filters.attributes);
     const query = params.toString();
     const url = query ? `${pathname ?? '/browse'}?${query}` : (pathname ?? '/browse');
     router.replace(url, { scroll: false });
@@ -325,6 +371,8 @@ export default function BrowsePage() {
       ...(filters || {}),
       ...(selectedType !== 'all' ? { type: selectedType as any } : {}),
       ...(q ? { query: q } : {}),
+      // Alerts match new listings against coordinates, so persist the geocoded center alongside the ZIP.
+      ...(filters.near && nearCenter ? { near: { ...filters.near, lat: nearCenter.lat, lng: nearCenter.lng } } : {}),
     };
 
     const summary: Array<{ label: string; value: string }> = [];
@@ -332,6 +380,14 @@ export default function BrowsePage() {
     if (selectedType !== 'all') summary.push({ label: 'Type', value: String(selectedType) });
     if (filters.category) summary.push({ label: 'Category', value: String(filters.category) });
     if (filters.location?.state) summary.push({ label: 'State', value: String(filters.location.state) });
+    if (filters.near) {
+      summary.push({ label: 'Near', value: `Within ${filters.near.radiusMiles} mi${filters.near.zip ? ` of ${filters.near.zip}` : ''}` });
+    }
+    if (filters.deliversToMe) summary.push({ label: 'Seller delivers to me', value: 'Yes' });
+    for (const def of getCategoryAttributeFacets(filters.category)) {
+      const values = filters.attributes?.[def.field];
+      if (values?.length) summary.push({ label: def.label, value: values.map((v) => getFacetOptionLabel(def, v)).join(', ') });
+    }
     if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
       const min = filters.minPrice !== undefined ? `$${Number(filters.minPrice).toLocaleString()}` : 'Any';
       const max = filters.maxPrice !== undefined ? `$${Number(filters.maxPrice).toLocaleString()}` : 'Any';
@@ -502,6 +558,32 @@ export default function BrowsePage() {
     }
   };
   
+  // Keyword search: "newest"/"featured" (the defaults) rank by relevance; explicit sorts are honored.
+  const getSearchSort = (): ListingSearchSort => {
+    const s = getBrowseSort();
+    return sortBy === 'newest' || sortBy === 'featured' ? 'relevance' : s;
+  };
+
+  // Near-me search: the defaults sort nearest-first; explicit sorts are honored.
+  const getNearbySort = (): NearbyListingSort => {
+    const s = getBrowseSort();
+    return sortBy === 'newest' || sortBy === 'featured' || s === 'oldest' ? 'distance' : s;
+  };
+
+  const searchNearby = (cursor?: string | null) =>
+    searchListingsNearbyServer({
+      zip: filters.near?.zip,
+      lat: filters.near ? filters.near.lat : deliversTo?.lat,
+      lng: filters.near ? filters.near.lng : deliversTo?.lng,
+      radiusMiles: filters.near ? filters.near.radiusMiles ?? 50 : MAX_SEARCH_RADIUS_MILES,
+      q: debouncedSearchQuery?.trim() || undefined,
+      filters: getBrowseFilters(),
+      sort: getNearbySort(),
+      limit: SEARCH_PAGE_SIZE,
+      cursor,
+      deliversTo,
+    });
+
   // Load initial page (resets pagination).
   // When isRefetch (we already have listings): keep them visible, don't clear — avoids glitchy swap to skeleton.
   // When cacheKey is provided and FLAGS.browseCache, updates cache on success (for revalidate or cold load).
@@ -512,6 +594,7 @@ export default function BrowsePage() {
       if (!isRefetch) {
         setListings([]);
         setNextCursor(null);
+        setSearchCursor(null);
         setHasMore(false);
       }
 
@@ -519,7 +602,31 @@ export default function BrowsePage() {
       const browseSort = getBrowseSort();
 
       const q = debouncedSearchQuery?.trim() || '';
-      const limitCount = q ? 120 : 20;
+      if (filters.near || (deliversTo && !q)) {
+        const nearbyResult = await searchNearby();
+        setListings(nearbyResult.items);
+        setNearCenter(nearbyResult.center);
+        setNextCursor(null);
+        setSearchCursor(nearbyResult.nextCursor);
+        setHasMore(nearbyResult.hasMore);
+        return;
+      }
+      setNearCenter(null);
+      if (q) {
+        const searchResult = await searchListingsServer({
+          q,
+          filters: browseFilters,
+          sort: getSearchSort(),
+          limit: SEARCH_PAGE_SIZE,
+          deliversTo,
+        });
+        setListings(searchResult.items);
+        setNextCursor(null);
+        setSearchCursor(searchResult.nextCursor);
+        setHasMore(searchResult.hasMore);
+        return;
+      }
+      const limitCount = 20;
 
       const result = await queryListingsForBrowse({
         limit: limitCount,
@@ -557,19 +664,40 @@ export default function BrowsePage() {
   
   // Load more (pagination)
   const loadMore = async () => {
-    if (!nextCursor || loadingMore) return;
+    const q = debouncedSearchQuery?.trim() || '';
+    if (loadingMore || (q || filters.near || deliversTo ? !searchCursor : !nextCursor)) return;
 
     try {
       setLoadingMore(true);
 
       const browseFilters = getBrowseFilters();
       const browseSort = getBrowseSort();
-      const q = debouncedSearchQuery?.trim() || '';
-      const limitCount = q ? 120 : 20;
+      if (filters.near || (deliversTo && !q)) {
+        const nearbyResult = await searchNearby(searchCursor);
+        setListings((prev) => [...prev, ...nearbyResult.items]);
+        setSearchCursor(nearbyResult.nextCursor);
+        setHasMore(nearbyResult.hasMore);
+        return;
+      }
+      if (q) {
+        const searchResult = await searchListingsServer({
+          q,
+          filters: browseFilters,
+          sort: getSearchSort(),
+          limit: SEARCH_PAGE_SIZE,
+          cursor: searchCursor,
+          deliversTo,
+        });
+        setListings((prev) => [...prev, ...searchResult.items]);
+        setSearchCursor(searchResult.nextCursor);
+        setHasMore(searchResult.hasMore);
+        return;
+      }
+      const limitCount = 20;
 
       const result = await queryListingsForBrowse({
         limit: limitCount,
-        cursor: nextCursor,
+        cursor: nextCursor ?? undefined,
         filters: browseFilters,
         sort: browseSort,
       });
@@ -631,7 +759,7 @@ export default function BrowsePage() {
     }
     loadInitial(listings.length > 0);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedType, filters, sortBy, listingStatus, debouncedSearchQuery, cacheKey]);
+  }, [selectedType, filters, sortBy, listingStatus, debouncedSearchQuery, cacheKey, deliversTo]);
 
   // Animals don't use "condition" on Browse; only equipment-like categories do.
   // If the user switches away, clear any stale condition selection so results don't look broken.
@@ -647,8 +775,24 @@ export default function BrowsePage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [filters.category]);
 
+  // Attribute facets are per category: drop selections on fields the current category doesn't facet.
+  useEffect(() => {
+    if (!filters.attributes) return;
+    const fields = new Set(getCategoryAttributeFacets(filters.category).map((d) => d.field));
+    const kept = Object.fromEntries(Object.entries(filters.attributes).filter(([field]) => fields.has(field)));
+    if (Object.keys(kept).length === Object.keys(filters.attributes).length) return;
+    setFilters((p) => ({ ...(p || {}), attributes: Object.keys(kept).length ? kept : undefined }));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filters.category]);
+
+  const facetCounts = useAttributeFacetCounts(
+    filters.category,
+    selectedType === 'all' ? null : selectedType,
+    filters.attributes
+  );
+
   // Client-side filtering for fields not supported by Firestore
-  // (Full-text search, city-level location, metadata fields, etc.)
+  // (city-level location, attribute/metadata fields, time windows, delivery radius, etc.)
   const filteredListings = useMemo(() => {
     let result = [...listings];
 
@@ -670,154 +814,24 @@ export default function BrowsePage() {
       });
     }
 
-    // Full-text search (client-side only - Firestore doesn't support full-text search)
-    if (debouncedSearchQuery) {
-      const query = debouncedSearchQuery.toLowerCase();
-      result = result.filter((listing) => {
-        // Search in title, description, location
-        const basicMatch = 
-          listing.title.toLowerCase().includes(query) ||
-          listing.description.toLowerCase().includes(query) ||
-          listing.location?.city?.toLowerCase().includes(query) ||
-          listing.location?.state?.toLowerCase().includes(query);
-        
-        // Search in attributes (species, breed, equipmentType, etc.)
-        const attributesMatch = listing.attributes
-          ? (
-              String((listing.attributes as any).speciesId || '').toLowerCase().includes(query) ||
-              (listing.attributes as any).breed?.toLowerCase().includes(query) ||
-              (listing.attributes as any).equipmentType?.toLowerCase().includes(query) ||
-              (listing.attributes as any).make?.toLowerCase().includes(query) ||
-              (listing.attributes as any).model?.toLowerCase().includes(query) ||
-              listing.category.toLowerCase().includes(query)
-            )
-          : false;
-        
-        return basicMatch || attributesMatch;
-      });
-    }
-
-    // City-level location filter (client-side - Firestore only supports state)
-    if (filters.location?.city) {
-      result = result.filter((listing) => listing.location?.city === filters.location?.city);
-    }
-
-    // Client-side minPrice filter (when not using price sort)
-    if (filters.minPrice !== undefined && sortBy !== 'price-low' && sortBy !== 'price-high') {
-      result = result.filter((listing) => {
-        const price = listing.price || listing.currentBid || listing.startingBid || 0;
-        return price >= filters.minPrice!;
-      });
-    }
-
-    // Species/Breed filter (client-side - attributes not indexed)
-    if (filters.species && filters.species.length > 0) {
-      result = result.filter((listing) =>
-        filters.species!.some((species) => {
-          if (listing.attributes) {
-            const attrs = listing.attributes as any;
-            const token = species.toLowerCase();
-            const speciesId = String(attrs.speciesId || '').toLowerCase();
-            const breed = String(attrs.breed || '').toLowerCase();
-            const equipmentType = String(attrs.equipmentType || '').toLowerCase();
-            return speciesId === token || speciesId.includes(token) || breed.includes(token) || equipmentType.includes(token);
-          }
-          return false;
-        })
-      );
-    }
-
-    // Quantity filter (client-side - attributes not indexed)
-    if (filters.quantity) {
-      result = result.filter((listing) => {
-        const qty = listing.attributes && 'quantity' in listing.attributes 
-          ? (listing.attributes as any).quantity || 1
-          : 1;
-        switch (filters.quantity) {
-          case 'single':
-            return qty === 1;
-          case 'pair':
-            return qty >= 2 && qty <= 5;
-          case 'small-group':
-            return qty >= 6 && qty <= 10;
-          case 'large-group':
-            return qty >= 11;
-          case 'lot':
-            return qty > 20;
-          default:
-            return true;
-        }
-      });
-    }
-
-    // Condition / health status filter (client-side - attributes not indexed)
-    if (filters.healthStatus && filters.healthStatus.length > 0) {
-      result = result.filter((listing) =>
-        filters.healthStatus!.some((status) => {
-          if (listing.attributes) {
-            const attrs = listing.attributes as any;
-            // Equipment-like categories use `attributes.condition` (enum).
-            if (
-              listing.category === 'ranch_equipment' ||
-              listing.category === 'ranch_vehicles' ||
-              listing.category === 'hunting_outfitter_assets'
-            ) {
-              return String(attrs.condition || '').toLowerCase() === String(status || '').toLowerCase();
-            }
-            // Animals: legacy "health notes include" matching (but UI no longer exposes this on Browse).
-            return attrs.healthNotes?.toLowerCase().includes(String(status).toLowerCase());
-          }
-          return false;
-        })
-      );
-    }
-
-    // Papers filter (client-side - attributes not indexed)
-    if (filters.papers !== undefined) {
-      result = result.filter((listing) => {
-        if (listing.attributes && 'registered' in listing.attributes) {
-          return (listing.attributes as any).registered === filters.papers;
-        }
-        return false;
-      });
-    }
-
-    // Verified seller filter (client-side - nested field not indexed)
-    if (filters.verifiedSeller) {
-      result = result.filter((listing) => listing.sellerSnapshot?.verified || listing.trust?.verified);
-    }
-
-    // Transport ready filter (client-side - nested field not indexed)
-    if (filters.transportReady) {
-      result = result.filter((listing) => listing.trust?.transportReady);
-    }
-
-    // Ending soon filter (client-side - time-based calculation)
-    if (filters.endingSoon) {
-      const now = Date.now();
-      const dayInMs = 24 * 60 * 60 * 1000;
-      result = result.filter((listing) => {
-        if (listing.type !== 'auction' || !listing.endsAt) return false;
-        const endsAtMs = toMillisSafe((listing as any).endsAt);
-        if (!endsAtMs) return false;
-        const timeLeft = endsAtMs - now;
-        return timeLeft > 0 && timeLeft <= dayInMs;
-      });
-    }
-
-    // Newly listed filter (client-side - time-based calculation)
-    if (filters.newlyListed) {
-      const now = Date.now();
-      const weekInMs = 7 * 24 * 60 * 60 * 1000;
-      result = result.filter((listing) => {
-        const listedTime = toMillisSafe((listing as any).createdAt) || 0;
-        const timeSinceListing = now - listedTime;
-        return timeSinceListing <= weekInMs;
-      });
-    }
+    // Keyword matching happens server-side (/api/listings/search); results arrive already filtered + ranked.
+    // Everything else in `filters` goes through the same evaluator saved-search alerts use.
+    const nowMs = Date.now();
+    result = result.filter((listing) => listingMatchesFilters(listing, filters, { nowMs, buyerLocation }));
 
     return result;
-  }, [listings, debouncedSearchQuery, filters, sortBy]);
+  }, [listings, listingStatus, filters, buyerLocation]);
+
+  // Per-card "N mi" label: from the near-me center when searching by ZIP, else from the buyer's saved address.
+  const distanceOrigin = (filters.near ? nearCenter : null) ?? buyerLocation;
+  const listingDistances = useMemo(() => {
+    const out = new Map<string, number>();
+    if (!distanceOrigin) return out;
+    for (const l of listings) {
+      if (isValidLatLng(l.geo)) out.set(l.id, distanceMiles(distanceOrigin, l.geo));
+    }
+    return out;
+  }, [listings, distanceOrigin]);
 
   // Client-side sorting only for 'featured' (server handles others)
   const sortedListings = useMemo(() => {
@@ -880,10 +894,13 @@ export default function BrowsePage() {
     if (searchQuery) count++;
     if (filters.category) count++;
     if (filters.location?.state || filters.location?.city) count++;
+    if (filters.near) count++;
+    if (filters.deliversToMe) count++;
     if (filters.minPrice !== undefined || filters.maxPrice !== undefined) count++;
     if (filters.species && filters.species.length > 0) count++;
     if (filters.quantity) count++;
     if (filters.healthStatus && filters.healthStatus.length > 0) count++;
+    if (filters.attributes) count += Object.values(filters.attributes).filter((v) => v?.length).length;
     if (filters.papers !== undefined) count++;
     if (filters.verifiedSeller) count++;
     if (filters.transportReady) count++;
@@ -1129,6 +1146,7 @@ export default function BrowsePage() {
                     }}
                     onFiltersChange={handleFilterChange}
                     listingStates={listingStates}
+                    facetCounts={facetCounts}
                     className="flex-shrink-0 h-8 px-2.5 rounded-full text-xs font-semibold gap-1.5 bg-muted border-border text-foreground hover:bg-muted/80 dark:bg-white/15 dark:border-white/30 dark:text-white dark:hover:bg-white/25"
                   />
 
@@ -1471,7 +1489,13 @@ export default function BrowsePage() {
           {/* Desktop filter rail: scrollable when tall; overscroll-contain prevents scroll chaining to page */}
           <aside className="hidden lg:block self-start">
             <div className="sticky top-[104px] max-h-[calc(100vh-104px)] overflow-y-auto overflow-x-hidden overscroll-contain min-h-0 pr-1 -mr-1 we-scrollbar-hover [scrollbar-gutter:stable]">
-              <BrowseFiltersSidebar value={filters} onChange={handleFilterChange} onClearAll={clearFilters} listingStates={listingStates} />
+              <BrowseFiltersSidebar
+                value={filters}
+                onChange={handleFilterChange}
+                onClearAll={clearFilters}
+                listingStates={listingStates}
+                facetCounts={facetCounts}
+              />
             </div>
           </aside>
 
@@ -1677,7 +1701,7 @@ export default function BrowsePage() {
                   <div className="md:hidden space-y-3">
                     <AnimatePresence>
                       {sortedListings.map((listing) => (
-                        <ListItem key={listing.id} listing={listing} variant="browseMobile" />
+                        <ListItem key={listing.id} listing={listing} variant="browseMobile" distanceMiles={listingDistances.get(listing.id)} />
                       ))}
                     </AnimatePresence>
                   </div>
@@ -1694,7 +1718,7 @@ export default function BrowsePage() {
                               </div>
                             ) : (
                               <div key={listing.id} className="min-w-0 min-h-0 flex">
-                                <ListingCard listing={listing} fixedImageAspect={4 / 3} className="w-full" />
+                                <ListingCard listing={listing} fixedImageAspect={4 / 3} className="w-full" distanceMiles={listingDistances.get(listing.id)} />
                               </div>
                             )
                           )}
@@ -1705,7 +1729,7 @@ export default function BrowsePage() {
                     <div className="hidden md:block w-full space-y-4">
                       <AnimatePresence>
                         {sortedListings.map((listing) => (
-                          <ListItem key={listing.id} listing={listing} />
+                          <ListItem key={listing.id} listing={listing} distanceMiles={listingDistances.get(listing.id)} />
                         ))}
                       </AnimatePresence>
                     </div>
@@ -13,11 +13,14 @@ import { ListItem } from '@/components/listings/ListItem';
 import { SkeletonListingGrid } from '@/components/skeletons/SkeletonCard';
 import { Badge } from '@/components/ui/badge';
 import { queryListingsForBrowse, BrowseCursor, BrowseFilters, BrowseSort } from '@/lib/firebase/listings';
-import { ListingType, Listing } from '@/lib/types';
+import { FilterState, ListingType, Listing } from '@/lib/types';
 import { ScrollToTop } from '@/components/ui/scroll-to-top';
 import { cn } from '@/lib/utils';
 import { formatUserFacingError } from '@/lib/format-user-facing-error';
 import { useToast } from '@/hooks/use-toast';
+import { useAttributeFacetCounts, useAttributeFacetUrlSync } from '@/hooks/use-category-facets';
+import { CategoryFacetPanel } from '@/components/browse/CategoryFacetPanel';
+import { listingMatchesAttributeFacets } from '@/lib/search/categoryFacets';
 
 type SortOption = 'newest' | 'oldest' | 'price-low' | 'price-high' | 'ending-soon' | 'featured';
 type ViewMode = 'card' | 'list';
@@ -26,6 +29,7 @@ export default function SportingWorkingDogsBrowsePage() {
   const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState('');
   const debouncedSearchQuery = useDebounce(searchQuery, 300);
+  const [filters, setFilters] = useState<FilterState>({});
   const [selectedType, setSelectedType] = useState<ListingType | 'all'>('all');
   const [sortBy, setSortBy] = useState<SortOption>('newest');
   const [listings, setListings] = useState<Listing[]>([]);
@@ -35,6 +39,8 @@ export default function SportingWorkingDogsBrowsePage() {
   const [nextCursor, setNextCursor] = useState<BrowseCursor | null>(null);
   const [hasMore, setHasMore] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>('card');
+  useAttributeFacetUrlSync('sporting_working_dogs', filters, setFilters);
+  const facetCounts = useAttributeFacetCounts('sporting_working_dogs', selectedType === 'all' ? null : selectedType, filters.attributes);
 
   useEffect(() => {
     if (typeof window !== 'undefined') {
@@ -134,8 +140,12 @@ export default function SportingWorkingDogsBrowsePage() {
         return titleMatch || descMatch || breedTrainingMatch;
       });
     }
+    if (filters.attributes) {
+      result = result.filter((listing) => listingMatchesAttributeFacets(listing, filters.attributes));
+    }
+
     return result;
-  }, [listings, debouncedSearchQuery, isDogListing]);
+  }, [listings, debouncedSearchQuery, isDogListing, filters.attributes]);
 
   if (loading && listings.length === 0) {
     return (
@@ -198,6 +208,13 @@ export default function SportingWorkingDogsBrowsePage() {
                 </SelectContent>
               </Select>
             </div>
+            <CategoryFacetPanel
+              category="sporting_working_dogs"
+              value={filters.attributes}
+              onChange={(attributes) => setFilters((prev) => ({ ...prev, attributes }))}
+              counts={facetCounts}
+              className="mt-4"
+            />
           </CardContent>
         </Card>
 
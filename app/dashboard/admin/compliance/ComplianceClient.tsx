@@ -58,6 +58,8 @@ import { formatCurrency } from '@/lib/utils';
 import { formatUserFacingError } from '@/lib/format-user-facing-error';
 import { ComplianceDocument } from '@/lib/types';
 import { getPermitExpirationStatus } from '@/lib/compliance/validation';
+import { documentFieldsFormFromDocument, type DocumentFieldsForm } from '@/lib/compliance/extraction/fields';
+import { DocumentExtractionPanel } from '@/components/compliance/DocumentExtractionPanel';
 import { subscribeToUnreadCountByType, markNotificationsAsReadByType } from '@/lib/firebase/notifications';
 
 type TabType = 'listings' | 'orders' | 'breeder_permits' | 'payout_holds';
@@ -93,6 +95,10 @@ type HoldRow = {
 
 const HOLD_REASONS = [
   'MISSING_TAHC_CVI',
+  'MISSING_BRAND_INSPECTION',
+  'MISSING_COGGINS_TEST',
+  'MISSING_TB_TEST',
+  'MISSING_BRUCELLOSIS_TEST',
   'EXOTIC_CERVID_REVIEW_REQUIRED',
   'ESA_REVIEW_REQUIRED',
   'OTHER_EXOTIC_REVIEW_REQUIRED',
@@ -155,6 +161,7 @@ export default function ComplianceClient() {
   const [verifyDocDialogOpen, setVerifyDocDialogOpen] = useState(false);
   const [selectedDoc, setSelectedDoc] = useState<ComplianceDocument | null>(null);
   const [docRejectionReason, setDocRejectionReason] = useState('');
+  const [docFieldsForm, setDocFieldsForm] = useState<DocumentFieldsForm>(() => documentFieldsFormFromDocument(null));
   const [viewingDocUrl, setViewingDocUrl] = useState<string | null>(null);
   const [quickVerifyDocId, setQuickVerifyDocId] = useState<string | null>(null);
   const [listingDocsMap, setListingDocsMap] = useState<Record<string, ComplianceDocument[]>>({});
@@ -579,6 +586,7 @@ export default function ComplianceClient() {
             documentId,
             status,
             rejectionReason: status === 'rejected' ? docRejectionReason : undefined,
+            fields: status === 'verified' ? docFieldsForm : undefined,
           }),
         }
       );
@@ -618,6 +626,11 @@ export default function ComplianceClient() {
     }
   };
 
+  // Prefill the verification fields from the document (or its extraction) whenever a document is opened.
+  useEffect(() => {
+    setDocFieldsForm(documentFieldsFormFromDocument(selectedDoc));
+  }, [selectedDoc]);
+
   const openReviewDialog = async (listing: Listing) => {
     setSelectedListing(listing);
     await loadListingDocuments(listing.id);
@@ -875,7 +888,9 @@ export default function ComplianceClient() {
                             </div>
 
                             {/* Internal Admin Flags (guardrails only) */}
-                            {(listing.internalFlags?.duplicatePermitNumber || listing.internalFlags?.duplicateFacilityId) && (
+                            {(listing.internalFlags?.duplicatePermitNumber ||
+                              listing.internalFlags?.duplicateFacilityId ||
+                              listing.internalFlags?.animalOwnerMismatch) && (
                               <div className="p-3 rounded-lg border border-orange-200 bg-orange-50">
                                 <p className="text-sm font-semibold text-orange-900 mb-1">Internal Flags</p>
                                 <div className="space-y-1 text-xs text-orange-900">
@@ -891,6 +906,12 @@ export default function ComplianceClient() {
                                       {listing.internalFlagsNotes?.duplicateFacilityId || 'Flagged'}
                                     </p>
                                   )}
+                                  {listing.internalFlags?.animalOwnerMismatch && (
+                                    <p>
+                                      <span className="font-semibold">Animal Owner Mismatch:</span>{' '}
+                                      {listing.internalFlagsNotes?.animalOwnerMismatch || 'Flagged'}
+                                    </p>
+                                  )}
                                 </div>
                                 <p className="text-[11px] text-orange-800 mt-2">
                                   Flags do not block approval automatically. Review for suspicious reuse.
@@ -1976,6 +1997,14 @@ export default function ComplianceClient() {
                 )}
               </div>
 
+              {/* Extracted fields (confidence + diff vs listing) and the fields saved on verify */}
+              <DocumentExtractionPanel
+                document={selectedDoc}
+                value={docFieldsForm}
+                onChange={setDocFieldsForm}
+                disabled={processingId === selectedDoc.id}
+              />
+
               {/* Permit Number Comparison for TPWD Breeder Permit */}
               {selectedDoc.type === 'TPWD_BREEDER_PERMIT' && activeTab === 'listings' && selectedListing && (
                 <Alert className="bg-blue-50 border-blue-200">
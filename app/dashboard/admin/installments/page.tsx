@@ -0,0 +1,229 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useAdmin } from '@/hooks/use-admin';
+import { useAuth } from '@/hooks/use-auth';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { DashboardContentSkeleton } from '@/components/skeletons/DashboardContentSkeleton';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, CalendarClock } from 'lucide-react';
+import { format } from 'date-fns';
+import type { InstallmentRiskLevel } from '@/lib/pricing/installments';
+
+type AdminInstallmentPlan = {
+  orderId: string;
+  listingId: string | null;
+  listingTitle: string | null;
+  buyerId: string | null;
+  sellerId: string | null;
+  transactionStatus: string | null;
+  orderTotal: number | null;
+  installmentCount: number;
+  intervalDays: number;
+  planStatus: 'active' | 'defaulted';
+  defaultedAt: string | null;
+  riskLevel: InstallmentRiskLevel;
+  daysOverdue: number;
+  paidCount: number;
+  paidAmount: number;
+  remainingAmount: number;
+  nextInstallment: { number: number; amount: number; dueAt: string | null } | null;
+};
+
+type Summary = { open: number; defaulted: number; overdue: number; remainingAtRisk: number };
+
+type Filter = 'at_risk' | 'all';
+
+const RISK_BADGE: Record<InstallmentRiskLevel, { label: string; variant: 'destructive' | 'secondary' | 'outline' }> = {
+  defaulted: { label: 'Defaulted', variant: 'destructive' },
+  overdue: { label: 'Overdue', variant: 'destructive' },
+  due_soon: { label: 'Due soon', variant: 'secondary' },
+  on_track: { label: 'On track', variant: 'outline' },
+  completed: { label: 'Paid off', variant: 'outline' },
+};
+
+function money(n: number) {
+  return `$${n.toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+}
+
+export default function AdminInstallmentsPage() {
+  const { isAdmin, loading: adminLoading } = useAdmin();
+  const { user } = useAuth();
+  const [filter, setFilter] = useState<Filter>('at_risk');
+  const [plans, setPlans] = useState<AdminInstallmentPlan[]>([]);
+  const [summary, setSummary] = useState<Summary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const token = await user.getIdToken();
+      const res = await fetch(`/api/admin/orders/installments?filter=${filter}`, {
+        headers: { authorization: `Bearer ${token}` },
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data?.ok) throw new Error(data?.message || data?.error || 'Failed to load installment plans');
+      setPlans(Array.isArray(data.plans) ? data.plans : []);
+      setSummary(data.summary || null);
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load installment plans');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, filter]);
+
+  useEffect(() => {
+    if (!adminLoading && isAdmin) void load();
+  }, [adminLoading, isAdmin, load]);
+
+  if (adminLoading) {
+    return <DashboardContentSkeleton />;
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-background pb-20 md:pb-6 flex items-center justify-center">
+        <Card>
+          <CardContent className="pt-12 pb-12 text-center">
+            <AlertTriangle className="h-12 w-12 mx-auto text-destructive mb-4" />
+            <h3 className="text-lg font-semibold mb-2">Access Denied</h3>
+            <p className="text-sm text-muted-foreground">Admin access required</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background pb-20 md:pb-6">
+      <div className="container mx-auto px-3 sm:px-4 py-4 md:py-8 max-w-7xl space-y-4 md:space-y-6">
+        <div className="min-w-0">
+          <h1 className="text-2xl md:text-4xl font-extrabold text-foreground mb-1 md:mb-2">Installment plans</h1>
+          <p className="text-sm md:text-lg text-muted-foreground">
+            Orders paid in installments. Plans 14 days behind are put in default; the order stays held until the buyer
+            catches up or you step in.
+          </p>
+        </div>
+
+        {summary ? (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <Card>
+              <CardContent className="pt-4">
+                <div className="text-xs text-muted-foreground">Open plans</div>
+                <div className="text-2xl font-extrabold">{summary.open}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-4">
+                <div className="text-xs text-muted-foreground">Overdue</div>
+                <div className="text-2xl font-extrabold">{summary.overdue}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-4">
+                <div className="text-xs text-muted-foreground">Defaulted</div>
+                <div className="text-2xl font-extrabold text-destructive">{summary.defaulted}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-4">
+                <div className="text-xs text-muted-foreground">Balance at risk</div>
+                <div className="text-2xl font-extrabold">{money(summary.remainingAtRisk)}</div>
+              </CardContent>
+            </Card>
+          </div>
+        ) : null}
+
+        <div className="flex flex-wrap gap-2">
+          {(['at_risk', 'all'] as Filter[]).map((f) => (
+            <Button key={f} size="sm" variant={filter === f ? 'default' : 'outline'} onClick={() => setFilter(f)}>
+              {f === 'at_risk' ? 'At risk' : 'All open plans'}
+            </Button>
+          ))}
+        </div>
+
+        {error ? (
+          <Card className="border-destructive/50">
+            <CardContent className="pt-6 text-sm text-destructive">{error}</CardContent>
+          </Card>
+        ) : null}
+
+        {loading ? (
+          <DashboardContentSkeleton />
+        ) : plans.length === 0 ? (
+          <Card>
+            <CardContent className="pt-12 pb-12 text-center">
+              <CalendarClock className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+              <p className="text-sm text-muted-foreground">No installment plans in this view.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {plans.map((p) => {
+              const badge = RISK_BADGE[p.riskLevel];
+              return (
+                <Card key={p.orderId}>
+                  <CardHeader className="pb-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant={badge.variant}>{badge.label}</Badge>
+                      {p.daysOverdue > 0 ? <Badge variant="outline">{p.daysOverdue} days late</Badge> : null}
+                      <Badge variant="outline">
+                        {p.paidCount} of {p.installmentCount} paid
+                      </Badge>
+                      {p.transactionStatus ? (
+                        <span className="text-xs text-muted-foreground ml-auto">{p.transactionStatus}</span>
+                      ) : null}
+                    </div>
+                    <CardTitle className="text-base mt-2">
+                      <Link href={`/dashboard/admin/ops?orderId=${p.orderId}`} className="hover:underline">
+                        {p.listingTitle || p.orderId}
+                      </Link>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+                    <div>
+                      <div className="text-muted-foreground">Paid / remaining</div>
+                      <div className="font-semibold">
+                        {money(p.paidAmount)} / {money(p.remainingAmount)}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-muted-foreground">Next installment</div>
+                      <div className="font-semibold">
+                        {p.nextInstallment
+                          ? `#${p.nextInstallment.number} · ${money(p.nextInstallment.amount)}${
+                              p.nextInstallment.dueAt ? ` · ${format(new Date(p.nextInstallment.dueAt), 'MMM d, yyyy')}` : ''
+                            }`
+                          : '—'}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-muted-foreground">Parties</div>
+                      <div className="flex flex-wrap gap-x-3">
+                        {p.buyerId ? (
+                          <Link href={`/dashboard/admin/users/${p.buyerId}`} className="underline underline-offset-2">
+                            Buyer
+                          </Link>
+                        ) : null}
+                        {p.sellerId ? (
+                          <Link href={`/dashboard/admin/users/${p.sellerId}`} className="underline underline-offset-2">
+                            Seller
+                          </Link>
+                        ) : null}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -85,6 +85,7 @@ import { Copy, Check, ChevronDown, MoreHorizontal } from 'lucide-react';
 import { getOrderTrustState } from '@/lib/orders/getOrderTrustState';
 import { getOrderIssueState } from '@/lib/orders/getOrderIssueState';
 import { getEffectiveTransactionStatus } from '@/lib/orders/status';
+import { computePerHeadRefund, getOrderUnitCount, getQuantityShortfall, getRefundableQuantity } from '@/lib/orders/quantityRefunds';
 import { getNextRequiredAction, getUXBadge } from '@/lib/orders/progress';
 import { isStripeTestModeClient } from '@/lib/stripe/mode';
 import { AIAdminSummary } from '@/components/admin/AIAdminSummary';
@@ -131,6 +132,7 @@ export default function OpsClient() {
   const [resolveDialogOpen, setResolveDialogOpen] = useState<string | null>(null);
   const [refundReason, setRefundReason] = useState('');
   const [refundAmount, setRefundAmount] = useState('');
+  const [refundQuantity, setRefundQuantity] = useState('');
   const [resolutionType, setResolutionType] = useState<'refund' | 'partial_refund'>('refund');
   const [adminNotes, setAdminNotes] = useState('');
   const [copiedExplanation, setCopiedExplanation] = useState(false);
@@ -455,15 +457,19 @@ export default function OpsClient() {
     
     setProcessingOrderId(refundDialogOpen);
     try {
-      const amount = refundAmount ? parseFloat(refundAmount) : undefined;
-      const result = await processRefund(refundDialogOpen, refundReason, amount);
+      const quantity = refundQuantity ? parseInt(refundQuantity, 10) : undefined;
+      const amount = !quantity && refundAmount ? parseFloat(refundAmount) : undefined;
+      const result = await processRefund(refundDialogOpen, refundReason, amount, undefined, quantity);
       toast({
         title: 'Refund Processed',
-        description: `${result.isFullRefund ? 'Full' : 'Partial'} refund of ${formatCurrency(result.amount)} processed.`,
+        description: result.refundQuantity
+          ? `Refund of ${formatCurrency(result.amount)} for ${result.refundQuantity} head processed.`
+          : `${result.isFullRefund ? 'Full' : 'Partial'} refund of ${formatCurrency(result.amount)} processed.`,
       });
       setRefundDialogOpen(null);
       setRefundReason('');
       setRefundAmount('');
+      setRefundQuantity('');
       await loadOrders();
     } catch (error: any) {
       console.error('Error processing refund:', error);
@@ -475,7 +481,7 @@ export default function OpsClient() {
     } finally {
       setProcessingOrderId(null);
     }
-  }, [refundDialogOpen, refundReason, refundAmount, loadOrders, toast]);
+  }, [refundDialogOpen, refundReason, refundAmount, refundQuantity, loadOrders, toast]);
 
   const handleResolveDispute = useCallback(async () => {
     if (!resolveDialogOpen) return;
@@ -491,14 +497,18 @@ export default function OpsClient() {
     
     setProcessingOrderId(resolveDialogOpen);
     try {
-      const refundAmountNum = resolutionType.includes('refund') && refundAmount ? parseFloat(refundAmount) : undefined;
+      const refundQuantityNum =
+        resolutionType === 'partial_refund' && refundQuantity ? parseInt(refundQuantity, 10) : undefined;
+      const refundAmountNum =
+        resolutionType.includes('refund') && !refundQuantityNum && refundAmount ? parseFloat(refundAmount) : undefined;
       await resolveDispute(
         resolveDialogOpen, 
         resolutionType, 
         refundAmountNum, 
         refundReason || undefined,
         false, // markFraudulent - could be added to UI later
-        adminNotes
+        adminNotes,
+        refundQuantityNum
       );
       toast({
         title: 'Dispute Resolved',
@@ -507,6 +517,7 @@ export default function OpsClient() {
       setResolveDialogOpen(null);
       setResolutionType('refund');
       setRefundAmount('');
+      setRefundQuantity('');
       setRefundReason('');
       setAdminNotes('');
       await loadOrders();
@@ -520,7 +531,42 @@ export default function OpsClient() {
     } finally {
       setProcessingOrderId(null);
     }
-  }, [resolveDialogOpen, resolutionType, refundAmount, refundReason, adminNotes, loadOrders, toast]);
+  }, [resolveDialogOpen, resolutionType, refundAmount, refundQuantity, refundReason, adminNotes, loadOrders, toast]);
+
+  /** Per-head refund preview for the refund / resolve dialogs (multi-quantity orders only). */
+  const renderRefundQuantityField = (orderId: string | null) => {
+    const order = orderId ? orders.find((o) => o.id === orderId) : undefined;
+    if (!order || getOrderUnitCount(order) <= 1) return null;
+    const remaining = getRefundableQuantity(order);
+    const shortfall = getQuantityShortfall(order.quantityFulfillment);
+    const heads = refundQuantity ? parseInt(refundQuantity, 10) : 0;
+    const preview = heads > 0 ? computePerHeadRefund(order, heads) : null;
+    return (
+      <div>
+        <Label>Head to refund (optional, {remaining} of {getOrderUnitCount(order)} refundable)</Label>
+        <Input
+          type="number"
+          step="1"
+          min="1"
+          max={remaining}
+          placeholder="Refund by head instead of amount"
+          value={refundQuantity}
+          onChange={(e) => setRefundQuantity(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          {preview
+            ? preview.ok
+              ? `${heads} × ${formatCurrency(preview.perHeadPrice)} = ${formatCurrency(preview.amount)}`
+              : preview.message
+            : order.protectedDisputeQuantity
+              ? `Buyer's claim covers ${order.protectedDisputeQuantity} head.`
+              : shortfall > 0
+                ? `${shortfall} head short of the ${order.quantityFulfillment?.expected} ordered.`
+                : 'Priced per head from the order.'}
+        </p>
+      </div>
+    );
+  };
 
   // Calculate stats based on txStatus
   const stats = useMemo(() => {
@@ -1118,8 +1164,10 @@ export default function OpsClient() {
                 placeholder="Enter amount or leave empty for full refund"
                 value={refundAmount}
                 onChange={(e) => setRefundAmount(e.target.value)}
+                disabled={!!refundQuantity}
               />
             </div>
+            {renderRefundQuantityField(refundDialogOpen)}
             <div>
               <Label>Reason *</Label>
               <Textarea
@@ -1488,8 +1536,10 @@ export default function OpsClient() {
                     placeholder="Enter amount"
                     value={refundAmount}
                     onChange={(e) => setRefundAmount(e.target.value)}
+                    disabled={resolutionType === 'partial_refund' && !!refundQuantity}
                   />
                 </div>
+                {resolutionType === 'partial_refund' && renderRefundQuantityField(resolveDialogOpen)}
                 <div>
                   <Label>Refund Reason</Label>
                   <Textarea
@@ -2040,6 +2090,42 @@ export default function OpsClient() {
                           Unhide
                         </Button>
                       </div>
+                      {orderReview.sellerResponse ? (
+                        <div className="mt-2 space-y-2 border-l-2 border-border pl-3">
+                          <div className="flex items-center gap-2 text-sm">
+                            <span className="font-semibold">Seller response</span>
+                            <Badge variant="outline">{orderReview.sellerResponse.status}</Badge>
+                          </div>
+                          <div className="text-sm whitespace-pre-line">{orderReview.sellerResponse.text}</div>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={async () => {
+                              if (!selectedOrder) return;
+                              const nextStatus = orderReview.sellerResponse.status === 'hidden' ? 'published' : 'hidden';
+                              try {
+                                const token = await user?.getIdToken();
+                                const res = await fetch(`/api/admin/reviews/${selectedOrder.id}/moderate`, {
+                                  method: 'POST',
+                                  headers: { 'content-type': 'application/json', authorization: `Bearer ${token}` },
+                                  body: JSON.stringify({
+                                    target: 'response',
+                                    status: nextStatus,
+                                    reason: nextStatus === 'hidden' ? 'Hidden by admin' : null,
+                                  }),
+                                });
+                                if (!res.ok) throw new Error('Failed to update seller response');
+                                setOrderReview({ ...orderReview, sellerResponse: { ...orderReview.sellerResponse, status: nextStatus } });
+                                toast({ title: nextStatus === 'hidden' ? 'Seller response hidden' : 'Seller response published' });
+                              } catch (e: any) {
+                                toast({ title: 'Error', description: formatUserFacingError(e, 'Failed to update seller response'), variant: 'destructive' });
+                              }
+                            }}
+                          >
+                            {orderReview.sellerResponse.status === 'hidden' ? 'Unhide response' : 'Hide response'}
+                          </Button>
+                        </div>
+                      ) : null}
                     </div>
                   )}
                   </div>
@@ -0,0 +1,264 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useAdmin } from '@/hooks/use-admin';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { DashboardContentSkeleton } from '@/components/skeletons/DashboardContentSkeleton';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertTriangle, CheckCircle2, Flag, Loader2, XCircle } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import type { ReportStatus, ReportTargetType } from '@/lib/safety/reports';
+
+type AdminReport = {
+  reportId: string;
+  status: ReportStatus;
+  targetType: ReportTargetType;
+  targetId: string;
+  listingTitle: string | null;
+  reportedUserId: string | null;
+  reporterId: string | null;
+  reason: string;
+  reasonLabel: string;
+  details: string | null;
+  resolutionNote: string | null;
+  createdAt: string | null;
+  resolvedAt: string | null;
+};
+
+type StatusFilter = ReportStatus | 'all';
+
+export default function AdminReportsPage() {
+  const { isAdmin, loading: adminLoading } = useAdmin();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<StatusFilter>('open');
+  const [targetType, setTargetType] = useState<ReportTargetType | 'all'>('all');
+  const [reports, setReports] = useState<AdminReport[]>([]);
+  const [openCountByUser, setOpenCountByUser] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const token = await user.getIdToken();
+      const params = new URLSearchParams({ status });
+      if (targetType !== 'all') params.set('targetType', targetType);
+      const res = await fetch(`/api/admin/reports?${params.toString()}`, {
+        headers: { authorization: `Bearer ${token}` },
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data?.ok) throw new Error(data?.message || data?.error || 'Failed to load reports');
+      setReports(Array.isArray(data.reports) ? data.reports : []);
+      setOpenCountByUser(data.openCountByUser || {});
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load reports');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, status, targetType]);
+
+  useEffect(() => {
+    if (!adminLoading && isAdmin) void load();
+  }, [adminLoading, isAdmin, load]);
+
+  const resolve = async (reportId: string, next: 'resolved' | 'dismissed') => {
+    if (!user) return;
+    setBusyId(reportId);
+    try {
+      const token = await user.getIdToken();
+      const res = await fetch(`/api/admin/reports/${encodeURIComponent(reportId)}/resolve`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', authorization: `Bearer ${token}` },
+        body: JSON.stringify({ status: next, note: notes[reportId]?.trim() || undefined }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data?.ok) throw new Error(data?.message || data?.error || 'Failed to update report');
+      toast({ title: next === 'resolved' ? 'Report resolved' : 'Report dismissed' });
+      await load();
+    } catch (e: any) {
+      toast({ title: 'Error', description: e?.message || 'Failed to update report', variant: 'destructive' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (adminLoading) {
+    return <DashboardContentSkeleton />;
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-background pb-20 md:pb-6 flex items-center justify-center">
+        <Card>
+          <CardContent className="pt-12 pb-12 text-center">
+            <AlertTriangle className="h-12 w-12 mx-auto text-destructive mb-4" />
+            <h3 className="text-lg font-semibold mb-2">Access Denied</h3>
+            <p className="text-sm text-muted-foreground">Admin access required</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background pb-20 md:pb-6">
+      <div className="container mx-auto px-3 sm:px-4 py-4 md:py-8 max-w-7xl space-y-4 md:space-y-6">
+        <div className="min-w-0">
+          <h1 className="text-2xl md:text-4xl font-extrabold text-foreground mb-1 md:mb-2">Reports</h1>
+          <p className="text-sm md:text-lg text-muted-foreground">
+            Listings and users reported by the community. Flagged conversations live in{' '}
+            <Link href="/dashboard/admin/messages" className="underline underline-offset-2">
+              Flagged Messages
+            </Link>
+            .
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {(['open', 'resolved', 'dismissed', 'all'] as StatusFilter[]).map((s) => (
+            <Button key={s} size="sm" variant={status === s ? 'default' : 'outline'} onClick={() => setStatus(s)} className="capitalize">
+              {s}
+            </Button>
+          ))}
+          <div className="w-px bg-border mx-1" />
+          {(['all', 'listing', 'user'] as const).map((t) => (
+            <Button
+              key={t}
+              size="sm"
+              variant={targetType === t ? 'default' : 'outline'}
+              onClick={() => setTargetType(t)}
+              className="capitalize"
+            >
+              {t === 'all' ? 'All targets' : `${t}s`}
+            </Button>
+          ))}
+        </div>
+
+        {error ? (
+          <Card className="border-destructive/50">
+            <CardContent className="pt-6 text-sm text-destructive">{error}</CardContent>
+          </Card>
+        ) : null}
+
+        {loading ? (
+          <DashboardContentSkeleton />
+        ) : reports.length === 0 ? (
+          <Card>
+            <CardContent className="pt-12 pb-12 text-center">
+              <Flag className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+              <p className="text-sm text-muted-foreground">No reports in this view.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {reports.map((r) => {
+              const repeat = r.reportedUserId ? openCountByUser[r.reportedUserId] || 0 : 0;
+              return (
+                <Card key={r.reportId}>
+                  <CardHeader className="pb-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="outline" className="capitalize">
+                        {r.targetType}
+                      </Badge>
+                      <Badge variant={r.status === 'open' ? 'destructive' : 'secondary'} className="capitalize">
+                        {r.status}
+                      </Badge>
+                      <Badge variant="outline">{r.reasonLabel}</Badge>
+                      {repeat > 1 ? <Badge variant="destructive">{repeat} open reports on this user</Badge> : null}
+                      {r.createdAt ? (
+                        <span className="text-xs text-muted-foreground ml-auto">
+                          {formatDistanceToNow(new Date(r.createdAt), { addSuffix: true })}
+                        </span>
+                      ) : null}
+                    </div>
+                    <CardTitle className="text-base mt-2">
+                      {r.targetType === 'listing' ? (
+                        <Link href={`/listing/${r.targetId}`} className="hover:underline" target="_blank">
+                          {r.listingTitle || r.targetId}
+                        </Link>
+                      ) : r.reportedUserId ? (
+                        <Link href={`/dashboard/admin/users/${r.reportedUserId}`} className="hover:underline">
+                          User {r.reportedUserId}
+                        </Link>
+                      ) : (
+                        r.targetId
+                      )}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3 text-sm">
+                    <div className="text-muted-foreground">
+                      Reported by{' '}
+                      {r.reporterId ? (
+                        <Link href={`/dashboard/admin/users/${r.reporterId}`} className="underline underline-offset-2">
+                          {r.reporterId}
+                        </Link>
+                      ) : (
+                        'unknown'
+                      )}
+                      {r.targetType === 'listing' && r.reportedUserId ? (
+                        <>
+                          {' · '}Seller{' '}
+                          <Link href={`/dashboard/admin/users/${r.reportedUserId}`} className="underline underline-offset-2">
+                            {r.reportedUserId}
+                          </Link>
+                        </>
+                      ) : null}
+                    </div>
+                    {r.details ? <p className="whitespace-pre-wrap rounded-md bg-muted/30 p-3">{r.details}</p> : null}
+
+                    {r.status === 'open' ? (
+                      <div className="space-y-2">
+                        <Textarea
+                          value={notes[r.reportId] || ''}
+                          onChange={(e) => setNotes((prev) => ({ ...prev, [r.reportId]: e.target.value }))}
+                          placeholder="Resolution note (internal)"
+                          rows={2}
+                          maxLength={2000}
+                        />
+                        <div className="flex flex-wrap gap-2">
+                          <Button size="sm" onClick={() => void resolve(r.reportId, 'resolved')} disabled={busyId === r.reportId}>
+                            {busyId === r.reportId ? (
+                              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            ) : (
+                              <CheckCircle2 className="h-4 w-4 mr-2" />
+                            )}
+                            Resolve (action taken)
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => void resolve(r.reportId, 'dismissed')}
+                            disabled={busyId === r.reportId}
+                          >
+                            <XCircle className="h-4 w-4 mr-2" />
+                            Dismiss
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="text-xs text-muted-foreground">
+                        {r.status === 'resolved' ? 'Resolved' : 'Dismissed'}
+                        {r.resolvedAt ? ` ${formatDistanceToNow(new Date(r.resolvedAt), { addSuffix: true })}` : ''}
+                        {r.resolutionNote ? ` — ${r.resolutionNote}` : ''}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -32,6 +32,7 @@ import { getIdToken } from '@/lib/firebase/auth-helper';
 import { auth } from '@/lib/firebase/config';
 import { cn } from '@/lib/utils';
 import { formatUserFacingError } from '@/lib/format-user-facing-error';
+import { formatSalesTaxRate, type SalesTaxReportSummary } from '@/lib/tax/salesTax';
 
 const PLATFORM_FEE_PERCENT = 10;
 
@@ -42,6 +43,7 @@ interface RevenueTransaction {
   listingTitle: string;
   amount: number;
   platformFee: number;
+  salesTax?: number;
   sellerId: string;
   status: string;
 }
@@ -75,6 +77,7 @@ interface RevenueData {
     last30Days: number;
     inPeriod: number;
   };
+  salesTax?: SalesTaxReportSummary;
   transactions?: RevenueTransaction[];
   generatedAt: string;
 }
@@ -394,6 +397,63 @@ export default function AdminRevenuePage() {
             </Card>
           </div>
 
+          {/* Sales tax (pass-through to sellers; not platform revenue) */}
+          {revenueData.salesTax && (
+            <Card className="rounded-xl border border-border/60 bg-muted/30 dark:bg-muted/20 md:border-2 md:bg-card">
+              <CardHeader className="px-3 sm:px-6 pt-4 md:pt-6 pb-2 md:pb-4">
+                <CardTitle className="text-base md:text-lg">Sales tax collected</CardTitle>
+                <CardDescription className="text-xs md:text-sm">
+                  Collected at checkout on taxable categories and passed through to sellers with the charge. Not platform revenue.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="px-3 sm:px-6 pb-4 md:pb-6 space-y-3 md:space-y-4">
+                <div className="grid grid-cols-3 gap-2 md:gap-4">
+                  <div className="p-2.5 md:p-4 rounded-lg border bg-card">
+                    <p className="text-[10px] md:text-sm font-medium text-muted-foreground mb-0.5 md:mb-1">Tax collected</p>
+                    <p className="text-lg md:text-2xl font-bold">{formatCurrency(revenueData.salesTax.totalCollected)}</p>
+                  </div>
+                  <div className="p-2.5 md:p-4 rounded-lg border bg-card">
+                    <p className="text-[10px] md:text-sm font-medium text-muted-foreground mb-0.5 md:mb-1">Taxable sales</p>
+                    <p className="text-lg md:text-2xl font-bold">{formatCurrency(revenueData.salesTax.taxableSales)}</p>
+                  </div>
+                  <div className="p-2.5 md:p-4 rounded-lg border bg-card">
+                    <p className="text-[10px] md:text-sm font-medium text-muted-foreground mb-0.5 md:mb-1">Exempt sales</p>
+                    <p className="text-lg md:text-2xl font-bold">{formatCurrency(revenueData.salesTax.exemptSales)}</p>
+                  </div>
+                </div>
+                {revenueData.salesTax.byJurisdiction.length > 0 ? (
+                  <div className="overflow-x-auto rounded-lg border bg-card">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b bg-muted/40">
+                          <th className="text-left font-semibold p-3">Jurisdiction</th>
+                          <th className="text-right font-semibold p-3">Rate</th>
+                          <th className="text-right font-semibold p-3">Orders</th>
+                          <th className="text-right font-semibold p-3">Taxable sales</th>
+                          <th className="text-right font-semibold p-3">Tax</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {revenueData.salesTax.byJurisdiction.map((j) => (
+                          <tr key={`${j.state}|${j.county}|${j.rate}`} className="border-b border-border/60">
+                            <td className="p-3">
+                              {j.state || '—'}
+                              {j.county ? ` – ${j.county} Co.` : ''}
+                            </td>
+                            <td className="p-3 text-right">{formatSalesTaxRate(j.rate)}</td>
+                            <td className="p-3 text-right">{j.orders}</td>
+                            <td className="p-3 text-right">{formatCurrency(j.taxableSales)}</td>
+                            <td className="p-3 text-right font-medium">{formatCurrency(j.taxCollected)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : null}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Transaction-level detail */}
           {Array.isArray(revenueData.transactions) && revenueData.transactions.length > 0 && (
             <Card className="rounded-xl border border-border/60 bg-muted/30 dark:bg-muted/20 md:border-2 md:bg-card">
@@ -420,6 +480,7 @@ export default function AdminRevenuePage() {
                         <div className="text-right shrink-0">
                           <p className="font-medium text-sm">{formatCurrency(tx.amount)}</p>
                           <p className="text-xs text-primary font-medium">{formatCurrency(tx.platformFee)} fee</p>
+                          {tx.salesTax ? <p className="text-xs text-muted-foreground">{formatCurrency(tx.salesTax)} tax</p> : null}
                         </div>
                       </div>
                       <div className="flex items-center justify-between">
@@ -443,6 +504,7 @@ export default function AdminRevenuePage() {
                         <th className="text-left font-semibold p-3 min-w-[160px]">Listing</th>
                         <th className="text-right font-semibold p-3">Amount</th>
                         <th className="text-right font-semibold p-3">Fee ({PLATFORM_FEE_PERCENT}%)</th>
+                        <th className="text-right font-semibold p-3">Sales tax</th>
                         <th className="text-left font-semibold p-3">Seller</th>
                         <th className="text-left font-semibold p-3 w-16"> </th>
                       </tr>
@@ -455,6 +517,7 @@ export default function AdminRevenuePage() {
                           <td className="p-3 truncate max-w-[200px]" title={tx.listingTitle}>{tx.listingTitle || '—'}</td>
                           <td className="p-3 text-right font-medium">{formatCurrency(tx.amount)}</td>
                           <td className="p-3 text-right font-medium text-primary">{formatCurrency(tx.platformFee)}</td>
+                          <td className="p-3 text-right text-muted-foreground">{tx.salesTax ? formatCurrency(tx.salesTax) : '—'}</td>
                           <td className="p-3 font-mono text-xs text-muted-foreground truncate max-w-[120px]" title={tx.sellerId}>{tx.sellerId ? `${tx.sellerId.slice(0, 8)}…` : '—'}</td>
                           <td className="p-3">
                             <Button variant="ghost" size="sm" className="h-8 w-8 p-0" asChild>
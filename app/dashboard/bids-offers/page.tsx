@@ -43,7 +43,8 @@ import {
 import { formatUserFacingError } from '@/lib/format-user-facing-error';
 import { getMyBids, placeBidServer, type MyBidRow } from '@/lib/api/bids';
 import { getMyOffers, getSellerOffers } from '@/lib/offers/api';
-import { createCheckoutSession, createWireIntent } from '@/lib/stripe/api';
+import { createCartCheckoutSession, createCheckoutSession, createWireIntent } from '@/lib/stripe/api';
+import { AnimalRiskAcknowledgmentDialog } from '@/components/legal/AnimalRiskAcknowledgmentDialog';
 import { PaymentMethodDialog, type PaymentMethodChoice } from '@/components/payments/PaymentMethodDialog';
 import { CheckoutStartErrorDialog } from '@/components/payments/CheckoutStartErrorDialog';
 import { WireInstructionsDialog } from '@/components/payments/WireInstructionsDialog';
@@ -58,7 +59,7 @@ import {
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { cn } from '@/lib/utils';
-import { getMinIncrementCents } from '@/lib/auctions/proxyBidding';
+import { DEFAULT_BID_INCREMENT_LADDER, getIncrementFromLadder } from '@/lib/auctions/bidIncrements';
 import { subscribeToUnreadCountByTypes, markNotificationsAsReadByTypes } from '@/lib/firebase/notifications';
 import { getListingById } from '@/lib/firebase/listings';
 import type { NotificationType } from '@/lib/types';
@@ -76,6 +77,7 @@ type OfferRow = {
   originalAmount?: number;
   acceptedAmount?: number;
   lastActorRole?: 'buyer' | 'seller' | 'system';
+  bundle?: { items: Array<{ listingId: string; title: string }> };
   expiresAt?: number | null;
   updatedAt?: number | null;
 };
@@ -134,10 +136,16 @@ function timeLeftTone(ms: number | null): string {
   return '';
 }
 
-/** Minimum required to place/raise a bid: current auction price + required increment (matches server). */
-function getMinRequiredForBidUsd(currentHighestBid: number): { minUsd: number; incrementUsd: number } {
+/**
+ * Minimum required to place/raise a bid: current auction price + required increment (matches server).
+ * `minIncrement` comes from the listing's increment ladder via /api/bids/mine; default ladder otherwise.
+ */
+function getMinRequiredForBidUsd(currentHighestBid: number, minIncrement?: number): { minUsd: number; incrementUsd: number } {
   const currentCents = Math.max(0, Math.round((Number(currentHighestBid || 0) || 0) * 100));
-  const incrementCents = getMinIncrementCents(currentCents);
+  const incrementCents =
+    typeof minIncrement === 'number' && minIncrement > 0
+      ? Math.round(minIncrement * 100)
+      : getIncrementFromLadder(currentCents, DEFAULT_BID_INCREMENT_LADDER);
   const minCents = currentCents + incrementCents;
   return {
     minUsd: Math.round(minCents) / 100,
@@ -145,8 +153,8 @@ function getMinRequiredForBidUsd(currentHighestBid: number): { minUsd: number; i
   };
 }
 
-function suggestNextMaxUsd(params: { currentHighestBid: number; myMaxBid: number }): number {
-  const { minUsd } = getMinRequiredForBidUsd(params.currentHighestBid || 0);
+function suggestNextMaxUsd(params: { currentHighestBid: number; myMaxBid: number; minIncrement?: number }): number {
+  const { minUsd } = getMinRequiredForBidUsd(params.currentHighestBid || 0, params.minIncrement);
   const myMax = Number(params.myMaxBid || 0) || 0;
   // Suggested = at least minimum to beat current price; if raising, must also be above your current max.
   return Math.max(minUsd, myMax + 1);
@@ -271,7 +279,7 @@ export default function BidsOffersPage() {
 
   // Raise max bid dialog
   const [raiseDialogOpen, setRaiseDialogOpen] = useState(false);
-  const [raiseTarget, setRaiseTarget] = useState<null | { listingId: string; listingTitle: string; currentHighestBid: number; myMaxBid: number }>(null);
+  const [raiseTarget, setRaiseTarget] = useState<null | { listingId: string; listingTitle: string; currentHighestBid: number; myMaxBid: number; minIncrement?: number }>(null);
   const [raiseInput, setRaiseInput] = useState('');
   const [raising, setRaising] = useState(false);
   // Success modal after placing/raising bid
@@ -287,6 +295,7 @@ export default function BidsOffersPage() {
   // Checkout flow (for accepted offers)
   const [paymentDialogOpen, setPaymentDialogOpen] = useState(false);
   const [pendingOfferCheckout, setPendingOfferCheckout] = useState<{ listingId: string; offerId: string; amountUsd: number } | null>(null);
+  const [pendingBundleCheckout, setPendingBundleCheckout] = useState<OfferRow | null>(null);
   const [checkoutErrorOpen, setCheckoutErrorOpen] = useState(false);
   const [checkoutError, setCheckoutError] = useState<{ attemptedMethod: PaymentMethodChoice; message: string; technical?: string } | null>(null);
   const [wireDialogOpen, setWireDialogOpen] = useState(false);
@@ -736,11 +745,25 @@ export default function BidsOffersPage() {
   }, [rows, sortKey, statusFilter, tab]);
 
   const openOfferCheckout = (o: OfferRow) => {
+    // Bundle offers span several listings, so they check out from here (card, one session) after the acknowledgment.
+    if (o.bundle) {
+      setPendingBundleCheckout(o);
+      return;
+    }
     // Checkout now requires a buyer acknowledgment for animal categories (server-enforced).
     // The listing page contains the required acknowledgment flow and will route into checkout safely.
     window.location.href = `/listing/${o.listingId}`;
   };
 
+  const startBundleCheckout = async (o: OfferRow) => {
+    try {
+      const { url } = await createCartCheckoutSession(String(o.sellerId || ''), { offerId: o.offerId, buyerAcksAnimalRisk: true });
+      window.location.href = url;
+    } catch (e: any) {
+      toast({ title: 'Checkout failed', description: formatUserFacingError(e, 'Could not start checkout'), variant: 'destructive' });
+    }
+  };
+
   const handleSelectPaymentMethod = async (method: PaymentMethodChoice) => {
     if (!pendingOfferCheckout) return;
     try {
@@ -1261,12 +1284,14 @@ export default function BidsOffersPage() {
                                           listingTitle: getDisplayTitle(r),
                                           currentHighestBid: Number(b.currentHighestBid || 0) || 0,
                                           myMaxBid: Number(b.myMaxBid || 0) || 0,
+                                          minIncrement: b.minIncrement,
                                         });
                                         setRaiseInput(
                                           String(
                                             suggestNextMaxUsd({
                                               currentHighestBid: Number(b.currentHighestBid || 0) || 0,
                                               myMaxBid: Number(b.myMaxBid || 0) || 0,
+                                              minIncrement: b.minIncrement,
                                             })
                                           )
                                         );
@@ -1435,12 +1460,14 @@ export default function BidsOffersPage() {
                                             listingTitle: getDisplayTitle(r),
                                             currentHighestBid: Number(r.currentHighestBid || 0) || 0,
                                             myMaxBid: Number(r.myMaxBid || 0) || 0,
+                                            minIncrement: r.minIncrement,
                                           });
                                           setRaiseInput(
                                             String(
                                               suggestNextMaxUsd({
                                                 currentHighestBid: Number(r.currentHighestBid || 0) || 0,
                                                 myMaxBid: Number(r.myMaxBid || 0) || 0,
+                                                minIncrement: r.minIncrement,
                                               })
                                             )
                                           );
@@ -1459,12 +1486,14 @@ export default function BidsOffersPage() {
                                             listingTitle: getDisplayTitle(r),
                                             currentHighestBid: Number(r.currentHighestBid || 0) || 0,
                                             myMaxBid: Number(r.myMaxBid || 0) || 0,
+                                            minIncrement: r.minIncrement,
                                           });
                                           setRaiseInput(
                                             String(
                                               suggestNextMaxUsd({
                                                 currentHighestBid: Number(r.currentHighestBid || 0) || 0,
                                                 myMaxBid: Number(r.myMaxBid || 0) || 0,
+                                                minIncrement: r.minIncrement,
                                               })
                                             )
                                           );
@@ -1704,7 +1733,7 @@ export default function BidsOffersPage() {
                   Current highest: {formatMoney(raiseTarget?.currentHighestBid || 0)} · Your max: {formatMoney(raiseTarget?.myMaxBid || 0)}
                 </div>
                 {raiseTarget && (() => {
-                  const { minUsd, incrementUsd } = getMinRequiredForBidUsd(raiseTarget.currentHighestBid);
+                  const { minUsd, incrementUsd } = getMinRequiredForBidUsd(raiseTarget.currentHighestBid, raiseTarget.minIncrement);
                   return (
                     <p className="text-xs text-muted-foreground mt-1.5">
                       Minimum to raise: {formatMoney(minUsd)} (current {formatMoney(raiseTarget.currentHighestBid)} + {formatMoney(incrementUsd)} required increment)
@@ -1719,7 +1748,7 @@ export default function BidsOffersPage() {
                   inputMode="decimal"
                   value={raiseInput}
                   onChange={(e) => setRaiseInput(e.target.value)}
-                  placeholder={`Min ${raiseTarget ? formatMoney(getMinRequiredForBidUsd(raiseTarget.currentHighestBid).minUsd) : '—'} (USD)`}
+                  placeholder={`Min ${raiseTarget ? formatMoney(getMinRequiredForBidUsd(raiseTarget.currentHighestBid, raiseTarget.minIncrement).minUsd) : '—'} (USD)`}
                 />
                 <div className="flex items-center gap-2 flex-wrap">
                   <Button
@@ -1767,8 +1796,8 @@ export default function BidsOffersPage() {
                     toast({ title: 'Invalid amount', description: 'Enter a valid max bid amount.', variant: 'destructive' });
                     return;
                   }
-                  const { minUsd, incrementUsd } = raiseTarget ? getMinRequiredForBidUsd(raiseTarget.currentHighestBid) : { minUsd: 0, incrementUsd: 0 };
-                  const minAllowed = raiseTarget ? suggestNextMaxUsd({ currentHighestBid: raiseTarget.currentHighestBid, myMaxBid: raiseTarget.myMaxBid }) : 0;
+                  const { minUsd, incrementUsd } = raiseTarget ? getMinRequiredForBidUsd(raiseTarget.currentHighestBid, raiseTarget.minIncrement) : { minUsd: 0, incrementUsd: 0 };
+                  const minAllowed = raiseTarget ? suggestNextMaxUsd({ currentHighestBid: raiseTarget.currentHighestBid, myMaxBid: raiseTarget.myMaxBid, minIncrement: raiseTarget.minIncrement }) : 0;
                   if (minAllowed > 0 && amount < minAllowed - 0.01) {
                     toast({
                       title: 'Bid too low',
@@ -1841,6 +1870,18 @@ export default function BidsOffersPage() {
           </DialogContent>
         </Dialog>
 
+        <AnimalRiskAcknowledgmentDialog
+          open={pendingBundleCheckout !== null}
+          onOpenChange={(open) => {
+            if (!open) setPendingBundleCheckout(null);
+          }}
+          onConfirm={() => {
+            const o = pendingBundleCheckout;
+            setPendingBundleCheckout(null);
+            if (o) void startBundleCheckout(o);
+          }}
+        />
+
         <PaymentMethodDialog
           open={paymentDialogOpen}
           onOpenChange={(open) => {
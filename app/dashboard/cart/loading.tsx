@@ -0,0 +1,5 @@
+import { DashboardContentSkeleton } from '@/components/skeletons/DashboardContentSkeleton';
+
+export default function Loading() {
+  return <DashboardContentSkeleton />;
+}
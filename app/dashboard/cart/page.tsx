@@ -0,0 +1,7 @@
+'use client';
+
+import { CartPanel } from '@/components/cart/CartPanel';
+
+export default function CartPage() {
+  return <CartPanel />;
+}
@@ -18,6 +18,7 @@ import {
   X,
   PlusCircle,
   ShoppingBag,
+  ShoppingCart,
   Gavel,
   ChevronLeft,
   ChevronRight,
@@ -38,6 +39,8 @@ import {
   Home,
   ListTodo,
   ImageIcon,
+  Flag,
+  CalendarClock,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
@@ -95,6 +98,7 @@ const baseNavItems: SellerNavItem[] = [
   { href: '/dashboard/saved-searches', label: 'Saved Searches', icon: Search },
   { href: '/dashboard/notifications', label: 'Notifications', icon: Bell },
   { href: '/dashboard/bids-offers', label: 'Bids & Offers', icon: Gavel },
+  { href: '/dashboard/cart', label: 'Cart', icon: ShoppingCart },
   { href: '/dashboard/orders', label: 'Purchases', icon: ShoppingBag },
   { href: '/seller/sales', label: 'Sold', icon: DollarSign },
   { href: '/dashboard/messages', label: 'Messages', icon: MessageSquare },
@@ -109,6 +113,8 @@ const adminNavItems: SellerNavItem[] = [
   { href: '/dashboard/admin/users', label: 'Users', icon: Users },
   { href: '/dashboard/admin/listings', label: 'Approve Listings', icon: CheckCircle },
   { href: '/dashboard/admin/messages', label: 'Flagged Messages', icon: MessageSquare },
+  { href: '/dashboard/admin/reports', label: 'Reports', icon: Flag },
+  { href: '/dashboard/admin/installments', label: 'Installment Plans', icon: CalendarClock },
   { href: '/dashboard/admin/health', label: 'System Health', icon: HeartPulse },
   { href: '/dashboard/admin/ops', label: 'Admin Ops', icon: Shield },
   { href: '/dashboard/admin/compliance', label: 'Compliance', icon: Shield },
@@ -33,6 +33,20 @@ import {
 } from '@/lib/types';
 import { AlertCircle } from 'lucide-react';
 import { CategoryAttributeForm } from '@/components/listings/CategoryAttributeForm';
+import { PriceGuidanceCard } from '@/components/listings/PriceGuidanceCard';
+import {
+  DEFAULT_DEPOSIT_TERMS_FORM,
+  DepositTermsFields,
+  depositTermsFromForm,
+  type DepositTermsFormState,
+} from '@/components/listings/DepositTermsFields';
+import {
+  DEFAULT_INSTALLMENT_PLAN_FORM,
+  InstallmentPlanFields,
+  installmentPlanFromForm,
+  type InstallmentPlanFormState,
+} from '@/components/listings/InstallmentPlanFields';
+import { describeBalanceDue, describeDeposit } from '@/lib/pricing/deposit';
 import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { HelpTooltip } from '@/components/help/HelpTooltip';
@@ -46,6 +60,8 @@ import { PayoutReadinessCard } from '@/components/seller/PayoutReadinessCard';
 import { cn } from '@/lib/utils';
 import { formatUserFacingError } from '@/lib/format-user-facing-error';
 import { formatDateTimeLocal, isFutureDateTimeLocalString, parseDateTimeLocal } from '@/lib/datetime/datetimeLocal';
+import { validateScheduledStartAt } from '@/lib/listings/scheduling';
+import { format } from 'date-fns';
 import { doc, getDoc, onSnapshot } from 'firebase/firestore';
 import { db } from '@/lib/firebase/config';
 import { isAnimalCategory } from '@/lib/compliance/requirements';
@@ -131,6 +147,8 @@ function NewListingPageContent() {
     reservePrice: string;
     endsAt: string;
     durationDays: 1 | 3 | 5 | 7 | 10;
+    /** datetime-local string; empty = go live as soon as approved. */
+    scheduledStartAt: string;
     location: { city: string; state: string; zip: string };
     images: string[];
     photoIds: string[];
@@ -151,6 +169,8 @@ function NewListingPageContent() {
       allowCounter: boolean;
       offerExpiryHours: number;
     };
+    depositTerms: DepositTermsFormState;
+    installmentPlan: InstallmentPlanFormState;
     // Union (not intersection): attributes vary by category.
     attributes: Partial<WildlifeAttributes | CattleAttributes | FarmAnimalAttributes | SportingWorkingDogAttributes | EquipmentAttributes | WhitetailBreederAttributes>;
   }>({
@@ -163,6 +183,7 @@ function NewListingPageContent() {
     reservePrice: '',
     endsAt: '',
     durationDays: 7,
+    scheduledStartAt: '',
     location: {
       city: '',
       state: 'TX',
@@ -187,6 +208,8 @@ function NewListingPageContent() {
       allowCounter: true,
       offerExpiryHours: 48,
     },
+    depositTerms: DEFAULT_DEPOSIT_TERMS_FORM,
+    installmentPlan: DEFAULT_INSTALLMENT_PLAN_FORM,
     attributes: {},
   });
   const [listingId, setListingId] = useState<string | null>(null); // Store draft listing ID for image uploads
@@ -260,6 +283,7 @@ function NewListingPageContent() {
       startingBid: formData.startingBid,
       reservePrice: formData.reservePrice,
       durationDays: formData.durationDays,
+      scheduledStartAt: formData.scheduledStartAt,
       location: formData.location,
       photoIds: formData.photoIds,
       coverPhotoId: formData.coverPhotoId,
@@ -267,6 +291,8 @@ function NewListingPageContent() {
       transportType: formData.transportType,
       deliveryDetails: formData.deliveryDetails,
       bestOffer: formData.bestOffer,
+      depositTerms: formData.depositTerms,
+      installmentPlan: formData.installmentPlan,
       attributes: formData.attributes,
       sellerAttestationAccepted,
       sellerAnimalAttestationAccepted,
@@ -402,6 +428,7 @@ function NewListingPageContent() {
           type: ((formData.type === 'classified' ? 'fixed' : formData.type) || 'fixed') as 'auction' | 'fixed',
           category: formData.category as any,
           durationDays: formData.durationDays,
+          scheduledStartAt: parseDateTimeLocal(formData.scheduledStartAt),
           location: locationData,
           images: formData.images,
           photoIds: formData.photoIds,
@@ -663,6 +690,13 @@ function NewListingPageContent() {
     return isFutureDateTimeLocalString(raw, 60_000);
   };
 
+  const scheduledStartDate = parseDateTimeLocal(formData.scheduledStartAt);
+  const scheduledStartError = formData.scheduledStartAt
+    ? scheduledStartDate
+      ? validateScheduledStartAt(scheduledStartDate.getTime())
+      : 'Enter a valid start date and time.'
+    : null;
+
   const steps = [
     {
       id: 'category',
@@ -1873,6 +1907,67 @@ function NewListingPageContent() {
             </>
           )}
 
+          {/* Scheduled start (optional) */}
+          {formData.type === 'fixed' || formData.type === 'auction' ? (
+            <div className="space-y-2">
+              <Label className="text-base font-semibold">Start time</Label>
+              <RadioGroup
+                value={formData.scheduledStartAt ? 'scheduled' : 'now'}
+                onValueChange={(v) =>
+                  setFormData({
+                    ...formData,
+                    scheduledStartAt:
+                      v === 'scheduled' ? formatDateTimeLocal(new Date(Date.now() + 24 * 60 * 60 * 1000)) : '',
+                  })
+                }
+                className="grid gap-2 sm:grid-cols-2"
+              >
+                <Label htmlFor="start-now" className="flex items-center gap-3 rounded-lg border p-3 cursor-pointer">
+                  <RadioGroupItem value="now" id="start-now" />
+                  <span className="text-sm font-medium">As soon as it&apos;s approved</span>
+                </Label>
+                <Label htmlFor="start-scheduled" className="flex items-center gap-3 rounded-lg border p-3 cursor-pointer">
+                  <RadioGroupItem value="scheduled" id="start-scheduled" />
+                  <span className="text-sm font-medium">At a scheduled time</span>
+                </Label>
+              </RadioGroup>
+              {formData.scheduledStartAt ? (
+                <>
+                  <Input
+                    id="listing-scheduled-start"
+                    type="datetime-local"
+                    value={formData.scheduledStartAt}
+                    onChange={(e) => setFormData({ ...formData, scheduledStartAt: e.target.value })}
+                    className="min-h-[48px] text-base"
+                  />
+                  {scheduledStartError ? (
+                    <p className="text-xs text-destructive">{scheduledStartError}</p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      {formData.type === 'auction' ? 'Bidding' : 'Buying'} opens at this time (your local time) and the
+                      listing runs {formData.durationDays} day{formData.durationDays === 1 ? '' : 's'} from then. Watchers
+                      are notified when it goes live.
+                    </p>
+                  )}
+                </>
+              ) : null}
+            </div>
+          ) : null}
+
+          {/* Sold-comps price guidance */}
+          {formData.category && (formData.type === 'fixed' || formData.type === 'auction') ? (
+            <PriceGuidanceCard
+              category={formData.category}
+              state={formData.location.state}
+              type={formData.type}
+              attributes={formData.attributes as Record<string, any>}
+              price={formData.price}
+              startingBid={formData.startingBid}
+              reservePrice={formData.reservePrice}
+              onApply={(field, value) => setFormData((prev) => ({ ...prev, [field]: value }))}
+            />
+          ) : null}
+
           {/* Best Offer (Fixed) */}
           {formData.type === 'fixed' && (
             <div className="rounded-xl border bg-muted/10 p-4 space-y-3">
@@ -2024,6 +2119,22 @@ function NewListingPageContent() {
             </div>
           )}
 
+          {/* Deposit terms (Fixed/Auction) */}
+          {(formData.type === 'fixed' || formData.type === 'auction') && (
+            <DepositTermsFields
+              value={formData.depositTerms ?? DEFAULT_DEPOSIT_TERMS_FORM}
+              onChange={(depositTerms) => setFormData((prev) => ({ ...prev, depositTerms }))}
+            />
+          )}
+
+          {/* Installment plan (Fixed/Auction) */}
+          {(formData.type === 'fixed' || formData.type === 'auction') && (
+            <InstallmentPlanFields
+              value={formData.installmentPlan ?? DEFAULT_INSTALLMENT_PLAN_FORM}
+              onChange={(installmentPlan) => setFormData((prev) => ({ ...prev, installmentPlan }))}
+            />
+          )}
+
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="city" className="text-base font-semibold">City</Label>
@@ -2092,8 +2203,13 @@ function NewListingPageContent() {
         const priceOk = formData.type === 'fixed' ? isPositiveMoney(formData.price) : isPositiveMoney(formData.startingBid);
 
         const durationOk = isValidDurationDays(formData.durationDays);
+        const scheduleOk = !formData.scheduledStartAt || scheduledStartError === null;
+        const depositOk = formData.type === 'classified' || depositTermsFromForm(formData.depositTerms).ok;
+        const installmentsOk =
+          formData.type === 'classified' ||
+          installmentPlanFromForm(formData.installmentPlan ?? DEFAULT_INSTALLMENT_PLAN_FORM).ok;
 
-        return titleOk && descOk && cityOk && stateOk && priceOk && durationOk;
+        return titleOk && descOk && cityOk && stateOk && priceOk && durationOk && scheduleOk && depositOk && installmentsOk;
       },
     },
     {
@@ -2396,6 +2512,11 @@ function NewListingPageContent() {
                         Duration: <span className="font-semibold">{formData.durationDays} day{formData.durationDays === 1 ? '' : 's'}</span>
                         <span className="text-muted-foreground"> (starts when live)</span>
                       </div>
+                      {scheduledStartDate ? (
+                        <div className="text-sm">
+                          Starts: <span className="font-semibold">{format(scheduledStartDate, "EEE, MMM d 'at' h:mm a")}</span>
+                        </div>
+                      ) : null}
                     </div>
                   ) : (
                     <div className="space-y-1">
@@ -2538,6 +2659,20 @@ function NewListingPageContent() {
                     {formData.type === 'fixed' && (
                       <div><span className="text-muted-foreground">Best Offer:</span> <span className="font-medium">{formData.bestOffer.enabled ? 'Enabled' : 'Off'}</span></div>
                     )}
+                    {(formData.type === 'fixed' || formData.type === 'auction') && (() => {
+                      const deposit = depositTermsFromForm(formData.depositTerms ?? DEFAULT_DEPOSIT_TERMS_FORM);
+                      const terms = deposit.ok ? deposit.terms : null;
+                      return (
+                        <div><span className="text-muted-foreground">Deposit:</span> <span className="font-medium">{terms ? `${describeDeposit(terms)} · ${describeBalanceDue(terms)}` : 'Default'}</span></div>
+                      );
+                    })()}
+                    {(formData.type === 'fixed' || formData.type === 'auction') && (() => {
+                      const installments = installmentPlanFromForm(formData.installmentPlan ?? DEFAULT_INSTALLMENT_PLAN_FORM);
+                      const plan = installments.ok ? installments.plan : null;
+                      return (
+                        <div><span className="text-muted-foreground">Installments:</span> <span className="font-medium">{plan ? `${plan.installmentCount} payments every ${plan.intervalDays} days` : 'Off'}</span></div>
+                      );
+                    })()}
                   </div>
                 </div>
               </div>
@@ -2783,6 +2918,7 @@ function NewListingPageContent() {
         type: (formData.type === 'classified' ? 'fixed' : (formData.type as any)) as 'auction' | 'fixed',
         category: formData.category as ListingCategory,
         durationDays: formData.durationDays,
+        scheduledStartAt: parseDateTimeLocal(formData.scheduledStartAt),
         location: locationData,
         // Back-compat: `images` is derived from the cached snapshot.
         images: formData.images,
@@ -2840,6 +2976,20 @@ function NewListingPageContent() {
         const reserveNum = parseFloat(parsePriceString(formData.reservePrice || '0') || '0');
         if (reserveNum > 0) listingData.reservePrice = reserveNum;
       }
+      if (formData.type === 'fixed' || formData.type === 'auction') {
+        const deposit = depositTermsFromForm(formData.depositTerms ?? DEFAULT_DEPOSIT_TERMS_FORM);
+        if (!deposit.ok) {
+          toast({ title: 'Check deposit terms', description: deposit.message, variant: 'destructive' });
+          return;
+        }
+        listingData.depositTerms = deposit.terms;
+        const installments = installmentPlanFromForm(formData.installmentPlan ?? DEFAULT_INSTALLMENT_PLAN_FORM);
+        if (!installments.ok) {
+          toast({ title: 'Check installment plan', description: installments.message, variant: 'destructive' });
+          return;
+        }
+        listingData.installmentPlan = installments.plan;
+      }
 
       // Use existing draft listing ID if available, otherwise create new
       let finalListingId = listingId;
@@ -3078,6 +3228,7 @@ function NewListingPageContent() {
         type: ((formData.type === 'classified' ? 'fixed' : formData.type) || 'fixed') as 'auction' | 'fixed',
         category: formData.category as ListingCategory,
         durationDays: formData.durationDays,
+        scheduledStartAt: parseDateTimeLocal(formData.scheduledStartAt),
         location: locationData,
         images: formData.images,
         trust: {
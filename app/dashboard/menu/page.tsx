@@ -15,6 +15,7 @@ import {
   Bell,
   Gavel,
   ShoppingBag,
+  ShoppingCart,
   DollarSign,
   MessageSquare,
   CreditCard,
@@ -30,6 +31,8 @@ import {
   ArrowRight,
   AlertCircle,
   ListTodo,
+  Flag,
+  CalendarClock,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/hooks/use-auth';
@@ -44,6 +47,7 @@ type NavItem = { href: string; label: string; subtext: string; icon: React.Compo
 const BUYING: NavItem[] = [
   { href: '/dashboard/watchlist', label: 'Watchlist', subtext: 'Saved listings and sellers you follow.', icon: Heart },
   { href: '/dashboard/saved-searches', label: 'Saved Searches', subtext: 'Alerts when new listings match your criteria.', icon: Search },
+  { href: '/dashboard/cart', label: 'Cart', subtext: 'Items to check out together, grouped by seller.', icon: ShoppingCart },
   { href: '/dashboard/orders', label: 'Purchases', subtext: 'Orders you bought and delivery status.', icon: ShoppingBag },
   { href: '/dashboard/bids-offers', label: 'Bids & Offers', subtext: 'Your bids, offers, and auction activity.', icon: Gavel },
   { href: '/dashboard/notifications', label: 'Notifications', subtext: 'Alerts for outbid, wins, and messages.', icon: Bell },
@@ -68,6 +72,8 @@ const ADMIN: NavItem[] = [
   { href: '/dashboard/admin/users', label: 'Users', subtext: 'Manage user accounts and roles.', icon: Users },
   { href: '/dashboard/admin/listings', label: 'Approve Listings', subtext: 'Review and approve new listings.', icon: CheckCircle },
   { href: '/dashboard/admin/messages', label: 'Flagged Messages', subtext: 'Review reported conversations.', icon: MessageSquare },
+  { href: '/dashboard/admin/reports', label: 'Reports', subtext: 'Reported listings and users.', icon: Flag },
+  { href: '/dashboard/admin/installments', label: 'Installment Plans', subtext: 'Overdue and defaulted payment plans.', icon: CalendarClock },
   { href: '/dashboard/admin/health', label: 'System Health', subtext: 'Platform status and diagnostics.', icon: HeartPulse },
   { href: '/dashboard/admin/ops', label: 'Admin Ops', subtext: 'Fulfillment, disputes, and operations.', icon: Shield },
   { href: '/dashboard/admin/compliance', label: 'Compliance', subtext: 'Listings, orders, and breeder permits.', icon: Shield },
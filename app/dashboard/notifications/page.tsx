@@ -178,6 +178,7 @@ function filterFor(n: UserNotification): UiFilter {
 
   // Buying-side signals
   if (t.startsWith('auction_') || t.startsWith('bid_')) return 'buying';
+  if (t === 'watched_listing_live') return 'buying';
   if (t.startsWith('offer_')) return 'buying';
   if (t === 'order_created' && ev === 'Order.Confirmed') return 'buying'; // Set delivery address (buyer)
   if (t.startsWith('order_')) return 'buying';
@@ -207,14 +208,22 @@ function tagForNotification(n: UserNotification): { label: string; variant: Noti
   if (t === 'auction_lost') return { label: 'Got away', variant: 'destructive' };
   if (t === 'auction_won') return { label: 'Won', variant: 'success' };
   if (t === 'auction_ending_soon') return { label: 'Ending soon', variant: 'warning' };
+  if (t === 'auction_extended') return { label: 'Extended', variant: 'warning' };
+  if (t === 'auction_second_chance_offer') return { label: 'Second chance', variant: 'info' };
+  if (t === 'auction_second_chance_available') return { label: 'Your auction', variant: 'warning' };
   if (t === 'bid_outbid') return { label: 'Outbid', variant: 'destructive' };
+  if (t === 'watched_listing_live') return { label: 'Now live', variant: 'success' };
   if (t === 'offer_received') return { label: 'New offer', variant: 'info' };
   if (t === 'offer_countered') return { label: 'Counter offer', variant: 'warning' };
   if (t === 'offer_accepted') return { label: 'Accepted', variant: 'success' };
   if (t.startsWith('offer_')) return { label: 'Offer', variant: 'info' };
   if (t === 'order_delivery_scheduled') return { label: 'Accept delivery date', variant: 'warning' };
-  if (t === 'order_final_payment_due') return { label: 'Pay now', variant: 'destructive' };
+  if (t === 'order_final_payment_due' || t === 'order_installment_due') return { label: 'Pay now', variant: 'destructive' };
   if (t === 'order_final_payment_confirmed') return { label: 'Final payment', variant: 'success' };
+  if (t === 'order_deposit_expired') return { label: 'Cancelled', variant: 'destructive' };
+  if (t === 'order_installment_defaulted') return { label: 'Missed payment', variant: 'destructive' };
+  if (t === 'compliance_document_expiring') return { label: 'Renew soon', variant: 'warning' };
+  if (t === 'compliance_document_expired') return { label: 'Expired', variant: 'destructive' };
   // Seller-only actions: show "Your sale" so it's clear the action is for the viewer (seller)
   const ev = String(n.eventType || '').trim();
   if (t === 'order_created' && ev === 'Order.Received') return { label: 'Your sale', variant: 'warning' };
@@ -359,7 +368,7 @@ export default function NotificationsPage() {
         // Do NOT mark action-required types — they stay until user completes the action or dismisses.
         if (!autoMarkedReadRef.current) {
           autoMarkedReadRef.current = true;
-          const actionRequiredTypes = new Set(['bid_outbid', 'auction_outbid', 'offer_countered', 'offer_accepted', 'order_created', 'order_delivery_address_set', 'order_delivery_scheduled', 'order_final_payment_due']);
+          const actionRequiredTypes = new Set(['bid_outbid', 'auction_outbid', 'offer_countered', 'offer_accepted', 'order_created', 'order_delivery_address_set', 'order_delivery_scheduled', 'order_final_payment_due', 'order_installment_due']);
           const unread = next.filter((n) => {
             if (n.read === true) return false;
             const t = normalizeType(n);
@@ -454,11 +463,15 @@ export default function NotificationsPage() {
           t === 'bid_outbid' ||
           t === 'auction_won' ||
           t === 'auction_ending_soon' ||
+          t === 'auction_extended' ||
+          t === 'auction_second_chance_offer' ||
+          t === 'auction_second_chance_available' ||
           t.startsWith('order_') ||
           t.startsWith('offer_') ||
           t === 'payout_released' ||
           t === 'listing_rejected' ||
-          t === 'compliance_rejected'
+          t === 'compliance_rejected' ||
+          t === 'compliance_document_expired'
         );
       });
       // Sort: action-required (for current user) first, then by createdAt desc
@@ -30,6 +30,7 @@ type OfferRow = {
   acceptedAmount?: number;
   lastActorRole?: 'buyer' | 'seller' | 'system';
   expiresAt?: number | null;
+  secondChance?: { sourceStatus: string; bidderMaxBidCents: number };
 };
 
 function formatTimeLeft(expiresAtMs?: number | null): string {
@@ -81,7 +82,7 @@ export default function MyOffersPage() {
       setUnreadOfferActivity(0);
       return;
     }
-    const types: NotificationType[] = ['offer_received', 'offer_countered', 'offer_accepted', 'offer_declined', 'offer_expired'];
+    const types: NotificationType[] = ['offer_received', 'offer_countered', 'offer_accepted', 'offer_declined', 'offer_expired', 'auction_second_chance_offer'];
     try {
       return subscribeToUnreadCountByTypes(user.uid, types, (count) => setUnreadOfferActivity(count || 0));
     } catch {
@@ -93,7 +94,7 @@ export default function MyOffersPage() {
   // UX: once the user visits this page, clear offer notification badges.
   useEffect(() => {
     if (!user?.uid) return;
-    const types: NotificationType[] = ['offer_received', 'offer_countered', 'offer_accepted', 'offer_declined', 'offer_expired'];
+    const types: NotificationType[] = ['offer_received', 'offer_countered', 'offer_accepted', 'offer_declined', 'offer_expired', 'auction_second_chance_offer'];
     markNotificationsAsReadByTypes(user.uid, types).catch(() => {});
   }, [user?.uid]);
 
@@ -200,6 +201,11 @@ export default function MyOffersPage() {
                           <div className="text-xs text-muted-foreground">Offer #{o.offerId.slice(0, 8)}</div>
                         </div>
                         <div className="flex items-center gap-2 shrink-0 flex-wrap justify-end">
+                          {o.secondChance ? (
+                            <Badge variant="outline" className="text-xs border-primary text-primary">
+                              Second chance
+                            </Badge>
+                          ) : null}
                           <Badge variant="secondary" className="text-xs">
                             {o.status}
                           </Badge>
@@ -40,12 +40,18 @@ import { getOrderIssueState } from '@/lib/orders/getOrderIssueState';
 import { getOrderTrustState } from '@/lib/orders/getOrderTrustState';
 import { getEffectiveTransactionStatus } from '@/lib/orders/status';
 import { getOrderBalanceDue } from '@/lib/orders/progress';
+import { formatSalesTaxLabel } from '@/lib/tax/salesTax';
 import { ORDER_COPY, getStatusLabel } from '@/lib/orders/copy';
 import { cn, formatDate, isValidNonEpochDate } from '@/lib/utils';
 import { formatUserFacingError } from '@/lib/format-user-facing-error';
 import { AddressPickerModal, type SetDeliveryAddressPayload } from '@/components/address/AddressPickerModal';
 import { AddressMapModal } from '@/components/address/AddressMapModal';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { OrderGroupNotice } from '@/components/orders/OrderGroupNotice';
+import { InstallmentPlanCard } from '@/components/orders/InstallmentPlanCard';
+import { MovementRequirementsNotice } from '@/components/compliance/MovementRequirementsNotice';
+import { getOrderComplianceRoute, getRouteMovementRequirements } from '@/lib/compliance/policy';
+import { isAnimalCategory } from '@/lib/compliance/requirements';
 
 const useAddressPicker =
   typeof process !== 'undefined' &&
@@ -202,7 +208,7 @@ export default function BuyerOrderDetailPage() {
   const [listing, setListing] = useState<Listing | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [processing, setProcessing] = useState<'agree-delivery' | 'dispute' | 'pay-final' | null>(null);
+  const [processing, setProcessing] = useState<'agree-delivery' | 'dispute' | 'pay-final' | 'pay-installment' | null>(null);
   const [setAddressModalOpen, setSetAddressModalOpen] = useState(false);
   const [sendPhotosPromptOpen, setSendPhotosPromptOpen] = useState(false);
   const [sendPhotosModalOpen, setSendPhotosModalOpen] = useState(false);
@@ -345,6 +351,11 @@ export default function BuyerOrderDetailPage() {
 
   const issueState = useMemo(() => (order ? getOrderIssueState(order) : 'none'), [order]);
   const trustState = useMemo(() => (order ? getOrderTrustState(order) : null), [order]);
+  const movementRequirements = useMemo(() => {
+    if (!order || !listing || !isAnimalCategory(listing.category as any)) return null;
+    const route = getOrderComplianceRoute(order, listing, order.complianceDocsStatus?.destinationState);
+    return getRouteMovementRequirements(listing.category as any, listing.attributes as any, route);
+  }, [order, listing]);
 
   const listingCoverPhotoURL = useMemo(() => {
     if (!listing) return null;
@@ -546,6 +557,11 @@ export default function BuyerOrderDetailPage() {
                     Total ${order.amount.toLocaleString()}
                   </Badge>
                 ) : null}
+                {order.salesTax && order.salesTax.amount > 0 ? (
+                  <Badge variant="outline" className="font-semibold text-xs" title={formatSalesTaxLabel(order.salesTax)}>
+                    + Sales tax ${order.salesTax.amount.toFixed(2)} (paid at checkout)
+                  </Badge>
+                ) : null}
                 <Badge variant="outline" className="font-semibold text-xs">
                   {getStatusLabel(txStatus ?? '')}
                 </Badge>
@@ -780,6 +796,38 @@ export default function BuyerOrderDetailPage() {
           />
         )}
 
+        <OrderGroupNotice orderGroupId={order.orderGroupId} />
+        <MovementRequirementsNotice
+          requirements={movementRequirements}
+          verified={order.complianceDocsStatus?.verified}
+        />
+        <InstallmentPlanCard
+          plan={order.installmentPlan}
+          paying={processing === 'pay-installment'}
+          onPay={async () => {
+            setProcessing('pay-installment');
+            try {
+              const { auth } = await import('@/lib/firebase/config');
+              const u = auth.currentUser;
+              if (!u) throw new Error('Auth required');
+              const token = await u.getIdToken(true);
+              const res = await fetch(`/api/orders/${order.id}/installment-session`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+                body: JSON.stringify({}),
+              });
+              const data = await res.json().catch(() => ({}));
+              if (!res.ok) throw new Error(data.error || data.details || 'Failed to start payment');
+              if (data.url) { window.location.href = data.url; return; }
+              throw new Error('No payment URL returned');
+            } catch (e: any) {
+              toast({ title: 'Payment could not start', description: formatUserFacingError(e, 'Failed to start payment'), variant: 'destructive' });
+            } finally {
+              setProcessing(null);
+            }
+          }}
+        />
+
         {/* Order Progress — unified timeline with step-specific info under each milestone */}
         <OrderMilestoneTimeline
           order={order}
@@ -938,7 +986,8 @@ export default function BuyerOrderDetailPage() {
                               const u = auth.currentUser;
                               if (!u) throw new Error('Auth required');
                               const token = await u.getIdToken(true);
-                              const res = await fetch(`/api/orders/${o.id}/final-payment-session`, {
+                              const session = (o as any).installmentPlan ? 'installment-session' : 'final-payment-session';
+                              const res = await fetch(`/api/orders/${o.id}/${session}`, {
                                 method: 'POST',
                                 headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
                                 body: JSON.stringify({}),
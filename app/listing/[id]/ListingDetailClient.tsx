@@ -35,7 +35,8 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { ListingDetailSkeleton } from '@/components/skeletons/ListingDetailSkeleton';
-import { CHECKOUT_DEPOSIT_PERCENT } from '@/lib/pricing/plans';
+import { describeBalanceDue, describeDeposit, getListingDepositTerms, quoteDeposit } from '@/lib/pricing/deposit';
+import { describeInstallmentPlan, getListingInstallmentPlan, isInstallmentEligible } from '@/lib/pricing/installments';
 import { Separator } from '@/components/ui/separator';
 import {
   Accordion,
@@ -272,11 +273,21 @@ export default function ListingDetailClient() {
     return 0;
   }, [listing, winningBidAmount, pendingCheckout?.amountUsd, buyQuantity]);
 
+  const depositTerms = useMemo(() => getListingDepositTerms(listing), [listing]);
+  const installmentPlan = useMemo(() => getListingInstallmentPlan(listing), [listing]);
+  const installmentSummary = useMemo(
+    () =>
+      installmentPlan && isInstallmentEligible(checkoutAmountUsd, installmentPlan)
+        ? describeInstallmentPlan(checkoutAmountUsd, installmentPlan)
+        : null,
+    [installmentPlan, checkoutAmountUsd]
+  );
+
   const depositAmountUsd = useMemo(() => {
     if (!listing) return 0;
     if (listing.type !== 'fixed' && listing.type !== 'classified' && listing.type !== 'auction') return 0;
-    return Math.round(checkoutAmountUsd * CHECKOUT_DEPOSIT_PERCENT * 100) / 100;
-  }, [listing, checkoutAmountUsd]);
+    return quoteDeposit(checkoutAmountUsd, depositTerms, buyQuantity).depositAmount;
+  }, [listing, checkoutAmountUsd, depositTerms, buyQuantity]);
 
   const buyNowAvailability = useMemo(() => {
     if (!listing) return { total: 1, available: 1, canChooseQuantity: false, isGroupListing: false, allowBuyNow: true };
@@ -846,7 +857,7 @@ export default function ListingDetailClient() {
     }
   };
 
-  const handleSelectPaymentMethod = async (method: PaymentMethodChoice) => {
+  const handleSelectPaymentMethod = async (method: PaymentMethodChoice, paymentPlan?: 'installments') => {
     if (!listing) return;
     // FIX-001: Prevent double-submit on checkout
     if (checkoutInFlight) {
@@ -885,6 +896,7 @@ export default function ListingDetailClient() {
       const { createCheckoutSession } = await import('@/lib/stripe/api');
       const { url } = await createCheckoutSession(listing.id, undefined, method, qty, {
         buyerAcksAnimalRisk: isAnimalListing ? animalRiskAcked : undefined,
+        paymentPlan,
       });
       window.location.href = url;
     } catch (error: any) {
@@ -1142,7 +1154,7 @@ export default function ListingDetailClient() {
                     )}
                     {(listing!.type === 'fixed' || listing!.type === 'classified') && checkoutAmountUsd > 0 && (
                       <div className="text-sm text-muted-foreground">
-                        20% deposit at checkout: ${depositAmountUsd.toLocaleString()}. Balance due before delivery.
+                        {describeDeposit(depositTerms)} at checkout: ${depositAmountUsd.toLocaleString()}. {describeBalanceDue(depositTerms)}.
                       </div>
                     )}
                   </div>
@@ -1572,8 +1584,8 @@ export default function ListingDetailClient() {
                     )}
                     {(listing!.type === 'fixed' || listing!.type === 'classified' || listing!.type === 'auction') && checkoutAmountUsd > 0 ? (
                       <div className="text-xs text-muted-foreground space-y-0.5">
-                        <div>20% deposit at checkout: ${depositAmountUsd.toLocaleString()}</div>
-                        <div>Balance due before delivery.</div>
+                        <div>{describeDeposit(depositTerms)} at checkout: ${depositAmountUsd.toLocaleString()}</div>
+                        <div>{describeBalanceDue(depositTerms)}.</div>
                       </div>
                     ) : null}
                     {listing!.type === 'auction' && listing!.startingBid ? (
@@ -2575,9 +2587,14 @@ export default function ListingDetailClient() {
           if (!open) setPendingCheckout(null);
         }}
         amountUsd={(listing?.type === 'fixed' || listing?.type === 'classified' || listing?.type === 'auction') ? depositAmountUsd : checkoutAmountUsd}
-        onSelect={handleSelectPaymentMethod}
+        onSelect={(method) => handleSelectPaymentMethod(method)}
         isAuthenticated={!!user}
         isEmailVerified={!!user?.emailVerified}
+        installmentOption={
+          installmentSummary
+            ? { summary: installmentSummary, onSelect: () => handleSelectPaymentMethod('card', 'installments') }
+            : null
+        }
       />
 
       <CheckoutStartErrorDialog
@@ -35,7 +35,8 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ListingDetailSkeleton } from '@/components/skeletons/ListingDetailSkeleton';
-import { CHECKOUT_DEPOSIT_PERCENT } from '@/lib/pricing/plans';
+import { describeBalanceDue, describeDeposit, getListingDepositTerms, quoteDeposit } from '@/lib/pricing/deposit';
+import { describeInstallmentPlan, getListingInstallmentPlan, isInstallmentEligible } from '@/lib/pricing/installments';
 import { Separator } from '@/components/ui/separator';
 import {
   Accordion,
@@ -61,6 +62,9 @@ import { useToast } from '@/hooks/use-toast';
 import { useFavorites } from '@/hooks/use-favorites';
 import { useRecentlyViewed } from '@/hooks/use-recently-viewed';
 import { CountdownTimer } from '@/components/auction/CountdownTimer';
+import { SoftCloseNotice } from '@/components/auction/SoftCloseNotice';
+import { ScheduledStartNotice } from '@/components/listing/ScheduledStartNotice';
+import { AnimalTransferHistory } from '@/components/listing/AnimalTransferHistory';
 import { BidHistory } from '@/components/auction/BidHistory';
 import { BidIncrementCalculator } from '@/components/auction/BidIncrementCalculator';
 import { AutoBidPanel } from '@/components/auction/AutoBidPanel';
@@ -68,7 +72,9 @@ import { EnhancedSellerProfile } from '@/components/listing/EnhancedSellerProfil
 import { ComplianceBadges } from '@/components/compliance/TrustBadges';
 import { KeyFactsPanel } from '@/components/listing/KeyFactsPanel';
 import { OfferPanel } from '@/components/offers/OfferPanel';
-import { Share2, Heart } from 'lucide-react';
+import { AddToCartButton } from '@/components/cart/AddToCartButton';
+import { ReportDialog } from '@/components/safety/ReportDialog';
+import { Share2, Heart, Flag } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { formatUserFacingError } from '@/lib/format-user-facing-error';
 import { subscribeToListing } from '@/lib/firebase/listings';
@@ -100,6 +106,11 @@ import { isAnimalCategory } from '@/lib/compliance/requirements';
 import { AnimalRiskAcknowledgmentDialog } from '@/components/legal/AnimalRiskAcknowledgmentDialog';
 import { DELIVERY_TIMEFRAME_OPTIONS, getDeliveryTimeframeLabel } from '@/components/browse/filters/constants';
 import { AddressPickerModal } from '@/components/address/AddressPickerModal';
+import { MovementRequirementsNotice } from '@/components/compliance/MovementRequirementsNotice';
+import { getMovementRequirements } from '@/lib/compliance/stateRules';
+import { getAddressById, getCheckoutDeliveryAddress } from '@/lib/firebase/addresses';
+import { getUserProfile } from '@/lib/firebase/users';
+import { getIncrementFromLadder, getMinNextBidCents, resolveBidIncrementLadder } from '@/lib/auctions/bidIncrements';
 
 const useAddressPicker =
   typeof process !== 'undefined' &&
@@ -167,6 +178,7 @@ export default function ListingDetailInteractiveClient({
     technical?: string;
   } | null>(null);
   const [wireDialogOpen, setWireDialogOpen] = useState(false);
+  const [reportOpen, setReportOpen] = useState(false);
   const [wireData, setWireData] = useState<null | {
     orderId: string;
     paymentIntentId: string;
@@ -176,16 +188,21 @@ export default function ListingDetailInteractiveClient({
   const [sellerReviewsLoading, setSellerReviewsLoading] = useState(false);
   const [animalAckOpen, setAnimalAckOpen] = useState(false);
   const [animalRiskAcked, setAnimalRiskAcked] = useState(false);
+  const [checkoutDestinationState, setCheckoutDestinationState] = useState<string | null>(null);
   const { toast } = useToast();
   const { user, initialized: authInitialized } = useAuth();
   const { isFavorite, toggleFavorite } = useFavorites();
   const { addToListing: addToRecentlyViewed } = useRecentlyViewed();
   const isSold = listing?.status === 'sold';
+  // Approved with a future start: show the "Starts in" notice instead of bid/buy/offer actions.
+  const isScheduled = listing?.status === 'scheduled';
   const endsAtRaw = (listing as any)?.endsAt;
   const soldAtRaw = (listing as any)?.soldAt;
   const endsAtDate = useMemo(() => toDateSafe(endsAtRaw), [endsAtRaw]);
   const endsAtMs = useMemo(() => (endsAtDate ? endsAtDate.getTime() : null), [endsAtDate]);
   const soldAtDate = useMemo(() => toDateSafe(soldAtRaw), [soldAtRaw]);
+  const startAtRaw = (listing as any)?.startAt;
+  const startAtDate = useMemo(() => toDateSafe(startAtRaw), [startAtRaw]);
 
   // Per-user: show "You're the highest bidder" only when the signed-in viewer is the current high bidder on an active auction.
   // Use normalized string comparison so WINNING/OUTBID matches bids/mine and backend.
@@ -327,11 +344,53 @@ export default function ListingDetailInteractiveClient({
     return 0;
   }, [listing, winningBidAmount, pendingCheckout?.amountUsd, buyQuantity, buyQuantityMale, buyQuantityFemale]);
 
+  // Destination for movement paperwork: the delivery address picked for this listing, else the buyer's profile state.
+  useEffect(() => {
+    if (!paymentDialogOpen || !user?.uid || !listing || !isAnimalCategory(listing.category as any)) return;
+    let cancelled = false;
+    (async () => {
+      let state: string | null = null;
+      try {
+        const current = await getCheckoutDeliveryAddress(user.uid);
+        if (current?.deliveryAddressId && current.listingId === listing.id) {
+          state = (await getAddressById(user.uid, current.deliveryAddressId))?.state || null;
+        }
+        if (!state) state = (await getUserProfile(user.uid))?.profile?.location?.state || null;
+      } catch {
+        // best-effort: the notice falls back to the listing's own state
+      }
+      if (!cancelled) setCheckoutDestinationState(state);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [paymentDialogOpen, user?.uid, listing]);
+
+  const movementRequirements = useMemo(() => {
+    if (!listing || !isAnimalCategory(listing.category as any)) return null;
+    return getMovementRequirements({
+      category: listing.category as any,
+      attributes: listing.attributes as any,
+      originState: listing.location?.state,
+      destinationState: checkoutDestinationState,
+    });
+  }, [listing, checkoutDestinationState]);
+
+  const depositTerms = useMemo(() => getListingDepositTerms(listing), [listing]);
+  const installmentPlan = useMemo(() => getListingInstallmentPlan(listing), [listing]);
+  const installmentSummary = useMemo(
+    () =>
+      installmentPlan && isInstallmentEligible(checkoutAmountUsd, installmentPlan)
+        ? describeInstallmentPlan(checkoutAmountUsd, installmentPlan)
+        : null,
+    [installmentPlan, checkoutAmountUsd]
+  );
+
   const depositAmountUsd = useMemo(() => {
     if (!listing) return 0;
     if (listing.type !== 'fixed' && listing.type !== 'classified' && listing.type !== 'auction') return 0;
-    return Math.round(checkoutAmountUsd * CHECKOUT_DEPOSIT_PERCENT * 100) / 100;
-  }, [listing, checkoutAmountUsd]);
+    return quoteDeposit(checkoutAmountUsd, depositTerms, buyQuantity).depositAmount;
+  }, [listing, checkoutAmountUsd, depositTerms, buyQuantity]);
 
   const buyNowAvailability = useMemo(() => {
     if (!listing) return { total: 1, available: 1, canChooseQuantity: false, canChooseQuantityBySex: false, isGroupListing: false, allowBuyNow: true, availableLabel: '1 available', availableMale: 0, availableFemale: 0 };
@@ -486,6 +545,8 @@ export default function ListingDetailInteractiveClient({
     };
   }, [listing?.id, listing?.category, listing?.location?.state, compsWindowDays]);
 
+  const bidIncrementLadder = useMemo(() => resolveBidIncrementLadder(listing), [listing]);
+
   const minBidUsd = useMemo(() => {
     if (!listing) return 0;
     const starting = Number((listing as any).startingBid ?? 0) || 0;
@@ -493,14 +554,17 @@ export default function ListingDetailInteractiveClient({
     const hasAnyBids =
       Boolean((listing as any).currentBidderId) || Number((listing as any)?.metrics?.bidCount || 0) > 0;
 
-    // Match server behavior:
+    // Match server behavior (same ladder resolver as /api/bids/place):
     // - First bid can be the starting bid (no increment required)
-    // - Once any bids exist, minimum is current + increment (5% / $50 min), rounded to nearest $1.
-    if (!hasAnyBids) return Math.max(0, starting);
-
-    const inc = Math.max(current * 0.05, 50);
-    return Math.ceil(current + inc);
-  }, [listing]);
+    // - Once any bids exist, minimum is current + the category/listing ladder increment, rounded up to $1.
+    const minCents = getMinNextBidCents({
+      currentBidCents: Math.round(current * 100),
+      startingBidCents: Math.round(starting * 100),
+      hasAnyBids,
+      ladder: bidIncrementLadder,
+    });
+    return Math.ceil(minCents / 100);
+  }, [listing, bidIncrementLadder]);
 
   // Scroll to top when listing ID changes
   useEffect(() => {
@@ -874,7 +938,7 @@ export default function ListingDetailInteractiveClient({
     }
   };
 
-  const handleSelectPaymentMethod = async (method: PaymentMethodChoice) => {
+  const handleSelectPaymentMethod = async (method: PaymentMethodChoice, paymentPlan?: 'installments') => {
     if (!listing) return;
     // FIX-001: Prevent double-submit on checkout
     if (checkoutInFlight) {
@@ -914,8 +978,9 @@ export default function ListingDetailInteractiveClient({
         );
       }
       const { createCheckoutSession } = await import('@/lib/stripe/api');
-      const opts: { buyerAcksAnimalRisk?: boolean; quantityMale?: number; quantityFemale?: number } = {
+      const opts: { buyerAcksAnimalRisk?: boolean; quantityMale?: number; quantityFemale?: number; paymentPlan?: 'installments' } = {
         buyerAcksAnimalRisk: isAnimalListing ? animalRiskAcked : undefined,
+        paymentPlan,
       };
       if (buyNowAvailability.canChooseQuantityBySex && qty > 0) {
         opts.quantityMale = Math.min(Math.floor(buyQuantityMale), buyNowAvailability.availableMale);
@@ -955,6 +1020,18 @@ export default function ListingDetailInteractiveClient({
     }
   };
 
+  const handleReport = () => {
+    if (!user) {
+      toast({
+        title: 'Sign in required',
+        description: 'You must be signed in to report a listing.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setReportOpen(true);
+  };
+
   const handleContactSeller = async () => {
     if (!user || !listing) {
       toast({
@@ -1091,6 +1168,17 @@ export default function ListingDetailInteractiveClient({
                 >
                   <Heart className={cn('h-4 w-4 transition-colors duration-200', isFavorite(listing!.id) && 'fill-current')} />
                 </Button>
+                {user?.uid !== listing!.sellerId ? (
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={handleReport}
+                    title="Report listing"
+                    aria-label="Report listing"
+                  >
+                    <Flag className="h-4 w-4" />
+                  </Button>
+                ) : null}
               </div>
             </div>
           </CardContent>
@@ -1178,7 +1266,7 @@ export default function ListingDetailInteractiveClient({
                     )}
                     {(listing!.type === 'fixed' || listing!.type === 'classified') && checkoutAmountUsd > 0 && (
                       <div className="text-sm text-muted-foreground">
-                        20% deposit at checkout: ${depositAmountUsd.toLocaleString()}. Balance due before delivery.
+                        {describeDeposit(depositTerms)} at checkout: ${depositAmountUsd.toLocaleString()}. {describeBalanceDue(depositTerms)}.
                       </div>
                     )}
                   </div>
@@ -1210,7 +1298,11 @@ export default function ListingDetailInteractiveClient({
                 </Card>
               )}
 
-              {!isSold && listing!.type === 'auction' && endsAtMs && endsAtMs > Date.now() && (
+              {isScheduled && startAtDate ? (
+                <ScheduledStartNotice startAt={startAtDate} listingType={listing!.type} className="mb-4" />
+              ) : null}
+
+              {!isSold && !isScheduled && listing!.type === 'auction' && endsAtMs && endsAtMs > Date.now() && (
                 <Card className="border-2 shadow-lg bg-card">
                   <CardHeader className="pb-4 border-b">
                     <CardTitle className="text-lg font-bold">Place Your Bid</CardTitle>
@@ -1235,6 +1327,7 @@ export default function ListingDetailInteractiveClient({
                         ⏰ Time Remaining
                       </div>
                       <CountdownTimer endDate={endsAtDate || undefined} variant="default" />
+                      <SoftCloseNotice listing={listing!} />
                     </div>
 
                     <Separator />
@@ -1253,7 +1346,7 @@ export default function ListingDetailInteractiveClient({
               )}
 
               {/* Buy Now / Contact Seller - For Fixed/Classified (Mobile Only) */}
-              {!isSold && listing!.type !== 'auction' && (
+              {!isSold && !isScheduled && listing!.type !== 'auction' && (
                 <Card className="border-2">
                   <CardContent className="pt-6">
                     {listing!.type === 'fixed' && buyNowAvailability.canChooseQuantityBySex ? (
@@ -1370,6 +1463,20 @@ export default function ListingDetailInteractiveClient({
                             </>
                           )}
                         </Button>
+                        <AddToCartButton
+                          listing={listing!}
+                          quantity={buyQuantity}
+                          {...(buyNowAvailability.canChooseQuantityBySex
+                            ? { quantityMale: buyQuantityMale, quantityFemale: buyQuantityFemale }
+                            : {})}
+                          disabled={
+                            listing!.status !== 'active' ||
+                            !!(listing as any).offerReservedByOfferId ||
+                            !buyNowAvailability.allowBuyNow ||
+                            (buyNowAvailability.canChooseQuantityBySex && buyQuantityMale + buyQuantityFemale < 1)
+                          }
+                          className="w-full mt-2 min-h-[44px] font-semibold"
+                        />
                         {useAddressPicker && user?.uid && (
                           <button
                             type="button"
@@ -1397,7 +1504,7 @@ export default function ListingDetailInteractiveClient({
               )}
 
               {/* Best Offer (Mobile) */}
-              {!isSold ? <div className="mt-5"><OfferPanel listing={listing!} /></div> : null}
+              {!isSold && !isScheduled ? <div className="mt-5"><OfferPanel listing={listing!} /></div> : null}
 
               {/* Bid History - For Auctions (Mobile Only, Below Bidding Section) */}
               {listing!.type === 'auction' && (
@@ -1677,8 +1784,8 @@ export default function ListingDetailInteractiveClient({
                     )}
                     {(listing!.type === 'fixed' || listing!.type === 'classified' || listing!.type === 'auction') && checkoutAmountUsd > 0 ? (
                       <div className="text-xs text-muted-foreground space-y-0.5">
-                        <div>20% deposit at checkout: ${depositAmountUsd.toLocaleString()}</div>
-                        <div>Balance due before delivery.</div>
+                        <div>{describeDeposit(depositTerms)} at checkout: ${depositAmountUsd.toLocaleString()}</div>
+                        <div>{describeBalanceDue(depositTerms)}.</div>
                       </div>
                     ) : null}
                     {listing!.type === 'auction' && listing!.startingBid ? (
@@ -1811,11 +1918,16 @@ export default function ListingDetailInteractiveClient({
 
                   <Separator />
 
+                      {isScheduled && startAtDate ? (
+                        <ScheduledStartNotice startAt={startAtDate} listingType={listing!.type} />
+                      ) : null}
+
                       {/* Countdown - Very Prominent for Auctions */}
-                      {!isSold && listing!.type === 'auction' && endsAtDate && (
+                      {!isSold && !isScheduled && listing!.type === 'auction' && endsAtDate && (
                         <div className="space-y-3">
                           <div className="text-xs font-bold text-muted-foreground uppercase tracking-wide">Time remaining</div>
                           <CountdownTimer endDate={endsAtDate} variant="default" />
+                          <SoftCloseNotice listing={listing!} />
                         </div>
                       )}
 
@@ -1871,7 +1983,7 @@ export default function ListingDetailInteractiveClient({
                         </div>
                       )}
                       {/* Auction Active - Place Bid */}
-                      {!isSold && listing!.type === 'auction' && endsAtMs && endsAtMs > Date.now() && (
+                      {!isSold && !isScheduled && listing!.type === 'auction' && endsAtMs && endsAtMs > Date.now() && (
                         <Dialog open={showBidDialog} onOpenChange={setShowBidDialog}>
                           <DialogTrigger asChild>
                             <Button 
@@ -1895,7 +2007,7 @@ export default function ListingDetailInteractiveClient({
                               const bidCount = Number((listing as any)?.metrics?.bidCount || 0) || 0;
                               const hasAnyBids = Boolean((listing as any)?.currentBidderId) || bidCount > 0;
                               const current = Number(currentBid) || 0;
-                              const inc = Math.max(current * 0.05, 50);
+                              const inc = getIncrementFromLadder(Math.round(current * 100), bidIncrementLadder) / 100;
                               const q1 = Math.max(0, minBidUsd);
                               const q2 = Math.ceil(q1 + inc);
                               const q3 = Math.ceil(q1 + inc * 2);
@@ -2010,7 +2122,7 @@ export default function ListingDetailInteractiveClient({
                         </Dialog>
                       )}
 
-                      {!isSold && listing!.type === 'fixed' && (
+                      {!isSold && !isScheduled && listing!.type === 'fixed' && (
                         <div className="space-y-3">
                           {buyNowAvailability.canChooseQuantityBySex ? (
                             <div className="space-y-2">
@@ -2124,6 +2236,20 @@ export default function ListingDetailInteractiveClient({
                             </>
                           )}
                         </Button>
+                        <AddToCartButton
+                          listing={listing!}
+                          quantity={buyQuantity}
+                          {...(buyNowAvailability.canChooseQuantityBySex
+                            ? { quantityMale: buyQuantityMale, quantityFemale: buyQuantityFemale }
+                            : {})}
+                          disabled={
+                            listing!.status !== 'active' ||
+                            !!(listing as any).offerReservedByOfferId ||
+                            !buyNowAvailability.allowBuyNow ||
+                            (buyNowAvailability.canChooseQuantityBySex && buyQuantityMale + buyQuantityFemale < 1)
+                          }
+                          className="w-full mt-2 min-h-[44px] font-semibold"
+                        />
                         {useAddressPicker && user?.uid && (
                           <button
                             type="button"
@@ -2136,7 +2262,7 @@ export default function ListingDetailInteractiveClient({
                         </div>
                       )}
 
-                      {!isSold && listing!.type === 'classified' && (
+                      {!isSold && !isScheduled && listing!.type === 'classified' && (
                         <Button 
                           size="lg" 
                           variant="outline" 
@@ -2149,7 +2275,7 @@ export default function ListingDetailInteractiveClient({
                       )}
 
                       {/* Best Offer (Desktop sidebar) */}
-                      {!isSold ? <div className="mt-5"><OfferPanel listing={listing!} /></div> : null}
+                      {!isSold && !isScheduled ? <div className="mt-5"><OfferPanel listing={listing!} /></div> : null}
 
                   {/* Watch Button - Secondary Action */}
                   <Button
@@ -2437,6 +2563,9 @@ export default function ListingDetailInteractiveClient({
                       <div className="mt-2">
                         <ComplianceBadges listing={listing!} variant="inline" />
                       </div>
+                      {listing!.animalIds?.length ? (
+                        <AnimalTransferHistory listingId={listing!.id} className="mt-4 border-t pt-3" />
+                      ) : null}
                     </div>
                   ) : null}
                 </CardContent>
@@ -2687,9 +2816,15 @@ export default function ListingDetailInteractiveClient({
           if (!open) setPendingCheckout(null);
         }}
         amountUsd={(listing?.type === 'fixed' || listing?.type === 'classified' || listing?.type === 'auction') ? depositAmountUsd : checkoutAmountUsd}
-        onSelect={handleSelectPaymentMethod}
+        onSelect={(method) => handleSelectPaymentMethod(method)}
         isAuthenticated={!!user}
         isEmailVerified={!!user?.emailVerified}
+        installmentOption={
+          installmentSummary
+            ? { summary: installmentSummary, onSelect: () => handleSelectPaymentMethod('card', 'installments') }
+            : null
+        }
+        notice={<MovementRequirementsNotice requirements={movementRequirements} />}
       />
 
       <CheckoutStartErrorDialog
@@ -2710,6 +2845,16 @@ export default function ListingDetailInteractiveClient({
 
       <WireInstructionsDialog open={wireDialogOpen} onOpenChange={setWireDialogOpen} data={wireData} />
 
+      {user?.uid ? (
+        <ReportDialog
+          open={reportOpen}
+          onOpenChange={setReportOpen}
+          targetType="listing"
+          targetId={listing!.id}
+          targetLabel={listing!.title}
+        />
+      ) : null}
+
       {useAddressPicker && user?.uid && (
         <AddressPickerModal
           open={addressPickerOpen}
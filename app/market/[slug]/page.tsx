@@ -0,0 +1,187 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import type { Metadata } from 'next';
+import { BRAND_DISPLAY_NAME } from '@/lib/brand';
+import { formatUsdFromCents } from '@/lib/listings/sold';
+import { getMarketDef, type MarketReport, type MarketWindowStats } from '@/lib/market/marketIndex';
+import { getMarketReport } from '@/lib/server/marketReports';
+import { MarketPriceChart } from '@/components/market/MarketPriceChart';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+
+// Regenerated at most hourly; sold data doesn't need to be live.
+export const revalidate = 3600;
+
+type Params = { slug: string };
+type SearchParams = { state?: string };
+
+/** Resolve params (Next 14 = object, Next 15 = Promise) */
+async function resolve<T extends object>(v: Promise<T> | T | undefined): Promise<T> {
+  if (!v) return {} as T;
+  return typeof (v as Promise<T>).then === 'function' ? await (v as Promise<T>) : (v as T);
+}
+
+function normalizeState(raw: unknown): string | null {
+  const s = typeof raw === 'string' ? raw.trim().toUpperCase() : '';
+  return /^[A-Z]{2}$/.test(s) ? s : null;
+}
+
+export async function generateMetadata({ params }: { params: Promise<Params> | Params }): Promise<Metadata> {
+  const { slug } = await resolve(params);
+  const def = getMarketDef(slug);
+  if (!def) return { title: `Market prices | ${BRAND_DISPLAY_NAME}` };
+  const title = `${def.label} prices & market report | ${BRAND_DISPLAY_NAME}`;
+  const description = `Recent ${def.label} sale prices on ${BRAND_DISPLAY_NAME}: median, typical range, sales volume, and auction vs. fixed-price mix over the last 30, 90, and 365 days.`;
+  return {
+    title,
+    description,
+    openGraph: { title, description, type: 'website', url: `/market/${def.slug}` },
+    alternates: { canonical: `/market/${def.slug}` },
+  };
+}
+
+function priceOrDash(cents: number | null): string {
+  return cents === null ? '—' : formatUsdFromCents(cents);
+}
+
+function WindowCard({ stats }: { stats: MarketWindowStats }) {
+  const auctionPct = stats.count ? Math.round((stats.auctionCount / stats.count) * 100) : 0;
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-semibold text-muted-foreground">Last {stats.days} days</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="text-2xl font-extrabold tracking-tight">{priceOrDash(stats.medianCents)}</div>
+        <div className="text-xs text-muted-foreground">
+          Median of {stats.count.toLocaleString()} sale{stats.count === 1 ? '' : 's'}
+        </div>
+        {stats.count ? (
+          <>
+            <div className="text-sm">
+              Typical range {priceOrDash(stats.p25Cents)} – {priceOrDash(stats.p75Cents)}
+            </div>
+            <div className="space-y-1">
+              <div className="flex h-2 overflow-hidden rounded-full bg-muted">
+                <div className="bg-primary" style={{ width: `${auctionPct}%` }} />
+              </div>
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Auction {auctionPct}%</span>
+                <span>Fixed price {100 - auctionPct}%</span>
+              </div>
+            </div>
+          </>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default async function MarketReportPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<Params> | Params;
+  searchParams?: Promise<SearchParams> | SearchParams;
+}) {
+  const { slug } = await resolve(params);
+  const def = getMarketDef(slug);
+  if (!def) notFound();
+  const state = normalizeState((await resolve(searchParams)).state);
+
+  let report: MarketReport | null = null;
+  try {
+    report = await getMarketReport(def, { state });
+  } catch {
+    report = null;
+  }
+
+  const browseParams = new URLSearchParams({ category: def.category });
+  if (def.field && def.value) browseParams.set(`attr.${def.field}`, def.value);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 md:px-6 py-10 space-y-8 max-w-6xl">
+        <div className="space-y-3">
+          <div className="text-xs uppercase tracking-[0.24em] text-muted-foreground">
+            <Link href="/market" className="hover:underline underline-offset-4">
+              Market prices
+            </Link>
+          </div>
+          <h1 className="text-3xl md:text-5xl font-extrabold tracking-tight font-founders">
+            {def.label} market report{state ? ` — ${state}` : ''}
+          </h1>
+          <p className="text-sm md:text-base text-muted-foreground max-w-2xl">
+            Sale prices from completed {BRAND_DISPLAY_NAME} transactions. Updated hourly.
+          </p>
+          <div className="flex flex-wrap gap-4 pt-1 text-sm font-semibold">
+            <Link href={`/browse?${browseParams.toString()}`} className="text-primary hover:underline underline-offset-4">
+              Browse {def.label} listings
+            </Link>
+            {state ? (
+              <Link href={`/market/${def.slug}`} className="text-primary hover:underline underline-offset-4">
+                All regions
+              </Link>
+            ) : null}
+          </div>
+        </div>
+
+        {!report ? (
+          <div className="rounded-xl border bg-muted/20 p-6 text-sm text-muted-foreground">Market data is temporarily unavailable.</div>
+        ) : (
+          <>
+            <div className="grid gap-4 md:grid-cols-3">
+              {report.windows.map((w) => (
+                <WindowCard key={w.days} stats={w} />
+              ))}
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg font-bold">Median sale price &amp; volume (12 months)</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <MarketPriceChart series={report.series} />
+              </CardContent>
+            </Card>
+
+            {report.regions.length ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg font-bold">By state (last 365 days)</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground">
+                        <th className="py-2 font-semibold">State</th>
+                        <th className="py-2 font-semibold text-right">Sales</th>
+                        <th className="py-2 font-semibold text-right">Median</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.regions.map((r) => (
+                        <tr key={r.state} className={cn('border-t', r.state === state && 'bg-muted/40')}>
+                          <td className="py-2">
+                            <Link
+                              href={`/market/${def.slug}?state=${r.state}`}
+                              className="font-semibold text-primary hover:underline underline-offset-4"
+                            >
+                              {r.state}
+                            </Link>
+                          </td>
+                          <td className="py-2 text-right tabular-nums">{r.count.toLocaleString()}</td>
+                          <td className="py-2 text-right tabular-nums">{priceOrDash(r.medianCents)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </CardContent>
+              </Card>
+            ) : null}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import Link from 'next/link';
+import type { Metadata } from 'next';
+import { BRAND_DISPLAY_NAME } from '@/lib/brand';
+import type { MarketDef } from '@/lib/market/marketIndex';
+import { getActiveMarkets } from '@/lib/server/marketReports';
+
+export const revalidate = 3600;
+
+export const metadata: Metadata = {
+  title: `Market prices | ${BRAND_DISPLAY_NAME}`,
+  description: `Recent sale prices by species and breed on ${BRAND_DISPLAY_NAME}: exotics, whitetail, cattle, farm animals, and working dogs.`,
+  openGraph: {
+    title: `Market prices | ${BRAND_DISPLAY_NAME}`,
+    description: `Recent sale prices by species and breed on ${BRAND_DISPLAY_NAME}.`,
+    type: 'website',
+    url: '/market',
+  },
+  alternates: {
+    canonical: '/market',
+  },
+};
+
+export default async function MarketIndexPage() {
+  let markets: Array<{ def: MarketDef; count: number }> = [];
+  try {
+    markets = await getActiveMarkets();
+  } catch {
+    markets = [];
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 md:px-6 py-10 space-y-8 max-w-6xl">
+        <div className="space-y-3">
+          <div className="text-xs uppercase tracking-[0.24em] text-muted-foreground">{BRAND_DISPLAY_NAME}</div>
+          <h1 className="text-3xl md:text-5xl font-extrabold tracking-tight font-founders">Market prices</h1>
+          <p className="text-sm md:text-base text-muted-foreground max-w-2xl">
+            Trailing 30, 90, and 365-day sale prices by species and breed, from completed transactions.
+          </p>
+        </div>
+
+        {markets.length === 0 ? (
+          <div className="rounded-xl border bg-muted/20 p-6 text-sm text-muted-foreground">No market reports yet. Check back soon.</div>
+        ) : (
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {markets.map(({ def, count }) => (
+              <Link
+                key={def.slug}
+                href={`/market/${def.slug}`}
+                className="rounded-xl border bg-card p-4 hover:border-primary/50 transition-colors"
+              >
+                <div className="font-bold">{def.label}</div>
+                <div className="text-xs text-muted-foreground">
+                  {count.toLocaleString()} sale{count === 1 ? '' : 's'} in the last year
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -51,6 +51,20 @@ import { KeyFactsPanel } from '@/components/listing/KeyFactsPanel';
 import { SellerAnimalAckModal } from '@/components/listing/SellerAnimalAckModal';
 import { Separator } from '@/components/ui/separator';
 import { ListingPhotoPicker, type ListingPhotoSnapshot } from '@/components/photos/ListingPhotoPicker';
+import {
+  DEFAULT_DEPOSIT_TERMS_FORM,
+  DepositTermsFields,
+  depositTermsFormFromListing,
+  depositTermsFromForm,
+  type DepositTermsFormState,
+} from '@/components/listings/DepositTermsFields';
+import {
+  DEFAULT_INSTALLMENT_PLAN_FORM,
+  InstallmentPlanFields,
+  installmentPlanFormFromListing,
+  installmentPlanFromForm,
+  type InstallmentPlanFormState,
+} from '@/components/listings/InstallmentPlanFields';
 
 function parsePriceString(value: string): string {
   return value.replace(/[^\d.]/g, '');
@@ -109,6 +123,8 @@ function EditListingPageContent() {
       allowCounter: boolean;
       offerExpiryHours: number;
     };
+    depositTerms: DepositTermsFormState;
+    installmentPlan: InstallmentPlanFormState;
     // Union (not intersection): attributes vary by category.
     attributes: Partial<ListingAttributes>;
   }>({
@@ -145,6 +161,8 @@ function EditListingPageContent() {
       allowCounter: true,
       offerExpiryHours: 48,
     },
+    depositTerms: DEFAULT_DEPOSIT_TERMS_FORM,
+    installmentPlan: DEFAULT_INSTALLMENT_PLAN_FORM,
     attributes: {},
   });
   const [uploadingImages, setUploadingImages] = useState<Set<string>>(new Set());
@@ -267,6 +285,8 @@ function EditListingPageContent() {
             allowCounter: listing.bestOfferSettings?.allowCounter !== false,
             offerExpiryHours: listing.bestOfferSettings?.offerExpiryHours ?? 48,
           },
+          depositTerms: depositTermsFormFromListing(listing.depositTerms),
+          installmentPlan: installmentPlanFormFromListing(listing.installmentPlan),
           attributes: (listing.attributes || {}) as Partial<ListingAttributes>,
         });
 
@@ -297,6 +317,8 @@ function EditListingPageContent() {
             allowCounter: listing.bestOfferSettings?.allowCounter !== false,
             offerExpiryHours: listing.bestOfferSettings?.offerExpiryHours ?? 48,
           },
+          depositTerms: depositTermsFormFromListing(listing.depositTerms),
+          installmentPlan: installmentPlanFormFromListing(listing.installmentPlan),
           attributes: listing.attributes || {},
         });
         setSellerAnimalAttestationAccepted((listing as any)?.sellerAnimalAttestationAccepted === true);
@@ -1115,6 +1137,24 @@ function EditListingPageContent() {
                   )}
                 </div>
               )}
+
+              {/* Deposit terms (Fixed/Auction); locked once an auction has bids */}
+              {(formData.type === 'fixed' || formData.type === 'auction') && (
+                <DepositTermsFields
+                  value={formData.depositTerms}
+                  onChange={(depositTerms) => setFormData((prev) => ({ ...prev, depositTerms }))}
+                  disabled={isActiveAuctionWithBids}
+                />
+              )}
+
+              {/* Installment plan (Fixed/Auction); locked once an auction has bids */}
+              {(formData.type === 'fixed' || formData.type === 'auction') && (
+                <InstallmentPlanFields
+                  value={formData.installmentPlan}
+                  onChange={(installmentPlan) => setFormData((prev) => ({ ...prev, installmentPlan }))}
+                  disabled={isActiveAuctionWithBids}
+                />
+              )}
             </>
           )}
 
@@ -1970,6 +2010,14 @@ function EditListingPageContent() {
         updates.reservePrice = parseFloat(formData.reservePrice);
       }
     }
+    if ((formData.type === 'fixed' || formData.type === 'auction') && !isActiveAuctionWithBids) {
+      const deposit = depositTermsFromForm(formData.depositTerms);
+      if (!deposit.ok) throw new Error(deposit.message);
+      updates.depositTerms = deposit.terms;
+      const installments = installmentPlanFromForm(formData.installmentPlan);
+      if (!installments.ok) throw new Error(installments.message);
+      updates.installmentPlan = installments.plan;
+    }
 
     // Duration model: allow durationDays changes only while not active.
     if (listingData?.status !== 'active' && isValidDurationDays(formData.durationDays)) {
@@ -2037,6 +2085,8 @@ function EditListingPageContent() {
       transportType: formData.transportType,
       deliveryDetails: formData.deliveryDetails ?? { maxDeliveryRadiusMiles: '', deliveryTimeframe: '', deliveryStatusExplanation: '', deliveryNotes: '' },
       bestOffer: formData.bestOffer,
+      depositTerms: formData.depositTerms,
+      installmentPlan: formData.installmentPlan,
       attributes: formData.attributes,
       sellerAnimalAttestationAccepted: sellerAnimalAttestationAccepted ? true : false,
     });
@@ -1,8 +1,9 @@
 'use client';
 
-import { useState, useMemo, memo, useCallback, useEffect } from 'react';
+import { useState, useMemo, memo, useCallback, useEffect, useRef } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
+import { format } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -38,7 +39,7 @@ import { Listing, ListingStatus, ListingType } from '@/lib/types';
 import { RequireAuth } from '@/components/auth/RequireAuth';
 import { CreateListingGateButton } from '@/components/listings/CreateListingGate';
 import { SellerListingsSkeleton } from '@/components/skeletons/SellerListingsSkeleton';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { getEffectiveListingStatus, isAuctionEnded } from '@/lib/listings/effectiveStatus';
 import {
   Dialog,
@@ -51,10 +52,11 @@ import {
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
 import { AlertTriangle, Trash2 } from 'lucide-react';
+import { SecondChanceOfferDialog } from '@/components/auction/SecondChanceOfferDialog';
 
 // Helper functions outside component to prevent recreation on every render
-const getStatusBadge = (params: { status: string; type?: string; ended?: boolean }) => {
-  const { status, type, ended } = params;
+const getStatusBadge = (params: { status: string; type?: string; ended?: boolean; startAt?: Date }) => {
+  const { status, type, ended, startAt } = params;
   const variants: Record<
     string,
     {
@@ -70,6 +72,10 @@ const getStatusBadge = (params: { status: string; type?: string; ended?: boolean
       label: 'Pending approval',
       className: 'bg-amber-500/10 text-amber-700 border-amber-500/30 dark:bg-amber-500/20 dark:text-amber-300 dark:border-amber-500/40',
     },
+    scheduled: {
+      label: startAt instanceof Date ? `Starts ${format(startAt, 'MMM d, h:mm a')}` : 'Scheduled',
+      className: 'bg-sky-500/10 text-sky-700 border-sky-500/30 dark:bg-sky-500/20 dark:text-sky-300 dark:border-sky-500/40',
+    },
     active: {
       label: 'Active',
       className: 'bg-emerald-500/10 text-emerald-700 border-emerald-500/30 dark:bg-emerald-500/20 dark:text-emerald-300 dark:border-emerald-500/40',
@@ -178,6 +184,7 @@ const ListingRow = memo(({
   onPause, 
   onDelete,
   onReconcileSold,
+  onSecondChance,
   actionLoading,
   orderId,
 }: { 
@@ -190,6 +197,7 @@ const ListingRow = memo(({
   onPause: (listing: Listing) => void;
   onDelete: (listing: Listing) => void;
   onReconcileSold?: (listing: Listing) => void;
+  onSecondChance?: (listing: Listing) => void;
   actionLoading?: string | null;
   /** When sold, order ID for "Manage sale" link */
   orderId?: string;
@@ -279,6 +287,7 @@ const ListingRow = memo(({
           status: effectiveStatus,
           type: listing.type,
           ended: isAuctionEnded(listing),
+          startAt: listing.startAt,
         })}
       </div>
     </td>
@@ -315,6 +324,9 @@ const ListingRow = memo(({
           onPause={() => onPause(listing)}
           onDelete={() => onDelete(listing)}
           onReconcileSold={onReconcileSold ? () => onReconcileSold(listing) : undefined}
+          onSecondChance={
+            onSecondChance && listing.type === 'auction' ? () => onSecondChance(listing) : undefined
+          }
           reconcilingSold={actionLoading === listing.id}
         />
       </div>
@@ -334,6 +346,7 @@ const MobileListingCard = memo(({
   onPause, 
   onDelete,
   onReconcileSold,
+  onSecondChance,
   actionLoading,
   orderId,
 }: { 
@@ -346,6 +359,7 @@ const MobileListingCard = memo(({
   onPause: (listing: Listing) => void;
   onDelete: (listing: Listing) => void;
   onReconcileSold?: (listing: Listing) => void;
+  onSecondChance?: (listing: Listing) => void;
   actionLoading?: string | null;
   orderId?: string;
 }) => (
@@ -390,6 +404,9 @@ const MobileListingCard = memo(({
             onPause={() => onPause(listing)}
             onDelete={() => onDelete(listing)}
             onReconcileSold={onReconcileSold ? () => onReconcileSold(listing) : undefined}
+            onSecondChance={
+              onSecondChance && listing.type === 'auction' ? () => onSecondChance(listing) : undefined
+            }
             reconcilingSold={actionLoading === listing.id}
           />
         </div>
@@ -400,6 +417,7 @@ const MobileListingCard = memo(({
           status: effectiveStatus,
           type: listing.type,
           ended: isAuctionEnded(listing),
+          startAt: listing.startAt,
         })}
       </div>
       <div className="flex items-center justify-between gap-2 min-w-0 mt-1">
@@ -483,6 +501,7 @@ const ListingListRow = memo(({
   onPause,
   onDelete,
   onReconcileSold,
+  onSecondChance,
   actionLoading,
   orderId,
 }: {
@@ -495,6 +514,7 @@ const ListingListRow = memo(({
   onPause: (listing: Listing) => void;
   onDelete: (listing: Listing) => void;
   onReconcileSold?: (listing: Listing) => void;
+  onSecondChance?: (listing: Listing) => void;
   actionLoading?: string | null;
   orderId?: string;
 }) => (
@@ -533,6 +553,7 @@ const ListingListRow = memo(({
           status: effectiveStatus,
           type: listing.type,
           ended: isAuctionEnded(listing),
+          startAt: listing.startAt,
         })}
       </div>
       <div className="flex flex-col sm:flex-row sm:items-baseline sm:gap-4 gap-0.5 text-sm">
@@ -580,6 +601,9 @@ const ListingListRow = memo(({
         onPause={() => onPause(listing)}
         onDelete={() => onDelete(listing)}
         onReconcileSold={onReconcileSold ? () => onReconcileSold(listing) : undefined}
+        onSecondChance={
+          onSecondChance && listing.type === 'auction' ? () => onSecondChance(listing) : undefined
+        }
         reconcilingSold={actionLoading === listing.id}
       />
     </div>
@@ -591,6 +615,7 @@ function SellerListingsPageContent() {
   const { user } = useAuth();
   const { toast } = useToast();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const [searchQuery, setSearchQuery] = useState('');
   const debouncedSearchQuery = useDebounce(searchQuery, 300);
   const [statusFilter, setStatusFilter] = useState<ListingStatus | 'all'>('all');
@@ -613,6 +638,8 @@ function SellerListingsPageContent() {
   const [listingToPublish, setListingToPublish] = useState<Listing | null>(null);
   const [selectedListing, setSelectedListing] = useState<Listing | null>(null);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [secondChanceListing, setSecondChanceListing] = useState<Listing | null>(null);
+  const secondChanceDeepLinkHandled = useRef(false);
 
   // Helper: effective status for a listing, including "sold" when an order exists (webhook may not have updated listing doc)
   const getEffectiveStatusForListing = useCallback(
@@ -775,6 +802,7 @@ function SellerListingsPageContent() {
     { key: 'all', label: 'All' },
     { key: 'active', label: 'Active' },
     { key: 'pending', label: 'Pending approval' },
+    { key: 'scheduled', label: 'Scheduled' },
     { key: 'sold', label: 'Sold' },
     { key: 'expired', label: 'Ended' },
     { key: 'draft', label: 'Draft' },
@@ -907,6 +935,20 @@ function SellerListingsPageContent() {
     [user?.uid, toast, refreshListings]
   );
 
+  const handleSecondChance = useCallback((listing: Listing) => {
+    setSecondChanceListing(listing);
+  }, []);
+
+  // Deep link from the "second chance available" notification: /seller/listings?secondChance=<listingId>
+  useEffect(() => {
+    const target = searchParams?.get('secondChance');
+    if (!target || loading || secondChanceDeepLinkHandled.current) return;
+    const match = listings.find((l) => l.id === target);
+    if (!match) return;
+    secondChanceDeepLinkHandled.current = true;
+    setSecondChanceListing(match);
+  }, [searchParams, listings, loading]);
+
   const handlePublish = useCallback((listing: Listing) => {
     if (!user?.uid) return;
     if (listing.status !== 'draft') {
@@ -1325,6 +1367,7 @@ function SellerListingsPageContent() {
                       onPause={handlePause}
                       onDelete={handleDelete}
                       onReconcileSold={handleReconcileSold}
+                      onSecondChance={handleSecondChance}
                       actionLoading={actionLoading}
                       orderId={soldListingToOrderId[listing.id]}
                     />
@@ -1384,6 +1427,7 @@ function SellerListingsPageContent() {
                             onPause={handlePause}
                             onDelete={handleDelete}
                             onReconcileSold={handleReconcileSold}
+                            onSecondChance={handleSecondChance}
                             actionLoading={actionLoading}
                             orderId={soldListingToOrderId[listing.id]}
                           />
@@ -1405,6 +1449,7 @@ function SellerListingsPageContent() {
                         onPause={handlePause}
                         onDelete={handleDelete}
                         onReconcileSold={handleReconcileSold}
+                        onSecondChance={handleSecondChance}
                         actionLoading={actionLoading}
                         orderId={soldListingToOrderId[listing.id]}
                       />
@@ -1618,6 +1663,15 @@ function SellerListingsPageContent() {
           </DialogContent>
         </Dialog>
 
+        <SecondChanceOfferDialog
+          open={!!secondChanceListing}
+          onOpenChange={(open) => {
+            if (!open) setSecondChanceListing(null);
+          }}
+          listingId={secondChanceListing?.id || null}
+          listingTitle={secondChanceListing?.title}
+          onSent={() => void refreshListings()}
+        />
       </div>
     </div>
   );
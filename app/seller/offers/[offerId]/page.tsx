@@ -16,18 +16,22 @@ import { formatUserFacingError } from '@/lib/format-user-facing-error';
 import { getOffer, acceptOffer, counterOffer, declineOffer } from '@/lib/offers/api';
 import { formatOfferHistoryLabel, offerStatusBadgeVariant } from '@/lib/offers/format';
 import { OfferAcceptedSuccessModal } from '@/components/offers/OfferAcceptedSuccessModal';
+import { BuyerReputationPanel } from '@/components/seller/BuyerReputationSummary';
+import type { BuyerReputationSummary } from '@/lib/reviews/buyerReputation';
 import { cn } from '@/lib/utils';
 
 type OfferDTO = {
   offerId: string;
   listingId: string;
   listingSnapshot?: { title?: string; type?: string; category?: string };
+  bundle?: { items: Array<{ listingId: string; title: string; quantity: number; listPrice: number }>; listPriceTotal: number };
   status: string;
   currentAmount: number;
   acceptedAmount?: number;
   lastActorRole?: string;
   expiresAt?: number | null;
   history?: Array<{ type: string; actorRole: string; amount?: number; note?: string; createdAt?: number | null }>;
+  buyerReputation?: BuyerReputationSummary | null;
 };
 
 function formatTimeLeft(expiresAtMs?: number | null): string {
@@ -200,9 +204,34 @@ export default function SellerOfferDetailPage() {
                   )}
                 </div>
 
-                <Button asChild variant="outline" className="w-full sm:w-auto min-h-[44px] border-2 border-primary/40 text-primary hover:bg-primary/10">
-                  <Link href={`/listing/${offer.listingId}`}>View listing</Link>
-                </Button>
+                {offer.bundle ? (
+                  <div className="rounded-xl border border-border bg-muted/20 p-4 space-y-2">
+                    <div className="text-sm font-semibold">Bundle ({offer.bundle.items.length} listings)</div>
+                    {offer.bundle.items.map((item) => (
+                      <div key={item.listingId} className="flex items-center justify-between gap-3 text-sm">
+                        <Link href={`/listing/${item.listingId}`} className="line-clamp-1 hover:underline">
+                          {item.title}
+                          {item.quantity > 1 ? ` × ${item.quantity}` : ''}
+                        </Link>
+                        <span className="tabular-nums text-muted-foreground shrink-0">
+                          {item.listPrice > 0 ? `$${Number(item.listPrice).toLocaleString()}` : '—'}
+                        </span>
+                      </div>
+                    ))}
+                    {offer.bundle.listPriceTotal > 0 ? (
+                      <div className="flex justify-between gap-3 text-sm font-semibold pt-1">
+                        <span>Asking total</span>
+                        <span className="tabular-nums">${Number(offer.bundle.listPriceTotal).toLocaleString()}</span>
+                      </div>
+                    ) : null}
+                  </div>
+                ) : (
+                  <Button asChild variant="outline" className="w-full sm:w-auto min-h-[44px] border-2 border-primary/40 text-primary hover:bg-primary/10">
+                    <Link href={`/listing/${offer.listingId}`}>View listing</Link>
+                  </Button>
+                )}
+
+                <BuyerReputationPanel reputation={offer.buyerReputation} />
 
                 <div className="rounded-xl border border-border bg-muted/20 p-4">
                   <div className="text-sm font-semibold mb-3">Offer history</div>
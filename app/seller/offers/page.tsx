@@ -13,6 +13,8 @@ import { useToast } from '@/hooks/use-toast';
 import { formatUserFacingError } from '@/lib/format-user-facing-error';
 import { getSellerOffers } from '@/lib/offers/api';
 import { SellerOfferDetailModal } from '@/components/offers/SellerOfferDetailModal';
+import { BuyerReputationInline } from '@/components/seller/BuyerReputationSummary';
+import type { BuyerReputationSummary } from '@/lib/reviews/buyerReputation';
 import { subscribeToUnreadCountByTypes, markNotificationsAsReadByTypes } from '@/lib/firebase/notifications';
 import type { NotificationType } from '@/lib/types';
 import Image from 'next/image';
@@ -26,6 +28,7 @@ type OfferRow = {
   currentAmount: number;
   expiresAt?: number | null;
   updatedAt?: number | null;
+  buyerReputation?: BuyerReputationSummary | null;
 };
 
 function formatTimeLeft(expiresAtMs?: number | null): string {
@@ -243,6 +246,7 @@ export default function SellerOffersPage() {
                         <div className="text-xs text-muted-foreground">
                           Buyer: <span className="font-medium">Verified Buyer</span> · Offer #{o.offerId.slice(0, 8)}
                         </div>
+                        <BuyerReputationInline reputation={o.buyerReputation} />
                       </div>
                       <div className="flex items-center gap-2 shrink-0">
                         <Badge variant="secondary" className="text-xs">
@@ -40,6 +40,9 @@ import { cn, formatDate } from '@/lib/utils';
 import { formatUserFacingError } from '@/lib/format-user-facing-error';
 import { OrderDetailSkeleton } from '@/components/skeletons/OrderDetailSkeleton';
 import { AddressMapModal } from '@/components/address/AddressMapModal';
+import { RateBuyerCard } from '@/components/seller/RateBuyerCard';
+import { OrderGroupNotice } from '@/components/orders/OrderGroupNotice';
+import { InstallmentPlanCard } from '@/components/orders/InstallmentPlanCard';
 
 /** Button to generate bill of sale with buyer signature (delivered orders only). */
 function BillOfSaleButton({ orderId, onError, onSuccess }: { orderId: string; onError: (msg: string) => void; onSuccess: (url: string) => void }) {
@@ -699,6 +702,9 @@ export default function SellerOrderDetailPage() {
           }}
         />
 
+        <OrderGroupNotice orderGroupId={order.orderGroupId} />
+        <InstallmentPlanCard plan={order.installmentPlan} />
+
         <div className="grid gap-6 md:grid-cols-2">
           <Card className="border-border/60">
             <CardContent className="pt-6 px-4 sm:px-6 pb-6">
@@ -708,6 +714,8 @@ export default function SellerOrderDetailPage() {
 
         </div>
 
+        {txStatus === 'COMPLETED' || txStatus === 'CANCELLED' ? <RateBuyerCard orderId={order.id} orderStatusKey={txStatus} /> : null}
+
         {/* Propose Delivery Dialog — date + day/night time, mobile-friendly */}
         <Dialog open={scheduleDeliveryOpen} onOpenChange={(open) => {
           setScheduleDeliveryOpen(open);
@@ -46,6 +46,7 @@ import { getUserProfile, isProfileComplete, updateUserProfile } from '@/lib/fire
 import { getEffectiveListingStatus } from '@/lib/listings/effectiveStatus';
 import { PayoutReadinessCard } from '@/components/seller/PayoutReadinessCard';
 import { BreederPermitCard } from '@/components/seller/BreederPermitCard';
+import { SellerStatementsCard } from '@/components/seller/SellerStatementsCard';
 import { useToast } from '@/hooks/use-toast';
 import { resendVerificationEmail } from '@/lib/firebase/auth';
 import { createStripeAccount, createAccountLink } from '@/lib/stripe/api';
@@ -1643,6 +1644,8 @@ export default function SellerOverviewPage() {
           </CardContent>
         </Card>
 
+        <SellerStatementsCard />
+
         {/* Seller command center — mobile: stacked header, touch-friendly buttons */}
         <Card className="rounded-xl border border-border/50 bg-card overflow-hidden">
           <CardHeader className="pb-4 px-3 sm:px-6 pt-4 sm:pt-6">
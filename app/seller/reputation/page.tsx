@@ -29,6 +29,7 @@ import type { UserProfile } from '@/lib/types';
 import { BreederPermitCard } from '@/components/seller/BreederPermitCard';
 import { getSellerStats } from '@/lib/firebase/sellerStats';
 import { formatUserFacingError } from '@/lib/format-user-facing-error';
+import { ReviewSellerResponseEditor } from '@/components/seller/ReviewSellerResponse';
 
 export default function SellerReputationPage() {
   const { user } = useAuth();
@@ -385,6 +386,13 @@ export default function SellerReputationPage() {
                         <div className="mt-2 text-xs text-muted-foreground">
                           {r.createdAt ? new Date(r.createdAt).toLocaleDateString() : '—'}
                         </div>
+                        <ReviewSellerResponseEditor
+                          orderId={r.orderId}
+                          response={r.sellerResponse}
+                          onSaved={(sellerResponse) =>
+                            setReviews((prev) => prev.map((x) => (x.orderId === r.orderId ? { ...x, sellerResponse } : x)))
+                          }
+                        />
                       </div>
                     ))}
                   </div>
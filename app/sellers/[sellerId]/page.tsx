@@ -33,6 +33,7 @@ import { StarRatingReviewCount } from '@/components/seller/StarRatingReviewCount
 import { useToast } from '@/hooks/use-toast';
 import { getOrCreateThread } from '@/lib/firebase/messages';
 import { formatUserFacingError } from '@/lib/format-user-facing-error';
+import { ReviewSellerResponse } from '@/components/seller/ReviewSellerResponse';
 
 export default function SellerProfilePage() {
   const params = useParams<{ sellerId: string }>();
@@ -657,6 +658,7 @@ export default function SellerProfilePage() {
                         <div className="mt-2 text-xs text-muted-foreground">
                           {r.createdAt ? new Date(r.createdAt).toLocaleDateString() : '—'}
                         </div>
+                        <ReviewSellerResponse response={r.sellerResponse} />
                       </div>
                     ))}
                   </div>
@@ -1,6 +1,7 @@
 import type { MetadataRoute } from 'next';
 import { getFieldNotesAuthors, getFieldNotesIndex, getFieldNotesTags } from '@/lib/content/field-notes';
 import { getSiteUrl } from '@/lib/site-url';
+import { getActiveMarkets } from '@/lib/server/marketReports';
 
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   const site = getSiteUrl();
@@ -15,6 +16,7 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     { url: `${site}/field-notes`, lastModified: now, changeFrequency: 'weekly', priority: 0.8 },
     { url: `${site}/field-notes/authors`, lastModified: now, changeFrequency: 'monthly', priority: 0.6 },
     { url: `${site}/field-notes/tags`, lastModified: now, changeFrequency: 'monthly', priority: 0.6 },
+    { url: `${site}/market`, lastModified: now, changeFrequency: 'daily', priority: 0.7 },
     { url: `${site}/contact`, lastModified: now, changeFrequency: 'monthly', priority: 0.5 },
     { url: `${site}/terms`, lastModified: now, changeFrequency: 'yearly', priority: 0.3 },
     { url: `${site}/privacy`, lastModified: now, changeFrequency: 'yearly', priority: 0.3 },
@@ -44,6 +46,20 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     priority: 0.4,
   }));
 
-  return [...staticRoutes, ...postRoutes, ...authorRoutes, ...tagRoutes];
+  // Market reports: only species/breeds with enough recent sales (thin pages stay out of the index).
+  let marketRoutes: MetadataRoute.Sitemap = [];
+  try {
+    const markets = await getActiveMarkets();
+    marketRoutes = markets.map((m) => ({
+      url: `${site}/market/${m.def.slug}`,
+      lastModified: now,
+      changeFrequency: 'daily',
+      priority: 0.6,
+    }));
+  } catch {
+    // Admin SDK not configured (e.g. local build): omit market routes.
+  }
+
+  return [...staticRoutes, ...postRoutes, ...authorRoutes, ...tagRoutes, ...marketRoutes];
 }
 
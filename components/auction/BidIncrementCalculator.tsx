@@ -8,11 +8,14 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { cn } from '@/lib/utils';
+import { DEFAULT_BID_INCREMENT_LADDER, getMinNextBidCents, type BidIncrementLadder } from '@/lib/auctions/bidIncrements';
 
 interface BidIncrementCalculatorProps {
   currentBid?: number;
   startingBid?: number;
   hasAnyBids?: boolean;
+  /** Resolved via resolveBidIncrementLadder(listing); defaults to the platform ladder. */
+  incrementLadder?: BidIncrementLadder;
   onBidChange?: (amount: number) => void;
   className?: string;
 }
@@ -23,6 +26,7 @@ export function BidIncrementCalculator({
   currentBid,
   startingBid = 0,
   hasAnyBids = false,
+  incrementLadder = DEFAULT_BID_INCREMENT_LADDER,
   onBidChange,
   className,
 }: BidIncrementCalculatorProps) {
@@ -32,16 +36,21 @@ export function BidIncrementCalculator({
 
   const baseAmount = currentBid || startingBid || 0;
   
-  // Calculate minimum bid (typically 5% increment)
+  // Calculate minimum bid from the increment ladder
   const minBid = useMemo(() => {
     // Match server behavior:
     // - First bid can be the starting bid (no increment required)
-    // - Once any bids exist, minimum is current + increment (5% / $50 min), rounded to nearest $1.
+    // - Once any bids exist, minimum is current + ladder increment, rounded up to $1.
     if (!hasAnyBids) return startingBid || baseAmount || 0;
     if (baseAmount === 0) return startingBid || 0;
-    const increment = Math.max(baseAmount * 0.05, 50);
-    return Math.ceil(baseAmount + increment);
-  }, [baseAmount, startingBid, hasAnyBids]);
+    const minCents = getMinNextBidCents({
+      currentBidCents: Math.round(baseAmount * 100),
+      startingBidCents: Math.round(startingBid * 100),
+      hasAnyBids,
+      ladder: incrementLadder,
+    });
+    return Math.ceil(minCents / 100);
+  }, [baseAmount, startingBid, hasAnyBids, incrementLadder]);
 
   const suggestedIncrements = useMemo(() => {
     return INCREMENT_PRESETS.map(preset => {
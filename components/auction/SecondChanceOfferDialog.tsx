@@ -0,0 +1,210 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { BuyerReputationInline } from '@/components/seller/BuyerReputationSummary';
+import { getSecondChanceInfo, sendSecondChanceOfferServer, type SecondChanceInfo } from '@/lib/api/secondChance';
+
+const HOURS_OPTIONS = [12, 24, 48, 72];
+
+function formatUsd(n: number): string {
+  return `$${Number(n || 0).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Seller dialog: pick a bidder (ranked by max bid) and send a time-limited second-chance offer
+ * after an auction ended below reserve or the winner didn't pay.
+ */
+export function SecondChanceOfferDialog(props: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  listingId: string | null;
+  listingTitle?: string;
+  onSent?: () => void;
+}) {
+  const { open, onOpenChange, listingId, listingTitle, onSent } = props;
+  const { toast } = useToast();
+
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [info, setInfo] = useState<SecondChanceInfo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [buyerId, setBuyerId] = useState<string>('');
+  const [amount, setAmount] = useState<string>('');
+  const [hours, setHours] = useState<number>(48);
+  const [note, setNote] = useState<string>('');
+
+  useEffect(() => {
+    if (!open || !listingId) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setInfo(null);
+    void getSecondChanceInfo({ auctionId: listingId })
+      .then((res) => {
+        if (cancelled) return;
+        if (!res.ok) {
+          setError(res.error);
+          return;
+        }
+        setInfo(res);
+        setHours(res.defaultExpiresInHours || 48);
+        const top = res.candidates[0];
+        setBuyerId(top?.buyerId || '');
+        setAmount(top ? String(top.maxBid) : '');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, listingId]);
+
+  const amountNum = Number(amount);
+  const canSubmit = Boolean(info?.eligible && buyerId && Number.isFinite(amountNum) && amountNum > 0 && !submitting);
+
+  async function submit() {
+    if (!listingId || !canSubmit) return;
+    setSubmitting(true);
+    try {
+      const res = await sendSecondChanceOfferServer({
+        auctionId: listingId,
+        buyerId,
+        amount: amountNum,
+        expiresInHours: hours,
+        note: note.trim() || undefined,
+      });
+      if (!res.ok) {
+        toast({ title: 'Could not send offer', description: res.error, variant: 'destructive' });
+        return;
+      }
+      toast({ title: 'Second-chance offer sent', description: `The bidder has ${hours} hours to accept.` });
+      onOpenChange(false);
+      onSent?.();
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Second-chance offer</DialogTitle>
+          <DialogDescription>
+            {listingTitle ? `“${listingTitle}” ` : 'This auction '}
+            {info?.status === 'ended_unpaid_expired'
+              ? 'wasn’t paid for by the winner. Offer it to another bidder.'
+              : 'ended below your reserve. Offer it to a bidder at a price you choose.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <div className="text-sm text-destructive">{error}</div>
+        ) : info && info.pending ? (
+          <div className="text-sm text-muted-foreground">
+            A second-chance offer of {formatUsd(info.pending.amount)} is already pending
+            {info.pending.expiresAt ? ` until ${new Date(info.pending.expiresAt).toLocaleString()}` : ''}.
+          </div>
+        ) : info && !info.eligible ? (
+          <div className="text-sm text-muted-foreground">Second-chance offers aren’t available for this auction.</div>
+        ) : info && info.candidates.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No other bidders to send an offer to.</div>
+        ) : info ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Bidder</Label>
+              <div className="space-y-2">
+                {info.candidates.map((c) => (
+                  <button
+                    key={c.buyerId}
+                    type="button"
+                    onClick={() => {
+                      setBuyerId(c.buyerId);
+                      setAmount(String(c.maxBid));
+                    }}
+                    className={cn(
+                      'w-full flex items-center justify-between rounded-lg border px-3 py-2 text-left text-sm transition-colors',
+                      buyerId === c.buyerId ? 'border-primary bg-primary/5' : 'hover:bg-muted/40'
+                    )}
+                  >
+                    <span className="flex flex-col">
+                      <span className="font-semibold">Bidder #{c.rank}</span>
+                      <BuyerReputationInline reputation={c.buyerReputation} />
+                    </span>
+                    <span className="text-muted-foreground">Max bid {formatUsd(c.maxBid)}</span>
+                  </button>
+                ))}
+              </div>
+              {info.reservePrice ? (
+                <div className="text-xs text-muted-foreground">Your reserve was {formatUsd(info.reservePrice)}.</div>
+              ) : null}
+              {info.deadlineAt ? (
+                <div className="text-xs text-muted-foreground">
+                  If no offer is sent by {new Date(info.deadlineAt).toLocaleString()}, the auction relists automatically.
+                </div>
+              ) : null}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="second-chance-amount">Offer price (USD)</Label>
+                <Input
+                  id="second-chance-amount"
+                  type="number"
+                  inputMode="decimal"
+                  min={1}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Expires in</Label>
+                <div className="flex flex-wrap gap-1.5">
+                  {HOURS_OPTIONS.map((h) => (
+                    <Button
+                      key={h}
+                      type="button"
+                      size="sm"
+                      variant={hours === h ? 'default' : 'outline'}
+                      onClick={() => setHours(h)}
+                    >
+                      {h}h
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="second-chance-note">Note (optional)</Label>
+              <Textarea id="second-chance-note" maxLength={500} value={note} onChange={(e) => setNote(e.target.value)} />
+            </div>
+          </div>
+        ) : null}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={submit} disabled={!canSubmit}>
+            {submitting ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+            Send offer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,38 @@
+'use client';
+
+import { Timer } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { resolveSoftCloseConfig } from '@/lib/auctions/softClose';
+
+interface SoftCloseNoticeProps {
+  listing: {
+    softClose?: { enabled?: boolean; windowMinutes?: number; extendMinutes?: number; maxExtensions?: number };
+    softCloseExtensionCount?: number;
+  };
+  className?: string;
+}
+
+/**
+ * Explains the anti-sniping rule under the auction countdown and shows how many times
+ * late bids have already extended the auction.
+ */
+export function SoftCloseNotice({ listing, className }: SoftCloseNoticeProps) {
+  const config = resolveSoftCloseConfig(listing);
+  if (!config.enabled) return null;
+
+  const extensions = Math.max(0, Math.floor(Number(listing.softCloseExtensionCount || 0) || 0));
+
+  return (
+    <div className={cn('flex items-start gap-2 text-xs text-muted-foreground', className)}>
+      <Timer className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" aria-hidden />
+      <span>
+        {extensions > 0 ? (
+          <span className="font-semibold text-foreground">
+            Extended {extensions}× by late bids.{' '}
+          </span>
+        ) : null}
+        Bids in the final {config.windowMinutes} min extend the auction by {config.extendMinutes} min.
+      </span>
+    </div>
+  );
+}
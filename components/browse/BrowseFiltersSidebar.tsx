@@ -20,6 +20,9 @@ import {
   BROWSE_STATES,
   DELIVERY_TIMEFRAME_OPTIONS,
 } from '@/components/browse/filters/constants';
+import { NearMeFilter } from '@/components/browse/filters/NearMeFilter';
+import { CategoryFacetPanel } from '@/components/browse/CategoryFacetPanel';
+import { getCategoryAttributeFacets, type AttributeFacetCounts } from '@/lib/search/categoryFacets';
 
 export function BrowseFiltersSidebar(props: {
   value: FilterState;
@@ -27,9 +30,11 @@ export function BrowseFiltersSidebar(props: {
   onClearAll: () => void;
   /** When provided, Item Location only shows states that have at least one active listing. */
   listingStates?: { value: string; label: string }[] | null;
+  /** Attribute facet counts for `value.category` (from /api/listings/facets). */
+  facetCounts?: AttributeFacetCounts | null;
   className?: string;
 }) {
-  const { value, onChange, onClearAll, listingStates, className } = props;
+  const { value, onChange, onClearAll, listingStates, facetCounts, className } = props;
   const locationStateOptions = listingStates ?? BROWSE_STATES;
   const [speciesQuery, setSpeciesQuery] = useState('');
 
@@ -51,10 +56,13 @@ export function BrowseFiltersSidebar(props: {
     let count = 0;
     if (value.category) count++;
     if (value.location?.state) count++;
+    if (value.near) count++;
+    if (value.deliversToMe) count++;
     if (value.minPrice !== undefined || value.maxPrice !== undefined) count++;
     if (value.species && value.species.length > 0) count++;
     if (value.quantity) count++;
     if (value.healthStatus && value.healthStatus.length > 0) count++;
+    if (value.attributes) count += Object.values(value.attributes).filter((v) => v?.length).length;
     if (value.papers !== undefined) count++;
     if (value.verifiedSeller) count++;
     if (value.transportReady) count++;
@@ -86,7 +94,7 @@ export function BrowseFiltersSidebar(props: {
 
       <Separator className="my-4" />
 
-      <Accordion type="multiple" defaultValue={['category', 'location', 'price', 'showOnly']} className="w-full">
+      <Accordion type="multiple" defaultValue={['category', 'attributes', 'location', 'price', 'showOnly']} className="w-full">
         <AccordionItem value="category">
           <AccordionTrigger className="text-sm font-bold">Category</AccordionTrigger>
           <AccordionContent>
@@ -115,6 +123,22 @@ export function BrowseFiltersSidebar(props: {
           </AccordionContent>
         </AccordionItem>
 
+        {getCategoryAttributeFacets(value.category).length ? (
+          <AccordionItem value="attributes">
+            <AccordionTrigger className="text-sm font-bold">Attributes</AccordionTrigger>
+            <AccordionContent>
+              <CategoryFacetPanel
+                category={value.category}
+                value={value.attributes}
+                onChange={(attributes) => onChange({ ...value, attributes })}
+                counts={facetCounts}
+                layout="stacked"
+                idPrefix="sidebar-facet"
+              />
+            </AccordionContent>
+          </AccordionItem>
+        ) : null}
+
         <AccordionItem value="location">
           <AccordionTrigger className="text-sm font-bold">Location</AccordionTrigger>
           <AccordionContent>
@@ -142,6 +166,7 @@ export function BrowseFiltersSidebar(props: {
                   ))}
                 </SelectContent>
               </Select>
+              <NearMeFilter value={value} onChange={onChange} idPrefix="sidebar-near" />
             </div>
           </AccordionContent>
         </AccordionItem>
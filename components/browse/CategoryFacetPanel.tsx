@@ -0,0 +1,157 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import {
+  getCategoryAttributeFacets,
+  getFacetOptionLabel,
+  type AttributeFacetCounts,
+  type AttributeFacetDef,
+  type AttributeFacetSelections,
+} from '@/lib/search/categoryFacets';
+
+const COLLAPSED_OPTION_LIMIT = 8;
+
+/** Options to render for a facet: known options first (when present in data or selected), then other values by count. */
+function facetOptions(def: AttributeFacetDef, counts: Record<string, number> | undefined, selected: string[]): string[] {
+  const known =
+    def.kind === 'boolean' ? ['true', 'false'] : (def.kind === 'range' ? def.buckets : def.options)?.map((o) => o.value) || [];
+  if (!counts) return Array.from(new Set([...known, ...selected]));
+  const present = known.filter((v) => (counts[v] || 0) > 0 || selected.includes(v));
+  const extra = Object.keys(counts)
+    .filter((v) => !known.includes(v) && (counts[v] || 0) > 0)
+    .sort((a, b) => (counts[b] || 0) - (counts[a] || 0));
+  const missingSelected = selected.filter((v) => !present.includes(v) && !extra.includes(v));
+  return [...present, ...extra, ...missingSelected];
+}
+
+function FacetOptionList(props: {
+  def: AttributeFacetDef;
+  idPrefix: string;
+  selected: string[];
+  counts: Record<string, number> | undefined;
+  onToggle: (value: string, checked: boolean) => void;
+}) {
+  const { def, idPrefix, selected, counts, onToggle } = props;
+  const [expanded, setExpanded] = useState(false);
+  const all = facetOptions(def, counts, selected);
+  const visible = expanded ? all : all.slice(0, COLLAPSED_OPTION_LIMIT);
+
+  if (all.length === 0) return <div className="text-xs text-muted-foreground">No options yet</div>;
+
+  return (
+    <div className="space-y-1">
+      {visible.map((value) => {
+        const id = `${idPrefix}-${def.field}-${value}`;
+        const count = counts?.[value];
+        return (
+          <div key={value} className="flex items-center gap-3 min-h-[36px]">
+            <Checkbox id={id} checked={selected.includes(value)} onCheckedChange={(next) => onToggle(value, next === true)} />
+            <Label htmlFor={id} className="text-sm font-normal cursor-pointer flex-1 flex items-center justify-between gap-2">
+              <span className="truncate">{getFacetOptionLabel(def, value)}</span>
+              {typeof count === 'number' ? <span className="text-xs text-muted-foreground tabular-nums">{count}</span> : null}
+            </Label>
+          </div>
+        );
+      })}
+      {all.length > COLLAPSED_OPTION_LIMIT ? (
+        <Button type="button" variant="ghost" size="sm" className="h-8 px-2 text-xs font-semibold" onClick={() => setExpanded((e) => !e)}>
+          {expanded ? 'Show less' : `Show all ${all.length}`}
+        </Button>
+      ) : null}
+    </div>
+  );
+}
+
+/**
+ * Attribute facets for one category (breed, sex, age, make, year, hours, …) with optional counts.
+ * `layout="bar"` renders a row of dropdown chips (category pages); `layout="stacked"` renders inline
+ * lists (filter sidebar / sheet).
+ */
+export function CategoryFacetPanel(props: {
+  category: string | null | undefined;
+  value: AttributeFacetSelections | undefined;
+  onChange: (next: AttributeFacetSelections | undefined) => void;
+  counts?: AttributeFacetCounts | null;
+  layout?: 'bar' | 'stacked';
+  idPrefix?: string;
+  className?: string;
+}) {
+  const { category, value, onChange, counts, layout = 'bar', idPrefix = 'facet', className } = props;
+  const defs = getCategoryAttributeFacets(category);
+  if (!defs.length) return null;
+
+  const toggle = (field: string, v: string, checked: boolean) => {
+    const cur = value?.[field] || [];
+    const nextValues = checked ? Array.from(new Set([...cur, v])) : cur.filter((x) => x !== v);
+    const next: AttributeFacetSelections = { ...(value || {}) };
+    if (nextValues.length) next[field] = nextValues;
+    else delete next[field];
+    onChange(Object.keys(next).length ? next : undefined);
+  };
+
+  const activeCount = Object.values(value || {}).filter((v) => v?.length).length;
+
+  if (layout === 'stacked') {
+    return (
+      <div className={cn('space-y-4', className)}>
+        {defs.map((def) => (
+          <div key={def.field} className="space-y-2">
+            <Label className="text-xs font-semibold text-muted-foreground">{def.label}</Label>
+            <FacetOptionList
+              def={def}
+              idPrefix={idPrefix}
+              selected={value?.[def.field] || []}
+              counts={counts?.[def.field]}
+              onToggle={(v, checked) => toggle(def.field, v, checked)}
+            />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-2', className)}>
+      {defs.map((def) => {
+        const selected = value?.[def.field] || [];
+        return (
+          <Popover key={def.field}>
+            <PopoverTrigger asChild>
+              <Button
+                type="button"
+                variant={selected.length ? 'default' : 'outline'}
+                size="sm"
+                className="h-9 rounded-full font-semibold"
+              >
+                {def.label}
+                {selected.length ? ` (${selected.length})` : ''}
+                <ChevronDown className="h-4 w-4 ml-1" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="start" className="w-64 max-h-[360px] overflow-y-auto">
+              <FacetOptionList
+                def={def}
+                idPrefix={idPrefix}
+                selected={selected}
+                counts={counts?.[def.field]}
+                onToggle={(v, checked) => toggle(def.field, v, checked)}
+              />
+            </PopoverContent>
+          </Popover>
+        );
+      })}
+      {activeCount > 0 ? (
+        <Button type="button" variant="ghost" size="sm" className="h-9 font-semibold" onClick={() => onChange(undefined)}>
+          <X className="h-4 w-4 mr-1" />
+          Clear
+        </Button>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { FilterState } from '@/lib/types';
+import { DEFAULT_NEAR_RADIUS_MILES, NEAR_RADIUS_OPTIONS } from '@/components/browse/filters/constants';
+
+/**
+ * "Within X miles of ZIP" + "Seller delivers to me" controls (shared by desktop sidebar and mobile sheet).
+ * The ZIP is only applied once it's a full 5-digit code so typing doesn't refetch on every keystroke.
+ */
+export function NearMeFilter(props: { value: FilterState; onChange: (next: FilterState) => void; idPrefix?: string }) {
+  const { value, onChange, idPrefix = 'near' } = props;
+  const appliedZip = value.near?.zip || '';
+  const [zipInput, setZipInput] = useState(appliedZip);
+
+  useEffect(() => {
+    setZipInput(appliedZip);
+  }, [appliedZip]);
+
+  const radiusMiles = value.near?.radiusMiles ?? DEFAULT_NEAR_RADIUS_MILES;
+
+  const applyZip = (raw: string) => {
+    const zip = raw.replace(/\D/g, '').slice(0, 5);
+    setZipInput(zip);
+    if (zip.length === 5 && zip !== appliedZip) {
+      onChange({ ...value, near: { zip, radiusMiles } });
+    } else if (!zip && value.near) {
+      onChange({ ...value, near: undefined });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-zip`} className="text-xs font-semibold text-muted-foreground">
+          Near ZIP
+        </Label>
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            id={`${idPrefix}-zip`}
+            inputMode="numeric"
+            autoComplete="postal-code"
+            placeholder="ZIP code"
+            className="min-h-[44px]"
+            value={zipInput}
+            onChange={(e) => applyZip(e.target.value)}
+          />
+          <Select
+            value={String(radiusMiles)}
+            disabled={!value.near}
+            onValueChange={(r) => {
+              if (!value.near) return;
+              onChange({ ...value, near: { ...value.near, radiusMiles: Number(r) } });
+            }}
+          >
+            <SelectTrigger className="min-h-[44px]">
+              <SelectValue placeholder="Within" />
+            </SelectTrigger>
+            <SelectContent>
+              {NEAR_RADIUS_OPTIONS.map((o) => (
+                <SelectItem key={o.value} value={String(o.value)}>
+                  Within {o.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="flex items-center gap-3 min-h-[40px]">
+        <Checkbox
+          id={`${idPrefix}-deliversToMe`}
+          checked={value.deliversToMe === true}
+          onCheckedChange={(next) => onChange({ ...value, deliversToMe: next ? true : undefined })}
+        />
+        <Label htmlFor={`${idPrefix}-deliversToMe`} className="text-sm font-normal cursor-pointer flex-1">
+          Seller delivers to me
+          <span className="block text-xs text-muted-foreground">Uses your default saved address</span>
+        </Label>
+      </div>
+    </div>
+  );
+}
@@ -157,4 +157,14 @@ export const DELIVERY_TIMEFRAME_OPTIONS: { value: string; label: string }[] = [
 export function getDeliveryTimeframeLabel(value: string | undefined): string | undefined {
   if (!value?.trim()) return undefined;
   return DELIVERY_TIMEFRAME_OPTIONS.find((o) => o.value === value.trim())?.label;
-}
\ No newline at end of file
+}
+/** "Within X miles" choices for the near-me filter (server caps at MAX_SEARCH_RADIUS_MILES). */
+export const NEAR_RADIUS_OPTIONS: { value: number; label: string }[] = [
+  { value: 25, label: '25 mi' },
+  { value: 50, label: '50 mi' },
+  { value: 100, label: '100 mi' },
+  { value: 250, label: '250 mi' },
+  { value: 500, label: '500 mi' },
+];
+
+export const DEFAULT_NEAR_RADIUS_MILES = 100;
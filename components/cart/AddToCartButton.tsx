@@ -0,0 +1,87 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Loader2, ShoppingCart } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ToastAction } from '@/components/ui/toast';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { addToCart } from '@/lib/firebase/cart';
+import { formatUserFacingError } from '@/lib/format-user-facing-error';
+import { getListingDepositTerms } from '@/lib/pricing/deposit';
+import { isGroupLotQuantityMode, type Listing } from '@/lib/types';
+
+/**
+ * Fixed-price listings: add the current quantity selection to the cart so several listings
+ * from one seller can be paid for in one checkout.
+ */
+export function AddToCartButton(props: {
+  listing: Listing;
+  quantity: number;
+  quantityMale?: number;
+  quantityFemale?: number;
+  disabled?: boolean;
+  className?: string;
+}) {
+  const { listing } = props;
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+
+  const onClick = async () => {
+    if (!user) {
+      toast({ title: 'Sign in required', description: 'Sign in to add listings to your cart.', variant: 'destructive' });
+      return;
+    }
+    if (user.uid === listing.sellerId) {
+      toast({ title: 'You can’t buy your own listing', variant: 'destructive' });
+      return;
+    }
+    setSaving(true);
+    try {
+      const bySex = typeof props.quantityMale === 'number' || typeof props.quantityFemale === 'number';
+      const cover =
+        [...(listing.photos || [])].sort((a: any, b: any) => Number(a?.sortOrder || 0) - Number(b?.sortOrder || 0))[0]?.url ||
+        listing.images?.[0];
+      await addToCart(user.uid, {
+        listingId: listing.id,
+        sellerId: listing.sellerId,
+        quantity: bySex ? (props.quantityMale ?? 0) + (props.quantityFemale ?? 0) : Math.max(1, props.quantity),
+        ...(bySex ? { quantityMale: props.quantityMale ?? 0, quantityFemale: props.quantityFemale ?? 0 } : {}),
+        listingTitle: listing.title,
+        unitPrice: Number(listing.price) || 0,
+        isGroupLot: isGroupLotQuantityMode((listing as any)?.attributes?.quantityMode),
+        depositTerms: getListingDepositTerms(listing) || undefined,
+        sellerDisplayName: (listing as any)?.sellerSnapshot?.displayName || undefined,
+        coverPhotoUrl: cover || undefined,
+      });
+      toast({
+        title: 'Added to cart',
+        description: 'Check out items from this seller together.',
+        action: (
+          <ToastAction altText="View cart" asChild>
+            <Link href="/dashboard/cart">View cart</Link>
+          </ToastAction>
+        ),
+      });
+    } catch (e: any) {
+      toast({ title: 'Error', description: formatUserFacingError(e, 'Failed to add to cart'), variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      size="lg"
+      onClick={() => void onClick()}
+      disabled={saving || props.disabled}
+      className={props.className}
+    >
+      {saving ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <ShoppingCart className="mr-2 h-5 w-5" />}
+      Add to cart
+    </Button>
+  );
+}
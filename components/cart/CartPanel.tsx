@@ -0,0 +1,243 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Loader2, ShoppingCart, Trash2 } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Separator } from '@/components/ui/separator';
+import { AnimalRiskAcknowledgmentDialog } from '@/components/legal/AnimalRiskAcknowledgmentDialog';
+import { BundleOfferDialog } from '@/components/offers/BundleOfferDialog';
+import { removeCartItem, subscribeCart, updateCartItemQuantity, type CartItem } from '@/lib/firebase/cart';
+import { createCartCheckoutSession } from '@/lib/stripe/api';
+import { buildOrderGroupLine, groupCartItemsBySeller, MAX_ORDER_GROUP_LINES, summarizeOrderGroupLines } from '@/lib/orders/orderGroups';
+import { MAX_BUNDLE_OFFER_LISTINGS } from '@/lib/offers/bundle';
+import { formatUserFacingError } from '@/lib/format-user-facing-error';
+
+function formatUsd(n: number) {
+  return `$${n.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Buyer cart: items grouped by seller, one checkout (and one coordinated delivery) per seller.
+ * Totals here are estimates from the snapshots taken when items were added; checkout re-prices server-side.
+ */
+export function CartPanel() {
+  const { user, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [items, setItems] = useState<CartItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [checkoutSellerId, setCheckoutSellerId] = useState<string | null>(null);
+  const [ackForSellerId, setAckForSellerId] = useState<string | null>(null);
+  const [bundleOfferSellerId, setBundleOfferSellerId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user?.uid) {
+      setItems([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    return subscribeCart(user.uid, (next) => {
+      setItems(next);
+      setLoading(false);
+    });
+  }, [user?.uid]);
+
+  const groups = useMemo(() => groupCartItemsBySeller(items), [items]);
+  const bundleOfferGroup = groups.find((g) => g.sellerId === bundleOfferSellerId) || null;
+
+  const checkout = async (sellerId: string, buyerAcksAnimalRisk?: boolean) => {
+    setCheckoutSellerId(sellerId);
+    try {
+      const { url } = await createCartCheckoutSession(sellerId, { buyerAcksAnimalRisk });
+      window.location.href = url;
+    } catch (e: any) {
+      if (e?.code === 'BUYER_ACK_REQUIRED') {
+        setAckForSellerId(sellerId);
+        return;
+      }
+      toast({ title: 'Checkout failed', description: formatUserFacingError(e, 'Could not start checkout'), variant: 'destructive' });
+    } finally {
+      setCheckoutSellerId(null);
+    }
+  };
+
+  const changeQuantity = async (item: CartItem, raw: string) => {
+    if (!user?.uid) return;
+    const n = Math.floor(Number(raw));
+    if (!Number.isFinite(n) || n < 1 || n > 100 || n === item.quantity) return;
+    try {
+      await updateCartItemQuantity(user.uid, item.listingId, { quantity: n });
+    } catch (e: any) {
+      toast({ title: 'Error', description: formatUserFacingError(e, 'Failed to update quantity'), variant: 'destructive' });
+    }
+  };
+
+  const remove = async (item: CartItem) => {
+    if (!user?.uid) return;
+    try {
+      await removeCartItem(user.uid, item.listingId);
+    } catch (e: any) {
+      toast({ title: 'Error', description: formatUserFacingError(e, 'Failed to remove item'), variant: 'destructive' });
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="flex items-center justify-center py-16 text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-6 max-w-4xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Cart</h1>
+        <p className="text-sm text-muted-foreground">
+          Items from the same seller check out together and share one delivery, address, and bill of sale.
+        </p>
+      </div>
+
+      {groups.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center space-y-3">
+            <ShoppingCart className="h-8 w-8 mx-auto text-muted-foreground" />
+            <div className="text-sm text-muted-foreground">Your cart is empty.</div>
+            <Button asChild variant="outline">
+              <Link href="/browse">Browse listings</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        groups.map((group) => {
+          const lines = group.items.map((i) =>
+            buildOrderGroupLine({
+              listingId: i.listingId,
+              listingTitle: i.listingTitle,
+              unitPrice: Number(i.unitPrice) || 0,
+              quantity: i.quantity,
+              isGroupLot: i.isGroupLot === true,
+              depositTerms: i.depositTerms,
+            })
+          );
+          const totals = summarizeOrderGroupLines(lines);
+          const tooMany = group.items.length > MAX_ORDER_GROUP_LINES;
+          const sellerName = group.items.find((i) => i.sellerDisplayName)?.sellerDisplayName || 'Seller';
+          return (
+            <Card key={group.sellerId}>
+              <CardHeader>
+                <CardTitle className="text-base">{sellerName}</CardTitle>
+                <CardDescription>
+                  {group.items.length} item{group.items.length === 1 ? '' : 's'} · one checkout
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {group.items.map((item, idx) => {
+                  const bySex = typeof item.quantityMale === 'number' || typeof item.quantityFemale === 'number';
+                  return (
+                    <div key={item.id} className="flex items-center gap-3">
+                      {item.coverPhotoUrl ? (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img src={item.coverPhotoUrl} alt="" className="h-14 w-14 rounded-md object-cover border" />
+                      ) : (
+                        <div className="h-14 w-14 rounded-md bg-muted border" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <Link href={`/listing/${item.listingId}`} className="font-semibold text-sm hover:underline line-clamp-1">
+                          {item.listingTitle}
+                        </Link>
+                        <div className="text-xs text-muted-foreground">
+                          {item.isGroupLot ? 'Group lot' : `${formatUsd(Number(item.unitPrice) || 0)} each`}
+                          {bySex ? ` · ${item.quantityMale ?? 0}m / ${item.quantityFemale ?? 0}f` : null}
+                        </div>
+                      </div>
+                      {!bySex && !item.isGroupLot ? (
+                        <Input
+                          type="number"
+                          min={1}
+                          max={100}
+                          defaultValue={item.quantity}
+                          onBlur={(e) => void changeQuantity(item, e.target.value)}
+                          className="w-20"
+                          aria-label={`Quantity for ${item.listingTitle}`}
+                        />
+                      ) : (
+                        <div className="w-20 text-sm text-center">× {item.quantity}</div>
+                      )}
+                      <div className="w-24 text-right text-sm font-semibold">{formatUsd(lines[idx].orderTotal)}</div>
+                      <Button variant="ghost" size="icon" onClick={() => void remove(item)} aria-label={`Remove ${item.listingTitle}`}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+                <Separator />
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                  <div className="text-sm">
+                    <div>
+                      Total <span className="font-semibold">{formatUsd(totals.orderTotal)}</span>
+                    </div>
+                    <div className="text-muted-foreground">
+                      Due now (deposits): <span className="font-semibold text-foreground">{formatUsd(totals.depositCents / 100)}</span>
+                    </div>
+                    {tooMany ? (
+                      <div className="text-destructive text-xs">
+                        Check out at most {MAX_ORDER_GROUP_LINES} items from one seller at a time.
+                      </div>
+                    ) : null}
+                  </div>
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    {group.items.length > 1 && group.items.length <= MAX_BUNDLE_OFFER_LISTINGS ? (
+                      <Button variant="outline" onClick={() => setBundleOfferSellerId(group.sellerId)} className="min-h-[44px]">
+                        Make an offer on all
+                      </Button>
+                    ) : null}
+                    <Button
+                      onClick={() => void checkout(group.sellerId)}
+                      disabled={tooMany || checkoutSellerId !== null}
+                      className="min-h-[44px]"
+                    >
+                      {checkoutSellerId === group.sellerId ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+                      Check out with {sellerName}
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+
+      <BundleOfferDialog
+        open={bundleOfferGroup !== null}
+        onOpenChange={(open) => {
+          if (!open) setBundleOfferSellerId(null);
+        }}
+        sellerName={bundleOfferGroup?.items.find((i) => i.sellerDisplayName)?.sellerDisplayName}
+        items={(bundleOfferGroup?.items || []).map((i) => ({
+          listingId: i.listingId,
+          listingTitle: i.listingTitle,
+          quantity: i.quantity,
+          lineTotal: i.isGroupLot ? Number(i.unitPrice) || 0 : (Number(i.unitPrice) || 0) * i.quantity,
+        }))}
+      />
+
+      <AnimalRiskAcknowledgmentDialog
+        open={ackForSellerId !== null}
+        onOpenChange={(open) => {
+          if (!open) setAckForSellerId(null);
+        }}
+        onConfirm={() => {
+          const sellerId = ackForSellerId;
+          setAckForSellerId(null);
+          if (sellerId) void checkout(sellerId, true);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+/**
+ * Document Extraction Panel (admin)
+ *
+ * Shows the fields proposed from an uploaded permit/CVI (lib/compliance/extraction) with their confidence and
+ * the diff vs the listing's declared attributes, plus the editable fields saved when the document is verified.
+ */
+
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ScanText } from 'lucide-react';
+import type { ComplianceDocument, DocumentExtractionDiff } from '@/lib/types';
+import type { DocumentFieldsForm } from '@/lib/compliance/extraction/fields';
+
+const FIELD_LABELS: Record<string, string> = {
+  permitNumber: 'Permit / certificate #',
+  facilityId: 'Facility ID',
+  issuedAt: 'Issued',
+  expiresAt: 'Expires',
+  issuedBy: 'Issued by',
+  animalIds: 'Animal IDs',
+};
+
+const STATUS_MESSAGES: Record<string, string> = {
+  no_text: 'No embedded text found (likely a scan or photo). Enter the fields by hand.',
+  unsupported: 'This file type is not supported for extraction. Enter the fields by hand.',
+  failed: 'Extraction failed for this file. Enter the fields by hand.',
+};
+
+function ConfidenceBadge({ confidence }: { confidence: number }) {
+  const pct = Math.round(confidence * 100);
+  const variant = confidence >= 0.85 ? 'default' : confidence >= 0.6 ? 'secondary' : 'outline';
+  return <Badge variant={variant}>{pct}%</Badge>;
+}
+
+function DiffRow({ diff }: { diff: DocumentExtractionDiff }) {
+  return (
+    <div className={`text-sm ${diff.match ? 'text-green-700' : 'text-red-700'}`}>
+      {diff.match ? '✓' : '⚠'} {FIELD_LABELS[diff.field] || diff.field}: document{' '}
+      <span className="font-mono">{diff.extracted}</span>, listing <span className="font-mono">{diff.declared}</span>
+    </div>
+  );
+}
+
+export function DocumentExtractionPanel(props: {
+  document: ComplianceDocument;
+  value: DocumentFieldsForm;
+  onChange: (next: DocumentFieldsForm) => void;
+  disabled?: boolean;
+}) {
+  const { document, value, onChange, disabled } = props;
+  const extraction = document.extraction;
+  const fields = extraction?.fields || {};
+  const found = Object.entries(fields).filter(([, f]) => !!f);
+  const set = (key: keyof DocumentFieldsForm) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    onChange({ ...value, [key]: e.target.value });
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 font-semibold">
+          <ScanText className="h-4 w-4" />
+          Extracted fields
+        </div>
+        {extraction?.status === 'extracted' && (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            Overall confidence <ConfidenceBadge confidence={extraction.confidence} />
+          </div>
+        )}
+      </div>
+
+      {!extraction ? (
+        <p className="text-sm text-muted-foreground">No extraction for this upload. Enter the fields by hand.</p>
+      ) : extraction.status !== 'extracted' ? (
+        <p className="text-sm text-muted-foreground">{STATUS_MESSAGES[extraction.status]}</p>
+      ) : found.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Text was read, but no permit fields were recognised.</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {found.map(([key, f]) => (
+            <div key={key} className="flex items-start justify-between gap-2 rounded border bg-muted/30 px-2 py-1.5">
+              <div className="min-w-0">
+                <div className="text-xs text-muted-foreground">{FIELD_LABELS[key] || key}</div>
+                <div className="font-mono text-sm break-words">
+                  {Array.isArray(f!.value) ? f!.value.join(', ') : f!.value}
+                </div>
+              </div>
+              <ConfidenceBadge confidence={f!.confidence} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {extraction?.diffs && extraction.diffs.length > 0 && (
+        <Alert className={extraction.diffs.every((d) => d.match) ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}>
+          <AlertDescription className="space-y-1">
+            {extraction.diffs.map((d) => (
+              <DiffRow key={d.field} diff={d} />
+            ))}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor="doc-field-permit">Permit / certificate #</Label>
+          <Input id="doc-field-permit" value={value.permitNumber} onChange={set('permitNumber')} disabled={disabled} className="font-mono" />
+        </div>
+        <div>
+          <Label htmlFor="doc-field-issued-by">Issued by</Label>
+          <Input id="doc-field-issued-by" value={value.issuedBy} onChange={set('issuedBy')} disabled={disabled} />
+        </div>
+        <div>
+          <Label htmlFor="doc-field-issued-at">Issue date</Label>
+          <Input id="doc-field-issued-at" type="date" value={value.issuedAt} onChange={set('issuedAt')} disabled={disabled} />
+        </div>
+        <div>
+          <Label htmlFor="doc-field-expires-at">Expiration date</Label>
+          <Input id="doc-field-expires-at" type="date" value={value.expiresAt} onChange={set('expiresAt')} disabled={disabled} />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">Saved on the document when you verify it.</p>
+    </div>
+  );
+}
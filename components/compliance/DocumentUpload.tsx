@@ -295,6 +295,9 @@ export function DocumentUpload({
       TITLE: 'Title',
       BILL_OF_SALE: 'Bill of Sale',
       HEALTH_CERTIFICATE: 'Health Certificate',
+      COGGINS_TEST: 'Coggins (EIA) Test',
+      TB_TEST: 'TB Test',
+      BRUCELLOSIS_TEST: 'Brucellosis Test',
       OTHER: 'Other Document',
     };
     return labels[type] || type;
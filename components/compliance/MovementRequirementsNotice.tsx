@@ -0,0 +1,51 @@
+import { FileCheck2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { getComplianceDocumentLabel } from '@/lib/compliance/expiry';
+import type { MovementRequirements } from '@/lib/compliance/stateRules';
+
+/**
+ * Paperwork the animals need for this sale's route (lib/compliance/stateRules.ts), shown at checkout and on the
+ * order page. `verified` marks documents an admin has already verified on the order.
+ */
+export function MovementRequirementsNotice(props: {
+  requirements: MovementRequirements | null;
+  verified?: string[];
+  className?: string;
+}) {
+  const { requirements, verified = [], className } = props;
+  if (!requirements || requirements.documents.length === 0) return null;
+
+  const route =
+    requirements.interstate && requirements.originState && requirements.destinationState
+      ? `${requirements.originState} → ${requirements.destinationState}`
+      : null;
+
+  return (
+    <div className={`flex items-start gap-3 rounded-lg border border-border/60 bg-muted/30 p-3 text-sm ${className || ''}`}>
+      <FileCheck2 className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+      <div className="space-y-1.5 min-w-0">
+        <div className="font-semibold">
+          {route ? `Interstate movement paperwork (${route})` : 'Required movement paperwork'}
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+          {requirements.documents.map((type) => (
+            <Badge key={type} variant={verified.includes(type) ? 'default' : 'outline'} className="text-xs">
+              {getComplianceDocumentLabel(type)}
+              {verified.includes(type) ? ' ✓' : ''}
+            </Badge>
+          ))}
+        </div>
+        {requirements.notes.map((note) => (
+          <div key={note} className="text-xs text-muted-foreground">
+            {note}
+          </div>
+        ))}
+        {requirements.payoutHoldDocuments.length > 0 ? (
+          <div className="text-xs text-muted-foreground">
+            The seller uploads these to the order; payout is held until they are verified.
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
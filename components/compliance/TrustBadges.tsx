@@ -14,7 +14,8 @@ import { getDocuments } from '@/lib/firebase/documents';
 import { useEffect, useState } from 'react';
 import { getPermitExpirationStatus } from '@/lib/compliance/validation';
 import { formatDate } from '@/lib/utils';
-import { isAnimalCategory, isTexasOnlyCategory } from '@/lib/compliance/requirements';
+import { getCategoryRequirements, isAnimalCategory } from '@/lib/compliance/requirements';
+import { getAllowedDestinationStates, MARKET_STATE_NAMES } from '@/lib/compliance/stateRules';
 import {
   Tooltip,
   TooltipContent,
@@ -38,6 +39,9 @@ export function ComplianceBadges({ listing, className, variant = 'inline' }: Tru
     (expirationRaw as any)?.toDate?.() ||
     (expirationRaw instanceof Date ? expirationRaw : null);
   const expStatus = getPermitExpirationStatus(expirationDate);
+  const buyerStates = getCategoryRequirements(listing.category as any).texasOnly
+    ? getAllowedDestinationStates(listing.category as any, listing.location?.state || '')
+    : null;
 
   useEffect(() => {
     const checkDocuments = async () => {
@@ -171,12 +175,18 @@ export function ComplianceBadges({ listing, className, variant = 'inline' }: Tru
           </div>
         ) : null}
 
-        {/* Texas-Only Notice */}
+        {/* Buyer State Notice (lib/compliance/stateRules.ts) */}
         <div className="pt-2 border-t">
-          {isTexasOnlyCategory(listing.category as any) ? (
+          {buyerStates ? (
             <div className="flex items-center gap-2 flex-wrap">
-              <Badge variant="outline" className="text-xs">Texas-only</Badge>
-              <span className="text-xs text-muted-foreground">TX residents only.</span>
+              {buyerStates.length === 1 ? (
+                <>
+                  <Badge variant="outline" className="text-xs">{MARKET_STATE_NAMES[buyerStates[0]]}-only</Badge>
+                  <span className="text-xs text-muted-foreground">{buyerStates[0]} residents only.</span>
+                </>
+              ) : (
+                <span className="text-xs text-muted-foreground">Buyers in {buyerStates.join(', ')} only.</span>
+              )}
             </div>
           ) : null}
           {listing.category === 'whitetail_breeder' ? (
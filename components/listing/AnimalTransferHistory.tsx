@@ -0,0 +1,64 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { History } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+type HistoryEntry = { type: 'LISTED' | 'SOLD' | 'BILL_OF_SALE'; at: string; state: string | null };
+
+const EVENT_LABELS: Record<HistoryEntry['type'], string> = {
+  LISTED: 'Listed',
+  SOLD: 'Sold on Agchange',
+  BILL_OF_SALE: 'Bill of sale issued',
+};
+
+/**
+ * On-platform transfer history of the animal a listing offers (animal registry). Renders nothing until the
+ * animal has changed hands on the platform before.
+ */
+export function AnimalTransferHistory({ listingId, className }: { listingId: string; className?: string }) {
+  const [history, setHistory] = useState<HistoryEntry[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/listings/${encodeURIComponent(listingId)}/animal-history`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (cancelled) return;
+        const entries: HistoryEntry[] = Array.isArray(data?.history) ? data.history : [];
+        setHistory(Number(data?.priorSales || 0) > 0 ? entries : null);
+      })
+      .catch(() => {
+        // Non-blocking: the listing page works without history.
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [listingId]);
+
+  if (!history || history.length === 0) return null;
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center gap-2 text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+        <History className="h-4 w-4" aria-hidden />
+        Transfer history
+      </div>
+      <ol className="space-y-1 text-sm">
+        {history.map((entry, idx) => (
+          <li key={`${entry.type}-${entry.at}-${idx}`} className="flex items-center justify-between gap-3">
+            <span>
+              {EVENT_LABELS[entry.type] || entry.type}
+              {entry.state ? <span className="text-muted-foreground"> · {entry.state}</span> : null}
+            </span>
+            <span className="text-muted-foreground">{format(new Date(entry.at), 'MMM d, yyyy')}</span>
+          </li>
+        ))}
+      </ol>
+      <div className="text-xs text-muted-foreground">
+        Matched by tag, microchip or registration number. Sales made off the platform aren&apos;t shown.
+      </div>
+    </div>
+  );
+}
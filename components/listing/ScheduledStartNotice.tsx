@@ -0,0 +1,43 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarClock } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { CountdownTimer } from '@/components/auction/CountdownTimer';
+import { cn } from '@/lib/utils';
+
+interface ScheduledStartNoticeProps {
+  startAt: Date;
+  listingType: 'auction' | 'fixed' | 'classified' | string;
+  className?: string;
+}
+
+/**
+ * Shown instead of the bid / buy panels while a listing is `scheduled`.
+ * Watchers are notified when it goes live, so the CTA is "add to watchlist".
+ */
+export function ScheduledStartNotice({ startAt, listingType, className }: ScheduledStartNoticeProps) {
+  const [started, setStarted] = useState(() => startAt.getTime() <= Date.now());
+  const handleStart = useCallback(() => setStarted(true), []);
+  const noun = listingType === 'auction' ? 'Bidding' : 'Buying';
+
+  return (
+    <Card className={cn('border-2 border-primary/30 bg-primary/5', className)}>
+      <CardContent className="pt-6 space-y-3">
+        <div className="flex items-center gap-2 text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+          <CalendarClock className="h-4 w-4" aria-hidden />
+          Starts in
+        </div>
+        {started ? (
+          <div className="text-lg font-extrabold">Going live now — refresh in a moment.</div>
+        ) : (
+          <CountdownTimer endDate={startAt} variant="compact" showIcon={false} onEnd={handleStart} className="text-2xl" />
+        )}
+        <div className="text-sm text-muted-foreground">
+          {noun} opens {format(startAt, "EEE, MMM d 'at' h:mm a")}. Watch this listing to get notified when it goes live.
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,235 @@
+'use client';
+
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  BALANCE_DUE_DAYS_MAX,
+  DEPOSIT_PERCENT_MAX,
+  DEPOSIT_PERCENT_MIN,
+  validateListingDepositTerms,
+} from '@/lib/pricing/deposit';
+import { CHECKOUT_DEPOSIT_PERCENT } from '@/lib/pricing/plans';
+import type { ListingDepositTerms } from '@/lib/types';
+
+export type DepositTermsFormState = {
+  enabled: boolean;
+  mode: 'percent' | 'fixed';
+  /** Whole percent as typed, e.g. "30". */
+  percent: string;
+  fixedAmount: string;
+  refundable: boolean;
+  dueMode: 'delivery' | 'days' | 'date';
+  balanceDueDays: string;
+  balanceDueDate: string;
+};
+
+export const DEFAULT_DEPOSIT_TERMS_FORM: DepositTermsFormState = {
+  enabled: false,
+  mode: 'percent',
+  percent: String(Math.round(CHECKOUT_DEPOSIT_PERCENT * 100)),
+  fixedAmount: '',
+  refundable: false,
+  dueMode: 'delivery',
+  balanceDueDays: '',
+  balanceDueDate: '',
+};
+
+export function depositTermsFormFromListing(terms: ListingDepositTerms | null | undefined): DepositTermsFormState {
+  if (!terms) return DEFAULT_DEPOSIT_TERMS_FORM;
+  return {
+    enabled: true,
+    mode: terms.mode,
+    percent: typeof terms.percent === 'number' ? String(Math.round(terms.percent * 100)) : DEFAULT_DEPOSIT_TERMS_FORM.percent,
+    fixedAmount: typeof terms.fixedAmount === 'number' ? String(terms.fixedAmount) : '',
+    refundable: terms.refundable === true,
+    dueMode: typeof terms.balanceDueDays === 'number' ? 'days' : terms.balanceDueDate ? 'date' : 'delivery',
+    balanceDueDays: typeof terms.balanceDueDays === 'number' ? String(terms.balanceDueDays) : '',
+    balanceDueDate: terms.balanceDueDate || '',
+  };
+}
+
+/** Form state → validated listing terms (`null` = platform default). */
+export function depositTermsFromForm(
+  state: DepositTermsFormState
+): { ok: true; terms: ListingDepositTerms | null } | { ok: false; message: string } {
+  if (!state.enabled) return { ok: true, terms: null };
+  return validateListingDepositTerms({
+    mode: state.mode,
+    percent: state.mode === 'percent' ? Number(state.percent) / 100 : undefined,
+    fixedAmount: state.mode === 'fixed' ? Number(state.fixedAmount) : undefined,
+    refundable: state.refundable,
+    balanceDueDays: state.dueMode === 'days' ? Number(state.balanceDueDays) : undefined,
+    balanceDueDate: state.dueMode === 'date' ? state.balanceDueDate : undefined,
+  });
+}
+
+/**
+ * Seller deposit settings: percent or fixed per-head amount, refundability and when the balance is due.
+ * Off = platform default (20% non-refundable, balance at delivery).
+ */
+export function DepositTermsFields(props: {
+  value: DepositTermsFormState;
+  onChange: (next: DepositTermsFormState) => void;
+  disabled?: boolean;
+}) {
+  const { value, onChange, disabled } = props;
+  const set = (patch: Partial<DepositTermsFormState>) => onChange({ ...value, ...patch });
+  const check = depositTermsFromForm(value);
+
+  return (
+    <div className="rounded-xl border bg-muted/10 p-4 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="text-sm font-extrabold tracking-tight">Deposit terms</div>
+          <div className="text-xs text-muted-foreground">
+            Default: {Math.round(CHECKOUT_DEPOSIT_PERCENT * 100)}% non-refundable deposit at checkout, balance due at
+            delivery.
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="deposit-terms-enabled"
+            checked={value.enabled}
+            disabled={disabled}
+            onCheckedChange={(v) => set({ enabled: Boolean(v) })}
+          />
+          <Label htmlFor="deposit-terms-enabled" className="text-sm cursor-pointer">
+            Customize
+          </Label>
+        </div>
+      </div>
+
+      {value.enabled && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label className="text-sm font-semibold">Deposit</Label>
+            <Select
+              value={value.mode}
+              disabled={disabled}
+              onValueChange={(v) => set({ mode: v === 'fixed' ? 'fixed' : 'percent' })}
+            >
+              <SelectTrigger className="min-h-[44px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="percent">Percent of price</SelectItem>
+                <SelectItem value="fixed">Fixed amount per head</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            {value.mode === 'percent' ? (
+              <>
+                <Label htmlFor="deposit-terms-percent" className="text-sm font-semibold">
+                  Deposit percent
+                </Label>
+                <Input
+                  id="deposit-terms-percent"
+                  type="number"
+                  min={DEPOSIT_PERCENT_MIN * 100}
+                  max={DEPOSIT_PERCENT_MAX * 100}
+                  value={value.percent}
+                  disabled={disabled}
+                  onChange={(e) => set({ percent: e.target.value })}
+                  className="min-h-[44px]"
+                />
+              </>
+            ) : (
+              <>
+                <Label htmlFor="deposit-terms-fixed" className="text-sm font-semibold">
+                  Deposit per head ($)
+                </Label>
+                <Input
+                  id="deposit-terms-fixed"
+                  type="number"
+                  min={1}
+                  inputMode="decimal"
+                  value={value.fixedAmount}
+                  disabled={disabled}
+                  onChange={(e) => set({ fixedAmount: e.target.value })}
+                  className="min-h-[44px]"
+                />
+              </>
+            )}
+            <div className="text-xs text-muted-foreground">
+              Always kept between {DEPOSIT_PERCENT_MIN * 100}% and {DEPOSIT_PERCENT_MAX * 100}% of the final price.
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm font-semibold">Balance due</Label>
+            <Select
+              value={value.dueMode}
+              disabled={disabled}
+              onValueChange={(v) => set({ dueMode: v === 'days' || v === 'date' ? v : 'delivery' })}
+            >
+              <SelectTrigger className="min-h-[44px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="delivery">At delivery</SelectItem>
+                <SelectItem value="days">Days after deposit</SelectItem>
+                <SelectItem value="date">By a date</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            {value.dueMode === 'days' ? (
+              <>
+                <Label htmlFor="deposit-terms-days" className="text-sm font-semibold">
+                  Days after deposit
+                </Label>
+                <Input
+                  id="deposit-terms-days"
+                  type="number"
+                  min={1}
+                  max={BALANCE_DUE_DAYS_MAX}
+                  value={value.balanceDueDays}
+                  disabled={disabled}
+                  onChange={(e) => set({ balanceDueDays: e.target.value })}
+                  className="min-h-[44px]"
+                />
+              </>
+            ) : value.dueMode === 'date' ? (
+              <>
+                <Label htmlFor="deposit-terms-date" className="text-sm font-semibold">
+                  Due date
+                </Label>
+                <Input
+                  id="deposit-terms-date"
+                  type="date"
+                  value={value.balanceDueDate}
+                  disabled={disabled}
+                  onChange={(e) => set({ balanceDueDate: e.target.value })}
+                  className="min-h-[44px]"
+                />
+              </>
+            ) : null}
+            {value.dueMode !== 'delivery' ? (
+              <div className="text-xs text-muted-foreground">
+                Buyers get reminders. If the balance isn&apos;t paid within 48 hours of the due date, the order is
+                cancelled and the listing goes back on sale.
+              </div>
+            ) : null}
+          </div>
+
+          <div className="sm:col-span-2 flex items-center gap-2">
+            <Checkbox
+              id="deposit-terms-refundable"
+              checked={value.refundable}
+              disabled={disabled}
+              onCheckedChange={(v) => set({ refundable: Boolean(v) })}
+            />
+            <Label htmlFor="deposit-terms-refundable" className="text-sm cursor-pointer">
+              Refund the deposit if the balance isn&apos;t paid (otherwise you keep it)
+            </Label>
+          </div>
+
+          {!check.ok ? <p className="sm:col-span-2 text-xs text-destructive font-medium">{check.message}</p> : null}
+        </div>
+      )}
+    </div>
+  );
+}
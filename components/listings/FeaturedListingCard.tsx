@@ -6,6 +6,7 @@ import Image from 'next/image';
 import { motion, useReducedMotion } from 'framer-motion';
 import { MapPin, Sparkles, ArrowRight, CheckCircle2 } from 'lucide-react';
 import { Listing } from '@/lib/types';
+import { formatDepositLabel } from '@/lib/pricing/deposit';
 import { getSoldSummary } from '@/lib/listings/sold';
 import { TrustBadges } from '@/components/trust/StatusBadge';
 import { getDeliveryTimeframeLabel } from '@/components/browse/filters/constants';
@@ -265,7 +266,7 @@ export const FeaturedListingCard = forwardRef<HTMLDivElement, FeaturedListingCar
                       {sold.isSold ? sold.soldPriceLabel : priceDisplay}
                     </span>
                     {!sold.isSold && (listing.type === 'fixed' || listing.type === 'classified') && listing.price != null && (
-                      <span className="text-xs text-muted-foreground font-normal">20% deposit at checkout</span>
+                      <span className="text-xs text-muted-foreground font-normal">{formatDepositLabel(listing.depositTerms)} at checkout</span>
                     )}
                     {!sold.isSold && isCurrentHighBidder && (
                       <span className="inline-flex items-center gap-1 text-xs font-semibold text-primary shrink-0" role="status">
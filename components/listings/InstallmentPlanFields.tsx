@@ -0,0 +1,126 @@
+'use client';
+
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  INSTALLMENT_COUNT_MAX,
+  INSTALLMENT_COUNT_MIN,
+  INSTALLMENT_DEFAULT_AFTER_DAYS,
+  INSTALLMENT_INTERVAL_DAYS,
+  INSTALLMENT_MIN_ORDER_TOTAL,
+  validateListingInstallmentPlan,
+} from '@/lib/pricing/installments';
+import type { ListingInstallmentPlan } from '@/lib/types';
+
+export type InstallmentPlanFormState = {
+  enabled: boolean;
+  installmentCount: string;
+  intervalDays: string;
+};
+
+export const DEFAULT_INSTALLMENT_PLAN_FORM: InstallmentPlanFormState = {
+  enabled: false,
+  installmentCount: '4',
+  intervalDays: '30',
+};
+
+export function installmentPlanFormFromListing(plan: ListingInstallmentPlan | null | undefined): InstallmentPlanFormState {
+  if (!plan?.enabled) return DEFAULT_INSTALLMENT_PLAN_FORM;
+  return { enabled: true, installmentCount: String(plan.installmentCount), intervalDays: String(plan.intervalDays) };
+}
+
+/** Form state → validated listing plan (`null` = pay in full). */
+export function installmentPlanFromForm(
+  state: InstallmentPlanFormState
+): { ok: true; plan: ListingInstallmentPlan | null } | { ok: false; message: string } {
+  return validateListingInstallmentPlan({
+    enabled: state.enabled,
+    installmentCount: Number(state.installmentCount),
+    intervalDays: Number(state.intervalDays),
+  });
+}
+
+const COUNT_OPTIONS = Array.from(
+  { length: INSTALLMENT_COUNT_MAX - INSTALLMENT_COUNT_MIN + 1 },
+  (_, i) => INSTALLMENT_COUNT_MIN + i
+);
+
+/**
+ * Seller opt-in for buyer installment plans: number of payments and spacing. Only offered to buyers on orders
+ * of at least `INSTALLMENT_MIN_ORDER_TOTAL`; the animal / equipment is released after the last payment.
+ */
+export function InstallmentPlanFields(props: {
+  value: InstallmentPlanFormState;
+  onChange: (next: InstallmentPlanFormState) => void;
+  disabled?: boolean;
+}) {
+  const { value, onChange, disabled } = props;
+  const set = (patch: Partial<InstallmentPlanFormState>) => onChange({ ...value, ...patch });
+  const check = installmentPlanFromForm(value);
+
+  return (
+    <div className="rounded-xl border bg-muted/10 p-4 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="text-sm font-extrabold tracking-tight">Installment plan</div>
+          <div className="text-xs text-muted-foreground">
+            Let buyers pay orders of ${INSTALLMENT_MIN_ORDER_TOTAL.toLocaleString()}+ by card in equal payments. You
+            release the animal or equipment after the last payment.
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="installment-plan-enabled"
+            checked={value.enabled}
+            disabled={disabled}
+            onCheckedChange={(v) => set({ enabled: Boolean(v) })}
+          />
+          <Label htmlFor="installment-plan-enabled" className="text-sm cursor-pointer">
+            Offer
+          </Label>
+        </div>
+      </div>
+
+      {value.enabled && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label className="text-sm font-semibold">Number of payments</Label>
+            <Select value={value.installmentCount} disabled={disabled} onValueChange={(v) => set({ installmentCount: v })}>
+              <SelectTrigger className="min-h-[44px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COUNT_OPTIONS.map((n) => (
+                  <SelectItem key={n} value={String(n)}>
+                    {n} payments
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm font-semibold">Every</Label>
+            <Select value={value.intervalDays} disabled={disabled} onValueChange={(v) => set({ intervalDays: v })}>
+              <SelectTrigger className="min-h-[44px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INSTALLMENT_INTERVAL_DAYS.map((d) => (
+                  <SelectItem key={d} value={String(d)}>
+                    {d} days
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="sm:col-span-2 text-xs text-muted-foreground">
+            The first payment is taken at checkout instead of a deposit. Buyers get reminders before each due date;
+            plans {INSTALLMENT_DEFAULT_AFTER_DAYS} days behind go to our team for follow-up.
+          </div>
+          {!check.ok ? <p className="sm:col-span-2 text-xs text-destructive font-medium">{check.message}</p> : null}
+        </div>
+      )}
+    </div>
+  );
+}
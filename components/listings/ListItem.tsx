@@ -7,6 +7,7 @@ import { motion } from 'framer-motion';
 import { MapPin, CheckCircle2, Gavel, Tag, Clock, Heart } from 'lucide-react';
 import { format } from 'date-fns';
 import { Listing, WildlifeAttributes, WhitetailBreederAttributes, CattleAttributes, FarmAnimalAttributes, HorseAttributes } from '@/lib/types';
+import { formatDepositLabel } from '@/lib/pricing/deposit';
 import { getSoldSummary } from '@/lib/listings/sold';
 import { TrustBadges } from '@/components/trust/StatusBadge';
 import { Badge } from '@/components/ui/badge';
@@ -17,6 +18,7 @@ import { BROWSE_SPECIES, getDeliveryTimeframeLabel } from '@/components/browse/f
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/hooks/use-auth';
 import { cn } from '@/lib/utils';
+import { formatDistanceMiles } from '@/lib/geo/geohash';
 
 interface ListItemProps {
   listing: Listing;
@@ -25,14 +27,17 @@ interface ListItemProps {
    * watchlistMobile: mobile watchlist list view – photo left; right: watchers, title, price+time, bids; no sold by / trust / specs.
    */
   variant?: 'default' | 'browseMobile' | 'watchlistMobile';
+  /** Miles from the buyer's search center (near-me browse); shown next to the location. */
+  distanceMiles?: number | null;
 }
 
 const ListItemComponent = React.forwardRef<HTMLDivElement, ListItemProps>(
-  function ListItemComponent({ listing, variant = 'default' }, ref) {
+  function ListItemComponent({ listing, variant = 'default', distanceMiles }, ref) {
   const isWatchlistMobile = variant === 'watchlistMobile';
   const router = useRouter();
   const { user } = useAuth();
   const sold = getSoldSummary(listing);
+  const distanceLabel = formatDistanceMiles(distanceMiles);
   const sellerTxCount = typeof listing.sellerSnapshot?.completedSalesCount === 'number' ? listing.sellerSnapshot.completedSalesCount : null;
   const isAuction = listing.type === 'auction';
   const isFixed = listing.type === 'fixed';
@@ -299,6 +304,7 @@ const ListItemComponent = React.forwardRef<HTMLDivElement, ListItemProps>(
                       <MapPin className="h-3.5 w-3.5 flex-shrink-0" />
                       <span className="truncate">
                         {listing.location?.city || 'Unknown'}, {listing.location?.state || 'Unknown'}
+                        {distanceLabel ? ` · ${distanceLabel}` : null}
                       </span>
                     </div>
                   </div>
@@ -326,7 +332,7 @@ const ListItemComponent = React.forwardRef<HTMLDivElement, ListItemProps>(
                         </span>
                       )}
                       {!sold.isSold && (isFixed || isClassified) && primaryPriceBrowse > 0 && (
-                        <span className="text-xs text-muted-foreground font-normal">20% deposit at checkout</span>
+                        <span className="text-xs text-muted-foreground font-normal">{formatDepositLabel(listing.depositTerms)} at checkout</span>
                       )}
                       {!sold.isSold && isCurrentHighBidder && (
                         <span className="inline-flex items-center gap-1 text-xs font-semibold text-primary shrink-0" role="status">
@@ -405,7 +411,7 @@ const ListItemComponent = React.forwardRef<HTMLDivElement, ListItemProps>(
                         ${primaryPrice ? primaryPrice.toLocaleString() : 'Contact'}
                       </span>
                       {(isFixed || isClassified) && primaryPrice > 0 && (
-                        <span className="text-xs text-muted-foreground font-normal">20% deposit at checkout</span>
+                        <span className="text-xs text-muted-foreground font-normal">{formatDepositLabel(listing.depositTerms)} at checkout</span>
                       )}
                       {isAuction && endsAtDate && endsAtDate.getTime() > Date.now() && (
                         <>
@@ -512,6 +518,7 @@ const ListItemComponent = React.forwardRef<HTMLDivElement, ListItemProps>(
                   <MapPin className="h-4 w-4 flex-shrink-0" />
                   <span className="truncate">
                     {listing.location?.city || 'Unknown'}, {listing.location?.state || 'Unknown'}
+                        {distanceLabel ? ` · ${distanceLabel}` : null}
                   </span>
                 </div>
 
@@ -546,7 +553,7 @@ const ListItemComponent = React.forwardRef<HTMLDivElement, ListItemProps>(
                         ${primaryPrice ? primaryPrice.toLocaleString() : 'Contact'}
                       </span>
                       {(isFixed || isClassified) && primaryPrice > 0 && (
-                        <span className="text-xs text-muted-foreground font-normal">20% deposit at checkout</span>
+                        <span className="text-xs text-muted-foreground font-normal">{formatDepositLabel(listing.depositTerms)} at checkout</span>
                       )}
                       {isCurrentHighBidder && (
                         <span className="inline-flex items-center gap-1 text-xs font-semibold text-primary shrink-0" role="status">
@@ -672,7 +679,8 @@ const ListItemComponent = React.forwardRef<HTMLDivElement, ListItemProps>(
 // Only re-render if listing ID or variant changed (listing object reference may change but content is same)
 export const ListItem = React.memo(ListItemComponent, (prevProps, nextProps) => {
   return prevProps.listing.id === nextProps.listing.id && 
-         prevProps.variant === nextProps.variant;
+         prevProps.variant === nextProps.variant &&
+         prevProps.distanceMiles === nextProps.distanceMiles;
 });
 ListItem.displayName = 'ListItem';
 
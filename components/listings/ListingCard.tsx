@@ -6,6 +6,7 @@ import Image from 'next/image';
 import { motion, useReducedMotion } from 'framer-motion';
 import { Heart, TrendingUp, Zap, CheckCircle2 } from 'lucide-react';
 import { Listing, WildlifeAttributes, CattleAttributes, FarmAnimalAttributes, EquipmentAttributes, HorseAttributes, SportingWorkingDogAttributes } from '@/lib/types';
+import { formatDepositLabel } from '@/lib/pricing/deposit';
 import { getSoldSummary } from '@/lib/listings/sold';
 import { TrustBadges } from '@/components/trust/StatusBadge';
 import { Badge } from '@/components/ui/badge';
@@ -18,6 +19,7 @@ import { formatQuantityBySex, getQuantityUnitLabel } from '@/lib/listings/quanti
 import { MOTION } from '@/lib/motion';
 import { SellerTierBadge } from '@/components/seller/SellerTierBadge';
 import { useRouter } from 'next/navigation';
+import { formatDistanceMiles } from '@/lib/geo/geohash';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { useAuth } from '@/hooks/use-auth';
 
@@ -26,10 +28,12 @@ interface ListingCardProps {
   className?: string;
   /** When set, overrides per-listing aspect ratio for uniform card sizes in grids */
   fixedImageAspect?: number;
+  /** Miles from the buyer's search center (near-me browse); shown next to the location. */
+  distanceMiles?: number | null;
 }
 
 const ListingCardComponent = React.forwardRef<HTMLDivElement, ListingCardProps>(
-  function ListingCardComponent({ listing, className, fixedImageAspect }, ref) {
+  function ListingCardComponent({ listing, className, fixedImageAspect, distanceMiles }, ref) {
   const router = useRouter();
   const { user } = useAuth();
   const reducedMotion = useReducedMotion();
@@ -73,6 +77,7 @@ const ListingCardComponent = React.forwardRef<HTMLDivElement, ListingCardProps>(
   const locationLabel = hasLocation
     ? `${listing.location?.city || 'Unknown'}, ${listing.location?.state || 'Unknown'}`
     : null;
+  const distanceLabel = formatDistanceMiles(distanceMiles);
 
   const mobileMetaParts: string[] = [];
   if (watchers > 0) mobileMetaParts.push(`${watchers} watching`);
@@ -339,6 +344,7 @@ const ListingCardComponent = React.forwardRef<HTMLDivElement, ListingCardProps>(
               {locationLabel && (
                 <div className="truncate">
                   {locationLabel}
+                  {distanceLabel ? ` · ${distanceLabel}` : null}
                 </div>
               )}
               {mobileMeta && (
@@ -348,6 +354,10 @@ const ListingCardComponent = React.forwardRef<HTMLDivElement, ListingCardProps>(
               )}
             </div>
 
+          {distanceLabel && (
+            <div className="hidden sm:block text-xs text-muted-foreground">{distanceLabel} away</div>
+          )}
+
           {/* Key Attributes */}
           {keyAttributes && keyAttributes.length > 0 && (
             <div className="hidden sm:flex flex-wrap gap-1.5 text-xs text-muted-foreground">
@@ -405,7 +415,7 @@ const ListingCardComponent = React.forwardRef<HTMLDivElement, ListingCardProps>(
                       {sold.isSold ? sold.soldPriceLabel : priceDisplay}
                     </span>
                     {!sold.isSold && (listing.type === 'fixed' || listing.type === 'classified') && listing.price != null && (
-                      <span className="text-xs text-muted-foreground font-normal">20% deposit at checkout</span>
+                      <span className="text-xs text-muted-foreground font-normal">{formatDepositLabel(listing.depositTerms)} at checkout</span>
                     )}
                     {!sold.isSold && isCurrentHighBidder && (
                       <span className="inline-flex items-center gap-1 text-xs font-semibold text-primary shrink-0" role="status">
@@ -473,7 +483,8 @@ export const ListingCard = React.memo(ListingCardComponent, (prevProps, nextProp
   const listingIdSame = prevProps.listing.id === nextProps.listing.id;
   const classNameSame = prevProps.className === nextProps.className;
   const fixedAspectSame = prevProps.fixedImageAspect === nextProps.fixedImageAspect;
-  return listingIdSame && classNameSame && fixedAspectSame;
+  const distanceSame = prevProps.distanceMiles === nextProps.distanceMiles;
+  return listingIdSame && classNameSame && fixedAspectSame && distanceSame;
 });
 ListingCard.displayName = 'ListingCard';
 
@@ -3,7 +3,7 @@
 import { memo } from 'react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
-import { Edit, Pause, TrendingUp, Copy, MoreVertical, Trash2, Send, Eye, CheckCircle, Package } from 'lucide-react';
+import { Edit, Pause, TrendingUp, Copy, MoreVertical, Trash2, Send, Eye, CheckCircle, Package, Gavel } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import {
   DropdownMenu,
@@ -27,6 +27,8 @@ interface ListingRowActionsProps {
   /** When listing shows as Ended/Expired but was actually sold; reconciles with paid order and marks sold */
   onReconcileSold?: () => void;
   reconcilingSold?: boolean;
+  /** Ended auctions (reserve not met / winner didn't pay): offer the item to another bidder */
+  onSecondChance?: () => void;
 }
 
 const ListingRowActions = memo(function ListingRowActions({
@@ -41,6 +43,7 @@ const ListingRowActions = memo(function ListingRowActions({
   onDelete,
   onReconcileSold,
   reconcilingSold,
+  onSecondChance,
 }: ListingRowActionsProps) {
   return (
     <DropdownMenu>
@@ -72,7 +75,7 @@ const ListingRowActions = memo(function ListingRowActions({
           </Link>
         </DropdownMenuItem>
 
-        {status === 'active' && (
+        {(status === 'active' || status === 'scheduled') && (
           <DropdownMenuItem
             onSelect={(e) => {
               e.preventDefault();
@@ -100,6 +103,19 @@ const ListingRowActions = memo(function ListingRowActions({
           </DropdownMenuItem>
         ) : null}
 
+        {(status === 'ended' || status === 'expired') && onSecondChance ? (
+          <DropdownMenuItem
+            onSelect={(e) => {
+              e.preventDefault();
+              onSecondChance();
+            }}
+            className="flex items-center gap-2 font-semibold"
+          >
+            <Gavel className="h-4 w-4" />
+            Second-chance offer
+          </DropdownMenuItem>
+        ) : null}
+
         {status === 'removed' ? (
           <DropdownMenuItem
             disabled={resubmitDisabled}
@@ -0,0 +1,152 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Loader2, TrendingUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { getDraftSoldComps, type SoldCompsResult } from '@/lib/api/listingComps';
+import { getPriceGuidance, type PriceGuidanceWarning } from '@/lib/listings/soldComps';
+import { cn } from '@/lib/utils';
+
+const FETCH_DEBOUNCE_MS = 500;
+
+function usd(n: number): string {
+  return `$${Math.round(n).toLocaleString()}`;
+}
+
+function toNumber(v: string | number | null | undefined): number | null {
+  const n = typeof v === 'number' ? v : parseFloat(String(v ?? ''));
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+/**
+ * New-listing price guidance from recent sold comps (category + species/breed + sex/age + state).
+ * Shows the typical sale band, suggested price or starting bid/reserve, and warns when the entered
+ * price is far outside the comp range. Renders nothing until there are enough comps.
+ */
+export function PriceGuidanceCard(props: {
+  category: string;
+  state: string;
+  type: 'auction' | 'fixed' | 'classified' | '';
+  attributes: Record<string, any> | null | undefined;
+  price: string;
+  startingBid: string;
+  reservePrice: string;
+  onApply: (field: 'price' | 'startingBid' | 'reservePrice', value: string) => void;
+  className?: string;
+}) {
+  const { category, state, type, attributes, onApply, className } = props;
+  const [result, setResult] = useState<SoldCompsResult | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const speciesId = typeof attributes?.speciesId === 'string' ? attributes.speciesId : '';
+  const breed = typeof attributes?.breed === 'string' ? attributes.breed : '';
+  const sex = typeof attributes?.sex === 'string' ? attributes.sex : '';
+  const age = typeof attributes?.age === 'number' || typeof attributes?.age === 'string' ? String(attributes.age) : '';
+
+  useEffect(() => {
+    if (!category || !state) {
+      setResult(null);
+      return;
+    }
+    const controller = new AbortController();
+    const t = setTimeout(() => {
+      setLoading(true);
+      getDraftSoldComps({ category, state, speciesId, breed, sex, age }, { signal: controller.signal })
+        .then((res) => setResult(res))
+        .catch(() => {
+          if (!controller.signal.aborted) setResult(null);
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setLoading(false);
+        });
+    }, FETCH_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(t);
+      controller.abort();
+    };
+  }, [category, state, speciesId, breed, sex, age]);
+
+  const guidance = useMemo(() => {
+    if (!result?.stats) return null;
+    return getPriceGuidance(result.stats, {
+      type,
+      priceUsd: toNumber(props.price),
+      startingBidUsd: toNumber(props.startingBid),
+      reservePriceUsd: toNumber(props.reservePrice),
+    });
+  }, [result, type, props.price, props.startingBid, props.reservePrice]);
+
+  if (!category || !state) return null;
+  if (loading && !guidance) {
+    return (
+      <div className={cn('rounded-xl border bg-muted/10 p-4 text-sm text-muted-foreground flex items-center gap-2', className)}>
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Checking recent sales…
+      </div>
+    );
+  }
+  if (!guidance || !result?.stats) return null;
+
+  const matchedOn = ['category', speciesId || breed ? (speciesId ? 'species' : 'breed') : null, ...result.refinedBy, state]
+    .filter(Boolean)
+    .join(', ');
+
+  const renderWarning = (w: PriceGuidanceWarning) => (
+    <div key={w.field} className="flex items-start gap-2 text-sm text-amber-800 dark:text-amber-300">
+      <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+      <span>{w.message}</span>
+    </div>
+  );
+
+  return (
+    <div className={cn('rounded-xl border bg-muted/10 p-4 space-y-3', className)} data-testid="price-guidance">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="text-sm font-extrabold tracking-tight flex items-center gap-2">
+            <TrendingUp className="h-4 w-4" />
+            Price guidance
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Based on {result.stats.count} similar sales in the last 90 days ({matchedOn}).
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="rounded-lg border bg-background p-2">
+          <div className="text-xs text-muted-foreground">Low</div>
+          <div className="text-sm font-semibold">{usd(guidance.band.lowUsd)}</div>
+        </div>
+        <div className="rounded-lg border bg-background p-2">
+          <div className="text-xs text-muted-foreground">Median</div>
+          <div className="text-sm font-semibold">{usd(guidance.band.medianUsd)}</div>
+        </div>
+        <div className="rounded-lg border bg-background p-2">
+          <div className="text-xs text-muted-foreground">High</div>
+          <div className="text-sm font-semibold">{usd(guidance.band.highUsd)}</div>
+        </div>
+      </div>
+
+      {type === 'auction' ? (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Suggested:</span>
+          <Button type="button" size="sm" variant="outline" onClick={() => onApply('startingBid', String(guidance.suggestedStartingBidUsd))}>
+            Start at {usd(guidance.suggestedStartingBidUsd)}
+          </Button>
+          <Button type="button" size="sm" variant="outline" onClick={() => onApply('reservePrice', String(guidance.suggestedReserveUsd))}>
+            Reserve {usd(guidance.suggestedReserveUsd)}
+          </Button>
+        </div>
+      ) : type ? (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Suggested:</span>
+          <Button type="button" size="sm" variant="outline" onClick={() => onApply('price', String(guidance.suggestedPriceUsd))}>
+            Price at {usd(guidance.suggestedPriceUsd)}
+          </Button>
+        </div>
+      ) : null}
+
+      {guidance.warnings.length ? <div className="space-y-1">{guidance.warnings.map(renderWarning)}</div> : null}
+    </div>
+  );
+}
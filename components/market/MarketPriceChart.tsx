@@ -0,0 +1,77 @@
+'use client';
+
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import type { ChartConfig } from '@/components/ui/chart';
+import type { MarketSeriesPoint } from '@/lib/market/marketIndex';
+
+const CHART_CONFIG: ChartConfig = {
+  medianUsd: {
+    label: 'Median sale',
+    theme: {
+      light: 'hsl(160 84% 39%)', // emerald-500
+      dark: 'hsl(160 84% 45%)',
+    },
+  },
+  count: {
+    label: 'Sales',
+    theme: {
+      light: 'hsl(215 16% 47%)', // slate-500
+      dark: 'hsl(215 20% 55%)',
+    },
+  },
+};
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function monthLabel(key: string): string {
+  const [y, m] = key.split('-');
+  return `${MONTH_LABELS[Number(m) - 1] || m} ${String(y).slice(2)}`;
+}
+
+/** Trailing-12-month median sale price (line) and sale volume (bars). */
+export function MarketPriceChart(props: { series: MarketSeriesPoint[] }) {
+  const data = props.series.map((p) => ({ ...p, label: monthLabel(p.month) }));
+  const hasData = data.some((p) => p.count > 0);
+
+  if (!hasData) {
+    return (
+      <div className="flex min-h-[200px] items-center justify-center rounded-xl border border-border/50 bg-muted/20 text-sm text-muted-foreground px-4">
+        No sales in the last 12 months
+      </div>
+    );
+  }
+
+  return (
+    <ChartContainer
+      config={CHART_CONFIG}
+      className="min-h-[240px] h-[240px] sm:h-[280px] w-full max-w-full rounded-xl border border-border/50 bg-card/50 [&_.recharts-wrapper]:max-w-full"
+    >
+      <ComposedChart data={data} margin={{ top: 8, right: 8, left: 8, bottom: 8 }}>
+        <CartesianGrid strokeDasharray="3 3" className="stroke-border/50" vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }} />
+        <YAxis
+          yAxisId="price"
+          tickLine={false}
+          axisLine={false}
+          tick={{ fill: 'hsl(var(--muted-foreground))' }}
+          tickFormatter={(v) => `$${v >= 1000 ? `${(v / 1000).toFixed(0)}k` : v}`}
+        />
+        <YAxis yAxisId="count" orientation="right" allowDecimals={false} tickLine={false} axisLine={false} tick={{ fill: 'hsl(var(--muted-foreground))' }} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              formatter={(value, name) => [
+                name === 'medianUsd' ? `$${Number(value).toLocaleString()}` : Number(value).toLocaleString(),
+                CHART_CONFIG[String(name)]?.label,
+              ]}
+              labelFormatter={(_, payload) => payload?.[0]?.payload?.label}
+            />
+          }
+        />
+        <Bar yAxisId="count" dataKey="count" name="count" fill="var(--color-count)" fillOpacity={0.35} radius={[4, 4, 0, 0]} />
+        <Line yAxisId="price" type="monotone" dataKey="medianUsd" name="medianUsd" stroke="var(--color-medianUsd)" strokeWidth={2} connectNulls dot={{ r: 3 }} />
+      </ComposedChart>
+    </ChartContainer>
+  );
+}
@@ -19,7 +19,13 @@ import {
 import { Textarea } from '@/components/ui/textarea';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
-import { MessageSquare, Send, AlertTriangle, Flag, Tag, Image as ImageIcon, X, Loader2 } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { MessageSquare, Send, AlertTriangle, Flag, Tag, Image as ImageIcon, X, Loader2, Ban, MoreVertical, UserX } from 'lucide-react';
 import { useAuth } from '@/hooks/use-auth';
 import type { Message, MessageThread, Listing, MessageAttachment } from '@/lib/types';
 import {
@@ -34,6 +40,8 @@ import { formatDistanceToNow } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 import { OfferFromMessagesDialog } from '@/components/offers/OfferFromMessagesDialog';
+import { ReportDialog } from '@/components/safety/ReportDialog';
+import { blockUser, subscribeIsBlocked, unblockUser } from '@/lib/firebase/blocks';
 import { extractUrls, linkify } from '@/lib/text/linkify';
 import { LinkPreviewCard, type LinkPreview } from '@/components/messaging/LinkPreviewCard';
 import { uploadMessageImageAttachment } from '@/lib/firebase/message-attachments';
@@ -77,6 +85,10 @@ export function MessageThreadComponent({
   const [reportReason, setReportReason] = useState<'spam' | 'harassment' | 'circumvention' | 'scam' | 'other'>('circumvention');
   const [reportDetails, setReportDetails] = useState('');
   const [offerOpen, setOfferOpen] = useState(false);
+  const [reportUserOpen, setReportUserOpen] = useState(false);
+  const [blockConfirmOpen, setBlockConfirmOpen] = useState(false);
+  const [isBlocked, setIsBlocked] = useState(false);
+  const [blockBusy, setBlockBusy] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -535,6 +547,36 @@ export function MessageThreadComponent({
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  const otherUserId = user?.uid === thread.buyerId ? thread.sellerId : thread.buyerId;
+
+  useEffect(() => {
+    if (!user?.uid || !otherUserId) return;
+    return subscribeIsBlocked(user.uid, otherUserId, setIsBlocked);
+  }, [user?.uid, otherUserId]);
+
+  const handleToggleBlock = async () => {
+    if (!user || !otherUserId || blockBusy) return;
+    setBlockBusy(true);
+    try {
+      if (isBlocked) {
+        await unblockUser(otherUserId);
+        toast({ title: 'User unblocked', description: `You can message and trade with ${otherPartyName} again.` });
+      } else {
+        await blockUser(otherUserId);
+        toast({ title: 'User blocked', description: `${otherPartyName} can no longer message you, make offers, or bid on your listings.` });
+      }
+      setBlockConfirmOpen(false);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error?.message || 'Failed to update block',
+        variant: 'destructive',
+      });
+    } finally {
+      setBlockBusy(false);
+    }
+  };
+
   const handleFlag = async () => {
     if (!user) return;
     try {
@@ -647,9 +689,71 @@ export function MessageThreadComponent({
             </AlertDialogFooter>
             </AlertDialogContent>
           </AlertDialog>
+
+          {user?.uid && otherUserId ? (
+            <>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="h-8 w-8 md:h-9 md:w-9 px-0" aria-label="More actions">
+                    <MoreVertical className="h-3 w-3 md:h-4 md:w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onSelect={() => setReportUserOpen(true)}>
+                    <UserX className="h-4 w-4 mr-2" />
+                    Report user
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onSelect={() => (isBlocked ? void handleToggleBlock() : setBlockConfirmOpen(true))}
+                    className={cn(!isBlocked && 'text-destructive focus:text-destructive')}
+                  >
+                    <Ban className="h-4 w-4 mr-2" />
+                    {isBlocked ? 'Unblock user' : 'Block user'}
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+
+              <ReportDialog
+                open={reportUserOpen}
+                onOpenChange={setReportUserOpen}
+                targetType="user"
+                targetId={otherUserId}
+                targetLabel={otherPartyName}
+              />
+
+              <AlertDialog open={blockConfirmOpen} onOpenChange={setBlockConfirmOpen}>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Block {otherPartyName}?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Neither of you will be able to message each other, make offers, or bid on each other’s listings. They won’t be
+                      notified. You can unblock them later.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel disabled={blockBusy}>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => void handleToggleBlock()} disabled={blockBusy}>
+                      Block
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </>
+          ) : null}
         </div>
       </div>
 
+      {isBlocked ? (
+        <div className="md:mx-4 mx-2 mt-2">
+          <Alert>
+            <Ban className="h-4 w-4" />
+            <AlertDescription className="text-xs md:text-sm">
+              You blocked {otherPartyName}. Unblock them to send messages.
+            </AlertDescription>
+          </Alert>
+        </div>
+      ) : null}
+
       {/* Safety Notice - Ultra compact on mobile, hidden after first message */}
       {!isPaid && messages.length === 0 && (
         <div className="md:m-4 mx-2 mt-1.5 mb-0.5">
@@ -912,6 +1016,7 @@ export function MessageThreadComponent({
             onClick={handleSend}
             disabled={
               sending ||
+              isBlocked ||
               (attachments.length > 0 && attachments.some((a) => a.uploading)) ||
               (!messageInput.trim() && attachments.filter((a) => !!a.attachment).length === 0)
             }
@@ -35,6 +35,7 @@ export function Footer() {
       marketplace: [
         { href: '/browse', label: 'Browse' },
         { href: '/dashboard/listings/new', label: 'Create listing' },
+        { href: '/market', label: 'Market prices' },
       ],
       howItWorks: [
         { href: '/how-it-works', label: 'Overview' },
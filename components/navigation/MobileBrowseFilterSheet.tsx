@@ -36,12 +36,17 @@ import {
   BROWSE_QUANTITY_OPTIONS as quantityOptions,
   DELIVERY_TIMEFRAME_OPTIONS as deliveryTimeframeOptions,
 } from '@/components/browse/filters/constants';
+import { NearMeFilter } from '@/components/browse/filters/NearMeFilter';
+import { CategoryFacetPanel } from '@/components/browse/CategoryFacetPanel';
+import type { AttributeFacetCounts } from '@/lib/search/categoryFacets';
 
 interface MobileBrowseFilterSheetProps {
   filters: FilterState;
   onFiltersChange: (filters: FilterState) => void;
   /** When provided, Item Location only shows states that have at least one active listing. */
   listingStates?: { value: string; label: string }[] | null;
+  /** Attribute facet counts for the applied category (from /api/listings/facets). */
+  facetCounts?: AttributeFacetCounts | null;
   className?: string;
 }
 
@@ -51,6 +56,8 @@ function countActiveFilters(filters: FilterState): number {
     (filters.type ? 1 : 0) +
     (filters.location?.state ? 1 : 0) +
     (filters.location?.city ? 1 : 0) +
+    (filters.near ? 1 : 0) +
+    (filters.deliversToMe ? 1 : 0) +
     (filters.minPrice !== undefined ? 1 : 0) +
     (filters.maxPrice !== undefined ? 1 : 0) +
     (filters.species?.length || 0) +
@@ -58,6 +65,7 @@ function countActiveFilters(filters: FilterState): number {
     (filters.category === 'ranch_equipment' || filters.category === 'ranch_vehicles' || filters.category === 'hunting_outfitter_assets'
       ? (filters.healthStatus?.length || 0)
       : 0) +
+    Object.values(filters.attributes || {}).filter((v) => v?.length).length +
     (filters.papers !== undefined ? 1 : 0) +
     (filters.verifiedSeller ? 1 : 0) +
     (filters.transportReady ? 1 : 0) +
@@ -68,7 +76,7 @@ function countActiveFilters(filters: FilterState): number {
   );
 }
 
-export function MobileBrowseFilterSheet({ filters, onFiltersChange, listingStates, className }: MobileBrowseFilterSheetProps) {
+export function MobileBrowseFilterSheet({ filters, onFiltersChange, listingStates, facetCounts, className }: MobileBrowseFilterSheetProps) {
   const [open, setOpen] = useState(false);
   const [localFilters, setLocalFilters] = useState<FilterState>(filters);
   const locationStateOptions = listingStates ?? states;
@@ -159,6 +167,18 @@ export function MobileBrowseFilterSheet({ filters, onFiltersChange, listingState
             </Select>
           </div>
 
+          {/* Category attribute facets (breed, sex, age, make, year, …) */}
+          {localFilters.category ? (
+            <CategoryFacetPanel
+              category={localFilters.category}
+              value={localFilters.attributes}
+              onChange={(attributes) => setLocalFilters((p) => ({ ...p, attributes }))}
+              counts={localFilters.category === filters.category ? facetCounts : null}
+              layout="stacked"
+              idPrefix="m-facet"
+            />
+          ) : null}
+
           {/* Buying format (eBay-style: All, Auction, Buy Now, Classified) */}
           <div className="space-y-3">
             <Label className="text-sm font-semibold">Buying format</Label>
@@ -202,6 +222,7 @@ export function MobileBrowseFilterSheet({ filters, onFiltersChange, listingState
               searchPlaceholder="Search states…"
               buttonClassName="min-h-[44px]"
             />
+            <NearMeFilter value={localFilters} onChange={setLocalFilters} idPrefix="m-near" />
           </div>
 
           {/* Price */}
@@ -0,0 +1,120 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { createBundleOffer } from '@/lib/offers/api';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { formatUserFacingError } from '@/lib/format-user-facing-error';
+
+/**
+ * One lump-sum offer for several of a seller's listings (e.g. "all 3 bred heifers for $X").
+ * The seller accepts, counters or declines it like any other offer; on accept every listing is reserved
+ * and the buyer pays for all of them in one checkout.
+ */
+export function BundleOfferDialog(props: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sellerName?: string;
+  items: Array<{ listingId: string; listingTitle: string; quantity: number; lineTotal: number }>;
+}) {
+  const { open, onOpenChange, sellerName, items } = props;
+  const { toast } = useToast();
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const listTotal = items.reduce((sum, i) => sum + i.lineTotal, 0);
+
+  useEffect(() => {
+    if (!open) return;
+    setAmount('');
+    setNote('');
+  }, [open]);
+
+  const submit = async () => {
+    const n = Number(amount);
+    if (!Number.isFinite(n) || n <= 0) return;
+    setSubmitting(true);
+    try {
+      const res = await createBundleOffer(
+        items.map((i) => ({ listingId: i.listingId, quantity: i.quantity })),
+        n,
+        note.trim() || undefined
+      );
+      toast({
+        title: res?.status === 'accepted' ? 'Offer accepted' : 'Offer sent',
+        description:
+          res?.status === 'accepted'
+            ? 'Your bundle offer was accepted. Pay from your offers page to complete the purchase.'
+            : 'The seller can accept, counter, or decline your bundle offer.',
+      });
+      onOpenChange(false);
+    } catch (e: any) {
+      toast({ title: 'Offer failed', description: formatUserFacingError(e, 'Could not send offer'), variant: 'destructive' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Make a bundle offer</DialogTitle>
+          <DialogDescription>
+            Offer one amount for all {items.length} listings{sellerName ? ` from ${sellerName}` : ''}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="rounded-lg border border-border/60 bg-muted/20 p-3 space-y-1 text-sm">
+            {items.map((i) => (
+              <div key={i.listingId} className="flex justify-between gap-3">
+                <span className="line-clamp-1">
+                  {i.listingTitle}
+                  {i.quantity > 1 ? ` × ${i.quantity}` : ''}
+                </span>
+                <span className="tabular-nums text-muted-foreground">${i.lineTotal.toLocaleString()}</span>
+              </div>
+            ))}
+            <div className="flex justify-between gap-3 pt-1 font-semibold">
+              <span>Asking total</span>
+              <span className="tabular-nums">${listTotal.toLocaleString()}</span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm font-semibold">Your offer (total)</div>
+            <Input
+              type="number"
+              inputMode="decimal"
+              min={1}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder={listTotal > 0 ? String(Math.round(listTotal * 0.9)) : 'Amount'}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm font-semibold">Note (optional)</div>
+            <Textarea value={note} onChange={(e) => setNote(e.target.value)} maxLength={500} rows={3} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={() => void submit()} disabled={submitting || !(Number(amount) > 0)}>
+            {submitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+            Send offer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -27,13 +27,14 @@ import { WireInstructionsDialog } from '@/components/payments/WireInstructionsDi
 import { isAnimalCategory } from '@/lib/compliance/requirements';
 import { AnimalRiskAcknowledgmentDialog } from '@/components/legal/AnimalRiskAcknowledgmentDialog';
 import { OfferAcceptedSuccessModal } from './OfferAcceptedSuccessModal';
-import { CHECKOUT_DEPOSIT_PERCENT } from '@/lib/pricing/plans';
+import { getListingDepositTerms, quoteDeposit } from '@/lib/pricing/deposit';
 
 type OfferDTO = {
   offerId: string;
   status: string;
   currentAmount: number;
   acceptedAmount?: number;
+  quantity?: number;
   lastActorRole?: 'buyer' | 'seller' | 'system';
   expiresAt?: number | null;
 };
@@ -126,6 +127,7 @@ export function OfferPanel(props: { listing: Listing }) {
           status: firstActive.status,
           currentAmount: Number(firstActive.currentAmount),
           acceptedAmount: firstActive.acceptedAmount ? Number(firstActive.acceptedAmount) : undefined,
+          quantity: typeof firstActive.quantity === 'number' ? firstActive.quantity : undefined,
           lastActorRole: firstActive.lastActorRole,
           expiresAt: firstActive.expiresAt,
         });
@@ -337,10 +339,11 @@ export function OfferPanel(props: { listing: Listing }) {
     if (!offer) return;
     setLoading(true);
     try {
-      // Same deposit logic as Buy Now: 20% at checkout, balance due at inspection/final payment
+      // Same deposit logic as Buy Now (listing deposit terms), balance due per the terms
       const purchaseAmount = Number(offer.acceptedAmount ?? offer.currentAmount);
-      const depositAmount =
-        Number.isFinite(purchaseAmount) ? Math.round(purchaseAmount * CHECKOUT_DEPOSIT_PERCENT * 100) / 100 : 0;
+      const depositAmount = Number.isFinite(purchaseAmount)
+        ? quoteDeposit(purchaseAmount, getListingDepositTerms(listing), offer.quantity ?? 1).depositAmount
+        : 0;
       setPendingCheckoutAmount(depositAmount);
       if (isAnimalListing && !animalRiskAcked) setAnimalAckOpen(true);
       else setPaymentDialogOpen(true);
@@ -14,6 +14,8 @@ import { getOffer, acceptOffer, counterOffer, declineOffer } from '@/lib/offers/
 import { formatOfferHistoryLabel, offerStatusBadgeVariant } from '@/lib/offers/format';
 import Image from 'next/image';
 import { OfferAcceptedSuccessModal } from './OfferAcceptedSuccessModal';
+import { BuyerReputationPanel } from '@/components/seller/BuyerReputationSummary';
+import type { BuyerReputationSummary } from '@/lib/reviews/buyerReputation';
 
 type OfferDTO = {
   offerId: string;
@@ -26,6 +28,7 @@ type OfferDTO = {
   lastActorRole?: string;
   expiresAt?: number | null;
   history?: Array<{ type: string; actorRole: string; amount?: number; note?: string; createdAt?: number | null }>;
+  buyerReputation?: BuyerReputationSummary | null;
 };
 
 function formatTimeLeft(expiresAtMs?: number | null): string {
@@ -196,6 +199,8 @@ export function SellerOfferDetailModal(props: {
                     )}
                   </div>
 
+                  <BuyerReputationPanel reputation={offer.buyerReputation} />
+
                   <div className="rounded-xl border bg-muted/20 p-4">
                     <div className="text-sm font-semibold mb-3">Offer history</div>
                     {(offer.history && offer.history.length > 0) ? (
@@ -0,0 +1,73 @@
+import { CalendarClock, CheckCircle2, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { getInstallmentDueAt, getInstallmentRisk } from '@/lib/pricing/installments';
+import type { OrderInstallmentPlan } from '@/lib/types';
+import { formatDate } from '@/lib/utils';
+
+function money(n: number) {
+  return `$${n.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Installment schedule for an order paid in installments. Buyers get a pay button for the next installment
+ * (`onPay`); sellers see the same schedule read-only.
+ */
+export function InstallmentPlanCard(props: {
+  plan?: OrderInstallmentPlan | null;
+  onPay?: () => void;
+  paying?: boolean;
+}) {
+  const { plan, onPay, paying } = props;
+  if (!plan || !Array.isArray(plan.installments) || plan.installments.length === 0) return null;
+
+  const risk = getInstallmentRisk(plan, new Date());
+  const installments = [...plan.installments].sort((a, b) => a.number - b.number);
+
+  return (
+    <div id="pay-installment" className="scroll-mt-24 rounded-lg border border-border/60 bg-muted/30 p-4 space-y-3 text-sm">
+      <div className="flex items-start justify-between gap-3 flex-wrap">
+        <div className="flex items-start gap-3">
+          <CalendarClock className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+          <div>
+            <div className="font-semibold">Installment plan</div>
+            <div className="text-muted-foreground">
+              {risk.paidCount} of {plan.installmentCount} paid · {money(risk.remainingAmount)} remaining. Delivery or
+              pickup is released after the last payment.
+            </div>
+          </div>
+        </div>
+        {risk.level === 'defaulted' ? (
+          <Badge variant="destructive">Missed payments</Badge>
+        ) : risk.level === 'overdue' ? (
+          <Badge variant="destructive">{risk.daysOverdue > 0 ? `${risk.daysOverdue} days late` : 'Due today'}</Badge>
+        ) : risk.level === 'completed' ? (
+          <Badge variant="secondary">Paid off</Badge>
+        ) : null}
+      </div>
+
+      <div className="divide-y rounded-md border bg-background">
+        {installments.map((i) => {
+          const dueAt = getInstallmentDueAt(i);
+          return (
+            <div key={i.number} className="flex items-center justify-between gap-3 px-3 py-2">
+              <div className="flex items-center gap-2">
+                {i.paidAt ? <CheckCircle2 className="h-4 w-4 text-emerald-600 shrink-0" /> : <span className="h-4 w-4 shrink-0" />}
+                <span className="font-medium">Installment {i.number}</span>
+                <span className="text-muted-foreground">{i.paidAt ? 'Paid' : dueAt ? `Due ${formatDate(dueAt)}` : ''}</span>
+              </div>
+              <span className="font-semibold tabular-nums">{money(i.amount)}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      {onPay && risk.next ? (
+        <Button className="w-full sm:w-auto min-h-[44px] touch-manipulation" disabled={!!paying} onClick={onPay}>
+          {paying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+          Pay installment {risk.next.number} ({money(risk.next.amount)})
+        </Button>
+      ) : null}
+    </div>
+  );
+}
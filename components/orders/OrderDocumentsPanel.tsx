@@ -73,11 +73,11 @@ export function OrderDocumentsPanel(props: {
 
   const requiredPayoutDocs = useMemo(() => {
     try {
-      return getRequiredOrderDocsForListing(category, attributes);
+      return getRequiredOrderDocsForListing(category, attributes, { originState: listing?.location?.state });
     } catch {
       return [];
     }
-  }, [attributes, category]);
+  }, [attributes, category, listing?.location?.state]);
 
   const excludeSet = useMemo(() => new Set((excludeDocumentTypes || []).map(String)), [excludeDocumentTypes]);
 
@@ -0,0 +1,17 @@
+import { Layers } from 'lucide-react';
+
+/** Shown on orders that came from a multi-listing cart checkout. */
+export function OrderGroupNotice({ orderGroupId }: { orderGroupId?: string | null }) {
+  if (!orderGroupId) return null;
+  return (
+    <div className="flex items-start gap-3 rounded-lg border border-border/60 bg-muted/30 p-3 text-sm">
+      <Layers className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+      <div>
+        <div className="font-semibold">Part of a multi-item checkout</div>
+        <div className="text-muted-foreground">
+          The delivery address, delivery date, and bill of sale signature apply to every open order from this checkout.
+        </div>
+      </div>
+    </div>
+  );
+}
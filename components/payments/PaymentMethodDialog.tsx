@@ -8,8 +8,9 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { HelpTooltip } from '@/components/help/HelpTooltip';
-import { CreditCard, Landmark, Banknote, Lock, ShieldCheck } from 'lucide-react';
+import { CreditCard, Landmark, Banknote, Lock, ShieldCheck, CalendarClock } from 'lucide-react';
 import type { LucideIcon } from 'lucide-react';
+import type { ReactNode } from 'react';
 import { getRecommendationCopy, getRecommendedPaymentMethod } from '@/lib/payments/recommendation';
 import { getEligiblePaymentMethods, type SupportedPaymentMethod } from '@/lib/payments/gating';
 import { cn } from '@/lib/utils';
@@ -24,8 +25,12 @@ export function PaymentMethodDialog(props: {
   onSelect: (method: PaymentMethodChoice) => void | Promise<void>;
   isAuthenticated: boolean;
   isEmailVerified: boolean;
+  /** Seller offers an installment plan on this order (card only); `summary` e.g. "4 payments of $1,250.00 every 30 days". */
+  installmentOption?: { summary: string; onSelect: () => void | Promise<void> } | null;
+  /** Shown above the payment options (e.g. movement paperwork for the buyer's state). */
+  notice?: ReactNode;
 }) {
-  const { open, onOpenChange, amountUsd, onSelect, isAuthenticated, isEmailVerified } = props;
+  const { open, onOpenChange, amountUsd, onSelect, isAuthenticated, isEmailVerified, installmentOption, notice } = props;
 
   const eligible = getEligiblePaymentMethods({ totalUsd: amountUsd, isAuthenticated, isEmailVerified });
   const recommended = getRecommendedPaymentMethod(amountUsd) as PaymentMethodChoice;
@@ -84,6 +89,7 @@ export function PaymentMethodDialog(props: {
 
         <TooltipProvider>
           <div className="flex-1 min-h-0 overflow-y-auto overflow-x-hidden overscroll-contain space-y-2 sm:space-y-4 pb-4 max-sm:pb-[max(1rem,env(safe-area-inset-bottom))]">
+            {notice}
             {options.map((opt) => {
               const Icon = opt.icon;
               const isRec = opt.key === recommended;
@@ -166,6 +172,28 @@ export function PaymentMethodDialog(props: {
               );
             })}
 
+            {installmentOption && eligible.includes('card') ? (
+              <Button
+                variant="outline"
+                className="w-full min-h-[48px] sm:min-h-[56px] h-auto py-2.5 sm:py-3 px-2.5 sm:px-4 text-left border-2 rounded-xl border-border/60 bg-card hover:bg-muted/30 transition-colors"
+                onClick={() => installmentOption.onSelect()}
+              >
+                <div className="w-full flex items-start gap-3 min-w-0">
+                  <div className="h-8 w-8 sm:h-9 sm:w-9 rounded-lg sm:rounded-xl border flex items-center justify-center shrink-0 bg-muted/20 border-border/60">
+                    <CalendarClock className="h-5 w-5 text-foreground" />
+                  </div>
+                  <div className="text-left min-w-0 flex-1">
+                    <div className="font-semibold leading-tight break-words text-foreground text-sm sm:text-base">
+                      Pay in installments (card)
+                    </div>
+                    <div className="text-xs text-muted-foreground mt-1 break-words">
+                      {installmentOption.summary}. First payment today; the seller releases your purchase after the last one.
+                    </div>
+                  </div>
+                </div>
+              </Button>
+            ) : null}
+
             <div className="text-[11px] text-muted-foreground rounded-lg border bg-muted/20 px-2.5 sm:px-3 py-1.5 sm:py-2">
               {canUseBankRails ? 'Card is fastest. ACH/wire can help on larger purchases.' : 'Sign in + verify email for ACH/wire.'}
             </div>
@@ -0,0 +1,104 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { submitReport } from '@/lib/api/reports';
+import { getReportReasons, type ReportReasonCode, type ReportTargetType } from '@/lib/safety/reports';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+
+/**
+ * Report a listing or a user to Trust & Safety. Reports land in the admin moderation queue;
+ * the reported party is never told who reported them.
+ */
+export function ReportDialog(props: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  targetType: ReportTargetType;
+  targetId: string;
+  targetLabel?: string;
+}) {
+  const { open, onOpenChange, targetType, targetId, targetLabel } = props;
+  const { toast } = useToast();
+  const [reason, setReason] = useState<ReportReasonCode | ''>('');
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const reasons = getReportReasons(targetType);
+
+  useEffect(() => {
+    if (!open) return;
+    setReason('');
+    setDetails('');
+  }, [open]);
+
+  const submit = async () => {
+    if (!reason) return;
+    setSubmitting(true);
+    try {
+      const res = await submitReport({ targetType, targetId, reason, details: details.trim() || undefined });
+      if (!res.ok) {
+        toast({ title: 'Report failed', description: res.error, variant: 'destructive' });
+        return;
+      }
+      toast({
+        title: res.updated ? 'Report updated' : 'Report submitted',
+        description: 'Thanks — our team will review it.',
+      });
+      onOpenChange(false);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{targetType === 'listing' ? 'Report listing' : 'Report user'}</DialogTitle>
+          <DialogDescription>
+            {targetLabel ? `${targetLabel} — ` : ''}Tell us what’s wrong. Reports are confidential.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={reason} onValueChange={(v) => setReason(v as ReportReasonCode)} className="space-y-2">
+            {reasons.map((r) => (
+              <div key={r.code} className="flex items-center gap-2">
+                <RadioGroupItem value={r.code} id={`report-reason-${r.code}`} />
+                <Label htmlFor={`report-reason-${r.code}`} className="font-normal cursor-pointer">
+                  {r.label}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <div className="text-sm font-semibold">Details (optional)</div>
+            <Textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={2000}
+              rows={4}
+              placeholder="Anything that helps us review this (links, dates, what was said)."
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={() => void submit()} disabled={submitting || !reason}>
+            {submitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+            Submit report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
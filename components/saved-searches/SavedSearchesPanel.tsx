@@ -21,6 +21,7 @@ import {
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { FilterDialog } from '@/components/navigation/FilterDialog';
 import type { FilterState } from '@/lib/types';
+import { getCategoryAttributeFacets, getFacetOptionLabel, setAttributeFacetSearchParams } from '@/lib/search/categoryFacets';
 import {
   buildSavedSearchKeys,
   deleteSavedSearch,
@@ -138,6 +139,7 @@ export function SavedSearchesPanel(props: { variant?: 'page' | 'tab' }) {
     if (typeof c?.minPrice === 'number') params.set('minPrice', String(c.minPrice));
     if (typeof c?.maxPrice === 'number') params.set('maxPrice', String(c.maxPrice));
     if (c?.species?.length) params.set('species', c.species.join(','));
+    setAttributeFacetSearchParams(params, c?.attributes);
     if (c?.verifiedSeller) params.set('verifiedSeller', '1');
     if (c?.transportReady) params.set('transportReady', '1');
     if (c?.endingSoon) params.set('endingSoon', '1');
@@ -162,6 +164,10 @@ export function SavedSearchesPanel(props: { variant?: 'page' | 'tab' }) {
       const extra = c.species.length > 2 ? ` +${c.species.length - 2}` : '';
       out.push({ label: `Species: ${c.species.slice(0, 2).join(', ')}${extra}`, tone: 'muted' });
     }
+    for (const def of getCategoryAttributeFacets(c.category)) {
+      const values = c.attributes?.[def.field];
+      if (values?.length) out.push({ label: `${def.label}: ${values.map((v) => getFacetOptionLabel(def, v)).join(', ')}`, tone: 'muted' });
+    }
     if (c.verifiedSeller) out.push({ label: 'Verified sellers', tone: 'muted' });
     if (c.transportReady) out.push({ label: 'Transport ready', tone: 'muted' });
     if (c.endingSoon) out.push({ label: 'Ending soon', tone: 'muted' });
@@ -0,0 +1,54 @@
+'use client';
+
+import { Star } from 'lucide-react';
+import { BUYER_RATING_DIMENSIONS, type BuyerReputationSummary } from '@/lib/reviews/buyerReputation';
+import { cn } from '@/lib/utils';
+
+/** One-line buyer rating for offer rows and bidder lists. */
+export function BuyerReputationInline({
+  reputation,
+  className,
+}: {
+  reputation: BuyerReputationSummary | null | undefined;
+  className?: string;
+}) {
+  if (!reputation) {
+    return <span className={cn('text-xs text-muted-foreground', className)}>No seller ratings yet</span>;
+  }
+  return (
+    <span className={cn('inline-flex items-center gap-1 text-xs text-muted-foreground', className)}>
+      <Star className="h-3 w-3 fill-amber-500 text-amber-500" aria-hidden />
+      <span className="font-semibold text-foreground">{reputation.avgRating.toFixed(1)}</span>
+      <span>
+        buyer rating · {reputation.reviewCount} seller{reputation.reviewCount === 1 ? '' : 's'}
+      </span>
+    </span>
+  );
+}
+
+/** Buyer rating with the per-dimension breakdown (offer detail). */
+export function BuyerReputationPanel({ reputation }: { reputation: BuyerReputationSummary | null | undefined }) {
+  return (
+    <div className="rounded-xl border bg-muted/20 p-4 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm font-semibold">Buyer reputation</div>
+        <BuyerReputationInline reputation={reputation} />
+      </div>
+      {reputation ? (
+        <div className="grid gap-1 text-sm">
+          {BUYER_RATING_DIMENSIONS.map((d) => {
+            const dim = reputation.dimensions[d.key];
+            return (
+              <div key={d.key} className="flex items-center justify-between gap-2">
+                <span className="text-muted-foreground">{d.label}</span>
+                <span className="font-medium tabular-nums">{dim.avg === null ? '—' : `${dim.avg.toFixed(1)} / 5`}</span>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">Sellers rate buyers after completed or cancelled orders.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2, Star, UserCheck } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { formatUserFacingError } from '@/lib/format-user-facing-error';
+import { getBuyerReviewEligibility, rateBuyer } from '@/lib/api/reviews';
+import { BUYER_RATING_DIMENSIONS, BUYER_REVIEW_TEXT_MAX_LENGTH } from '@/lib/reviews/buyerReputation';
+import type { BuyerRatingDimension } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+function StarPicker(props: { value: number; onChange: (n: number) => void; label: string }) {
+  return (
+    <div className="flex items-center gap-1">
+      {[1, 2, 3, 4, 5].map((n) => (
+        <button
+          key={n}
+          type="button"
+          onClick={() => props.onChange(n)}
+          className="min-w-[40px] min-h-[40px] flex items-center justify-center rounded-lg hover:bg-amber-500/10 focus:outline-none focus:ring-2 focus:ring-amber-500/50 touch-manipulation"
+          aria-label={`${props.label}: ${n} star${n === 1 ? '' : 's'}`}
+        >
+          <Star
+            className={cn('h-6 w-6 pointer-events-none', n <= props.value ? 'fill-amber-500 text-amber-500' : 'text-muted-foreground')}
+          />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Seller order page: rate the buyer once the order is completed or cancelled.
+ * Renders nothing unless the order is eligible (and not already rated).
+ */
+export function RateBuyerCard({ orderId, orderStatusKey }: { orderId: string; orderStatusKey?: string }) {
+  const { toast } = useToast();
+  const [eligible, setEligible] = useState(false);
+  const [pickupApplicable, setPickupApplicable] = useState(false);
+  const [open, setOpen] = useState(false);
+  const [ratings, setRatings] = useState<Record<BuyerRatingDimension, number>>({ payment: 5, pickup: 5, communication: 5 });
+  const [text, setText] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Re-check when the order status changes (e.g. it completes while the page is open).
+  useEffect(() => {
+    let cancelled = false;
+    void getBuyerReviewEligibility(orderId)
+      .then((res) => {
+        if (cancelled) return;
+        const ok = res.ok && res.eligible;
+        setEligible(ok);
+        setPickupApplicable(ok ? res.pickupApplicable : false);
+      })
+      .catch(() => {
+        if (!cancelled) setEligible(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId, orderStatusKey]);
+
+  if (!eligible) return null;
+
+  const dimensions = BUYER_RATING_DIMENSIONS.filter((d) => d.key !== 'pickup' || pickupApplicable);
+
+  const submit = async () => {
+    setSubmitting(true);
+    try {
+      const res = await rateBuyer({
+        orderId,
+        ratings: {
+          payment: ratings.payment,
+          pickup: pickupApplicable ? ratings.pickup : null,
+          communication: ratings.communication,
+        },
+        text: text.trim() || undefined,
+      });
+      if (!res.ok) throw new Error(res.error);
+      setEligible(false);
+      setOpen(false);
+      toast({ title: 'Buyer rated', description: 'Thanks — this helps other sellers.' });
+    } catch (e: any) {
+      toast({ title: 'Error', description: formatUserFacingError(e, 'Failed to rate buyer'), variant: 'destructive' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Card className="border-border/60">
+        <CardContent className="pt-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <div className="font-semibold text-sm">Rate this buyer</div>
+            <div className="text-xs text-muted-foreground">
+              Sellers see buyer ratings when reviewing offers and bidders.
+            </div>
+          </div>
+          <Button variant="outline" onClick={() => setOpen(true)} className="min-h-[44px]">
+            <UserCheck className="h-4 w-4 mr-2" />
+            Rate buyer
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Rate this buyer</DialogTitle>
+            <DialogDescription>How was this buyer to deal with? You can rate each order once.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {dimensions.map((d) => (
+              <div key={d.key}>
+                <Label className="text-sm font-semibold">{d.label}</Label>
+                <div className="text-xs text-muted-foreground">{d.hint}</div>
+                <div className="mt-1">
+                  <StarPicker
+                    label={d.label}
+                    value={ratings[d.key]}
+                    onChange={(n) => setRatings((prev) => ({ ...prev, [d.key]: n }))}
+                  />
+                </div>
+              </div>
+            ))}
+            <div>
+              <Label htmlFor="buyer-review-text" className="text-sm font-semibold">
+                Note (optional)
+              </Label>
+              <Textarea
+                id="buyer-review-text"
+                value={text}
+                maxLength={BUYER_REVIEW_TEXT_MAX_LENGTH}
+                onChange={(e) => setText(e.target.value)}
+                placeholder="Anything worth remembering about this transaction?"
+                className="mt-2 min-h-[90px]"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button onClick={submit} disabled={submitting}>
+              {submitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+              Submit rating
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
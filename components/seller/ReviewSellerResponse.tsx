@@ -0,0 +1,111 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, MessageSquareReply } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { respondToReview } from '@/lib/api/reviews';
+import { SELLER_RESPONSE_MAX_LENGTH } from '@/lib/reviews/constants';
+import { getSellerResponseEditState } from '@/lib/reviews/sellerResponse';
+
+/** Public shape returned by GET /api/reviews/seller. */
+export type PublicSellerResponse = { text: string; createdAt: string | null; updatedAt: string | null };
+
+/** Seller's reply, rendered beneath the review it answers. */
+export function ReviewSellerResponse({ response }: { response: PublicSellerResponse | null | undefined }) {
+  if (!response?.text) return null;
+  const edited = Boolean(response.updatedAt && response.createdAt && response.updatedAt !== response.createdAt);
+  return (
+    <div className="mt-3 ml-3 border-l-2 border-primary/40 pl-3">
+      <div className="text-xs font-semibold text-muted-foreground">Response from seller</div>
+      <div className="mt-1 text-sm whitespace-pre-line break-words">{response.text}</div>
+      <div className="mt-1 text-xs text-muted-foreground">
+        {response.createdAt ? new Date(response.createdAt).toLocaleDateString() : null}
+        {edited ? ' (edited)' : null}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Seller-side: post the one public response, or edit it while the edit window is open.
+ * Once the window closes only the read-only response is shown.
+ */
+export function ReviewSellerResponseEditor(props: {
+  orderId: string;
+  response: PublicSellerResponse | null | undefined;
+  onSaved: (response: PublicSellerResponse) => void;
+}) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState(props.response?.text || '');
+  const [saving, setSaving] = useState(false);
+
+  const state = getSellerResponseEditState(props.response ? { createdAt: props.response.createdAt } : null);
+
+  if (!open) {
+    return (
+      <>
+        <ReviewSellerResponse response={props.response} />
+        {state.mode !== 'locked' ? (
+          <div className="mt-2 flex items-center gap-2">
+            <Button size="sm" variant="outline" onClick={() => setOpen(true)}>
+              <MessageSquareReply className="h-4 w-4 mr-1.5" />
+              {state.mode === 'create' ? 'Respond publicly' : 'Edit response'}
+            </Button>
+            {state.mode === 'edit' ? (
+              <span className="text-xs text-muted-foreground">Editable until {state.editableUntil.toLocaleString()}</span>
+            ) : null}
+          </div>
+        ) : null}
+      </>
+    );
+  }
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const res = await respondToReview({ orderId: props.orderId, text });
+      if (!res.ok) throw new Error(res.error);
+      const nowIso = new Date().toISOString();
+      props.onSaved({
+        text: text.trim(),
+        createdAt: props.response?.createdAt || nowIso,
+        updatedAt: nowIso,
+      });
+      setOpen(false);
+      toast({ title: res.created ? 'Response posted' : 'Response updated' });
+    } catch (e: any) {
+      toast({ title: 'Couldn’t save response', description: e?.message || 'Please try again.', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-2">
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        maxLength={SELLER_RESPONSE_MAX_LENGTH}
+        rows={3}
+        placeholder="Reply publicly to this review. Keep it factual and courteous."
+      />
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-muted-foreground">
+          Shown under the review on your public profile. {text.length}/{SELLER_RESPONSE_MAX_LENGTH}
+        </span>
+        <div className="flex gap-2">
+          <Button size="sm" variant="ghost" onClick={() => setOpen(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={save} disabled={saving || !text.trim()}>
+            {saving ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : null}
+            {state.mode === 'create' ? 'Post response' : 'Save'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, FileText, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { auth } from '@/lib/firebase/config';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/** Monthly / annual earnings statements (CSV or PDF) from `/api/seller/statements`. */
+export function SellerStatementsCard() {
+  const { toast } = useToast();
+  const currentYear = new Date().getUTCFullYear();
+  const years = Array.from({ length: Math.max(1, currentYear - 2024 + 1) }, (_, i) => currentYear - i);
+  const [year, setYear] = useState(String(currentYear));
+  const [month, setMonth] = useState('all');
+  const [downloading, setDownloading] = useState<'csv' | 'pdf' | null>(null);
+
+  const download = async (format: 'csv' | 'pdf') => {
+    const user = auth.currentUser;
+    if (!user) return;
+    setDownloading(format);
+    try {
+      const token = await user.getIdToken();
+      const params = new URLSearchParams({ year, format });
+      if (month !== 'all') params.set('month', month);
+      const res = await fetch(`/api/seller/statements?${params.toString()}`, {
+        headers: { authorization: `Bearer ${token}` },
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data?.error || 'Could not generate statement');
+      }
+      const disposition = res.headers.get('content-disposition') || '';
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || `agchange-statement.${format}`;
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e: any) {
+      toast({ title: 'Statement unavailable', description: e?.message || 'Could not generate statement', variant: 'destructive' });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <Card className="rounded-xl border border-border/50 bg-card overflow-hidden">
+      <CardHeader className="pb-3 px-3 sm:px-6 pt-4 sm:pt-6">
+        <CardTitle className="text-lg sm:text-xl font-extrabold flex items-center gap-2">
+          <FileText className="h-5 w-5 shrink-0" />
+          Earnings statements
+        </CardTitle>
+        <CardDescription className="text-sm sm:text-base">
+          Gross sales, platform fees, refunds, chargebacks and net payouts for your accountant.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="px-3 sm:px-6 pb-4 sm:pb-6">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="space-y-1.5">
+            <Label className="text-xs">Year</Label>
+            <Select value={year} onValueChange={setYear}>
+              <SelectTrigger className="w-full sm:w-[120px] min-h-[44px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {years.map((y) => (
+                  <SelectItem key={y} value={String(y)}>
+                    {y}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Period</Label>
+            <Select value={month} onValueChange={setMonth}>
+              <SelectTrigger className="w-full sm:w-[150px] min-h-[44px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Full year</SelectItem>
+                {MONTHS.map((m, i) => (
+                  <SelectItem key={m} value={String(i + 1)}>
+                    {m}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              className="min-h-[44px] font-semibold flex-1 sm:flex-none"
+              onClick={() => void download('csv')}
+              disabled={downloading !== null}
+            >
+              {downloading === 'csv' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+              CSV
+            </Button>
+            <Button
+              variant="outline"
+              className="min-h-[44px] font-semibold flex-1 sm:flex-none"
+              onClick={() => void download('pdf')}
+              disabled={downloading !== null}
+            >
+              {downloading === 'pdf' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+              PDF
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
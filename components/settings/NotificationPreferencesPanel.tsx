@@ -343,7 +343,7 @@ export function NotificationPreferencesPanel(props: { embedded?: boolean }) {
           <div className="space-y-3">
             <div className="text-sm font-semibold">Auctions</div>
             {[
-              ['watchStarted', 'Watch started'],
+              ['watchStarted', 'Watched listing goes live'],
               ['highBidder', 'You’re winning'],
               ['outbid', 'You were outbid'],
               ['endingSoon', 'Ending soon (24h/1h/10m/2m)'],
@@ -0,0 +1,94 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import type { FilterState } from '@/lib/types';
+import { getAttributeFacetCountsServer } from '@/lib/api/listingSearch';
+import {
+  ATTRIBUTE_FACET_PARAM_PREFIX,
+  attributeFacetsFromSearchParams,
+  getCategoryAttributeFacets,
+  setAttributeFacetSearchParams,
+  type AttributeFacetCounts,
+  type AttributeFacetSelections,
+} from '@/lib/search/categoryFacets';
+import { stableStringify } from '@/lib/stableStringify';
+
+/**
+ * Server facet counts for a category. Refetches when type or selections change; failures leave
+ * counts empty (the panel still works, just without numbers).
+ */
+export function useAttributeFacetCounts(
+  category: string | null | undefined,
+  type: string | null | undefined,
+  selections: AttributeFacetSelections | undefined
+) {
+  const [counts, setCounts] = useState<AttributeFacetCounts | null>(null);
+  const selectionsKey = stableStringify(selections || {});
+
+  useEffect(() => {
+    if (!category || getCategoryAttributeFacets(category).length === 0) {
+      setCounts(null);
+      return;
+    }
+    let cancelled = false;
+    getAttributeFacetCountsServer({ category, type, selections: JSON.parse(selectionsKey) })
+      .then((res) => {
+        if (!cancelled) setCounts(res.counts);
+      })
+      .catch(() => {
+        if (!cancelled) setCounts(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [category, type, selectionsKey]);
+
+  return counts;
+}
+
+/**
+ * Keeps `filters.attributes` and `attr.<field>` URL params in sync for a category page:
+ * URL -> filters once on mount (deep links / back), filters -> URL on every change after that.
+ */
+export function useAttributeFacetUrlSync(
+  category: string,
+  filters: FilterState,
+  setFilters: (updater: (prev: FilterState) => FilterState) => void
+) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const readRef = useRef(false);
+  // Selections read from the URL that haven't reached `filters` yet; don't overwrite the URL until they do.
+  const pendingFromUrlRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (readRef.current) return;
+    readRef.current = true;
+    const fromUrl = attributeFacetsFromSearchParams(searchParams, category);
+    if (!fromUrl) return;
+    pendingFromUrlRef.current = stableStringify(fromUrl);
+    setFilters((prev) => ({ ...prev, attributes: fromUrl }));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const attributesKey = stableStringify(filters.attributes || {});
+  useEffect(() => {
+    if (!readRef.current) return;
+    if (pendingFromUrlRef.current !== null) {
+      if (attributesKey !== pendingFromUrlRef.current) return;
+      pendingFromUrlRef.current = null;
+    }
+    const params = new URLSearchParams(searchParams?.toString() || '');
+    for (const key of Array.from(params.keys())) {
+      if (key.startsWith(ATTRIBUTE_FACET_PARAM_PREFIX)) params.delete(key);
+    }
+    setAttributeFacetSearchParams(params, filters.attributes);
+    const next = params.toString();
+    if (next === (searchParams?.toString() || '')) return;
+    const base = pathname || '/browse';
+    router.replace(next ? `${base}?${next}` : base, { scroll: false });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [attributesKey]);
+}
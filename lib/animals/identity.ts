@@ -0,0 +1,156 @@
+/**
+ * Animal identity (pure helpers for the animal registry).
+ *
+ * Listings carry free-text identifiers in their attributes (whitetail ear tags, horse microchips/tattoos,
+ * registration numbers). Here they're normalized into registry keys so the same animal resolves to one
+ * `animals/{id}` record across listings, orders, bills of sale and disputes (see lib/animals/registry.ts).
+ *
+ * Only single-animal listings are registered: a lot of several head can't say which tag belongs to which
+ * animal. Brands and markings are left out on purpose — a ranch brand is shared by a whole herd.
+ */
+
+import type {
+  AnimalEvent,
+  AnimalIdentifier,
+  AnimalIdentifierType,
+  AnimalTransferHistoryEntry,
+  ListingCategory,
+} from '@/lib/types';
+
+/** Shorter values ("NA", "123") are too ambiguous to link animals on. */
+const MIN_IDENTIFIER_LENGTH = 4;
+
+const PLACEHOLDER_VALUES = new Set(['NONE', 'NA', 'NOTAPPLICABLE', 'UNKNOWN', 'TBD', 'PENDING', 'NOTAG']);
+
+/** Uppercase letters and digits only, so "TX-1234", "tx 1234" and "TX1234" are one key. */
+export function normalizeIdentifierValue(value: unknown): string {
+  return String(value ?? '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, '');
+}
+
+export function toAnimalIdentifier(type: AnimalIdentifierType, value: unknown, scope?: unknown): AnimalIdentifier | null {
+  const raw = String(value ?? '').trim();
+  const normalized = normalizeIdentifierValue(raw);
+  if (normalized.length < MIN_IDENTIFIER_LENGTH || PLACEHOLDER_VALUES.has(normalized)) return null;
+  // Registration numbers are only unique within their registry (AQHA, APHA, breed associations).
+  const prefix = normalizeIdentifierValue(scope);
+  return { type, value: raw.slice(0, 100), key: `${type}:${prefix ? `${prefix}-` : ''}${normalized}` };
+}
+
+function isSingleAnimal(attributes: Record<string, any>): boolean {
+  const quantity = Number(attributes?.quantity ?? 1);
+  return !Number.isFinite(quantity) || quantity <= 1;
+}
+
+/** Registry identifiers declared on a listing (empty for lots and categories without per-animal IDs). */
+export function getListingAnimalIdentifiers(
+  category: ListingCategory,
+  attributes: Record<string, any> | null | undefined
+): AnimalIdentifier[] {
+  const a = attributes || {};
+  if (!isSingleAnimal(a)) return [];
+
+  const ids: Array<AnimalIdentifier | null> = [];
+  if (category === 'whitetail_breeder') {
+    // A tag field listing several tags ("TX1, TX2") describes more than one deer.
+    const tags = String(a.deerIdTag || '')
+      .split(/[,;/]|\s+and\s+/i)
+      .map((t) => t.trim())
+      .filter(Boolean);
+    if (tags.length === 1) ids.push(toAnimalIdentifier('ear_tag', tags[0]));
+  }
+  if (category === 'horse_equestrian') {
+    ids.push(toAnimalIdentifier('microchip', a.identification?.microchip));
+    ids.push(toAnimalIdentifier('tattoo', a.identification?.tattoo, a.registrationOrg));
+    ids.push(toAnimalIdentifier('registration', a.registrationNumber, a.registrationOrg));
+  }
+  if (category === 'cattle_livestock' && a.registered === true) {
+    ids.push(toAnimalIdentifier('registration', a.registrationNumber, a.breed));
+  }
+
+  const byKey = new Map<string, AnimalIdentifier>();
+  for (const id of ids) if (id && !byKey.has(id.key)) byKey.set(id.key, id);
+  return Array.from(byKey.values());
+}
+
+/** True when an identifier read off the delivered animal matches one on record. */
+export function matchesAnimalIdentifiers(observed: unknown, identifiers: AnimalIdentifier[]): boolean {
+  const normalized = normalizeIdentifierValue(observed);
+  if (!normalized) return false;
+  return identifiers.some((id) => normalizeIdentifierValue(id.value) === normalized || id.key.endsWith(normalized));
+}
+
+/**
+ * Transfer history for buyers: listings, on-platform sales and bills of sale, oldest first. Disputes and
+ * user ids stay internal.
+ */
+export function toAnimalTransferHistory(events: Array<Pick<AnimalEvent, 'type' | 'at' | 'state'>>): AnimalTransferHistoryEntry[] {
+  return events
+    .filter((e) => e.type === 'LISTED' || e.type === 'SOLD' || e.type === 'BILL_OF_SALE')
+    .map((e) => ({ type: e.type, at: e.at, state: e.state ?? null }))
+    .sort((x, y) => x.at.getTime() - y.at.getTime());
+}
+
+const ENDED_ORDER_STATUSES = new Set(['refunded', 'cancelled', 'REFUNDED', 'CANCELLED']);
+
+/**
+ * True once the buyer's payment for an order has actually cleared. Async (ACH) checkouts and wires create the
+ * order before the money arrives, so ownership only moves when `paidAt` is set.
+ */
+export function isAnimalSaleConfirmed(order: { paidAt?: unknown; status?: unknown; transactionStatus?: unknown } | null | undefined): boolean {
+  if (!order?.paidAt) return false;
+  return !ENDED_ORDER_STATUSES.has(String(order.status || '')) && !ENDED_ORDER_STATUSES.has(String(order.transactionStatus || ''));
+}
+
+/**
+ * Registry update that undoes an order's sale of one animal (refund, cancellation, expired balance), or null when
+ * the animal was never sold through that order. Ownership only goes back to the seller when this order is still
+ * the animal's latest sale; `relistedListingId` is the listing if it's back on sale.
+ */
+export function getAnimalSaleReversal(
+  animal: { orderIds?: unknown } | null | undefined,
+  params: { orderId: string; sellerId: string; relistedListingId: string | null }
+): { orderIds: string[]; currentOwnerId?: string; activeListingId?: string | null } | null {
+  const recorded = animal?.orderIds;
+  const orderIds: string[] = Array.isArray(recorded) ? recorded.map(String) : [];
+  if (!orderIds.includes(params.orderId)) return null;
+  const remaining = orderIds.filter((id) => id !== params.orderId);
+  if (orderIds[orderIds.length - 1] !== params.orderId) return { orderIds: remaining };
+  return { orderIds: remaining, currentOwnerId: params.sellerId, activeListingId: params.relistedListingId };
+}
+
+/**
+ * Fold the registry records a listing's identifiers resolve to into one (e.g. the tag was registered on one
+ * listing and the microchip on another). The record with sale history is kept so ownership stays put; the
+ * others' identifiers, listings and orders move onto it. Earlier orders go first, so the kept record's latest
+ * sale is still the last one (see `getAnimalSaleReversal`).
+ */
+export function mergeAnimalRecords(
+  records: Array<{ id: string; animal: { identifiers?: unknown; listingIds?: unknown; orderIds?: unknown } | null }>
+): { primaryId: string; mergedIds: string[]; identifiers: AnimalIdentifier[]; listingIds: string[]; orderIds: string[] } {
+  const list = (v: unknown): any[] => (Array.isArray(v) ? v : []);
+  const primary = records.find((r) => list(r.animal?.orderIds).length > 0) || records[0];
+  const others = records.filter((r) => r !== primary);
+  const ordered = [...others, primary];
+
+  const identifiers: AnimalIdentifier[] = [];
+  const listingIds: string[] = [];
+  const orderIds: string[] = [];
+  for (const r of [primary, ...others]) {
+    for (const i of list(r.animal?.identifiers) as AnimalIdentifier[]) {
+      if (i?.key && !identifiers.some((k) => k.key === i.key)) identifiers.push(i);
+    }
+  }
+  for (const r of ordered) {
+    for (const id of list(r.animal?.listingIds).map(String)) if (!listingIds.includes(id)) listingIds.push(id);
+    for (const id of list(r.animal?.orderIds).map(String)) if (!orderIds.includes(id)) orderIds.push(id);
+  }
+  return {
+    primaryId: primary.id,
+    mergedIds: others.map((r) => r.id),
+    identifiers,
+    listingIds,
+    orderIds,
+  };
+}
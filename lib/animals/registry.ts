@@ -0,0 +1,314 @@
+/**
+ * Animal registry (server-only).
+ *
+ * `animals/{id}` is the canonical record for one animal, found through `animalIdentifiers/{key}` (one doc per
+ * normalized tag/microchip/registration number; see lib/animals/identity.ts). Listings link to it at publish,
+ * orders once their payment clears, and bills of sale/disputes through the order. Each step appends an
+ * `animals/{id}/events/{type}:{id}` doc (deterministic ids, so retries are idempotent). A refunded or cancelled
+ * order's sale is reversed: its SOLD/BILL_OF_SALE events are replaced by a SALE_REVERSED one.
+ *
+ * Publishing an animal that another live listing already offers is rejected; one that was last sold
+ * on-platform to a different user is only flagged for admins, since animals also change hands off-platform.
+ * When a listing's identifiers match several records (tag and microchip first seen on different listings), they
+ * are merged into one; the others keep their events and point at it through `mergedInto`.
+ */
+
+import { FieldValue, Timestamp, type Firestore } from 'firebase-admin/firestore';
+import type { AnimalEventType, AnimalIdentifier, AnimalTransferHistoryEntry, ListingCategory } from '@/lib/types';
+import {
+  getAnimalSaleReversal,
+  getListingAnimalIdentifiers,
+  isAnimalSaleConfirmed,
+  matchesAnimalIdentifiers,
+  mergeAnimalRecords,
+  toAnimalTransferHistory,
+} from '@/lib/animals/identity';
+
+/** Listing statuses that still offer the animal for sale. */
+const LIVE_LISTING_STATUSES = new Set(['pending', 'scheduled', 'active']);
+
+export interface AnimalListingConflict {
+  animalId: string;
+  identifier: AnimalIdentifier;
+  listingId: string;
+}
+
+export interface ListingAnimalRegistration {
+  animalIds: string[];
+  /** Another live listing already offers this animal (nothing was written). */
+  conflict: AnimalListingConflict | null;
+  /** The animal was last sold on-platform to someone other than this seller. */
+  ownerMismatch: { animalId: string; ownerId: string } | null;
+}
+
+function eventRef(db: Firestore, animalId: string, type: AnimalEventType, id: string) {
+  return db.collection('animals').doc(animalId).collection('events').doc(`${type}:${id}`);
+}
+
+/** Link a listing being published to its animal's registry record, creating the record on first sight. */
+export async function registerListingAnimal(
+  db: Firestore,
+  params: {
+    listingId: string;
+    sellerId: string;
+    category: ListingCategory;
+    attributes: Record<string, any> | null | undefined;
+    state?: string | null;
+  }
+): Promise<ListingAnimalRegistration> {
+  const identifiers = getListingAnimalIdentifiers(params.category, params.attributes);
+  if (identifiers.length === 0) return { animalIds: [], conflict: null, ownerMismatch: null };
+
+  return db.runTransaction(async (tx) => {
+    const idRefs = identifiers.map((i) => db.collection('animalIdentifiers').doc(i.key));
+    const idSnaps = await Promise.all(idRefs.map((ref) => tx.get(ref)));
+    const existingIds = Array.from(
+      new Set(idSnaps.map((s) => (s.exists ? String((s.data() as any)?.animalId || '') : '')).filter(Boolean))
+    );
+
+    const animalSnaps = await Promise.all(existingIds.map((id) => tx.get(db.collection('animals').doc(id))));
+    const matched = animalSnaps.map((snap) => ({ id: snap.id, animal: snap.exists ? (snap.data() as any) : null }));
+
+    // Any matched record still on another live listing blocks the publish, not just the first one.
+    for (const { id, animal: other } of matched) {
+      const activeListingId = other?.activeListingId ? String(other.activeListingId) : null;
+      if (!activeListingId || activeListingId === params.listingId) continue;
+      const otherSnap = await tx.get(db.collection('listings').doc(activeListingId));
+      if (otherSnap.exists && LIVE_LISTING_STATUSES.has(String((otherSnap.data() as any)?.status || ''))) {
+        const keys: string[] = Array.isArray(other?.identifierKeys) ? other.identifierKeys : [];
+        const identifier = identifiers.find((i) => keys.includes(i.key)) || identifiers[0];
+        return {
+          animalIds: [id],
+          conflict: { animalId: id, identifier, listingId: activeListingId },
+          ownerMismatch: null,
+        };
+      }
+    }
+
+    // The identifiers resolve to more than one record: keep one and fold the others into it.
+    const merge = matched.length > 1 ? mergeAnimalRecords(matched) : null;
+    const animalsRef = db.collection('animals');
+    const animalRef = merge ? animalsRef.doc(merge.primaryId) : matched[0] ? animalsRef.doc(matched[0].id) : animalsRef.doc();
+    const animal = matched.find((m) => m.id === animalRef.id)?.animal ?? null;
+
+    const ownerId = animal?.currentOwnerId ? String(animal.currentOwnerId) : null;
+    const soldBefore = Array.isArray(animal?.orderIds) && animal.orderIds.length > 0;
+    const ownerMismatch = soldBefore && ownerId && ownerId !== params.sellerId ? { animalId: animalRef.id, ownerId } : null;
+
+    const known: AnimalIdentifier[] = merge ? merge.identifiers : Array.isArray(animal?.identifiers) ? animal.identifiers : [];
+    const merged = [...known, ...identifiers.filter((i) => !known.some((k) => k.key === i.key))];
+    const now = Timestamp.now();
+
+    tx.set(
+      animalRef,
+      {
+        category: params.category,
+        ...(params.attributes?.speciesId ? { speciesId: String(params.attributes.speciesId) } : {}),
+        identifiers: merged,
+        identifierKeys: merged.map((i) => i.key),
+        currentOwnerId: soldBefore && ownerId ? ownerId : params.sellerId,
+        activeListingId: params.listingId,
+        listingIds: merge
+          ? Array.from(new Set([...merge.listingIds, params.listingId]))
+          : FieldValue.arrayUnion(params.listingId),
+        ...(merge ? { orderIds: merge.orderIds } : {}),
+        ...(animal ? {} : { orderIds: [], createdAt: now }),
+        updatedAt: now,
+      },
+      { merge: true }
+    );
+    for (const mergedId of merge?.mergedIds || []) {
+      tx.set(
+        animalsRef.doc(mergedId),
+        { mergedInto: animalRef.id, activeListingId: null, updatedAt: now },
+        { merge: true }
+      );
+    }
+    identifiers.forEach((i, idx) => {
+      if (!idSnaps[idx].exists) tx.set(idRefs[idx], { animalId: animalRef.id, type: i.type, createdAt: now });
+    });
+    // Point every identifier of the folded records at the kept one.
+    for (const i of merge?.identifiers || []) {
+      tx.set(db.collection('animalIdentifiers').doc(i.key), { animalId: animalRef.id }, { merge: true });
+    }
+    tx.set(
+      eventRef(db, animalRef.id, 'LISTED', params.listingId),
+      {
+        type: 'LISTED',
+        listingId: params.listingId,
+        fromUserId: params.sellerId,
+        state: params.state || null,
+        at: now,
+      },
+      { merge: true }
+    );
+
+    return { animalIds: [animalRef.id], conflict: null, ownerMismatch };
+  });
+}
+
+/**
+ * Transfer the listing's animals to the buyer once the order is paid. Returns the linked animal ids (none while
+ * the payment is still pending or the order was refunded/cancelled).
+ */
+export async function recordAnimalSale(
+  db: Firestore,
+  params: { orderId: string; listingId: string; buyerId: string; sellerId: string }
+): Promise<string[]> {
+  const [orderSnap, listingSnap] = await Promise.all([
+    db.collection('orders').doc(params.orderId).get(),
+    db.collection('listings').doc(params.listingId).get(),
+  ]);
+  if (!isAnimalSaleConfirmed(orderSnap.exists ? (orderSnap.data() as any) : null)) return [];
+  const listing = listingSnap.exists ? (listingSnap.data() as any) : null;
+  const animalIds: string[] = Array.isArray(listing?.animalIds) ? listing.animalIds.map(String) : [];
+  if (animalIds.length === 0) return [];
+
+  const now = Timestamp.now();
+  const batch = db.batch();
+  for (const animalId of animalIds) {
+    batch.set(
+      db.collection('animals').doc(animalId),
+      {
+        currentOwnerId: params.buyerId,
+        activeListingId: null,
+        orderIds: FieldValue.arrayUnion(params.orderId),
+        updatedAt: now,
+      },
+      { merge: true }
+    );
+    batch.set(
+      eventRef(db, animalId, 'SOLD', params.orderId),
+      {
+        type: 'SOLD',
+        listingId: params.listingId,
+        orderId: params.orderId,
+        fromUserId: params.sellerId,
+        toUserId: params.buyerId,
+        state: listing?.location?.state || null,
+        at: now,
+      },
+      { merge: true }
+    );
+  }
+  batch.set(db.collection('orders').doc(params.orderId), { animalIds }, { merge: true });
+  await batch.commit();
+  return animalIds;
+}
+
+/**
+ * Undo an order's sale in the registry (refund, cancellation, expired balance). Animals go back to the seller
+ * (and to the listing, if it's live again) unless they've been resold since. Safe to call more than once.
+ */
+export async function reverseAnimalSale(db: Firestore, params: { orderId: string; reason: string }): Promise<void> {
+  const orderSnap = await db.collection('orders').doc(params.orderId).get();
+  const order = orderSnap.exists ? (orderSnap.data() as any) : null;
+  const sellerId = String(order?.sellerId || '');
+  const listingId = order?.listingId ? String(order.listingId) : null;
+  if (!sellerId || !listingId) return;
+
+  const listingSnap = await db.collection('listings').doc(listingId).get();
+  const listing = listingSnap.exists ? (listingSnap.data() as any) : null;
+  // Wire orders generate their bill of sale before the money arrives, so an unpaid one only has the listing's ids.
+  const animalIds: string[] = (
+    Array.isArray(order?.animalIds) ? order.animalIds : Array.isArray(listing?.animalIds) ? listing.animalIds : []
+  ).map(String);
+  const relistedListingId = LIVE_LISTING_STATUSES.has(String(listing?.status || '')) ? listingId : null;
+
+  for (const animalId of animalIds) {
+    const animalRef = db.collection('animals').doc(animalId);
+    await db.runTransaction(async (tx) => {
+      const animalSnap = await tx.get(animalRef);
+      const reversal = getAnimalSaleReversal(animalSnap.exists ? (animalSnap.data() as any) : null, {
+        orderId: params.orderId,
+        sellerId,
+        relistedListingId,
+      });
+      tx.delete(eventRef(db, animalId, 'SOLD', params.orderId));
+      tx.delete(eventRef(db, animalId, 'BILL_OF_SALE', params.orderId));
+      if (!reversal) return;
+
+      const now = Timestamp.now();
+      tx.set(animalRef, { ...reversal, updatedAt: now }, { merge: true });
+      tx.set(
+        eventRef(db, animalId, 'SALE_REVERSED', params.orderId),
+        {
+          type: 'SALE_REVERSED',
+          orderId: params.orderId,
+          listingId,
+          toUserId: sellerId,
+          reason: params.reason,
+          at: now,
+        },
+        { merge: true }
+      );
+    });
+  }
+}
+
+/** Note the generated bill of sale on the order's animals. */
+export async function recordAnimalBillOfSale(
+  db: Firestore,
+  params: { orderId: string; animalIds: string[]; at: Timestamp }
+): Promise<void> {
+  if (params.animalIds.length === 0) return;
+  const batch = db.batch();
+  for (const animalId of params.animalIds) {
+    batch.set(
+      eventRef(db, animalId, 'BILL_OF_SALE', params.orderId),
+      { type: 'BILL_OF_SALE', orderId: params.orderId, at: params.at },
+      { merge: true }
+    );
+  }
+  await batch.commit();
+}
+
+/**
+ * Record a dispute against the order's animals. When the buyer read a tag/microchip off the delivered animal,
+ * store whether it matches the registry (a mismatch backs a `wrong_animal` claim).
+ */
+export async function recordAnimalDispute(
+  db: Firestore,
+  params: { orderId: string; animalIds: string[]; reason: string; observedIdentifier?: string | null }
+): Promise<{ observedMatches: boolean | null }> {
+  if (params.animalIds.length === 0) return { observedMatches: null };
+  const observed = String(params.observedIdentifier || '').trim();
+  let observedMatches: boolean | null = null;
+  if (observed) {
+    const snaps = await Promise.all(params.animalIds.map((id) => db.collection('animals').doc(id).get()));
+    observedMatches = snaps.some((s) => matchesAnimalIdentifiers(observed, ((s.data() as any)?.identifiers || []) as AnimalIdentifier[]));
+  }
+
+  const now = Timestamp.now();
+  const batch = db.batch();
+  for (const animalId of params.animalIds) {
+    batch.set(
+      eventRef(db, animalId, 'DISPUTE_OPENED', params.orderId),
+      {
+        type: 'DISPUTE_OPENED',
+        orderId: params.orderId,
+        reason: params.reason,
+        ...(observed ? { observedIdentifier: observed.slice(0, 100), observedMatches } : {}),
+        at: now,
+      },
+      { merge: true }
+    );
+  }
+  await batch.commit();
+  return { observedMatches };
+}
+
+/** Public transfer history of one registered animal (no user ids). */
+export async function getAnimalTransferHistory(
+  db: Firestore,
+  animalId: string
+): Promise<{ priorSales: number; history: AnimalTransferHistoryEntry[] }> {
+  const eventsSnap = await db.collection('animals').doc(animalId).collection('events').orderBy('at', 'asc').get();
+  const history = toAnimalTransferHistory(
+    eventsSnap.docs.map((d) => {
+      const e = d.data() as any;
+      return { type: e.type as AnimalEventType, at: e.at?.toDate?.() || new Date(0), state: e.state ?? null };
+    })
+  );
+  return { priorSales: history.filter((h) => h.type === 'SOLD').length, history };
+}
@@ -92,6 +92,8 @@ export type MyBidRow = {
   myBidCount: number;
   myLastBidAt: number | null;
   currentHighestBid: number;
+  /** Required bid increment (USD) at the current price, from the listing's increment ladder. */
+  minIncrement?: number;
   endsAt: number | null;
   status: 'WINNING' | 'OUTBID' | 'WON' | 'LOST';
 };
@@ -0,0 +1,44 @@
+import type { SoldCompsCriteria, SoldCompsStats } from '@/lib/listings/soldComps';
+
+export type SoldComp = {
+  listingId: string;
+  title: string;
+  soldAt: string;
+  soldPriceCents: number;
+  location: { city: string; state: string };
+  primaryImageUrl: string;
+  urlSlug?: string;
+};
+
+export type SoldCompsResult = {
+  comps: SoldComp[];
+  stats: SoldCompsStats | null;
+  refinedBy: Array<'sex' | 'age'>;
+};
+
+/**
+ * Sold comps for a listing that hasn't been created yet (new-listing price guidance).
+ * Public endpoint; no auth required.
+ */
+export async function getDraftSoldComps(
+  criteria: SoldCompsCriteria,
+  opts?: { windowDays?: 30 | 90; signal?: AbortSignal }
+): Promise<SoldCompsResult> {
+  const sp = new URLSearchParams();
+  sp.set('category', criteria.category);
+  sp.set('state', criteria.state);
+  if (criteria.speciesId) sp.set('speciesId', criteria.speciesId);
+  if (criteria.breed) sp.set('breed', criteria.breed);
+  if (criteria.sex) sp.set('sex', criteria.sex);
+  if (criteria.age != null && criteria.age !== '') sp.set('age', String(criteria.age));
+  if (opts?.windowDays) sp.set('windowDays', String(opts.windowDays));
+
+  const res = await fetch(`/api/listings/comps?${sp.toString()}`, { method: 'GET', signal: opts?.signal });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.message || data?.error || 'Failed to load sold comps');
+  return {
+    comps: Array.isArray(data?.comps) ? data.comps : [],
+    stats: data?.stats && typeof data.stats === 'object' ? data.stats : null,
+    refinedBy: Array.isArray(data?.refinedBy) ? data.refinedBy : [],
+  };
+}
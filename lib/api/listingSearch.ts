@@ -0,0 +1,154 @@
+import { toListing } from '@/lib/firebase/listings';
+import type { BrowseFilters } from '@/lib/firebase/listings';
+import type { Listing } from '@/lib/types';
+import type { LatLng } from '@/lib/geo/geohash';
+import {
+  setAttributeFacetSearchParams,
+  type AttributeFacetCounts,
+  type AttributeFacetSelections,
+} from '@/lib/search/categoryFacets';
+
+export type ListingSearchSort = 'relevance' | 'newest' | 'oldest' | 'priceAsc' | 'priceDesc' | 'endingSoon';
+
+export type ListingSearchResult = {
+  items: Listing[];
+  nextCursor: string | null;
+  hasMore: boolean;
+};
+
+function setDeliversToSearchParams(sp: URLSearchParams, deliversTo: LatLng | null | undefined) {
+  if (!deliversTo) return;
+  sp.set('deliversToLat', String(deliversTo.lat));
+  sp.set('deliversToLng', String(deliversTo.lng));
+}
+
+/**
+ * Full-text listing search (server-ranked). Public endpoint; no auth header needed.
+ * Accepts the same filter shape as `queryListingsForBrowse` so browse can swap between them.
+ * `deliversTo` keeps only listings whose seller delivers to that point ("Seller delivers to me").
+ */
+export async function searchListingsServer(params: {
+  q: string;
+  filters?: BrowseFilters;
+  sort?: ListingSearchSort;
+  limit?: number;
+  cursor?: string | null;
+  deliversTo?: LatLng | null;
+}): Promise<ListingSearchResult> {
+  const sp = new URLSearchParams();
+  sp.set('q', params.q);
+  const f = params.filters || {};
+  if (f.lifecycle) sp.set('lifecycle', f.lifecycle);
+  if (f.type) sp.set('type', f.type);
+  if (f.category) sp.set('category', f.category);
+  if (f.location?.state) sp.set('state', f.location.state);
+  if (f.featured) sp.set('featured', 'true');
+  if (typeof f.minPrice === 'number') sp.set('minPrice', String(f.minPrice));
+  if (typeof f.maxPrice === 'number') sp.set('maxPrice', String(f.maxPrice));
+  setDeliversToSearchParams(sp, params.deliversTo);
+  if (params.sort) sp.set('sort', params.sort);
+  if (params.limit) sp.set('limit', String(params.limit));
+  if (params.cursor) sp.set('cursor', params.cursor);
+
+  const res = await fetch(`/api/listings/search?${sp.toString()}`, { method: 'GET' });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || !data?.ok) throw new Error(data?.message || data?.error || 'Search failed');
+
+  return {
+    items: (Array.isArray(data.items) ? data.items : []).map((d: any) => toListing(d)),
+    nextCursor: typeof data.nextCursor === 'string' ? data.nextCursor : null,
+    hasMore: data.hasMore === true,
+  };
+}
+
+export type NearbyListingSort = 'distance' | 'newest' | 'priceAsc' | 'priceDesc' | 'endingSoon';
+
+export type NearbyListingResult = ListingSearchResult & {
+  /** Resolved search center (geocoded from ZIP when lat/lng weren't given). */
+  center: { lat: number; lng: number } | null;
+  /** Listing id -> miles from `center`. */
+  distances: Record<string, number>;
+};
+
+/**
+ * "Within X miles" search over geocoded listings. Public endpoint; no auth header needed.
+ * Pass either `zip` or `lat`/`lng`; `q` and `deliversTo` narrow the same way as in `searchListingsServer`.
+ */
+export async function searchListingsNearbyServer(params: {
+  zip?: string;
+  lat?: number;
+  lng?: number;
+  radiusMiles: number;
+  q?: string;
+  filters?: BrowseFilters;
+  sort?: NearbyListingSort;
+  limit?: number;
+  cursor?: string | null;
+  deliversTo?: LatLng | null;
+}): Promise<NearbyListingResult> {
+  const sp = new URLSearchParams();
+  if (typeof params.lat === 'number' && typeof params.lng === 'number') {
+    sp.set('lat', String(params.lat));
+    sp.set('lng', String(params.lng));
+  } else if (params.zip) {
+    sp.set('zip', params.zip);
+  }
+  sp.set('radiusMiles', String(params.radiusMiles));
+  if (params.q?.trim()) sp.set('q', params.q.trim());
+  const f = params.filters || {};
+  if (f.type) sp.set('type', f.type);
+  if (f.category) sp.set('category', f.category);
+  if (f.location?.state) sp.set('state', f.location.state);
+  if (f.featured) sp.set('featured', 'true');
+  if (typeof f.minPrice === 'number') sp.set('minPrice', String(f.minPrice));
+  if (typeof f.maxPrice === 'number') sp.set('maxPrice', String(f.maxPrice));
+  setDeliversToSearchParams(sp, params.deliversTo);
+  if (params.sort) sp.set('sort', params.sort);
+  if (params.limit) sp.set('limit', String(params.limit));
+  if (params.cursor) sp.set('cursor', params.cursor);
+
+  const res = await fetch(`/api/listings/nearby?${sp.toString()}`, { method: 'GET' });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || !data?.ok) throw new Error(data?.message || data?.error || 'Nearby search failed');
+
+  const rawItems: any[] = Array.isArray(data.items) ? data.items : [];
+  const distances: Record<string, number> = {};
+  for (const d of rawItems) {
+    if (d?.id && typeof d.distanceMiles === 'number') distances[d.id] = d.distanceMiles;
+  }
+  const c = data.center;
+  return {
+    items: rawItems.map((d: any) => toListing(d)),
+    nextCursor: typeof data.nextCursor === 'string' ? data.nextCursor : null,
+    hasMore: data.hasMore === true,
+    center: c && typeof c.lat === 'number' && typeof c.lng === 'number' ? { lat: c.lat, lng: c.lng } : null,
+    distances,
+  };
+}
+
+export type AttributeFacetCountsResult = {
+  counts: AttributeFacetCounts;
+  total: number;
+  truncated: boolean;
+};
+
+/** Attribute facet counts for a category's active listings. Public endpoint; no auth header needed. */
+export async function getAttributeFacetCountsServer(params: {
+  category: string;
+  type?: string | null;
+  selections?: AttributeFacetSelections;
+}): Promise<AttributeFacetCountsResult> {
+  const sp = new URLSearchParams();
+  sp.set('category', params.category);
+  if (params.type) sp.set('type', params.type);
+  setAttributeFacetSearchParams(sp, params.selections);
+
+  const res = await fetch(`/api/listings/facets?${sp.toString()}`, { method: 'GET' });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || !data?.ok) throw new Error(data?.message || data?.error || 'Failed to load facet counts');
+  return {
+    counts: data.counts && typeof data.counts === 'object' ? data.counts : {},
+    total: Number(data.total) || 0,
+    truncated: data.truncated === true,
+  };
+}
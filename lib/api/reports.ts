@@ -0,0 +1,25 @@
+import { auth } from '@/lib/firebase/config';
+import { getIdToken } from 'firebase/auth';
+import type { ReportReasonCode, ReportTargetType } from '@/lib/safety/reports';
+
+/** Report a listing or user to Trust & Safety (see lib/safety/reports.ts). */
+export async function submitReport(params: {
+  targetType: ReportTargetType;
+  targetId: string;
+  reason: ReportReasonCode;
+  details?: string;
+}): Promise<{ ok: true; reportId: string; updated: boolean } | { ok: false; error: string }> {
+  const user = auth.currentUser;
+  if (!user) return { ok: false, error: 'You must be signed in.' };
+
+  const token = await getIdToken(user, true);
+  const res = await fetch('/api/reports', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', authorization: `Bearer ${token}` },
+    body: JSON.stringify(params),
+  });
+
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || !data?.ok) return { ok: false, error: data?.error || 'Failed to submit report' };
+  return { ok: true, reportId: String(data.reportId), updated: data.updated === true };
+}
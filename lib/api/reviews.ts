@@ -0,0 +1,65 @@
+import { auth } from '@/lib/firebase/config';
+import { getIdToken } from 'firebase/auth';
+
+/** Post or edit the seller's public response to a review (see lib/reviews/sellerResponse.ts). */
+export async function respondToReview(params: {
+  orderId: string;
+  text: string;
+}): Promise<{ ok: true; created: boolean } | { ok: false; error: string }> {
+  const user = auth.currentUser;
+  if (!user) return { ok: false, error: 'You must be signed in.' };
+
+  const token = await getIdToken(user, true);
+  const res = await fetch('/api/reviews/respond', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', authorization: `Bearer ${token}` },
+    body: JSON.stringify({ orderId: params.orderId, text: params.text }),
+  });
+
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || !data?.ok) return { ok: false, error: data?.error || 'Failed to save response' };
+  return { ok: true, created: data.created === true };
+}
+
+export type BuyerReviewEligibilityResult =
+  | { eligible: true; outcome: 'completed' | 'cancelled'; pickupApplicable: boolean }
+  | { eligible: false; reason: string };
+
+/** Whether the signed-in seller can rate the buyer on this order. */
+export async function getBuyerReviewEligibility(
+  orderId: string
+): Promise<({ ok: true } & BuyerReviewEligibilityResult) | { ok: false; error: string }> {
+  const user = auth.currentUser;
+  if (!user) return { ok: false, error: 'You must be signed in.' };
+
+  const token = await getIdToken(user, true);
+  const res = await fetch(`/api/reviews/buyer/eligibility?orderId=${encodeURIComponent(orderId)}`, {
+    headers: { authorization: `Bearer ${token}` },
+  });
+
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || !data?.ok) return { ok: false, error: data?.error || 'Failed to check eligibility' };
+  if (data.eligible !== true) return { ok: true, eligible: false, reason: String(data.reason || '') };
+  return { ok: true, eligible: true, outcome: data.outcome, pickupApplicable: data.pickupApplicable === true };
+}
+
+/** Seller rates the buyer on a completed/cancelled order (see lib/reviews/buyerReputation.ts). */
+export async function rateBuyer(params: {
+  orderId: string;
+  ratings: { payment: number; pickup: number | null; communication: number };
+  text?: string;
+}): Promise<{ ok: true } | { ok: false; error: string }> {
+  const user = auth.currentUser;
+  if (!user) return { ok: false, error: 'You must be signed in.' };
+
+  const token = await getIdToken(user, true);
+  const res = await fetch('/api/reviews/buyer/create', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', authorization: `Bearer ${token}` },
+    body: JSON.stringify(params),
+  });
+
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || !data?.ok) return { ok: false, error: data?.error || 'Failed to rate buyer' };
+  return { ok: true };
+}
@@ -0,0 +1,67 @@
+import { auth } from '@/lib/firebase/config';
+import { getIdToken } from 'firebase/auth';
+import type { BuyerReputationSummary } from '@/lib/reviews/buyerReputation';
+
+export type SecondChanceCandidateRow = {
+  buyerId: string;
+  rank: number;
+  maxBid: number;
+  buyerReputation?: BuyerReputationSummary | null;
+};
+
+export type SecondChanceInfo = {
+  eligible: boolean;
+  status: string | null;
+  reservePrice: number | null;
+  deadlineAt: string | null;
+  pending: { offerId: string; buyerId: string; amount: number; expiresAt: string | null } | null;
+  defaultExpiresInHours: number;
+  candidates: SecondChanceCandidateRow[];
+};
+
+export async function getSecondChanceInfo(params: {
+  auctionId: string;
+}): Promise<({ ok: true } & SecondChanceInfo) | { ok: false; error: string }> {
+  const user = auth.currentUser;
+  if (!user) return { ok: false, error: 'You must be signed in.' };
+
+  const token = await getIdToken(user, true);
+  const res = await fetch(`/api/auctions/${encodeURIComponent(params.auctionId)}/second-chance`, {
+    method: 'GET',
+    headers: { authorization: `Bearer ${token}` },
+  });
+
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || !data?.ok) return { ok: false, error: data?.error || 'Failed to load second-chance options' };
+  return data;
+}
+
+export async function sendSecondChanceOfferServer(params: {
+  auctionId: string;
+  buyerId: string;
+  amount: number;
+  expiresInHours?: number;
+  note?: string;
+}): Promise<{ ok: true; offerId: string; expiresAt: string } | { ok: false; error: string }> {
+  const user = auth.currentUser;
+  if (!user) return { ok: false, error: 'You must be signed in.' };
+
+  const token = await getIdToken(user, true);
+  const res = await fetch(`/api/auctions/${encodeURIComponent(params.auctionId)}/second-chance`, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({
+      buyerId: params.buyerId,
+      amount: params.amount,
+      expiresInHours: params.expiresInHours,
+      note: params.note,
+    }),
+  });
+
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || !data?.ok) return { ok: false, error: data?.error || 'Failed to send second-chance offer' };
+  return { ok: true, offerId: data.offerId, expiresAt: data.expiresAt };
+}
@@ -0,0 +1,139 @@
+/**
+ * Bid increment ladders (price band -> minimum increment).
+ *
+ * Important design notes for this codebase:
+ * - A ladder is an ordered list of tiers; the first tier whose `upToCents` is greater than the current
+ *   price wins. The last tier must be open-ended (`upToCents: null`).
+ * - Ladders are selected per `ListingCategory`, and a listing may carry its own `bidIncrementLadder`
+ *   override (validated here; invalid overrides fall back to the category ladder).
+ * - Server routes (`/api/bids/place`, `/api/auctions/[auctionId]/auto-bid/set`), the proxy engine and
+ *   bid UIs must all resolve the ladder through `resolveBidIncrementLadder` so the minimum next bid
+ *   shown to buyers is exactly what the server enforces.
+ */
+
+import type { ListingCategory } from '@/lib/types';
+
+export interface BidIncrementTier {
+  /** Exclusive upper bound of the price band (cents). `null` = no upper bound (last tier). */
+  upToCents: number | null;
+  incrementCents: number;
+}
+
+export type BidIncrementLadder = BidIncrementTier[];
+
+const $ = (usd: number) => Math.round(usd * 100);
+
+/** Fallback for unknown categories; roughly tracks the historical 5% / $50 floor at typical prices. */
+export const DEFAULT_BID_INCREMENT_LADDER: BidIncrementLadder = [
+  { upToCents: $(1_000), incrementCents: $(50) },
+  { upToCents: $(5_000), incrementCents: $(100) },
+  { upToCents: $(25_000), incrementCents: $(250) },
+  { upToCents: $(100_000), incrementCents: $(1_000) },
+  { upToCents: null, incrementCents: $(2_500) },
+];
+
+const LIVESTOCK_LADDER: BidIncrementLadder = [
+  { upToCents: $(500), incrementCents: $(10) },
+  { upToCents: $(1_000), incrementCents: $(25) },
+  { upToCents: $(5_000), incrementCents: $(50) },
+  { upToCents: $(25_000), incrementCents: $(100) },
+  { upToCents: null, incrementCents: $(250) },
+];
+
+const EQUIPMENT_LADDER: BidIncrementLadder = [
+  { upToCents: $(1_000), incrementCents: $(25) },
+  { upToCents: $(5_000), incrementCents: $(50) },
+  { upToCents: $(25_000), incrementCents: $(100) },
+  { upToCents: $(100_000), incrementCents: $(250) },
+  { upToCents: null, incrementCents: $(500) },
+];
+
+export const CATEGORY_BID_INCREMENT_LADDERS: Record<ListingCategory, BidIncrementLadder> = {
+  whitetail_breeder: [
+    { upToCents: $(1_000), incrementCents: $(50) },
+    { upToCents: $(5_000), incrementCents: $(100) },
+    { upToCents: $(25_000), incrementCents: $(250) },
+    { upToCents: $(100_000), incrementCents: $(500) },
+    { upToCents: null, incrementCents: $(1_000) },
+  ],
+  wildlife_exotics: [
+    { upToCents: $(1_000), incrementCents: $(25) },
+    { upToCents: $(5_000), incrementCents: $(50) },
+    { upToCents: $(25_000), incrementCents: $(100) },
+    { upToCents: null, incrementCents: $(250) },
+  ],
+  horse_equestrian: [
+    { upToCents: $(2_500), incrementCents: $(50) },
+    { upToCents: $(10_000), incrementCents: $(100) },
+    { upToCents: $(50_000), incrementCents: $(250) },
+    { upToCents: null, incrementCents: $(500) },
+  ],
+  cattle_livestock: LIVESTOCK_LADDER,
+  farm_animals: LIVESTOCK_LADDER,
+  sporting_working_dogs: [
+    { upToCents: $(500), incrementCents: $(10) },
+    { upToCents: $(1_000), incrementCents: $(25) },
+    { upToCents: $(5_000), incrementCents: $(50) },
+    { upToCents: null, incrementCents: $(100) },
+  ],
+  ranch_equipment: EQUIPMENT_LADDER,
+  ranch_vehicles: EQUIPMENT_LADDER,
+  hunting_outfitter_assets: EQUIPMENT_LADDER,
+};
+
+const MAX_TIERS = 12;
+
+/**
+ * Validate a ladder (e.g. a per-listing override coming from Firestore).
+ * Tiers must have strictly increasing integer bounds, positive integer increments, and end open-ended.
+ */
+export function isValidBidIncrementLadder(ladder: unknown): ladder is BidIncrementLadder {
+  if (!Array.isArray(ladder) || ladder.length === 0 || ladder.length > MAX_TIERS) return false;
+  let prev = 0;
+  for (let i = 0; i < ladder.length; i++) {
+    const t = ladder[i] as any;
+    const inc = t?.incrementCents;
+    if (typeof inc !== 'number' || !Number.isInteger(inc) || inc <= 0) return false;
+    const isLast = i === ladder.length - 1;
+    if (isLast) {
+      if (t.upToCents !== null) return false;
+    } else {
+      const up = t?.upToCents;
+      if (typeof up !== 'number' || !Number.isInteger(up) || up <= prev) return false;
+      prev = up;
+    }
+  }
+  return true;
+}
+
+/**
+ * Resolve the ladder for a listing (raw Firestore data or UI Listing): listing override, then category.
+ */
+export function resolveBidIncrementLadder(listing: { category?: string | null; bidIncrementLadder?: unknown } | null | undefined): BidIncrementLadder {
+  if (listing && isValidBidIncrementLadder(listing.bidIncrementLadder)) return listing.bidIncrementLadder;
+  const category = listing?.category as ListingCategory | undefined;
+  return (category && CATEGORY_BID_INCREMENT_LADDERS[category]) || DEFAULT_BID_INCREMENT_LADDER;
+}
+
+export function getIncrementFromLadder(currentBidCents: number, ladder: BidIncrementLadder): number {
+  const price = Math.max(0, Math.floor(Number(currentBidCents) || 0));
+  for (const tier of ladder) {
+    if (tier.upToCents === null || price < tier.upToCents) return tier.incrementCents;
+  }
+  return ladder[ladder.length - 1]!.incrementCents;
+}
+
+/**
+ * Minimum acceptable next bid (cents):
+ * - First bid may equal the starting bid (no increment).
+ * - Once any bids exist: current price + ladder increment at the current price.
+ */
+export function getMinNextBidCents(params: {
+  currentBidCents: number;
+  startingBidCents: number;
+  hasAnyBids: boolean;
+  ladder: BidIncrementLadder;
+}): number {
+  if (!params.hasAnyBids) return Math.max(0, params.startingBidCents);
+  return params.currentBidCents + getIncrementFromLadder(params.currentBidCents, params.ladder);
+}
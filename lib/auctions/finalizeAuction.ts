@@ -100,8 +100,12 @@ export type AllowedAuctionResultTransition =
   | ['ended_winner_pending_payment', 'ended_unpaid_expired']
   | ['ended_unpaid_expired', 'ended_relisted']
   | ['ended_winner_pending_payment', 'ended_second_chance_offered']
+  | ['ended_reserve_not_met', 'ended_second_chance_offered']
+  | ['ended_unpaid_expired', 'ended_second_chance_offered']
   | ['ended_second_chance_offered', 'ended_paid']
-  | ['ended_second_chance_offered', 'ended_relisted'];
+  | ['ended_second_chance_offered', 'ended_relisted']
+  | ['ended_second_chance_offered', 'ended_reserve_not_met']
+  | ['ended_second_chance_offered', 'ended_unpaid_expired'];
 
 export const ALLOWED_AUCTION_RESULT_TRANSITIONS: AllowedAuctionResultTransition[] = [
   ['scheduled', 'active'],
@@ -112,8 +116,13 @@ export const ALLOWED_AUCTION_RESULT_TRANSITIONS: AllowedAuctionResultTransition[
   ['ended_winner_pending_payment', 'ended_unpaid_expired'],
   ['ended_unpaid_expired', 'ended_relisted'],
   ['ended_winner_pending_payment', 'ended_second_chance_offered'],
+  // Second-chance offers (lib/auctions/secondChance.ts): declined/expired offers fall back to the source status.
+  ['ended_reserve_not_met', 'ended_second_chance_offered'],
+  ['ended_unpaid_expired', 'ended_second_chance_offered'],
   ['ended_second_chance_offered', 'ended_paid'],
   ['ended_second_chance_offered', 'ended_relisted'],
+  ['ended_second_chance_offered', 'ended_reserve_not_met'],
+  ['ended_second_chance_offered', 'ended_unpaid_expired'],
 ];
 
 export function isAllowedAuctionResultTransition(from: AuctionResultStatus, to: AuctionResultStatus): boolean {
@@ -167,6 +176,8 @@ export async function finalizeAuctionIfNeeded(params: {
         throw new FinalizeError('NOT_AUCTION', 'Listing is not an auction');
       }
 
+      // endsAt is authoritative and already includes any soft-close extensions (written by bid placement
+      // in its own transaction), so a late bid committed before this read always keeps the auction open.
       const endsAt = tsOrNull(listing?.endsAt);
       if (!endsAt) throw new FinalizeError('MISSING_ENDS_AT', 'Auction listing is missing endsAt');
       if (endsAt.toMillis() > nowTs.toMillis()) {
@@ -201,6 +212,7 @@ export async function finalizeAuctionIfNeeded(params: {
       assertInt(currentBidCents, 'currentBidCents');
 
       const lastBidAt = tsOrNull(listing?.metrics?.lastBidAt);
+      const softCloseExtensionCount = Math.max(0, Math.floor(Number(listing?.softCloseExtensionCount || 0) || 0));
       const paymentDueAt =
         computedOutcome.status === 'ended_winner_pending_payment'
           ? Timestamp.fromMillis(nowTs.toMillis() + AUCTION_PAYMENT_WINDOW_HOURS * 60 * 60 * 1000)
@@ -221,6 +233,9 @@ export async function finalizeAuctionIfNeeded(params: {
           currentBidderId,
           bidCountAtEnd,
           lastBidAt,
+          ...(softCloseExtensionCount > 0
+            ? { softCloseExtensionCount, originalEndsAt: tsOrNull(listing?.originalEndsAt) }
+            : {}),
           tieBreak: { strategy: 'max_then_time' },
         },
         paymentDueAt,
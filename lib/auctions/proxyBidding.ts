@@ -7,8 +7,11 @@
  * - This engine computes the next auction state deterministically from:
  *   - currentBidCents, highBidderId
  *   - a set of enabled max bids (autoBidSet)
+ *   - the listing's bid increment ladder (see ./bidIncrements)
  */
 
+import { getIncrementFromLadder, type BidIncrementLadder } from './bidIncrements';
+
 export type ProxyBidSource = 'manual' | 'auto';
 
 export interface AutoBidEntry {
@@ -30,6 +33,7 @@ export interface ComputeNextStateInput {
   currentBidCents: number;
   highBidderId: string | null;
   autoBidSet: AutoBidEntry[]; // includes all known auto bids (enabled + disabled)
+  incrementLadder?: BidIncrementLadder; // resolved via resolveBidIncrementLadder(listing)
 }
 
 export interface ComputeNextStateOutput {
@@ -49,13 +53,14 @@ export function assertValidCents(n: number, label: string) {
 }
 
 /**
- * Bid increment ladder (sane default, mirrors current UI behavior):
- * - 5% of current price
- * - minimum $50 (5000 cents)
- * - rounded up to the nearest $1 to avoid odd cents.
+ * Minimum bid increment at a price.
+ * - With a ladder (category/listing tiers): the tier increment for the current price band.
+ * - Without one (legacy callers): 5% of current price, minimum $50 (5000 cents),
+ *   rounded up to the nearest $1 to avoid odd cents.
  */
-export function getMinIncrementCents(currentBidCents: number): number {
+export function getMinIncrementCents(currentBidCents: number, ladder?: BidIncrementLadder): number {
   assertValidCents(currentBidCents, 'currentBidCents');
+  if (ladder && ladder.length > 0) return getIncrementFromLadder(currentBidCents, ladder);
   const inc = Math.max(Math.round(currentBidCents * 0.05), 5000);
   return Math.ceil(inc / 100) * 100;
 }
@@ -95,7 +100,7 @@ export function computeNextState(input: ComputeNextStateInput): ComputeNextState
 
   let targetPrice = input.currentBidCents;
   if (runnerUp) {
-    const inc = getMinIncrementCents(runnerUp.maxBidCents);
+    const inc = getMinIncrementCents(runnerUp.maxBidCents, input.incrementLadder);
     targetPrice = Math.min(runnerUp.maxBidCents + inc, winner.maxBidCents);
   } else {
     // Single bidder: price stays where it is (starting bid / current price).
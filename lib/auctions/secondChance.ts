@@ -0,0 +1,419 @@
+import { Timestamp, type Firestore } from 'firebase-admin/firestore';
+import { logInfo, logWarn } from '@/lib/monitoring/logger';
+import type { AuctionResultStatus } from '@/lib/types/auctionResult';
+import { isAllowedAuctionResultTransition } from '@/lib/auctions/finalizeAuction';
+import { emitAndProcessEventForUser } from '@/lib/notifications';
+import { getSiteUrl } from '@/lib/site-url';
+
+/**
+ * Second-chance offers (post-auction).
+ *
+ * When an auction ends below reserve, or the winner lets the payment window lapse, the seller can send a
+ * time-limited offer to one bidder. The offer is a regular `offers/{offerId}` doc (status `countered`,
+ * seller last actor) so the buyer accepts/declines and checks out through the existing Best Offer flow.
+ *
+ * State lives on `auctionResults/{listingId}`:
+ * - `ended_reserve_not_met` / `ended_unpaid_expired` -> `ended_second_chance_offered` when an offer is sent
+ * - back to the previous status when the offer is declined/expired/withdrawn (seller may try the next bidder;
+ *   unpaid auctions get a fresh `secondChanceDeadlineAt` before auto-relist)
+ * - `ended_paid` once the offer converts into a paid order
+ */
+
+export const SECOND_CHANCE_SOURCE_STATUSES: AuctionResultStatus[] = ['ended_reserve_not_met', 'ended_unpaid_expired'];
+
+export const SECOND_CHANCE_OFFER_DEFAULT_HOURS = 48;
+export const SECOND_CHANCE_OFFER_MIN_HOURS = 12;
+export const SECOND_CHANCE_OFFER_MAX_HOURS = 72;
+
+/** After an unpaid winner expires, how long the seller has to send a second-chance offer before auto-relist. */
+export const SECOND_CHANCE_DECISION_WINDOW_HOURS = 72;
+
+const MAX_AUTO_BIDS_READ = 500;
+
+export type SecondChanceCandidate = {
+  userId: string;
+  maxBidCents: number;
+  createdAtMs: number;
+};
+
+/**
+ * Rank bidders for a second-chance offer: highest max bid first, earliest bidder wins ties
+ * (same tie-break as proxy bidding). Excluded users (e.g. the non-paying winner) are dropped.
+ */
+export function rankSecondChanceCandidates(
+  entries: Array<{ userId: string; maxBidCents: number; createdAtMs?: number | null }>,
+  opts?: { excludeUserIds?: Array<string | null | undefined> }
+): SecondChanceCandidate[] {
+  const exclude = new Set((opts?.excludeUserIds || []).filter(Boolean) as string[]);
+  const byUser = new Map<string, SecondChanceCandidate>();
+  for (const e of entries) {
+    const userId = String(e?.userId || '').trim();
+    const maxBidCents = Math.floor(Number(e?.maxBidCents) || 0);
+    if (!userId || exclude.has(userId) || maxBidCents <= 0) continue;
+    const createdAtMs = Number(e?.createdAtMs) || 0;
+    const prev = byUser.get(userId);
+    if (!prev || maxBidCents > prev.maxBidCents) byUser.set(userId, { userId, maxBidCents, createdAtMs });
+  }
+  return Array.from(byUser.values()).sort((a, b) => b.maxBidCents - a.maxBidCents || a.createdAtMs - b.createdAtMs);
+}
+
+export function clampSecondChanceOfferHours(hours: unknown): number {
+  const n = Math.round(Number(hours));
+  if (!Number.isFinite(n)) return SECOND_CHANCE_OFFER_DEFAULT_HOURS;
+  return Math.max(SECOND_CHANCE_OFFER_MIN_HOURS, Math.min(SECOND_CHANCE_OFFER_MAX_HOURS, n));
+}
+
+/**
+ * Load ranked second-chance candidates for a finalized auction (server-only).
+ * Bidders come from `listings/{listingId}/autoBids` (max bids are authoritative, enabled or not).
+ * For unpaid-expired results the original winner is excluded.
+ */
+export async function listSecondChanceCandidates(params: {
+  db: Firestore;
+  listingId: string;
+  auctionResult: { status?: string; winnerBidderId?: string | null } | null;
+}): Promise<SecondChanceCandidate[]> {
+  const snap = await params.db
+    .collection('listings')
+    .doc(params.listingId)
+    .collection('autoBids')
+    .limit(MAX_AUTO_BIDS_READ)
+    .get();
+  const entries = snap.docs.map((d) => {
+    const data = d.data() as any;
+    return {
+      userId: String(data?.userId || d.id),
+      maxBidCents: Number(data?.maxBidCents || 0),
+      createdAtMs: typeof data?.createdAt?.toMillis === 'function' ? data.createdAt.toMillis() : 0,
+    };
+  });
+  const unpaidWinner =
+    params.auctionResult?.status === 'ended_unpaid_expired' || params.auctionResult?.status === 'ended_winner_pending_payment'
+      ? params.auctionResult?.winnerBidderId
+      : null;
+  return rankSecondChanceCandidates(entries, { excludeUserIds: [unpaidWinner] });
+}
+
+export type CreateSecondChanceOfferResult =
+  | {
+      ok: true;
+      offerId: string;
+      buyerId: string;
+      amount: number;
+      expiresAt: Timestamp;
+      listingTitle: string;
+    }
+  | { ok: false; status: number; code: string; message: string };
+
+/**
+ * Create a second-chance offer (transactional).
+ *
+ * - Seller-only; auction must be finalized in a second-chance source status.
+ * - Buyer must be one of the ranked candidates (and not the unpaid winner).
+ * - Writes the offer, moves the AuctionResult to `ended_second_chance_offered`, mirrors status on the listing.
+ */
+export async function createSecondChanceOffer(params: {
+  db: Firestore;
+  listingId: string;
+  sellerId: string;
+  buyerId: string;
+  amountUsd: number;
+  expiresInHours?: number;
+  note?: string;
+  now?: Timestamp;
+}): Promise<CreateSecondChanceOfferResult> {
+  const { db, listingId, sellerId, buyerId } = params;
+  const now = params.now ?? Timestamp.now();
+  const hours = clampSecondChanceOfferHours(params.expiresInHours ?? SECOND_CHANCE_OFFER_DEFAULT_HOURS);
+  const expiresAt = Timestamp.fromMillis(now.toMillis() + hours * 60 * 60 * 1000);
+  const amount = Math.round(Number(params.amountUsd) * 100) / 100;
+  const note = typeof params.note === 'string' ? params.note.trim() : '';
+
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { ok: false, status: 400, code: 'INVALID_AMOUNT', message: 'Offer amount must be greater than zero' };
+  }
+  if (buyerId === sellerId) {
+    return { ok: false, status: 400, code: 'INVALID_BUYER', message: 'You cannot send an offer to yourself' };
+  }
+
+  const listingRef = db.collection('listings').doc(listingId);
+  const resultRef = db.collection('auctionResults').doc(listingId);
+  const offerRef = db.collection('offers').doc();
+
+  // Candidate ranking reads a subcollection (non-transactional); the transaction re-checks result state.
+  const preResult = await resultRef.get();
+  const candidates = await listSecondChanceCandidates({
+    db,
+    listingId,
+    auctionResult: preResult.exists ? (preResult.data() as any) : null,
+  });
+  const candidate = candidates.find((c) => c.userId === buyerId) || null;
+  if (!candidate) {
+    return { ok: false, status: 400, code: 'NOT_A_BIDDER', message: 'Second-chance offers can only be sent to bidders on this auction' };
+  }
+
+  return db.runTransaction(async (tx): Promise<CreateSecondChanceOfferResult> => {
+    const [listingSnap, resultSnap] = await Promise.all([tx.get(listingRef), tx.get(resultRef)]);
+    if (!listingSnap.exists) return { ok: false, status: 404, code: 'LISTING_NOT_FOUND', message: 'Listing not found' };
+    const listing = listingSnap.data() as any;
+    if (String(listing?.sellerId || '') !== sellerId) return { ok: false, status: 403, code: 'FORBIDDEN', message: 'Forbidden' };
+    if (String(listing?.type || '') !== 'auction') {
+      return { ok: false, status: 400, code: 'NOT_AUCTION', message: 'Listing is not an auction' };
+    }
+    if (listing?.status === 'sold' || listing?.soldAt) {
+      return { ok: false, status: 409, code: 'ALREADY_SOLD', message: 'Listing is already sold' };
+    }
+    if (!resultSnap.exists) {
+      return { ok: false, status: 409, code: 'NOT_FINALIZED', message: 'Auction has not been finalized yet' };
+    }
+    const ar = resultSnap.data() as any;
+    const fromStatus = String(ar?.status || '') as AuctionResultStatus;
+    if (!SECOND_CHANCE_SOURCE_STATUSES.includes(fromStatus) || !isAllowedAuctionResultTransition(fromStatus, 'ended_second_chance_offered')) {
+      return {
+        ok: false,
+        status: 409,
+        code: 'NOT_ELIGIBLE',
+        message:
+          fromStatus === 'ended_second_chance_offered'
+            ? 'A second-chance offer is already pending for this auction'
+            : 'Second-chance offers are only available when the reserve was not met or the winner did not pay',
+      };
+    }
+    if (fromStatus === 'ended_unpaid_expired' && ar?.winnerBidderId === buyerId) {
+      return { ok: false, status: 400, code: 'UNPAID_WINNER', message: 'The original winner did not pay and cannot receive a second-chance offer' };
+    }
+
+    const sellerSnap = await tx.get(db.collection('users').doc(sellerId));
+    const sellerData = sellerSnap.exists ? (sellerSnap.data() as any) : null;
+    const sellerDisplayName = sellerData?.displayName || sellerData?.profile?.fullName || '';
+    const listingTitle = String(listing?.title || '');
+    const coverUrl =
+      (Array.isArray(listing?.photos) && listing.photos.find((p: any) => typeof p?.url === 'string')?.url) ||
+      (Array.isArray(listing?.images) ? listing.images.find((u: any) => typeof u === 'string') : undefined);
+
+    tx.set(offerRef, {
+      listingId,
+      listingSnapshot: {
+        title: listingTitle,
+        category: listing?.category,
+        type: listing?.type,
+        sellerId,
+        ...(coverUrl ? { imageUrl: coverUrl } : {}),
+        ...(sellerDisplayName ? { sellerSnapshot: { displayName: sellerDisplayName } } : {}),
+      },
+      sellerId,
+      buyerId,
+      currency: 'usd',
+      // Seller-initiated: `countered` lets the buyer accept through the standard accept route.
+      status: 'countered',
+      currentAmount: amount,
+      originalAmount: amount,
+      quantity: 1,
+      lastActorRole: 'seller',
+      expiresAt,
+      createdAt: now,
+      updatedAt: now,
+      secondChance: {
+        sourceStatus: fromStatus,
+        bidderMaxBidCents: candidate.maxBidCents,
+      },
+      history: [
+        {
+          type: 'counter',
+          actorId: sellerId,
+          actorRole: 'seller',
+          amount,
+          note: note || 'Second-chance offer',
+          createdAt: now,
+        },
+      ],
+    });
+
+    tx.set(
+      resultRef,
+      {
+        status: 'ended_second_chance_offered',
+        secondChance: {
+          offerId: offerRef.id,
+          buyerId,
+          amountCents: Math.round(amount * 100),
+          offeredAt: now,
+          expiresAt,
+          previousStatus: fromStatus,
+        },
+        secondChanceOfferIds: [...(Array.isArray(ar?.secondChanceOfferIds) ? ar.secondChanceOfferIds : []), offerRef.id],
+        updatedAt: now,
+      },
+      { merge: true }
+    );
+
+    tx.set(listingRef, { auctionResultStatus: 'ended_second_chance_offered', updatedAt: now, updatedBy: 'system' }, { merge: true });
+
+    return { ok: true, offerId: offerRef.id, buyerId, amount, expiresAt, listingTitle };
+  });
+}
+
+/**
+ * Decision deadline after a second-chance offer on an unpaid auction falls through: the seller gets a fresh
+ * window for the next runner-up (never shorter than what was left), so auto-relist doesn't fire immediately.
+ */
+export function getSecondChanceDeadlineAfterRelease(previousDeadlineMs: number | null, nowMs: number): number {
+  const fresh = nowMs + SECOND_CHANCE_DECISION_WINDOW_HOURS * 60 * 60 * 1000;
+  return typeof previousDeadlineMs === 'number' && previousDeadlineMs > fresh ? previousDeadlineMs : fresh;
+}
+
+/** An accepted second-chance offer pays for an auction that already ended (listing status `expired`). */
+export function isSecondChanceOfferCheckout(
+  listing: { type?: unknown; status?: unknown; soldAt?: unknown; relistedToListingId?: unknown } | null | undefined,
+  offer: { secondChance?: unknown } | null | undefined
+): boolean {
+  return (
+    Boolean(offer?.secondChance) &&
+    listing?.type === 'auction' &&
+    listing?.status === 'expired' &&
+    !listing?.soldAt &&
+    !listing?.relistedToListingId
+  );
+}
+
+/**
+ * Offer checkout eligibility (Stripe + wire): Best Offer works on live fixed/classified listings, plus
+ * second-chance offers on ended auctions. Returns an error message, or null when checkout may proceed.
+ */
+export function getOfferCheckoutListingError(
+  listing: { type?: unknown; status?: unknown; soldAt?: unknown; relistedToListingId?: unknown } | null | undefined,
+  offer: { secondChance?: unknown } | null | undefined
+): string | null {
+  if (isSecondChanceOfferCheckout(listing, offer)) return null;
+  if (listing?.type !== 'fixed' && listing?.type !== 'classified') {
+    return 'Offer checkout is only supported for fixed/classified listings';
+  }
+  if (listing?.status !== 'active') return 'Listing is not available for purchase';
+  return null;
+}
+
+export type SettleSecondChanceOutcome = 'noop' | 'pending' | 'paid' | 'released';
+
+/**
+ * Reconcile an AuctionResult in `ended_second_chance_offered` with its offer (idempotent).
+ *
+ * - Offer completed (paid order) -> `ended_paid`
+ * - Offer declined/expired/withdrawn/cancelled -> back to the source status (seller can try the next bidder)
+ * - Offer open/countered/accepted -> pending, nothing to do
+ */
+export async function settleSecondChanceOffer(params: {
+  db: Firestore;
+  listingId: string;
+  requestId?: string;
+  now?: Timestamp;
+}): Promise<SettleSecondChanceOutcome> {
+  const { db, listingId, requestId } = params;
+  const now = params.now ?? Timestamp.now();
+  const resultRef = db.collection('auctionResults').doc(listingId);
+  const listingRef = db.collection('listings').doc(listingId);
+
+  const outcome = await db.runTransaction(async (tx): Promise<SettleSecondChanceOutcome> => {
+    const resultSnap = await tx.get(resultRef);
+    if (!resultSnap.exists) return 'noop';
+    const ar = resultSnap.data() as any;
+    if (String(ar?.status || '') !== 'ended_second_chance_offered') return 'noop';
+    const offerId = typeof ar?.secondChance?.offerId === 'string' ? ar.secondChance.offerId : '';
+    const previousStatus = String(ar?.secondChance?.previousStatus || 'ended_reserve_not_met') as AuctionResultStatus;
+
+    const offerSnap = offerId ? await tx.get(db.collection('offers').doc(offerId)) : null;
+    const offerStatus = offerSnap?.exists ? String((offerSnap.data() as any)?.status || '') : 'missing';
+
+    if (offerStatus === 'completed') {
+      tx.set(resultRef, { status: 'ended_paid', paidAt: now, updatedAt: now }, { merge: true });
+      tx.set(listingRef, { auctionResultStatus: 'ended_paid', updatedAt: now, updatedBy: 'system' }, { merge: true });
+      return 'paid';
+    }
+    if (offerStatus === 'open' || offerStatus === 'countered' || offerStatus === 'accepted') return 'pending';
+
+    if (!isAllowedAuctionResultTransition('ended_second_chance_offered', previousStatus)) {
+      logWarn('settleSecondChanceOffer: refusing disallowed transition', { requestId, listingId, previousStatus });
+      return 'noop';
+    }
+    const previousDeadlineMs =
+      typeof ar?.secondChanceDeadlineAt?.toMillis === 'function' ? ar.secondChanceDeadlineAt.toMillis() : null;
+    tx.set(
+      resultRef,
+      {
+        status: previousStatus,
+        ...(previousStatus === 'ended_unpaid_expired'
+          ? {
+              secondChanceDeadlineAt: Timestamp.fromMillis(
+                getSecondChanceDeadlineAfterRelease(previousDeadlineMs, now.toMillis())
+              ),
+            }
+          : {}),
+        secondChance: null,
+        lastSecondChance: { ...(ar?.secondChance || {}), outcome: offerStatus, settledAt: now },
+        updatedAt: now,
+      },
+      { merge: true }
+    );
+    tx.set(listingRef, { auctionResultStatus: previousStatus, updatedAt: now, updatedBy: 'system' }, { merge: true });
+    return 'released';
+  });
+
+  if (outcome === 'paid' || outcome === 'released') {
+    logInfo('Second-chance offer settled', { requestId, route: 'settleSecondChanceOffer', listingId, outcome });
+  }
+  return outcome;
+}
+
+/**
+ * Tell the seller a second-chance offer is possible (best-effort; no-op when nobody else bid).
+ * Idempotent per listing + reason via the event hash.
+ */
+export async function notifySellerSecondChanceAvailable(params: {
+  db: Firestore;
+  listingId: string;
+  reason: 'reserve_not_met' | 'winner_unpaid';
+  deadlineAt?: Timestamp | null;
+  requestId?: string;
+}): Promise<boolean> {
+  const { db, listingId, reason, requestId } = params;
+  try {
+    const [listingSnap, resultSnap] = await Promise.all([
+      db.collection('listings').doc(listingId).get(),
+      db.collection('auctionResults').doc(listingId).get(),
+    ]);
+    if (!listingSnap.exists) return false;
+    const listing = listingSnap.data() as any;
+    const sellerId = String(listing?.sellerId || '');
+    if (!sellerId) return false;
+
+    const candidates = await listSecondChanceCandidates({
+      db,
+      listingId,
+      auctionResult: resultSnap.exists ? (resultSnap.data() as any) : null,
+    });
+    if (candidates.length === 0) return false;
+
+    const base = getSiteUrl();
+    await emitAndProcessEventForUser({
+      type: 'Auction.SecondChanceAvailable',
+      actorId: null,
+      entityType: 'listing',
+      entityId: listingId,
+      targetUserId: sellerId,
+      payload: {
+        type: 'Auction.SecondChanceAvailable',
+        listingId,
+        listingTitle: String(listing?.title || 'Your auction'),
+        listingUrl: `${base}/listing/${listingId}`,
+        manageUrl: `${base}/seller/listings?secondChance=${encodeURIComponent(listingId)}`,
+        reason,
+        topBidAmount: candidates[0]!.maxBidCents / 100,
+        ...(params.deadlineAt ? { deadlineAt: params.deadlineAt.toDate().toISOString() } : {}),
+      },
+      optionalHash: `second_chance_available:${reason}`,
+    });
+    return true;
+  } catch (e: any) {
+    logWarn('notifySellerSecondChanceAvailable failed', { requestId, listingId, reason, error: String(e?.message || e) });
+    return false;
+  }
+}
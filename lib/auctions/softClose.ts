@@ -0,0 +1,86 @@
+/**
+ * Auction soft-close (anti-sniping).
+ *
+ * Design notes for this codebase:
+ * - A qualifying bid placed inside the final `windowMinutes` of an auction pushes `endsAt`/`endAt`
+ *   out by `extendMinutes`, at most `maxExtensions` times per auction.
+ * - Only bids that visibly move the auction (price moved or high bidder changed) qualify; silently
+ *   raising your own max bid never extends the auction.
+ * - The extension is applied inside the `POST /api/bids/place` transaction, so finalization (which
+ *   reads `endsAt` transactionally) always sees the extended end time.
+ * - Platform defaults live here; a listing may override them via `listing.softClose`.
+ */
+
+export interface SoftCloseConfig {
+  enabled: boolean;
+  windowMinutes: number;
+  extendMinutes: number;
+  maxExtensions: number;
+}
+
+export const DEFAULT_SOFT_CLOSE_CONFIG: SoftCloseConfig = {
+  enabled: true,
+  windowMinutes: 5,
+  extendMinutes: 5,
+  maxExtensions: 12,
+};
+
+// Guardrails for per-listing overrides (keeps a misconfigured listing from running forever).
+const MAX_WINDOW_MINUTES = 60;
+const MAX_EXTEND_MINUTES = 60;
+const MAX_EXTENSIONS_CAP = 50;
+
+function clampInt(v: unknown, min: number, max: number, fallback: number): number {
+  const n = typeof v === 'number' ? v : Number(v);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.max(min, Math.min(max, Math.floor(n)));
+}
+
+/**
+ * Resolve the effective soft-close config for a listing doc (raw Firestore data or UI Listing).
+ * Missing/invalid override fields fall back to platform defaults.
+ */
+export function resolveSoftCloseConfig(listing: any): SoftCloseConfig {
+  const o = listing?.softClose && typeof listing.softClose === 'object' ? listing.softClose : {};
+  const d = DEFAULT_SOFT_CLOSE_CONFIG;
+  return {
+    enabled: typeof o.enabled === 'boolean' ? o.enabled : d.enabled,
+    windowMinutes: clampInt(o.windowMinutes, 1, MAX_WINDOW_MINUTES, d.windowMinutes),
+    extendMinutes: clampInt(o.extendMinutes, 1, MAX_EXTEND_MINUTES, d.extendMinutes),
+    maxExtensions: clampInt(o.maxExtensions, 0, MAX_EXTENSIONS_CAP, d.maxExtensions),
+  };
+}
+
+export interface SoftCloseInput {
+  endMs: number;
+  nowMs: number;
+  extensionCount: number;
+  config: SoftCloseConfig;
+}
+
+export type SoftCloseDecision =
+  | { extended: false; reason: 'disabled' | 'outside_window' | 'cap_reached' | 'ended'; endMs: number; extensionCount: number }
+  | { extended: true; endMs: number; previousEndMs: number; extensionCount: number };
+
+/**
+ * Decide whether a qualifying bid at `nowMs` extends the auction. Pure + deterministic.
+ */
+export function computeSoftCloseExtension(input: SoftCloseInput): SoftCloseDecision {
+  const { endMs, nowMs, config } = input;
+  const extensionCount = Math.max(0, Math.floor(Number(input.extensionCount) || 0));
+
+  if (!config.enabled) return { extended: false, reason: 'disabled', endMs, extensionCount };
+  if (endMs <= nowMs) return { extended: false, reason: 'ended', endMs, extensionCount };
+
+  const windowMs = config.windowMinutes * 60_000;
+  if (endMs - nowMs > windowMs) return { extended: false, reason: 'outside_window', endMs, extensionCount };
+  if (extensionCount >= config.maxExtensions) return { extended: false, reason: 'cap_reached', endMs, extensionCount };
+
+  return {
+    extended: true,
+    endMs: endMs + config.extendMinutes * 60_000,
+    previousEndMs: endMs,
+    extensionCount: extensionCount + 1,
+  };
+}
+
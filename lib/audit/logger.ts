@@ -65,6 +65,9 @@ export type AuditActionType =
   | 'order_marked_paid_admin'
   | 'order_created'
   | 'order_status_changed'
+  | 'order_balance_expired'
+  | 'order_installment_defaulted'
+  | 'order_installment_plan_reinstated'
   | 'subscription_created'
   | 'subscription_updated'
   | 'subscription_canceled'
@@ -79,6 +82,7 @@ export type AuditActionType =
   | 'offer_declined'
   | 'offer_withdrawn'
   | 'offer_expired'
+  | 'offer_second_chance_sent'
   | 'offer_checkout_session_created'
   // Wire / bank transfer rails
   | 'wire_payment_intent_created'
@@ -123,9 +127,12 @@ export type AuditActionType =
   | 'seller_breeder_permit_submitted'
   | 'admin_seller_breeder_permit_verified'
   | 'admin_seller_breeder_permit_rejected'
+  | 'seller_breeder_permit_expired'
   // Admin: support tickets
   | 'admin_support_reply'
-  | 'admin_support_ticket_status_changed';
+  | 'admin_support_ticket_status_changed'
+  // Admin: trust & safety reports
+  | 'admin_report_resolved';
 
 export type AuditActorRole = 'admin' | 'system' | 'webhook' | 'buyer' | 'seller';
 
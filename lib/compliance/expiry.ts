@@ -0,0 +1,78 @@
+/**
+ * Compliance Document Expiry
+ *
+ * Pure helpers for expiry reminders on seller permits (`sellerPermits`) and order documents
+ * (`orders/{orderId}/documents`). The scheduled `complianceExpiryReminders` job uses these to decide which
+ * notice is due; `lib/compliance/expiryNotices.ts` sends it.
+ */
+
+import type { DocumentType } from '@/lib/types';
+
+/** Reminders go out this many days before `expiresAt`; `0` is the "expired" notice. */
+export const COMPLIANCE_EXPIRY_NOTICE_DAYS = [60, 30, 7] as const;
+export const COMPLIANCE_EXPIRED_NOTICE = 0;
+
+/** How far back the job looks for documents that expired since its last run. */
+export const COMPLIANCE_EXPIRY_LOOKBACK_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DOCUMENT_LABELS: Record<DocumentType, string> = {
+  TPWD_BREEDER_PERMIT: 'TPWD Breeder Permit',
+  TPWD_TRANSFER_APPROVAL: 'TPWD Transfer Approval',
+  DELIVERY_PROOF: 'Delivery Proof',
+  TAHC_CVI: 'TAHC CVI (Certificate of Veterinary Inspection)',
+  BRAND_INSPECTION: 'Brand Inspection',
+  TITLE: 'Title',
+  BILL_OF_SALE: 'Bill of Sale',
+  HEALTH_CERTIFICATE: 'Health Certificate',
+  COGGINS_TEST: 'Coggins (EIA) Test',
+  TB_TEST: 'TB Test',
+  BRUCELLOSIS_TEST: 'Brucellosis Test',
+  OTHER: 'Document',
+};
+
+export function getComplianceDocumentLabel(type: string | null | undefined): string {
+  return DOCUMENT_LABELS[type as DocumentType] || 'Document';
+}
+
+export function toExpiryDate(value: unknown): Date | null {
+  const v: any = value;
+  const d: Date | null =
+    v instanceof Date
+      ? v
+      : typeof v?.toDate === 'function'
+        ? v.toDate()
+        : typeof v?.seconds === 'number'
+          ? new Date(v.seconds * 1000)
+          : typeof v === 'string'
+            ? new Date(v)
+            : null;
+  return d && !Number.isNaN(d.getTime()) ? d : null;
+}
+
+export function isComplianceDocumentExpired(expiresAt: unknown, now: Date): boolean {
+  const d = toExpiryDate(expiresAt);
+  return !!d && d.getTime() <= now.getTime();
+}
+
+/** Whole days left before `expiresAt` (rounded up; 0 once expired). */
+export function getDaysUntilExpiry(expiresAt: Date, now: Date): number {
+  return Math.max(0, Math.ceil((expiresAt.getTime() - now.getTime()) / DAY_MS));
+}
+
+/**
+ * Notice to send now (a threshold from `COMPLIANCE_EXPIRY_NOTICE_DAYS`, or `COMPLIANCE_EXPIRED_NOTICE`), or null.
+ * Only the closest threshold reached fires, so a document uploaded 20 days out gets the 30-day notice once
+ * rather than both the 60- and 30-day ones.
+ */
+export function getDueExpiryNotice(expiresAt: Date, now: Date, sentThresholds: number[] = []): number | null {
+  if (expiresAt.getTime() <= now.getTime()) {
+    return sentThresholds.includes(COMPLIANCE_EXPIRED_NOTICE) ? null : COMPLIANCE_EXPIRED_NOTICE;
+  }
+  const days = getDaysUntilExpiry(expiresAt, now);
+  const reached = COMPLIANCE_EXPIRY_NOTICE_DAYS.filter((t) => days <= t);
+  if (reached.length === 0) return null;
+  const closest = Math.min(...reached);
+  return sentThresholds.includes(closest) ? null : closest;
+}
@@ -0,0 +1,153 @@
+import { FieldPath, FieldValue, Timestamp, type DocumentReference, type Firestore, type QuerySnapshot } from 'firebase-admin/firestore';
+import { createAuditLog } from '@/lib/audit/logger';
+import { logWarn } from '@/lib/monitoring/logger';
+import { emitAndProcessEventForUser } from '@/lib/notifications';
+import {
+  COMPLIANCE_EXPIRED_NOTICE,
+  getComplianceDocumentLabel,
+  getDaysUntilExpiry,
+  isComplianceDocumentExpired,
+  toExpiryDate,
+} from '@/lib/compliance/expiry';
+
+/**
+ * Compliance document expiry notices (see lib/compliance/expiry.ts).
+ *
+ * `complianceExpiryReminders` calls these for verified seller breeder permits and for documents attached to
+ * open orders. Each notice is recorded on the document itself (`expiryNoticesSent`) so it goes out once per
+ * threshold; uploading a renewed permit resets the list.
+ */
+
+const BREEDER_PERMIT_BADGE = 'tpwd_breeder_permit_verified';
+
+export async function sendComplianceExpiryNotice(params: {
+  docRef: DocumentReference;
+  recipientId: string;
+  entityType: 'user' | 'order';
+  entityId: string;
+  /** Threshold from `COMPLIANCE_EXPIRY_NOTICE_DAYS`, or `COMPLIANCE_EXPIRED_NOTICE`. */
+  threshold: number;
+  documentType: string;
+  expiresAt: Date;
+  now: Date;
+  actionUrl: string;
+  orderId?: string;
+  listingTitle?: string;
+  badgeRemoved?: boolean;
+  requestId?: string;
+}): Promise<boolean> {
+  const { docRef, recipientId, threshold, documentType, expiresAt, now, requestId } = params;
+  const common = {
+    documentType,
+    documentLabel: getComplianceDocumentLabel(documentType),
+    expiresAt: expiresAt.toISOString(),
+    ...(params.orderId ? { orderId: params.orderId } : {}),
+    ...(params.listingTitle ? { listingTitle: params.listingTitle } : {}),
+    actionUrl: params.actionUrl,
+  };
+  try {
+    if (threshold === COMPLIANCE_EXPIRED_NOTICE) {
+      await emitAndProcessEventForUser({
+        type: 'Compliance.DocumentExpired',
+        actorId: null,
+        entityType: params.entityType,
+        entityId: params.entityId,
+        targetUserId: recipientId,
+        payload: { type: 'Compliance.DocumentExpired', ...common, badgeRemoved: params.badgeRemoved === true },
+        optionalHash: `compliance_expiry:${docRef.path}:${expiresAt.getTime()}:expired`,
+      });
+    } else {
+      await emitAndProcessEventForUser({
+        type: 'Compliance.DocumentExpiring',
+        actorId: null,
+        entityType: params.entityType,
+        entityId: params.entityId,
+        targetUserId: recipientId,
+        payload: { type: 'Compliance.DocumentExpiring', ...common, daysRemaining: getDaysUntilExpiry(expiresAt, now) },
+        optionalHash: `compliance_expiry:${docRef.path}:${expiresAt.getTime()}:${threshold}`,
+      });
+    }
+    await docRef.set({ expiryNoticesSent: FieldValue.arrayUnion(threshold) }, { merge: true });
+    return true;
+  } catch (e: any) {
+    logWarn('sendComplianceExpiryNotice failed', { requestId, path: docRef.path, threshold, error: String(e?.message || e) });
+    return false;
+  }
+}
+
+/**
+ * Pull the seller's "TPWD breeder permit" badge from `publicSellerTrust` once the verified permit has expired.
+ * Returns true when the badge was present (and is now removed).
+ */
+export async function removeExpiredBreederPermitBadge(params: {
+  db: Firestore;
+  sellerId: string;
+  expiresAt: Date;
+  now: Date;
+}): Promise<boolean> {
+  const { db, sellerId, expiresAt, now } = params;
+  const trustRef = db.collection('publicSellerTrust').doc(sellerId);
+  const removed = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(trustRef);
+    const prev: string[] = snap.exists && Array.isArray((snap.data() as any)?.badgeIds) ? (snap.data() as any).badgeIds : [];
+    if (!prev.includes(BREEDER_PERMIT_BADGE)) return false;
+    tx.set(
+      trustRef,
+      { badgeIds: prev.filter((b) => b !== BREEDER_PERMIT_BADGE), updatedAt: Timestamp.fromDate(now) },
+      { merge: true }
+    );
+    return true;
+  });
+  if (!removed) return false;
+
+  await createAuditLog(db, {
+    actorUid: 'system',
+    actorRole: 'system',
+    actionType: 'seller_breeder_permit_expired',
+    targetUserId: sellerId,
+    beforeState: { badge: BREEDER_PERMIT_BADGE },
+    afterState: { badge: null },
+    metadata: { expiresAt: expiresAt.toISOString() },
+    source: 'cron',
+  });
+  return true;
+}
+
+/**
+ * Pull the badge from every seller who still shows it but whose permit expired before `expiredBefore` — the
+ * expiry notice scan only looks back a few days (and removes the badge with its notice), so a missed run would
+ * otherwise leave the badge up. Pages through badge holders (not permits), so the scan stays as small as the
+ * set of verified breeders.
+ */
+export async function removeBadgesForExpiredBreederPermits(params: {
+  db: Firestore;
+  expiredBefore: Date;
+  now: Date;
+  overBudget: () => boolean;
+  pageSize?: number;
+}): Promise<{ checked: number; removed: number }> {
+  const { db, expiredBefore, now, overBudget } = params;
+  const pageSize = params.pageSize ?? 200;
+  const holders = db
+    .collection('publicSellerTrust')
+    .where('badgeIds', 'array-contains', BREEDER_PERMIT_BADGE)
+    .orderBy(FieldPath.documentId());
+  let checked = 0;
+  let removed = 0;
+  let lastId: string | null = null;
+  while (!overBudget()) {
+    const snap: QuerySnapshot = await (lastId ? holders.startAfter(lastId) : holders).limit(pageSize).get();
+    if (snap.empty) break;
+    const sellerIds = snap.docs.map((d) => d.id);
+    const permits = await db.getAll(...sellerIds.map((id) => db.collection('sellerPermits').doc(id)));
+    for (let i = 0; i < sellerIds.length; i++) {
+      checked++;
+      const expiresAt = toExpiryDate(permits[i]?.data()?.expiresAt);
+      if (!expiresAt || !isComplianceDocumentExpired(expiresAt, expiredBefore)) continue;
+      if (await removeExpiredBreederPermitBadge({ db, sellerId: sellerIds[i]!, expiresAt, now })) removed++;
+    }
+    if (snap.size < pageSize) break;
+    lastId = sellerIds[sellerIds.length - 1]!;
+  }
+  return { checked, removed };
+}
@@ -0,0 +1,205 @@
+/**
+ * Compliance Document Field Parsing
+ *
+ * Pure helpers shared by every extractor: read permit/CVI fields out of plain document text, compare them
+ * with what the seller declared on the listing, and prefill the admin verification form.
+ *
+ * Confidence is heuristic: a value found next to its label (e.g. "Permit Number: DB-1234") scores higher than
+ * one recognised only by its shape or by a known agency name.
+ */
+
+import type {
+  ComplianceDocument,
+  DocumentExtractionDiff,
+  DocumentExtractionFields,
+  ExtractedDocumentField,
+} from '@/lib/types';
+import { toExpiryDate } from '@/lib/compliance/expiry';
+
+const LABELLED = 0.9;
+const PATTERN_ONLY = 0.6;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DATE = String.raw`(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|[A-Za-z]{3,9}\.?\s+\d{1,2},?\s+\d{4})`;
+const SEP = String.raw`\s*[:#]?\s*`;
+const ID = String.raw`([A-Z0-9][A-Z0-9/-]{2,30})`;
+
+const PERMIT_RE = new RegExp(String.raw`(?:permit|license|certificate|cvi)\s*(?:no\.?|number|num\.?|#)${SEP}${ID}`, 'i');
+const FACILITY_RE = new RegExp(String.raw`facility\s*(?:id|no\.?|number|#)${SEP}${ID}`, 'i');
+const ISSUED_AT_RE = new RegExp(
+  String.raw`(?:issue\s+date|date\s+(?:of\s+)?issued?|issued(?:\s+on)?|inspection\s+date|date\s+of\s+inspection)${SEP}${DATE}`,
+  'i'
+);
+const EXPIRES_AT_RE = new RegExp(
+  String.raw`(?:expiration\s+date|expiry\s+date|date\s+of\s+expiration|expires(?:\s+on)?|valid\s+(?:through|thru|until))${SEP}${DATE}`,
+  'i'
+);
+const ISSUED_BY_RE = /issued\s+by\s*:?\s*([A-Za-z][^\n]{2,80})/i;
+const ANIMAL_IDS_RE = new RegExp(
+  String.raw`(?:animal\s+ids?|(?:deer\s+)?id\s+tags?|ear\s*tags?|deer\s+ids?|rfid|tag\s*(?:no\.?|number|#|ids?))${SEP}([A-Z0-9][A-Z0-9-]*(?:\s*[,;]\s*[A-Z0-9][A-Z0-9-]*)*)`,
+  'gi'
+);
+const RFID_RE = /\b840\d{12}\b/g;
+
+const KNOWN_ISSUERS: Array<{ re: RegExp; name: string; confidence: number }> = [
+  { re: /texas\s+parks\s+(?:and|&)\s+wildlife/i, name: 'Texas Parks and Wildlife Department', confidence: 0.8 },
+  { re: /texas\s+animal\s+health\s+commission/i, name: 'Texas Animal Health Commission', confidence: 0.8 },
+  { re: /\bTPWD\b/, name: 'Texas Parks and Wildlife Department', confidence: PATTERN_ONLY },
+  { re: /\bTAHC\b/, name: 'Texas Animal Health Commission', confidence: PATTERN_ONLY },
+];
+
+const hasDigit = (s: string) => /\d/.test(s);
+const normalizeId = (s: string) => s.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/** `YYYY-MM-DD` for the date formats seen on permits/CVIs (US month/day order), or null. */
+export function parseDocumentDate(raw: string): string | null {
+  const s = raw.trim();
+  let y: number;
+  let m: number;
+  let d: number;
+  let match = s.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) {
+    [y, m, d] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = s.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/))) {
+    [m, d, y] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    if (y < 100) y += 2000;
+  } else if ((match = s.match(/^([A-Za-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})$/))) {
+    m = MONTHS.indexOf(match[1]!.slice(0, 3).toLowerCase()) + 1;
+    [d, y] = [Number(match[2]), Number(match[3])];
+  } else {
+    return null;
+  }
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (m < 1 || date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+function labelled(text: string, re: RegExp, accept: (v: string) => boolean = hasDigit): ExtractedDocumentField | undefined {
+  const match = text.match(re);
+  const value = match?.[1]?.trim();
+  if (!match || !value || !accept(value)) return undefined;
+  return { value, confidence: LABELLED, source: match[0].trim() };
+}
+
+function labelledDate(text: string, re: RegExp): ExtractedDocumentField | undefined {
+  const match = text.match(re);
+  const value = match?.[1] ? parseDocumentDate(match[1]) : null;
+  return match && value ? { value, confidence: LABELLED, source: match[0].trim() } : undefined;
+}
+
+function findIssuer(text: string): ExtractedDocumentField | undefined {
+  const match = text.match(ISSUED_BY_RE);
+  if (match?.[1]) return { value: match[1].trim(), confidence: 0.85, source: match[0].trim() };
+  for (const issuer of KNOWN_ISSUERS) {
+    const m = text.match(issuer.re);
+    if (m) return { value: issuer.name, confidence: issuer.confidence, source: m[0] };
+  }
+  return undefined;
+}
+
+function findAnimalIds(text: string): ExtractedDocumentField<string[]> | undefined {
+  const ids = new Set<string>();
+  let confidence = 0;
+  for (const m of Array.from(text.matchAll(ANIMAL_IDS_RE))) {
+    const found = m[1]!.split(/\s*[,;]\s*/).filter(hasDigit);
+    found.forEach((id) => ids.add(id));
+    if (found.length > 0) confidence = Math.max(confidence, 0.8);
+  }
+  for (const m of Array.from(text.matchAll(RFID_RE))) {
+    ids.add(m[0]);
+    confidence = Math.max(confidence, LABELLED);
+  }
+  return ids.size > 0 ? { value: Array.from(ids), confidence } : undefined;
+}
+
+/** Fields found in the document text. Permit numbers on CVIs are the certificate number. */
+export function parseDocumentFields(text: string): DocumentExtractionFields {
+  const fields: DocumentExtractionFields = {};
+  const permitNumber = labelled(text, PERMIT_RE);
+  const facilityId = labelled(text, FACILITY_RE);
+  const issuedAt = labelledDate(text, ISSUED_AT_RE);
+  const expiresAt = labelledDate(text, EXPIRES_AT_RE);
+  const issuedBy = findIssuer(text);
+  const animalIds = findAnimalIds(text);
+  if (permitNumber) fields.permitNumber = permitNumber;
+  if (facilityId) fields.facilityId = facilityId;
+  if (issuedAt) fields.issuedAt = issuedAt;
+  if (expiresAt) fields.expiresAt = expiresAt;
+  if (issuedBy) fields.issuedBy = issuedBy;
+  if (animalIds) fields.animalIds = animalIds;
+  return fields;
+}
+
+/** Mean confidence of the fields found (0 when nothing was found). */
+export function getExtractionConfidence(fields: DocumentExtractionFields): number {
+  const scores = Object.values(fields).map((f) => f!.confidence);
+  if (scores.length === 0) return 0;
+  return Math.round((scores.reduce((a, b) => a + b, 0) / scores.length) * 100) / 100;
+}
+
+/**
+ * Extracted values vs the listing's declared whitetail attributes (only where both exist). Permit number and
+ * expiry are compared for breeder permits only; a CVI's certificate number is not the breeder permit.
+ */
+export function diffExtractionAgainstListing(
+  fields: DocumentExtractionFields,
+  documentType: string,
+  attributes: Record<string, any> | null | undefined
+): DocumentExtractionDiff[] {
+  const diffs: DocumentExtractionDiff[] = [];
+  if (!attributes) return diffs;
+  const declaredString = (v: unknown) => (typeof v === 'string' && v.trim() ? v.trim() : null);
+  const isPermit = documentType === 'TPWD_BREEDER_PERMIT';
+
+  const permit = declaredString(attributes.tpwdBreederPermitNumber);
+  if (isPermit && permit && fields.permitNumber) {
+    const extracted = fields.permitNumber.value;
+    diffs.push({ field: 'permitNumber', declared: permit, extracted, match: normalizeId(permit) === normalizeId(extracted) });
+  }
+
+  const facility = declaredString(attributes.breederFacilityId);
+  if (facility && fields.facilityId) {
+    const extracted = fields.facilityId.value;
+    diffs.push({ field: 'facilityId', declared: facility, extracted, match: normalizeId(facility) === normalizeId(extracted) });
+  }
+
+  const declaredExpiry = toExpiryDate(attributes.tpwdPermitExpirationDate);
+  if (isPermit && declaredExpiry && fields.expiresAt) {
+    const extracted = fields.expiresAt.value;
+    // Declared dates come from a local-time date picker; allow a day either way.
+    const dayDelta = Math.abs(Date.parse(`${extracted}T00:00:00Z`) - declaredExpiry.getTime()) / 86_400_000;
+    diffs.push({ field: 'expiresAt', declared: declaredExpiry.toISOString().slice(0, 10), extracted, match: dayDelta <= 1 });
+  }
+
+  const tag = declaredString(attributes.deerIdTag);
+  if (tag && fields.animalIds) {
+    const ids = fields.animalIds.value;
+    const declaredIds = tag.split(/\s*[,;]\s*/).map(normalizeId).filter(Boolean);
+    diffs.push({
+      field: 'animalIds',
+      declared: tag,
+      extracted: ids.join(', '),
+      match: declaredIds.some((d) => ids.some((id) => normalizeId(id) === d)),
+    });
+  }
+  return diffs;
+}
+
+export interface DocumentFieldsForm {
+  permitNumber: string;
+  issuedBy: string;
+  issuedAt: string; // YYYY-MM-DD
+  expiresAt: string; // YYYY-MM-DD
+}
+
+/** Admin verification form: values already on the document win; otherwise the extracted proposal. */
+export function documentFieldsFormFromDocument(doc: Pick<ComplianceDocument, 'permitNumber' | 'issuedBy' | 'issuedAt' | 'expiresAt' | 'extraction'> | null): DocumentFieldsForm {
+  const fields = doc?.extraction?.fields || {};
+  const date = (v: unknown) => toExpiryDate(v)?.toISOString().slice(0, 10) || '';
+  return {
+    permitNumber: doc?.permitNumber || fields.permitNumber?.value || '',
+    issuedBy: doc?.issuedBy || fields.issuedBy?.value || '',
+    issuedAt: date(doc?.issuedAt) || fields.issuedAt?.value || '',
+    expiresAt: date(doc?.expiresAt) || fields.expiresAt?.value || '',
+  };
+}
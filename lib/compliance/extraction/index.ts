@@ -0,0 +1,137 @@
+/**
+ * Compliance Document Extraction (server-only)
+ *
+ * On upload, permits and CVIs are read from Storage and run through the first registered extractor that
+ * supports the file. The proposed fields, their confidence and the diff vs the listing's declared attributes
+ * are stored on the document as `extraction`; admins confirm or correct them when verifying.
+ *
+ * Extraction is best-effort: it never fails an upload, and a document without a usable result is simply
+ * reviewed by hand as before.
+ */
+
+import { Timestamp, type DocumentReference } from 'firebase-admin/firestore';
+import { getStorage } from 'firebase-admin/storage';
+import type { DocumentExtraction, DocumentType } from '@/lib/types';
+import { logWarn } from '@/lib/monitoring/logger';
+import { getStoragePathFromUrl } from '@/lib/firebase/storage-cleanup';
+import { diffExtractionAgainstListing, getExtractionConfidence, parseDocumentFields, parseDocumentDate } from './fields';
+import { pdfTextExtractor } from './pdfText';
+import type { DocumentTextExtractor } from './types';
+
+/** Document types that carry permit/certificate fields worth extracting. */
+export const EXTRACTABLE_DOCUMENT_TYPES: DocumentType[] = [
+  'TPWD_BREEDER_PERMIT',
+  'TPWD_TRANSFER_APPROVAL',
+  'TAHC_CVI',
+  'HEALTH_CERTIFICATE',
+  'BRAND_INSPECTION',
+  'COGGINS_TEST',
+  'TB_TEST',
+  'BRUCELLOSIS_TEST',
+];
+
+/** Same cap as client uploads (MAX_DOCUMENT_SIZE_BYTES in lib/firebase/storage-documents.ts). */
+const MAX_EXTRACT_BYTES = 10 * 1024 * 1024;
+
+const extractors: DocumentTextExtractor[] = [pdfTextExtractor];
+
+/** Add an extractor; it is tried before the built-in ones. */
+export function registerDocumentTextExtractor(extractor: DocumentTextExtractor): void {
+  if (!extractors.some((e) => e.id === extractor.id)) extractors.unshift(extractor);
+}
+
+type StoredExtraction = Omit<DocumentExtraction, 'extractedAt'> & { extractedAt: Timestamp };
+
+function result(
+  status: DocumentExtraction['status'],
+  extractor: string | null,
+  extra: Partial<Pick<DocumentExtraction, 'fields' | 'confidence' | 'diffs' | 'error'>> = {}
+): StoredExtraction {
+  return {
+    status,
+    extractor,
+    fields: extra.fields || {},
+    confidence: extra.confidence ?? 0,
+    diffs: extra.diffs || [],
+    extractedAt: Timestamp.now(),
+    ...(extra.error ? { error: extra.error } : {}),
+  };
+}
+
+/**
+ * Extract fields from a document uploaded under `{entityPath}/documents/` (e.g. `listings/{id}`).
+ * `declaredAttributes` are the listing attributes the result is diffed against.
+ */
+export async function extractComplianceDocument(params: {
+  documentUrl: string;
+  documentType: string;
+  entityPath: string;
+  declaredAttributes?: Record<string, any> | null;
+}): Promise<StoredExtraction> {
+  const path = getStoragePathFromUrl(params.documentUrl);
+  if (!path || !path.startsWith(`${params.entityPath}/documents/`)) {
+    return result('unsupported', null, { error: 'Document is not stored under this entity' });
+  }
+
+  const file = getStorage().bucket().file(path);
+  const [metadata] = await file.getMetadata();
+  const info = { contentType: typeof metadata?.contentType === 'string' ? metadata.contentType : null, fileName: path };
+  if (Number(metadata?.size || 0) > MAX_EXTRACT_BYTES) {
+    return result('unsupported', null, { error: 'File too large to extract' });
+  }
+  const extractor = extractors.find((e) => e.supports(info));
+  if (!extractor) return result('unsupported', null);
+
+  const [bytes] = await file.download();
+  const text = await extractor.extractText(bytes, info);
+  if (!text.trim()) return result('no_text', extractor.id);
+
+  const fields = parseDocumentFields(text);
+  return result('extracted', extractor.id, {
+    fields,
+    confidence: getExtractionConfidence(fields),
+    diffs: diffExtractionAgainstListing(fields, params.documentType, params.declaredAttributes),
+  });
+}
+
+/** Run extraction for a freshly uploaded document and store it on the document. Never throws. */
+export async function runDocumentExtraction(params: {
+  docRef: DocumentReference;
+  documentUrl: string;
+  documentType: string;
+  entityPath: string;
+  declaredAttributes?: Record<string, any> | null;
+}): Promise<StoredExtraction | null> {
+  if (!EXTRACTABLE_DOCUMENT_TYPES.includes(params.documentType as DocumentType)) return null;
+  let extraction: StoredExtraction;
+  try {
+    extraction = await extractComplianceDocument(params);
+  } catch (e: any) {
+    extraction = result('failed', null, { error: String(e?.message || e).slice(0, 200) });
+  }
+  try {
+    await params.docRef.set({ extraction }, { merge: true });
+  } catch (e: any) {
+    logWarn('runDocumentExtraction: failed to store extraction', { path: params.docRef.path, error: String(e?.message || e) });
+    return null;
+  }
+  return extraction;
+}
+
+/**
+ * Firestore updates for the fields an admin confirmed/corrected while verifying a document.
+ * Blank or invalid values leave the stored field unchanged.
+ */
+export function toVerifiedDocumentFieldUpdates(fields: unknown): Record<string, any> {
+  const f: any = fields && typeof fields === 'object' ? fields : {};
+  const updates: Record<string, any> = {};
+  const text = (v: unknown) => (typeof v === 'string' ? v.trim().slice(0, 200) : '');
+  const date = (v: unknown) => (typeof v === 'string' ? parseDocumentDate(v) : null);
+  if (text(f.permitNumber)) updates.permitNumber = text(f.permitNumber);
+  if (text(f.issuedBy)) updates.issuedBy = text(f.issuedBy);
+  const issuedAt = date(f.issuedAt);
+  const expiresAt = date(f.expiresAt);
+  if (issuedAt) updates.issuedAt = Timestamp.fromDate(new Date(`${issuedAt}T00:00:00Z`));
+  if (expiresAt) updates.expiresAt = Timestamp.fromDate(new Date(`${expiresAt}T00:00:00Z`));
+  return updates;
+}
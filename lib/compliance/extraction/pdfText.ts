@@ -0,0 +1,182 @@
+/**
+ * Local PDF text extractor.
+ *
+ * Reads the embedded text of PDFs produced by form/office software (TPWD permit PDFs, e-CVIs). It walks the
+ * content streams (uncompressed or FlateDecode) and collects the strings shown by the text operators.
+ * It does no OCR: scanned PDFs and photos yield no text, and text in fonts with custom (CID) encodings is
+ * skipped. Line breaks follow text positioning operators, which is close enough for label/value parsing.
+ * Uploads are untrusted: each stream inflates to at most MAX_STREAM_BYTES (a deflate bomb is skipped) and the
+ * text kept per file stops at MAX_TEXT_LENGTH.
+ */
+
+import { inflateSync } from 'zlib';
+import type { DocumentTextExtractor } from './types';
+
+const STREAM_RE = /stream\r?\n/g;
+const NEWLINE_OPERATORS = new Set(['Td', 'TD', 'T*', 'Tm', 'ET']);
+const MAX_STREAM_BYTES = 4 * 1024 * 1024;
+/** Far more than a permit or CVI needs; the field parsers only read labelled values. */
+const MAX_TEXT_LENGTH = 200_000;
+
+function decodeStream(raw: Buffer, dict: string): string | null {
+  if (/\/Subtype\s*\/Image/.test(dict)) return null;
+  const filters = dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] || '';
+  if (!filters) return raw.toString('latin1');
+  if (filters.replace(/[\[\]\s]/g, '') !== '/FlateDecode') return null;
+  try {
+    return inflateSync(raw, { maxOutputLength: MAX_STREAM_BYTES }).toString('latin1');
+  } catch {
+    return null;
+  }
+}
+
+function readLiteralString(src: string, start: number): { text: string; end: number } {
+  let depth = 1;
+  let out = '';
+  let i = start + 1;
+  while (i < src.length && depth > 0) {
+    const c = src[i]!;
+    if (c === '\\') {
+      const n = src[i + 1] ?? '';
+      const escapes: Record<string, string> = { n: '\n', r: '\n', t: ' ', b: '', f: '', '(': '(', ')': ')', '\\': '\\' };
+      if (/[0-7]/.test(n)) {
+        const oct = src.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+        out += String.fromCharCode(parseInt(oct, 8));
+        i += 1 + oct.length;
+        continue;
+      }
+      out += escapes[n] ?? n;
+      i += 2;
+      continue;
+    }
+    if (c === '(') depth++;
+    if (c === ')') depth--;
+    if (depth > 0) out += c;
+    i++;
+  }
+  return { text: out, end: i };
+}
+
+function readHexString(src: string, start: number): { text: string; end: number } {
+  const end = src.indexOf('>', start);
+  const hex = src.slice(start + 1, end < 0 ? src.length : end).replace(/\s+/g, '');
+  let out = '';
+  for (let i = 0; i + 1 < hex.length; i += 2) {
+    const code = parseInt(hex.slice(i, i + 2), 16);
+    if (Number.isNaN(code)) break;
+    out += String.fromCharCode(code);
+  }
+  // Two-byte (CID) strings decode to control characters; drop them rather than emit noise.
+  return { text: /[\x00-\x08\x0e-\x1f]/.test(out) ? '' : out, end: end < 0 ? src.length : end + 1 };
+}
+
+/** Text shown by the BT..ET blocks of one content stream. */
+export function extractTextFromContentStream(content: string): string {
+  const lines: string[] = [];
+  let line = '';
+  let pending = '';
+  let inText = false;
+  let inArray = false;
+  let i = 0;
+
+  const flushLine = () => {
+    if (line.trim()) lines.push(line.replace(/\s+/g, ' ').trim());
+    line = '';
+  };
+
+  while (i < content.length) {
+    const c = content[i]!;
+    if (c === '%') {
+      const nl = content.indexOf('\n', i);
+      i = nl < 0 ? content.length : nl + 1;
+      continue;
+    }
+    if (c === '/') {
+      i += 1 + (content.slice(i + 1).match(/^[^\s/[\]()<>{}%]*/)?.[0].length ?? 0);
+      continue;
+    }
+    if (c === '<' && content[i + 1] === '<') {
+      i += 2;
+      continue;
+    }
+    if (inText && c === '(') {
+      const s = readLiteralString(content, i);
+      pending += s.text;
+      i = s.end;
+      continue;
+    }
+    if (inText && c === '<' && content[i + 1] !== '<') {
+      const s = readHexString(content, i);
+      pending += s.text;
+      i = s.end;
+      continue;
+    }
+    if (c === '[') inArray = true;
+    if (c === ']') inArray = false;
+    if (/[A-Za-z'"*]/.test(c)) {
+      const op = content.slice(i).match(/^[A-Za-z'"*]+/)![0];
+      i += op.length;
+      if (op === 'BT') {
+        inText = true;
+        continue;
+      }
+      if (!inText) continue;
+      if (op === 'Tj' || op === 'TJ') {
+        line += pending;
+      } else if (op === "'" || op === '"') {
+        flushLine();
+        line += pending;
+      } else if (NEWLINE_OPERATORS.has(op)) {
+        flushLine();
+      }
+      pending = '';
+      if (op === 'ET') inText = false;
+      continue;
+    }
+    if (inText && inArray && /[-\d.]/.test(c)) {
+      // Large negative kerning inside a TJ array is how most producers encode a word space.
+      const num = content.slice(i).match(/^-?\d*\.?\d+/)?.[0];
+      if (num) {
+        if (Number(num) <= -200) pending += ' ';
+        i += num.length;
+        continue;
+      }
+    }
+    i++;
+  }
+  flushLine();
+  return lines.join('\n');
+}
+
+/** Embedded text of a PDF file (empty string when it has none). */
+export function extractPdfText(bytes: Buffer): string {
+  const src = bytes.toString('latin1');
+  const pages: string[] = [];
+  let length = 0;
+  STREAM_RE.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while (length < MAX_TEXT_LENGTH && (m = STREAM_RE.exec(src))) {
+    const dataStart = m.index + m[0].length;
+    const dataEnd = src.indexOf('endstream', dataStart);
+    if (dataEnd < 0) break;
+    const dictStart = src.lastIndexOf('obj', m.index);
+    const dict = src.slice(dictStart < 0 ? Math.max(0, m.index - 500) : dictStart, m.index);
+    const content = decodeStream(bytes.subarray(dataStart, dataEnd), dict);
+    if (content && content.includes('BT')) {
+      const text = extractTextFromContentStream(content);
+      if (text) {
+        pages.push(text);
+        length += text.length + 1;
+      }
+    }
+    STREAM_RE.lastIndex = dataEnd + 'endstream'.length;
+  }
+  return pages.join('\n').slice(0, MAX_TEXT_LENGTH);
+}
+
+export const pdfTextExtractor: DocumentTextExtractor = {
+  id: 'pdf_text',
+  supports: ({ contentType, fileName }) =>
+    contentType === 'application/pdf' || /\.pdf$/i.test(fileName),
+  extractText: async (bytes) => extractPdfText(bytes),
+};
@@ -0,0 +1,21 @@
+/**
+ * Compliance Document Extraction Types
+ *
+ * An extractor turns an uploaded file into plain text; field parsing (lib/compliance/extraction/fields.ts)
+ * is shared by all extractors. Register additional extractors (e.g. a hosted OCR service for photos of
+ * permits) with `registerDocumentTextExtractor` in lib/compliance/extraction/index.ts.
+ */
+
+export interface DocumentFileInfo {
+  contentType: string | null;
+  /** Storage path or file name (used for the extension when contentType is missing). */
+  fileName: string;
+}
+
+export interface DocumentTextExtractor {
+  /** Stored on the document as `extraction.extractor`. */
+  id: string;
+  supports(file: DocumentFileInfo): boolean;
+  /** Plain text of the document; empty when the file has no readable text (e.g. a scanned PDF). */
+  extractText(bytes: Buffer, file: DocumentFileInfo): Promise<string>;
+}
@@ -0,0 +1,104 @@
+/**
+ * Whitetail Internal Flags (server-only)
+ *
+ * Admin-only guardrails for whitetail breeder listings: the same permit number or facility ID used by more
+ * than one seller. Checked against the listing's declared attributes and against permit numbers extracted
+ * from its uploaded TPWD breeder permits (lib/compliance/extraction), so a seller can't declare one permit
+ * and upload another seller's.
+ */
+
+import type { Firestore } from 'firebase-admin/firestore';
+
+export interface WhitetailInternalFlags {
+  internalFlags: { duplicatePermitNumber?: boolean; duplicateFacilityId?: boolean };
+  internalFlagsNotes: { duplicatePermitNumber?: string; duplicateFacilityId?: string };
+}
+
+async function distinctWhitetailSellers(db: Firestore, field: string, value: string): Promise<Set<string>> {
+  const snap = await db.collection('listings').where(field, '==', value).get();
+  const sellerIds = new Set<string>();
+  snap.docs.forEach((d) => {
+    const data = d.data();
+    if (data?.category === 'whitetail_breeder' && data?.sellerId) {
+      sellerIds.add(String(data.sellerId));
+    }
+  });
+  return sellerIds;
+}
+
+/**
+ * Permit numbers on the listing's (non-rejected) TPWD breeder permit uploads: the admin-confirmed `permitNumber`
+ * once a permit is verified, otherwise the one read from the file.
+ */
+export async function getExtractedPermitNumbers(db: Firestore, listingId: string): Promise<string[]> {
+  const snap = await db
+    .collection('listings')
+    .doc(listingId)
+    .collection('documents')
+    .where('type', '==', 'TPWD_BREEDER_PERMIT')
+    .get();
+  const numbers = new Set<string>();
+  snap.docs.forEach((d) => {
+    const data = d.data() as any;
+    const verified = data?.status === 'verified' && typeof data?.permitNumber === 'string' ? data.permitNumber : '';
+    const value = verified.trim() ? verified : data?.extraction?.fields?.permitNumber?.value;
+    if (data?.status !== 'rejected' && typeof value === 'string' && value.trim()) numbers.add(value.trim());
+  });
+  return Array.from(numbers);
+}
+
+export async function computeWhitetailInternalFlags(
+  db: Firestore,
+  listingData: any,
+  extractedPermitNumbers: string[] = []
+): Promise<WhitetailInternalFlags> {
+  const permit = listingData?.attributes?.tpwdBreederPermitNumber;
+  const facility = listingData?.attributes?.breederFacilityId;
+  const sellerId = listingData?.sellerId;
+
+  const internalFlags: WhitetailInternalFlags['internalFlags'] = {};
+  const internalFlagsNotes: WhitetailInternalFlags['internalFlagsNotes'] = {};
+
+  // Duplicate permit number across multiple sellers
+  const declaredPermit = permit ? String(permit).trim() : '';
+  if (declaredPermit) {
+    const sellerIds = await distinctWhitetailSellers(db, 'attributes.tpwdBreederPermitNumber', declaredPermit);
+
+    // Count distinct sellers using this permit
+    if (sellerIds.size > 1 && !sellerIds.has(String(sellerId))) {
+      // Defensive, but should not happen.
+      sellerIds.add(String(sellerId));
+    }
+
+    const distinctSellers = sellerIds.size;
+    if (distinctSellers > 1) {
+      internalFlags.duplicatePermitNumber = true;
+      internalFlagsNotes.duplicatePermitNumber = `Permit number appears on ${distinctSellers} sellers`;
+    }
+  }
+
+  // Permit numbers read from uploaded permits: flag when another seller declares them.
+  for (const extracted of extractedPermitNumbers) {
+    if (internalFlags.duplicatePermitNumber) break;
+    if (!extracted.trim() || extracted.trim() === declaredPermit) continue;
+    const sellerIds = await distinctWhitetailSellers(db, 'attributes.tpwdBreederPermitNumber', extracted.trim());
+    sellerIds.delete(String(sellerId));
+    if (sellerIds.size > 0) {
+      internalFlags.duplicatePermitNumber = true;
+      internalFlagsNotes.duplicatePermitNumber = `Uploaded permit #${extracted.trim()} is declared by ${sellerIds.size} other seller(s)`;
+    }
+  }
+
+  // Duplicate facility ID across multiple sellers
+  if (facility && String(facility).trim().length > 0) {
+    const sellerIds = await distinctWhitetailSellers(db, 'attributes.breederFacilityId', String(facility).trim());
+
+    const distinctSellers = sellerIds.size;
+    if (distinctSellers > 1) {
+      internalFlags.duplicateFacilityId = true;
+      internalFlagsNotes.duplicateFacilityId = `Facility ID appears on ${distinctSellers} sellers`;
+    }
+  }
+
+  return { internalFlags, internalFlagsNotes };
+}
@@ -1,5 +1,6 @@
 import type { DocumentType, ListingAttributes, ListingCategory, WildlifeAttributes } from '@/lib/types';
 import { requiresComplianceReview } from '@/lib/compliance/validation';
+import { getMovementRequirements, type MovementRequirements } from '@/lib/compliance/stateRules';
 
 export type ListingReviewMode = 'none' | 'pending_review';
 
@@ -34,14 +35,57 @@ function getExoticSpeciesId(attributes: ListingAttributes): string | null {
   return typeof v === 'string' && v.length > 0 ? v : null;
 }
 
-export function getRequiredOrderDocsForListing(category: ListingCategory, attributes: ListingAttributes): DocumentType[] {
-  if (category === 'whitetail_breeder') return ['TPWD_TRANSFER_APPROVAL'];
-  // TAHC Certificate of Veterinary Inspection (CVI) is required for HORSES only (payout-side hold).
-  // Do not add CVI requirements for exotics here.
-  if (category === 'horse_equestrian') return ['TAHC_CVI']; // payout-only; checkout stays unchanged elsewhere
+/**
+ * Origin (listing) and destination (buyer/delivery) states of a sale. Missing states fall back to an
+ * intrastate Texas sale, which is what every order placed before multi-state support was.
+ */
+export type ComplianceRoute = {
+  originState?: string | null;
+  destinationState?: string | null;
+};
+
+export function getRouteMovementRequirements(
+  category: ListingCategory,
+  attributes: ListingAttributes,
+  route?: ComplianceRoute
+): MovementRequirements {
+  return getMovementRequirements({
+    category,
+    attributes: attributes as Record<string, any>,
+    originState: route?.originState || 'TX',
+    destinationState: route?.destinationState,
+  });
+}
+
+/**
+ * Route for an order: the listing's state to the snapshotted delivery address, else the address the buyer
+ * set after payment, else `fallbackDestinationState` (the buyer's profile state, e.g. for pickup orders the
+ * buyer hauls home).
+ */
+export function getOrderComplianceRoute(
+  order: {
+    deliveryAddress?: { state?: string | null } | null;
+    delivery?: { buyerAddress?: { state?: string | null } | null } | null;
+  } | null | undefined,
+  listing: { location?: { state?: string | null } | null } | null | undefined,
+  fallbackDestinationState?: string | null
+): ComplianceRoute {
+  return {
+    originState: listing?.location?.state || null,
+    destinationState:
+      order?.deliveryAddress?.state || order?.delivery?.buyerAddress?.state || fallbackDestinationState || null,
+  };
+}
 
-  // Disclosure-only or non-animal categories.
-  return [];
+export function getRequiredOrderDocsForListing(
+  category: ListingCategory,
+  attributes: ListingAttributes,
+  route?: ComplianceRoute
+): DocumentType[] {
+  // Per-route documents from lib/compliance/stateRules.ts (TPWD transfer approval for whitetail; CVI for horses
+  // and for interstate livestock; brand inspection / Coggins / TB / brucellosis where the states require them).
+  // Do not add CVI requirements for exotics here.
+  return getRouteMovementRequirements(category, attributes, route).documents;
 }
 
 export function getListingReviewMode(category: ListingCategory, attributes: ListingAttributes): ListingReviewMode {
@@ -58,51 +102,16 @@ export function getListingReviewMode(category: ListingCategory, attributes: List
   return 'none';
 }
 
-export function getPayoutHoldRequirements(category: ListingCategory, attributes: ListingAttributes): {
+export function getPayoutHoldRequirements(
+  category: ListingCategory,
+  attributes: ListingAttributes,
+  route?: ComplianceRoute
+): {
   requiredVerifiedDocs: DocumentType[];
   requiresAdminApprovalBeforePayout: boolean;
   blockPayoutByDefault: boolean;
   holdReasonCode: string;
 } {
-  // IMPORTANT: whitetail payout enforcement remains the gold-standard path elsewhere.
-  // This return value exists for completeness but should not override the existing TPWD flow.
-  if (category === 'whitetail_breeder') {
-    return {
-      requiredVerifiedDocs: ['TPWD_TRANSFER_APPROVAL'],
-      requiresAdminApprovalBeforePayout: false,
-      blockPayoutByDefault: false,
-      holdReasonCode: 'MISSING_TPWD_TRANSFER_APPROVAL',
-    };
-  }
-
-  if (category === 'sporting_working_dogs') {
-    return {
-      requiredVerifiedDocs: [],
-      requiresAdminApprovalBeforePayout: false,
-      blockPayoutByDefault: false,
-      holdReasonCode: 'NONE',
-    };
-  }
-
-  if (category === 'cattle_livestock' || category === 'farm_animals' || category === 'horse_equestrian') {
-    // CVI hold is for horses only. Cattle/livestock do not require CVI by default in this policy.
-    if (category === 'horse_equestrian') {
-      return {
-        requiredVerifiedDocs: ['TAHC_CVI'],
-        requiresAdminApprovalBeforePayout: false,
-        blockPayoutByDefault: false,
-        holdReasonCode: 'MISSING_TAHC_CVI',
-      };
-    }
-
-    return {
-      requiredVerifiedDocs: [],
-      requiresAdminApprovalBeforePayout: false,
-      blockPayoutByDefault: false,
-      holdReasonCode: 'NONE',
-    };
-  }
-
   if (category === 'wildlife_exotics') {
     const speciesId = getExoticSpeciesId(attributes);
     const isOther = speciesId === 'other_exotic';
@@ -137,20 +146,16 @@ export function getPayoutHoldRequirements(category: ListingCategory, attributes:
     }
 
     // Exotics: no CVI requirement by default. Admin review applies only for the higher-risk cases above.
-    return {
-      requiredVerifiedDocs: [],
-      requiresAdminApprovalBeforePayout: false,
-      blockPayoutByDefault: false,
-      holdReasonCode: 'NONE',
-    };
   }
 
-  // Default: no additional payout holds.
+  // Document holds come from the route's state rule (lib/compliance/stateRules.ts).
+  // IMPORTANT: whitetail payout enforcement remains the gold-standard path elsewhere.
+  // This return value exists for completeness but should not override the existing TPWD flow.
+  const requiredVerifiedDocs = getRouteMovementRequirements(category, attributes, route).payoutHoldDocuments;
   return {
-    requiredVerifiedDocs: [],
+    requiredVerifiedDocs,
     requiresAdminApprovalBeforePayout: false,
     blockPayoutByDefault: false,
-    holdReasonCode: 'NONE',
+    holdReasonCode: requiredVerifiedDocs.length > 0 ? `MISSING_${requiredVerifiedDocs[0]}` : 'NONE',
   };
 }
-
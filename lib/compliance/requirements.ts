@@ -12,6 +12,10 @@ export type ComplianceDisclosureKey =
 export type CategoryComplianceRequirements = {
   category: ListingCategory;
   isAnimal: boolean;
+  /**
+   * Sales are state-restricted. Which origin/destination states are allowed (and what each route requires)
+   * lives in `lib/compliance/stateRules.ts`; today every restricted category is sold within Texas only.
+   */
   texasOnly: boolean;
   requiredDisclosures: ComplianceDisclosureKey[];
   /**
@@ -55,7 +59,7 @@ export const CATEGORY_REQUIREMENTS: Record<ListingCategory, CategoryComplianceRe
     texasOnly: true,
     requiredDisclosures: ['identificationDisclosure', 'healthDisclosure'],
     requiredOrderDocuments: [],
-    supportedOrderDocuments: ['TAHC_CVI', 'HEALTH_CERTIFICATE', 'BILL_OF_SALE', 'DELIVERY_PROOF', 'OTHER'],
+    supportedOrderDocuments: ['TAHC_CVI', 'BRAND_INSPECTION', 'TB_TEST', 'BRUCELLOSIS_TEST', 'HEALTH_CERTIFICATE', 'BILL_OF_SALE', 'DELIVERY_PROOF', 'OTHER'],
     requireBillOfSaleAtCheckout: false,
     requireHealthDocsOptionalOrRequired: 'optional',
   },
@@ -65,7 +69,7 @@ export const CATEGORY_REQUIREMENTS: Record<ListingCategory, CategoryComplianceRe
     texasOnly: true,
     requiredDisclosures: ['identificationDisclosure', 'healthDisclosure'],
     requiredOrderDocuments: [],
-    supportedOrderDocuments: ['TAHC_CVI', 'HEALTH_CERTIFICATE', 'BILL_OF_SALE', 'DELIVERY_PROOF', 'OTHER'],
+    supportedOrderDocuments: ['TAHC_CVI', 'BRUCELLOSIS_TEST', 'HEALTH_CERTIFICATE', 'BILL_OF_SALE', 'DELIVERY_PROOF', 'OTHER'],
     requireBillOfSaleAtCheckout: false,
     requireHealthDocsOptionalOrRequired: 'optional',
   },
@@ -75,7 +79,7 @@ export const CATEGORY_REQUIREMENTS: Record<ListingCategory, CategoryComplianceRe
     texasOnly: true,
     requiredDisclosures: ['identificationDisclosure', 'healthDisclosure', 'transportDisclosure', 'titleOrLienDisclosure'],
     requiredOrderDocuments: ['BILL_OF_SALE'],
-    supportedOrderDocuments: ['BILL_OF_SALE', 'HEALTH_CERTIFICATE', 'TAHC_CVI', 'DELIVERY_PROOF', 'OTHER'],
+    supportedOrderDocuments: ['BILL_OF_SALE', 'HEALTH_CERTIFICATE', 'TAHC_CVI', 'COGGINS_TEST', 'BRAND_INSPECTION', 'DELIVERY_PROOF', 'OTHER'],
     requireBillOfSaleAtCheckout: true,
     requireHealthDocsOptionalOrRequired: 'optional',
   },
@@ -125,6 +129,7 @@ export function getCategoryRequirements(category: ListingCategory): CategoryComp
   return CATEGORY_REQUIREMENTS[category];
 }
 
+/** @deprecated Use `resolveStateCompliance` (lib/compliance/stateRules.ts) for origin/destination checks. */
 export function isTexasOnlyCategory(category: ListingCategory): boolean {
   return CATEGORY_REQUIREMENTS[category].texasOnly;
 }
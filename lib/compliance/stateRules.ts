@@ -0,0 +1,384 @@
+/**
+ * State Compliance Rules
+ *
+ * Compliance requirements for animal sales expressed as data keyed by (category, origin state, destination
+ * state): whether the route is allowed, extra disclosures, and the order documents (CVI, brand inspection,
+ * Coggins) that must be provided — and verified before payout — for that movement.
+ *
+ * Species/sex-specific tests for animals crossing state lines (TB, brucellosis) live in `MOVEMENT_TEST_RULES`;
+ * `getMovementRequirements` combines both for a listing and a destination (delivery address or buyer state).
+ *
+ * `lib/compliance/policy.ts` (required order docs, payout holds) and checkout/bid gating resolve rules here
+ * instead of assuming Texas. States without `enabled` market support are not sellable even if rules exist,
+ * so Oklahoma/New Mexico can be switched on with `NEXT_PUBLIC_MARKET_STATES=TX,OK,NM` once launched.
+ */
+
+import type { DocumentType, ListingCategory } from '@/lib/types';
+import { CATEGORY_REQUIREMENTS, type ComplianceDisclosureKey } from '@/lib/compliance/requirements';
+
+export type MarketState = 'TX' | 'OK' | 'NM';
+
+export const MARKET_STATE_NAMES: Record<MarketState, string> = {
+  TX: 'Texas',
+  OK: 'Oklahoma',
+  NM: 'New Mexico',
+};
+
+export const DEFAULT_ENABLED_MARKET_STATES: MarketState[] = ['TX'];
+
+/** Market states open for animal sales (env override: `NEXT_PUBLIC_MARKET_STATES`, comma-separated). */
+export function getEnabledMarketStates(): MarketState[] {
+  const raw = String(process.env.NEXT_PUBLIC_MARKET_STATES || '');
+  const states = raw
+    .split(',')
+    .map((s) => s.trim().toUpperCase())
+    .filter((s): s is MarketState => s in MARKET_STATE_NAMES);
+  return states.length > 0 ? states : DEFAULT_ENABLED_MARKET_STATES;
+}
+
+export interface StateComplianceRule {
+  category: ListingCategory;
+  /** Seller/listing state, or '*' for any market state. */
+  origin: MarketState | '*';
+  /** Buyer/delivery state; 'same' matches intrastate sales only. */
+  destination: MarketState | '*' | 'same';
+  allowed: boolean;
+  /** On top of the category's `requiredDisclosures`. */
+  requiredDisclosures?: ComplianceDisclosureKey[];
+  /** Docs that must exist under `orders/{orderId}/documents/*` (see lib/orders/complianceDocsStatus.ts). */
+  requiredOrderDocuments?: DocumentType[];
+  /** Hold payout until the required docs are verified (default true). */
+  holdPayoutUntilVerified?: boolean;
+  /** Shown to buyers/sellers when the route is blocked or has requirements. */
+  note?: string;
+}
+
+const INTERSTATE_CVI_NOTE = 'Interstate movement requires a Certificate of Veterinary Inspection (CVI).';
+const NM_BRAND_NOTE = 'New Mexico requires a Livestock Board brand inspection when ownership changes or animals enter the state.';
+
+/**
+ * Most specific matching rule wins (exact state > 'same' > '*'). Categories with no matching rule are not
+ * sellable on that route.
+ */
+export const STATE_COMPLIANCE_RULES: StateComplianceRule[] = [
+  // Whitetail breeder deer: TPWD permit transfers within Texas only.
+  {
+    category: 'whitetail_breeder',
+    origin: 'TX',
+    destination: 'same',
+    allowed: true,
+    requiredOrderDocuments: ['TPWD_TRANSFER_APPROVAL'],
+  },
+  {
+    category: 'whitetail_breeder',
+    origin: '*',
+    destination: '*',
+    allowed: false,
+    note: 'Breeder deer are transferred under Texas TPWD permits and cannot move across state lines.',
+  },
+
+  // Exotics: Texas only until state import permits are supported.
+  { category: 'wildlife_exotics', origin: 'TX', destination: 'same', allowed: true },
+  {
+    category: 'wildlife_exotics',
+    origin: '*',
+    destination: '*',
+    allowed: false,
+    note: 'Exotic wildlife can only be sold within Texas for now.',
+  },
+
+  // Cattle/livestock
+  { category: 'cattle_livestock', origin: '*', destination: 'same', allowed: true },
+  { category: 'cattle_livestock', origin: 'NM', destination: 'same', allowed: true, requiredOrderDocuments: ['BRAND_INSPECTION'], note: NM_BRAND_NOTE },
+  { category: 'cattle_livestock', origin: '*', destination: '*', allowed: true, requiredOrderDocuments: ['TAHC_CVI'], note: INTERSTATE_CVI_NOTE },
+  { category: 'cattle_livestock', origin: 'NM', destination: '*', allowed: true, requiredOrderDocuments: ['TAHC_CVI', 'BRAND_INSPECTION'], note: NM_BRAND_NOTE },
+  { category: 'cattle_livestock', origin: '*', destination: 'NM', allowed: true, requiredOrderDocuments: ['TAHC_CVI', 'BRAND_INSPECTION'], note: NM_BRAND_NOTE },
+
+  // Farm animals (goats, sheep, hogs, poultry)
+  { category: 'farm_animals', origin: '*', destination: 'same', allowed: true },
+  { category: 'farm_animals', origin: '*', destination: '*', allowed: true, requiredOrderDocuments: ['TAHC_CVI'], note: INTERSTATE_CVI_NOTE },
+
+  // Horses: CVI on every sale (existing payout hold); Coggins (EIA) across state lines; NM brand inspection.
+  { category: 'horse_equestrian', origin: '*', destination: 'same', allowed: true, requiredOrderDocuments: ['TAHC_CVI'] },
+  { category: 'horse_equestrian', origin: 'NM', destination: 'same', allowed: true, requiredOrderDocuments: ['TAHC_CVI', 'BRAND_INSPECTION'], note: NM_BRAND_NOTE },
+  {
+    category: 'horse_equestrian',
+    origin: '*',
+    destination: '*',
+    allowed: true,
+    requiredOrderDocuments: ['TAHC_CVI', 'COGGINS_TEST'],
+    note: 'Interstate horse movement requires a CVI and a negative Coggins (EIA) test.',
+  },
+  { category: 'horse_equestrian', origin: 'NM', destination: '*', allowed: true, requiredOrderDocuments: ['TAHC_CVI', 'COGGINS_TEST', 'BRAND_INSPECTION'], note: NM_BRAND_NOTE },
+  { category: 'horse_equestrian', origin: '*', destination: 'NM', allowed: true, requiredOrderDocuments: ['TAHC_CVI', 'COGGINS_TEST', 'BRAND_INSPECTION'], note: NM_BRAND_NOTE },
+
+  // Dogs: health certificate across state lines (no payout hold).
+  { category: 'sporting_working_dogs', origin: '*', destination: 'same', allowed: true },
+  {
+    category: 'sporting_working_dogs',
+    origin: '*',
+    destination: '*',
+    allowed: true,
+    requiredOrderDocuments: ['HEALTH_CERTIFICATE'],
+    holdPayoutUntilVerified: false,
+    note: 'Dogs moving across state lines need a health certificate.',
+  },
+];
+
+/** Two-letter code for a state as stored on profiles/addresses ('tx', 'Texas'); other full names pass through. */
+export function normalizeState(state: unknown): string | null {
+  const s = typeof state === 'string' ? state.trim().toUpperCase() : '';
+  if (!s) return null;
+  const byName = (Object.keys(MARKET_STATE_NAMES) as MarketState[]).find((k) => MARKET_STATE_NAMES[k].toUpperCase() === s);
+  return byName || s;
+}
+
+/**
+ * Extra tests for animals crossing state lines, by destination and species/sex. Applied on top of the route
+ * rule (e.g. the interstate CVI) and held for payout like the rule's documents. Coggins is the EIA test, so
+ * horses are covered by the route rules above.
+ */
+export interface MovementTestRule {
+  category: ListingCategory;
+  destination: MarketState | '*';
+  /** `attributes.speciesId` values this applies to (any when omitted). */
+  species?: string[];
+  /** `attributes.sex` values this applies to (any when omitted). */
+  sexes?: string[];
+  /** Minimum age in years; animals with no age on the listing are included. */
+  minAgeYears?: number;
+  documents: DocumentType[];
+  note: string;
+}
+
+const BREEDING_CATTLE_SEXES = ['bull', 'cow', 'heifer', 'unknown'];
+
+export const MOVEMENT_TEST_RULES: MovementTestRule[] = [
+  {
+    category: 'cattle_livestock',
+    destination: 'NM',
+    sexes: BREEDING_CATTLE_SEXES,
+    documents: ['TB_TEST'],
+    note: 'New Mexico requires a negative TB test for breeding cattle entering the state.',
+  },
+  {
+    category: 'cattle_livestock',
+    destination: 'OK',
+    sexes: BREEDING_CATTLE_SEXES,
+    minAgeYears: 1.5,
+    documents: ['BRUCELLOSIS_TEST'],
+    note: 'Oklahoma requires a negative brucellosis test for breeding cattle 18 months and older.',
+  },
+  {
+    category: 'farm_animals',
+    destination: '*',
+    species: ['pig'],
+    documents: ['BRUCELLOSIS_TEST'],
+    note: 'Swine moving across state lines need a negative brucellosis test.',
+  },
+];
+
+function toAgeYears(value: unknown): number | null {
+  const n = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(n) ? n : null;
+}
+
+/** Test rules that apply to an interstate move of this listing (none for intrastate sales). */
+export function getMovementTestRules(
+  category: ListingCategory,
+  attributes: Record<string, any> | null | undefined,
+  originState: string,
+  destinationState: string
+): MovementTestRule[] {
+  if (!originState || !destinationState || originState === destinationState) return [];
+  const speciesId = String(attributes?.speciesId || '').toLowerCase();
+  const sex = String(attributes?.sex || 'unknown').toLowerCase();
+  const age = toAgeYears(attributes?.age);
+  return MOVEMENT_TEST_RULES.filter(
+    (r) =>
+      r.category === category &&
+      (r.destination === '*' || r.destination === destinationState) &&
+      (!r.species || r.species.includes(speciesId)) &&
+      (!r.sexes || r.sexes.includes(sex)) &&
+      (r.minAgeYears === undefined || age === null || age >= r.minAgeYears)
+  );
+}
+
+function ruleScore(rule: StateComplianceRule, origin: string, destination: string): number {
+  const originScore = rule.origin === origin ? 2 : rule.origin === '*' ? 0 : -1;
+  const destScore =
+    rule.destination === destination
+      ? 2
+      : rule.destination === 'same'
+        ? origin === destination ? 1 : -1
+        : rule.destination === '*'
+          ? 0
+          : -1;
+  return originScore < 0 || destScore < 0 ? -1 : originScore + destScore;
+}
+
+export function findStateComplianceRule(
+  category: ListingCategory,
+  originState: string,
+  destinationState: string
+): StateComplianceRule | null {
+  let best: StateComplianceRule | null = null;
+  let bestScore = -1;
+  for (const rule of STATE_COMPLIANCE_RULES) {
+    if (rule.category !== category) continue;
+    const score = ruleScore(rule, originState, destinationState);
+    if (score > bestScore) {
+      best = rule;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export interface MovementRequirements {
+  originState: string | null;
+  destinationState: string | null;
+  interstate: boolean;
+  /** Docs that must exist on the order for this movement. */
+  documents: DocumentType[];
+  /** Docs that must be verified before payout is released. */
+  payoutHoldDocuments: DocumentType[];
+  notes: string[];
+}
+
+/**
+ * Paperwork for moving this listing's animals from `originState` to `destinationState` (defaults to an
+ * intrastate sale). Unlike `resolveStateCompliance` this ignores which market states are enabled, so it also
+ * works for orders placed before a state was switched off.
+ */
+export function getMovementRequirements(params: {
+  category: ListingCategory;
+  attributes?: Record<string, any> | null;
+  originState: string | null | undefined;
+  destinationState?: string | null;
+}): MovementRequirements {
+  const origin = normalizeState(params.originState);
+  const destination = normalizeState(params.destinationState) || origin;
+  const rule = origin && destination ? findStateComplianceRule(params.category, origin, destination) : null;
+  const tests = origin && destination ? getMovementTestRules(params.category, params.attributes, origin, destination) : [];
+
+  const ruleDocs = rule?.allowed ? rule.requiredOrderDocuments || [] : [];
+  const testDocs = tests.flatMap((t) => t.documents);
+  const notes = [rule?.note, ...tests.map((t) => t.note)].filter((n): n is string => !!n);
+  return {
+    originState: origin,
+    destinationState: destination,
+    interstate: !!origin && !!destination && origin !== destination,
+    documents: Array.from(new Set([...ruleDocs, ...testDocs])),
+    payoutHoldDocuments: Array.from(new Set([...(rule?.holdPayoutUntilVerified === false ? [] : ruleDocs), ...testDocs])),
+    notes: Array.from(new Set(notes)),
+  };
+}
+
+export type StateComplianceCode = 'LISTING_STATE_NOT_SUPPORTED' | 'BUYER_STATE_NOT_ALLOWED';
+
+export interface StateComplianceResult {
+  allowed: boolean;
+  code: StateComplianceCode | null;
+  message: string | null;
+  interstate: boolean;
+  requiredDisclosures: ComplianceDisclosureKey[];
+  requiredOrderDocuments: DocumentType[];
+  /** Docs that must be verified before payout is released. */
+  payoutHoldDocuments: DocumentType[];
+  note: string | null;
+}
+
+function listStates(states: string[]): string {
+  const names = states.map((s) => MARKET_STATE_NAMES[s as MarketState] || s);
+  return names.length <= 2 ? names.join(' or ') : `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}`;
+}
+
+/** Enabled market states a listing in this category may be located in. */
+export function getAllowedOriginStates(category: ListingCategory, enabledStates = getEnabledMarketStates()): MarketState[] {
+  if (!CATEGORY_REQUIREMENTS[category].isAnimal) return enabledStates;
+  return enabledStates.filter((o) => enabledStates.some((d) => findStateComplianceRule(category, o, d)?.allowed));
+}
+
+/** Enabled market states a buyer may be in for a listing located in `originState`. */
+export function getAllowedDestinationStates(
+  category: ListingCategory,
+  originState: string,
+  enabledStates = getEnabledMarketStates()
+): MarketState[] {
+  const origin = normalizeState(originState) || '';
+  if (!CATEGORY_REQUIREMENTS[category].isAnimal) return enabledStates;
+  return enabledStates.filter((d) => findStateComplianceRule(category, origin, d)?.allowed);
+}
+
+/**
+ * Resolve the rule for selling `category` from `originState` (listing) to `destinationState` (buyer/delivery).
+ * Without a destination the sale is treated as intrastate; a destination that doesn't parse (e.g. a blank profile
+ * state) is not allowed rather than assumed to be the origin. Non-animal categories are never state-restricted.
+ */
+export function resolveStateCompliance(params: {
+  category: ListingCategory;
+  /** Listing attributes, for species-specific movement tests. */
+  attributes?: Record<string, any> | null;
+  originState: string | null | undefined;
+  destinationState?: string | null;
+  enabledStates?: MarketState[];
+}): StateComplianceResult {
+  const { category } = params;
+  const enabledStates = params.enabledStates || getEnabledMarketStates();
+  const base = CATEGORY_REQUIREMENTS[category];
+  const origin = normalizeState(params.originState);
+  const destination = params.destinationState == null ? origin : normalizeState(params.destinationState);
+  const interstate = !!origin && !!destination && origin !== destination;
+  const result: StateComplianceResult = {
+    allowed: true,
+    code: null,
+    message: null,
+    interstate,
+    requiredDisclosures: [...base.requiredDisclosures],
+    requiredOrderDocuments: [],
+    payoutHoldDocuments: [],
+    note: null,
+  };
+  if (!base.isAnimal) return result;
+
+  const blocked = (code: StateComplianceCode, message: string, note: string | null = null): StateComplianceResult => ({
+    ...result,
+    allowed: false,
+    code,
+    message,
+    note,
+  });
+
+  const allowedOrigins = getAllowedOriginStates(category, enabledStates);
+  if (!origin || !allowedOrigins.includes(origin as MarketState)) {
+    return blocked(
+      'LISTING_STATE_NOT_SUPPORTED',
+      allowedOrigins.length > 0
+        ? `Animal listings in this category must be located in ${listStates(allowedOrigins)}.`
+        : 'Animal listings in this category are not available yet.'
+    );
+  }
+
+  const rule =
+    destination && enabledStates.includes(destination as MarketState)
+      ? findStateComplianceRule(category, origin, destination)
+      : null;
+  if (!rule || !rule.allowed) {
+    const allowedDestinations = getAllowedDestinationStates(category, origin, enabledStates);
+    const who =
+      allowedDestinations.length === 1 && allowedDestinations[0] === origin
+        ? `Only ${MARKET_STATE_NAMES[origin as MarketState]} residents`
+        : `Only buyers in ${listStates(allowedDestinations)}`;
+    return blocked('BUYER_STATE_NOT_ALLOWED', `${who} can buy this listing.`, rule?.note || null);
+  }
+
+  const movement = getMovementRequirements({ category, attributes: params.attributes, originState: origin, destinationState: destination });
+  return {
+    ...result,
+    requiredDisclosures: Array.from(new Set([...result.requiredDisclosures, ...(rule.requiredDisclosures || [])])),
+    requiredOrderDocuments: movement.documents,
+    payoutHoldDocuments: movement.payoutHoldDocuments,
+    note: movement.notes.length > 0 ? movement.notes.join(' ') : null,
+  };
+}
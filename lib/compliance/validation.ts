@@ -17,7 +17,7 @@ import {
   EXOTIC_SPECIES,
   isSingleAnimalListing,
 } from '@/lib/types';
-import { isTexasOnlyCategory } from '@/lib/compliance/requirements';
+import { resolveStateCompliance } from '@/lib/compliance/stateRules';
 
 // Prohibited keywords that cannot appear in listings
 const PROHIBITED_KEYWORDS = [
@@ -44,11 +44,12 @@ export function containsProhibitedKeywords(text: string): boolean {
 }
 
 /**
- * Validate Texas-only requirement for animal listings
+ * Validate the listing's state for animal listings (see lib/compliance/stateRules.ts)
  */
-export function validateTexasOnly(category: ListingCategory, locationState: string): void {
-  if (isTexasOnlyCategory(category) && locationState !== 'TX') {
-    throw new Error(`Animal listings must be located in Texas. Current location: ${locationState}`);
+export function validateListingState(category: ListingCategory, locationState: string): void {
+  const res = resolveStateCompliance({ category, originState: locationState });
+  if (res.code === 'LISTING_STATE_NOT_SUPPORTED') {
+    throw new Error(`${res.message} Current location: ${locationState}`);
   }
 }
 
@@ -456,8 +457,8 @@ export function validateListingCompliance(
   type: ListingType,
   pricingData: { price?: number; startingBid?: number; reservePrice?: number }
 ): void {
-  // P0: Texas-only for animals
-  validateTexasOnly(category, locationState);
+  // P0: animals only in supported states
+  validateListingState(category, locationState);
   
   // P0: Single-mode validation
   validateSingleMode(type, pricingData);
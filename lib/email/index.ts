@@ -11,6 +11,11 @@ import {
   getOrderConfirmationEmail,
   getDeliveryConfirmationEmail,
   getOrderInTransitEmail,
+  getOrderBalanceDueEmail,
+  getOrderDepositExpiredEmail,
+  getComplianceDocumentExpiryEmail,
+  getOrderInstallmentDueEmail,
+  getOrderInstallmentDefaultedEmail,
   getOrderPreparingEmail,
   getPayoutNotificationEmail,
   getAuctionWinnerEmail,
@@ -53,6 +58,11 @@ import {
   type OrderConfirmationEmailData,
   type DeliveryConfirmationEmailData,
   type OrderInTransitEmailData,
+  type OrderBalanceDueEmailData,
+  type OrderDepositExpiredEmailData,
+  type ComplianceDocumentExpiryEmailData,
+  type OrderInstallmentDueEmailData,
+  type OrderInstallmentDefaultedEmailData,
   type OrderPreparingEmailData,
   type PayoutNotificationEmailData,
   type AuctionWinnerEmailData,
@@ -115,6 +125,7 @@ const orderConfirmationSchema = z.object({
   orderId: z.string().min(1),
   listingTitle: z.string().min(1),
   amount: z.number().finite().nonnegative(),
+  salesTaxAmount: z.number().finite().nonnegative().optional(),
   orderDate: dateSchema,
   orderUrl: urlSchema,
 });
@@ -134,6 +145,61 @@ const orderInTransitSchema = z.object({
   orderUrl: urlSchema,
 });
 
+const orderBalanceDueSchema = z.object({
+  buyerName: z.string().min(1),
+  orderId: z.string().min(1),
+  listingTitle: z.string().min(1),
+  orderUrl: urlSchema,
+  amount: z.number().finite().nonnegative(),
+  dueAt: dateSchema,
+  depositRefundable: z.boolean().optional(),
+});
+
+const complianceDocumentExpirySchema = z.object({
+  userName: z.string().min(1),
+  documentLabel: z.string().min(1),
+  expiresAt: dateSchema,
+  daysRemaining: z.number().int().nonnegative(),
+  expired: z.boolean(),
+  listingTitle: z.string().optional(),
+  actionUrl: urlSchema,
+  badgeRemoved: z.boolean().optional(),
+});
+
+const orderDepositExpiredSchema = z.object({
+  recipientName: z.string().min(1),
+  role: z.enum(['buyer', 'seller']),
+  orderId: z.string().min(1),
+  listingTitle: z.string().min(1),
+  orderUrl: urlSchema,
+  depositAmount: z.number().finite().nonnegative(),
+  outcome: z.enum(['forfeited', 'refunded']),
+  relisted: z.boolean(),
+});
+
+const orderInstallmentDueSchema = z.object({
+  buyerName: z.string().min(1),
+  orderId: z.string().min(1),
+  listingTitle: z.string().min(1),
+  orderUrl: urlSchema,
+  installmentNumber: z.number().int().positive(),
+  installmentCount: z.number().int().positive(),
+  amount: z.number().finite().nonnegative(),
+  dueAt: dateSchema,
+  daysOverdue: z.number().int().nonnegative(),
+});
+
+const orderInstallmentDefaultedSchema = z.object({
+  recipientName: z.string().min(1),
+  role: z.enum(['buyer', 'seller']),
+  orderId: z.string().min(1),
+  listingTitle: z.string().min(1),
+  orderUrl: urlSchema,
+  installmentNumber: z.number().int().positive(),
+  amount: z.number().finite().nonnegative(),
+  daysOverdue: z.number().int().nonnegative(),
+});
+
 const orderPreparingSchema = z.object({
   buyerName: z.string().min(1),
   orderId: z.string().min(1),
@@ -479,6 +545,86 @@ export const EMAIL_EVENT_REGISTRY = [
       return { subject, preheader: `In transit: ${data.listingTitle}`, html };
     },
   },
+  {
+    type: 'order_balance_due',
+    displayName: 'Order Balance Due',
+    description: 'Sent to buyer ahead of a seller-set balance due date (deposit terms).',
+    schema: orderBalanceDueSchema,
+    samplePayload: {
+      buyerName: 'Alex Johnson',
+      orderId: 'ORD_123456',
+      listingTitle: 'Axis Doe (Breeder Stock)',
+      orderUrl: 'https://agchange.app/dashboard/orders/ORD_123456',
+      amount: 6000,
+      dueAt: new Date(Date.now() + 1000 * 60 * 60 * 24 * 3).toISOString(),
+      depositRefundable: false,
+    },
+    render: (data: OrderBalanceDueEmailData) => {
+      const { subject, html } = getOrderBalanceDueEmail(data);
+      return { subject, preheader: `Balance due: ${data.listingTitle}`, html };
+    },
+  },
+  {
+    type: 'order_deposit_expired',
+    displayName: 'Order Deposit Expired',
+    description: 'Sent to buyer and seller when an unpaid balance expires and the order is cancelled.',
+    schema: orderDepositExpiredSchema,
+    samplePayload: {
+      recipientName: 'Alex Johnson',
+      role: 'buyer',
+      orderId: 'ORD_123456',
+      listingTitle: 'Axis Doe (Breeder Stock)',
+      orderUrl: 'https://agchange.app/dashboard/orders/ORD_123456',
+      depositAmount: 1500,
+      outcome: 'forfeited',
+      relisted: true,
+    },
+    render: (data: OrderDepositExpiredEmailData) => {
+      const { subject, html } = getOrderDepositExpiredEmail(data);
+      return { subject, preheader: `Order cancelled: ${data.listingTitle}`, html };
+    },
+  },
+  {
+    type: 'order_installment_due',
+    displayName: 'Order Installment Due',
+    description: 'Sent to buyer ahead of and after an installment plan due date (dunning).',
+    schema: orderInstallmentDueSchema,
+    samplePayload: {
+      buyerName: 'Alex Johnson',
+      orderId: 'ORD_123456',
+      listingTitle: 'Axis Doe (Breeder Stock)',
+      orderUrl: 'https://agchange.app/dashboard/orders/ORD_123456',
+      installmentNumber: 2,
+      installmentCount: 4,
+      amount: 12500,
+      dueAt: new Date(Date.now() + 1000 * 60 * 60 * 24 * 3).toISOString(),
+      daysOverdue: 0,
+    },
+    render: (data: OrderInstallmentDueEmailData) => {
+      const { subject, html } = getOrderInstallmentDueEmail(data);
+      return { subject, preheader: `Installment due: ${data.listingTitle}`, html };
+    },
+  },
+  {
+    type: 'order_installment_defaulted',
+    displayName: 'Order Installment Plan Defaulted',
+    description: 'Sent to buyer and seller when a missed installment puts the plan in default.',
+    schema: orderInstallmentDefaultedSchema,
+    samplePayload: {
+      recipientName: 'Alex Johnson',
+      role: 'buyer',
+      orderId: 'ORD_123456',
+      listingTitle: 'Axis Doe (Breeder Stock)',
+      orderUrl: 'https://agchange.app/dashboard/orders/ORD_123456',
+      installmentNumber: 2,
+      amount: 12500,
+      daysOverdue: 14,
+    },
+    render: (data: OrderInstallmentDefaultedEmailData) => {
+      const { subject, html } = getOrderInstallmentDefaultedEmail(data);
+      return { subject, preheader: `Installment plan in default: ${data.listingTitle}`, html };
+    },
+  },
   {
     type: 'order_preparing',
     displayName: 'Order Preparing',
@@ -942,6 +1088,24 @@ export const EMAIL_EVENT_REGISTRY = [
       return { subject, preheader: `Listing changes required`, html };
     },
   },
+  {
+    type: 'compliance_document_expiry',
+    displayName: 'Seller: Compliance Document Expiring',
+    description: 'Sent 60, 30 and 7 days before a breeder permit or order document (e.g. CVI) expires, and once it has.',
+    schema: complianceDocumentExpirySchema,
+    samplePayload: {
+      userName: 'Jordan',
+      documentLabel: 'TPWD Breeder Permit',
+      expiresAt: new Date(Date.now() + 1000 * 60 * 60 * 24 * 30).toISOString(),
+      daysRemaining: 30,
+      expired: false,
+      actionUrl: 'https://agchange.app/seller/overview',
+    },
+    render: (data: ComplianceDocumentExpiryEmailData) => {
+      const { subject, html } = getComplianceDocumentExpiryEmail(data);
+      return { subject, preheader: data.expired ? `${data.documentLabel} expired` : `${data.documentLabel} expiring soon`, html };
+    },
+  },
   {
     type: 'admin_listing_submitted',
     displayName: 'Admin: Listing Submitted',
@@ -9,6 +9,8 @@ export interface OrderConfirmationEmailData {
   orderId: string;
   listingTitle: string;
   amount: number;
+  /** Sales tax included in `amount`, when any was collected. */
+  salesTaxAmount?: number;
   orderDate: Date;
   orderUrl: string;
 }
@@ -28,6 +30,51 @@ export interface OrderInTransitEmailData {
   orderUrl: string;
 }
 
+export interface OrderBalanceDueEmailData {
+  buyerName: string;
+  orderId: string;
+  listingTitle: string;
+  orderUrl: string;
+  amount: number;
+  dueAt: Date;
+  /** Whether the deposit is refunded (rather than kept by the seller) if the balance isn't paid. */
+  depositRefundable?: boolean;
+}
+
+export interface OrderDepositExpiredEmailData {
+  recipientName: string;
+  role: 'buyer' | 'seller';
+  orderId: string;
+  listingTitle: string;
+  orderUrl: string;
+  depositAmount: number;
+  outcome: 'forfeited' | 'refunded';
+  relisted: boolean;
+}
+
+export interface OrderInstallmentDueEmailData {
+  buyerName: string;
+  orderId: string;
+  listingTitle: string;
+  orderUrl: string;
+  installmentNumber: number;
+  installmentCount: number;
+  amount: number;
+  dueAt: Date;
+  daysOverdue: number;
+}
+
+export interface OrderInstallmentDefaultedEmailData {
+  recipientName: string;
+  role: 'buyer' | 'seller';
+  orderId: string;
+  listingTitle: string;
+  orderUrl: string;
+  installmentNumber: number;
+  amount: number;
+  daysOverdue: number;
+}
+
 export interface OrderPreparingEmailData {
   buyerName: string;
   orderId: string;
@@ -176,6 +223,18 @@ export interface ListingApprovedEmailData {
   listingUrl: string;
 }
 
+export interface ComplianceDocumentExpiryEmailData {
+  userName: string;
+  documentLabel: string;
+  expiresAt: Date;
+  /** 0 once the document has expired. */
+  daysRemaining: number;
+  expired: boolean;
+  listingTitle?: string;
+  actionUrl: string;
+  badgeRemoved?: boolean;
+}
+
 export interface ListingRejectedEmailData {
   userName: string;
   listingTitle: string;
@@ -637,6 +696,11 @@ export function getOrderConfirmationEmail(data: OrderConfirmationEmailData): { s
             <div><span style="color:#5B564A;">Order ID:</span> <strong>${escapeHtml(data.orderId)}</strong></div>
             <div style="margin-top: 6px;"><span style="color:#5B564A;">Listing:</span> <strong>${escapeHtml(data.listingTitle)}</strong></div>
             <div style="margin-top: 6px;"><span style="color:#5B564A;">Amount:</span> <strong>$${data.amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</strong></div>
+            ${
+              typeof data.salesTaxAmount === 'number' && data.salesTaxAmount > 0
+                ? `<div style="margin-top: 6px;"><span style="color:#5B564A;">Includes sales tax:</span> <strong>$${data.salesTaxAmount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</strong></div>`
+                : ''
+            }
             <div style="margin-top: 6px;"><span style="color:#5B564A;">Date:</span> <strong>${escapeHtml(data.orderDate.toLocaleDateString())}</strong></div>
           </div>
         </td>
@@ -766,6 +830,182 @@ export function getOrderInTransitEmail(data: OrderInTransitEmailData): { subject
   return { subject, html: getEmailTemplate({ title: subject, preheader, contentHtml: content, origin }) };
 }
 
+export function getOrderBalanceDueEmail(data: OrderBalanceDueEmailData): { subject: string; html: string } {
+  const dueLabel = data.dueAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+  const subject = `Balance due ${dueLabel} — ${data.listingTitle}`;
+  const preheader = `Pay the remaining $${Number(data.amount).toLocaleString()} by ${dueLabel} to keep your order.`;
+  const origin = canonicalOrigin(tryGetOrigin(data.orderUrl));
+  const content = `
+    <div style="font-family: 'BarlettaInline','BarlettaStamp','Founders Grotesk', Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 22px; font-weight: 900; letter-spacing: 0.2px; margin: 0 0 6px 0; color:#22251F;">
+      Balance due
+    </div>
+    <div style="font-family: 'Founders Grotesk', Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 14px; color:#5B564A; margin: 0 0 16px 0;">
+      Hi ${escapeHtml(data.buyerName)} — the remaining balance on your order is due by <strong>${escapeHtml(dueLabel)}</strong>.
+    </div>
+
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0"
+           style="background:#E2D6C2; border:1px solid rgba(34,37,31,0.16); border-radius: 16px;">
+      <tr>
+        <td style="padding: 14px 14px;">
+          <div style="font-family: 'Founders Grotesk', Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 12px; color:#5B564A; font-weight: 800; letter-spacing: 0.4px; text-transform: uppercase;">
+            Order
+          </div>
+          <div style="margin-top: 10px; font-family: 'Founders Grotesk', Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 14px; color:#22251F;">
+            <div><span style="color:#5B564A;">Order ID:</span> <strong>${escapeHtml(data.orderId)}</strong></div>
+            <div style="margin-top: 6px;"><span style="color:#5B564A;">Listing:</span> <strong>${escapeHtml(data.listingTitle)}</strong></div>
+            <div style="margin-top: 6px;"><span style="color:#5B564A;">Balance due:</span> <strong>$${Number(data.amount).toLocaleString()}</strong></div>
+          </div>
+        </td>
+      </tr>
+    </table>
+
+    <div style="margin: 16px 0 0 0; font-family: 'Founders Grotesk', Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 13px; color:#5B564A;">
+      ${
+        data.depositRefundable
+          ? 'If the balance isn’t paid, the order is cancelled and your deposit is refunded.'
+          : 'If the balance isn’t paid, the order is cancelled and your non-refundable deposit goes to the seller.'
+      }
+    </div>
+
+    <div style="margin: 18px 0 0 0;">
+      ${renderButton(data.orderUrl, 'Pay balance')}
+    </div>
+  `;
+  return { subject, html: getEmailTemplate({ title: subject, preheader, contentHtml: content, origin }) };
+}
+
+export function getOrderDepositExpiredEmail(data: OrderDepositExpiredEmailData): { subject: string; html: string } {
+  const subject = `Order cancelled — ${data.listingTitle}`;
+  const deposit = `$${Number(data.depositAmount).toLocaleString()}`;
+  const detail =
+    data.role === 'buyer'
+      ? data.outcome === 'refunded'
+        ? `The balance wasn’t paid by the due date, so the order was cancelled and your ${deposit} deposit was refunded.`
+        : `The balance wasn’t paid by the due date, so the order was cancelled and your ${deposit} non-refundable deposit was forfeited to the seller.`
+      : data.outcome === 'refunded'
+        ? `The buyer didn’t pay the balance by the due date, so the order was cancelled and the ${deposit} refundable deposit was returned to them.`
+        : `The buyer didn’t pay the balance by the due date, so the order was cancelled. You keep the ${deposit} deposit.`;
+  const next =
+    data.role === 'seller'
+      ? data.relisted
+        ? 'Your listing is active again.'
+        : 'You can duplicate the listing to sell it again.'
+      : '';
+  const preheader = detail;
+  const origin = canonicalOrigin(tryGetOrigin(data.orderUrl));
+  const content = `
+    <div style="font-family: 'BarlettaInline','BarlettaStamp','Founders Grotesk', Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 22px; font-weight: 900; letter-spacing: 0.2px; margin: 0 0 6px 0; color:#22251F;">
+      Order cancelled
+    </div>
+    <div style="font-family: 'Founders Grotesk', Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 14px; color:#5B564A; margin: 0 0 16px 0;">
+      Hi ${escapeHtml(data.recipientName)} — ${escapeHtml(detail)}${next ? ` ${escapeHtml(next)}` : ''}
+    </div>
+
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0"
+           style="background:#E2D6C2; border:1px solid rgba(34,37,31,0.16); border-radius: 16px;">
+      <tr>
+        <td style="padding: 14px 14px;">
+          <div style="font-family: 'Founders Grotesk', Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 12px; color:#5B564A; font-weight: 800; letter-spacing: 0.4px; text-transform: uppercase;">
+            Order
+          </div>
+          <div style="margin-top: 10px; font-family: 'Founders Grotesk', Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 14px; color:#22251F;">
+            <div><span style="color:#5B564A;">Order ID:</span> <strong>${escapeHtml(data.orderId)}</strong></div>
+            <div style="margin-top: 6px;"><span style="color:#5B564A;">Listing:</span> <strong>${escapeHtml(data.listingTitle)}</strong></div>
+          </div>
+        </td>
+      </tr>
+    </table>
+
+    <div style="margin: 18px 0 0 0;">
+      ${renderButton(data.orderUrl, 'View order')}
+    </div>
+  `;
+  return { subject, html: getEmailTemplate({ title: subject, preheader, contentHtml: content, origin }) };
+}
+
+export function getOrderInstallmentDueEmail(data: OrderInstallmentDueEmailData): { subject: string; html: string } {
+  const dueLabel = data.dueAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+  const overdue = data.daysOverdue > 0;
+  const label = `Installment ${data.installmentNumber} of ${data.installmentCount}`;
+  const subject = overdue ? `${label} overdue — ${data.listingTitle}` : `${label} due ${dueLabel} — ${data.listingTitle}`;
+  const preheader = overdue
+    ? `Your $${Number(data.amount).toLocaleString()} installment was due ${dueLabel}. Pay now to keep your plan in good standing.`
+    : `Your $${Number(data.amount).toLocaleString()} installment is due ${dueLabel}.`;
+  const origin = canonicalOrigin(tryGetOrigin(data.orderUrl));
+  const content = `
+    <div style="font-family: 'BarlettaInline','BarlettaStamp','Founders Grotesk', Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 22px; font-weight: 900; letter-spacing: 0.2px; margin: 0 0 6px 0; color:#22251F;">
+      ${overdue ? 'Installment overdue' : 'Installment due'}
+    </div>
+    <div style="font-family: 'Founders Grotesk', Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 14px; color:#5B564A; margin: 0 0 16px 0;">
+      Hi ${escapeHtml(data.buyerName)} — ${escapeHtml(label.toLowerCase())} on your order ${overdue ? 'was' : 'is'} due <strong>${escapeHtml(dueLabel)}</strong>.
+    </div>
+
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0"
+           style="background:#E2D6C2; border:1px solid rgba(34,37,31,0.16); border-radius: 16px;">
+      <tr>
+        <td style="padding: 14px 14px;">
+          <div style="font-family: 'Founders Grotesk', Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 12px; color:#5B564A; font-weight: 800; letter-spacing: 0.4px; text-transform: uppercase;">
+            Order
+          </div>
+          <div style="margin-top: 10px; font-family: 'Founders Grotesk', Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 14px; color:#22251F;">
+            <div><span style="color:#5B564A;">Order ID:</span> <strong>${escapeHtml(data.orderId)}</strong></div>
+            <div style="margin-top: 6px;"><span style="color:#5B564A;">Listing:</span> <strong>${escapeHtml(data.listingTitle)}</strong></div>
+            <div style="margin-top: 6px;"><span style="color:#5B564A;">Amount due:</span> <strong>$${Number(data.amount).toLocaleString()}</strong></div>
+          </div>
+        </td>
+      </tr>
+    </table>
+
+    <div style="margin: 16px 0 0 0; font-family: 'Founders Grotesk', Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 13px; color:#5B564A;">
+      Your order is released once the last installment is paid. Installments more than two weeks late put the plan in default.
+    </div>
+
+    <div style="margin: 18px 0 0 0;">
+      ${renderButton(data.orderUrl, 'Pay installment')}
+    </div>
+  `;
+  return { subject, html: getEmailTemplate({ title: subject, preheader, contentHtml: content, origin }) };
+}
+
+export function getOrderInstallmentDefaultedEmail(data: OrderInstallmentDefaultedEmailData): { subject: string; html: string } {
+  const subject = `Installment plan in default — ${data.listingTitle}`;
+  const amount = `$${Number(data.amount).toLocaleString()}`;
+  const detail =
+    data.role === 'buyer'
+      ? `Installment ${data.installmentNumber} (${amount}) is ${data.daysOverdue} days overdue, so your plan is in default. Pay it now to keep your order; our team will contact you.`
+      : `The buyer is ${data.daysOverdue} days behind on installment ${data.installmentNumber} (${amount}). Don’t release the animal or equipment; our team will follow up with next steps.`;
+  const preheader = detail;
+  const origin = canonicalOrigin(tryGetOrigin(data.orderUrl));
+  const content = `
+    <div style="font-family: 'BarlettaInline','BarlettaStamp','Founders Grotesk', Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 22px; font-weight: 900; letter-spacing: 0.2px; margin: 0 0 6px 0; color:#22251F;">
+      Installment plan in default
+    </div>
+    <div style="font-family: 'Founders Grotesk', Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 14px; color:#5B564A; margin: 0 0 16px 0;">
+      Hi ${escapeHtml(data.recipientName)} — ${escapeHtml(detail)}
+    </div>
+
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0"
+           style="background:#E2D6C2; border:1px solid rgba(34,37,31,0.16); border-radius: 16px;">
+      <tr>
+        <td style="padding: 14px 14px;">
+          <div style="font-family: 'Founders Grotesk', Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 12px; color:#5B564A; font-weight: 800; letter-spacing: 0.4px; text-transform: uppercase;">
+            Order
+          </div>
+          <div style="margin-top: 10px; font-family: 'Founders Grotesk', Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 14px; color:#22251F;">
+            <div><span style="color:#5B564A;">Order ID:</span> <strong>${escapeHtml(data.orderId)}</strong></div>
+            <div style="margin-top: 6px;"><span style="color:#5B564A;">Listing:</span> <strong>${escapeHtml(data.listingTitle)}</strong></div>
+          </div>
+        </td>
+      </tr>
+    </table>
+
+    <div style="margin: 18px 0 0 0;">
+      ${renderButton(data.orderUrl, data.role === 'buyer' ? 'Pay installment' : 'View order')}
+    </div>
+  `;
+  return { subject, html: getEmailTemplate({ title: subject, preheader, contentHtml: content, origin }) };
+}
+
 export function getOrderPreparingEmail(data: OrderPreparingEmailData): { subject: string; html: string } {
   const subject = `Preparing delivery — ${data.listingTitle}`;
   const preheader = `The seller is preparing your order. View the latest status and messages.`;
@@ -1910,6 +2150,38 @@ export function getListingApprovedEmail(data: ListingApprovedEmailData): { subje
   return { subject, html: getEmailTemplate({ title: subject, preheader, contentHtml: content, origin }) };
 }
 
+export function getComplianceDocumentExpiryEmail(data: ComplianceDocumentExpiryEmailData): { subject: string; html: string } {
+  const dateLabel = data.expiresAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+  const forOrder = data.listingTitle ? ` for ${data.listingTitle}` : '';
+  const subject = data.expired
+    ? `${data.documentLabel} expired${forOrder}`
+    : `${data.documentLabel} expires in ${data.daysRemaining} days${forOrder}`;
+  const preheader = data.expired
+    ? `Your ${data.documentLabel} expired on ${dateLabel}. Upload a renewed copy.`
+    : `Your ${data.documentLabel} expires on ${dateLabel}. Renew it before then to avoid interruptions.`;
+  const detail = data.expired
+    ? data.badgeRemoved
+      ? 'Your “TPWD breeder permit” badge has been removed and whitetail breeder listings can’t be published until a renewed permit is verified.'
+      : 'Upload a renewed copy so the order can move forward.'
+    : 'Upload the renewed copy once you have it; we’ll review it and keep your listings and orders moving.';
+  const origin = canonicalOrigin(tryGetOrigin(data.actionUrl));
+  const content = `
+    <div style="font-family: 'BarlettaInline','BarlettaStamp','Founders Grotesk', Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 22px; font-weight: 900; letter-spacing: 0.2px; margin: 0 0 6px 0; color:#22251F;">
+      ${data.expired ? 'Document expired' : 'Document expiring soon'}
+    </div>
+    <div style="font-family: 'Founders Grotesk', Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 14px; color:#5B564A; margin: 0 0 14px 0;">
+      Hi ${escapeHtml(data.userName)} — your ${escapeHtml(data.documentLabel)}${escapeHtml(forOrder)} ${data.expired ? 'expired' : 'expires'} on <strong>${escapeHtml(dateLabel)}</strong>.
+    </div>
+    <div style="margin: 0 0 14px 0; padding: 12px 14px; border: 1px solid #E6E1D6; border-radius: 12px; background: #FBFAF7; font-family: 'Founders Grotesk', Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 13px; color:#5B564A;">
+      ${escapeHtml(detail)}
+    </div>
+    <div style="margin: 18px 0 0 0;">
+      ${renderButton(data.actionUrl, 'Upload renewal')}
+    </div>
+  `;
+  return { subject, html: getEmailTemplate({ title: subject, preheader, contentHtml: content, origin }) };
+}
+
 export function getListingRejectedEmail(data: ListingRejectedEmailData): { subject: string; html: string } {
   const subject = `Your listing needs changes — ${data.listingTitle}`;
   const preheader = `Update your listing and resubmit for review.`;
@@ -154,6 +154,7 @@ export async function getCheckoutDeliveryAddress(
   const updatedAt = (d.updatedAt as Timestamp)?.toDate?.() ?? new Date(0);
   return {
     deliveryAddressId: d.deliveryAddressId ?? null,
+    listingId: d.listingId ?? null,
     updatedAt,
   };
 }
@@ -26,7 +26,8 @@ import { Bid } from '@/lib/types';
 import { getUserProfile } from './users';
 import { placeBidServer } from '@/lib/api/bids';
 import { normalizeCategory } from '@/lib/listings/normalizeCategory';
-import { isTexasOnlyCategory } from '@/lib/compliance/requirements';
+import { getCategoryRequirements } from '@/lib/compliance/requirements';
+import { resolveStateCompliance } from '@/lib/compliance/stateRules';
 
 /**
  * Bid document as stored in Firestore
@@ -187,25 +188,32 @@ export async function placeBidTx(params: {
         }
       }
 
-      // P0: Texas-only enforcement for configured categories
+      // P0: state enforcement for configured categories (lib/compliance/stateRules.ts)
       let listingCategory: any;
       try {
         listingCategory = normalizeCategory(listingData.category);
       } catch {
         throw new Error('Invalid listing category');
       }
-      if (isTexasOnlyCategory(listingCategory)) {
+      if (getCategoryRequirements(listingCategory).texasOnly) {
+        const listingRoute = resolveStateCompliance({ category: listingCategory, originState: listingData.location?.state });
+        if (listingRoute.code === 'LISTING_STATE_NOT_SUPPORTED') {
+          throw new Error(listingRoute.message || 'This listing is not located in a supported state.');
+        }
+
         // Get bidder profile to check state
         const bidderProfile = await getUserProfile(bidderId);
         const bidderState = bidderProfile?.profile?.location?.state;
-        
-        if (!bidderState || bidderState !== 'TX') {
-          throw new Error('Only Texas residents can bid on animal listings. Please update your profile location.');
+        if (!bidderState) {
+          throw new Error('Please add your state to your profile location before bidding on animal listings.');
         }
-        
-        // Also verify listing is in Texas
-        if (listingData.location?.state !== 'TX') {
-          throw new Error('Animal listings must be located in Texas.');
+        const bidderRoute = resolveStateCompliance({
+          category: listingCategory,
+          originState: listingData.location?.state,
+          destinationState: bidderState,
+        });
+        if (!bidderRoute.allowed) {
+          throw new Error(`${bidderRoute.message} Please update your profile location.`);
         }
       }
 
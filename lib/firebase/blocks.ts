@@ -0,0 +1,73 @@
+import { collection, doc, onSnapshot, orderBy, query, type Unsubscribe } from 'firebase/firestore';
+import { getIdToken } from '@/lib/firebase/auth-helper';
+import { auth, db } from '@/lib/firebase/config';
+
+const API_BASE = '/api/users/block';
+
+export type BlockedUser = {
+  userId: string;
+  displayName: string;
+  blockedAt: Date | null;
+};
+
+async function authedFetch(body: any) {
+  const user = auth.currentUser;
+  if (!user) throw new Error('User must be authenticated');
+  const token = await getIdToken(user, true);
+  if (!token) throw new Error('Failed to get authentication token');
+
+  const res = await fetch(API_BASE, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || !data?.ok) {
+    const msg = data?.message || data?.error || 'Request failed';
+    const err: any = new Error(msg);
+    if (data?.code) err.code = data.code;
+    throw err;
+  }
+  return data;
+}
+
+export async function blockUser(userId: string) {
+  return authedFetch({ userId, action: 'block' as const });
+}
+
+export async function unblockUser(userId: string) {
+  return authedFetch({ userId, action: 'unblock' as const });
+}
+
+/** The signed-in user's block list (real-time). */
+export function subscribeBlockedUsers(userId: string, callback: (users: BlockedUser[]) => void): Unsubscribe {
+  const q = query(collection(db, 'users', userId, 'blockedUsers'), orderBy('blockedAt', 'desc'));
+  return onSnapshot(
+    q,
+    (snap) => {
+      callback(
+        snap.docs.map((d) => {
+          const data = d.data() as any;
+          return {
+            userId: d.id,
+            displayName: String(data?.blockedDisplayName || 'User'),
+            blockedAt: data?.blockedAt?.toDate?.() || null,
+          };
+        })
+      );
+    },
+    () => callback([])
+  );
+}
+
+/** Whether the signed-in user has blocked `otherUserId` (real-time). */
+export function subscribeIsBlocked(userId: string, otherUserId: string, callback: (blocked: boolean) => void): Unsubscribe {
+  return onSnapshot(
+    doc(db, 'users', userId, 'blockedUsers', otherUserId),
+    (snap) => callback(snap.exists()),
+    () => callback(false)
+  );
+}
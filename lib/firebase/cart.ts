@@ -0,0 +1,55 @@
+import { collection, deleteDoc, doc, onSnapshot, orderBy, query, serverTimestamp, setDoc, Unsubscribe } from 'firebase/firestore';
+import { db } from './config';
+import type { CartItemDoc } from '@/lib/types';
+
+export type CartItem = CartItemDoc & { id: string };
+
+let warnedPermissions = false;
+
+export function subscribeCart(userId: string, cb: (items: CartItem[]) => void): Unsubscribe {
+  const q = query(collection(db, 'users', userId, 'cart'), orderBy('addedAt', 'asc'));
+  return onSnapshot(
+    q,
+    (snap) => cb(snap.docs.map((d) => ({ id: d.id, ...(d.data() as any) }))),
+    (error: any) => {
+      if (String(error?.code || '') === 'permission-denied') {
+        if (!warnedPermissions) {
+          warnedPermissions = true;
+          console.warn('[subscribeCart] Firestore permission denied. Deploy firestore.rules (/users/{uid}/cart rule).');
+        }
+      } else {
+        console.error('subscribeCart error:', error);
+      }
+      cb([]);
+    }
+  );
+}
+
+function withoutUndefined(obj: object): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined));
+}
+
+/** Add a listing to the cart (one doc per listing; re-adding replaces the quantity). */
+export async function addToCart(userId: string, item: Omit<CartItemDoc, 'addedAt' | 'updatedAt'>) {
+  await setDoc(doc(db, 'users', userId, 'cart', item.listingId), {
+    ...withoutUndefined(item),
+    addedAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+}
+
+export async function updateCartItemQuantity(
+  userId: string,
+  listingId: string,
+  quantity: Pick<CartItemDoc, 'quantity' | 'quantityMale' | 'quantityFemale'>
+) {
+  await setDoc(
+    doc(db, 'users', userId, 'cart', listingId),
+    { ...withoutUndefined(quantity), updatedAt: serverTimestamp() },
+    { merge: true }
+  );
+}
+
+export async function removeCartItem(userId: string, listingId: string) {
+  await deleteDoc(doc(db, 'users', userId, 'cart', listingId));
+}
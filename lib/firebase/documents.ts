@@ -10,17 +10,14 @@ import {
   doc,
   getDoc,
   getDocs,
-  addDoc,
   updateDoc,
   deleteDoc,
   query,
   where,
   orderBy,
-  serverTimestamp,
-  Timestamp,
 } from 'firebase/firestore';
 import { db } from './config';
-import { ComplianceDocument, DocumentType, DocumentStatus } from '@/lib/types';
+import { ComplianceDocument, DocumentType } from '@/lib/types';
 
 /**
  * Upload a compliance document
@@ -37,95 +34,39 @@ export async function uploadDocument(params: {
   expiresAt?: Date;
   metadata?: Record<string, any>;
 }): Promise<string> {
-  const { entityType, entityId, type, documentUrl, uploadedBy, permitNumber, issuedBy, issuedAt, expiresAt, metadata } = params;
-
-  // Orders: use server route so compliance status is recomputed and allowlists are enforced centrally.
-  if (entityType === 'order') {
-    const { auth } = await import('./config');
-    const user = auth.currentUser;
-    if (!user) throw new Error('Authentication required');
-    const token = await user.getIdToken();
-
-    const res = await fetch(`/api/orders/${entityId}/documents/upload`, {
-      method: 'POST',
-      headers: {
-        'content-type': 'application/json',
-        authorization: `Bearer ${token}`,
-      },
-      body: JSON.stringify({
-        documentUrl,
-        type,
-        ...(permitNumber ? { permitNumber } : {}),
-        ...(issuedBy ? { issuedBy } : {}),
-        ...(issuedAt ? { issuedAt: issuedAt.toISOString() } : {}),
-        ...(expiresAt ? { expiresAt: expiresAt.toISOString() } : {}),
-        ...(metadata !== undefined ? { metadata } : {}),
-      }),
-    });
-    const json = await res.json().catch(() => ({}));
-    if (!res.ok) {
-      throw new Error(json?.message || json?.error || 'Failed to upload order document');
-    }
-    const id = String(json?.documentId || '');
-    if (!id) throw new Error('Upload succeeded but documentId missing');
-    return id;
-  }
-
-  console.log('uploadDocument called with:', {
-    entityType,
-    entityId,
-    type,
-    documentUrl,
-    uploadedBy,
-    permitNumber,
+  // `uploadedBy` is kept for callers; the server records the signed-in user from the ID token.
+  const { entityType, entityId, type, documentUrl, permitNumber, issuedBy, issuedAt, expiresAt, metadata } = params;
+
+  // Use the server routes: orders recompute compliance status and enforce allowlists centrally, and both
+  // propose permit/CVI fields from the uploaded file for admin review (lib/compliance/extraction).
+  const { auth } = await import('./config');
+  const user = auth.currentUser;
+  if (!user) throw new Error('Authentication required');
+  const token = await user.getIdToken();
+
+  const res = await fetch(`/api/${entityType}s/${entityId}/documents/upload`, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({
+      documentUrl,
+      type,
+      ...(permitNumber ? { permitNumber } : {}),
+      ...(issuedBy ? { issuedBy } : {}),
+      ...(issuedAt ? { issuedAt: issuedAt.toISOString() } : {}),
+      ...(expiresAt ? { expiresAt: expiresAt.toISOString() } : {}),
+      ...(metadata !== undefined && metadata !== null && Object.keys(metadata).length > 0 ? { metadata } : {}),
+    }),
   });
-
-  const documentsRef = collection(db, `${entityType}s`, entityId, 'documents');
-  
-  // Build document data, only including defined fields
-  const docData: Record<string, any> = {
-    type,
-    documentUrl,
-    status: 'uploaded' as DocumentStatus,
-    uploadedBy,
-    uploadedAt: serverTimestamp(),
-  };
-
-  // Only include optional fields if they are defined
-  if (permitNumber !== undefined && permitNumber !== null && permitNumber !== '') {
-    docData.permitNumber = permitNumber;
-  }
-  if (issuedBy !== undefined && issuedBy !== null && issuedBy !== '') {
-    docData.issuedBy = issuedBy;
-  }
-  if (issuedAt !== undefined && issuedAt !== null) {
-    docData.issuedAt = Timestamp.fromDate(issuedAt);
-  }
-  if (expiresAt !== undefined && expiresAt !== null) {
-    docData.expiresAt = Timestamp.fromDate(expiresAt);
-  }
-  if (metadata !== undefined && metadata !== null && Object.keys(metadata).length > 0) {
-    docData.metadata = metadata;
-  }
-
-  console.log('Creating Firestore document with data:', docData);
-
-  try {
-    const docRef = await addDoc(documentsRef, docData);
-
-    console.log('✅ Firestore document created successfully! ID:', docRef.id);
-    console.log('Document path:', `${entityType}s/${entityId}/documents/${docRef.id}`);
-    
-    return docRef.id;
-  } catch (error: any) {
-    console.error('❌ Error creating Firestore document:', error);
-    console.error('Error details:', {
-      message: error.message,
-      code: error.code,
-      stack: error.stack,
-    });
-    throw error;
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(json?.message || json?.error || `Failed to upload ${entityType} document`);
   }
+  const id = String(json?.documentId || '');
+  if (!id) throw new Error('Upload succeeded but documentId missing');
+  return id;
 }
 
 /**
@@ -159,6 +100,7 @@ export async function getDocuments(
       issuedAt: data.issuedAt?.toDate(),
       expiresAt: data.expiresAt?.toDate(),
       verifiedAt: data.verifiedAt?.toDate(),
+      ...(data.extraction ? { extraction: { ...data.extraction, extractedAt: data.extraction.extractedAt?.toDate?.() || new Date() } } : {}),
     } as ComplianceDocument;
   });
   
@@ -191,6 +133,7 @@ export async function getDocument(
     issuedAt: data.issuedAt?.toDate(),
     expiresAt: data.expiresAt?.toDate(),
     verifiedAt: data.verifiedAt?.toDate(),
+    ...(data.extraction ? { extraction: { ...data.extraction, extractedAt: data.extraction.extractedAt?.toDate?.() || new Date() } } : {}),
   } as ComplianceDocument;
 }
 
@@ -22,12 +22,16 @@ import {
 } from 'firebase/firestore';
 import { auth, db } from './config';
 import { getDocument } from './firestore';
-import { Listing, ListingStatus, ListingType, ListingCategory, ListingAttributes, UserProfile } from '@/lib/types';
+import { Listing, ListingStatus, ListingType, ListingCategory, ListingAttributes, ListingDepositTerms, ListingInstallmentPlan, UserProfile } from '@/lib/types';
 import { ListingDoc } from '@/lib/types/firestore';
 import { validateListingCompliance, requiresComplianceReview } from '@/lib/compliance/validation';
 import { getTierWeight } from '@/lib/pricing/subscriptions';
 import { normalizeCategory } from '@/lib/listings/normalizeCategory';
 import { normalizeListingForUI } from '@/lib/listings/duration';
+import { isValidBidIncrementLadder } from '@/lib/auctions/bidIncrements';
+import { validateListingDepositTerms } from '@/lib/pricing/deposit';
+import { validateListingInstallmentPlan } from '@/lib/pricing/installments';
+import { buildListingSearchTokens, LISTING_SEARCH_INDEX_VERSION } from '@/lib/search/listingSearchIndex';
 
 /**
  * Firestore does not allow `undefined` values anywhere in a document (including nested objects).
@@ -76,6 +80,8 @@ export interface CreateListingInput {
   startingBid?: number;
   reservePrice?: number;
   durationDays?: 1 | 3 | 5 | 7 | 10;
+  /** Requested go-live time; applied at approval (see lib/listings/scheduling.ts). `null` clears it. */
+  scheduledStartAt?: Date | null;
   images: string[];
   photoIds?: string[];
   photos?: Array<{
@@ -95,6 +101,15 @@ export interface CreateListingInput {
     zip?: string;
   };
   endsAt?: Date;
+  /** Optional per-listing soft-close override (auctions only; defaults in lib/auctions/softClose.ts). */
+  softClose?: {
+    enabled?: boolean;
+    windowMinutes?: number;
+    extendMinutes?: number;
+    maxExtensions?: number;
+  };
+  /** Optional per-listing bid increment ladder (auctions only; category ladders in lib/auctions/bidIncrements.ts). */
+  bidIncrementLadder?: Array<{ upToCents: number | null; incrementCents: number }>;
   featured?: boolean;
   featuredUntil?: Date;
   trust: {
@@ -135,6 +150,12 @@ export interface CreateListingInput {
     allowCounter: boolean;
     offerExpiryHours: number;
   };
+
+  // Deposit terms (fixed/auction); null/omitted = platform default
+  depositTerms?: ListingDepositTerms | null;
+
+  // Installment plan offered to buyers (fixed/auction); null/omitted = pay in full
+  installmentPlan?: ListingInstallmentPlan | null;
 }
 
 /**
@@ -350,6 +371,12 @@ export function toListing(doc: ListingDoc & { id: string }): Listing {
     subcategory: doc.subcategory,
     attributes, // Migrate old metadata to new attributes if needed + normalize whitetail dates
     endsAt: timestampToDate(doc.endsAt),
+    softClose: doc.softClose && typeof doc.softClose === 'object' ? { ...doc.softClose } : undefined,
+    softCloseExtensionCount: typeof doc.softCloseExtensionCount === 'number' ? doc.softCloseExtensionCount : undefined,
+    bidIncrementLadder: Array.isArray(doc.bidIncrementLadder) ? doc.bidIncrementLadder.map((t) => ({ ...t })) : undefined,
+    originalEndsAt: timestampToDate(doc.originalEndsAt),
+    lastExtendedAt: timestampToDate(doc.lastExtendedAt),
+    scheduledStartAt: timestampToDate((doc as any).scheduledStartAt),
     startAt: timestampToDate((doc as any).startAt),
     endAt: timestampToDate((doc as any).endAt),
     durationDays: typeof (doc as any).durationDays === 'number' ? ((doc as any).durationDays as any) : undefined,
@@ -382,6 +409,10 @@ export function toListing(doc: ListingDoc & { id: string }): Listing {
     transportOption: (doc as any).transportOption === 'SELLER_TRANSPORT' || (doc as any).transportOption === 'BUYER_TRANSPORT' ? (doc as any).transportOption : undefined,
     // Seller delivery details (radius, timeframe, notes) for SELLER_TRANSPORT
     deliveryDetails: (doc as any).deliveryDetails && typeof (doc as any).deliveryDetails === 'object' ? { ...(doc as any).deliveryDetails } : undefined,
+    geo:
+      doc.geo && typeof doc.geo.lat === 'number' && typeof doc.geo.lng === 'number'
+        ? { lat: doc.geo.lat, lng: doc.geo.lng, geohash: String(doc.geo.geohash || '') }
+        : undefined,
     // Protected Transaction fields
     protectedTransactionEnabled: doc.protectedTransactionEnabled,
     protectedTransactionDays: doc.protectedTransactionDays,
@@ -394,6 +425,7 @@ export function toListing(doc: ListingDoc & { id: string }): Listing {
     sellerAttestationAcceptedAt: timestampToDate(doc.sellerAttestationAcceptedAt),
     internalFlags: doc.internalFlags,
     internalFlagsNotes: doc.internalFlagsNotes,
+    animalIds: doc.animalIds,
 
     // Best Offer (optional)
     bestOfferEnabled: (doc as any).bestOfferEnabled ?? (doc as any).bestOfferSettings?.enabled,
@@ -401,6 +433,10 @@ export function toListing(doc: ListingDoc & { id: string }): Listing {
     bestOfferAutoAcceptPrice: (doc as any).bestOfferAutoAcceptPrice ?? (doc as any).bestOfferSettings?.autoAcceptPrice,
     bestOfferSettings: (doc as any).bestOfferSettings,
 
+    // Deposit terms (optional)
+    depositTerms: doc.depositTerms,
+    installmentPlan: doc.installmentPlan,
+
     // Offer reservation (server-only)
     offerReservedByOfferId: (doc as any).offerReservedByOfferId,
     offerReservedAt: timestampToDate((doc as any).offerReservedAt),
@@ -485,8 +521,12 @@ function toListingDocInput(
     ...(listingInput.reservePrice !== undefined && { reservePrice: listingInput.reservePrice }),
     // Duration fields (do NOT set startAt/endAt here; those are set server-side on publish)
     ...(listingInput.durationDays !== undefined && { durationDays: listingInput.durationDays as any }),
+    ...(listingInput.scheduledStartAt && { scheduledStartAt: Timestamp.fromDate(listingInput.scheduledStartAt) }),
     // Date fields (convert to Timestamp)
     ...(listingInput.endsAt && { endsAt: Timestamp.fromDate(listingInput.endsAt) }),
+    ...(listingInput.type === 'auction' && listingInput.softClose && { softClose: stripUndefinedDeep(listingInput.softClose) }),
+    ...(listingInput.type === 'auction' &&
+      isValidBidIncrementLadder(listingInput.bidIncrementLadder) && { bidIncrementLadder: listingInput.bidIncrementLadder }),
     ...(listingInput.featured && { featured: listingInput.featured }),
     ...(listingInput.featuredUntil && { featuredUntil: Timestamp.fromDate(listingInput.featuredUntil) }),
     // Protected Transaction fields
@@ -526,6 +566,9 @@ function toListingDocInput(
       bestOfferMinPrice: listingInput.bestOfferSettings.minPrice,
       bestOfferAutoAcceptPrice: listingInput.bestOfferSettings.autoAcceptPrice,
     }),
+
+    ...(listingInput.depositTerms && { depositTerms: listingInput.depositTerms }),
+    ...(listingInput.installmentPlan && { installmentPlan: listingInput.installmentPlan }),
   };
 }
 
@@ -584,6 +627,18 @@ export const createListingDraft = async (
       }
     }
 
+    if (listingInput.depositTerms) {
+      const deposit = validateListingDepositTerms(listingInput.depositTerms);
+      if (!deposit.ok) throw new Error(deposit.message);
+      listingInput = { ...listingInput, depositTerms: deposit.terms };
+    }
+
+    if (listingInput.installmentPlan) {
+      const installments = validateListingInstallmentPlan(listingInput.installmentPlan);
+      if (!installments.ok) throw new Error(installments.message);
+      listingInput = { ...listingInput, installmentPlan: installments.plan };
+    }
+
     // P0: Compliance validation
     validateListingCompliance(
       listingInput.category,
@@ -615,6 +670,8 @@ export const createListingDraft = async (
       ...listingData,
       status: 'draft' as ListingStatus,
       complianceStatus: complianceStatus as any,
+      searchTokens: buildListingSearchTokens(listingData),
+      searchIndexVersion: LISTING_SEARCH_INDEX_VERSION,
       createdBy: uid,
       updatedBy: uid,
       createdAt: serverTimestamp() as unknown as Timestamp, // Firestore will replace with server timestamp
@@ -758,9 +815,28 @@ export const updateListing = async (
       }
     }
 
+    // Deposit terms: null clears back to the platform default
+    let clearDepositTerms = false;
+    if (safeUpdates.depositTerms !== undefined) {
+      const deposit = validateListingDepositTerms(safeUpdates.depositTerms);
+      if (!deposit.ok) throw new Error(deposit.message);
+      clearDepositTerms = deposit.terms === null;
+      safeUpdates.depositTerms = deposit.terms ?? deleteField();
+    }
+    let clearInstallmentPlan = false;
+    if (safeUpdates.installmentPlan !== undefined) {
+      const installments = validateListingInstallmentPlan(safeUpdates.installmentPlan);
+      if (!installments.ok) throw new Error(installments.message);
+      clearInstallmentPlan = installments.plan === null;
+      safeUpdates.installmentPlan = installments.plan ?? deleteField();
+    }
+
     // Convert Date objects to Timestamps for Firestore
     const firestoreUpdates: any = {
       ...safeUpdates,
+      // Rebuild the search index from the merged doc (updates replace nested objects wholesale).
+      searchTokens: buildListingSearchTokens({ ...listingData, ...safeUpdates }),
+      searchIndexVersion: LISTING_SEARCH_INDEX_VERSION,
       updatedAt: serverTimestamp(),
       updatedBy: uid,
     };
@@ -792,6 +868,9 @@ export const updateListing = async (
     if (updates.featuredUntil) {
       firestoreUpdates.featuredUntil = Timestamp.fromDate(updates.featuredUntil);
     }
+    if (updates.scheduledStartAt !== undefined) {
+      firestoreUpdates.scheduledStartAt = updates.scheduledStartAt ? Timestamp.fromDate(updates.scheduledStartAt) : deleteField();
+    }
 
     // Remove undefined values recursively (nested objects like bestOfferSettings, location, etc.)
     const cleanedUpdates = stripUndefinedDeep(firestoreUpdates);
@@ -816,7 +895,14 @@ export const updateListing = async (
           'content-type': 'application/json',
           authorization: `Bearer ${token}`,
         },
-        body: JSON.stringify({ updates: cleanedUpdates }),
+        // deleteField() doesn't survive JSON; the route clears deposit terms / installment plan on null.
+        body: JSON.stringify({
+          updates: {
+            ...cleanedUpdates,
+            ...(clearDepositTerms ? { depositTerms: null } : {}),
+            ...(clearInstallmentPlan ? { installmentPlan: null } : {}),
+          },
+        }),
       });
       const json = await res.json().catch(() => ({}));
       if (!res.ok || json?.ok !== true) {
@@ -894,9 +980,9 @@ export const unpublishListing = async (uid: string, listingId: string): Promise<
       throw new Error('Unauthorized: You can only unpublish your own listings');
     }
 
-    // Only allow unpublishing active listings
-    if (listingData.status !== 'active') {
-      throw new Error('Only active listings can be unpublished');
+    // Only allow unpublishing active (or approved-but-not-started) listings
+    if (listingData.status !== 'active' && listingData.status !== 'scheduled') {
+      throw new Error('Only active or scheduled listings can be unpublished');
     }
 
     await updateDoc(listingRef, {
@@ -26,6 +26,7 @@ import { normalizeFirestoreValue, assertNoCorruptValuesAfterNormalization } from
 export interface OrderDoc {
   listingId: string;
   offerId?: string;
+  orderGroupId?: string;
   buyerId: string;
   sellerId: string;
   amount: number;
@@ -198,6 +199,7 @@ function toOrder(docId: string, data: OrderDoc): Order {
     id: docId,
     listingId: data.listingId,
     offerId: data.offerId,
+    ...(data.orderGroupId ? { orderGroupId: String(data.orderGroupId) } : {}),
     buyerId: data.buyerId,
     sellerId: data.sellerId,
     amount: data.amount,
@@ -266,6 +268,8 @@ function toOrder(docId: string, data: OrderDoc): Order {
     depositAmount: typeof (data as any).depositAmount === 'number' ? (data as any).depositAmount : undefined,
     finalPaymentAmount: typeof (data as any).finalPaymentAmount === 'number' ? (data as any).finalPaymentAmount : undefined,
     finalPaymentConfirmedAt: (data as any).finalPaymentConfirmedAt ? toDateSafe((data as any).finalPaymentConfirmedAt) : undefined,
+    salesTax: (data as any).salesTax && typeof (data as any).salesTax === 'object' ? (data as any).salesTax : undefined,
+    installmentPlan: (data as any).installmentPlan && typeof (data as any).installmentPlan === 'object' ? (data as any).installmentPlan : undefined,
     delivery: (data as any).delivery ? (() => {
       const d = (data as any).delivery;
       const mapWindow = (w: any) => ({
@@ -0,0 +1,83 @@
+/**
+ * Server-only geocoding for listing locations and buyer ZIPs (Google Geocoding REST API).
+ * Do not import in client bundles.
+ *
+ * Env: GOOGLE_MAPS_SERVER_KEY (Geocoding API enabled). Falls back to NEXT_PUBLIC_GOOGLE_MAPS_KEY.
+ * All failures return null — callers treat a missing point as "not geo-searchable", never as an error.
+ */
+
+import { encodeGeohash, isValidLatLng, LISTING_GEOHASH_PRECISION, type LatLng } from '@/lib/geo/geohash';
+
+const GEOCODE_TIMEOUT_MS = 5000;
+
+export type ListingGeo = LatLng & {
+  geohash: string;
+  /** What the point was derived from (ZIP centroid is more precise than a city centroid). */
+  source: 'zip' | 'city';
+};
+
+function getGeocodingKey(): string | null {
+  const key = process.env.GOOGLE_MAPS_SERVER_KEY?.trim() || process.env.NEXT_PUBLIC_GOOGLE_MAPS_KEY?.trim();
+  return key || null;
+}
+
+async function geocodeAddress(address: string): Promise<LatLng | null> {
+  const key = getGeocodingKey();
+  if (!key || !address.trim()) return null;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), GEOCODE_TIMEOUT_MS);
+  try {
+    const url =
+      'https://maps.googleapis.com/maps/api/geocode/json?' +
+      new URLSearchParams({ address, components: 'country:US', key }).toString();
+    const res = await fetch(url, { signal: controller.signal });
+    if (!res.ok) return null;
+    const data = await res.json().catch(() => null);
+    const loc = data?.status === 'OK' ? data?.results?.[0]?.geometry?.location : null;
+    const point = loc ? { lat: Number(loc.lat), lng: Number(loc.lng) } : null;
+    return isValidLatLng(point) ? point : null;
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+export function normalizeUsZip(zip: unknown): string | null {
+  const m = /^\s*(\d{5})(?:-\d{4})?\s*$/.exec(String(zip ?? ''));
+  return m ? m[1] : null;
+}
+
+/** Geocode a US ZIP code to its centroid. */
+export async function geocodeZip(zip: unknown): Promise<LatLng | null> {
+  const z = normalizeUsZip(zip);
+  return z ? geocodeAddress(z) : null;
+}
+
+/**
+ * Geocode a listing's `location` ({ city, state, zip? }). Prefers ZIP, falls back to "city, state".
+ */
+export async function geocodeListingLocation(location: { city?: string; state?: string; zip?: string } | null | undefined): Promise<ListingGeo | null> {
+  if (!location) return null;
+  const zip = normalizeUsZip(location.zip);
+  if (zip) {
+    const p = await geocodeAddress(`${zip}${location.state ? `, ${location.state}` : ''}`);
+    if (p) return { ...p, geohash: encodeGeohash(p.lat, p.lng, LISTING_GEOHASH_PRECISION), source: 'zip' };
+  }
+  const city = String(location.city || '').trim();
+  const state = String(location.state || '').trim();
+  if (!city || !state) return null;
+  const p = await geocodeAddress(`${city}, ${state}`);
+  return p ? { ...p, geohash: encodeGeohash(p.lat, p.lng, LISTING_GEOHASH_PRECISION), source: 'city' } : null;
+}
+
+/** True when an edit moves a listing's location enough to need a new geocode (ZIP, city or state changed). */
+export function listingLocationChanged(
+  prev: { city?: string; state?: string; zip?: string } | null | undefined,
+  next: { city?: string; state?: string; zip?: string } | null | undefined
+): boolean {
+  const key = (l: typeof prev) =>
+    [normalizeUsZip(l?.zip) || '', String(l?.city || '').trim().toLowerCase(), String(l?.state || '').trim().toUpperCase()].join('|');
+  return key(prev) !== key(next);
+}
@@ -0,0 +1,148 @@
+/**
+ * Geohash + distance helpers (pure; safe on client, server, and Netlify functions).
+ *
+ * Listings store `geo: { lat, lng, geohash }` (set at publish time from the listing's ZIP/city).
+ * Radius search queries `geo.geohash` prefix ranges that cover the circle, then drops false positives
+ * with an exact great-circle distance check.
+ */
+
+export type LatLng = { lat: number; lng: number };
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+const EARTH_RADIUS_MILES = 3958.8;
+const MILES_PER_DEGREE_LAT = 69.0;
+
+/** Precision stored on listing docs (~4.8m x 4.8m cells; queries only use shorter prefixes). */
+export const LISTING_GEOHASH_PRECISION = 9;
+
+/** Upper bound for "within X miles" filters (keeps the prefix cover small). */
+export const MAX_SEARCH_RADIUS_MILES = 500;
+
+export function isValidLatLng(v: unknown): v is LatLng {
+  const p = v as LatLng;
+  return (
+    !!p &&
+    typeof p.lat === 'number' &&
+    typeof p.lng === 'number' &&
+    Number.isFinite(p.lat) &&
+    Number.isFinite(p.lng) &&
+    Math.abs(p.lat) <= 90 &&
+    Math.abs(p.lng) <= 180
+  );
+}
+
+export function encodeGeohash(lat: number, lng: number, precision: number = LISTING_GEOHASH_PRECISION): string {
+  let latMin = -90;
+  let latMax = 90;
+  let lngMin = -180;
+  let lngMax = 180;
+  let hash = '';
+  let bit = 0;
+  let ch = 0;
+  let evenBit = true; // longitude first
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (lngMin + lngMax) / 2;
+      if (lng >= mid) {
+        ch = (ch << 1) | 1;
+        lngMin = mid;
+      } else {
+        ch = ch << 1;
+        lngMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (lat >= mid) {
+        ch = (ch << 1) | 1;
+        latMin = mid;
+      } else {
+        ch = ch << 1;
+        latMax = mid;
+      }
+    }
+    evenBit = !evenBit;
+    if (++bit === 5) {
+      hash += BASE32[ch];
+      bit = 0;
+      ch = 0;
+    }
+  }
+  return hash;
+}
+
+/** Great-circle distance in miles (haversine). */
+export function distanceMiles(a: LatLng, b: LatLng): number {
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+function cellSizeDegrees(precision: number): { latDeg: number; lngDeg: number } {
+  const bits = precision * 5;
+  const lngBits = Math.ceil(bits / 2);
+  const latBits = Math.floor(bits / 2);
+  return { latDeg: 180 / 2 ** latBits, lngDeg: 360 / 2 ** lngBits };
+}
+
+/**
+ * Geohash prefix ranges (`[start, end]` for `startAt`/`endAt` on `geo.geohash`) whose union covers
+ * a circle of `radiusMiles` around `center`.
+ *
+ * Picks the longest prefix whose cell is at least as large as the radius in both directions, then
+ * takes that cell plus its 8 neighbors — a 3x3 block always contains the circle.
+ */
+export function geohashQueryBounds(center: LatLng, radiusMiles: number): Array<[string, string]> {
+  const radius = Math.max(0.1, Math.min(MAX_SEARCH_RADIUS_MILES, radiusMiles));
+  const cosLat = Math.max(0.01, Math.cos((center.lat * Math.PI) / 180));
+
+  let precision = 1;
+  for (let p = LISTING_GEOHASH_PRECISION; p >= 1; p--) {
+    const { latDeg, lngDeg } = cellSizeDegrees(p);
+    if (latDeg * MILES_PER_DEGREE_LAT >= radius && lngDeg * MILES_PER_DEGREE_LAT * cosLat >= radius) {
+      precision = p;
+      break;
+    }
+  }
+
+  const { latDeg, lngDeg } = cellSizeDegrees(precision);
+  const prefixes = new Set<string>();
+  for (const dy of [-1, 0, 1]) {
+    for (const dx of [-1, 0, 1]) {
+      const lat = Math.max(-89.999999, Math.min(89.999999, center.lat + dy * latDeg));
+      let lng = center.lng + dx * lngDeg;
+      if (lng > 180) lng -= 360;
+      if (lng < -180) lng += 360;
+      prefixes.add(encodeGeohash(lat, lng, precision));
+    }
+  }
+  return Array.from(prefixes)
+    .sort()
+    .map((p) => [p, `${p}~`] as [string, string]);
+}
+
+/** "12 mi" / "< 1 mi" label for cards. */
+export function formatDistanceMiles(miles: number | null | undefined): string | null {
+  if (typeof miles !== 'number' || !Number.isFinite(miles) || miles < 0) return null;
+  if (miles < 1) return '< 1 mi';
+  return `${Math.round(miles).toLocaleString()} mi`;
+}
+
+/**
+ * True when a seller who delivers up to `maxDeliveryRadiusMiles` from `listingGeo` can reach `buyer`.
+ * Listings without coordinates or a declared radius never match.
+ */
+export function sellerDeliversTo(params: {
+  listingGeo: LatLng | null | undefined;
+  maxDeliveryRadiusMiles: number | null | undefined;
+  buyer: LatLng | null | undefined;
+}): boolean {
+  const { listingGeo, maxDeliveryRadiusMiles, buyer } = params;
+  if (!isValidLatLng(listingGeo) || !isValidLatLng(buyer)) return false;
+  if (typeof maxDeliveryRadiusMiles !== 'number' || !Number.isFinite(maxDeliveryRadiusMiles) || maxDeliveryRadiusMiles <= 0) {
+    return false;
+  }
+  return distanceMiles(listingGeo, buyer) <= maxDeliveryRadiusMiles;
+}
@@ -23,6 +23,7 @@ export function getEffectiveListingStatus(
   if (normalized.status === 'expired') return 'expired';
   if (normalized.status === 'draft') return 'draft';
   if (normalized.status === 'pending') return 'pending';
+  if (normalized.status === 'scheduled') return 'scheduled';
   if (normalized.status === 'removed') return 'removed';
 
   // Back-compat: if a soldAt exists but status didn't get flipped, treat as sold.
@@ -0,0 +1,51 @@
+/**
+ * Scheduled listing starts (pure; safe on client, server, and Netlify functions).
+ *
+ * Sellers may request a future go-live time (`scheduledStartAt`). Approval resolves it:
+ * - still in the future -> `status: 'scheduled'`, `startAt = scheduledStartAt` (activated later by
+ *   netlify/functions/activateScheduledListings.ts)
+ * - missing or already passed -> `status: 'active'`, `startAt = now`
+ * Either way `endAt = startAt + durationDays`, so an auction scheduled for Friday 7pm runs its full duration.
+ */
+
+import type { ListingDurationDays } from '@/lib/types';
+import { coerceDurationDays, computeEndAt, toMillisSafe } from '@/lib/listings/duration';
+
+/** Earliest schedule accepted at submit time (leaves room for review + the 5-minute activation job). */
+export const MIN_SCHEDULE_LEAD_MS = 15 * 60 * 1000;
+export const MAX_SCHEDULE_AHEAD_DAYS = 30;
+/** Approvals within this window of the requested time go live immediately instead of scheduling. */
+const SCHEDULE_GRACE_MS = 60 * 1000;
+
+/** Returns a user-facing error when `scheduledStartAtMs` can't be accepted, else null. */
+export function validateScheduledStartAt(scheduledStartAtMs: number, nowMs: number = Date.now()): string | null {
+  if (!Number.isFinite(scheduledStartAtMs)) return 'Scheduled start time is invalid.';
+  if (scheduledStartAtMs < nowMs + MIN_SCHEDULE_LEAD_MS) return 'Scheduled start must be at least 15 minutes from now.';
+  if (scheduledStartAtMs > nowMs + MAX_SCHEDULE_AHEAD_DAYS * 24 * 60 * 60 * 1000) {
+    return `Scheduled start must be within ${MAX_SCHEDULE_AHEAD_DAYS} days.`;
+  }
+  return null;
+}
+
+export type GoLivePlan = {
+  status: 'scheduled' | 'active';
+  startAtMs: number;
+  endAtMs: number;
+  durationDays: ListingDurationDays;
+};
+
+/** Decide how an approved listing goes live (see module doc). */
+export function resolveGoLive(listing: { scheduledStartAt?: unknown; durationDays?: unknown }, nowMs: number): GoLivePlan {
+  const durationDays = coerceDurationDays(listing?.durationDays, 7);
+  const requestedMs = toMillisSafe(listing?.scheduledStartAt);
+  const scheduled = typeof requestedMs === 'number' && requestedMs > nowMs + SCHEDULE_GRACE_MS;
+  const startAtMs = scheduled ? (requestedMs as number) : nowMs;
+  return { status: scheduled ? 'scheduled' : 'active', startAtMs, endAtMs: computeEndAt(startAtMs, durationDays), durationDays };
+}
+
+/** True when a scheduled listing's start time has arrived. */
+export function isScheduledStartDue(listing: { status?: unknown; startAt?: unknown }, nowMs: number): boolean {
+  if (listing?.status !== 'scheduled') return false;
+  const startMs = toMillisSafe(listing?.startAt);
+  return typeof startMs === 'number' && startMs <= nowMs;
+}
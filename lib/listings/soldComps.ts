@@ -0,0 +1,170 @@
+/**
+ * Sold comps (price discovery) — pure helpers shared by `/api/listings/comps` and the new-listing flow.
+ *
+ * Comps are matched server-side by category + state (+ speciesId or breed), then tightened in memory by
+ * sex and age bucket when enough comps survive. Pricing guidance is derived from the p25/median/p75 band.
+ */
+
+import { getCategoryAttributeFacets, getListingFacetValue } from '@/lib/search/categoryFacets';
+
+/** Minimum comps before we publish stats (and before sex/age tightening is kept). */
+export const MIN_COMPS_FOR_STATS = 3;
+
+export type SoldCompsStats = {
+  count: number;
+  medianCents: number;
+  p25Cents: number;
+  p75Cents: number;
+};
+
+/** Draft (pre-publish) comps criteria; mirrors what `/api/listings/comps` derives from an existing listing. */
+export type SoldCompsCriteria = {
+  category: string;
+  state: string;
+  speciesId?: string | null;
+  breed?: string | null;
+  sex?: string | null;
+  age?: number | string | null;
+};
+
+export function percentile(sorted: number[], p: number): number | null {
+  if (!sorted.length) return null;
+  const idx = (sorted.length - 1) * p;
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  if (lo === hi) return sorted[lo] ?? null;
+  const a = sorted[lo] ?? 0;
+  const b = sorted[hi] ?? 0;
+  const t = idx - lo;
+  return Math.round(a + (b - a) * t);
+}
+
+export function computeSoldCompsStats(pricesCents: number[]): SoldCompsStats | undefined {
+  const prices = pricesCents.filter((n) => Number.isFinite(n) && n > 0).sort((a, b) => a - b);
+  if (prices.length < MIN_COMPS_FOR_STATS) return undefined;
+  return {
+    count: prices.length,
+    medianCents: percentile(prices, 0.5) as number,
+    p25Cents: percentile(prices, 0.25) as number,
+    p75Cents: percentile(prices, 0.75) as number,
+  };
+}
+
+function ageBucket(category: string, attributes: any): string | null {
+  const def = getCategoryAttributeFacets(category).find((d) => d.field === 'age');
+  if (!def) return null;
+  return getListingFacetValue({ category, attributes }, def);
+}
+
+/**
+ * Narrow comps to the same sex and age bucket as `criteria`, one dimension at a time, keeping a narrowing
+ * only when at least `MIN_COMPS_FOR_STATS` comps remain. Returns the comps plus which dimensions were applied.
+ */
+export function refineCompsByAttributes<T extends { attributes?: any }>(
+  comps: T[],
+  criteria: Pick<SoldCompsCriteria, 'category' | 'sex' | 'age'>
+): { comps: T[]; refinedBy: Array<'sex' | 'age'> } {
+  let out = comps;
+  const refinedBy: Array<'sex' | 'age'> = [];
+
+  const sex = String(criteria.sex || '').trim().toLowerCase();
+  if (sex && sex !== 'unknown') {
+    const bySex = out.filter((c) => String(c.attributes?.sex || '').toLowerCase() === sex);
+    if (bySex.length >= MIN_COMPS_FOR_STATS) {
+      out = bySex;
+      refinedBy.push('sex');
+    }
+  }
+
+  const bucket = criteria.age != null && criteria.age !== '' ? ageBucket(criteria.category, { age: criteria.age }) : null;
+  if (bucket) {
+    const byAge = out.filter((c) => ageBucket(criteria.category, c.attributes) === bucket);
+    if (byAge.length >= MIN_COMPS_FOR_STATS) {
+      out = byAge;
+      refinedBy.push('age');
+    }
+  }
+
+  return { comps: out, refinedBy };
+}
+
+export type PriceGuidanceWarning = {
+  field: 'price' | 'startingBid' | 'reservePrice';
+  message: string;
+};
+
+export type PriceGuidance = {
+  /** Typical sale range (p25–p75) and median, in whole dollars. */
+  band: { lowUsd: number; medianUsd: number; highUsd: number };
+  suggestedPriceUsd: number;
+  suggestedStartingBidUsd: number;
+  suggestedReserveUsd: number;
+  warnings: PriceGuidanceWarning[];
+};
+
+/** Asking price below this fraction of p25, or above this multiple of p75, is "far outside" the comps. */
+const FAR_BELOW_RATIO = 0.5;
+const FAR_ABOVE_RATIO = 1.5;
+/** Auctions: suggested starting bid as a fraction of p25 (low enough to draw bidders). */
+const STARTING_BID_RATIO = 0.6;
+
+function roundPrice(usd: number): number {
+  if (usd >= 10_000) return Math.round(usd / 500) * 500;
+  if (usd >= 1_000) return Math.round(usd / 50) * 50;
+  if (usd >= 100) return Math.round(usd / 5) * 5;
+  return Math.max(1, Math.round(usd));
+}
+
+function usd(n: number): string {
+  return `$${Math.round(n).toLocaleString()}`;
+}
+
+/**
+ * Suggested price band + starting bid/reserve for a draft, with warnings when the entered price is far
+ * outside the comp range. Entered amounts are whole dollars (same units as the listing form).
+ */
+export function getPriceGuidance(
+  stats: SoldCompsStats,
+  entered: { type: 'auction' | 'fixed' | 'classified' | '' | null | undefined; priceUsd?: number | null; startingBidUsd?: number | null; reservePriceUsd?: number | null }
+): PriceGuidance {
+  const lowUsd = stats.p25Cents / 100;
+  const medianUsd = stats.medianCents / 100;
+  const highUsd = stats.p75Cents / 100;
+  const warnings: PriceGuidanceWarning[] = [];
+  const positive = (n: number | null | undefined): n is number => typeof n === 'number' && Number.isFinite(n) && n > 0;
+
+  if (entered.type === 'auction') {
+    if (positive(entered.startingBidUsd) && entered.startingBidUsd > highUsd) {
+      warnings.push({
+        field: 'startingBid',
+        message: `Starting bid is above most recent sales (${usd(lowUsd)}–${usd(highUsd)}). A lower start usually draws more bidders.`,
+      });
+    }
+    if (positive(entered.reservePriceUsd) && entered.reservePriceUsd > highUsd * FAR_ABOVE_RATIO) {
+      warnings.push({
+        field: 'reservePrice',
+        message: `Reserve is well above similar sales (median ${usd(medianUsd)}). The auction may end without meeting it.`,
+      });
+    }
+  } else if (positive(entered.priceUsd)) {
+    if (entered.priceUsd > highUsd * FAR_ABOVE_RATIO) {
+      warnings.push({
+        field: 'price',
+        message: `Price is far above similar sales (${usd(lowUsd)}–${usd(highUsd)}). Buyers may pass unless the listing explains the premium.`,
+      });
+    } else if (entered.priceUsd < lowUsd * FAR_BELOW_RATIO) {
+      warnings.push({
+        field: 'price',
+        message: `Price is far below similar sales (${usd(lowUsd)}–${usd(highUsd)}). Double-check the amount before publishing.`,
+      });
+    }
+  }
+
+  return {
+    band: { lowUsd, medianUsd, highUsd },
+    suggestedPriceUsd: roundPrice(medianUsd),
+    suggestedStartingBidUsd: roundPrice(lowUsd * STARTING_BID_RATIO),
+    suggestedReserveUsd: roundPrice(lowUsd),
+    warnings,
+  };
+}
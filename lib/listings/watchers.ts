@@ -0,0 +1,37 @@
+import type { Firestore } from 'firebase-admin/firestore';
+import { logWarn } from '@/lib/monitoring/logger';
+
+function extractUserIdFromWatchlistPath(path: string): string | null {
+  // users/{uid}/watchlist/{listingId}
+  const parts = path.split('/');
+  const usersIdx = parts.indexOf('users');
+  if (usersIdx >= 0 && parts.length > usersIdx + 1) return parts[usersIdx + 1] || null;
+  return null;
+}
+
+/**
+ * Load watcher UIDs for a listing (server-only).
+ *
+ * Prefers the indexed `listings/{listingId}/watchers` subcollection; falls back to a
+ * collectionGroup scan of `users/{uid}/watchlist` for legacy installs.
+ * Never throws: on schema/index issues we log and return an empty list.
+ */
+export async function listListingWatcherIds(db: Firestore, listingId: string): Promise<string[]> {
+  try {
+    const watchersIndexSnap = await db.collection('listings').doc(listingId).collection('watchers').get();
+    const ids = watchersIndexSnap.docs.map((d) => d.id);
+    if (ids.length > 0) return ids;
+
+    const watchersSnap = await db.collectionGroup('watchlist').where('listingId', '==', listingId).get();
+    const legacyIds = watchersSnap.docs
+      .map((d) => extractUserIdFromWatchlistPath(d.ref.path))
+      .filter(Boolean) as string[];
+    if (legacyIds.length > 0) {
+      logWarn('listListingWatcherIds: using legacy collectionGroup watchlist scan (scale warning)', { listingId });
+    }
+    return legacyIds;
+  } catch (e: any) {
+    logWarn('listListingWatcherIds: failed to load watchers', { listingId, error: String(e?.message || e) });
+    return [];
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Market-price index (pure; safe on client and server).
+ *
+ * A "market" is one species or breed (`/market/axis-deer`, `/market/angus`) mapped onto the listing
+ * attribute that identifies it. Reports are computed from sold listings (`soldPriceCents`, `soldAt`,
+ * `saleType`) over trailing 30/90/365-day windows.
+ */
+
+import type { ListingCategory } from '@/lib/types';
+import { CATTLE_BREED_OPTIONS } from '@/lib/taxonomy/cattle-breeds';
+import { DOG_BREED_OPTIONS } from '@/lib/taxonomy/dog-breeds';
+import { EXOTIC_SPECIES_OPTIONS } from '@/lib/taxonomy/exotic-species';
+import { FARM_ANIMAL_SPECIES_OPTIONS } from '@/lib/taxonomy/farm-animal-species';
+import { percentile } from '@/lib/listings/soldComps';
+import { toMillisSafe } from '@/lib/listings/duration';
+
+export const MARKET_WINDOWS_DAYS = [30, 90, 365] as const;
+export type MarketWindowDays = (typeof MARKET_WINDOWS_DAYS)[number];
+
+/** Markets with fewer sales in the trailing year are not listed in the sitemap / index page. */
+export const MIN_SALES_FOR_MARKET_INDEX = 3;
+
+export type MarketDef = {
+  slug: string;
+  label: string;
+  category: ListingCategory;
+  /** Attribute that identifies the market; `null` = whole category (e.g. whitetail). */
+  field: 'speciesId' | 'breed' | null;
+  value: string | null;
+};
+
+export type MarketSale = {
+  soldAtMs: number;
+  priceCents: number;
+  /** `auction` vs everything else (buy now, accepted offer, classified). */
+  channel: 'auction' | 'fixed';
+  state: string | null;
+};
+
+export type MarketWindowStats = {
+  days: MarketWindowDays;
+  count: number;
+  medianCents: number | null;
+  p25Cents: number | null;
+  p75Cents: number | null;
+  auctionCount: number;
+  fixedCount: number;
+};
+
+export type MarketSeriesPoint = { month: string; count: number; medianUsd: number | null };
+export type MarketRegionRow = { state: string; count: number; medianCents: number | null };
+
+export type MarketReport = {
+  windows: MarketWindowStats[];
+  /** Monthly median price + volume over the trailing 365 days (oldest first). */
+  series: MarketSeriesPoint[];
+  /** Trailing-365 breakdown by state, most sales first. */
+  regions: MarketRegionRow[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/** "Aoudad (Barbary Sheep)" -> "aoudad"; parentheticals are dropped unless needed to disambiguate. */
+export function marketSlugFromLabel(label: string): string {
+  return slugify(label.replace(/\(.*?\)/g, ' '));
+}
+
+type MarketDefInput = Omit<MarketDef, 'slug' | 'label'> & { fullLabel: string };
+
+function buildMarketDefs(): MarketDef[] {
+  const inputs: MarketDefInput[] = [
+    { fullLabel: 'Whitetail Deer', category: 'whitetail_breeder', field: null, value: null },
+  ];
+  const add = (category: ListingCategory, field: 'speciesId' | 'breed', options: Array<{ value: string; label: string }>) => {
+    for (const o of options) {
+      if (!o.value || o.value.startsWith('other')) continue;
+      inputs.push({ fullLabel: o.label, category, field, value: o.value });
+    }
+  };
+  add('wildlife_exotics', 'speciesId', EXOTIC_SPECIES_OPTIONS);
+  add('cattle_livestock', 'breed', CATTLE_BREED_OPTIONS);
+  add('farm_animals', 'speciesId', FARM_ANIMAL_SPECIES_OPTIONS);
+  add('sporting_working_dogs', 'breed', DOG_BREED_OPTIONS);
+
+  const shortCounts = new Map<string, number>();
+  for (const i of inputs) {
+    const short = marketSlugFromLabel(i.fullLabel);
+    shortCounts.set(short, (shortCounts.get(short) || 0) + 1);
+  }
+
+  const seen = new Set<string>();
+  return inputs.map(({ fullLabel, ...rest }) => {
+    const short = marketSlugFromLabel(fullLabel);
+    const ambiguous = (shortCounts.get(short) || 0) > 1;
+    // e.g. "Kudu (Greater)" / "Kudu (Lesser)" keep the qualifier.
+    let slug = ambiguous ? slugify(fullLabel) : short;
+    // Same label in two categories (rare): append the category.
+    if (seen.has(slug)) slug = `${slug}-${rest.category.replace(/_/g, '-')}`;
+    seen.add(slug);
+    const label = ambiguous ? fullLabel : fullLabel.replace(/\s*\(.*?\)\s*/g, ' ').trim();
+    return { slug, label, ...rest };
+  });
+}
+
+export const MARKET_DEFS: MarketDef[] = buildMarketDefs();
+const MARKET_BY_SLUG = new Map(MARKET_DEFS.map((d) => [d.slug, d]));
+
+export function getMarketDef(slug: string | null | undefined): MarketDef | null {
+  return MARKET_BY_SLUG.get(String(slug || '').toLowerCase()) || null;
+}
+
+/** The market a listing belongs to, if any. */
+export function getMarketForListing(listing: { category?: unknown; attributes?: any }): MarketDef | null {
+  const category = String(listing?.category || '');
+  const attrs = listing?.attributes || {};
+  return (
+    MARKET_DEFS.find((d) => d.category === category && (d.field === null || String(attrs[d.field] || '') === d.value)) || null
+  );
+}
+
+/** Normalize a sold listing doc into a sale row; `null` when price/date are missing. */
+export function toMarketSale(doc: any): MarketSale | null {
+  const soldAtMs = toMillisSafe(doc?.soldAt);
+  const priceCents = typeof doc?.soldPriceCents === 'number' ? Math.round(doc.soldPriceCents) : NaN;
+  if (!soldAtMs || !Number.isFinite(priceCents) || priceCents <= 0) return null;
+  const saleType = doc?.saleType ?? (doc?.type === 'auction' ? 'auction' : null);
+  const state = typeof doc?.location?.state === 'string' && doc.location.state.trim() ? doc.location.state.trim().toUpperCase() : null;
+  return { soldAtMs, priceCents, channel: saleType === 'auction' ? 'auction' : 'fixed', state };
+}
+
+function sortedPrices(sales: MarketSale[]): number[] {
+  return sales.map((s) => s.priceCents).sort((a, b) => a - b);
+}
+
+function monthKey(ms: number): string {
+  const d = new Date(ms);
+  return `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+export function computeMarketReport(sales: MarketSale[], nowMs: number, opts?: { state?: string | null }): MarketReport {
+  const state = opts?.state ? opts.state.toUpperCase() : null;
+  const yearSales = sales.filter((s) => s.soldAtMs <= nowMs && nowMs - s.soldAtMs <= 365 * DAY_MS);
+  const scoped = state ? yearSales.filter((s) => s.state === state) : yearSales;
+
+  const windows = MARKET_WINDOWS_DAYS.map((days): MarketWindowStats => {
+    const inWindow = scoped.filter((s) => nowMs - s.soldAtMs <= days * DAY_MS);
+    const prices = sortedPrices(inWindow);
+    const auctionCount = inWindow.filter((s) => s.channel === 'auction').length;
+    return {
+      days,
+      count: inWindow.length,
+      medianCents: percentile(prices, 0.5),
+      p25Cents: percentile(prices, 0.25),
+      p75Cents: percentile(prices, 0.75),
+      auctionCount,
+      fixedCount: inWindow.length - auctionCount,
+    };
+  });
+
+  const byMonth = new Map<string, MarketSale[]>();
+  const now = new Date(nowMs);
+  for (let i = 11; i >= 0; i--) {
+    byMonth.set(monthKey(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1)), []);
+  }
+  for (const s of scoped) byMonth.get(monthKey(s.soldAtMs))?.push(s);
+  const series = Array.from(byMonth.entries()).map(([month, rows]) => {
+    const median = percentile(sortedPrices(rows), 0.5);
+    return { month, count: rows.length, medianUsd: median === null ? null : Math.round(median / 100) };
+  });
+
+  // Regions always reflect the whole market so the state table can link between states.
+  const byState = new Map<string, MarketSale[]>();
+  for (const s of yearSales) {
+    if (!s.state) continue;
+    const rows = byState.get(s.state) || [];
+    rows.push(s);
+    byState.set(s.state, rows);
+  }
+  const regions = Array.from(byState.entries())
+    .map(([st, rows]) => ({ state: st, count: rows.length, medianCents: percentile(sortedPrices(rows), 0.5) }))
+    .sort((a, b) => b.count - a.count || a.state.localeCompare(b.state));
+
+  return { windows, series, regions };
+}
@@ -12,6 +12,7 @@ export const ACTION_REQUIRED_TYPES = new Set([
   'order_delivery_address_set',
   'order_delivery_scheduled',
   'order_final_payment_due',
+  'order_installment_due',
 ]);
 
 export interface ActionItemNotification {
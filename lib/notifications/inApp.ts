@@ -48,6 +48,18 @@ export function buildInAppNotification(params: {
   };
 
   switch (params.eventType) {
+    case 'Auction.WatchStarted': {
+      const p = params.payload as Extract<NotificationEventPayload, { type: 'Auction.WatchStarted' }>;
+      return {
+        ...base,
+        type: 'watched_listing_live',
+        title: 'Now live',
+        body: `“${p.listingTitle}” on your watchlist is now live.`,
+        deepLinkUrl: p.listingUrl,
+        linkLabel: 'View listing',
+        metadata: { endsAt: p.endsAt },
+      };
+    }
     case 'Auction.Outbid': {
       const p = params.payload as Extract<NotificationEventPayload, { type: 'Auction.Outbid' }>;
       return {
@@ -93,6 +105,23 @@ export function buildInAppNotification(params: {
         metadata: { threshold: p.threshold, endsAt: p.endsAt, currentBidAmount: p.currentBidAmount },
       };
     }
+    case 'Auction.Extended': {
+      const p = params.payload as Extract<NotificationEventPayload, { type: 'Auction.Extended' }>;
+      return {
+        ...base,
+        type: 'auction_extended',
+        title: 'Auction extended',
+        body: `A late bid extended “${p.listingTitle}”. It now ends ${new Date(p.endsAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: 'America/Chicago' })} CT.`,
+        deepLinkUrl: p.listingUrl,
+        linkLabel: 'View auction',
+        metadata: {
+          endsAt: p.endsAt,
+          previousEndsAt: p.previousEndsAt,
+          extensionCount: p.extensionCount,
+          currentBidAmount: p.currentBidAmount,
+        },
+      };
+    }
     case 'Auction.Won': {
       const p = params.payload as Extract<NotificationEventPayload, { type: 'Auction.Won' }>;
       return {
@@ -117,13 +146,42 @@ export function buildInAppNotification(params: {
         metadata: { finalBidAmount: p.finalBidAmount },
       };
     }
+    case 'Auction.SecondChanceAvailable': {
+      const p = params.payload as Extract<NotificationEventPayload, { type: 'Auction.SecondChanceAvailable' }>;
+      return {
+        ...base,
+        type: 'auction_second_chance_available',
+        title: p.reason === 'winner_unpaid' ? 'Winner didn’t pay' : 'Reserve not met',
+        body:
+          p.reason === 'winner_unpaid'
+            ? `The winner of “${p.listingTitle}” didn’t pay. Send a second-chance offer to the runner-up before it relists.`
+            : `“${p.listingTitle}” ended below your reserve. You can send a second-chance offer to a bidder.`,
+        deepLinkUrl: p.manageUrl,
+        linkLabel: 'Send offer',
+        metadata: { listingId: p.listingId, reason: p.reason, topBidAmount: p.topBidAmount, deadlineAt: p.deadlineAt || null },
+      };
+    }
+    case 'Auction.SecondChanceOffered': {
+      const p = params.payload as Extract<NotificationEventPayload, { type: 'Auction.SecondChanceOffered' }>;
+      return {
+        ...base,
+        type: 'auction_second_chance_offer',
+        title: 'Second-chance offer',
+        body: `The seller offered you “${p.listingTitle}” for $${Number(p.amount).toLocaleString()}.`,
+        deepLinkUrl: p.offerUrl,
+        linkLabel: 'Review offer',
+        metadata: { listingId: p.listingId, offerId: p.offerId, amount: p.amount, expiresAt: p.expiresAt || null },
+      };
+    }
     case 'Listing.Approved': {
       const p = params.payload as Extract<NotificationEventPayload, { type: 'Listing.Approved' }>;
       return {
         ...base,
         type: 'listing_approved',
         title: 'Listing approved',
-        body: `Your listing “${p.listingTitle}” is now live.`,
+        body: p.startsAt
+          ? `Your listing “${p.listingTitle}” is approved and goes live ${new Date(p.startsAt).toLocaleString()}.`
+          : `Your listing “${p.listingTitle}” is now live.`,
         deepLinkUrl: p.listingUrl,
         linkLabel: 'View listing',
       };
@@ -167,6 +225,33 @@ export function buildInAppNotification(params: {
         metadata: { complianceStatus: 'rejected', reason: p.reason },
       };
     }
+    case 'Compliance.DocumentExpiring': {
+      const p = params.payload as Extract<NotificationEventPayload, { type: 'Compliance.DocumentExpiring' }>;
+      const expires = new Date(p.expiresAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+      return {
+        ...base,
+        type: 'compliance_document_expiring',
+        title: `${p.documentLabel} expires in ${p.daysRemaining} day${p.daysRemaining === 1 ? '' : 's'}`,
+        body: `Your ${p.documentLabel}${p.listingTitle ? ` for "${p.listingTitle}"` : ''} expires ${expires}. Upload the renewed copy to avoid interruptions.`,
+        deepLinkUrl: p.actionUrl,
+        linkLabel: 'Upload renewal',
+        metadata: { documentType: p.documentType, expiresAt: p.expiresAt, ...(p.orderId ? { orderId: p.orderId } : {}) },
+      };
+    }
+    case 'Compliance.DocumentExpired': {
+      const p = params.payload as Extract<NotificationEventPayload, { type: 'Compliance.DocumentExpired' }>;
+      return {
+        ...base,
+        type: 'compliance_document_expired',
+        title: `${p.documentLabel} expired`,
+        body: p.badgeRemoved
+          ? `Your ${p.documentLabel} has expired. Your permit badge was removed and whitetail breeder listings can’t be published until a renewed permit is verified.`
+          : `Your ${p.documentLabel}${p.listingTitle ? ` for "${p.listingTitle}"` : ''} has expired. Upload a renewed copy.`,
+        deepLinkUrl: p.actionUrl,
+        linkLabel: 'Upload renewal',
+        metadata: { documentType: p.documentType, expiresAt: p.expiresAt, ...(p.orderId ? { orderId: p.orderId } : {}) },
+      };
+    }
     case 'Order.Confirmed': {
       const p = params.payload as Extract<NotificationEventPayload, { type: 'Order.Confirmed' }>;
       return {
@@ -339,10 +424,65 @@ export function buildInAppNotification(params: {
         ...base,
         type: 'order_final_payment_due',
         title: 'Action: Pay remaining balance',
-        body: `Pay your remaining balance for "${p.listingTitle}" to complete the transaction. Balance due: $${Number(p.amount).toFixed(2)}.`,
+        body: p.dueAt
+          ? `Your remaining balance of $${Number(p.amount).toFixed(2)} for "${p.listingTitle}" is due by ${new Date(p.dueAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}.`
+          : `Pay your remaining balance for "${p.listingTitle}" to complete the transaction. Balance due: $${Number(p.amount).toFixed(2)}.`,
         deepLinkUrl: p.orderUrl,
         linkLabel: 'Pay now',
-        metadata: { listingId: p.listingId, orderId: p.orderId },
+        metadata: { listingId: p.listingId, orderId: p.orderId, ...(p.dueAt ? { dueAt: p.dueAt } : {}) },
+      };
+    }
+    case 'Order.DepositExpired': {
+      const p = params.payload as Extract<NotificationEventPayload, { type: 'Order.DepositExpired' }>;
+      const deposit = `$${Number(p.depositAmount).toLocaleString()}`;
+      return {
+        ...base,
+        type: 'order_deposit_expired',
+        title: 'Order cancelled: balance not paid',
+        body:
+          p.role === 'buyer'
+            ? p.outcome === 'refunded'
+              ? `The balance for "${p.listingTitle}" wasn’t paid by the due date. Your ${deposit} deposit was refunded.`
+              : `The balance for "${p.listingTitle}" wasn’t paid by the due date. Your ${deposit} deposit was forfeited.`
+            : `The buyer didn’t pay the balance for "${p.listingTitle}". ${
+                p.outcome === 'refunded' ? 'Their deposit was refunded.' : `You keep the ${deposit} deposit.`
+              }${p.relisted ? ' Your listing is active again.' : ''}`,
+        deepLinkUrl: p.orderUrl,
+        linkLabel: 'View order',
+        metadata: { listingId: p.listingId, orderId: p.orderId, outcome: p.outcome, relisted: p.relisted },
+      };
+    }
+    case 'Order.InstallmentDue': {
+      const p = params.payload as Extract<NotificationEventPayload, { type: 'Order.InstallmentDue' }>;
+      const amount = `$${Number(p.amount).toFixed(2)}`;
+      return {
+        ...base,
+        type: 'order_installment_due',
+        title:
+          p.daysOverdue > 0
+            ? `Action: Installment ${p.installmentNumber} is ${p.daysOverdue} day${p.daysOverdue === 1 ? '' : 's'} overdue`
+            : `Action: Installment ${p.installmentNumber} of ${p.installmentCount} due`,
+        body: `Installment ${p.installmentNumber} of ${p.installmentCount} (${amount}) for "${p.listingTitle}" ${
+          p.daysOverdue > 0 ? 'was due' : 'is due'
+        } ${new Date(p.dueAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}.`,
+        deepLinkUrl: p.orderUrl,
+        linkLabel: 'Pay now',
+        metadata: { listingId: p.listingId, orderId: p.orderId, installmentNumber: p.installmentNumber, dueAt: p.dueAt },
+      };
+    }
+    case 'Order.InstallmentPlanDefaulted': {
+      const p = params.payload as Extract<NotificationEventPayload, { type: 'Order.InstallmentPlanDefaulted' }>;
+      return {
+        ...base,
+        type: 'order_installment_defaulted',
+        title: 'Installment plan in default',
+        body:
+          p.role === 'buyer'
+            ? `Installment ${p.installmentNumber} for "${p.listingTitle}" is ${p.daysOverdue} days overdue. Pay it now to keep your order; our team will be in touch.`
+            : `The buyer is ${p.daysOverdue} days behind on installment ${p.installmentNumber} for "${p.listingTitle}". Don’t release the animal or equipment; our team will follow up.`,
+        deepLinkUrl: p.orderUrl,
+        linkLabel: 'View order',
+        metadata: { listingId: p.listingId, orderId: p.orderId, installmentNumber: p.installmentNumber },
       };
     }
     case 'Order.FinalPaymentConfirmed': {
@@ -393,6 +533,18 @@ export function buildInAppNotification(params: {
         metadata: { listingId: p.listingId, orderId: p.orderId, rating: p.rating },
       };
     }
+    case 'Review.Responded': {
+      const p = params.payload as Extract<NotificationEventPayload, { type: 'Review.Responded' }>;
+      return {
+        ...base,
+        type: 'review_responded',
+        title: 'Seller responded to your review',
+        body: `${p.sellerName} replied to your review of "${p.listingTitle}".`,
+        deepLinkUrl: p.reviewUrl,
+        linkLabel: 'View response',
+        metadata: { listingId: p.listingId, orderId: p.orderId },
+      };
+    }
     case 'Payout.Released': {
       const p = params.payload as Extract<NotificationEventPayload, { type: 'Payout.Released' }>;
       return {
@@ -150,7 +150,15 @@ function buildSmsBody(params: { eventType: NotificationEventType; payload: Notif
     }
     case 'Order.FinalPaymentDue': {
       const p = payload as Extract<NotificationEventPayload, { type: 'Order.FinalPaymentDue' }>;
-      return `Pay remaining balance for "${p.listingTitle}". Balance due: $${Number(p.amount).toFixed(2)}. ${p.orderUrl}`;
+      return `Pay remaining balance for "${p.listingTitle}". Balance due: $${Number(p.amount).toFixed(2)}${
+        p.dueAt ? ` by ${p.dueAt.slice(0, 10)}` : ''
+      }. ${p.orderUrl}`;
+    }
+    case 'Order.InstallmentDue': {
+      const p = payload as Extract<NotificationEventPayload, { type: 'Order.InstallmentDue' }>;
+      return `Installment ${p.installmentNumber} of ${p.installmentCount} for "${p.listingTitle}": $${Number(p.amount).toFixed(2)} ${
+        p.daysOverdue > 0 ? `was due ${p.dueAt.slice(0, 10)}` : `due ${p.dueAt.slice(0, 10)}`
+      }. ${p.orderUrl}`;
     }
     case 'Review.Request': {
       const p = payload as Extract<NotificationEventPayload, { type: 'Review.Request' }>;
@@ -313,6 +321,7 @@ function buildEmailJobPayload(params: {
           orderId: p.orderId,
           listingTitle: p.listingTitle,
           amount: p.amount,
+          ...(typeof p.salesTaxAmount === 'number' && p.salesTaxAmount > 0 ? { salesTaxAmount: p.salesTaxAmount } : {}),
           orderDate: new Date().toISOString(),
           orderUrl: p.orderUrl,
         },
@@ -520,6 +529,20 @@ function buildEmailJobPayload(params: {
     }
     case 'Order.FinalPaymentDue': {
       const p = payload as Extract<NotificationEventPayload, { type: 'Order.FinalPaymentDue' }>;
+      if (p.dueAt) {
+        return {
+          template: 'order_balance_due',
+          templatePayload: {
+            buyerName: recipientName,
+            orderId: p.orderId,
+            listingTitle: p.listingTitle,
+            orderUrl: p.orderUrl,
+            amount: p.amount,
+            dueAt: p.dueAt,
+            depositRefundable: p.depositRefundable === true,
+          },
+        };
+      }
       return {
         template: 'order_in_transit',
         templatePayload: {
@@ -531,6 +554,55 @@ function buildEmailJobPayload(params: {
         },
       };
     }
+    case 'Order.DepositExpired': {
+      const p = payload as Extract<NotificationEventPayload, { type: 'Order.DepositExpired' }>;
+      return {
+        template: 'order_deposit_expired',
+        templatePayload: {
+          recipientName,
+          role: p.role,
+          orderId: p.orderId,
+          listingTitle: p.listingTitle,
+          orderUrl: p.orderUrl,
+          depositAmount: p.depositAmount,
+          outcome: p.outcome,
+          relisted: p.relisted,
+        },
+      };
+    }
+    case 'Order.InstallmentDue': {
+      const p = payload as Extract<NotificationEventPayload, { type: 'Order.InstallmentDue' }>;
+      return {
+        template: 'order_installment_due',
+        templatePayload: {
+          buyerName: recipientName,
+          orderId: p.orderId,
+          listingTitle: p.listingTitle,
+          orderUrl: p.orderUrl,
+          installmentNumber: p.installmentNumber,
+          installmentCount: p.installmentCount,
+          amount: p.amount,
+          dueAt: p.dueAt,
+          daysOverdue: p.daysOverdue,
+        },
+      };
+    }
+    case 'Order.InstallmentPlanDefaulted': {
+      const p = payload as Extract<NotificationEventPayload, { type: 'Order.InstallmentPlanDefaulted' }>;
+      return {
+        template: 'order_installment_defaulted',
+        templatePayload: {
+          recipientName,
+          role: p.role,
+          orderId: p.orderId,
+          listingTitle: p.listingTitle,
+          orderUrl: p.orderUrl,
+          installmentNumber: p.installmentNumber,
+          amount: p.amount,
+          daysOverdue: p.daysOverdue,
+        },
+      };
+    }
     case 'Order.FinalPaymentConfirmed': {
       const p = payload as Extract<NotificationEventPayload, { type: 'Order.FinalPaymentConfirmed' }>;
       return {
@@ -753,6 +825,20 @@ function buildEmailJobPayload(params: {
         },
       };
     }
+    case 'Auction.SecondChanceOffered': {
+      // Same shape as a seller counter: amount + expiry + link to respond.
+      const p = payload as Extract<NotificationEventPayload, { type: 'Auction.SecondChanceOffered' }>;
+      return {
+        template: 'offer_countered',
+        templatePayload: {
+          userName: recipientName,
+          listingTitle: p.listingTitle,
+          amount: p.amount,
+          offerUrl: p.offerUrl,
+          expiresAt: p.expiresAt || undefined,
+        },
+      };
+    }
     case 'Offer.Countered': {
       const p = payload as Extract<NotificationEventPayload, { type: 'Offer.Countered' }>;
       return {
@@ -811,6 +897,24 @@ function buildEmailJobPayload(params: {
         },
       };
     }
+    case 'Compliance.DocumentExpiring':
+    case 'Compliance.DocumentExpired': {
+      const p = payload as Extract<NotificationEventPayload, { type: 'Compliance.DocumentExpiring' | 'Compliance.DocumentExpired' }>;
+      const expired = p.type === 'Compliance.DocumentExpired';
+      return {
+        template: 'compliance_document_expiry',
+        templatePayload: {
+          userName: recipientName,
+          documentLabel: p.documentLabel,
+          expiresAt: p.expiresAt,
+          daysRemaining: p.type === 'Compliance.DocumentExpiring' ? p.daysRemaining : 0,
+          expired,
+          ...(p.listingTitle ? { listingTitle: p.listingTitle } : {}),
+          actionUrl: p.actionUrl,
+          ...(p.type === 'Compliance.DocumentExpired' ? { badgeRemoved: p.badgeRemoved } : {}),
+        },
+      };
+    }
     case 'Listing.ComplianceRejected': {
       const p = payload as Extract<NotificationEventPayload, { type: 'Listing.ComplianceRejected' }>;
       return {
@@ -1021,10 +1125,18 @@ function buildPushPayload(eventType: NotificationEventType, payload: Notificatio
       const p = payload as Extract<NotificationEventPayload, { type: 'Auction.EndingSoon' }>;
       return { title: `Ending soon (${p.threshold})`, body: p.listingTitle, deepLinkUrl: p.listingUrl, notificationType: 'Auction.EndingSoon', entityId: p.listingId };
     }
+    case 'Auction.Extended': {
+      const p = payload as Extract<NotificationEventPayload, { type: 'Auction.Extended' }>;
+      return { title: 'Auction extended', body: p.listingTitle, deepLinkUrl: p.listingUrl, notificationType: 'Auction.Extended', entityId: p.listingId };
+    }
     case 'Auction.Won': {
       const p = payload as Extract<NotificationEventPayload, { type: 'Auction.Won' }>;
       return { title: 'You won!', body: p.listingTitle, deepLinkUrl: p.checkoutUrl || p.listingUrl, notificationType: 'Auction.Won', entityId: p.listingId };
     }
+    case 'Auction.SecondChanceOffered': {
+      const p = payload as Extract<NotificationEventPayload, { type: 'Auction.SecondChanceOffered' }>;
+      return { title: 'Second-chance offer', body: p.listingTitle, deepLinkUrl: p.offerUrl, notificationType: 'Auction.SecondChanceOffered', entityId: p.offerId };
+    }
     case 'Message.Received': {
       const p = payload as Extract<NotificationEventPayload, { type: 'Message.Received' }>;
       return { title: 'New message', body: p.listingTitle, deepLinkUrl: p.threadUrl, notificationType: 'Message.Received', entityId: p.threadId };
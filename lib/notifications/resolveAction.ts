@@ -4,6 +4,7 @@
  * Server-only (Firebase Admin). Call from API routes and webhooks when:
  * - Buyer agrees to delivery → resolve order_delivery_scheduled
  * - Buyer completes final payment → resolve order_final_payment_due
+ * - Buyer pays an installment → resolve order_installment_due
  * - Buyer pays for accepted offer → resolve offer_accepted
  * - (Optional) Auction winner → resolve bid_outbid for that listing
  *
@@ -18,6 +19,7 @@ export type ResolveActionType =
   | 'order_delivery_address_set' // Buyer set address – seller must propose delivery
   | 'order_delivery_scheduled'
   | 'order_final_payment_due'
+  | 'order_installment_due'
   | 'offer_accepted'
   | 'offer_countered' // when user responds (accept/counter/decline)
   | 'bid_outbid';
@@ -121,6 +121,17 @@ export function getEventRule(type: NotificationEventType, payload: NotificationE
         allowDuringQuietHours: urgency === 'critical',
       };
     }
+    case 'Auction.Extended':
+      return {
+        category: 'auctions',
+        urgency: 'high',
+        channels: ['inApp', 'push'],
+        // One notification per extension (eventKey includes the extension count).
+        dedupeWindowMs: 1000 * 60,
+        rateLimitPerUser: { push: { perHour: 12, perDay: 40 } },
+        // Soft-close extensions are minutes-sensitive; never delay.
+        allowDuringQuietHours: true,
+      };
     case 'Auction.Won':
       return {
         category: 'auctions',
@@ -139,6 +150,24 @@ export function getEventRule(type: NotificationEventType, payload: NotificationE
         rateLimitPerUser: { email: { perHour: 2, perDay: 6 } },
         allowDuringQuietHours: true,
       };
+    case 'Auction.SecondChanceAvailable':
+      return {
+        category: 'auctions',
+        urgency: 'normal',
+        channels: ['inApp', 'email'],
+        dedupeWindowMs: 1000 * 60 * 60 * 24,
+        rateLimitPerUser: { email: { perHour: 4, perDay: 20 } },
+        allowDuringQuietHours: false,
+      };
+    case 'Auction.SecondChanceOffered':
+      return {
+        category: 'auctions',
+        urgency: 'high',
+        channels: ['inApp', 'push', 'email'],
+        dedupeWindowMs: 1000 * 60 * 10,
+        rateLimitPerUser: { push: { perHour: 6, perDay: 20 }, email: { perHour: 4, perDay: 10 } },
+        allowDuringQuietHours: true,
+      };
     case 'Auction.BidReceived':
       return {
         category: 'auctions',
@@ -159,6 +188,17 @@ export function getEventRule(type: NotificationEventType, payload: NotificationE
       };
     case 'Listing.Approved':
     case 'Listing.Rejected':
+    case 'Compliance.DocumentExpiring':
+    case 'Compliance.DocumentExpired':
+      return {
+        // Seller permit / order document expiry reminders (complianceExpiryReminders).
+        category: 'onboarding',
+        urgency: type === 'Compliance.DocumentExpired' ? 'high' : 'normal',
+        channels: ['inApp', 'email'],
+        dedupeWindowMs: 1000 * 60 * 60 * 24,
+        rateLimitPerUser: { email: { perHour: 6, perDay: 20 } },
+        allowDuringQuietHours: true,
+      };
     case 'Listing.ComplianceApproved':
     case 'Listing.ComplianceRejected':
       return {
@@ -305,6 +345,25 @@ export function getEventRule(type: NotificationEventType, payload: NotificationE
         rateLimitPerUser: { email: { perHour: 4, perDay: 10 } },
         allowDuringQuietHours: true,
       };
+    case 'Order.InstallmentDue':
+      return {
+        category: 'orders',
+        urgency: 'high',
+        channels: ['inApp', 'email'],
+        dedupeWindowMs: 1000 * 60 * 60 * 12,
+        rateLimitPerUser: { email: { perHour: 4, perDay: 10 } },
+        allowDuringQuietHours: true,
+      };
+    case 'Order.InstallmentPlanDefaulted':
+    case 'Order.DepositExpired':
+      return {
+        category: 'orders',
+        urgency: 'high',
+        channels: ['inApp', 'email'],
+        dedupeWindowMs: 1000 * 60 * 60 * 24,
+        rateLimitPerUser: { email: { perHour: 4, perDay: 10 } },
+        allowDuringQuietHours: true,
+      };
     case 'Order.FinalPaymentConfirmed':
       return {
         category: 'orders',
@@ -341,6 +400,15 @@ export function getEventRule(type: NotificationEventType, payload: NotificationE
         rateLimitPerUser: { email: { perHour: 4, perDay: 10 } },
         allowDuringQuietHours: true,
       };
+    case 'Review.Responded':
+      return {
+        category: 'orders',
+        urgency: 'low',
+        channels: ['inApp'],
+        dedupeWindowMs: 1000 * 60 * 60 * 24,
+        rateLimitPerUser: {},
+        allowDuringQuietHours: true,
+      };
     case 'Payout.Released':
       return {
         category: 'orders',
@@ -472,7 +540,9 @@ export function decideChannels(params: {
         if (params.eventType === 'Auction.HighBidder') return cats.auctions.highBidder;
         if (params.eventType === 'Auction.Outbid') return cats.auctions.outbid;
         if (params.eventType === 'Auction.EndingSoon') return cats.auctions.endingSoon;
+        if (params.eventType === 'Auction.Extended') return cats.auctions.endingSoon;
         if (params.eventType === 'Auction.Won' || params.eventType === 'Auction.Lost') return cats.auctions.wonLost;
+        if (params.eventType === 'Auction.SecondChanceOffered') return cats.auctions.wonLost;
         return true;
       }
       case 'orders': {
@@ -491,9 +561,13 @@ export function decideChannels(params: {
         if (params.eventType === 'Order.DeliveryTrackingStopped') return cats.orders.confirmed;
         if (params.eventType === 'Order.FinalPaymentDue') return cats.orders.confirmed;
         if (params.eventType === 'Order.FinalPaymentConfirmed') return cats.orders.confirmed;
+        if (params.eventType === 'Order.DepositExpired') return cats.orders.confirmed;
+        if (params.eventType === 'Order.InstallmentDue') return cats.orders.confirmed;
+        if (params.eventType === 'Order.InstallmentPlanDefaulted') return cats.orders.confirmed;
         if (params.eventType === 'Order.TransferComplianceRequired') return cats.orders.confirmed;
         if (params.eventType === 'Review.Request') return cats.orders.confirmed;
         if (params.eventType === 'Review.Received') return cats.orders.confirmed;
+        if (params.eventType === 'Review.Responded') return cats.orders.confirmed;
         if (params.eventType === 'Payout.Released') return cats.orders.payoutReleased;
         return true;
       }
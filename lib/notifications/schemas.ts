@@ -41,6 +41,35 @@ export const notificationEventPayloadSchema: z.ZodType<NotificationEventPayload>
     endsAt: baseString,
     currentBidAmount: z.number().finite().nonnegative().optional(),
   }),
+  z.object({
+    type: z.literal('Auction.Extended'),
+    listingId: baseString,
+    listingTitle: baseString,
+    listingUrl: urlSchema,
+    endsAt: baseString,
+    previousEndsAt: baseString,
+    extensionCount: z.number().int().positive(),
+    currentBidAmount: z.number().finite().nonnegative().optional(),
+  }),
+  z.object({
+    type: z.literal('Auction.SecondChanceAvailable'),
+    listingId: baseString,
+    listingTitle: baseString,
+    listingUrl: urlSchema,
+    manageUrl: urlSchema,
+    reason: z.enum(['reserve_not_met', 'winner_unpaid']),
+    topBidAmount: z.number().finite().nonnegative().optional(),
+    deadlineAt: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('Auction.SecondChanceOffered'),
+    offerId: baseString,
+    listingId: baseString,
+    listingTitle: baseString,
+    offerUrl: urlSchema,
+    amount: z.number().finite().positive(),
+    expiresAt: z.string().optional(),
+  }),
   z.object({
     type: z.literal('Auction.Won'),
     listingId: baseString,
@@ -80,6 +109,7 @@ export const notificationEventPayloadSchema: z.ZodType<NotificationEventPayload>
     listingId: baseString,
     listingTitle: baseString,
     listingUrl: urlSchema,
+    startsAt: z.string().optional(),
   }),
   z.object({
     type: z.literal('Listing.Rejected'),
@@ -102,6 +132,26 @@ export const notificationEventPayloadSchema: z.ZodType<NotificationEventPayload>
     editUrl: urlSchema,
     reason: baseString,
   }),
+  z.object({
+    type: z.literal('Compliance.DocumentExpiring'),
+    documentType: baseString,
+    documentLabel: baseString,
+    expiresAt: z.string(),
+    daysRemaining: z.number().int().nonnegative(),
+    orderId: z.string().optional(),
+    listingTitle: z.string().optional(),
+    actionUrl: urlSchema,
+  }),
+  z.object({
+    type: z.literal('Compliance.DocumentExpired'),
+    documentType: baseString,
+    documentLabel: baseString,
+    expiresAt: z.string(),
+    orderId: z.string().optional(),
+    listingTitle: z.string().optional(),
+    actionUrl: urlSchema,
+    badgeRemoved: z.boolean(),
+  }),
   z.object({
     type: z.literal('Order.Confirmed'),
     orderId: baseString,
@@ -110,6 +160,7 @@ export const notificationEventPayloadSchema: z.ZodType<NotificationEventPayload>
     orderUrl: urlSchema,
     amount: z.number().finite().nonnegative(),
     paymentMethod: z.string().optional(),
+    salesTaxAmount: z.number().finite().nonnegative().optional(),
   }),
   z.object({
     type: z.literal('Order.Received'),
@@ -219,6 +270,42 @@ export const notificationEventPayloadSchema: z.ZodType<NotificationEventPayload>
     listingTitle: baseString,
     orderUrl: urlSchema,
     amount: z.number().finite().nonnegative(),
+    dueAt: z.string().optional(),
+    depositRefundable: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal('Order.DepositExpired'),
+    orderId: baseString,
+    listingId: baseString,
+    listingTitle: baseString,
+    orderUrl: urlSchema,
+    role: z.enum(['buyer', 'seller']),
+    depositAmount: z.number().finite().nonnegative(),
+    outcome: z.enum(['forfeited', 'refunded']),
+    relisted: z.boolean(),
+  }),
+  z.object({
+    type: z.literal('Order.InstallmentDue'),
+    orderId: baseString,
+    listingId: baseString,
+    listingTitle: baseString,
+    orderUrl: urlSchema,
+    installmentNumber: z.number().int().positive(),
+    installmentCount: z.number().int().positive(),
+    amount: z.number().finite().nonnegative(),
+    dueAt: z.string(),
+    daysOverdue: z.number().int().nonnegative(),
+  }),
+  z.object({
+    type: z.literal('Order.InstallmentPlanDefaulted'),
+    orderId: baseString,
+    listingId: baseString,
+    listingTitle: baseString,
+    orderUrl: urlSchema,
+    role: z.enum(['buyer', 'seller']),
+    installmentNumber: z.number().int().positive(),
+    amount: z.number().finite().nonnegative(),
+    daysOverdue: z.number().int().nonnegative(),
   }),
   z.object({
     type: z.literal('Order.FinalPaymentConfirmed'),
@@ -246,6 +333,15 @@ export const notificationEventPayloadSchema: z.ZodType<NotificationEventPayload>
     reviewText: z.string().nullable(),
     reputationUrl: urlSchema,
   }),
+  z.object({
+    type: z.literal('Review.Responded'),
+    orderId: baseString,
+    listingId: baseString,
+    listingTitle: baseString,
+    sellerName: baseString,
+    responseText: baseString,
+    reviewUrl: urlSchema,
+  }),
   z.object({
     type: z.literal('Payout.Released'),
     orderId: baseString,
@@ -16,6 +16,7 @@ const ACTION_REQUIRED_TYPES = [
   'order_delivery_address_set',
   'order_delivery_scheduled',
   'order_final_payment_due',
+  'order_installment_due',
   'offer_accepted',
   'offer_countered',
   'bid_outbid',
@@ -123,6 +124,16 @@ export async function syncStaleActionNotifications(
           stale = finalPaid || (!!tx && ORDER_END_STATUSES.includes(tx));
         }
       } catch {}
+    } else if (type === 'order_installment_due') {
+      try {
+        const orderSnap = await db.collection('orders').doc(entityId).get();
+        if (!orderSnap.exists) stale = true;
+        else {
+          const order = orderSnap.data() as { transactionStatus?: string; installmentsPending?: boolean } | undefined;
+          const tx = order?.transactionStatus;
+          stale = order?.installmentsPending !== true || (!!tx && ORDER_END_STATUSES.includes(tx));
+        }
+      } catch {}
     } else if (type === 'offer_accepted' || type === 'offer_countered') {
       try {
         const offerSnap = await db.collection('offers').doc(entityId).get();
@@ -15,8 +15,11 @@ export const NOTIFICATION_EVENT_TYPES = [
   'Auction.HighBidder',
   'Auction.Outbid',
   'Auction.EndingSoon',
+  'Auction.Extended', // Soft-close: a late bid pushed the end time out
   'Auction.Won',
   'Auction.Lost',
+  'Auction.SecondChanceAvailable', // Seller: reserve not met / winner unpaid; a bidder can get a second-chance offer
+  'Auction.SecondChanceOffered', // Bidder: seller sent a second-chance offer (Best Offer flow)
   'Auction.BidReceived',
   'Bid.Placed',
 
@@ -26,6 +29,10 @@ export const NOTIFICATION_EVENT_TYPES = [
   'Listing.ComplianceApproved',
   'Listing.ComplianceRejected',
 
+  // COMPLIANCE (document expiry)
+  'Compliance.DocumentExpiring', // Seller permit / order document expires in 60, 30 or 7 days
+  'Compliance.DocumentExpired', // Seller permit / order document expired (breeder permit badge pulled)
+
   // ORDERS / PAYOUTS
   'Order.Confirmed',
   'Order.Received',
@@ -47,6 +54,9 @@ export const NOTIFICATION_EVENT_TYPES = [
   'Order.ReceiptConfirmed', // Buyer confirmed receipt (SELLER_TRANSPORT)
   'Order.FinalPaymentDue', // Buyer has balance due on delivery – show "Pay now" in To Do
   'Order.FinalPaymentConfirmed', // Buyer paid final balance (deposit flow); notify seller
+  'Order.DepositExpired', // Balance not paid by the listing's due date; order cancelled, deposit forfeited or refunded
+  'Order.InstallmentDue', // Installment plan reminder / overdue notice (dunning)
+  'Order.InstallmentPlanDefaulted', // Installment missed past the grace period; plan sent to admin review
   'Order.SlaApproaching', // NEW: SLA deadline approaching reminder
   'Order.SlaOverdue', // NEW: SLA deadline passed
   'Order.TransferComplianceRequired', // NEW: Regulated whitetail - compliance gate activated
@@ -56,6 +66,7 @@ export const NOTIFICATION_EVENT_TYPES = [
   'Payout.Released',
   'Review.Request',
   'Review.Received', // Seller notified when a buyer leaves a review
+  'Review.Responded', // Buyer notified when the seller publicly responds to their review
 
   // ONBOARDING / TRUST
   'User.Welcome',
@@ -143,6 +154,16 @@ export type NotificationEventPayload =
       endsAt: string;
       currentBidAmount?: number;
     }
+  | {
+      type: 'Auction.Extended';
+      listingId: string;
+      listingTitle: string;
+      listingUrl: string;
+      endsAt: string;
+      previousEndsAt: string;
+      extensionCount: number;
+      currentBidAmount?: number;
+    }
   | {
       type: 'Auction.Won';
       listingId: string;
@@ -160,6 +181,25 @@ export type NotificationEventPayload =
       finalBidAmount?: number;
       endsAt?: string;
     }
+  | {
+      type: 'Auction.SecondChanceAvailable';
+      listingId: string;
+      listingTitle: string;
+      listingUrl: string;
+      manageUrl: string;
+      reason: 'reserve_not_met' | 'winner_unpaid';
+      topBidAmount?: number;
+      deadlineAt?: string;
+    }
+  | {
+      type: 'Auction.SecondChanceOffered';
+      offerId: string;
+      listingId: string;
+      listingTitle: string;
+      offerUrl: string;
+      amount: number;
+      expiresAt?: string;
+    }
   | {
       type: 'Auction.BidReceived';
       listingId: string;
@@ -182,6 +222,8 @@ export type NotificationEventPayload =
       listingId: string;
       listingTitle: string;
       listingUrl: string;
+      /** ISO; set when the seller scheduled a future start (listing is `scheduled`, not yet live). */
+      startsAt?: string;
     }
   | {
       type: 'Listing.Rejected';
@@ -204,6 +246,28 @@ export type NotificationEventPayload =
       editUrl: string;
       reason: string;
     }
+  | {
+      type: 'Compliance.DocumentExpiring';
+      documentType: string;
+      documentLabel: string;
+      expiresAt: string;
+      daysRemaining: number;
+      /** Set for order documents (e.g. a CVI); absent for the seller's breeder permit. */
+      orderId?: string;
+      listingTitle?: string;
+      actionUrl: string;
+    }
+  | {
+      type: 'Compliance.DocumentExpired';
+      documentType: string;
+      documentLabel: string;
+      expiresAt: string;
+      orderId?: string;
+      listingTitle?: string;
+      actionUrl: string;
+      /** True when the seller's "TPWD breeder permit" badge was removed. */
+      badgeRemoved: boolean;
+    }
   | {
       type: 'Order.Confirmed';
       orderId: string;
@@ -212,6 +276,8 @@ export type NotificationEventPayload =
       orderUrl: string;
       amount: number;
       paymentMethod?: string;
+      /** Sales tax collected with this charge (already included in `amount`). */
+      salesTaxAmount?: number;
     }
   | {
       type: 'Order.Received';
@@ -356,6 +422,44 @@ export type NotificationEventPayload =
       listingTitle: string;
       orderUrl: string;
       amount: number;
+      /** Balance due date (deposit terms); set on scheduled balance reminders. */
+      dueAt?: string;
+      depositRefundable?: boolean;
+    }
+  | {
+      type: 'Order.DepositExpired';
+      orderId: string;
+      listingId: string;
+      listingTitle: string;
+      orderUrl: string;
+      role: 'buyer' | 'seller';
+      depositAmount: number;
+      outcome: 'forfeited' | 'refunded';
+      relisted: boolean;
+    }
+  | {
+      type: 'Order.InstallmentDue';
+      orderId: string;
+      listingId: string;
+      listingTitle: string;
+      orderUrl: string;
+      installmentNumber: number;
+      installmentCount: number;
+      amount: number;
+      dueAt: string;
+      /** 0 for reminders ahead of / on the due date. */
+      daysOverdue: number;
+    }
+  | {
+      type: 'Order.InstallmentPlanDefaulted';
+      orderId: string;
+      listingId: string;
+      listingTitle: string;
+      orderUrl: string;
+      role: 'buyer' | 'seller';
+      installmentNumber: number;
+      amount: number;
+      daysOverdue: number;
     }
   | {
       type: 'Order.FinalPaymentConfirmed';
@@ -383,6 +487,15 @@ export type NotificationEventPayload =
       reviewText: string | null;
       reputationUrl: string;
     }
+  | {
+      type: 'Review.Responded';
+      orderId: string;
+      listingId: string;
+      listingTitle: string;
+      sellerName: string;
+      responseText: string;
+      reviewUrl: string;
+    }
   | {
       type: 'Order.SlaApproaching';
       orderId: string;
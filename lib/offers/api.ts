@@ -41,6 +41,18 @@ export async function createOffer(
   });
 }
 
+/** One lump-sum offer for several listings from the same seller. */
+export async function createBundleOffer(
+  items: Array<{ listingId: string; quantity?: number }>,
+  amount: number,
+  note?: string
+) {
+  return authedFetch(`${API_BASE}/bundle`, {
+    method: 'POST',
+    body: JSON.stringify({ items, amount, note }),
+  });
+}
+
 export async function acceptOffer(offerId: string) {
   return authedFetch(`${API_BASE}/${offerId}/accept`, { method: 'POST', body: JSON.stringify({}) });
 }
@@ -0,0 +1,46 @@
+/**
+ * Bundle offers (one lump sum for several listings from the same seller).
+ *
+ * A bundle offer is a regular `offers/{id}` doc with `bundle` + `listingIds` set, so it follows the
+ * same counter/accept/expire lifecycle. These helpers are shared by the API routes, the expiry job
+ * and checkout (which splits the agreed amount back into per-listing orders).
+ */
+
+import type { OfferBundleItem } from '@/lib/types';
+
+export const MAX_BUNDLE_OFFER_LISTINGS = 10;
+
+/** Every listing an offer covers (single-listing offers only have `listingId`). */
+export function getOfferListingIds(offer: { listingId?: string; listingIds?: unknown } | null | undefined): string[] {
+  const ids = Array.isArray(offer?.listingIds)
+    ? offer!.listingIds.filter((id): id is string => typeof id === 'string' && id.length > 0)
+    : [];
+  if (ids.length > 0) return Array.from(new Set(ids));
+  return offer?.listingId ? [String(offer.listingId)] : [];
+}
+
+export function isBundleOffer(offer: { bundle?: unknown; listingIds?: unknown } | null | undefined): boolean {
+  return Boolean(offer?.bundle) && getOfferListingIds(offer as any).length > 1;
+}
+
+export function formatBundleOfferTitle(items: Array<Pick<OfferBundleItem, 'title'>>): string {
+  if (items.length === 0) return 'Bundle';
+  const first = String(items[0]?.title || 'Listing');
+  return items.length === 1 ? first : `${first} + ${items.length - 1} more`;
+}
+
+/**
+ * Split an agreed bundle amount across its items in proportion to their list prices.
+ * Works in cents so the parts always add back up to the amount; rounding leftovers go to the last item.
+ */
+export function allocateBundleOfferAmount(amount: number, items: Array<Pick<OfferBundleItem, 'listPrice'>>): number[] {
+  if (items.length === 0) return [];
+  const totalCents = Math.round(amount * 100);
+  // Unpriced items (e.g. classifieds without an asking price) make the split even instead.
+  const priced = items.every((i) => Number.isFinite(i.listPrice) && i.listPrice > 0);
+  const weights = items.map((i) => (priced ? i.listPrice : 1));
+  const weightSum = weights.reduce((a, b) => a + b, 0);
+  const cents = weights.map((w) => Math.floor((totalCents * w) / weightSum));
+  cents[cents.length - 1] += totalCents - cents.reduce((a, b) => a + b, 0);
+  return cents.map((c) => c / 100);
+}
@@ -0,0 +1,312 @@
+import { FieldValue, Timestamp, type Firestore } from 'firebase-admin/firestore';
+import type { TransactionStatus } from '@/lib/types';
+import { stripe } from '@/lib/stripe/config';
+import { createAuditLog } from '@/lib/audit/logger';
+import { logInfo, logWarn } from '@/lib/monitoring/logger';
+import { emitAndProcessEventForUser } from '@/lib/notifications';
+import { resolveActionNotifications } from '@/lib/notifications/resolveAction';
+import { getSiteUrl } from '@/lib/site-url';
+import { getEffectiveTransactionStatus } from '@/lib/orders/status';
+import { getOrderBalanceDue } from '@/lib/orders/progress';
+import { appendOrderTimelineEvent } from '@/lib/orders/timeline';
+import { reverseAnimalSale } from '@/lib/animals/registry';
+import { coerceDurationDays, computeEndAt, toMillisSafe } from '@/lib/listings/duration';
+import { getBalanceExpiryRefundCents, isBalanceExpired } from '@/lib/pricing/deposit';
+
+/**
+ * Balance due dates (per-listing deposit terms, see lib/pricing/deposit.ts).
+ *
+ * Orders with `balanceDueAt` can pay the balance any time before delivery via
+ * `/api/orders/[orderId]/final-payment-session`. `expireUnpaidBalances` sends reminders ahead of the date and,
+ * once it has passed (plus grace), cancels the order:
+ * - non-refundable deposit: kept by the seller (only any sales tax collected up front is refunded)
+ * - refundable deposit: the whole first payment is refunded
+ * - a refund Stripe rejects leaves `depositRefundPending` set and is retried by later runs
+ * - fixed-price listings go back on sale (sold flag cleared, or the head returned to `quantityAvailable`);
+ *   auctions are left ended and the seller is told they can duplicate the listing.
+ */
+
+/** Order states where the balance can be paid early and where an unpaid balance can expire. */
+export const BALANCE_PAYABLE_STATUSES: TransactionStatus[] = [
+  'FULFILLMENT_REQUIRED',
+  'AWAITING_TRANSFER_COMPLIANCE',
+  'READY_FOR_PICKUP',
+  'PICKUP_PROPOSED',
+  'PICKUP_SCHEDULED',
+  'DELIVERY_PROPOSED',
+  'DELIVERY_SCHEDULED',
+  'OUT_FOR_DELIVERY',
+];
+
+export type BalanceExpiryOutcome = 'forfeited' | 'refunded' | 'noop_paid' | 'noop_not_due' | 'noop_not_payable';
+
+const ACTIVE_DISPUTE_STATUSES = ['open', 'needs_evidence', 'under_review'];
+
+export function getOrderBalanceDueAt(order: any): Date | null {
+  const ms = toMillisSafe(order?.balanceDueAt);
+  return typeof ms === 'number' ? new Date(ms) : null;
+}
+
+export async function sendBalanceDueReminder(params: {
+  db: Firestore;
+  orderId: string;
+  order: any;
+  daysBefore: number;
+  requestId?: string;
+}): Promise<boolean> {
+  const { db, orderId, order, daysBefore, requestId } = params;
+  const dueAt = getOrderBalanceDueAt(order);
+  const buyerId = String(order?.buyerId || '');
+  if (!dueAt || !buyerId) return false;
+  try {
+    await emitAndProcessEventForUser({
+      type: 'Order.FinalPaymentDue',
+      actorId: null,
+      entityType: 'order',
+      entityId: orderId,
+      targetUserId: buyerId,
+      payload: {
+        type: 'Order.FinalPaymentDue',
+        orderId,
+        listingId: String(order?.listingId || ''),
+        listingTitle: String(order?.listingSnapshot?.title || order?.listingTitle || 'Your order'),
+        orderUrl: `${getSiteUrl()}/dashboard/orders/${orderId}`,
+        amount: getOrderBalanceDue(order),
+        dueAt: dueAt.toISOString(),
+        depositRefundable: order?.depositTerms?.refundable === true,
+      },
+      optionalHash: `balance_reminder:${daysBefore}`,
+    });
+    await db
+      .collection('orders')
+      .doc(orderId)
+      .set({ balanceRemindersSent: FieldValue.arrayUnion(daysBefore), updatedAt: new Date() }, { merge: true });
+    return true;
+  } catch (e: any) {
+    logWarn('sendBalanceDueReminder failed', { requestId, orderId, daysBefore, error: String(e?.message || e) });
+    return false;
+  }
+}
+
+/**
+ * Issue the refund an expired balance owes (see `getBalanceExpiryRefundCents`). `refundAmount` / `refundedAt` are
+ * only written once Stripe accepts it; on failure the order keeps `depositRefundPending` (plus the error) for
+ * `expireUnpaidBalances` to retry. The idempotency key is fixed per order, so retries can't refund twice.
+ */
+export async function refundExpiredBalance(params: {
+  db: Firestore;
+  orderId: string;
+  now: Date;
+  requestId?: string;
+}): Promise<{ refunded: boolean; refundCents: number; stripeRefundId: string | null }> {
+  const { db, orderId, now, requestId } = params;
+  const orderRef = db.collection('orders').doc(orderId);
+  const snap = await orderRef.get();
+  const order = snap.exists ? (snap.data() as any) : null;
+  const outcome = order?.depositExpiryOutcome === 'refunded' ? 'refunded' : 'forfeited';
+  const refundCents = order ? getBalanceExpiryRefundCents(order, outcome) : 0;
+  if (!order?.depositRefundPending) return { refunded: false, refundCents, stripeRefundId: null };
+
+  const paymentIntentId = typeof order.stripePaymentIntentId === 'string' ? order.stripePaymentIntentId : null;
+  try {
+    if (!stripe) throw new Error('Stripe is not configured');
+    if (!paymentIntentId) throw new Error('Order has no payment intent');
+    const refund = await stripe.refunds.create(
+      {
+        payment_intent: paymentIntentId,
+        amount: refundCents,
+        reason: 'requested_by_customer',
+        metadata: {
+          reason: outcome === 'refunded' ? 'balance_expired_deposit_refund' : 'balance_expired_sales_tax_refund',
+          orderId,
+          listingId: String(order.listingId || ''),
+          buyerId: String(order.buyerId || ''),
+          refundedBy: 'system',
+        },
+      },
+      { idempotencyKey: `refund:balance_expired:${orderId}` }
+    );
+    await orderRef.set(
+      {
+        depositRefundPending: false,
+        depositRefundError: FieldValue.delete(),
+        stripeRefundId: refund.id,
+        ...(typeof order.salesTax?.amount === 'number' && order.salesTax.amount > 0 ? { refundedTaxAmount: order.salesTax.amount } : {}),
+        ...(outcome === 'refunded'
+          ? { refundAmount: typeof order.depositAmount === 'number' ? order.depositAmount : 0, refundedAt: now }
+          : {}),
+        updatedAt: new Date(),
+      },
+      { merge: true }
+    );
+    return { refunded: true, refundCents, stripeRefundId: refund.id };
+  } catch (e: any) {
+    const error = String(e?.message || e);
+    logWarn('refundExpiredBalance: Stripe refund failed; will retry', { requestId, orderId, refundCents, error });
+    await orderRef.set({ depositRefundError: error.slice(0, 500), updatedAt: new Date() }, { merge: true });
+    return { refunded: false, refundCents, stripeRefundId: null };
+  }
+}
+
+/**
+ * Cancel an order whose balance was not paid in time. Re-checks payment, due date and status inside the
+ * transaction (retry-safe); the Stripe refund, audit log and notifications follow once it has committed.
+ */
+export async function expireUnpaidBalance(params: {
+  db: Firestore;
+  orderId: string;
+  now: Date;
+  requestId?: string;
+}): Promise<BalanceExpiryOutcome> {
+  const { db, orderId, now, requestId } = params;
+  const orderRef = db.collection('orders').doc(orderId);
+
+  const result = await db.runTransaction(async (tx) => {
+    const orderSnap = await tx.get(orderRef);
+    if (!orderSnap.exists) return { outcome: 'noop_not_payable' as const };
+    const order = orderSnap.data() as any;
+    if (order.finalPaymentConfirmedAt || order.depositExpiredAt) return { outcome: 'noop_paid' as const };
+    const dueAt = getOrderBalanceDueAt(order);
+    if (!dueAt || !isBalanceExpired(dueAt, now)) return { outcome: 'noop_not_due' as const };
+    const txStatus = getEffectiveTransactionStatus(order);
+    const blocked = ACTIVE_DISPUTE_STATUSES.includes(String(order.disputeStatus || '')) || order.adminHold === true;
+    if (!BALANCE_PAYABLE_STATUSES.includes(txStatus) || blocked) return { outcome: 'noop_not_payable' as const };
+
+    const listingId = String(order.listingId || '');
+    const listingRef = listingId ? db.collection('listings').doc(listingId) : null;
+    const listingSnap = listingRef ? await tx.get(listingRef) : null;
+    const listing = listingSnap?.exists ? (listingSnap.data() as any) : null;
+
+    const outcome: 'forfeited' | 'refunded' = order.depositTerms?.refundable === true ? 'refunded' : 'forfeited';
+    tx.set(
+      orderRef,
+      {
+        status: 'cancelled',
+        transactionStatus: 'CANCELLED',
+        depositExpiredAt: now,
+        depositExpiryOutcome: outcome,
+        balanceDuePending: false,
+        // Refund fields are written by refundExpiredBalance once Stripe has accepted the refund.
+        ...(getBalanceExpiryRefundCents(order, outcome) > 0 && order.stripePaymentIntentId ? { depositRefundPending: true } : {}),
+        updatedAt: now,
+        lastUpdatedByRole: 'admin',
+      },
+      { merge: true }
+    );
+
+    // Put a fixed-price listing back on sale (auctions keep their result; seller duplicates to sell again).
+    let relisted = false;
+    if (listingRef && listing && listing.type !== 'auction') {
+      const quantity = Math.max(1, Math.floor(Number(order.quantity) || 1));
+      const isMultiQty = typeof listing.quantityTotal === 'number' && listing.quantityTotal > 1;
+      const soldByThisSale = listing.status === 'sold';
+      const updates: Record<string, any> = { updatedAt: Timestamp.fromDate(now), updatedBy: 'system' };
+      if (isMultiQty && typeof listing.quantityAvailable === 'number' && Number.isFinite(listing.quantityAvailable)) {
+        updates.quantityAvailable = Math.min(listing.quantityTotal, Math.max(0, Math.floor(listing.quantityAvailable)) + quantity);
+        relisted = true;
+      }
+      if (soldByThisSale && (!isMultiQty || relisted)) {
+        const endsAtMs = toMillisSafe(listing.endsAt);
+        Object.assign(updates, {
+          status: 'active',
+          endedReason: FieldValue.delete(),
+          endedAt: FieldValue.delete(),
+          soldAt: FieldValue.delete(),
+          soldPriceCents: FieldValue.delete(),
+          saleType: FieldValue.delete(),
+          // A listing whose window ran out while it sat sold gets a fresh one.
+          ...(typeof endsAtMs === 'number' && endsAtMs <= now.getTime()
+            ? { endsAt: Timestamp.fromMillis(computeEndAt(now.getTime(), coerceDurationDays(listing.durationDays))) }
+            : {}),
+        });
+        relisted = true;
+      }
+      if (relisted) tx.set(listingRef, updates, { merge: true });
+    }
+
+    return { outcome, order, relisted };
+  });
+
+  if (result.outcome !== 'forfeited' && result.outcome !== 'refunded') return result.outcome;
+  const { outcome, order, relisted } = result;
+  const depositAmount = typeof order.depositAmount === 'number' ? order.depositAmount : 0;
+  const { refundCents, stripeRefundId } = await refundExpiredBalance({ db, orderId, now, requestId });
+
+  // The relisted animal is the seller's again; otherwise republishing it would flag an owner mismatch.
+  try {
+    await reverseAnimalSale(db, { orderId, reason: 'balance_expired' });
+  } catch (e: any) {
+    logWarn('expireUnpaidBalance: animal registry reversal failed', { requestId, orderId, error: String(e?.message || e) });
+  }
+
+  await createAuditLog(db, {
+    actorUid: 'system',
+    actorRole: 'system',
+    actionType: 'order_balance_expired',
+    orderId,
+    listingId: order.listingId,
+    beforeState: { status: order.status, transactionStatus: order.transactionStatus },
+    afterState: { status: 'cancelled', transactionStatus: 'CANCELLED', depositExpiryOutcome: outcome, relisted },
+    metadata: { balanceDueAt: getOrderBalanceDueAt(order)?.toISOString(), depositAmount, refundCents, stripeRefundId },
+    source: 'cron',
+  });
+
+  try {
+    const nowTs = Timestamp.fromDate(now);
+    await appendOrderTimelineEvent({
+      db,
+      orderId,
+      event: {
+        id: `BALANCE_EXPIRED:${orderId}`,
+        type: 'BALANCE_EXPIRED',
+        label: outcome === 'refunded' ? 'Balance not paid – order cancelled, deposit refunded' : 'Balance not paid – order cancelled, deposit forfeited',
+        actor: 'system',
+        visibility: 'both',
+        timestamp: nowTs,
+      },
+      now: nowTs,
+    });
+  } catch (e: any) {
+    logWarn('expireUnpaidBalance: timeline append failed', { requestId, orderId, error: String(e?.message || e) });
+  }
+
+  const buyerId = String(order.buyerId || '');
+  const sellerId = String(order.sellerId || '');
+  if (buyerId) {
+    await resolveActionNotifications(db, buyerId, { type: 'order_final_payment_due', entityId: orderId }).catch(() => {});
+  }
+  const base = getSiteUrl();
+  const listingTitle = String(order.listingSnapshot?.title || order.listingTitle || 'Your order');
+  for (const [role, userId] of [
+    ['buyer', buyerId],
+    ['seller', sellerId],
+  ] as const) {
+    if (!userId) continue;
+    try {
+      await emitAndProcessEventForUser({
+        type: 'Order.DepositExpired',
+        actorId: null,
+        entityType: 'order',
+        entityId: orderId,
+        targetUserId: userId,
+        payload: {
+          type: 'Order.DepositExpired',
+          orderId,
+          listingId: String(order.listingId || ''),
+          listingTitle,
+          orderUrl: role === 'buyer' ? `${base}/dashboard/orders/${orderId}` : `${base}/seller/orders/${orderId}`,
+          role,
+          depositAmount,
+          outcome,
+          relisted,
+        },
+        optionalHash: `deposit_expired:${role}`,
+      });
+    } catch (e: any) {
+      logWarn('expireUnpaidBalance: notification failed', { requestId, orderId, role, error: String(e?.message || e) });
+    }
+  }
+
+  logInfo('expireUnpaidBalance: order cancelled', { requestId, orderId, outcome, relisted, refundCents });
+  return outcome;
+}
@@ -2,8 +2,10 @@ import crypto from 'node:crypto';
 import PDFDocument from 'pdfkit';
 import type { Firestore, Timestamp } from 'firebase-admin/firestore';
 import type { Bucket } from '@google-cloud/storage';
-import type { HorseAttributes, ListingCategory } from '@/lib/types';
+import type { HorseAttributes, ListingCategory, OrderSalesTax } from '@/lib/types';
 import { getCategoryRequirements } from '@/lib/compliance/requirements';
+import { formatSalesTaxLabel } from '@/lib/tax/salesTax';
+import { recordAnimalBillOfSale } from '@/lib/animals/registry';
 
 export const BILL_OF_SALE_DOC_ID = 'bill_of_sale';
 export const BILL_OF_SALE_VERSION = 'v1';
@@ -33,6 +35,10 @@ function clean(s: any) {
   return String(s || '').trim();
 }
 
+function formatUsd(n: number) {
+  return `$${Number(n).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
 export type BillOfSaleParty = {
   uid: string;
   fullName: string;
@@ -65,6 +71,8 @@ export type BillOfSaleData = {
   orderId: string;
   saleDateIso: string; // yyyy-mm-dd
   purchasePriceUsd: number;
+  /** Sales tax snapshot from the order (omitted on orders created before tax collection). */
+  salesTax?: OrderSalesTax | null;
   seller: BillOfSaleParty;
   buyer: BillOfSaleParty;
   horse: BillOfSaleHorse;
@@ -168,7 +176,8 @@ export function renderBillOfSaleHtml(data: BillOfSaleData): string {
 
     <h2 style="margin:18px 0 6px 0;">Purchase</h2>
     <table style="border-collapse:collapse; width:100%; font-size:14px;">
-      ${line('Purchase price', `$${Number(data.purchasePriceUsd).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`)}
+      ${line('Purchase price', formatUsd(data.purchasePriceUsd))}
+      ${data.salesTax ? line(formatSalesTaxLabel(data.salesTax), formatUsd(data.salesTax.amount)) : ''}
       ${line('Delivery / possession', data.possessionText)}
       ${line('Liens / title', data.lienDisclosureText)}
       ${line('As-is', data.asIsDisclaimerText)}
@@ -245,7 +254,8 @@ export async function renderBillOfSalePdfBuffer(
       doc.moveDown(0.75);
 
       sh('Purchase');
-      kv('Purchase price', `$${Number(data.purchasePriceUsd).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`);
+      kv('Purchase price', formatUsd(data.purchasePriceUsd));
+      if (data.salesTax) kv(formatSalesTaxLabel(data.salesTax), formatUsd(data.salesTax.amount));
       kv('Delivery / possession', data.possessionText);
       kv('Liens / title', data.lienDisclosureText);
       kv('As-is', data.asIsDisclaimerText);
@@ -304,8 +314,9 @@ export async function ensureBillOfSaleForOrder(params: {
   db: Firestore;
   bucket: Bucket;
   orderId: string;
-  listing: { id: string; title: string; category: ListingCategory; attributes: any };
+  listing: { id: string; title: string; category: ListingCategory; attributes: any; animalIds?: string[] };
   orderAmountUsd: number;
+  salesTax?: OrderSalesTax | null;
   buyer: BillOfSaleParty;
   seller: BillOfSaleParty;
   now: Timestamp;
@@ -345,6 +356,7 @@ export async function ensureBillOfSaleForOrder(params: {
     orderId: params.orderId,
     saleDateIso,
     purchasePriceUsd: params.orderAmountUsd,
+    ...(params.salesTax ? { salesTax: params.salesTax } : {}),
     seller: params.seller,
     buyer: params.buyer,
     horse,
@@ -378,6 +390,7 @@ export async function ensureBillOfSaleForOrder(params: {
         mimeType: 'application/pdf',
         sha256: uploaded.sha256,
         htmlSha256: sha256Hex(html),
+        ...(params.listing.animalIds?.length ? { animalIds: params.listing.animalIds } : {}),
       },
     },
     { merge: true }
@@ -392,6 +405,13 @@ export async function ensureBillOfSaleForOrder(params: {
     { merge: true }
   );
 
+  // Animal registry: the bill of sale is part of the animal's transfer history (best-effort).
+  try {
+    await recordAnimalBillOfSale(params.db, { orderId: params.orderId, animalIds: params.listing.animalIds || [], at: params.now });
+  } catch {
+    // ignore
+  }
+
   return { ok: true, url: uploaded.url, sha256: uploaded.sha256, created: true };
 }
 
@@ -1,13 +1,33 @@
 import { Timestamp, type Firestore } from 'firebase-admin/firestore';
 import { normalizeCategory } from '@/lib/listings/normalizeCategory';
-import { getRequiredOrderDocsForListing } from '@/lib/compliance/policy';
+import { getOrderComplianceRoute, getPayoutHoldRequirements, getRouteMovementRequirements } from '@/lib/compliance/policy';
 
 export type ComplianceDocsStatus = {
   required: string[];
   provided: string[];
   missing: string[];
+  verified: string[];
+  originState: string | null;
+  destinationState: string | null;
+  interstate: boolean;
 };
 
+/**
+ * Next `payoutHoldReason` for the order's movement paperwork: `MISSING_<type>` for the first hold doc not yet
+ * verified, cleared back to 'none' once all are. Holds set for other reasons (disputes, admin, exotics review)
+ * are left alone, and whitetail keeps its TPWD transfer flow.
+ */
+export function getComplianceDocsHoldReason(params: {
+  currentHoldReason: string | null | undefined;
+  holdDocuments: string[];
+  verified: string[];
+}): string | null {
+  const current = params.currentHoldReason || 'none';
+  if (current !== 'none' && !current.startsWith('MISSING_')) return current;
+  const unverified = params.holdDocuments.filter((t) => !params.verified.includes(t));
+  return unverified.length > 0 ? `MISSING_${unverified[0]}` : 'none';
+}
+
 export async function recomputeOrderComplianceDocsStatus(params: {
   db: Firestore;
   orderId: string;
@@ -26,27 +46,50 @@ export async function recomputeOrderComplianceDocsStatus(params: {
   const listing = listingSnap.data() as any;
 
   const category = normalizeCategory(listing?.category);
-  const required = getRequiredOrderDocsForListing(category as any, listing?.attributes as any).map(String);
+
+  // Destination: delivery address on the order, else the buyer's profile state (pickup orders).
+  let buyerState: string | null = null;
+  if (!order?.deliveryAddress?.state && !order?.delivery?.buyerAddress?.state && order?.buyerId) {
+    const buyerSnap = await db.collection('users').doc(String(order.buyerId)).get();
+    buyerState = (buyerSnap.data() as any)?.profile?.location?.state || null;
+  }
+  const route = getOrderComplianceRoute(order, listing, buyerState);
+  const movement = getRouteMovementRequirements(category as any, listing?.attributes as any, route);
+  const required = movement.documents.map(String);
 
   const docsSnap = await db.collection('orders').doc(orderId).collection('documents').get();
-  const provided = Array.from(
-    new Set(
-      docsSnap.docs
-        .map((d) => String((d.data() as any)?.type || ''))
-        .filter((t) => t.length > 0)
-    )
-  );
+  const docs = docsSnap.docs.map((d) => d.data() as any);
+  const typesWhere = (pred: (d: any) => boolean) =>
+    Array.from(new Set(docs.filter(pred).map((d) => String(d?.type || '')).filter((t) => t.length > 0)));
+  const provided = typesWhere(() => true);
+  const verified = typesWhere((d) => d?.status === 'verified').filter((t) => required.includes(t));
 
   const missing = required.filter((t) => !provided.includes(t));
-  const status: ComplianceDocsStatus = { required, provided, missing };
-
-  await orderRef.set(
-    {
-      complianceDocsStatus: status,
-      updatedAt: Timestamp.now(),
-    },
-    { merge: true }
-  );
+  const status: ComplianceDocsStatus = {
+    required,
+    provided,
+    missing,
+    verified,
+    originState: movement.originState,
+    destinationState: movement.destinationState,
+    interstate: movement.interstate,
+  };
+
+  const update: Record<string, any> = {
+    complianceDocsStatus: status,
+    updatedAt: Timestamp.now(),
+  };
+  if (category !== 'whitetail_breeder') {
+    const holdDocuments = getPayoutHoldRequirements(category as any, listing?.attributes as any, route).requiredVerifiedDocs;
+    const nextHold = getComplianceDocsHoldReason({
+      currentHoldReason: order?.payoutHoldReason,
+      holdDocuments: holdDocuments.map(String),
+      verified,
+    });
+    if (nextHold && nextHold !== (order?.payoutHoldReason || 'none')) update.payoutHoldReason = nextHold;
+  }
+
+  await orderRef.set(update, { merge: true });
 
   return status;
 }
@@ -5,6 +5,7 @@
  */
 
 import { Order, PayoutHoldReason, DisputeStatus } from '@/lib/types';
+import { getComplianceDocumentLabel } from '@/lib/compliance/expiry';
 
 export interface HoldInfo {
   reason: string;
@@ -48,6 +49,18 @@ export function getHoldInfo(order: Order): HoldInfo {
     return { reason, nextAction, earliestReleaseDate, canRelease };
   }
 
+  // Check movement paperwork (set by lib/orders/complianceDocsStatus.ts from the order's route)
+  if (order.payoutHoldReason && order.payoutHoldReason.startsWith('MISSING_')) {
+    const docType = order.payoutHoldReason.slice('MISSING_'.length);
+    const missing = order.complianceDocsStatus?.missing || [];
+    reason = `Missing verified ${getComplianceDocumentLabel(docType)}`;
+    nextAction = missing.includes(docType as any)
+      ? `Seller must upload the ${getComplianceDocumentLabel(docType)} for admin verification`
+      : `Admin must verify the uploaded ${getComplianceDocumentLabel(docType)}`;
+    canRelease = false;
+    return { reason, nextAction, earliestReleaseDate, canRelease };
+  }
+
   // Check protection window
   if (order.payoutHoldReason === 'protection_window' && order.protectionEndsAt) {
     const protectionEndsAt = new Date(order.protectionEndsAt);
@@ -0,0 +1,178 @@
+import { FieldValue, Timestamp, type Firestore } from 'firebase-admin/firestore';
+import { createAuditLog } from '@/lib/audit/logger';
+import { logInfo, logWarn } from '@/lib/monitoring/logger';
+import { emitAndProcessEventForUser } from '@/lib/notifications';
+import { getSiteUrl } from '@/lib/site-url';
+import { appendOrderTimelineEvent } from '@/lib/orders/timeline';
+import {
+  getDaysOverdue,
+  getInstallmentDueAt,
+  getNextInstallment,
+  shouldDefaultInstallmentPlan,
+} from '@/lib/pricing/installments';
+
+/**
+ * Installment plan dunning (see lib/pricing/installments.ts).
+ *
+ * `installmentDunning` sends reminders and overdue notices for the next unpaid installment and, once it is
+ * `INSTALLMENT_DEFAULT_AFTER_DAYS` late, marks the plan defaulted. A default does not cancel the order: the
+ * animal / equipment stays held, buyer and seller are told, and the order shows up in the admin
+ * "Installment plans" view for follow-up. Paying the missed installment puts the plan back in good standing.
+ */
+
+export type InstallmentDefaultOutcome = 'defaulted' | 'noop_not_due' | 'noop_not_active';
+
+export async function sendInstallmentNotice(params: {
+  db: Firestore;
+  orderId: string;
+  order: any;
+  offsetDays: number;
+  now: Date;
+  requestId?: string;
+}): Promise<boolean> {
+  const { db, orderId, order, offsetDays, now, requestId } = params;
+  const plan = order?.installmentPlan;
+  const next = getNextInstallment(plan);
+  const dueAt = getInstallmentDueAt(next);
+  const buyerId = String(order?.buyerId || '');
+  if (!plan || !next || !dueAt || !buyerId) return false;
+  try {
+    await emitAndProcessEventForUser({
+      type: 'Order.InstallmentDue',
+      actorId: null,
+      entityType: 'order',
+      entityId: orderId,
+      targetUserId: buyerId,
+      payload: {
+        type: 'Order.InstallmentDue',
+        orderId,
+        listingId: String(order?.listingId || ''),
+        listingTitle: String(order?.listingSnapshot?.title || order?.listingTitle || 'Your order'),
+        orderUrl: `${getSiteUrl()}/dashboard/orders/${orderId}`,
+        installmentNumber: next.number,
+        installmentCount: plan.installmentCount,
+        amount: next.amount,
+        dueAt: dueAt.toISOString(),
+        daysOverdue: getDaysOverdue(dueAt, now),
+      },
+      optionalHash: `installment_notice:${next.number}:${offsetDays}`,
+    });
+    await db
+      .collection('orders')
+      .doc(orderId)
+      .set(
+        { installmentNoticesSent: FieldValue.arrayUnion(`${next.number}:${offsetDays}`), updatedAt: new Date() },
+        { merge: true }
+      );
+    return true;
+  } catch (e: any) {
+    logWarn('sendInstallmentNotice failed', { requestId, orderId, offsetDays, error: String(e?.message || e) });
+    return false;
+  }
+}
+
+/**
+ * Put a plan in default once its next installment is past the grace period. Re-checks the plan inside the
+ * transaction (retry-safe); audit log, timeline and notifications follow once it has committed.
+ */
+export async function markInstallmentPlanDefaulted(params: {
+  db: Firestore;
+  orderId: string;
+  now: Date;
+  requestId?: string;
+}): Promise<InstallmentDefaultOutcome> {
+  const { db, orderId, now, requestId } = params;
+  const orderRef = db.collection('orders').doc(orderId);
+
+  const result = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(orderRef);
+    if (!snap.exists) return { outcome: 'noop_not_active' as const };
+    const order = snap.data() as any;
+    const plan = order.installmentPlan;
+    if (!plan || plan.status !== 'active' || order.finalPaymentConfirmedAt) return { outcome: 'noop_not_active' as const };
+    if (!shouldDefaultInstallmentPlan(plan, now)) return { outcome: 'noop_not_due' as const };
+    tx.set(
+      orderRef,
+      {
+        installmentPlan: { ...plan, status: 'defaulted', defaultedAt: now },
+        installmentsPending: false,
+        updatedAt: now,
+        lastUpdatedByRole: 'admin',
+      },
+      { merge: true }
+    );
+    return { outcome: 'defaulted' as const, order };
+  });
+
+  if (result.outcome !== 'defaulted') return result.outcome;
+  const { order } = result;
+  const next = getNextInstallment(order.installmentPlan);
+  const dueAt = getInstallmentDueAt(next);
+  const daysOverdue = dueAt ? getDaysOverdue(dueAt, now) : 0;
+
+  await createAuditLog(db, {
+    actorUid: 'system',
+    actorRole: 'system',
+    actionType: 'order_installment_defaulted',
+    orderId,
+    listingId: order.listingId,
+    beforeState: { installmentPlanStatus: 'active' },
+    afterState: { installmentPlanStatus: 'defaulted' },
+    metadata: { installmentNumber: next?.number, amount: next?.amount, dueAt: dueAt?.toISOString(), daysOverdue },
+    source: 'cron',
+  });
+
+  try {
+    const nowTs = Timestamp.fromDate(now);
+    await appendOrderTimelineEvent({
+      db,
+      orderId,
+      event: {
+        id: `INSTALLMENT_PLAN_DEFAULTED:${orderId}:${next?.number ?? 0}`,
+        type: 'INSTALLMENT_PLAN_DEFAULTED',
+        label: `Installment ${next?.number ?? ''} missed – plan in default`,
+        actor: 'system',
+        visibility: 'both',
+        timestamp: nowTs,
+      },
+      now: nowTs,
+    });
+  } catch (e: any) {
+    logWarn('markInstallmentPlanDefaulted: timeline append failed', { requestId, orderId, error: String(e?.message || e) });
+  }
+
+  const base = getSiteUrl();
+  const listingTitle = String(order.listingSnapshot?.title || order.listingTitle || 'Your order');
+  for (const [role, userId] of [
+    ['buyer', String(order.buyerId || '')],
+    ['seller', String(order.sellerId || '')],
+  ] as const) {
+    if (!userId || !next) continue;
+    try {
+      await emitAndProcessEventForUser({
+        type: 'Order.InstallmentPlanDefaulted',
+        actorId: null,
+        entityType: 'order',
+        entityId: orderId,
+        targetUserId: userId,
+        payload: {
+          type: 'Order.InstallmentPlanDefaulted',
+          orderId,
+          listingId: String(order.listingId || ''),
+          listingTitle,
+          orderUrl: role === 'buyer' ? `${base}/dashboard/orders/${orderId}` : `${base}/seller/orders/${orderId}`,
+          role,
+          installmentNumber: next.number,
+          amount: next.amount,
+          daysOverdue,
+        },
+        optionalHash: `installment_defaulted:${next.number}:${role}`,
+      });
+    } catch (e: any) {
+      logWarn('markInstallmentPlanDefaulted: notification failed', { requestId, orderId, role, error: String(e?.message || e) });
+    }
+  }
+
+  logInfo('markInstallmentPlanDefaulted: plan defaulted', { requestId, orderId, installmentNumber: next?.number, daysOverdue });
+  return 'defaulted';
+}
@@ -0,0 +1,222 @@
+/**
+ * Order groups (multi-listing cart checkout from one seller).
+ *
+ * Each cart line becomes its own order so inventory, `soldPriceCents`, disputes and payouts stay per-listing.
+ * The parent `orderGroups/{id}` doc ties them together, and fulfillment steps done on any order in the group
+ * (delivery address, delivery windows, bill of sale) are mirrored onto its siblings.
+ */
+
+import type { CartItemDoc, ListingDepositTerms, OrderGroupLine, TransactionStatus } from '@/lib/types';
+import { MARKETPLACE_FEE_PERCENT } from '@/lib/pricing/plans';
+import { quoteDeposit, serializeDepositTermsMetadata, toOrderDepositTerms } from '@/lib/pricing/deposit';
+import { getEffectiveTransactionStatus } from '@/lib/orders/status';
+import { appendOrderTimelineEvent, type OrderTimelineEventInput } from '@/lib/orders/timeline';
+import { serializeSalesTaxMetadata } from '@/lib/tax/salesTax';
+
+/** Stripe Checkout caps line items per session; keep well under it. */
+export const MAX_ORDER_GROUP_LINES = 20;
+
+export type CartSellerGroup<T extends Pick<CartItemDoc, 'sellerId'>> = { sellerId: string; items: T[] };
+
+/** Cart items bucketed by seller, preserving first-seen order (one checkout per bucket). */
+export function groupCartItemsBySeller<T extends Pick<CartItemDoc, 'sellerId'>>(items: T[]): CartSellerGroup<T>[] {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const sellerId = String(item?.sellerId || '');
+    if (!sellerId) continue;
+    const bucket = groups.get(sellerId);
+    if (bucket) bucket.push(item);
+    else groups.set(sellerId, [item]);
+  }
+  return Array.from(groups.entries()).map(([sellerId, groupItems]) => ({ sellerId, items: groupItems }));
+}
+
+/**
+ * Price one line the same way single-listing checkout does: group lots are priced for the whole lot,
+ * everything else is unit price × quantity; the deposit (and the platform fee on it) is charged now.
+ * Bundle offers pass the line's share of the agreed amount as `orderTotal` instead; `depositTerms` are the
+ * listing's own (see lib/pricing/deposit.ts).
+ */
+export function buildOrderGroupLine(input: {
+  listingId: string;
+  listingTitle: string;
+  unitPrice: number;
+  quantity: number;
+  isGroupLot: boolean;
+  orderTotal?: number;
+  depositTerms?: ListingDepositTerms | null;
+}): OrderGroupLine {
+  const quantity = Math.max(1, Math.floor(input.quantity));
+  const orderTotal =
+    typeof input.orderTotal === 'number'
+      ? input.orderTotal
+      : input.isGroupLot
+        ? input.unitPrice
+        : input.unitPrice * quantity;
+  const deposit = quoteDeposit(orderTotal, input.depositTerms, quantity);
+  const depositCents = Math.round(deposit.depositAmount * 100);
+  return {
+    listingId: input.listingId,
+    listingTitle: input.listingTitle,
+    quantity,
+    unitPrice: input.unitPrice,
+    orderTotal,
+    depositAmount: deposit.depositAmount,
+    finalPaymentAmount: deposit.finalPaymentAmount,
+    depositCents,
+    platformFeeCents: Math.round(depositCents * MARKETPLACE_FEE_PERCENT),
+    ...(deposit.custom ? { depositTerms: toOrderDepositTerms(input.depositTerms, deposit) } : {}),
+  };
+}
+
+export function summarizeOrderGroupLines(lines: OrderGroupLine[]): {
+  orderTotal: number;
+  depositCents: number;
+  platformFeeCents: number;
+} {
+  return lines.reduce(
+    (acc, l) => ({
+      orderTotal: acc.orderTotal + l.orderTotal,
+      depositCents: acc.depositCents + l.depositCents,
+      platformFeeCents: acc.platformFeeCents + l.platformFeeCents,
+    }),
+    { orderTotal: 0, depositCents: 0, platformFeeCents: 0 }
+  );
+}
+
+/** Sales tax charged with a line, in cents (0 for exempt lines and groups created before tax collection). */
+export function getOrderGroupLineSalesTaxCents(line: Pick<OrderGroupLine, 'salesTax'>): number {
+  return Math.round((line.salesTax?.amount || 0) * 100);
+}
+
+/**
+ * Per-line session metadata for the webhook. The group session itself carries no `listingId`,
+ * so the order-creation path runs once per line with these values in its place.
+ */
+export function buildOrderGroupLineMetadata(
+  sessionMetadata: Record<string, string>,
+  orderGroupId: string,
+  line: OrderGroupLine
+): Record<string, string> {
+  return {
+    ...sessionMetadata,
+    orderGroupId,
+    listingId: line.listingId,
+    listingTitle: line.listingTitle,
+    quantity: String(line.quantity),
+    unitPrice: String(line.unitPrice),
+    orderTotal: String(line.orderTotal),
+    depositAmount: String(line.depositAmount),
+    finalPaymentAmount: String(line.finalPaymentAmount),
+    lineAmount: String(line.depositCents + getOrderGroupLineSalesTaxCents(line)),
+    platformFee: String(line.platformFeeCents),
+    sellerAmount: String(line.depositCents - line.platformFeeCents),
+    ...(line.salesTax ? { salesTax: serializeSalesTaxMetadata(line.salesTax) } : {}),
+    ...(line.depositTerms ? { depositTerms: serializeDepositTermsMetadata(line.depositTerms) } : {}),
+  };
+}
+
+type OrderGroupLineRefundOrder = {
+  orderGroupId?: string | null;
+  lineAmount?: number | null;
+  lineRefundedAmount?: number | null;
+  amount?: number | null;
+  depositAmount?: number | null;
+  refundAmount?: number | null;
+  salesTax?: { amount?: number | null } | null;
+};
+
+function dollarsToCents(v: unknown): number {
+  return typeof v === 'number' && Number.isFinite(v) ? Math.round(v * 100) : 0;
+}
+
+/**
+ * Refund for one cart line. Lines share the group's PaymentIntent, so a refund without an amount (or one sized
+ * off the order total) would also refund the sibling lines: cap it at what this line was charged (`lineAmount`)
+ * less what was already refunded on it. `requestedCents` null refunds whatever is left on the line. Null for
+ * orders that aren't part of a group.
+ *
+ * Orders from before `lineAmount` was stored fall back to deposit (or amount) + sales tax, and to the running
+ * `refundAmount` for what was already refunded.
+ */
+export function getOrderGroupLineRefund(
+  order: OrderGroupLineRefundOrder,
+  requestedCents: number | null
+): { amountCents: number; lineLeftCents: number; lineRefundedAmountAfter: number } | null {
+  if (!order.orderGroupId) return null;
+  const lineCents =
+    typeof order.lineAmount === 'number'
+      ? dollarsToCents(order.lineAmount)
+      : dollarsToCents(order.depositAmount ?? order.amount) + dollarsToCents(order.salesTax?.amount);
+  const refundedCents = Math.min(
+    lineCents,
+    typeof order.lineRefundedAmount === 'number' ? dollarsToCents(order.lineRefundedAmount) : dollarsToCents(order.refundAmount)
+  );
+  const lineLeftCents = Math.max(0, lineCents - refundedCents);
+  const amountCents = requestedCents === null ? lineLeftCents : Math.max(0, Math.min(Math.round(requestedCents), lineLeftCents));
+  return { amountCents, lineLeftCents, lineRefundedAmountAfter: (refundedCents + amountCents) / 100 };
+}
+
+export type OrderGroupSibling = { id: string; data: any };
+
+/**
+ * Siblings a fulfillment step should be mirrored onto: same group, same buyer and seller,
+ * and currently in one of `statuses` (orders that moved on or were cancelled are left alone).
+ */
+export function selectOrderGroupSiblings(
+  order: OrderGroupSibling,
+  candidates: OrderGroupSibling[],
+  statuses: TransactionStatus[]
+): OrderGroupSibling[] {
+  const groupId = String(order.data?.orderGroupId || '');
+  if (!groupId) return [];
+  return candidates.filter(
+    (c) =>
+      c.id !== order.id &&
+      String(c.data?.orderGroupId || '') === groupId &&
+      c.data?.buyerId === order.data?.buyerId &&
+      c.data?.sellerId === order.data?.sellerId &&
+      statuses.includes(getEffectiveTransactionStatus(c.data))
+  );
+}
+
+/**
+ * Server-side: apply the same fulfillment update to every eligible sibling in one batch, then append
+ * the matching timeline event to each (best-effort). Returns the sibling order ids that were updated.
+ * Notifications stay with the caller so the other party hears about the step once.
+ */
+export async function mirrorToOrderGroupSiblings(params: {
+  db: FirebaseFirestore.Firestore;
+  orderId: string;
+  orderData: any;
+  statuses: TransactionStatus[];
+  update: (sibling: OrderGroupSibling) => Record<string, any>;
+  timelineEvent?: (siblingId: string) => OrderTimelineEventInput;
+}): Promise<string[]> {
+  const { db, orderId, orderData } = params;
+  const groupId = String(orderData?.orderGroupId || '');
+  if (!groupId) return [];
+
+  const snap = await db.collection('orders').where('orderGroupId', '==', groupId).get();
+  const siblings = selectOrderGroupSiblings(
+    { id: orderId, data: orderData },
+    snap.docs.map((d) => ({ id: d.id, data: d.data() })),
+    params.statuses
+  );
+  if (siblings.length === 0) return [];
+
+  const batch = db.batch();
+  for (const s of siblings) batch.update(db.collection('orders').doc(s.id), params.update(s));
+  await batch.commit();
+
+  if (params.timelineEvent) {
+    for (const s of siblings) {
+      try {
+        await appendOrderTimelineEvent({ db, orderId: s.id, event: params.timelineEvent(s.id) });
+      } catch {
+        // best-effort
+      }
+    }
+  }
+  return siblings.map((s) => s.id);
+}
@@ -13,6 +13,7 @@
 import type { Order, TransactionStatus } from '@/lib/types';
 import { isValidNonEpochDate } from '@/lib/utils';
 import { getEffectiveTransactionStatus } from './status';
+import { getInstallmentDueAt, getInstallmentsRemaining, getNextInstallment } from '@/lib/pricing/installments';
 import { isRegulatedWhitetailDeal, hasComplianceConfirmations } from '@/lib/compliance/whitetail';
 import { ORDER_COPY, getStatusLabel } from './copy';
 
@@ -20,8 +21,10 @@ import { ORDER_COPY, getStatusLabel } from './copy';
  * Balance due for final payment (deposit flow).
  * When the buyer paid a deposit, balance due = order total − deposit.
  * Otherwise uses stored finalPaymentAmount (legacy or precomputed).
+ * Installment orders: the sum of the installments still unpaid.
  */
 export function getOrderBalanceDue(order: Order): number {
+  if (order.installmentPlan) return getInstallmentsRemaining(order.installmentPlan);
   const total = typeof order.amount === 'number' ? order.amount : 0;
   const deposit = typeof (order as any).depositAmount === 'number' ? (order as any).depositAmount : 0;
   if (deposit > 0 && total >= deposit) {
@@ -310,6 +313,21 @@ export function getNextRequiredAction(order: Order, role: 'buyer' | 'seller' | '
 
   // Role-specific actions (seller delivery only)
   if (role === 'buyer') {
+    const nextInstallment = order.installmentPlan && !order.finalPaymentConfirmedAt ? getNextInstallment(order.installmentPlan) : null;
+    const nextInstallmentDueAt = getInstallmentDueAt(nextInstallment);
+    if (nextInstallment && nextInstallmentDueAt && nextInstallmentDueAt.getTime() - Date.now() <= 3 * 24 * 60 * 60 * 1000) {
+      const overdue = nextInstallmentDueAt.getTime() < Date.now();
+      return {
+        title: `Installment ${nextInstallment.number} of ${order.installmentPlan!.installmentCount}`,
+        description: overdue
+          ? `$${nextInstallment.amount.toLocaleString()} is overdue. Delivery is held until your plan is paid off.`
+          : `$${nextInstallment.amount.toLocaleString()} due ${nextInstallmentDueAt.toLocaleDateString()}.`,
+        ctaLabel: 'Pay installment',
+        ctaAction: `/dashboard/orders/${order.id}#pay-installment`,
+        severity: overdue ? 'danger' : 'warning',
+        ownerRole: 'buyer',
+      };
+    }
     const balanceDue = getOrderBalanceDue(order);
     const hasFinalPaymentDue = balanceDue > 0 && !(order as any).finalPaymentConfirmedAt;
     if (
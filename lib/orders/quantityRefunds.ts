@@ -0,0 +1,227 @@
+/**
+ * Per-head refunds, dispute claims and delivered-quantity records for multi-quantity orders.
+ *
+ * - Per-head price comes from `unitPrice` when it reconciles with `amount` (fixed_group); group lots and
+ *   bundle lines are priced as a whole, so their per-head price is `amount / quantity`.
+ * - Refunds accumulate: `refundAmount` / `refundedQuantity` on the order are running totals (amount-based
+ *   refunds add to `refundAmount` too), and the head that brings the order to its full quantity takes whatever
+ *   is left so rounding never over- or under-refunds.
+ * - `amount` / `refundAmount` are pre-tax. Sales tax collected at checkout goes back pro rata with each refund
+ *   (`taxCents`, running total `refundedTaxAmount`); the refund that completes the order returns what is left of
+ *   it. Stripe is charged back `amountCents + taxCents`.
+ *
+ * Pure helpers only; `/api/stripe/refunds/process`, `disputes/open|resolve` and the fulfillment routes write.
+ */
+
+import type { OrderQuantityFulfillment } from '@/lib/types';
+
+type QuantityOrderLike = {
+  amount?: number | null;
+  quantity?: number | null;
+  unitPrice?: number | null;
+  refundAmount?: number | null;
+  refundedQuantity?: number | null;
+  salesTax?: { amount?: number | null } | null;
+  refundedTaxAmount?: number | null;
+  status?: string | null;
+  transportOption?: string | null;
+  quantityFulfillment?: OrderQuantityFulfillment | null;
+};
+
+export type PerHeadRefundErrorCode = 'INVALID_QUANTITY' | 'NOTHING_TO_REFUND';
+
+export type PerHeadRefundResult =
+  | {
+      ok: true;
+      headCount: number;
+      perHeadPrice: number;
+      amount: number;
+      amountCents: number;
+      /** Sales tax refunded with it (on top of `amountCents`). */
+      taxCents: number;
+      /** Running totals to write back to the order. */
+      refundAmountAfter: number;
+      refundedTaxAmountAfter: number;
+      refundedQuantityAfter: number;
+      isFullRefund: boolean;
+    }
+  | { ok: false; code: PerHeadRefundErrorCode; message: string };
+
+function toCents(n: number): number {
+  return Math.round(n * 100);
+}
+
+function num(v: unknown): number {
+  return typeof v === 'number' && Number.isFinite(v) ? v : 0;
+}
+
+/**
+ * Sales tax to refund with a refund that brings the pre-tax running total to `refundedAfterCents`: the order's
+ * tax pro rata to what has been refunded, less the tax already refunded (all that is left on a full refund).
+ */
+export function computeRefundTax(
+  order: QuantityOrderLike,
+  refundedAfterCents: number,
+  isFullRefund: boolean
+): { taxCents: number; refundedTaxAmountAfter: number } {
+  const taxTotalCents = toCents(num(order.salesTax?.amount));
+  const alreadyCents = Math.min(taxTotalCents, toCents(num(order.refundedTaxAmount)));
+  const totalCents = toCents(num(order.amount));
+  const owedCents = isFullRefund || totalCents <= 0
+    ? taxTotalCents
+    : Math.min(taxTotalCents, Math.round((taxTotalCents * refundedAfterCents) / totalCents));
+  const taxCents = Math.max(0, owedCents - alreadyCents);
+  return { taxCents, refundedTaxAmountAfter: (alreadyCents + taxCents) / 100 };
+}
+
+export function getOrderUnitCount(order: QuantityOrderLike): number {
+  const q = Math.floor(num(order.quantity));
+  return q >= 1 ? q : 1;
+}
+
+/** Per-head price in dollars (see module note for group lots). */
+export function getOrderPerHeadPrice(order: QuantityOrderLike): number {
+  const qty = getOrderUnitCount(order);
+  const totalCents = toCents(num(order.amount));
+  const unitPrice = num(order.unitPrice);
+  if (unitPrice > 0 && Math.abs(toCents(unitPrice) * qty - totalCents) <= qty) return unitPrice;
+  return Math.round(totalCents / qty) / 100;
+}
+
+/** Head not yet refunded (0 once the order is fully refunded). */
+export function getRefundableQuantity(order: QuantityOrderLike): number {
+  if (order.status === 'refunded') return 0;
+  const qty = getOrderUnitCount(order);
+  return Math.max(0, qty - Math.max(0, Math.floor(num(order.refundedQuantity))));
+}
+
+export function computePerHeadRefund(order: QuantityOrderLike, headCount: number): PerHeadRefundResult {
+  const qty = getOrderUnitCount(order);
+  const remaining = getRefundableQuantity(order);
+  if (remaining <= 0) {
+    return { ok: false, code: 'NOTHING_TO_REFUND', message: 'Every head on this order has already been refunded.' };
+  }
+  if (!Number.isInteger(headCount) || headCount < 1 || headCount > remaining) {
+    return {
+      ok: false,
+      code: 'INVALID_QUANTITY',
+      message: `Head to refund must be a whole number between 1 and ${remaining}.`,
+    };
+  }
+
+  const totalCents = toCents(num(order.amount));
+  const alreadyRefundedCents = toCents(num(order.refundAmount));
+  const leftCents = Math.max(0, totalCents - alreadyRefundedCents);
+  const perHeadPrice = getOrderPerHeadPrice(order);
+  const refundedQuantityAfter = qty - remaining + headCount;
+  const isFullRefund = refundedQuantityAfter >= qty;
+  const amountCents = isFullRefund ? leftCents : Math.min(leftCents, toCents(perHeadPrice) * headCount);
+
+  if (amountCents <= 0) {
+    return { ok: false, code: 'NOTHING_TO_REFUND', message: 'Nothing is left to refund on this order.' };
+  }
+
+  const tax = computeRefundTax(order, alreadyRefundedCents + amountCents, isFullRefund);
+  return {
+    ok: true,
+    headCount,
+    perHeadPrice,
+    amount: amountCents / 100,
+    amountCents,
+    taxCents: tax.taxCents,
+    refundAmountAfter: (alreadyRefundedCents + amountCents) / 100,
+    refundedTaxAmountAfter: tax.refundedTaxAmountAfter,
+    refundedQuantityAfter,
+    isFullRefund,
+  };
+}
+
+export type AmountRefundResult =
+  | {
+      ok: true;
+      amountCents: number;
+      /** Sales tax refunded with it (on top of `amountCents`). */
+      taxCents: number;
+      /** Running totals to write back to the order. */
+      refundAmountAfter: number;
+      refundedTaxAmountAfter: number;
+      isFullRefund: boolean;
+    }
+  | { ok: false; code: 'INVALID_AMOUNT' | 'NOTHING_TO_REFUND'; message: string };
+
+/**
+ * Amount-based refund on top of whatever was already refunded (per head or by amount). `amountCents` null
+ * refunds everything that is left.
+ */
+export function computeAmountRefund(order: QuantityOrderLike, amountCents: number | null): AmountRefundResult {
+  const totalCents = toCents(num(order.amount));
+  const alreadyRefundedCents = toCents(num(order.refundAmount));
+  const leftCents = Math.max(0, totalCents - alreadyRefundedCents);
+  if (order.status === 'refunded' || leftCents <= 0) {
+    return { ok: false, code: 'NOTHING_TO_REFUND', message: 'Nothing is left to refund on this order.' };
+  }
+  const cents = amountCents ?? leftCents;
+  if (cents <= 0) return { ok: false, code: 'INVALID_AMOUNT', message: 'Refund amount must be greater than zero' };
+  if (cents > leftCents) {
+    return {
+      ok: false,
+      code: 'INVALID_AMOUNT',
+      message: alreadyRefundedCents > 0
+        ? `Refund amount cannot exceed the $${(leftCents / 100).toFixed(2)} not yet refunded`
+        : 'Refund amount cannot exceed order amount',
+    };
+  }
+  const isFullRefund = alreadyRefundedCents + cents >= totalCents;
+  const tax = computeRefundTax(order, alreadyRefundedCents + cents, isFullRefund);
+  return {
+    ok: true,
+    amountCents: cents,
+    taxCents: tax.taxCents,
+    refundAmountAfter: (alreadyRefundedCents + cents) / 100,
+    refundedTaxAmountAfter: tax.refundedTaxAmountAfter,
+    isFullRefund,
+  };
+}
+
+/**
+ * Fields to merge into the order for a delivered / picked-up head count. Returns an error message when the
+ * count is out of range; counts are only recorded on multi-quantity orders.
+ */
+export function buildQuantityFulfillmentUpdate(
+  order: QuantityOrderLike,
+  side: 'seller' | 'buyer',
+  count: number,
+  at: Date
+): { ok: true; quantityFulfillment: OrderQuantityFulfillment } | { ok: false; message: string } {
+  const qty = getOrderUnitCount(order);
+  if (!Number.isInteger(count) || count < 0 || count > qty) {
+    return { ok: false, message: `Head count must be a whole number between 0 and ${qty}.` };
+  }
+  const prev = order.quantityFulfillment || null;
+  const next: OrderQuantityFulfillment = {
+    ...(prev || {}),
+    expected: qty,
+    method: prev?.method || (order.transportOption === 'BUYER_TRANSPORT' ? 'pickup' : 'delivery'),
+  };
+  if (side === 'seller') {
+    next.sellerReported = count;
+    next.sellerReportedAt = at;
+  } else {
+    next.buyerReported = count;
+    next.buyerReportedAt = at;
+  }
+  return { ok: true, quantityFulfillment: next };
+}
+
+/** Head short of the expected quantity, preferring the buyer's count when both sides reported. */
+export function getQuantityShortfall(fulfillment: OrderQuantityFulfillment | null | undefined): number {
+  if (!fulfillment) return 0;
+  const reported =
+    typeof fulfillment.buyerReported === 'number'
+      ? fulfillment.buyerReported
+      : typeof fulfillment.sellerReported === 'number'
+        ? fulfillment.sellerReported
+        : null;
+  if (reported === null) return 0;
+  return Math.max(0, fulfillment.expected - reported);
+}
@@ -0,0 +1,249 @@
+/**
+ * Per-listing deposit terms.
+ *
+ * - Listings without `depositTerms` keep the platform default: `CHECKOUT_DEPOSIT_PERCENT` (20%), non-refundable,
+ *   balance due at inspection before delivery.
+ * - Sellers can set a percent or a fixed per-head amount, whether the deposit is refundable, and a balance due
+ *   date (N days after the deposit, or a calendar date). The deposit is always clamped to
+ *   [DEPOSIT_PERCENT_MIN, DEPOSIT_PERCENT_MAX] of the order total so auctions that close low still leave a balance.
+ * - Terms are snapshotted onto the order at checkout (`order.depositTerms`, `order.balanceDueAt`) and never
+ *   re-read from the listing.
+ * - When a balance due date passes (plus `BALANCE_EXPIRY_GRACE_HOURS`), `expireUnpaidBalances` forfeits a
+ *   non-refundable deposit (or refunds a refundable one), cancels the order and relists fixed-price listings.
+ */
+
+import type { ListingDepositTerms, OrderDepositTerms } from '@/lib/types';
+import { CHECKOUT_DEPOSIT_PERCENT } from '@/lib/pricing/plans';
+
+export const DEPOSIT_PERCENT_MIN = 0.1;
+export const DEPOSIT_PERCENT_MAX = 0.9;
+export const BALANCE_DUE_DAYS_MAX = 180;
+/** Reminder schedule (days before the balance due date); each is sent at most once per order. */
+export const BALANCE_REMINDER_DAYS_BEFORE = [7, 3, 1] as const;
+export const BALANCE_EXPIRY_GRACE_HOURS = 48;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export type DepositQuote = {
+  depositAmount: number; // dollars
+  finalPaymentAmount: number; // dollars
+  /** Effective share of the order total taken as deposit (0–1). */
+  percent: number;
+  refundable: boolean;
+  /** True when the listing set its own terms. */
+  custom: boolean;
+};
+
+function toCents(n: number): number {
+  return Math.round(n * 100);
+}
+
+function parseDueDate(date: string): Date | null {
+  if (!DATE_RE.test(date)) return null;
+  // End of the day (UTC) so "due on the 15th" means payable through the 15th.
+  const d = new Date(`${date}T23:59:59.999Z`);
+  return Number.isNaN(d.getTime()) || d.toISOString().slice(0, 10) !== date ? null : d;
+}
+
+/**
+ * Validates and normalizes seller input. `null`/`undefined` means "use the platform default".
+ * Returns the cleaned terms (unknown keys dropped) or an error message for the form.
+ */
+export function validateListingDepositTerms(
+  raw: unknown,
+  opts?: { now?: Date; skipDateWindow?: boolean }
+): { ok: true; terms: ListingDepositTerms | null } | { ok: false; message: string } {
+  if (raw === null || raw === undefined) return { ok: true, terms: null };
+  if (typeof raw !== 'object') return { ok: false, message: 'Deposit terms are invalid.' };
+  const r = raw as Record<string, unknown>;
+
+  const terms: ListingDepositTerms = { mode: r.mode === 'fixed' ? 'fixed' : 'percent', refundable: r.refundable === true };
+  if (terms.mode === 'percent') {
+    const percent = Number(r.percent);
+    if (!Number.isFinite(percent) || percent < DEPOSIT_PERCENT_MIN || percent > DEPOSIT_PERCENT_MAX) {
+      return {
+        ok: false,
+        message: `Deposit percent must be between ${DEPOSIT_PERCENT_MIN * 100}% and ${DEPOSIT_PERCENT_MAX * 100}%.`,
+      };
+    }
+    terms.percent = Math.round(percent * 1000) / 1000;
+  } else {
+    const fixedAmount = Number(r.fixedAmount);
+    if (!Number.isFinite(fixedAmount) || fixedAmount < 1) {
+      return { ok: false, message: 'Fixed deposit must be at least $1.' };
+    }
+    terms.fixedAmount = toCents(fixedAmount) / 100;
+  }
+
+  const hasDays = r.balanceDueDays !== undefined && r.balanceDueDays !== null && r.balanceDueDays !== '';
+  const hasDate = typeof r.balanceDueDate === 'string' && r.balanceDueDate.trim() !== '';
+  if (hasDays && hasDate) return { ok: false, message: 'Choose either days after deposit or a due date, not both.' };
+  if (hasDays) {
+    const days = Number(r.balanceDueDays);
+    if (!Number.isInteger(days) || days < 1 || days > BALANCE_DUE_DAYS_MAX) {
+      return { ok: false, message: `Balance due days must be a whole number between 1 and ${BALANCE_DUE_DAYS_MAX}.` };
+    }
+    terms.balanceDueDays = days;
+  }
+  if (hasDate) {
+    const date = String(r.balanceDueDate).trim();
+    const due = parseDueDate(date);
+    if (!due) return { ok: false, message: 'Balance due date must be a valid YYYY-MM-DD date.' };
+    // Saved terms are re-read at checkout after the date may have passed; resolveBalanceDueAt handles that.
+    if (!opts?.skipDateWindow) {
+      const msAhead = due.getTime() - (opts?.now ?? new Date()).getTime();
+      if (msAhead <= 0) return { ok: false, message: 'Balance due date must be in the future.' };
+      if (msAhead > (BALANCE_DUE_DAYS_MAX + 1) * DAY_MS) {
+        return { ok: false, message: `Balance due date must be within ${BALANCE_DUE_DAYS_MAX} days.` };
+      }
+    }
+    terms.balanceDueDate = date;
+  }
+
+  return { ok: true, terms };
+}
+
+/**
+ * Terms saved on a listing doc, re-validated server-side at checkout (listing docs are client-written).
+ * Invalid terms fall back to the platform default.
+ */
+export function getListingDepositTerms(listing: { depositTerms?: unknown } | null | undefined): ListingDepositTerms | null {
+  const res = validateListingDepositTerms(listing?.depositTerms, { skipDateWindow: true });
+  return res.ok ? res.terms : null;
+}
+
+/** Deposit / balance split for a purchase (dollars, rounded to cents). */
+export function quoteDeposit(
+  orderTotal: number,
+  terms?: ListingDepositTerms | null,
+  quantity: number = 1
+): DepositQuote {
+  const totalCents = Math.max(0, toCents(orderTotal));
+  let depositCents: number;
+  if (!terms) {
+    depositCents = Math.round(totalCents * CHECKOUT_DEPOSIT_PERCENT);
+  } else {
+    const wanted =
+      terms.mode === 'fixed'
+        ? toCents(terms.fixedAmount || 0) * Math.max(1, Math.floor(quantity))
+        : Math.round(totalCents * (terms.percent || CHECKOUT_DEPOSIT_PERCENT));
+    const min = Math.ceil(totalCents * DEPOSIT_PERCENT_MIN);
+    const max = Math.floor(totalCents * DEPOSIT_PERCENT_MAX);
+    depositCents = Math.min(max, Math.max(min, wanted));
+  }
+  return {
+    depositAmount: depositCents / 100,
+    finalPaymentAmount: (totalCents - depositCents) / 100,
+    percent: totalCents > 0 ? depositCents / totalCents : CHECKOUT_DEPOSIT_PERCENT,
+    refundable: terms?.refundable === true,
+    custom: !!terms,
+  };
+}
+
+/** Order snapshot of the terms in force at checkout. */
+export function toOrderDepositTerms(terms: ListingDepositTerms | null | undefined, quote: DepositQuote): OrderDepositTerms {
+  return {
+    percent: Math.round(quote.percent * 10_000) / 10_000,
+    refundable: quote.refundable,
+    custom: quote.custom,
+    ...(terms?.mode === 'fixed' && typeof terms.fixedAmount === 'number' ? { fixedAmount: terms.fixedAmount } : {}),
+    ...(typeof terms?.balanceDueDays === 'number' ? { balanceDueDays: terms.balanceDueDays } : {}),
+    ...(terms?.balanceDueDate ? { balanceDueDate: terms.balanceDueDate } : {}),
+  };
+}
+
+export function serializeDepositTermsMetadata(terms: OrderDepositTerms): string {
+  return JSON.stringify(terms);
+}
+
+export function parseDepositTermsMetadata(raw: string | null | undefined): OrderDepositTerms | null {
+  if (!raw || typeof raw !== 'string') return null;
+  try {
+    const v = JSON.parse(raw);
+    if (!v || typeof v !== 'object' || typeof v.percent !== 'number' || !Number.isFinite(v.percent)) return null;
+    return v as OrderDepositTerms;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * When the balance is due for a deposit paid at `paidAt`, or null when the terms have no due date
+ * (balance then stays due at inspection, as before). A calendar date that has already passed by the time the
+ * deposit clears (e.g. an auction that closed late) gives the buyer one day.
+ */
+export function resolveBalanceDueAt(terms: OrderDepositTerms | null | undefined, paidAt: Date): Date | null {
+  if (!terms) return null;
+  if (typeof terms.balanceDueDays === 'number' && terms.balanceDueDays > 0) {
+    return new Date(paidAt.getTime() + terms.balanceDueDays * DAY_MS);
+  }
+  if (terms.balanceDueDate) {
+    const due = parseDueDate(terms.balanceDueDate);
+    if (!due) return null;
+    return new Date(Math.max(due.getTime(), paidAt.getTime() + DAY_MS));
+  }
+  return null;
+}
+
+/**
+ * The reminder to send now (days-before value from `BALANCE_REMINDER_DAYS_BEFORE`), or null.
+ * Only the closest unsent threshold fires, so a late first run doesn't send three reminders at once.
+ */
+export function getDueBalanceReminder(balanceDueAt: Date, now: Date, sentDays: number[] = []): number | null {
+  const msLeft = balanceDueAt.getTime() - now.getTime();
+  if (msLeft <= 0) return null;
+  const due = BALANCE_REMINDER_DAYS_BEFORE.filter((d) => msLeft <= d * DAY_MS);
+  if (due.length === 0) return null;
+  const closest = Math.min(...due);
+  return sentDays.includes(closest) ? null : closest;
+}
+
+export function isBalanceExpired(balanceDueAt: Date, now: Date): boolean {
+  return now.getTime() >= balanceDueAt.getTime() + BALANCE_EXPIRY_GRACE_HOURS * 60 * 60 * 1000;
+}
+
+/**
+ * Refund owed when a balance expires, in cents: the whole first payment (deposit + sales tax) for a refundable
+ * deposit, only the sales tax for a forfeited one (the sale never completed).
+ */
+export function getBalanceExpiryRefundCents(
+  order: { depositAmount?: number | null; salesTax?: { amount?: number | null } | null },
+  outcome: 'forfeited' | 'refunded'
+): number {
+  const depositAmount = typeof order.depositAmount === 'number' ? order.depositAmount : 0;
+  const salesTaxAmount = typeof order.salesTax?.amount === 'number' ? order.salesTax.amount : 0;
+  return Math.round((outcome === 'refunded' ? depositAmount + salesTaxAmount : salesTaxAmount) * 100);
+}
+
+function fixedAmountOf(terms?: ListingDepositTerms | OrderDepositTerms | null): number | null {
+  if (!terms || ('mode' in terms && terms.mode !== 'fixed')) return null;
+  return typeof terms.fixedAmount === 'number' && terms.fixedAmount > 0 ? terms.fixedAmount : null;
+}
+
+/** e.g. "20% deposit" or "$500 deposit". */
+export function formatDepositLabel(terms?: ListingDepositTerms | OrderDepositTerms | null): string {
+  const fixedAmount = fixedAmountOf(terms);
+  if (fixedAmount !== null) {
+    return `$${fixedAmount.toLocaleString('en-US', { maximumFractionDigits: 2 })} deposit`;
+  }
+  const percent = typeof terms?.percent === 'number' ? terms.percent : CHECKOUT_DEPOSIT_PERCENT;
+  return `${Math.round(percent * 100)}% deposit`;
+}
+
+/** e.g. "20% non-refundable deposit" / "$500 refundable deposit per head". */
+export function describeDeposit(terms?: ListingDepositTerms | OrderDepositTerms | null): string {
+  const label = formatDepositLabel(terms);
+  const [amount] = label.split(' deposit');
+  const perHead = fixedAmountOf(terms) !== null ? ' per head' : '';
+  return `${amount} ${terms?.refundable ? 'refundable' : 'non-refundable'} deposit${perHead}`;
+}
+
+/** Short balance-due summary for listing pages, e.g. "Balance due within 30 days of deposit". */
+export function describeBalanceDue(terms?: ListingDepositTerms | OrderDepositTerms | null): string {
+  if (typeof terms?.balanceDueDays === 'number') {
+    return `Balance due within ${terms.balanceDueDays} day${terms.balanceDueDays === 1 ? '' : 's'} of deposit`;
+  }
+  if (terms?.balanceDueDate) return `Balance due by ${terms.balanceDueDate}`;
+  return 'Balance due before delivery';
+}
@@ -0,0 +1,252 @@
+/**
+ * Installment plans for high-ticket listings.
+ *
+ * - Sellers opt a listing in (`listing.installmentPlan`); buyers choose the plan at checkout (card only, order total
+ *   at least `INSTALLMENT_MIN_ORDER_TOTAL`, single-listing checkout).
+ * - Built on the deposit flow: installment 1 is the deposit charged at checkout, installments 2..N-1 are
+ *   `paymentType: 'installment'` sessions and the last one is the `'final'` payment. Each is a destination charge
+ *   with the platform fee on its own amount, like the deposit and final payment.
+ * - The animal / equipment is only released (delivery out / pickup confirmed) once the last installment is paid.
+ * - `installmentDunning` sends reminders and overdue notices on `INSTALLMENT_NOTICE_DAYS` and marks the plan
+ *   defaulted `INSTALLMENT_DEFAULT_AFTER_DAYS` after a missed due date; defaulted plans go to admin review.
+ *
+ * Pure helpers only; lib/orders/installments.ts does the writes.
+ */
+
+import type { ListingInstallmentPlan, OrderInstallment, OrderInstallmentPlan } from '@/lib/types';
+import { toMillisSafe } from '@/lib/listings/duration';
+
+export const INSTALLMENT_MIN_ORDER_TOTAL = 5000;
+export const INSTALLMENT_COUNT_MIN = 2;
+export const INSTALLMENT_COUNT_MAX = 12;
+export const INSTALLMENT_INTERVAL_DAYS = [7, 14, 30] as const;
+/** Dunning schedule in days relative to each due date (negative = reminder before); each sent at most once. */
+export const INSTALLMENT_NOTICE_DAYS = [-3, -1, 0, 1, 3, 7] as const;
+export const INSTALLMENT_DEFAULT_AFTER_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type InstallmentRiskLevel = 'on_track' | 'due_soon' | 'overdue' | 'defaulted' | 'completed';
+
+export type InstallmentRisk = {
+  level: InstallmentRiskLevel;
+  next: OrderInstallment | null;
+  /** Whole days past the next due date (0 when not overdue). */
+  daysOverdue: number;
+  paidCount: number;
+  paidAmount: number;
+  remainingAmount: number;
+};
+
+type InstallmentOrderLike = {
+  installmentPlan?: OrderInstallmentPlan | null;
+  finalPaymentConfirmedAt?: unknown;
+};
+
+function toCents(n: number): number {
+  return Math.round(n * 100);
+}
+
+/**
+ * Validates and normalizes seller input. `null`/`undefined` or `enabled: false` means "no installment plan".
+ */
+export function validateListingInstallmentPlan(
+  raw: unknown
+): { ok: true; plan: ListingInstallmentPlan | null } | { ok: false; message: string } {
+  if (raw === null || raw === undefined) return { ok: true, plan: null };
+  if (typeof raw !== 'object') return { ok: false, message: 'Installment plan is invalid.' };
+  const r = raw as Record<string, unknown>;
+  if (r.enabled !== true) return { ok: true, plan: null };
+
+  const installmentCount = Number(r.installmentCount);
+  if (!Number.isInteger(installmentCount) || installmentCount < INSTALLMENT_COUNT_MIN || installmentCount > INSTALLMENT_COUNT_MAX) {
+    return {
+      ok: false,
+      message: `Number of installments must be between ${INSTALLMENT_COUNT_MIN} and ${INSTALLMENT_COUNT_MAX}.`,
+    };
+  }
+  const intervalDays = Number(r.intervalDays);
+  if (!(INSTALLMENT_INTERVAL_DAYS as readonly number[]).includes(intervalDays)) {
+    return { ok: false, message: `Installments must be ${INSTALLMENT_INTERVAL_DAYS.join(', ')} days apart.` };
+  }
+  return { ok: true, plan: { enabled: true, installmentCount, intervalDays } };
+}
+
+/** Plan saved on a listing doc, re-validated server-side at checkout. Invalid plans are treated as off. */
+export function getListingInstallmentPlan(
+  listing: { installmentPlan?: unknown } | null | undefined
+): ListingInstallmentPlan | null {
+  const res = validateListingInstallmentPlan(listing?.installmentPlan);
+  return res.ok ? res.plan : null;
+}
+
+export function isInstallmentEligible(orderTotal: number, plan: ListingInstallmentPlan | null | undefined): boolean {
+  return !!plan?.enabled && Number.isFinite(orderTotal) && orderTotal >= INSTALLMENT_MIN_ORDER_TOTAL;
+}
+
+/** Equal installment amounts (dollars); the rounding remainder goes on the first payment. */
+export function quoteInstallments(orderTotal: number, installmentCount: number): number[] {
+  const count = Math.max(1, Math.floor(installmentCount));
+  const totalCents = Math.max(0, toCents(orderTotal));
+  const base = Math.floor(totalCents / count);
+  return Array.from({ length: count }, (_, i) => (i === 0 ? totalCents - base * (count - 1) : base) / 100);
+}
+
+/** Schedule for a plan whose first installment (the deposit) was paid at `paidAt`. */
+export function buildInstallmentSchedule(
+  orderTotal: number,
+  terms: Pick<ListingInstallmentPlan, 'installmentCount' | 'intervalDays'>,
+  paidAt: Date,
+  firstPayment?: { stripeCheckoutSessionId?: string; stripePaymentIntentId?: string }
+): OrderInstallmentPlan {
+  const installments: OrderInstallment[] = quoteInstallments(orderTotal, terms.installmentCount).map((amount, i) => ({
+    number: i + 1,
+    amount,
+    dueAt: new Date(paidAt.getTime() + i * terms.intervalDays * DAY_MS),
+    ...(i === 0
+      ? {
+          paidAt,
+          ...(firstPayment?.stripeCheckoutSessionId ? { stripeCheckoutSessionId: firstPayment.stripeCheckoutSessionId } : {}),
+          ...(firstPayment?.stripePaymentIntentId ? { stripePaymentIntentId: firstPayment.stripePaymentIntentId } : {}),
+        }
+      : {}),
+  }));
+  return { installmentCount: terms.installmentCount, intervalDays: terms.intervalDays, status: 'active', installments };
+}
+
+export function serializeInstallmentPlanMetadata(plan: Pick<ListingInstallmentPlan, 'installmentCount' | 'intervalDays'>): string {
+  return JSON.stringify({ installmentCount: plan.installmentCount, intervalDays: plan.intervalDays });
+}
+
+export function parseInstallmentPlanMetadata(
+  raw: string | null | undefined
+): Pick<ListingInstallmentPlan, 'installmentCount' | 'intervalDays'> | null {
+  if (!raw || typeof raw !== 'string') return null;
+  try {
+    const res = validateListingInstallmentPlan({ ...JSON.parse(raw), enabled: true });
+    return res.ok && res.plan ? { installmentCount: res.plan.installmentCount, intervalDays: res.plan.intervalDays } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function getInstallmentDueAt(installment: OrderInstallment | null | undefined): Date | null {
+  const ms = toMillisSafe(installment?.dueAt);
+  return typeof ms === 'number' ? new Date(ms) : null;
+}
+
+/** First unpaid installment, or null when the plan is paid off. */
+export function getNextInstallment(plan: OrderInstallmentPlan | null | undefined): OrderInstallment | null {
+  if (!plan || !Array.isArray(plan.installments)) return null;
+  return [...plan.installments].sort((a, b) => a.number - b.number).find((i) => !i.paidAt) || null;
+}
+
+/** Sum of unpaid installments (dollars). */
+export function getInstallmentsRemaining(plan: OrderInstallmentPlan | null | undefined): number {
+  if (!plan || !Array.isArray(plan.installments)) return 0;
+  return plan.installments.reduce((cents, i) => cents + (i.paidAt ? 0 : toCents(i.amount)), 0) / 100;
+}
+
+export function isLastInstallment(plan: OrderInstallmentPlan, installment: OrderInstallment): boolean {
+  return installment.number === Math.max(...plan.installments.map((i) => i.number));
+}
+
+/**
+ * True when an installment already paid by one checkout is paid again by another (two sessions opened for it).
+ * A webhook retry for the payment that paid it isn't a duplicate.
+ */
+export function isDuplicateInstallmentPayment(
+  installment: OrderInstallment,
+  payment: { stripeCheckoutSessionId?: string | null; stripePaymentIntentId?: string | null }
+): boolean {
+  if (!installment.paidAt) return false;
+  if (payment.stripeCheckoutSessionId && installment.stripeCheckoutSessionId === payment.stripeCheckoutSessionId) return false;
+  if (payment.stripePaymentIntentId && installment.stripePaymentIntentId === payment.stripePaymentIntentId) return false;
+  return true;
+}
+
+/** Plan with `number` marked paid; completes the plan (and clears a default) as appropriate. */
+export function markInstallmentPaid(
+  plan: OrderInstallmentPlan,
+  number: number,
+  paidAt: Date,
+  refs?: { stripeCheckoutSessionId?: string; stripePaymentIntentId?: string }
+): OrderInstallmentPlan {
+  const installments = plan.installments.map((i) =>
+    i.number === number && !i.paidAt
+      ? {
+          ...i,
+          paidAt,
+          ...(refs?.stripeCheckoutSessionId ? { stripeCheckoutSessionId: refs.stripeCheckoutSessionId } : {}),
+          ...(refs?.stripePaymentIntentId ? { stripePaymentIntentId: refs.stripePaymentIntentId } : {}),
+        }
+      : i
+  );
+  const done = installments.every((i) => !!i.paidAt);
+  const next: OrderInstallmentPlan = { ...plan, installments, status: done ? 'completed' : 'active' };
+  if (done) next.completedAt = paidAt;
+  // Catching up on the missed installment clears the default.
+  if (!done && plan.status === 'defaulted') delete next.defaultedAt;
+  return next;
+}
+
+/**
+ * Notice to send now for an installment due at `dueAt` (an offset from `INSTALLMENT_NOTICE_DAYS`), or null.
+ * Only the latest offset reached fires, so a late run never sends a stale "due in 3 days" after the due date.
+ */
+export function getDueInstallmentNotice(dueAt: Date, now: Date, sentOffsets: number[] = []): number | null {
+  const elapsedMs = now.getTime() - dueAt.getTime();
+  const reached = INSTALLMENT_NOTICE_DAYS.filter((d) => elapsedMs >= d * DAY_MS);
+  if (reached.length === 0) return null;
+  const latest = Math.max(...reached);
+  return sentOffsets.includes(latest) ? null : latest;
+}
+
+export function getDaysOverdue(dueAt: Date, now: Date): number {
+  return Math.max(0, Math.floor((now.getTime() - dueAt.getTime()) / DAY_MS));
+}
+
+export function shouldDefaultInstallmentPlan(plan: OrderInstallmentPlan | null | undefined, now: Date): boolean {
+  if (!plan || plan.status !== 'active') return false;
+  const dueAt = getInstallmentDueAt(getNextInstallment(plan));
+  return !!dueAt && getDaysOverdue(dueAt, now) >= INSTALLMENT_DEFAULT_AFTER_DAYS;
+}
+
+/** Admin risk view: where a plan stands as of `now`. */
+export function getInstallmentRisk(plan: OrderInstallmentPlan, now: Date): InstallmentRisk {
+  const paid = plan.installments.filter((i) => !!i.paidAt);
+  const next = getNextInstallment(plan);
+  const dueAt = getInstallmentDueAt(next);
+  const daysOverdue = dueAt ? getDaysOverdue(dueAt, now) : 0;
+  const isOverdue = !!dueAt && now.getTime() > dueAt.getTime();
+  const level: InstallmentRiskLevel = !next
+    ? 'completed'
+    : plan.status === 'defaulted'
+      ? 'defaulted'
+      : isOverdue
+        ? 'overdue'
+        : dueAt && dueAt.getTime() - now.getTime() <= 3 * DAY_MS
+          ? 'due_soon'
+          : 'on_track';
+  return {
+    level,
+    next,
+    daysOverdue,
+    paidCount: paid.length,
+    paidAmount: paid.reduce((cents, i) => cents + toCents(i.amount), 0) / 100,
+    remainingAmount: getInstallmentsRemaining(plan),
+  };
+}
+
+/** True while an order's plan still has installments to pay (delivery / pickup is held until then). */
+export function isInstallmentPlanOutstanding(order: InstallmentOrderLike | null | undefined): boolean {
+  if (!order?.installmentPlan || order.finalPaymentConfirmedAt) return false;
+  return order.installmentPlan.status !== 'completed';
+}
+
+/** e.g. "4 payments of $12,500 every 30 days". */
+export function describeInstallmentPlan(orderTotal: number, plan: Pick<ListingInstallmentPlan, 'installmentCount' | 'intervalDays'>): string {
+  const amounts = quoteInstallments(orderTotal, plan.installmentCount);
+  const each = amounts[amounts.length - 1] ?? 0;
+  return `${plan.installmentCount} payments of $${each.toLocaleString('en-US', { maximumFractionDigits: 2 })} every ${plan.intervalDays} days`;
+}
@@ -1,4 +1,4 @@
-import type { SellerReviewStats } from '@/lib/types';
+import type { BuyerRatingDimension, BuyerReviewDoc, BuyerReviewStats, SellerReviewStats } from '@/lib/types';
 
 export function initReviewStats(): SellerReviewStats {
   return {
@@ -36,3 +36,36 @@ export function applyReviewDelta(
     lastReviewAt: lastReviewAt || safe.lastReviewAt || null,
   };
 }
+
+export function initBuyerReviewStats(): BuyerReviewStats {
+  return {
+    ...initReviewStats(),
+    dimensions: {
+      payment: { count: 0, total: 0 },
+      pickup: { count: 0, total: 0 },
+      communication: { count: 0, total: 0 },
+    },
+  };
+}
+
+/** Overall stats move like seller stats; per-dimension sums skip unrated (null) dimensions. */
+export function applyBuyerReviewDelta(
+  current: BuyerReviewStats | null | undefined,
+  review: Pick<BuyerReviewDoc, 'rating' | 'ratings'>,
+  delta: 1 | -1,
+  lastReviewAt?: Date
+): BuyerReviewStats {
+  const base = initBuyerReviewStats();
+  const safe = current ? { ...current } : base;
+  const dimensions = { ...base.dimensions, ...(safe.dimensions || {}) };
+  for (const key of Object.keys(dimensions) as BuyerRatingDimension[]) {
+    const value = review.ratings?.[key];
+    if (typeof value !== 'number') continue;
+    const prev = dimensions[key];
+    dimensions[key] = {
+      count: Math.max(0, Number(prev.count || 0) + delta),
+      total: Math.max(0, Number(prev.total || 0) + delta * value),
+    };
+  }
+  return { ...applyReviewDelta(safe, review.rating, delta, lastReviewAt), dimensions };
+}
@@ -0,0 +1,114 @@
+import type { BuyerRatingDimension, BuyerReviewDoc, BuyerReviewStats } from '@/lib/types';
+import { getEffectiveTransactionStatus } from '@/lib/orders/status';
+import { REVIEW_WINDOW_DAYS } from '@/lib/reviews/constants';
+
+export const BUYER_REVIEW_TEXT_MAX_LENGTH = 500;
+
+export const BUYER_RATING_DIMENSIONS: Array<{ key: BuyerRatingDimension; label: string; hint: string }> = [
+  { key: 'payment', label: 'On-time payment', hint: 'Paid within the checkout or auction payment window' },
+  { key: 'pickup', label: 'Pickup reliability', hint: 'Showed up for the agreed pickup window' },
+  { key: 'communication', label: 'Communication', hint: 'Responsive and clear' },
+];
+
+export type BuyerReviewEligibility =
+  | { eligible: true; outcome: BuyerReviewDoc['orderOutcome']; closedAt: Date; pickupApplicable: boolean }
+  | { eligible: false; reason: 'ORDER_NOT_CLOSED' | 'MISSING_CLOSED_TIMESTAMP' | 'REVIEW_WINDOW_EXPIRED' };
+
+/** Public-safe summary returned to sellers alongside offers and bidder lists. */
+export type BuyerReputationSummary = {
+  reviewCount: number;
+  avgRating: number;
+  dimensions: Record<BuyerRatingDimension, { avg: number | null; count: number }>;
+  lastReviewAt: string | null;
+};
+
+function toMs(v: unknown): number | null {
+  if (!v) return null;
+  if (v instanceof Date) return Number.isFinite(v.getTime()) ? v.getTime() : null;
+  if (typeof (v as any)?.toMillis === 'function') return (v as any).toMillis();
+  if (typeof (v as any)?.seconds === 'number') return (v as any).seconds * 1000;
+  if (typeof v === 'string' || typeof v === 'number') {
+    const t = new Date(v).getTime();
+    return Number.isFinite(t) ? t : null;
+  }
+  return null;
+}
+
+/**
+ * Sellers can rate the buyer once the order is completed or cancelled, within the same window buyers
+ * get for seller reviews. Ownership and the one-per-order check are the caller's job.
+ */
+export function getBuyerReviewEligibility(order: any, nowMs: number = Date.now()): BuyerReviewEligibility {
+  const txStatus = getEffectiveTransactionStatus(order);
+  if (txStatus !== 'COMPLETED' && txStatus !== 'CANCELLED') return { eligible: false, reason: 'ORDER_NOT_CLOSED' };
+
+  const outcome = txStatus === 'COMPLETED' ? 'completed' : 'cancelled';
+  const closedMs =
+    outcome === 'completed'
+      ? toMs(order?.completedAt) ?? toMs(order?.buyerConfirmedAt) ?? toMs(order?.acceptedAt)
+      : toMs(order?.lastStatusChangedAt) ?? toMs(order?.updatedAt);
+  if (closedMs === null) return { eligible: false, reason: 'MISSING_CLOSED_TIMESTAMP' };
+
+  if (nowMs - closedMs > REVIEW_WINDOW_DAYS * 24 * 60 * 60 * 1000) return { eligible: false, reason: 'REVIEW_WINDOW_EXPIRED' };
+
+  return {
+    eligible: true,
+    outcome,
+    closedAt: new Date(closedMs),
+    pickupApplicable: order?.transportOption === 'BUYER_TRANSPORT',
+  };
+}
+
+/**
+ * Validate per-dimension ratings. `pickup` is only rated when the buyer was responsible for pickup;
+ * otherwise it is stored as null and left out of the overall rating.
+ */
+export function normalizeBuyerRatings(
+  input: any,
+  opts: { pickupApplicable: boolean }
+): { ok: true; ratings: BuyerReviewDoc['ratings']; rating: number } | { ok: false; error: string } {
+  const read = (v: unknown) => {
+    const n = Number(v);
+    return Number.isInteger(n) && n >= 1 && n <= 5 ? n : null;
+  };
+  const payment = read(input?.payment);
+  const communication = read(input?.communication);
+  const pickup = opts.pickupApplicable ? read(input?.pickup) : null;
+  if (payment === null || communication === null || (opts.pickupApplicable && pickup === null)) {
+    return { ok: false, error: 'Each rating must be a whole number from 1 to 5' };
+  }
+
+  const rated = [payment, communication, ...(pickup === null ? [] : [pickup])];
+  const rating = Math.round(rated.reduce((a, b) => a + b, 0) / rated.length);
+  return { ok: true, ratings: { payment, pickup, communication }, rating };
+}
+
+export function summarizeBuyerReviewStats(stats: BuyerReviewStats | null | undefined): BuyerReputationSummary | null {
+  if (!stats || !Number(stats.reviewCount || 0)) return null;
+  const dim = (key: BuyerRatingDimension) => {
+    const count = Number(stats.dimensions?.[key]?.count || 0);
+    const total = Number(stats.dimensions?.[key]?.total || 0);
+    return { avg: count > 0 ? Math.round((total / count) * 10) / 10 : null, count };
+  };
+  const lastMs = toMs(stats.lastReviewAt);
+  return {
+    reviewCount: Number(stats.reviewCount),
+    avgRating: Number(stats.avgRating || 0),
+    dimensions: { payment: dim('payment'), pickup: dim('pickup'), communication: dim('communication') },
+    lastReviewAt: lastMs === null ? null : new Date(lastMs).toISOString(),
+  };
+}
+
+/** Server-side: reputation summaries keyed by buyer uid (null = no ratings yet). */
+export async function getBuyerReputationSummaries(
+  db: any,
+  buyerIds: string[]
+): Promise<Record<string, BuyerReputationSummary | null>> {
+  const ids = Array.from(new Set(buyerIds.filter(Boolean)));
+  const snaps = await Promise.all(ids.map((id) => db.collection('users').doc(id).get().catch(() => null as any)));
+  const out: Record<string, BuyerReputationSummary | null> = {};
+  snaps.forEach((s: any, idx: number) => {
+    out[ids[idx]] = s && s.exists ? summarizeBuyerReviewStats((s.data() as any)?.buyerReviewStats) : null;
+  });
+  return out;
+}
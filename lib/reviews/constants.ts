@@ -1 +1,5 @@
 export const REVIEW_WINDOW_DAYS = 60;
+
+/** Sellers get one public response per review, editable for this long after it is first posted. */
+export const SELLER_RESPONSE_EDIT_WINDOW_HOURS = 72;
+export const SELLER_RESPONSE_MAX_LENGTH = 1000;
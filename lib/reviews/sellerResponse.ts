@@ -0,0 +1,45 @@
+import type { ReviewSellerResponse } from '@/lib/types';
+import { SELLER_RESPONSE_EDIT_WINDOW_HOURS, SELLER_RESPONSE_MAX_LENGTH } from '@/lib/reviews/constants';
+
+export type SellerResponseEditState =
+  | { mode: 'create' }
+  | { mode: 'edit'; editableUntil: Date }
+  | { mode: 'locked'; reason: 'window_closed' | 'hidden' };
+
+function toMs(v: unknown): number | null {
+  if (!v) return null;
+  if (v instanceof Date) return Number.isFinite(v.getTime()) ? v.getTime() : null;
+  if (typeof (v as any)?.toMillis === 'function') return (v as any).toMillis();
+  if (typeof v === 'string' || typeof v === 'number') {
+    const t = new Date(v).getTime();
+    return Number.isFinite(t) ? t : null;
+  }
+  return null;
+}
+
+/**
+ * Whether the seller may post (first time) or edit their response.
+ * A response hidden by moderation can't be rewritten by the seller.
+ */
+export function getSellerResponseEditState(
+  response: Pick<ReviewSellerResponse, 'createdAt' | 'status'> | { createdAt?: unknown; status?: unknown } | null | undefined,
+  nowMs: number = Date.now()
+): SellerResponseEditState {
+  if (!response) return { mode: 'create' };
+  if (response.status === 'hidden') return { mode: 'locked', reason: 'hidden' };
+  const createdMs = toMs(response.createdAt);
+  if (createdMs === null) return { mode: 'locked', reason: 'window_closed' };
+  const editableUntilMs = createdMs + SELLER_RESPONSE_EDIT_WINDOW_HOURS * 60 * 60 * 1000;
+  if (nowMs > editableUntilMs) return { mode: 'locked', reason: 'window_closed' };
+  return { mode: 'edit', editableUntil: new Date(editableUntilMs) };
+}
+
+/** Trimmed response text, or an error message. */
+export function normalizeSellerResponseText(raw: unknown): { ok: true; text: string } | { ok: false; error: string } {
+  const text = typeof raw === 'string' ? raw.replace(/\r\n/g, '\n').trim() : '';
+  if (!text) return { ok: false, error: 'Response cannot be empty' };
+  if (text.length > SELLER_RESPONSE_MAX_LENGTH) {
+    return { ok: false, error: `Response must be ${SELLER_RESPONSE_MAX_LENGTH} characters or fewer` };
+  }
+  return { ok: true, text };
+}
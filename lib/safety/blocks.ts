@@ -0,0 +1,43 @@
+/**
+ * User blocks (server-side).
+ *
+ * `users/{uid}/blockedUsers/{blockedUid}` is written only by `/api/users/block`.
+ * A block works both ways: neither side can message, make offers to, or bid on the other's listings.
+ * The error never says who blocked whom.
+ */
+
+export const USER_BLOCKED_ERROR = {
+  error: 'Interaction not allowed',
+  code: 'USER_BLOCKED',
+  message: 'You can’t interact with this user.',
+} as const;
+
+export async function isBlockedBetween(db: FirebaseFirestore.Firestore, userA: string, userB: string): Promise<boolean> {
+  if (!userA || !userB || userA === userB) return false;
+  const [aBlocksB, bBlocksA] = await Promise.all([
+    db.collection('users').doc(userA).collection('blockedUsers').doc(userB).get(),
+    db.collection('users').doc(userB).collection('blockedUsers').doc(userA).get(),
+  ]);
+  return aBlocksB.exists || bBlocksA.exists;
+}
+
+/** Which of `userIds` have a block with `userId` in either direction (one batched read). */
+export async function getBlockedUserIds(
+  db: FirebaseFirestore.Firestore,
+  userId: string,
+  userIds: string[]
+): Promise<Set<string>> {
+  const others = Array.from(new Set(userIds.filter((id) => id && id !== userId)));
+  if (!userId || others.length === 0) return new Set();
+  const users = db.collection('users');
+  const refs = others.flatMap((id) => [
+    users.doc(userId).collection('blockedUsers').doc(id),
+    users.doc(id).collection('blockedUsers').doc(userId),
+  ]);
+  const snaps = await db.getAll(...refs);
+  const blocked = new Set<string>();
+  snaps.forEach((snap, i) => {
+    if (snap.exists) blocked.add(others[Math.floor(i / 2)]!);
+  });
+  return blocked;
+}
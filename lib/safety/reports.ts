@@ -0,0 +1,50 @@
+/**
+ * User/listing reports for Trust & Safety.
+ * Reports are written server-side only (`/api/reports`) and worked from the admin moderation queue.
+ */
+
+export type ReportTargetType = 'listing' | 'user';
+
+export type ReportStatus = 'open' | 'resolved' | 'dismissed';
+
+export type ReportReasonCode =
+  | 'fraud_scam'
+  | 'misrepresented_animal'
+  | 'prohibited_item'
+  | 'off_platform_payment'
+  | 'harassment'
+  | 'spam'
+  | 'impersonation'
+  | 'other';
+
+export const REPORT_REASONS: Array<{ code: ReportReasonCode; label: string; targets: ReportTargetType[] }> = [
+  { code: 'fraud_scam', label: 'Fraud or scam', targets: ['listing', 'user'] },
+  { code: 'misrepresented_animal', label: 'Misrepresented animal or item', targets: ['listing'] },
+  { code: 'prohibited_item', label: 'Prohibited or illegal item', targets: ['listing'] },
+  { code: 'off_platform_payment', label: 'Asked to pay off-platform', targets: ['listing', 'user'] },
+  { code: 'harassment', label: 'Harassment or threats', targets: ['user'] },
+  { code: 'spam', label: 'Spam', targets: ['listing', 'user'] },
+  { code: 'impersonation', label: 'Impersonating someone else', targets: ['user'] },
+  { code: 'other', label: 'Something else', targets: ['listing', 'user'] },
+];
+
+export const REPORT_REASON_CODES = REPORT_REASONS.map((r) => r.code) as [ReportReasonCode, ...ReportReasonCode[]];
+
+export function getReportReasons(target: ReportTargetType) {
+  return REPORT_REASONS.filter((r) => r.targets.includes(target));
+}
+
+export function getReportReasonLabel(code: string): string {
+  return REPORT_REASONS.find((r) => r.code === code)?.label || 'Other';
+}
+
+export function isReportReasonAllowed(target: ReportTargetType, code: string): boolean {
+  return getReportReasons(target).some((r) => r.code === code);
+}
+
+/**
+ * One open report per reporter per target: re-reporting updates the same doc instead of piling up the queue.
+ */
+export function getReportDocId(reporterId: string, targetType: ReportTargetType, targetId: string): string {
+  return `${reporterId}_${targetType}_${targetId}`;
+}
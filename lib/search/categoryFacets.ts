@@ -0,0 +1,272 @@
+/**
+ * Category-specific attribute facets (pure; safe on client, server, and Netlify functions).
+ *
+ * Facets are declared per category against the `*Attributes` interfaces in `lib/types.ts`, so a
+ * renamed/removed attribute field breaks the build instead of silently matching nothing.
+ *
+ * Selections live in `FilterState.attributes` (field -> accepted values; OR within a field, AND across
+ * fields) and in URLs as `attr.<field>=v1,v2`. Counts are disjunctive: a facet's counts ignore that
+ * facet's own selection so users can widen it.
+ */
+
+import type {
+  CattleAttributes,
+  EquipmentAttributes,
+  FarmAnimalAttributes,
+  FilterState,
+  HorseAttributes,
+  ListingCategory,
+  SportingWorkingDogAttributes,
+  WhitetailBreederAttributes,
+  WildlifeAttributes,
+} from '@/lib/types';
+import { CATTLE_BREED_OPTIONS } from '@/lib/taxonomy/cattle-breeds';
+import { DOG_BREED_OPTIONS } from '@/lib/taxonomy/dog-breeds';
+import { EXOTIC_SPECIES_OPTIONS } from '@/lib/taxonomy/exotic-species';
+import { FARM_ANIMAL_SPECIES_OPTIONS } from '@/lib/taxonomy/farm-animal-species';
+
+export type FacetOption = { value: string; label: string };
+export type FacetBucket = FacetOption & { min?: number; max?: number };
+
+export type AttributeFacetDef<A = any> = {
+  field: Extract<keyof A, string>;
+  label: string;
+  /** enum: normalized attribute value; boolean: 'true' | 'false'; range: bucket value. */
+  kind: 'enum' | 'boolean' | 'range';
+  /** enum: known values (display order + labels). Values seen in data but not listed still show. */
+  options?: FacetOption[];
+  /** range: inclusive `min`, exclusive `max`. */
+  buckets?: FacetBucket[];
+};
+
+export type AttributeFacetSelections = NonNullable<FilterState['attributes']>;
+/** field -> value -> listing count */
+export type AttributeFacetCounts = Record<string, Record<string, number>>;
+
+export const ATTRIBUTE_FACET_PARAM_PREFIX = 'attr.';
+
+function facets<A>(defs: AttributeFacetDef<A>[]): AttributeFacetDef[] {
+  return defs as AttributeFacetDef[];
+}
+
+const ANIMAL_SEX_OPTIONS: FacetOption[] = [
+  { value: 'male', label: 'Male' },
+  { value: 'female', label: 'Female' },
+  { value: 'unknown', label: 'Unknown' },
+];
+
+const AGE_BUCKETS: FacetBucket[] = [
+  { value: 'under_1', label: 'Under 1 yr', max: 1 },
+  { value: '1_2', label: '1–2 yrs', min: 1, max: 3 },
+  { value: '3_5', label: '3–5 yrs', min: 3, max: 6 },
+  { value: '6_10', label: '6–10 yrs', min: 6, max: 11 },
+  { value: '11_plus', label: '11+ yrs', min: 11 },
+];
+
+const YEAR_BUCKETS: FacetBucket[] = [
+  { value: '2020_plus', label: '2020 or newer', min: 2020 },
+  { value: '2015_2019', label: '2015–2019', min: 2015, max: 2020 },
+  { value: '2010_2014', label: '2010–2014', min: 2010, max: 2015 },
+  { value: '2000_2009', label: '2000–2009', min: 2000, max: 2010 },
+  { value: 'pre_2000', label: 'Before 2000', max: 2000 },
+];
+
+const HOURS_BUCKETS: FacetBucket[] = [
+  { value: 'under_500', label: 'Under 500 hrs', max: 500 },
+  { value: '500_1999', label: '500–1,999 hrs', min: 500, max: 2000 },
+  { value: '2000_4999', label: '2,000–4,999 hrs', min: 2000, max: 5000 },
+  { value: '5000_plus', label: '5,000+ hrs', min: 5000 },
+];
+
+const EQUIPMENT_CONDITION_OPTIONS: FacetOption[] = [
+  { value: 'new', label: 'New' },
+  { value: 'excellent', label: 'Excellent' },
+  { value: 'good', label: 'Good' },
+  { value: 'fair', label: 'Fair' },
+  { value: 'for_parts', label: 'For parts' },
+];
+
+const EQUIPMENT_FACETS = facets<EquipmentAttributes>([
+  { field: 'equipmentType', label: 'Type', kind: 'enum' },
+  { field: 'make', label: 'Make', kind: 'enum' },
+  { field: 'year', label: 'Year', kind: 'range', buckets: YEAR_BUCKETS },
+  { field: 'hours', label: 'Hours', kind: 'range', buckets: HOURS_BUCKETS },
+  { field: 'condition', label: 'Condition', kind: 'enum', options: EQUIPMENT_CONDITION_OPTIONS },
+  { field: 'hasTitle', label: 'Has title', kind: 'boolean' },
+]);
+
+export const CATEGORY_ATTRIBUTE_FACETS: Partial<Record<ListingCategory, AttributeFacetDef[]>> = {
+  whitetail_breeder: facets<WhitetailBreederAttributes>([
+    { field: 'sex', label: 'Sex', kind: 'enum', options: ANIMAL_SEX_OPTIONS },
+    { field: 'age', label: 'Age', kind: 'range', buckets: AGE_BUCKETS },
+  ]),
+  wildlife_exotics: facets<WildlifeAttributes>([
+    { field: 'speciesId', label: 'Species', kind: 'enum', options: EXOTIC_SPECIES_OPTIONS },
+    { field: 'sex', label: 'Sex', kind: 'enum', options: ANIMAL_SEX_OPTIONS },
+    { field: 'age', label: 'Age', kind: 'range', buckets: AGE_BUCKETS },
+  ]),
+  cattle_livestock: facets<CattleAttributes>([
+    { field: 'breed', label: 'Breed', kind: 'enum', options: CATTLE_BREED_OPTIONS },
+    {
+      field: 'sex',
+      label: 'Sex',
+      kind: 'enum',
+      options: [
+        { value: 'bull', label: 'Bull' },
+        { value: 'cow', label: 'Cow' },
+        { value: 'heifer', label: 'Heifer' },
+        { value: 'steer', label: 'Steer' },
+        { value: 'unknown', label: 'Unknown' },
+      ],
+    },
+    { field: 'age', label: 'Age', kind: 'range', buckets: AGE_BUCKETS },
+    { field: 'registered', label: 'Registered', kind: 'boolean' },
+    { field: 'pregChecked', label: 'Preg checked', kind: 'boolean' },
+  ]),
+  farm_animals: facets<FarmAnimalAttributes>([
+    { field: 'speciesId', label: 'Species', kind: 'enum', options: FARM_ANIMAL_SPECIES_OPTIONS },
+    { field: 'breed', label: 'Breed', kind: 'enum' },
+    { field: 'sex', label: 'Sex', kind: 'enum', options: ANIMAL_SEX_OPTIONS },
+    { field: 'age', label: 'Age', kind: 'range', buckets: AGE_BUCKETS },
+  ]),
+  horse_equestrian: facets<HorseAttributes>([
+    {
+      field: 'sex',
+      label: 'Sex',
+      kind: 'enum',
+      options: [
+        { value: 'stallion', label: 'Stallion' },
+        { value: 'mare', label: 'Mare' },
+        { value: 'gelding', label: 'Gelding' },
+        { value: 'unknown', label: 'Unknown' },
+      ],
+    },
+    { field: 'age', label: 'Age', kind: 'range', buckets: AGE_BUCKETS },
+    { field: 'registered', label: 'Registered', kind: 'boolean' },
+    { field: 'registrationOrg', label: 'Registry', kind: 'enum' },
+  ]),
+  sporting_working_dogs: facets<SportingWorkingDogAttributes>([
+    { field: 'breed', label: 'Breed', kind: 'enum', options: DOG_BREED_OPTIONS },
+    { field: 'sex', label: 'Sex', kind: 'enum', options: ANIMAL_SEX_OPTIONS },
+    { field: 'age', label: 'Age', kind: 'range', buckets: AGE_BUCKETS },
+  ]),
+  ranch_equipment: EQUIPMENT_FACETS,
+  ranch_vehicles: EQUIPMENT_FACETS,
+  hunting_outfitter_assets: EQUIPMENT_FACETS,
+};
+
+export function getCategoryAttributeFacets(category: string | null | undefined): AttributeFacetDef[] {
+  if (!category) return [];
+  return CATEGORY_ATTRIBUTE_FACETS[category as ListingCategory] || [];
+}
+
+/** Free-text legacy values ("Black Angus") line up with option values ("black_angus"). */
+export function normalizeFacetValue(v: unknown): string {
+  return String(v ?? '')
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+function toFiniteNumber(v: unknown): number | null {
+  if (typeof v === 'number') return Number.isFinite(v) ? v : null;
+  if (typeof v !== 'string' || !v.trim()) return null;
+  // Legacy string ages ("3", "3 years") — take the leading number.
+  const n = parseFloat(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** The listing's facet value for `def`, or null when the attribute is missing/unbucketable. */
+export function getListingFacetValue(listing: any, def: AttributeFacetDef): string | null {
+  const attrs = listing?.attributes || {};
+  const raw = def.field === 'make' && normalizeFacetValue(attrs.make) === 'other' && attrs.makeOther ? attrs.makeOther : attrs[def.field];
+  if (raw === undefined || raw === null || raw === '') return null;
+
+  if (def.kind === 'boolean') return typeof raw === 'boolean' ? String(raw) : null;
+  if (def.kind === 'range') {
+    const n = toFiniteNumber(raw);
+    if (n === null) return null;
+    const bucket = (def.buckets || []).find((b) => (b.min === undefined || n >= b.min) && (b.max === undefined || n < b.max));
+    return bucket ? bucket.value : null;
+  }
+  const breedOther = def.field === 'breed' && normalizeFacetValue(raw) === 'other' && attrs.breedOther ? attrs.breedOther : null;
+  return normalizeFacetValue(breedOther ?? raw) || null;
+}
+
+export function getFacetOptionLabel(def: AttributeFacetDef, value: string): string {
+  if (def.kind === 'boolean') return value === 'true' ? 'Yes' : 'No';
+  const known = (def.kind === 'range' ? def.buckets : def.options)?.find((o) => o.value === value);
+  if (known) return known.label;
+  return value
+    .split('_')
+    .filter(Boolean)
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(' ');
+}
+
+function activeSelections(selections: AttributeFacetSelections | null | undefined): Array<[string, string[]]> {
+  return Object.entries(selections || {}).filter(([, values]) => Array.isArray(values) && values.length > 0);
+}
+
+/**
+ * True when `listing` satisfies every selected facet for its category.
+ * A selection on a field the listing's category doesn't facet never matches.
+ */
+export function listingMatchesAttributeFacets(listing: any, selections: AttributeFacetSelections | null | undefined): boolean {
+  const active = activeSelections(selections);
+  if (!active.length) return true;
+  const defs = getCategoryAttributeFacets(listing?.category);
+  for (const [field, values] of active) {
+    const def = defs.find((d) => d.field === field);
+    if (!def) return false;
+    const v = getListingFacetValue(listing, def);
+    if (v === null || !values.includes(v)) return false;
+  }
+  return true;
+}
+
+/** Disjunctive counts for every facet of `category` over `listings` (already narrowed by non-facet filters). */
+export function computeAttributeFacetCounts(
+  listings: any[],
+  category: string,
+  selections: AttributeFacetSelections | null | undefined
+): AttributeFacetCounts {
+  const defs = getCategoryAttributeFacets(category);
+  const counts: AttributeFacetCounts = {};
+  for (const def of defs) {
+    const others = Object.fromEntries(activeSelections(selections).filter(([field]) => field !== def.field));
+    const bucket: Record<string, number> = {};
+    for (const listing of listings) {
+      if (!listingMatchesAttributeFacets(listing, others)) continue;
+      const v = getListingFacetValue(listing, def);
+      if (v !== null) bucket[v] = (bucket[v] || 0) + 1;
+    }
+    counts[def.field] = bucket;
+  }
+  return counts;
+}
+
+/** Read `attr.<field>=a,b` params for the category's facets (unknown fields are dropped). */
+export function attributeFacetsFromSearchParams(
+  params: { get(name: string): string | null } | null | undefined,
+  category: string
+): AttributeFacetSelections | undefined {
+  if (!params) return undefined;
+  const out: AttributeFacetSelections = {};
+  for (const def of getCategoryAttributeFacets(category)) {
+    const raw = params.get(`${ATTRIBUTE_FACET_PARAM_PREFIX}${def.field}`);
+    const values = String(raw || '')
+      .split(',')
+      .map((v) => v.trim())
+      .filter(Boolean);
+    if (values.length) out[def.field] = Array.from(new Set(values));
+  }
+  return Object.keys(out).length ? out : undefined;
+}
+
+export function setAttributeFacetSearchParams(params: URLSearchParams, selections: AttributeFacetSelections | null | undefined): void {
+  for (const [field, values] of activeSelections(selections)) {
+    params.set(`${ATTRIBUTE_FACET_PARAM_PREFIX}${field}`, values.join(','));
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Shared listing filter evaluator (pure; safe on client, server, and Netlify functions).
+ *
+ * Browse (client-side refinement of fetched pages) and saved-search alerts (instant + weekly digest)
+ * both evaluate `FilterState` through `listingMatchesFilters`, so an alert only fires for listings the
+ * saved browse view would show.
+ *
+ * Accepts both client `Listing` objects (Dates) and raw Firestore docs (Timestamps).
+ */
+
+import type { FilterState } from '@/lib/types';
+import { toMillisSafe } from '@/lib/listings/duration';
+import { distanceMiles, isValidLatLng, sellerDeliversTo, type LatLng } from '@/lib/geo/geohash';
+import { listingMatchesSearchQuery } from '@/lib/search/listingSearchIndex';
+import { listingMatchesAttributeFacets } from '@/lib/search/categoryFacets';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ENDING_SOON_WINDOW_MS = DAY_MS;
+const NEWLY_LISTED_WINDOW_MS = 7 * DAY_MS;
+
+/** Categories whose `healthStatus` filter means equipment `attributes.condition`. */
+const CONDITION_CATEGORIES = new Set(['ranch_equipment', 'ranch_vehicles', 'hunting_outfitter_assets']);
+
+export type ListingFilterContext = {
+  nowMs?: number;
+  /**
+   * Buyer's default saved address for `deliversToMe`.
+   * `undefined` = unknown (criterion is skipped, e.g. saved-search alerts); `null` = buyer has no address (never matches).
+   */
+  buyerLocation?: LatLng | null;
+};
+
+/** Price shown on cards: current/starting bid for auctions, asking price otherwise. */
+export function getListingPriceUsd(listing: any): number {
+  if (!listing) return 0;
+  if (listing.type === 'auction') return Number(listing.currentBid ?? listing.startingBid ?? 0) || 0;
+  return Number(listing.price ?? 0) || 0;
+}
+
+function matchesSpecies(listing: any, species: string[]): boolean {
+  const attrs = listing.attributes || {};
+  const speciesId = String(attrs.speciesId || '').toLowerCase();
+  const breed = String(attrs.breed || '').toLowerCase();
+  const equipmentType = String(attrs.equipmentType || '').toLowerCase();
+  return species.some((s) => {
+    const token = String(s).toLowerCase();
+    return speciesId === token || speciesId.includes(token) || breed.includes(token) || equipmentType.includes(token);
+  });
+}
+
+function matchesQuantity(listing: any, bucket: NonNullable<FilterState['quantity']>): boolean {
+  const qty = Number(listing.attributes?.quantity) || 1;
+  switch (bucket) {
+    case 'single':
+      return qty === 1;
+    case 'pair':
+      return qty >= 2 && qty <= 5;
+    case 'small-group':
+      return qty >= 6 && qty <= 10;
+    case 'large-group':
+      return qty >= 11;
+    case 'lot':
+      return qty > 20;
+    default:
+      return true;
+  }
+}
+
+function matchesHealthStatus(listing: any, statuses: string[]): boolean {
+  const attrs = listing.attributes;
+  if (!attrs) return false;
+  return statuses.some((status) => {
+    const token = String(status || '').toLowerCase();
+    // Equipment-like categories use `attributes.condition` (enum).
+    if (CONDITION_CATEGORIES.has(String(listing.category))) return String(attrs.condition || '').toLowerCase() === token;
+    // Animals: legacy "health notes include" matching.
+    return String(attrs.healthNotes || '').toLowerCase().includes(token);
+  });
+}
+
+function matchesNear(listing: any, near: NonNullable<FilterState['near']>): boolean {
+  const center = { lat: Number(near.lat), lng: Number(near.lng) };
+  // ZIP-only criteria (center not resolved yet) is applied server-side by /api/listings/nearby.
+  if (!isValidLatLng(center)) return true;
+  if (!isValidLatLng(listing.geo)) return false;
+  return distanceMiles(center, listing.geo) <= Number(near.radiusMiles || 0);
+}
+
+/**
+ * True when `listing` satisfies every criterion set in `criteria`. Unset criteria don't filter.
+ * Lifecycle (active vs ended) and hidden-category rules are the caller's concern.
+ */
+export function listingMatchesFilters(listing: any, criteria: FilterState | null | undefined, ctx: ListingFilterContext = {}): boolean {
+  if (!listing || typeof listing !== 'object') return false;
+  if (!criteria) return true;
+  const nowMs = ctx.nowMs ?? Date.now();
+  const attrs = listing.attributes || {};
+
+  if (criteria.type && String(listing.type) !== criteria.type) return false;
+  if (criteria.category && String(listing.category) !== criteria.category) return false;
+  if (criteria.location?.state && String(listing.location?.state || '') !== String(criteria.location.state)) return false;
+  if (criteria.location?.city && String(listing.location?.city || '') !== String(criteria.location.city)) return false;
+  if (criteria.near && !matchesNear(listing, criteria.near)) return false;
+
+  // Keyword query uses the same tokenizer/matching as /api/listings/search.
+  if (criteria.query && !listingMatchesSearchQuery(listing, criteria.query)) return false;
+
+  const price = getListingPriceUsd(listing);
+  if (criteria.minPrice != null && Number.isFinite(criteria.minPrice) && price < criteria.minPrice) return false;
+  if (criteria.maxPrice != null && Number.isFinite(criteria.maxPrice) && price > criteria.maxPrice) return false;
+
+  // Category-specific attributes
+  if (criteria.species && criteria.species.length > 0 && !matchesSpecies(listing, criteria.species)) return false;
+  if (criteria.quantity && !matchesQuantity(listing, criteria.quantity)) return false;
+  if (criteria.healthStatus && criteria.healthStatus.length > 0 && !matchesHealthStatus(listing, criteria.healthStatus)) return false;
+  if (criteria.papers !== undefined && criteria.papers !== null) {
+    if (!('registered' in attrs) || attrs.registered !== criteria.papers) return false;
+  }
+  if (criteria.attributes && !listingMatchesAttributeFacets(listing, criteria.attributes)) return false;
+
+  // Seller / delivery
+  if (criteria.verifiedSeller && listing.sellerSnapshot?.verified !== true && listing.trust?.verified !== true) return false;
+  if (criteria.transportReady && listing.trust?.transportReady !== true) return false;
+  if (
+    criteria.sellerOffersDelivery &&
+    listing.trust?.sellerOffersDelivery !== true &&
+    listing.transportOption !== 'SELLER_TRANSPORT'
+  ) {
+    return false;
+  }
+  if (criteria.deliveryTimeframe && listing.deliveryDetails?.deliveryTimeframe !== criteria.deliveryTimeframe) return false;
+  if (criteria.deliversToMe && ctx.buyerLocation !== undefined) {
+    const ok = sellerDeliversTo({
+      listingGeo: listing.geo,
+      maxDeliveryRadiusMiles: listing.deliveryDetails?.maxDeliveryRadiusMiles,
+      buyer: ctx.buyerLocation,
+    });
+    if (!ok) return false;
+  }
+
+  // Time-based
+  if (criteria.endingSoon) {
+    if (listing.type !== 'auction') return false;
+    const endsAtMs = toMillisSafe(listing.endsAt);
+    if (!endsAtMs) return false;
+    const timeLeft = endsAtMs - nowMs;
+    if (timeLeft <= 0 || timeLeft > ENDING_SOON_WINDOW_MS) return false;
+  }
+  if (criteria.newlyListed) {
+    const listedMs = toMillisSafe(listing.createdAt) || 0;
+    if (nowMs - listedMs > NEWLY_LISTED_WINDOW_MS) return false;
+  }
+
+  if (criteria.featured && listing.featured !== true) return false;
+
+  return true;
+}
@@ -0,0 +1,176 @@
+/**
+ * Listing full-text search index (pure helpers; safe on client, server, and Netlify functions).
+ *
+ * Firestore has no full-text search, so each listing doc carries a `searchTokens: string[]` field built from
+ * its searchable text. `/api/listings/search` narrows candidates with `array-contains` on the query's rarest
+ * token, then matches the remaining tokens and ranks them here by re-tokenizing the candidate's fields (so the stored array only needs to answer
+ * "could this match?", not "how well?").
+ *
+ * Indexed fields (weight):
+ * - title (5), breed (4), speciesId (4), equipment make/model (3), city (2), description (1)
+ *
+ * Whole tokens are indexed for every field; prefixes (>= 3 chars) are indexed for the short, high-signal
+ * fields so partial words like "axi" or "gooseneck" -> "goose" still hit.
+ */
+
+export const LISTING_SEARCH_INDEX_VERSION = 1;
+
+/** Hard cap on stored tokens per listing (keeps docs small; high-weight fields are indexed first). */
+export const MAX_LISTING_SEARCH_TOKENS = 400;
+
+/** Query tokens considered per search (each one costs a count aggregation when picking the rarest). */
+export const MAX_SEARCH_QUERY_TOKENS = 10;
+
+const MIN_TOKEN_LENGTH = 2;
+const MIN_PREFIX_LENGTH = 3;
+const MAX_TOKEN_LENGTH = 40;
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'the',
+  'this',
+  'to',
+  'with',
+]);
+
+export type ListingSearchField = 'title' | 'breed' | 'speciesId' | 'make' | 'model' | 'city' | 'description';
+
+const FIELD_WEIGHTS: Record<ListingSearchField, number> = {
+  title: 5,
+  breed: 4,
+  speciesId: 4,
+  make: 3,
+  model: 3,
+  city: 2,
+  description: 1,
+};
+
+/** Fields that also get prefix tokens (description is too long to prefix-index). */
+const PREFIX_FIELDS = new Set<ListingSearchField>(['title', 'breed', 'speciesId', 'make', 'model', 'city']);
+
+/** Field order matters: earlier fields win when the token cap is hit. */
+const FIELD_ORDER: ListingSearchField[] = ['title', 'breed', 'speciesId', 'make', 'model', 'city', 'description'];
+
+/**
+ * Lowercase, strip diacritics, split on anything that isn't a letter/digit.
+ * Drops stop words and 1-char tokens. Order-preserving, de-duplicated.
+ */
+export function tokenizeSearchText(input: unknown): string[] {
+  if (input === null || input === undefined) return [];
+  const text = String(input)
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+  const out: string[] = [];
+  const seen = new Set<string>();
+  for (const raw of text.split(/[^a-z0-9]+/)) {
+    const t = raw.slice(0, MAX_TOKEN_LENGTH);
+    if (t.length < MIN_TOKEN_LENGTH || STOP_WORDS.has(t) || seen.has(t)) continue;
+    seen.add(t);
+    out.push(t);
+  }
+  return out;
+}
+
+/** Pull the searchable text out of a listing (UI `Listing`, `ListingDoc`, or raw Firestore data). */
+export function getListingSearchFields(listing: any): Record<ListingSearchField, string> {
+  const attrs = listing?.attributes && typeof listing.attributes === 'object' ? listing.attributes : {};
+  const str = (v: unknown) => (typeof v === 'string' ? v : '');
+  return {
+    title: str(listing?.title),
+    breed: str(attrs.breed),
+    // speciesId values are snake_case ids (e.g. "axis_deer"); the tokenizer splits them into words.
+    speciesId: str(attrs.speciesId),
+    make: str(attrs.make),
+    model: str(attrs.model),
+    city: str(listing?.location?.city),
+    description: str(listing?.description),
+  };
+}
+
+/**
+ * Build the `searchTokens` array stored on a listing doc.
+ */
+export function buildListingSearchTokens(listing: any): string[] {
+  const fields = getListingSearchFields(listing);
+  const out: string[] = [];
+  const seen = new Set<string>();
+  const push = (t: string) => {
+    if (seen.has(t) || out.length >= MAX_LISTING_SEARCH_TOKENS) return;
+    seen.add(t);
+    out.push(t);
+  };
+
+  for (const field of FIELD_ORDER) {
+    for (const token of tokenizeSearchText(fields[field])) {
+      push(token);
+      if (!PREFIX_FIELDS.has(field)) continue;
+      for (let len = MIN_PREFIX_LENGTH; len < token.length; len++) push(token.slice(0, len));
+    }
+  }
+  return out;
+}
+
+/**
+ * Tokenize a user's query for search. Returns at most MAX_SEARCH_QUERY_TOKENS tokens.
+ */
+export function parseSearchQuery(query: unknown): string[] {
+  return tokenizeSearchText(query).slice(0, MAX_SEARCH_QUERY_TOKENS);
+}
+
+/**
+ * Relevance score for a listing against query tokens. Every query token must match some field
+ * (AND semantics); otherwise the score is 0.
+ *
+ * - Whole-token match: field weight
+ * - Prefix match (query token is a prefix of a field token): half the field weight
+ * - Bonus when the full query phrase appears in the title
+ */
+export function scoreListingForQuery(listing: any, queryTokens: string[]): number {
+  if (!queryTokens.length) return 0;
+  const fields = getListingSearchFields(listing);
+  const fieldTokens = FIELD_ORDER.map((field) => ({ field, tokens: tokenizeSearchText(fields[field]) }));
+
+  let score = 0;
+  for (const q of queryTokens) {
+    let best = 0;
+    for (const { field, tokens } of fieldTokens) {
+      const w = FIELD_WEIGHTS[field];
+      if (w <= best) continue;
+      if (tokens.includes(q)) best = w;
+      else if (q.length >= MIN_PREFIX_LENGTH && tokens.some((t) => t.startsWith(q))) best = Math.max(best, w / 2);
+    }
+    if (best === 0) return 0;
+    score += best;
+  }
+
+  if (queryTokens.length > 1 && tokenizeSearchText(fields.title).join(' ').includes(queryTokens.join(' '))) {
+    score += FIELD_WEIGHTS.title;
+  }
+  return score;
+}
+
+/**
+ * True when a listing matches a free-text query (used by saved-search matching).
+ * An empty/blank query matches everything.
+ */
+export function listingMatchesSearchQuery(listing: any, query: unknown): boolean {
+  const tokens = parseSearchQuery(query);
+  if (!tokens.length) return true;
+  return scoreListingForQuery(listing, tokens) > 0;
+}
@@ -0,0 +1,123 @@
+import PDFDocument from 'pdfkit';
+import type { SellerStatement } from '@/lib/seller/statements';
+
+function usd(n: number) {
+  const abs = Math.abs(n).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return n < 0 ? `-$${abs}` : `$${abs}`;
+}
+
+/** Statement PDF (same pdfkit setup as the bill of sale): summary, monthly table, categories, line items. */
+export async function renderSellerStatementPdfBuffer(
+  statement: SellerStatement,
+  seller: { uid: string; name: string; email?: string | null }
+): Promise<Buffer> {
+  return await new Promise((resolve, reject) => {
+    try {
+      const doc = new PDFDocument({
+        size: 'LETTER',
+        margin: 54,
+        info: {
+          Title: `Seller statement – ${statement.period.label}`,
+          Author: 'Agchange',
+          Subject: `Seller ${seller.uid}`,
+        } as any,
+      });
+      const chunks: Buffer[] = [];
+      doc.on('data', (c: any) => chunks.push(Buffer.isBuffer(c) ? c : Buffer.from(c)));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      const left = doc.page.margins.left;
+      const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+      const h = (t: string) => doc.fontSize(16).font('Helvetica-Bold').text(t, { align: 'left' }).moveDown(0.25);
+      const sh = (t: string) => doc.fontSize(12).font('Helvetica-Bold').text(t, left).moveDown(0.2);
+      const kv = (k: string, v: string) => {
+        doc.fontSize(10).font('Helvetica-Bold').text(`${k}: `, left, undefined, { continued: true });
+        doc.font('Helvetica').text(v || '—');
+      };
+      /** Fixed-width columns; first column left-aligned, the rest right-aligned. */
+      const row = (cells: string[], widths: number[], bold = false) => {
+        if (doc.y > doc.page.height - doc.page.margins.bottom - 20) doc.addPage();
+        const y = doc.y;
+        let x = left;
+        doc.fontSize(8.5).font(bold ? 'Helvetica-Bold' : 'Helvetica');
+        cells.forEach((c, i) => {
+          const w = widths[i] * width;
+          doc.text(c, x, y, { width: w - 4, align: i === 0 ? 'left' : 'right', lineBreak: false, ellipsis: true });
+          x += w;
+        });
+        doc.x = left;
+        doc.y = y + 13;
+      };
+
+      h('Seller Statement');
+      doc.fontSize(10).font('Helvetica').fillColor('#444').text(`${statement.period.label}   Generated ${new Date().toISOString().slice(0, 10)}`);
+      doc.moveDown(0.5);
+      doc.fillColor('#111');
+      kv('Seller', `${seller.name}${seller.email ? ` (${seller.email})` : ''}`);
+      kv(
+        'Period',
+        `${statement.period.start.toISOString().slice(0, 10)} to ${new Date(statement.period.end.getTime() - 1).toISOString().slice(0, 10)} (UTC)`
+      );
+      doc.moveDown(0.75);
+
+      const t = statement.totals;
+      sh('Summary');
+      kv('Orders', String(t.orderCount));
+      kv('Gross sales', usd(t.grossSales));
+      kv('Platform fees', usd(-t.platformFees));
+      kv('Refunds', usd(-t.refunds));
+      kv('Chargebacks', usd(-t.chargebacks));
+      kv('Net payout', usd(t.netPayout));
+      kv('Sales tax collected (passed through, not included above)', usd(t.salesTaxCollected));
+      doc.moveDown(0.75);
+
+      if (statement.months.length > 0) {
+        sh('By month');
+        const w = [0.2, 0.1, 0.15, 0.15, 0.13, 0.13, 0.14];
+        row(['Month', 'Orders', 'Gross', 'Fees', 'Refunds', 'Chargebacks', 'Net'], w, true);
+        for (const m of statement.months) {
+          row([m.label, String(m.orderCount), usd(m.grossSales), usd(m.platformFees), usd(m.refunds), usd(m.chargebacks), usd(m.netPayout)], w);
+        }
+        doc.moveDown(0.75);
+      }
+
+      if (statement.byCategory.length > 0) {
+        sh('By category');
+        const w = [0.4, 0.12, 0.16, 0.16, 0.16];
+        row(['Category', 'Orders', 'Gross', 'Fees', 'Net'], w, true);
+        for (const c of statement.byCategory) {
+          row([c.label, String(c.orderCount), usd(c.grossSales), usd(c.platformFees), usd(c.netPayout)], w);
+        }
+        doc.moveDown(0.75);
+      }
+
+      sh('Line items');
+      if (statement.lines.length === 0) {
+        doc.fontSize(10).font('Helvetica').text('No activity in this period.', left);
+      } else {
+        const w = [0.12, 0.1, 0.3, 0.12, 0.12, 0.12, 0.12];
+        row(['Date', 'Type', 'Listing', 'Gross', 'Fee', 'Adj.', 'Net'], w, true);
+        for (const l of statement.lines) {
+          row([l.date, l.type, l.listingTitle, usd(l.gross), usd(-l.platformFee), usd(l.adjustment), usd(l.net)], w);
+        }
+      }
+
+      doc.moveDown(1);
+      doc
+        .fontSize(8)
+        .font('Helvetica')
+        .fillColor('#666')
+        .text(
+          'Payments are processed by Stripe and paid to your connected account at checkout. This statement summarizes Agchange order records and is not a tax form; Stripe issues any required 1099-K.',
+          left,
+          undefined,
+          { width }
+        );
+
+      doc.end();
+    } catch (e) {
+      reject(e);
+    }
+  });
+}
@@ -0,0 +1,348 @@
+/**
+ * Seller earnings statements (monthly / annual) for `/api/seller/statements`.
+ *
+ * Built from the seller's own order docs:
+ * - Sales are counted in the period the order was paid (`paidAt`); unpaid orders are skipped.
+ * - A sale is what was actually captured: the deposit plus the final payment (or paid installments), so a
+ *   deposit order whose balance is still open or was forfeited counts only the deposit. Its fee is pro-rated.
+ * - Refunds are counted in the period they were issued (`refundedAt`), chargebacks in the period they were lost.
+ * - Sales tax collected with the charge is shown separately and is not part of gross sales.
+ * - Periods are calendar months/years in UTC.
+ *
+ * Pure helpers only; the route loads orders/chargebacks and `statementPdf.ts` renders the PDF.
+ */
+
+import { BROWSE_CATEGORIES } from '@/components/browse/filters/constants';
+
+export type SellerStatementOrder = {
+  orderId: string;
+  listingTitle: string;
+  category: string | null;
+  paidAt: Date | null;
+  /** Amount captured so far (dollars, pre-tax): full total, or deposit + final payment / paid installments. */
+  grossAmount: number;
+  platformFee: number;
+  salesTax: number;
+  refundedAt: Date | null;
+  refundAmount: number;
+  chargebackLostAt: Date | null;
+  chargebackAmount: number;
+};
+
+export type SellerStatementPeriod = {
+  year: number;
+  /** 1–12 for a monthly statement; null for an annual statement. */
+  month: number | null;
+  start: Date;
+  end: Date;
+  label: string;
+};
+
+export type SellerStatementTotals = {
+  orderCount: number;
+  grossSales: number;
+  platformFees: number;
+  refunds: number;
+  chargebacks: number;
+  salesTaxCollected: number;
+  netPayout: number;
+};
+
+export type SellerStatementLine = {
+  date: string;
+  type: 'sale' | 'refund' | 'chargeback';
+  orderId: string;
+  listingTitle: string;
+  category: string;
+  gross: number;
+  platformFee: number;
+  salesTax: number;
+  adjustment: number;
+  net: number;
+};
+
+export type SellerStatement = {
+  period: SellerStatementPeriod;
+  totals: SellerStatementTotals;
+  /** Annual statements only: one row per month (January first). */
+  months: Array<{ month: number; label: string } & SellerStatementTotals>;
+  byCategory: Array<{ category: string; label: string; orderCount: number; grossSales: number; platformFees: number; netPayout: number }>;
+  lines: SellerStatementLine[];
+};
+
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+function toDate(v: any): Date | null {
+  if (!v) return null;
+  if (v instanceof Date) return Number.isFinite(v.getTime()) ? v : null;
+  if (typeof v?.toDate === 'function') {
+    try {
+      const d = v.toDate();
+      return d instanceof Date && Number.isFinite(d.getTime()) ? d : null;
+    } catch {
+      return null;
+    }
+  }
+  if (typeof v === 'string' || typeof v === 'number') {
+    const d = new Date(v);
+    return Number.isFinite(d.getTime()) ? d : null;
+  }
+  return null;
+}
+
+function num(v: any): number {
+  return typeof v === 'number' && Number.isFinite(v) ? v : 0;
+}
+
+function roundCents(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+export function getSellerStatementCategoryLabel(category: string | null | undefined): string {
+  if (!category) return 'Other';
+  return BROWSE_CATEGORIES.find((c) => c.value === category)?.label || category;
+}
+
+/** Pre-tax dollars captured on an order: deposit orders count only what has been paid so far. */
+function getCapturedAmount(data: any): number {
+  const total = num(data?.amount);
+  const installments = Array.isArray(data?.installmentPlan?.installments) ? data.installmentPlan.installments : [];
+  if (installments.length > 0) {
+    const paid = installments.reduce((sum: number, i: any) => sum + (i?.paidAt ? num(i?.amount) : 0), 0);
+    return Math.min(total, roundCents(paid));
+  }
+  const deposit = num(data?.depositAmount);
+  if (deposit > 0 && !data?.finalPaymentConfirmedAt) return Math.min(total, deposit);
+  return total;
+}
+
+/**
+ * Normalize an order doc. `chargeback` is the matching `chargebacks/{disputeId}` doc (amount in cents), if any;
+ * only lost chargebacks reduce the statement.
+ */
+export function toSellerStatementOrder(orderId: string, data: any, chargeback?: any): SellerStatementOrder {
+  const orderTotal = num(data?.amount);
+  const grossAmount = getCapturedAmount(data);
+  // `platformFee` is the fee on the full order (`platformFeeAmount` is only the deposit session's share on deposit
+  // orders); charge it in proportion to what was captured.
+  const fullFee = num(data?.platformFee) || num(data?.platformFeeAmount);
+  const platformFee = grossAmount >= orderTotal ? fullFee : orderTotal > 0 ? roundCents((fullFee * grossAmount) / orderTotal) : 0;
+  const refundedAt = toDate(data?.refundedAt);
+  const refundAmount = refundedAt ? (num(data?.refundAmount) > 0 ? num(data.refundAmount) : grossAmount) : 0;
+  const chargebackLost = String(data?.chargebackStatus || '') === 'lost';
+  return {
+    orderId,
+    listingTitle: String(data?.listingSnapshot?.title || data?.listingTitle || 'Listing'),
+    category: typeof data?.listingSnapshot?.category === 'string' ? data.listingSnapshot.category : null,
+    paidAt: toDate(data?.paidAt),
+    grossAmount,
+    platformFee,
+    salesTax: num(data?.salesTax?.amount),
+    refundedAt,
+    refundAmount,
+    chargebackLostAt: chargebackLost
+      ? toDate(chargeback?.fundsWithdrawnAt) || toDate(chargeback?.updatedAt) || toDate(data?.updatedAt)
+      : null,
+    chargebackAmount: chargebackLost ? num(chargeback?.amount) / 100 : 0,
+  };
+}
+
+export function getSellerStatementPeriod(year: number, month?: number | null): SellerStatementPeriod {
+  if (month) {
+    return {
+      year,
+      month,
+      start: new Date(Date.UTC(year, month - 1, 1)),
+      end: new Date(Date.UTC(year, month, 1)),
+      label: `${MONTH_NAMES[month - 1]} ${year}`,
+    };
+  }
+  return {
+    year,
+    month: null,
+    start: new Date(Date.UTC(year, 0, 1)),
+    end: new Date(Date.UTC(year + 1, 0, 1)),
+    label: `${year}`,
+  };
+}
+
+function emptyTotals(): SellerStatementTotals {
+  return { orderCount: 0, grossSales: 0, platformFees: 0, refunds: 0, chargebacks: 0, salesTaxCollected: 0, netPayout: 0 };
+}
+
+function roundTotals<T extends SellerStatementTotals>(t: T): T {
+  return {
+    ...t,
+    grossSales: roundCents(t.grossSales),
+    platformFees: roundCents(t.platformFees),
+    refunds: roundCents(t.refunds),
+    chargebacks: roundCents(t.chargebacks),
+    salesTaxCollected: roundCents(t.salesTaxCollected),
+    netPayout: roundCents(t.grossSales - t.platformFees - t.refunds - t.chargebacks),
+  };
+}
+
+function within(d: Date | null, period: SellerStatementPeriod): d is Date {
+  return !!d && d >= period.start && d < period.end;
+}
+
+export function buildSellerStatement(orders: SellerStatementOrder[], period: SellerStatementPeriod): SellerStatement {
+  const totals = emptyTotals();
+  const months = MONTH_NAMES.map(() => emptyTotals());
+  const byCategory = new Map<string, { orderCount: number; grossSales: number; platformFees: number; adjustments: number }>();
+  const lines: SellerStatementLine[] = [];
+
+  const bucket = (category: string | null) => {
+    const key = category || 'other';
+    const row = byCategory.get(key) || { orderCount: 0, grossSales: 0, platformFees: 0, adjustments: 0 };
+    byCategory.set(key, row);
+    return row;
+  };
+
+  for (const o of orders) {
+    const categoryLabel = getSellerStatementCategoryLabel(o.category);
+
+    if (within(o.paidAt, period)) {
+      const m = months[o.paidAt.getUTCMonth()];
+      totals.orderCount += 1;
+      totals.grossSales += o.grossAmount;
+      totals.platformFees += o.platformFee;
+      totals.salesTaxCollected += o.salesTax;
+      m.orderCount += 1;
+      m.grossSales += o.grossAmount;
+      m.platformFees += o.platformFee;
+      m.salesTaxCollected += o.salesTax;
+      const row = bucket(o.category);
+      row.orderCount += 1;
+      row.grossSales += o.grossAmount;
+      row.platformFees += o.platformFee;
+      lines.push({
+        date: o.paidAt.toISOString().slice(0, 10),
+        type: 'sale',
+        orderId: o.orderId,
+        listingTitle: o.listingTitle,
+        category: categoryLabel,
+        gross: o.grossAmount,
+        platformFee: o.platformFee,
+        salesTax: o.salesTax,
+        adjustment: 0,
+        net: roundCents(o.grossAmount - o.platformFee),
+      });
+    }
+
+    const adjustments: Array<{ type: 'refund' | 'chargeback'; at: Date | null; amount: number }> = [
+      { type: 'refund', at: o.refundedAt, amount: o.refundAmount },
+      { type: 'chargeback', at: o.chargebackLostAt, amount: o.chargebackAmount },
+    ];
+    for (const adj of adjustments) {
+      if (adj.amount <= 0 || !within(adj.at, period)) continue;
+      const m = months[adj.at.getUTCMonth()];
+      if (adj.type === 'refund') {
+        totals.refunds += adj.amount;
+        m.refunds += adj.amount;
+      } else {
+        totals.chargebacks += adj.amount;
+        m.chargebacks += adj.amount;
+      }
+      bucket(o.category).adjustments += adj.amount;
+      lines.push({
+        date: adj.at.toISOString().slice(0, 10),
+        type: adj.type,
+        orderId: o.orderId,
+        listingTitle: o.listingTitle,
+        category: categoryLabel,
+        gross: 0,
+        platformFee: 0,
+        salesTax: 0,
+        adjustment: -adj.amount,
+        net: -adj.amount,
+      });
+    }
+  }
+
+  lines.sort((a, b) => a.date.localeCompare(b.date) || a.orderId.localeCompare(b.orderId));
+
+  return {
+    period,
+    totals: roundTotals(totals),
+    months:
+      period.month === null
+        ? months.map((t, i) => ({ month: i + 1, label: MONTH_NAMES[i], ...roundTotals(t) }))
+        : [],
+    byCategory: Array.from(byCategory.entries())
+      .map(([category, r]) => ({
+        category,
+        label: getSellerStatementCategoryLabel(category === 'other' ? null : category),
+        orderCount: r.orderCount,
+        grossSales: roundCents(r.grossSales),
+        platformFees: roundCents(r.platformFees),
+        netPayout: roundCents(r.grossSales - r.platformFees - r.adjustments),
+      }))
+      .sort((a, b) => b.grossSales - a.grossSales),
+    lines,
+  };
+}
+
+function csvCell(v: string | number): string {
+  return `"${String(v).replace(/"/g, '""')}"`;
+}
+
+function money(n: number): string {
+  return n.toFixed(2);
+}
+
+/** Accountant-friendly CSV: summary, monthly (annual only), category breakdown, then every line item. */
+export function sellerStatementToCsv(statement: SellerStatement, sellerName: string): string {
+  const t = statement.totals;
+  const rows: Array<Array<string | number>> = [
+    ['Seller statement', statement.period.label],
+    ['Seller', sellerName],
+    ['Period', `${statement.period.start.toISOString().slice(0, 10)} to ${new Date(statement.period.end.getTime() - 1).toISOString().slice(0, 10)} (UTC)`],
+    [],
+    ['Summary', 'Amount (USD)'],
+    ['Orders', t.orderCount],
+    ['Gross sales', money(t.grossSales)],
+    ['Platform fees', money(-t.platformFees)],
+    ['Refunds', money(-t.refunds)],
+    ['Chargebacks', money(-t.chargebacks)],
+    ['Net payout', money(t.netPayout)],
+    ['Sales tax collected (passed through, not included above)', money(t.salesTaxCollected)],
+  ];
+
+  if (statement.months.length > 0) {
+    rows.push([], ['Month', 'Orders', 'Gross sales', 'Platform fees', 'Refunds', 'Chargebacks', 'Net payout', 'Sales tax']);
+    for (const m of statement.months) {
+      rows.push([m.label, m.orderCount, money(m.grossSales), money(m.platformFees), money(m.refunds), money(m.chargebacks), money(m.netPayout), money(m.salesTaxCollected)]);
+    }
+  }
+
+  rows.push([], ['Category', 'Orders', 'Gross sales', 'Platform fees', 'Net payout']);
+  for (const c of statement.byCategory) {
+    rows.push([c.label, c.orderCount, money(c.grossSales), money(c.platformFees), money(c.netPayout)]);
+  }
+
+  rows.push([], ['Date', 'Type', 'Order ID', 'Listing', 'Category', 'Gross', 'Platform fee', 'Refund / chargeback', 'Net', 'Sales tax']);
+  for (const l of statement.lines) {
+    rows.push([l.date, l.type, l.orderId, l.listingTitle, l.category, money(l.gross), money(l.platformFee), money(l.adjustment), money(l.net), money(l.salesTax)]);
+  }
+
+  return rows.map((r) => r.map(csvCell).join(',')).join('\n');
+}
+
+export function getSellerStatementFilename(period: SellerStatementPeriod, ext: 'csv' | 'pdf'): string {
+  const suffix = period.month ? `${period.year}-${String(period.month).padStart(2, '0')}` : String(period.year);
+  return `agchange-statement-${suffix}.${ext}`;
+}
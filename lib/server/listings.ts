@@ -107,6 +107,12 @@ function migrateAttributes(docData: Record<string, unknown> & { id: string }): L
   } as ListingAttributes;
 }
 
+function geoFromDoc(value: unknown): Listing['geo'] {
+  const g = value as { lat?: unknown; lng?: unknown; geohash?: unknown } | null | undefined;
+  if (!g || typeof g.lat !== 'number' || typeof g.lng !== 'number') return undefined;
+  return { lat: g.lat, lng: g.lng, geohash: String(g.geohash || '') };
+}
+
 /**
  * Fetch a single listing by ID for SSR (server shell / metadata).
  * Returns plain Listing shape (Dates are serialized when passed to client).
@@ -185,6 +191,7 @@ export async function getListingForSSR(id: string): Promise<Listing | null> {
       subcategory: d.subcategory as string | undefined,
       attributes,
       endsAt: timestampToDate(d.endsAt),
+      scheduledStartAt: timestampToDate(d.scheduledStartAt),
       startAt: timestampToDate(d.startAt),
       endAt: timestampToDate(d.endAt),
       durationDays: (typeof d.durationDays === 'number' && [1, 3, 5, 7, 10].includes(d.durationDays) ? d.durationDays : undefined) as ListingDurationDays | undefined,
@@ -213,6 +220,7 @@ export async function getListingForSSR(id: string): Promise<Listing | null> {
       resubmissionCount: typeof d.resubmissionCount === 'number' ? d.resubmissionCount : undefined,
       transportOption: d.transportOption === 'SELLER_TRANSPORT' || d.transportOption === 'BUYER_TRANSPORT' ? d.transportOption : undefined,
       deliveryDetails: d.deliveryDetails && typeof d.deliveryDetails === 'object' ? { ...d.deliveryDetails } : undefined,
+      geo: geoFromDoc(d.geo),
       protectedTransactionEnabled: d.protectedTransactionEnabled as boolean | undefined,
       protectedTransactionDays: d.protectedTransactionDays as 3 | 7 | 14 | null | undefined,
       protectedTransactionBadge: d.protectedTransactionDays === 3 ? 'PROTECTED_3' : d.protectedTransactionDays === 7 ? 'PROTECTED_7' : d.protectedTransactionDays === 14 ? 'PROTECTED_14' : null,
@@ -226,6 +234,8 @@ export async function getListingForSSR(id: string): Promise<Listing | null> {
       bestOfferMinPrice: (d.bestOfferMinPrice ?? (d.bestOfferSettings as { minPrice?: number } | undefined)?.minPrice) as number | undefined,
       bestOfferAutoAcceptPrice: (d.bestOfferAutoAcceptPrice ?? (d.bestOfferSettings as { autoAcceptPrice?: number } | undefined)?.autoAcceptPrice) as number | undefined,
       bestOfferSettings: d.bestOfferSettings as Listing['bestOfferSettings'],
+      depositTerms: d.depositTerms as Listing['depositTerms'],
+      installmentPlan: d.installmentPlan as Listing['installmentPlan'],
       offerReservedByOfferId: d.offerReservedByOfferId as string | undefined,
       offerReservedAt: timestampToDate(d.offerReservedAt),
       purchaseReservedByOrderId: typeof d.purchaseReservedByOrderId === 'string' ? d.purchaseReservedByOrderId : undefined,
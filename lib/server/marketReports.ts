@@ -0,0 +1,69 @@
+/**
+ * Server-only market-price reports (public `/market/*` pages + sitemap).
+ * Uses Firebase Admin SDK. Do not import in client bundles.
+ */
+
+import { getAdminDb } from '@/lib/firebase/admin';
+import {
+  MIN_SALES_FOR_MARKET_INDEX,
+  computeMarketReport,
+  getMarketForListing,
+  toMarketSale,
+  type MarketDef,
+  type MarketReport,
+  type MarketSale,
+} from '@/lib/market/marketIndex';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Upper bounds on sold docs scanned per report / per sitemap build. */
+const MAX_MARKET_SALES = 2000;
+const MAX_INDEX_SCAN = 5000;
+
+async function getMarketSales(def: MarketDef, nowMs: number): Promise<MarketSale[]> {
+  const db = getAdminDb();
+  let q: FirebaseFirestore.Query = db.collection('listings').where('status', '==', 'sold').where('category', '==', def.category);
+  if (def.field && def.value) q = q.where(`attributes.${def.field}`, '==', def.value);
+  const snap = await q
+    .where('soldAt', '>=', new Date(nowMs - 365 * DAY_MS))
+    .orderBy('soldAt', 'desc')
+    .select('soldAt', 'soldPriceCents', 'saleType', 'type', 'location.state')
+    .limit(MAX_MARKET_SALES)
+    .get();
+  return snap.docs.map((d) => toMarketSale(d.data())).filter((s): s is MarketSale => s !== null);
+}
+
+export async function getMarketReport(def: MarketDef, opts?: { state?: string | null; nowMs?: number }): Promise<MarketReport> {
+  const nowMs = opts?.nowMs ?? Date.now();
+  const sales = await getMarketSales(def, nowMs);
+  return computeMarketReport(sales, nowMs, { state: opts?.state });
+}
+
+/**
+ * Markets with at least `MIN_SALES_FOR_MARKET_INDEX` sales in the trailing year, most active first.
+ * One scan over recent sold listings (not one query per market).
+ */
+export async function getActiveMarkets(nowMs: number = Date.now()): Promise<Array<{ def: MarketDef; count: number }>> {
+  const db = getAdminDb();
+  const snap = await db
+    .collection('listings')
+    .where('status', '==', 'sold')
+    .where('soldAt', '>=', new Date(nowMs - 365 * DAY_MS))
+    .orderBy('soldAt', 'desc')
+    .select('category', 'attributes.speciesId', 'attributes.breed', 'soldPriceCents')
+    .limit(MAX_INDEX_SCAN)
+    .get();
+
+  const counts = new Map<string, { def: MarketDef; count: number }>();
+  for (const doc of snap.docs) {
+    const data = doc.data();
+    if (typeof data?.soldPriceCents !== 'number' || data.soldPriceCents <= 0) continue;
+    const def = getMarketForListing(data);
+    if (!def) continue;
+    const row = counts.get(def.slug) || { def, count: 0 };
+    row.count += 1;
+    counts.set(def.slug, row);
+  }
+  return Array.from(counts.values())
+    .filter((r) => r.count >= MIN_SALES_FOR_MARKET_INDEX)
+    .sort((a, b) => b.count - a.count || a.def.label.localeCompare(b.def.label));
+}
@@ -313,7 +313,7 @@ export async function createCheckoutSession(
   offerId?: string,
   paymentMethod?: 'card' | 'ach_debit' | 'wire',
   quantity?: number,
-  opts?: { buyerAcksAnimalRisk?: boolean; quantityMale?: number; quantityFemale?: number }
+  opts?: { buyerAcksAnimalRisk?: boolean; quantityMale?: number; quantityFemale?: number; paymentPlan?: 'installments' }
 ): Promise<{ url: string; sessionId: string }> {
   const user = auth.currentUser;
   if (!user) {
@@ -345,6 +345,7 @@ export async function createCheckoutSession(
       ...(opts?.buyerAcksAnimalRisk === true ? { buyerAcksAnimalRisk: true } : {}),
       ...(typeof opts?.quantityMale === 'number' ? { quantityMale: opts.quantityMale } : {}),
       ...(typeof opts?.quantityFemale === 'number' ? { quantityFemale: opts.quantityFemale } : {}),
+      ...(opts?.paymentPlan ? { paymentPlan: opts.paymentPlan } : {}),
     }),
   });
 
@@ -363,6 +364,7 @@ export async function createCheckoutSession(
           ...(opts?.buyerAcksAnimalRisk === true ? { buyerAcksAnimalRisk: true } : {}),
           ...(typeof opts?.quantityMale === 'number' ? { quantityMale: opts.quantityMale } : {}),
           ...(typeof opts?.quantityFemale === 'number' ? { quantityFemale: opts.quantityFemale } : {}),
+          ...(opts?.paymentPlan ? { paymentPlan: opts.paymentPlan } : {}),
         }),
       });
     }
@@ -392,6 +394,52 @@ export async function createCheckoutSession(
   return response.json();
 }
 
+/**
+ * Create one Stripe Checkout session for every cart item from a seller (card only).
+ * Pass `offerId` to pay for an accepted bundle offer from that seller instead.
+ */
+export async function createCartCheckoutSession(
+  sellerId: string,
+  opts?: { buyerAcksAnimalRisk?: boolean; offerId?: string }
+): Promise<{ url: string; sessionId: string; orderGroupId: string }> {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error('User must be authenticated');
+  }
+  const token = await getIdToken(user, true);
+  if (!token) {
+    throw new Error('Failed to get authentication token');
+  }
+
+  const response = await fetch(`${API_BASE}/checkout/create-cart-session`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({
+      sellerId,
+      ...(opts?.buyerAcksAnimalRisk === true ? { buyerAcksAnimalRisk: true } : {}),
+      ...(opts?.offerId ? { offerId: opts.offerId } : {}),
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({} as any));
+    let errorMessage = error?.message || error?.error || 'Failed to create checkout session';
+    if (response.status === 429) {
+      const sec = Math.ceil(Number(error?.retryAfter ?? response.headers.get('Retry-After')) || 0);
+      if (sec > 0) errorMessage = `Too many requests. Please try again in ${sec} seconds.`;
+    }
+    const err: any = new Error(errorMessage);
+    if (error?.code) err.code = error.code;
+    if (error?.listingId) err.listingId = error.listingId;
+    throw err;
+  }
+
+  return response.json();
+}
+
 export async function createWireIntent(
   listingId: string,
   offerId?: string,
@@ -546,11 +594,20 @@ export async function adminMarkOrderPaid(orderId: string): Promise<{ success: bo
  * Process refund (Admin only)
  * Creates a Stripe refund for an order
  */
-export async function processRefund(orderId: string, reason: string, amount?: number, notes?: string): Promise<{
+export async function processRefund(
+  orderId: string,
+  reason: string,
+  amount?: number,
+  notes?: string,
+  /** Per-head refund on a multi-quantity order (instead of `amount`). */
+  quantity?: number
+): Promise<{
   success: boolean;
   refundId: string;
   amount: number;
   isFullRefund: boolean;
+  refundQuantity?: number;
+  refundedQuantity?: number;
   message: string;
 }> {
   const user = auth.currentUser;
@@ -570,7 +627,7 @@ export async function processRefund(orderId: string, reason: string, amount?: nu
       'Content-Type': 'application/json',
       Authorization: `Bearer ${token}`,
     },
-    body: JSON.stringify({ orderId, reason, amount, notes }),
+    body: JSON.stringify({ orderId, reason, amount, notes, quantity }),
   });
 
   if (!response.ok) {
@@ -587,7 +644,7 @@ export async function processRefund(orderId: string, reason: string, amount?: nu
  * Confirm receipt (buyer)
  * NOTE: `acceptOrder` is kept for backward compatibility with older UI code.
  */
-export async function acceptOrder(orderId: string): Promise<{
+export async function acceptOrder(orderId: string, receivedQuantity?: number): Promise<{
   success: boolean;
   orderId: string;
   status: string;
@@ -609,6 +666,7 @@ export async function acceptOrder(orderId: string): Promise<{
       'Content-Type': 'application/json',
       Authorization: `Bearer ${token}`,
     },
+    body: JSON.stringify(receivedQuantity !== undefined ? { receivedQuantity } : {}),
   });
 
   if (!response.ok) {
@@ -674,7 +732,9 @@ export async function resolveDispute(
   refundAmount?: number,
   refundReason?: string,
   markFraudulent?: boolean,
-  adminNotes?: string
+  adminNotes?: string,
+  /** partial_refund by head (multi-quantity orders) instead of `refundAmount`. */
+  refundQuantity?: number
 ): Promise<{ success: boolean; message: string }> {
   const user = auth.currentUser;
   if (!user) {
@@ -692,7 +752,7 @@ export async function resolveDispute(
       'Content-Type': 'application/json',
       Authorization: `Bearer ${token}`,
     },
-    body: JSON.stringify({ resolution, refundAmount, refundReason, markFraudulent, adminNotes: adminNotes || '' }),
+    body: JSON.stringify({ resolution, refundAmount, refundQuantity, refundReason, markFraudulent, adminNotes: adminNotes || '' }),
   });
 
   if (!response.ok) {
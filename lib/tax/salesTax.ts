@@ -0,0 +1,258 @@
+/**
+ * Sales tax for checkout.
+ *
+ * - Tax is quoted on the full purchase price and collected up front as its own checkout line
+ *   (the deposit/balance split is unchanged), then passed through to the seller with the charge.
+ *   It is never part of the platform fee base.
+ * - Jurisdiction is the listing's location (origin-based; sellers arrange delivery).
+ * - The default provider reads the local rate table in `data/salesTaxRates.json`; set
+ *   `SALES_TAX_PROVIDER=none` to turn collection off, or add a provider here to swap in a tax service.
+ * - The quote is snapshotted onto the order as `order.salesTax` and never recalculated.
+ */
+
+import rateTableData from './data/salesTaxRates.json';
+import type { OrderSalesTax } from '@/lib/types';
+import { getCategoryTaxability, getSalesTaxExemptLabel, type SalesTaxExemptReason } from './taxability';
+
+type RateTableCounty = { name: string; localRate: number };
+type RateTableState = {
+  name: string;
+  stateRate: number;
+  maxLocalRate: number;
+  defaultLocalRate: number;
+  counties: Record<string, RateTableCounty>;
+  cities: Record<string, string>;
+};
+export type SalesTaxRateTable = { version: string; states: Record<string, RateTableState> };
+
+const DEFAULT_RATE_TABLE = rateTableData as SalesTaxRateTable;
+
+export type SalesTaxInput = {
+  category: string | null | undefined;
+  /** Pre-tax purchase total in cents. */
+  amountCents: number;
+  location: { state?: string | null; city?: string | null; county?: string | null } | null | undefined;
+};
+
+export type SalesTaxQuote = {
+  provider: string;
+  rateTableVersion: string | null;
+  state: string | null;
+  county: string | null;
+  taxable: boolean;
+  exemptReason: SalesTaxExemptReason | 'no_rate_table' | 'disabled' | null;
+  stateRate: number;
+  localRate: number;
+  rate: number;
+  /** Where `localRate` came from: a matched county, the state default, or nothing (exempt/unsupported). */
+  localRateSource: 'county' | 'state_default' | 'none';
+  taxableAmountCents: number;
+  taxCents: number;
+};
+
+export interface SalesTaxProvider {
+  id: string;
+  quote(input: SalesTaxInput): Promise<SalesTaxQuote>;
+}
+
+function normalizeKey(s: string | null | undefined): string {
+  return String(s || '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+county$/, '')
+    .replace(/\s+/g, ' ');
+}
+
+function roundRate(n: number): number {
+  return Math.round(n * 1_000_000) / 1_000_000;
+}
+
+function noTaxQuote(
+  provider: string,
+  input: SalesTaxInput,
+  exemptReason: SalesTaxQuote['exemptReason'],
+  rateTableVersion: string | null
+): SalesTaxQuote {
+  const state = String(input.location?.state || '').trim().toUpperCase() || null;
+  return {
+    provider,
+    rateTableVersion,
+    state,
+    county: null,
+    taxable: false,
+    exemptReason,
+    stateRate: 0,
+    localRate: 0,
+    rate: 0,
+    localRateSource: 'none',
+    taxableAmountCents: 0,
+    taxCents: 0,
+  };
+}
+
+/** Pure rate-table calculation (exported for tests and for providers that reuse the local table). */
+export function calculateSalesTaxFromRateTable(
+  input: SalesTaxInput,
+  table: SalesTaxRateTable = DEFAULT_RATE_TABLE
+): SalesTaxQuote {
+  const provider = 'rate_table';
+  const amountCents = Math.max(0, Math.round(Number(input.amountCents) || 0));
+  const stateCode = String(input.location?.state || '').trim().toUpperCase();
+  const stateRow = stateCode ? table.states[stateCode] : undefined;
+  if (!stateRow) return noTaxQuote(provider, input, 'no_rate_table', table.version);
+
+  const taxability = getCategoryTaxability(input.category, stateCode);
+  if (!taxability.taxable) return noTaxQuote(provider, input, taxability.reason, table.version);
+
+  const countyKey = normalizeKey(input.location?.county) || stateRow.cities[normalizeKey(input.location?.city)] || '';
+  const county = countyKey ? stateRow.counties[countyKey] : undefined;
+  const localRate = Math.min(county ? county.localRate : stateRow.defaultLocalRate, stateRow.maxLocalRate);
+  const rate = roundRate(stateRow.stateRate + localRate);
+
+  return {
+    provider,
+    rateTableVersion: table.version,
+    state: stateCode,
+    county: county?.name || null,
+    taxable: true,
+    exemptReason: null,
+    stateRate: stateRow.stateRate,
+    localRate: roundRate(localRate),
+    rate,
+    localRateSource: county ? 'county' : 'state_default',
+    taxableAmountCents: amountCents,
+    taxCents: Math.round(amountCents * rate),
+  };
+}
+
+export const rateTableSalesTaxProvider: SalesTaxProvider = {
+  id: 'rate_table',
+  async quote(input) {
+    return calculateSalesTaxFromRateTable(input);
+  },
+};
+
+const disabledSalesTaxProvider: SalesTaxProvider = {
+  id: 'none',
+  async quote(input) {
+    return noTaxQuote('none', input, 'disabled', null);
+  },
+};
+
+export function getSalesTaxProvider(): SalesTaxProvider {
+  const id = String(process.env.SALES_TAX_PROVIDER || 'rate_table').trim().toLowerCase();
+  if (id === 'none' || id === 'off') return disabledSalesTaxProvider;
+  return rateTableSalesTaxProvider;
+}
+
+export async function quoteSalesTax(input: SalesTaxInput): Promise<SalesTaxQuote> {
+  return getSalesTaxProvider().quote(input);
+}
+
+/** Immutable order snapshot (dollars), written by the webhook / wire intent. */
+export function toOrderSalesTax(quote: SalesTaxQuote): OrderSalesTax {
+  return {
+    taxable: quote.taxable,
+    state: quote.state,
+    county: quote.county,
+    rate: quote.rate,
+    stateRate: quote.stateRate,
+    localRate: quote.localRate,
+    taxableAmount: quote.taxableAmountCents / 100,
+    amount: quote.taxCents / 100,
+    exemptReason: quote.exemptReason,
+    provider: quote.provider,
+    rateTableVersion: quote.rateTableVersion,
+  };
+}
+
+/**
+ * Stripe metadata values are strings (max 500 chars), so the snapshot travels as one compact JSON value.
+ */
+export function serializeSalesTaxMetadata(tax: OrderSalesTax): string {
+  return JSON.stringify(tax);
+}
+
+export function parseSalesTaxMetadata(raw: string | null | undefined): OrderSalesTax | null {
+  if (!raw || typeof raw !== 'string') return null;
+  try {
+    const v = JSON.parse(raw);
+    if (!v || typeof v !== 'object' || typeof v.amount !== 'number' || !Number.isFinite(v.amount)) return null;
+    return v as OrderSalesTax;
+  } catch {
+    return null;
+  }
+}
+
+export function formatSalesTaxRate(rate: number): string {
+  return `${(Math.round(rate * 100_000) / 1000).toString()}%`;
+}
+
+/** e.g. "Sales tax (TX – Travis Co., 8.25%)" or "Sales tax: Exempt (livestock)". */
+export function formatSalesTaxLabel(tax: Pick<OrderSalesTax, 'taxable' | 'state' | 'county' | 'rate' | 'exemptReason'>): string {
+  if (!tax.taxable) return `Sales tax: ${getSalesTaxExemptLabel(tax.exemptReason)}`;
+  const where = [tax.state, tax.county ? `${tax.county} Co.` : null].filter(Boolean).join(' – ');
+  return `Sales tax (${where ? `${where}, ` : ''}${formatSalesTaxRate(tax.rate)})`;
+}
+
+export type SalesTaxJurisdictionSummary = {
+  state: string | null;
+  county: string | null;
+  rate: number;
+  orders: number;
+  taxableSales: number;
+  taxCollected: number;
+};
+
+export type SalesTaxReportSummary = {
+  totalCollected: number;
+  taxableSales: number;
+  exemptSales: number;
+  byJurisdiction: SalesTaxJurisdictionSummary[];
+};
+
+function roundCents(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * Roll order snapshots up for the admin revenue report (dollars). Orders without a snapshot
+ * (pre-tax orders) are skipped; exempt orders only count toward `exemptSales`. Tax handed back with a refund
+ * (`refundedTaxAmount`) isn't collected.
+ */
+export function summarizeSalesTax(
+  orders: Array<{ amount?: number; salesTax?: OrderSalesTax | null; refundedTaxAmount?: number | null }>
+): SalesTaxReportSummary {
+  const byKey = new Map<string, SalesTaxJurisdictionSummary>();
+  let totalCollected = 0;
+  let taxableSales = 0;
+  let exemptSales = 0;
+
+  for (const o of orders) {
+    const tax = o.salesTax;
+    if (!tax) continue;
+    if (!tax.taxable) {
+      exemptSales += typeof o.amount === 'number' && Number.isFinite(o.amount) ? o.amount : 0;
+      continue;
+    }
+    const refunded = typeof o.refundedTaxAmount === 'number' && Number.isFinite(o.refundedTaxAmount) ? o.refundedTaxAmount : 0;
+    const collected = Math.max(0, tax.amount - refunded);
+    totalCollected += collected;
+    taxableSales += tax.taxableAmount;
+    const key = `${tax.state || ''}|${tax.county || ''}|${tax.rate}`;
+    const row = byKey.get(key) || { state: tax.state, county: tax.county, rate: tax.rate, orders: 0, taxableSales: 0, taxCollected: 0 };
+    row.orders += 1;
+    row.taxableSales += tax.taxableAmount;
+    row.taxCollected += collected;
+    byKey.set(key, row);
+  }
+
+  return {
+    totalCollected: roundCents(totalCollected),
+    taxableSales: roundCents(taxableSales),
+    exemptSales: roundCents(exemptSales),
+    byJurisdiction: Array.from(byKey.values())
+      .map((r) => ({ ...r, taxableSales: roundCents(r.taxableSales), taxCollected: roundCents(r.taxCollected) }))
+      .sort((a, b) => b.taxCollected - a.taxCollected),
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Category-level sales tax rules.
+ *
+ * Live animals are treated as exempt livestock at checkout; equipment, vehicles and outfitter assets are
+ * taxable. States can override individual categories via `STATE_TAXABILITY_OVERRIDES`.
+ */
+
+import type { ListingCategory } from '@/lib/types';
+
+export type SalesTaxExemptReason = 'livestock' | 'category_exempt';
+
+export type CategoryTaxability = { taxable: true } | { taxable: false; reason: SalesTaxExemptReason };
+
+const DEFAULT_TAXABILITY: Record<ListingCategory, CategoryTaxability> = {
+  whitetail_breeder: { taxable: false, reason: 'livestock' },
+  wildlife_exotics: { taxable: false, reason: 'livestock' },
+  horse_equestrian: { taxable: false, reason: 'livestock' },
+  cattle_livestock: { taxable: false, reason: 'livestock' },
+  farm_animals: { taxable: false, reason: 'livestock' },
+  sporting_working_dogs: { taxable: false, reason: 'livestock' },
+  ranch_equipment: { taxable: true },
+  ranch_vehicles: { taxable: true },
+  hunting_outfitter_assets: { taxable: true },
+};
+
+const STATE_TAXABILITY_OVERRIDES: Record<string, Partial<Record<ListingCategory, CategoryTaxability>>> = {};
+
+export function getCategoryTaxability(category: string | null | undefined, state?: string | null): CategoryTaxability {
+  const key = String(category || '') as ListingCategory;
+  const override = state ? STATE_TAXABILITY_OVERRIDES[String(state).toUpperCase()]?.[key] : undefined;
+  if (override) return override;
+  // Unknown categories are not taxed rather than guessed at.
+  return DEFAULT_TAXABILITY[key] || { taxable: false, reason: 'category_exempt' };
+}
+
+export function getSalesTaxExemptLabel(reason: SalesTaxExemptReason | string | null | undefined): string {
+  if (reason === 'livestock') return 'Exempt (livestock)';
+  if (reason === 'category_exempt') return 'Exempt';
+  return 'Not collected';
+}
@@ -16,7 +16,8 @@ export type ListingCategory =
 // NOTE: Backwards-compatible.
 // - Historically we used `expired` (primarily for auctions).
 // - New duration model introduces `ended` + `endedReason` for all listing types.
-export type ListingStatus = 'draft' | 'pending' | 'active' | 'sold' | 'ended' | 'expired' | 'removed';
+/** `scheduled`: approved, goes live at a future `startAt` (activated by the activateScheduledListings job). */
+export type ListingStatus = 'draft' | 'pending' | 'scheduled' | 'active' | 'sold' | 'ended' | 'expired' | 'removed';
 
 // eBay-style duration choices (hard cap: 10 days)
 export type ListingDurationDays = 1 | 3 | 5 | 7 | 10;
@@ -37,6 +38,37 @@ export interface BestOfferSettings {
   offerExpiryHours: number; // default 48
 }
 
+// ============================================
+// DEPOSIT TERMS
+// ============================================
+
+/**
+ * Seller-set deposit terms (Fixed/Auction). Absent = platform default (20%, non-refundable, balance at delivery).
+ * See lib/pricing/deposit.ts.
+ */
+export interface ListingDepositTerms {
+  mode: 'percent' | 'fixed';
+  percent?: number; // 0.1–0.9 when mode = 'percent'
+  fixedAmount?: number; // dollars per head when mode = 'fixed'
+  refundable?: boolean; // refunded (not forfeited) if the balance is never paid
+  balanceDueDays?: number; // balance due N days after the deposit clears
+  balanceDueDate?: string; // or by a calendar date (YYYY-MM-DD, end of day UTC)
+}
+
+// ============================================
+// INSTALLMENT PLANS
+// ============================================
+
+/**
+ * Seller opt-in to installment plans (Fixed/Auction, high-ticket orders only). The buyer can then choose to pay
+ * in `installmentCount` equal payments, one every `intervalDays`, the first at checkout. See lib/pricing/installments.ts.
+ */
+export interface ListingInstallmentPlan {
+  enabled: boolean;
+  installmentCount: number; // 2–12, including the payment at checkout
+  intervalDays: number; // 7 | 14 | 30
+}
+
 export type OfferStatus =
   | 'open'
   | 'countered'
@@ -66,6 +98,22 @@ export interface OfferListingSnapshot {
   sellerId: string;
 }
 
+/** One listing in a bundle offer. `listPrice` is the line's asking total (unit price × quantity, or the lot price). */
+export interface OfferBundleItem {
+  listingId: string;
+  title: string;
+  quantity: number;
+  listPrice: number;
+  imageUrl?: string;
+}
+
+export interface OfferBundle {
+  items: OfferBundleItem[];
+  listPriceTotal: number;
+  /** False when any included listing disables seller counters. */
+  allowCounter?: boolean;
+}
+
 export interface Offer {
   offerId: string;
   listingId: string;
@@ -86,6 +134,19 @@ export interface Offer {
   acceptedBy?: string;
   checkoutSessionId?: string;
   orderId?: string;
+  /** Set when the seller sent this offer to a bidder after the auction ended (reserve not met / winner unpaid). */
+  secondChance?: {
+    sourceStatus: 'ended_reserve_not_met' | 'ended_unpaid_expired';
+    bidderMaxBidCents: number;
+  };
+  /**
+   * Bundle offers: one lump sum for several of a seller's listings. `listingId` is the first item;
+   * `listingIds` lists every included listing, and all of them are reserved on accept.
+   */
+  bundle?: OfferBundle;
+  listingIds?: string[];
+  /** Bundle checkout goes through an order group (one order per listing, one payment). */
+  orderGroupId?: string;
 }
 
 // Category-specific attribute types
@@ -440,6 +501,12 @@ export interface Listing {
     state: string;
     zip?: string;
   };
+  /** Geocoded point for radius search / distance (server-set at publish from ZIP or city). */
+  geo?: {
+    lat: number;
+    lng: number;
+    geohash: string;
+  };
   
   // Seller Reference (Firebase Auth UID)
   sellerId: string;
@@ -531,15 +598,38 @@ export interface Listing {
   // Auction-specific
   endsAt?: Date; // Auction end time
 
+  /**
+   * Anti-sniping soft-close (auctions only).
+   * - softClose: optional per-listing override of platform defaults (see lib/auctions/softClose.ts)
+   * - softCloseExtensionCount / originalEndsAt / lastExtendedAt: server-maintained by bid placement
+   */
+  softClose?: {
+    enabled?: boolean;
+    windowMinutes?: number;
+    extendMinutes?: number;
+    maxExtensions?: number;
+  };
+  softCloseExtensionCount?: number;
+  originalEndsAt?: Date;
+  lastExtendedAt?: Date;
+
+  /**
+   * Optional per-listing bid increment ladder (auctions only). When absent or invalid, the category
+   * ladder from lib/auctions/bidIncrements.ts applies. Ordered tiers; last tier has `upToCents: null`.
+   */
+  bidIncrementLadder?: Array<{ upToCents: number | null; incrementCents: number }>;
+
   /**
    * eBay-style universal listing duration model.
    * Backwards compatible: older docs may not have these fields.
    *
-   * - startAt: when the listing became active (server time)
+   * - startAt: when the listing goes/went live (server time; future while `status === 'scheduled'`)
    * - endAt: startAt + durationDays (server time)
    * - durationDays: 1|3|5|7|10
+   * - scheduledStartAt: seller-requested go-live time; applied to `startAt` on approval
    */
   durationDays?: ListingDurationDays;
+  scheduledStartAt?: Date | null;
   startAt?: Date;
   endAt?: Date;
   endedAt?: Date | null;
@@ -631,18 +721,30 @@ export interface Listing {
   internalFlags?: {
     duplicatePermitNumber?: boolean;
     duplicateFacilityId?: boolean;
+    /** Animal registry: the listed animal was last sold on-platform to someone other than this seller. */
+    animalOwnerMismatch?: boolean;
   };
   internalFlagsNotes?: {
     duplicatePermitNumber?: string;
     duplicateFacilityId?: string;
+    animalOwnerMismatch?: string;
   };
 
+  /** Animal registry records (`animals/{id}`) this listing's identifiers resolve to; set at publish. */
+  animalIds?: string[];
+
   // Best Offer (Fixed/Classified; eBay-style)
   bestOfferEnabled?: boolean;
   bestOfferMinPrice?: number;
   bestOfferAutoAcceptPrice?: number;
   bestOfferSettings?: BestOfferSettings;
 
+  // Deposit terms (Fixed/Auction); absent = platform default
+  depositTerms?: ListingDepositTerms;
+
+  // Installment plan opt-in (Fixed/Auction)
+  installmentPlan?: ListingInstallmentPlan;
+
   // Reserved by accepted offer (server-only)
   offerReservedByOfferId?: string;
   offerReservedAt?: Date;
@@ -724,6 +826,10 @@ export type PayoutHoldReason =
   | 'chargeback'
   // Compliance-driven payout holds (policy-based; written server-side)
   | 'MISSING_TAHC_CVI'
+  | 'MISSING_BRAND_INSPECTION'
+  | 'MISSING_COGGINS_TEST'
+  | 'MISSING_TB_TEST'
+  | 'MISSING_BRUCELLOSIS_TEST'
   | 'EXOTIC_CERVID_REVIEW_REQUIRED'
   | 'ESA_REVIEW_REQUIRED'
   | 'OTHER_EXOTIC_REVIEW_REQUIRED';
@@ -786,6 +892,8 @@ export interface DeliveryAddressSnapshot extends Omit<SavedAddress, 'id' | 'crea
 
 export interface CheckoutCurrent {
   deliveryAddressId: string | null;
+  /** Listing the address was picked for (the webhook only snapshots it onto that listing's order). */
+  listingId?: string | null;
   updatedAt: Date;
 }
 
@@ -812,7 +920,10 @@ export type OrderTimelineEventType =
   | 'FINAL_PAYMENT_RECEIVED'
   | 'FUNDS_RELEASED'
   | 'DISPUTE_OPENED'
-  | 'DISPUTE_RESOLVED';
+  | 'DISPUTE_RESOLVED'
+  | 'BALANCE_EXPIRED'
+  | 'INSTALLMENT_PAID'
+  | 'INSTALLMENT_PLAN_DEFAULTED';
 
 export interface OrderTimelineEvent {
   id: string; // deterministic for idempotency
@@ -824,10 +935,84 @@ export interface OrderTimelineEvent {
   meta?: Record<string, any>;
 }
 
+/**
+ * Deposit terms snapshot taken at checkout from the listing (see `lib/pricing/deposit.ts`).
+ * `percent` is the effective share of the order total that was charged as deposit.
+ */
+export interface OrderDepositTerms {
+  percent: number;
+  fixedAmount?: number;
+  refundable: boolean;
+  custom: boolean; // false = platform default terms
+  balanceDueDays?: number;
+  balanceDueDate?: string;
+}
+
+export type OrderInstallmentPlanStatus = 'active' | 'completed' | 'defaulted';
+
+export interface OrderInstallment {
+  number: number; // 1-based; 1 = paid at checkout
+  amount: number; // dollars
+  dueAt: Date;
+  paidAt?: Date;
+  stripeCheckoutSessionId?: string;
+  stripePaymentIntentId?: string;
+}
+
+/** Installment schedule snapshot (see `lib/pricing/installments.ts`). */
+export interface OrderInstallmentPlan {
+  installmentCount: number;
+  intervalDays: number;
+  status: OrderInstallmentPlanStatus;
+  installments: OrderInstallment[];
+  /** Set when an installment went unpaid past the default threshold; cleared if the buyer catches up. */
+  defaultedAt?: Date;
+  completedAt?: Date;
+}
+
+/**
+ * Sales tax snapshot (dollars) taken at checkout from `lib/tax/salesTax.ts`. Collected up front with the
+ * first payment and passed through to the seller; not part of `amount` or the platform fee.
+ */
+export interface OrderSalesTax {
+  taxable: boolean;
+  state: string | null;
+  county: string | null;
+  rate: number; // combined, e.g. 0.0825
+  stateRate: number;
+  localRate: number;
+  taxableAmount: number;
+  amount: number;
+  exemptReason?: string | null;
+  provider: string;
+  rateTableVersion?: string | null;
+}
+
+/**
+ * Delivered / picked-up head counts for multi-quantity orders. The seller reports on mark-delivered, the buyer
+ * on pickup confirmation or confirm-receipt; a shortfall is what per-head refunds and dispute claims settle.
+ */
+export interface OrderQuantityFulfillment {
+  expected: number;
+  method: 'delivery' | 'pickup';
+  sellerReported?: number;
+  sellerReportedAt?: Date;
+  buyerReported?: number;
+  buyerReportedAt?: Date;
+}
+
 export interface Order {
   id: string;
   listingId: string;
   offerId?: string; // If purchased via accepted Best Offer
+  /** Set when this order was one line of a multi-listing cart checkout (`orderGroups/{id}`). */
+  orderGroupId?: string;
+  /** Group orders: this line's charge on the shared PaymentIntent (deposit + sales tax, USD). */
+  lineAmount?: number;
+  /** Group orders: refunded so far against the shared PaymentIntent for this line (USD). */
+  lineRefundedAmount?: number;
+  /** Animal registry records transferred by this order (copied from the listing at sale). */
+  animalIds?: string[];
   buyerId: string;
   sellerId: string;
   amount: number;
@@ -871,6 +1056,10 @@ export interface Order {
   refundedAt?: Date; // When refund was processed
   refundReason?: string; // Reason for refund
   refundAmount?: number; // Partial refund amount (if applicable)
+  /** Head refunded so far via per-head refunds (`lib/orders/quantityRefunds.ts`). */
+  refundedQuantity?: number;
+  /** Sales tax refunded so far (running total, USD); subtracted from tax collected in the revenue report. */
+  refundedTaxAmount?: number;
   createdAt: Date;
   updatedAt: Date;
   completedAt?: Date;
@@ -886,12 +1075,41 @@ export interface Order {
   // Payment tracking (seller paid immediately via destination charge - no payout holds)
   paymentMethod?: OrderPaymentMethod; // How buyer paid (card vs bank rails)
   paidAt?: Date; // When payment was confirmed (deposit for deposit flow; full payment for legacy)
-  /** Deposit flow: 20% non-refundable deposit at checkout. Absent or 0 = legacy full payment. */
+  /** Deposit flow: deposit paid at checkout (20% by default; see `depositTerms`). Absent or 0 = legacy full payment. */
   depositAmount?: number;
-  /** Deposit flow: remaining balance (80%) due at inspection. Absent or 0 = legacy (no final payment). */
+  /** Deposit flow: remaining balance, due at inspection or by `balanceDueAt`. Absent or 0 = legacy (no final payment). */
   finalPaymentAmount?: number;
+  /** Deposit terms in force at checkout. Absent on orders created before per-listing terms (20%, non-refundable). */
+  depositTerms?: OrderDepositTerms;
+  /** Balance due date from `depositTerms`; unpaid past it (plus grace) the order is cancelled by `expireUnpaidBalances`. */
+  balanceDueAt?: Date;
+  /** True while a `balanceDueAt` balance is unpaid (cleared on payment / expiry); scanned by `expireUnpaidBalances`. */
+  balanceDuePending?: boolean;
+  /** Reminder thresholds (days before `balanceDueAt`) already sent. */
+  balanceRemindersSent?: number[];
+  /** Set when an unpaid balance expired: the deposit was kept by the seller or refunded to the buyer. */
+  depositExpiredAt?: Date;
+  depositExpiryOutcome?: 'forfeited' | 'refunded';
+  /** Expired balance: the refund it owes hasn't gone through yet (retried by `expireUnpaidBalances`). */
+  depositRefundPending?: boolean;
+  /** Last Stripe error while `depositRefundPending`. */
+  depositRefundError?: string;
+  /**
+   * Installment plan chosen at checkout: installment 1 is the deposit, the last one is the final payment, and
+   * delivery / pickup is held until it is paid.
+   */
+  installmentPlan?: OrderInstallmentPlan;
+  /** True while an active plan has installments left; scanned (with `nextInstallmentDueAt`) by `installmentDunning`. */
+  installmentsPending?: boolean;
+  nextInstallmentDueAt?: Date;
+  /** Latest Checkout Session opened for an installment; reused while still open so one installment isn't paid twice. */
+  installmentCheckoutSession?: { installmentNumber: number; sessionId: string; createdAt: Date };
+  /** Dunning notices already sent, as `"<installment number>:<days relative to due date>"`. */
+  installmentNoticesSent?: string[];
   /** Deposit flow: when buyer completed final payment. Absent = legacy or not yet paid. */
   finalPaymentConfirmedAt?: Date;
+  /** Sales tax quoted and collected at checkout. Absent on orders created before tax collection. */
+  salesTax?: OrderSalesTax;
   disputeDeadlineAt?: Date; // Deadline for buyer to dispute (for internal enforcement only, does not affect Stripe payout)
   /**
    * Fulfillment progress markers (seller paid immediately - these only track fulfillment, not payout timing).
@@ -905,6 +1123,8 @@ export interface Order {
    */
   acceptedAt?: Date; // When buyer accepted/received (legacy)
   buyerConfirmedAt?: Date; // When buyer confirms receipt (canonical)
+  /** Multi-quantity orders: head actually handed over, as reported by each side. */
+  quantityFulfillment?: OrderQuantityFulfillment;
   
   // FULFILLMENT WORKFLOW FIELDS (replaces escrow/payout release logic)
   /**
@@ -1013,6 +1233,8 @@ export interface Order {
    * Prefer `disputeStatus`.
    */
   protectedDisputeStatus?: DisputeStatus;
+  /** Multi-quantity orders: how many head the buyer's dispute claim covers (absent = whole order). */
+  protectedDisputeQuantity?: number;
   disputeEvidence?: DisputeEvidence[]; // Evidence uploaded for dispute
   payoutHoldReason?: PayoutHoldReason; // Why payout is held
   /**
@@ -1055,6 +1277,12 @@ export interface Order {
     required: DocumentType[];
     provided: DocumentType[];
     missing: DocumentType[];
+    /** Required docs an admin has verified (payout holds clear on these). */
+    verified?: DocumentType[];
+    /** Movement route the requirements were computed for (listing state → delivery/buyer state). */
+    originState?: string | null;
+    destinationState?: string | null;
+    interstate?: boolean;
   };
 
   // Chargeback tracking (optional; used for payout hold logic)
@@ -1095,6 +1323,70 @@ export interface Order {
   fulfillmentSlaStartedAt?: Date; // When fulfillment SLA period started
 }
 
+// ============================================
+// CART + ORDER GROUPS (MULTI-LISTING CHECKOUT)
+// ============================================
+
+/** `users/{uid}/cart/{listingId}`: buyer-owned; prices are re-read server-side at checkout. */
+export interface CartItemDoc {
+  listingId: string;
+  sellerId: string;
+  quantity: number;
+  /** fixed_group by-sex selection (quantityMale + quantityFemale = quantity). */
+  quantityMale?: number;
+  quantityFemale?: number;
+  /** Display-only snapshots from when the item was added. */
+  listingTitle: string;
+  unitPrice: number;
+  /** Group lots are priced for the whole lot rather than per head. */
+  isGroupLot?: boolean;
+  depositTerms?: ListingDepositTerms;
+  sellerDisplayName?: string;
+  coverPhotoUrl?: string;
+  addedAt: Date;
+  updatedAt: Date;
+}
+
+export type OrderGroupStatus = 'pending_payment' | 'paid' | 'expired';
+
+export interface OrderGroupLine {
+  listingId: string;
+  listingTitle: string;
+  quantity: number;
+  unitPrice: number; // dollars
+  orderTotal: number; // dollars (group lots: listing price; otherwise unitPrice * quantity)
+  depositAmount: number; // dollars
+  finalPaymentAmount: number; // dollars
+  depositCents: number;
+  platformFeeCents: number;
+  /** Sales tax on this line's orderTotal, charged with the deposit (see lib/tax/salesTax.ts). */
+  salesTax?: OrderSalesTax;
+  /** Listing's own deposit terms; absent = platform default. */
+  depositTerms?: OrderDepositTerms;
+}
+
+/**
+ * `orderGroups/{groupId}`: one cart checkout with one seller. Each line becomes its own order
+ * (with `orderGroupId` set) when the Stripe session completes; fulfillment is coordinated across them.
+ */
+export interface OrderGroup {
+  id: string;
+  buyerId: string;
+  sellerId: string;
+  lines: OrderGroupLine[];
+  orderIds: string[];
+  orderTotal: number; // dollars
+  depositCents: number;
+  platformFeeCents: number;
+  /** Total sales tax across lines, charged with the deposits (absent on groups created before tax collection). */
+  salesTaxCents?: number;
+  status: OrderGroupStatus;
+  stripeCheckoutSessionId?: string;
+  paidAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface FilterState {
   category?: ListingCategory;
   type?: ListingType;
@@ -1113,10 +1405,20 @@ export interface FilterState {
   species?: string[]; // Array of selected species/breeds
   quantity?: 'single' | 'pair' | 'small-group' | 'large-group' | 'lot'; // Single, 2-5, 6-10, 11+, lot
   healthStatus?: string[]; // Excellent, Good, Fair, etc.
+  /** Category attribute facets (`lib/search/categoryFacets.ts`): attribute field -> accepted values. */
+  attributes?: Record<string, string[]>;
   papers?: boolean; // Has registration/papers
   verifiedSeller?: boolean; // Only verified sellers
   transportReady?: boolean; // Transport-ready listings
   sellerOffersDelivery?: boolean; // Seller offers delivery (seller-provided; platform does not arrange transport)
+  /** Radius search: ZIP (geocoded server-side) or lat/lng, plus radius. Saved searches store the resolved lat/lng. */
+  near?: {
+    zip?: string;
+    lat?: number;
+    lng?: number;
+    radiusMiles: number;
+  };
+  deliversToMe?: boolean; // Seller's declared delivery radius reaches the buyer's default saved address
   deliveryTimeframe?: string; // same_day | next_day | 1_3 | 3_7 | 7_14 | 14_30 | 30_60
   endingSoon?: boolean; // Ending within 24 hours
   newlyListed?: boolean; // Listed within 7 days
@@ -1216,6 +1518,8 @@ export interface UserProfile {
   };
   // Seller review aggregates (server-authored).
   sellerReviewStats?: SellerReviewStats;
+  // Buyer reputation aggregates from seller ratings (server-authored; shown to sellers only).
+  buyerReviewStats?: BuyerReviewStats;
 
   // Legal acceptance (server-authored)
   legal?: {
@@ -1241,6 +1545,68 @@ export interface UserProfile {
   aiAdminSummaryModel?: string | null; // OpenAI model used (e.g., "gpt-4o-mini")
 }
 
+// ============================================
+// ANIMAL REGISTRY
+// ============================================
+/**
+ * Canonical animal records keyed by their identifiers (ear tag, microchip, registration number, tattoo),
+ * linking one animal across listings, orders, bills of sale and disputes. See lib/animals/.
+ */
+export type AnimalIdentifierType = 'ear_tag' | 'microchip' | 'registration' | 'tattoo';
+
+export interface AnimalIdentifier {
+  type: AnimalIdentifierType;
+  /** As entered by the seller. */
+  value: string;
+  /** `${type}:${normalized value}`; doc id under `animalIdentifiers/` (unique across the registry). */
+  key: string;
+}
+
+export interface AnimalRecord {
+  id: string;
+  category: ListingCategory;
+  speciesId?: string;
+  identifiers: AnimalIdentifier[];
+  identifierKeys: string[];
+  /** Seller of the latest listing, then the buyer once an order for it is paid (back to the seller if refunded). */
+  currentOwnerId: string;
+  /** Listing currently offering this animal (null once sold or the listing ends). */
+  activeListingId: string | null;
+  listingIds: string[];
+  orderIds: string[];
+  /** Set when the record was folded into another one that shares an identifier with it. */
+  mergedInto?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type AnimalEventType = 'LISTED' | 'SOLD' | 'BILL_OF_SALE' | 'DISPUTE_OPENED' | 'SALE_REVERSED';
+
+/** `animals/{id}/events/{eventId}` (server-authored). */
+export interface AnimalEvent {
+  id: string;
+  type: AnimalEventType;
+  listingId?: string;
+  orderId?: string;
+  fromUserId?: string;
+  toUserId?: string;
+  /** Listing state at the time (where the animal was). */
+  state?: string | null;
+  /** DISPUTE_OPENED: tag/microchip the buyer read on the delivered animal, and whether it matched. */
+  observedIdentifier?: string;
+  observedMatches?: boolean;
+  /** SALE_REVERSED: why the order's sale was undone (e.g. refunded, cancelled, balance_expired). */
+  reason?: string;
+  at: Date;
+}
+
+/** Public-safe transfer history shown to buyers (no user ids). */
+export interface AnimalTransferHistoryEntry {
+  type: AnimalEventType;
+  at: Date;
+  state: string | null;
+}
+
 // ============================================
 // SAVED SELLERS (FOLLOW SYSTEM)
 // ============================================
@@ -1278,6 +1644,19 @@ export interface ReviewDoc {
   moderatedAt?: Date | null;
   moderatedBy?: string | null;
   moderationReason?: string | null;
+  /** Seller's single public reply (see lib/reviews/sellerResponse.ts). */
+  sellerResponse?: ReviewSellerResponse | null;
+}
+
+export interface ReviewSellerResponse {
+  text: string;
+  /** Moderated through /api/admin/reviews/[orderId]/moderate (`target: 'response'`). */
+  status: 'published' | 'hidden';
+  createdAt: Date;
+  updatedAt: Date;
+  moderatedAt?: Date | null;
+  moderatedBy?: string | null;
+  moderationReason?: string | null;
 }
 
 export interface SellerReviewStats {
@@ -1287,6 +1666,34 @@ export interface SellerReviewStats {
   lastReviewAt?: Date | null;
 }
 
+// ============================================
+// BUYER REPUTATION (SELLER → BUYER RATINGS)
+// ============================================
+export type BuyerRatingDimension = 'payment' | 'pickup' | 'communication';
+
+/** `buyerReviews/{orderId}`: one rating of the buyer per completed/cancelled order, written by the seller. */
+export interface BuyerReviewDoc {
+  orderId: string;
+  listingId: string;
+  buyerId: string;
+  sellerId: string;
+  orderOutcome: 'completed' | 'cancelled';
+  /** 1-5 per dimension; `pickup` is null when the buyer wasn't responsible for pickup. */
+  ratings: { payment: number; pickup: number | null; communication: number };
+  rating: number; // 1-5, rounded mean of the rated dimensions
+  text?: string | null;
+  status: ReviewStatus;
+  createdAt: Date;
+  updatedAt?: Date;
+  moderatedAt?: Date | null;
+  moderatedBy?: string | null;
+  moderationReason?: string | null;
+}
+
+export interface BuyerReviewStats extends SellerReviewStats {
+  dimensions: Record<BuyerRatingDimension, { count: number; total: number }>;
+}
+
 // ============================================
 // PUBLIC SELLER TRUST (BADGES)
 // ============================================
@@ -1327,8 +1734,12 @@ export type NotificationType =
   | 'bid_placed'
   | 'auction_high_bidder'
   | 'auction_ending_soon'
+  | 'auction_extended'
   | 'auction_won'
   | 'auction_lost'
+  | 'auction_second_chance_available'
+  | 'auction_second_chance_offer'
+  | 'watched_listing_live'
   // Best Offer (eBay-style)
   | 'offer_received'
   | 'offer_countered'
@@ -1471,6 +1882,9 @@ export type DocumentType =
   | 'TITLE'
   | 'BILL_OF_SALE'
   | 'HEALTH_CERTIFICATE'
+  | 'COGGINS_TEST' // Negative equine infectious anemia (EIA) test for horses
+  | 'TB_TEST' // Negative tuberculosis test (interstate breeding cattle)
+  | 'BRUCELLOSIS_TEST' // Negative brucellosis test (interstate breeding cattle/swine)
   | 'OTHER';
 
 export type DocumentStatus = 'uploaded' | 'verified' | 'rejected';
@@ -1490,6 +1904,45 @@ export interface ComplianceDocument {
   uploadedBy: string; // User UID who uploaded
   uploadedAt: Date; // When uploaded
   metadata?: Record<string, any>; // Additional metadata
+  extraction?: DocumentExtraction; // Proposed fields read from the file on upload (admin review aid)
+}
+
+/**
+ * Structured fields proposed from an uploaded compliance document (see lib/compliance/extraction).
+ * Proposals only: admins confirm or correct them when verifying the document.
+ */
+export type DocumentExtractionStatus = 'extracted' | 'no_text' | 'unsupported' | 'failed';
+
+export interface ExtractedDocumentField<T = string> {
+  value: T;
+  confidence: number; // 0..1
+  source?: string; // Text the value was read from
+}
+
+export interface DocumentExtractionFields {
+  permitNumber?: ExtractedDocumentField;
+  facilityId?: ExtractedDocumentField;
+  issuedAt?: ExtractedDocumentField; // YYYY-MM-DD
+  expiresAt?: ExtractedDocumentField; // YYYY-MM-DD
+  issuedBy?: ExtractedDocumentField;
+  animalIds?: ExtractedDocumentField<string[]>;
+}
+
+export interface DocumentExtractionDiff {
+  field: 'permitNumber' | 'facilityId' | 'expiresAt' | 'animalIds';
+  declared: string; // Listing attribute value
+  extracted: string;
+  match: boolean;
+}
+
+export interface DocumentExtraction {
+  status: DocumentExtractionStatus;
+  extractor: string | null;
+  fields: DocumentExtractionFields;
+  confidence: number; // Mean confidence of the fields found (0 when none)
+  diffs: DocumentExtractionDiff[];
+  extractedAt: Date;
+  error?: string;
 }
 
 // Knowledge Base Article Types
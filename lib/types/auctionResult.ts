@@ -40,6 +40,9 @@ export type AuctionResultDoc = {
     currentBidderId: string | null;
     bidCountAtEnd: number;
     lastBidAt: Timestamp | null;
+    // Soft-close (anti-sniping): how many times late bids extended the auction, and the original end.
+    softCloseExtensionCount?: number;
+    originalEndsAt?: Timestamp | null;
     // Optional: future-proof tie-break metadata if introduced later.
     tieBreak?: {
       strategy: 'max_then_time';
@@ -58,5 +61,23 @@ export type AuctionResultDoc = {
   unpaidExpiredAt?: Timestamp;
   relistedToListingId?: string;
   relistedAt?: Timestamp;
+
+  // Second-chance offers (see lib/auctions/secondChance.ts)
+  /** Unpaid-expired only: seller must send a second-chance offer before this or the auction auto-relists. */
+  secondChanceDeadlineAt?: Timestamp | null;
+  /** Pending offer while status is `ended_second_chance_offered`; cleared when it settles. */
+  secondChance?: AuctionSecondChanceState | null;
+  lastSecondChance?: (AuctionSecondChanceState & { outcome: string; settledAt: Timestamp }) | null;
+  secondChanceOfferIds?: string[];
+  paidAt?: Timestamp;
+};
+
+export type AuctionSecondChanceState = {
+  offerId: string;
+  buyerId: string;
+  amountCents: number;
+  offeredAt: Timestamp;
+  expiresAt: Timestamp;
+  previousStatus: AuctionResultStatus;
 };
 
@@ -6,7 +6,7 @@
  */
 
 import { Timestamp } from 'firebase/firestore';
-import { ListingType, ListingCategory, ListingStatus, ComplianceStatus, ListingDurationDays, ListingEndedReason } from '../types';
+import { ListingType, ListingCategory, ListingStatus, ComplianceStatus, ListingDurationDays, ListingEndedReason, ListingDepositTerms, ListingInstallmentPlan } from '../types';
 
 /**
  * Listing document as stored in Firestore
@@ -52,6 +52,14 @@ export interface ListingDoc {
     state: string;
     zip?: string;
   };
+  // Geocoded point (server-only; written by /api/listings/publish). See lib/geo/geohash.ts.
+  geo?: {
+    lat: number;
+    lng: number;
+    geohash: string;
+    source?: 'zip' | 'city';
+    geocodedAt?: Timestamp;
+  };
 
   // Seller Reference (Firebase Auth UID)
   sellerId: string;
@@ -87,11 +95,30 @@ export interface ListingDoc {
   // Auction-specific
   endsAt?: Timestamp; // Auction end time
 
+  // Anti-sniping soft-close (override + server-maintained extension state)
+  softClose?: {
+    enabled?: boolean;
+    windowMinutes?: number;
+    extendMinutes?: number;
+    maxExtensions?: number;
+  };
+  softCloseExtensionCount?: number;
+  originalEndsAt?: Timestamp;
+  lastExtendedAt?: Timestamp;
+
+  // Optional per-listing bid increment ladder override (auctions only)
+  bidIncrementLadder?: Array<{ upToCents: number | null; incrementCents: number }>;
+
+  // Full-text search index (see lib/search/listingSearchIndex.ts); rebuilt on create/update/publish
+  searchTokens?: string[];
+  searchIndexVersion?: number;
+
   /**
    * Universal listing duration model (eBay-style).
    * Backwards compatible: older docs may be missing these fields.
    */
   durationDays?: ListingDurationDays;
+  scheduledStartAt?: Timestamp | null;
   startAt?: Timestamp;
   endAt?: Timestamp;
   endedAt?: Timestamp;
@@ -169,12 +196,17 @@ export interface ListingDoc {
   internalFlags?: {
     duplicatePermitNumber?: boolean;
     duplicateFacilityId?: boolean;
+    animalOwnerMismatch?: boolean;
   };
   internalFlagsNotes?: {
     duplicatePermitNumber?: string;
     duplicateFacilityId?: string;
+    animalOwnerMismatch?: string;
   };
 
+  // Animal registry (set at publish)
+  animalIds?: string[];
+
   // Best Offer (Fixed/Classified; eBay-style)
   bestOfferEnabled?: boolean;
   bestOfferMinPrice?: number;
@@ -187,6 +219,12 @@ export interface ListingDoc {
     offerExpiryHours: number;
   };
 
+  // Deposit terms (Fixed/Auction); absent = platform default
+  depositTerms?: ListingDepositTerms;
+
+  // Installment plan opt-in (Fixed/Auction)
+  installmentPlan?: ListingInstallmentPlan;
+
   // Reserved by accepted offer (server-only)
   offerReservedByOfferId?: string;
   offerReservedAt?: Timestamp;
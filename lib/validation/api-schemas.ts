@@ -28,6 +28,10 @@ export const createCheckoutSessionSchema = z.object({
    * - wire: Bank transfer (wire) via Stripe Checkout → redirect to Stripe’s hosted instructions page
    */
   paymentMethod: z.enum(['card', 'ach_debit', 'ach', 'wire']).optional(),
+  /**
+   * Pay in installments (card only; listing must offer an installment plan and meet the minimum total).
+   */
+  paymentPlan: z.enum(['installments']).optional(),
   /**
    * Buyer acknowledgment required for animal categories.
    * Server will enforce when listing category is an animal category.
@@ -35,6 +39,22 @@ export const createCheckoutSessionSchema = z.object({
   buyerAcksAnimalRisk: z.boolean().optional(),
 });
 
+/**
+ * Cart checkout schema: one Stripe session for every cart item from one seller.
+ * Card only; items, quantities and prices are read server-side from the buyer's cart (or the accepted bundle offer).
+ */
+export const createCartCheckoutSessionSchema = z.object({
+  sellerId: z.string().min(1, 'Seller ID is required').max(128),
+  /**
+   * Buyer acknowledgment required when any cart item is in an animal category.
+   */
+  buyerAcksAnimalRisk: z.boolean().optional(),
+  /**
+   * Pay for an accepted bundle offer instead of the cart (lines and the agreed amount come from the offer).
+   */
+  offerId: z.string().min(1).max(128).optional(),
+});
+
 /**
  * Wire (bank transfer) intent creation schema
  */
@@ -83,6 +103,10 @@ export const processRefundSchema = z.object({
   reason: z.string().min(1, 'Refund reason is required').max(500),
   notes: z.string().max(1000).optional(),
   amount: z.number().positive().optional(), // Partial refund amount (optional - full refund if not provided)
+  quantity: z.number().int().positive().optional(), // Per-head refund for multi-quantity orders (instead of amount)
+}).refine((d) => !(d.amount !== undefined && d.quantity !== undefined), {
+  message: 'Provide either amount or quantity, not both',
+  path: ['quantity'],
 });
 
 /**
@@ -100,6 +124,7 @@ export const adminHoldSchema = z.object({
 export const resolveDisputeSchema = z.object({
   resolution: z.enum(['release', 'refund', 'partial_refund']),
   refundAmount: z.number().positive().optional(),
+  refundQuantity: z.number().int().positive().optional(), // partial_refund by head (multi-quantity orders)
   refundReason: z.string().min(1, 'Refund reason is required').max(500).optional(),
   markFraudulent: z.boolean().optional(),
   adminNotes: z.string().min(1, 'Admin notes are required').max(1000),
@@ -0,0 +1,99 @@
+/**
+ * Netlify Scheduled Function: Activate Scheduled Listings
+ *
+ * Runs every 5 minutes:
+ * - Finds listings with status='scheduled' whose startAt is <= now (approved with a future start)
+ * - Flips them to status='active' and stamps publishedAt (saved-search alerts key off publishedAt)
+ * - Emits Auction.WatchStarted to everyone watching the listing
+ *
+ * Notes:
+ * - Idempotent: each flip is transactional (skipped if the listing changed), and the watcher event id is
+ *   deterministic per listing + start time.
+ * - endAt/endsAt were already computed from startAt at approval time, so the full duration is preserved.
+ */
+
+import { Handler, schedule } from '@netlify/functions';
+import { Timestamp } from 'firebase-admin/firestore';
+import { getAdminDb } from '../../lib/firebase/admin';
+import { emitAndProcessEventForUser } from '../../lib/notifications/emitEvent';
+import { getSiteUrl } from '../../lib/site-url';
+import { logInfo, logError } from '../../lib/monitoring/logger';
+import { listListingWatcherIds } from '../../lib/listings/watchers';
+import { isScheduledStartDue } from '../../lib/listings/scheduling';
+import { toMillisSafe } from '../../lib/listings/duration';
+
+const MAX_LISTINGS_PER_RUN = 200;
+
+const baseHandler: Handler = async () => {
+  const db = getAdminDb();
+  const nowTs = Timestamp.now();
+  const nowMs = nowTs.toMillis();
+
+  let scanned = 0;
+  let activated = 0;
+  let notified = 0;
+
+  try {
+    const snap = await db
+      .collection('listings')
+      .where('status', '==', 'scheduled')
+      .where('startAt', '<=', nowTs)
+      .orderBy('startAt', 'asc')
+      .limit(MAX_LISTINGS_PER_RUN)
+      .get();
+
+    scanned = snap.size;
+
+    for (const doc of snap.docs) {
+      const listingId = doc.id;
+      const flipped = await db.runTransaction(async (tx) => {
+        const fresh = await tx.get(doc.ref);
+        const data = fresh.exists ? (fresh.data() as any) : null;
+        if (!data || !isScheduledStartDue(data, nowMs)) return null;
+        tx.update(doc.ref, {
+          status: 'active',
+          publishedAt: nowTs,
+          updatedAt: nowTs,
+          updatedBy: 'system',
+        });
+        return data;
+      });
+      if (!flipped) continue;
+      activated++;
+
+      const startMs = toMillisSafe(flipped.startAt) ?? nowMs;
+      const endMs = toMillisSafe(flipped.endAt) ?? toMillisSafe(flipped.endsAt);
+      const listingTitle = String(flipped.title || 'a listing');
+      const listingUrl = `${getSiteUrl()}/listing/${listingId}`;
+      const watcherUserIds = await listListingWatcherIds(db as any, listingId);
+
+      for (const uid of watcherUserIds) {
+        if (uid === flipped.sellerId) continue;
+        const res = await emitAndProcessEventForUser({
+          type: 'Auction.WatchStarted',
+          actorId: null,
+          entityType: 'listing',
+          entityId: listingId,
+          targetUserId: uid,
+          payload: {
+            type: 'Auction.WatchStarted',
+            listingId,
+            listingTitle,
+            listingUrl,
+            ...(typeof endMs === 'number' ? { endsAt: new Date(endMs).toISOString() } : {}),
+          },
+          optionalHash: `start:${startMs}`,
+        });
+        if (res.ok && res.created) notified++;
+      }
+    }
+
+    logInfo('activateScheduledListings: completed', { scanned, activated, notified });
+    return { statusCode: 200, body: JSON.stringify({ ok: true, scanned, activated, notified }) };
+  } catch (e: any) {
+    logError('activateScheduledListings: fatal error', e, { scanned, activated, notified });
+    return { statusCode: 500, body: JSON.stringify({ ok: false, error: e?.message || 'Unknown error' }) };
+  }
+};
+
+export const handler = schedule('*/5 * * * *', baseHandler);
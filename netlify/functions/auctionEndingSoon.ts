@@ -5,6 +5,8 @@
  * 24h, 1h, 10m, 2m
  *
  * Deduped via deterministic eventId (eventKey includes threshold).
+ * Soft-close: `endsAt` is moved by late bids, so we always read it fresh. After an extension the
+ * final (2m) threshold is re-armed once per extension so watchers get a last call on the new end.
  */
 
 import { Handler, schedule } from '@netlify/functions';
@@ -12,8 +14,9 @@ import { Timestamp } from 'firebase-admin/firestore';
 import { getAdminDb } from '../../lib/firebase/admin';
 import { emitAndProcessEventForUser } from '../../lib/notifications/emitEvent';
 import { getSiteUrl } from '../../lib/site-url';
-import { logInfo, logWarn, logError } from '../../lib/monitoring/logger';
+import { logInfo, logError } from '../../lib/monitoring/logger';
 import { tryDispatchEmailJobNow } from '../../lib/email/dispatchEmailJobNow';
+import { listListingWatcherIds } from '../../lib/listings/watchers';
 
 const THRESHOLDS: Array<{ key: '24h' | '1h' | '10m' | '2m'; seconds: number }> = [
   { key: '24h', seconds: 24 * 60 * 60 },
@@ -25,14 +28,6 @@ const THRESHOLDS: Array<{ key: '24h' | '1h' | '10m' | '2m'; seconds: number }> =
 const MAX_AUCTIONS_PER_RUN = 200;
 const TOLERANCE_SECONDS = 5 * 60; // schedule runs every 5m
 
-function extractUserIdFromWatchlistPath(path: string): string | null {
-  // users/{uid}/watchlist/{listingId}
-  const parts = path.split('/');
-  const usersIdx = parts.indexOf('users');
-  if (usersIdx >= 0 && parts.length > usersIdx + 1) return parts[usersIdx + 1] || null;
-  return null;
-}
-
 const baseHandler: Handler = async () => {
   const db = getAdminDb();
   const now = new Date();
@@ -80,25 +75,10 @@ const baseHandler: Handler = async () => {
         continue;
       }
 
-      // Watchers (prefer indexed listing watchers; fallback to collectionGroup watchlist for legacy installs)
-      let watcherUserIds: string[] = [];
-      try {
-        const watchersIndexSnap = await db.collection('listings').doc(listingId).collection('watchers').get();
-        watcherUserIds = watchersIndexSnap.docs.map((d) => d.id);
-
-        if (watcherUserIds.length === 0) {
-          const watchersSnap = await db.collectionGroup('watchlist').where('listingId', '==', listingId).get();
-          watcherUserIds = watchersSnap.docs
-            .map((d) => extractUserIdFromWatchlistPath(d.ref.path))
-            .filter(Boolean) as string[];
-          if (watcherUserIds.length > 0) {
-            logWarn('auctionEndingSoon: using legacy collectionGroup watchlist scan (scale warning)', { listingId });
-          }
-        }
-      } catch (e: any) {
-        // If watchlist schema differs, skip watchers (bidders will still get notified).
-        logWarn('auctionEndingSoon: failed to load watchers', { listingId, error: String(e?.message || e) });
-      }
+      // Watchers (prefer indexed listing watchers; fallback to collectionGroup watchlist for legacy installs).
+      // If the watchlist schema differs, this returns [] (bidders will still get notified).
+      const watcherUserIds = await listListingWatcherIds(db as any, listingId);
+      const extensionCount = Math.max(0, Math.floor(Number(listing.softCloseExtensionCount || 0) || 0));
 
       // Also include current high bidder if present
       const bidderId = typeof listing.currentBidderId === 'string' ? listing.currentBidderId : null;
@@ -122,7 +102,7 @@ const baseHandler: Handler = async () => {
               endsAt: endsAt.toISOString(),
               ...(typeof currentBidAmount === 'number' ? { currentBidAmount } : {}),
             },
-            optionalHash: threshold.key,
+            optionalHash: threshold.key === '2m' && extensionCount > 0 ? `2m:ext${extensionCount}` : threshold.key,
           });
           if (res.ok && res.created) {
             emitted++;
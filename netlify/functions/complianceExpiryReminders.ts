@@ -0,0 +1,222 @@
+/**
+ * Netlify Scheduled Function: Compliance Document Expiry Reminders
+ *
+ * Daily scan of compliance documents with an `expiresAt`:
+ * - verified seller TPWD breeder permits (`sellerPermits`)
+ * - documents on open orders (`orders/{orderId}/documents`, e.g. TAHC CVIs)
+ *
+ * Sends a notice 60, 30 and 7 days before expiry and once expired (each at most once per document, see
+ * lib/compliance/expiry.ts). When a breeder permit expires, the seller's "TPWD breeder permit" badge is pulled
+ * from `publicSellerTrust`; publishing whitetail breeder listings is blocked by /api/listings/publish.
+ *
+ * Notes:
+ * - Notices only look back `COMPLIANCE_EXPIRY_LOOKBACK_DAYS`; the badge sweep checks every seller still showing
+ *   the badge, so an expired permit loses it even if the run on its expiry day was missed.
+ * - Both scans page through the whole window (already-notified and listing documents don't crowd out the rest)
+ *   until the time budget runs out.
+ * - Requires an index on sellerPermits (status, expiresAt) and a collection-group index on documents.expiresAt.
+ */
+import { Handler, schedule } from '@netlify/functions';
+import { Timestamp, type Query, type QueryDocumentSnapshot, type QuerySnapshot } from 'firebase-admin/firestore';
+import { getAdminDb } from '../../lib/firebase/admin';
+import { logInfo, logWarn, logError } from '../../lib/monitoring/logger';
+import { getSiteUrl } from '../../lib/site-url';
+import {
+  COMPLIANCE_EXPIRED_NOTICE,
+  COMPLIANCE_EXPIRY_LOOKBACK_DAYS,
+  COMPLIANCE_EXPIRY_NOTICE_DAYS,
+  getDueExpiryNotice,
+  toExpiryDate,
+} from '../../lib/compliance/expiry';
+import {
+  removeBadgesForExpiredBreederPermits,
+  removeExpiredBreederPermitBadge,
+  sendComplianceExpiryNotice,
+} from '../../lib/compliance/expiryNotices';
+
+const PAGE_SIZE = 200;
+const TIME_BUDGET_MS = 45_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ENDED_ORDER_STATUSES = ['COMPLETED', 'CANCELLED', 'REFUNDED'];
+
+function sentThresholds(data: any): number[] {
+  return (Array.isArray(data?.expiryNoticesSent) ? data.expiryNoticesSent : []).map(Number).filter(Number.isFinite);
+}
+
+/** Page through an ordered query until it runs out or the time budget is spent. */
+async function forEachDoc(
+  query: Query,
+  overBudget: () => boolean,
+  fn: (doc: QueryDocumentSnapshot) => Promise<void>
+): Promise<void> {
+  let last: QueryDocumentSnapshot | null = null;
+  while (!overBudget()) {
+    const snap: QuerySnapshot = await (last ? query.startAfter(last) : query).limit(PAGE_SIZE).get();
+    for (const doc of snap.docs) {
+      if (overBudget()) return;
+      await fn(doc);
+    }
+    if (snap.size < PAGE_SIZE) return;
+    last = snap.docs[snap.docs.length - 1]!;
+  }
+}
+
+const baseHandler: Handler = async () => {
+  const requestId = `cron_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+  const start = Date.now();
+  const db = getAdminDb();
+  const now = new Date();
+
+  let scanned = 0;
+  let notices = 0;
+  let badgesRemoved = 0;
+  let noops = 0;
+  let errors = 0;
+  const counts = () => ({ scanned, notices, badgesRemoved, noops, errors });
+  const overBudget = () => Date.now() - start > TIME_BUDGET_MS;
+
+  const from = Timestamp.fromMillis(now.getTime() - COMPLIANCE_EXPIRY_LOOKBACK_DAYS * DAY_MS);
+  const to = Timestamp.fromMillis(now.getTime() + Math.max(...COMPLIANCE_EXPIRY_NOTICE_DAYS) * DAY_MS);
+
+  try {
+    // 0) Badges of permits that expired before the lookback window (e.g. a run was missed); the scan below
+    // removes them for recently expired permits along with the expired notice.
+    const sweep = await removeBadgesForExpiredBreederPermits({ db: db as any, expiredBefore: from.toDate(), now, overBudget });
+    badgesRemoved += sweep.removed;
+
+    // 1) Seller breeder permits
+    const permitsQuery = db
+      .collection('sellerPermits')
+      .where('status', '==', 'verified')
+      .where('expiresAt', '>=', from)
+      .where('expiresAt', '<=', to)
+      .orderBy('expiresAt', 'asc');
+
+    await forEachDoc(permitsQuery, overBudget, async (doc) => {
+      scanned++;
+      const permit = doc.data() as any;
+      const sellerId = String(permit?.sellerId || doc.id);
+      const expiresAt = toExpiryDate(permit?.expiresAt);
+      const threshold = expiresAt ? getDueExpiryNotice(expiresAt, now, sentThresholds(permit)) : null;
+      if (!expiresAt || threshold === null) {
+        noops++;
+        return;
+      }
+      try {
+        let badgeRemoved = false;
+        if (threshold === COMPLIANCE_EXPIRED_NOTICE) {
+          badgeRemoved = await removeExpiredBreederPermitBadge({ db: db as any, sellerId, expiresAt, now });
+          if (badgeRemoved) badgesRemoved++;
+        }
+        const ok = await sendComplianceExpiryNotice({
+          docRef: doc.ref,
+          recipientId: sellerId,
+          entityType: 'user',
+          entityId: sellerId,
+          threshold,
+          documentType: 'TPWD_BREEDER_PERMIT',
+          expiresAt,
+          now,
+          actionUrl: `${getSiteUrl()}/seller/overview`,
+          badgeRemoved,
+          requestId,
+        });
+        if (ok) notices++;
+        else errors++;
+      } catch (e: any) {
+        errors++;
+        logWarn('complianceExpiryReminders: failed to process seller permit', {
+          requestId,
+          route: 'complianceExpiryReminders',
+          sellerId,
+          message: String(e?.message || e),
+        });
+      }
+    });
+
+    // 2) Order documents (listing documents share the collection group; skip them)
+    const docsQuery = db
+      .collectionGroup('documents')
+      .where('expiresAt', '>=', from)
+      .where('expiresAt', '<=', to)
+      .orderBy('expiresAt', 'asc');
+
+    await forEachDoc(docsQuery, overBudget, async (doc) => {
+      scanned++;
+      const orderRef = doc.ref.parent.parent;
+      const data = doc.data() as any;
+      if (!orderRef || orderRef.parent.id !== 'orders' || data?.status === 'rejected') {
+        noops++;
+        return;
+      }
+      const expiresAt = toExpiryDate(data?.expiresAt);
+      const threshold = expiresAt ? getDueExpiryNotice(expiresAt, now, sentThresholds(data)) : null;
+      if (!expiresAt || threshold === null) {
+        noops++;
+        return;
+      }
+
+      try {
+        const orderSnap = await orderRef.get();
+        const order = orderSnap.exists ? (orderSnap.data() as any) : null;
+        if (!order || ENDED_ORDER_STATUSES.includes(String(order.transactionStatus || order.status || ''))) {
+          noops++;
+          return;
+        }
+        // Remind whoever provided the document (buyer or seller); default to the seller.
+        const uploadedBy = String(data?.uploadedBy || '');
+        const recipientId = uploadedBy && uploadedBy === order.buyerId ? uploadedBy : String(order.sellerId || '');
+        if (!recipientId) {
+          noops++;
+          return;
+        }
+        const ok = await sendComplianceExpiryNotice({
+          docRef: doc.ref,
+          recipientId,
+          entityType: 'order',
+          entityId: orderRef.id,
+          threshold,
+          documentType: String(data?.type || 'OTHER'),
+          expiresAt,
+          now,
+          actionUrl:
+            recipientId === order.buyerId
+              ? `${getSiteUrl()}/dashboard/orders/${orderRef.id}`
+              : `${getSiteUrl()}/seller/orders/${orderRef.id}`,
+          orderId: orderRef.id,
+          listingTitle: String(order.listingSnapshot?.title || order.listingTitle || '') || undefined,
+          requestId,
+        });
+        if (ok) notices++;
+        else errors++;
+      } catch (e: any) {
+        errors++;
+        logWarn('complianceExpiryReminders: failed to process order document', {
+          requestId,
+          route: 'complianceExpiryReminders',
+          path: doc.ref.path,
+          message: String(e?.message || e),
+        });
+      }
+    });
+
+    if (overBudget()) {
+      logWarn('complianceExpiryReminders: time budget reached; exiting early', { requestId, route: 'complianceExpiryReminders', ...counts() });
+    }
+    logInfo('complianceExpiryReminders: completed', { requestId, route: 'complianceExpiryReminders', ...counts() });
+    return { statusCode: 200, body: JSON.stringify({ ok: true, ...counts() }) };
+  } catch (e: any) {
+    const code = String(e?.code || '');
+    const msg = String(e?.message || '');
+    const looksLikeIndex = code === 'failed-precondition' || /requires an index/i.test(msg);
+    if (looksLikeIndex) {
+      logWarn('complianceExpiryReminders: missing Firestore index; skipping run', { requestId, route: 'complianceExpiryReminders', code, message: msg });
+      return { statusCode: 200, body: JSON.stringify({ ok: true, skipped: true, reason: 'MISSING_INDEX' }) };
+    }
+    logError('complianceExpiryReminders: fatal error', e, { requestId, route: 'complianceExpiryReminders' });
+    return { statusCode: 500, body: JSON.stringify({ ok: false, error: msg || 'Unknown error' }) };
+  }
+};
+
+export const handler = schedule('0 13 * * *', baseHandler);
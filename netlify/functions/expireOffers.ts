@@ -14,6 +14,7 @@ import { logInfo, logWarn, logError } from '../../lib/monitoring/logger';
 import { getAdminDb } from '../../lib/firebase/admin';
 import { emitEventForUser } from '../../lib/notifications/emitEvent';
 import { getSiteUrl } from '../../lib/site-url';
+import { getOfferListingIds } from '../../lib/offers/bundle';
 
 let db: ReturnType<typeof getFirestore>;
 
@@ -206,8 +207,8 @@ const baseHandler: Handler = async () => {
           }
 
           // Clear listing reservation if it is still reserved by this offer and there's no active purchase reservation.
-          const listingId = String(data.listingId || '');
-          if (listingId) {
+          // Bundle offers reserved every included listing.
+          for (const listingId of getOfferListingIds(data)) {
             const listingRef = db.collection('listings').doc(listingId);
             const listingSnap = await listingRef.get().catch(() => null as any);
             const listing = listingSnap?.exists ? (listingSnap.data() as any) : null;
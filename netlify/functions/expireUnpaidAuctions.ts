@@ -6,18 +6,31 @@
  * - paymentDueAt <= now
  *
  * Then, transactionally:
- * - Marks AuctionResult -> ended_relisted (records unpaidExpiredAt + relistedToListingId)
- * - Clears any stale purchase reservation on the old listing
- * - Creates a NEW listing document (new ID) for a clean auction cycle (no old bids)
+ * - If other bidders exist: marks AuctionResult -> ended_unpaid_expired with a `secondChanceDeadlineAt`
+ *   and notifies the seller they can send a second-chance offer (lib/auctions/secondChance.ts)
+ * - Otherwise: marks AuctionResult -> ended_relisted (records unpaidExpiredAt + relistedToListingId),
+ *   clears any stale purchase reservation on the old listing and creates a NEW listing document
+ *   (new ID) for a clean auction cycle (no old bids)
+ *
+ * Also sweeps:
+ * - ended_unpaid_expired whose second-chance deadline passed -> relist
+ * - ended_second_chance_offered -> settle against the offer (paid / released back to the seller)
  *
  * Notes:
  * - We do not delete old listings or bids (audit trail).
  * - Relist uses a new listingId so bid history does not leak across cycles.
  */
 import { Handler, schedule } from '@netlify/functions';
-import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { FieldValue, Timestamp, type DocumentSnapshot, type Firestore, type Transaction } from 'firebase-admin/firestore';
 import { getAdminDb } from '../../lib/firebase/admin';
 import { logInfo, logWarn, logError } from '../../lib/monitoring/logger';
+import { buildListingSearchTokens, LISTING_SEARCH_INDEX_VERSION } from '../../lib/search/listingSearchIndex';
+import {
+  SECOND_CHANCE_DECISION_WINDOW_HOURS,
+  listSecondChanceCandidates,
+  notifySellerSecondChanceAvailable,
+  settleSecondChanceOffer,
+} from '../../lib/auctions/secondChance';
 
 const MAX_PER_RUN = 50;
 const TIME_BUDGET_MS = 45_000;
@@ -32,6 +45,241 @@ function toMillis(v: any): number | null {
   return null;
 }
 
+type ProcessOutcome =
+  | 'relisted'
+  | 'expired_only'
+  | 'held_for_second_chance'
+  | 'noop_missing_result'
+  | 'noop_not_pending'
+  | 'noop_not_due';
+
+/**
+ * Unpaid winner: either hold the auction for a second-chance offer (other bidders exist) or relist now.
+ * Re-checks status + due time inside the transaction (retry-safe).
+ */
+async function expireUnpaidWinner(params: {
+  db: Firestore;
+  listingId: string;
+  nowTs: Timestamp;
+  hasRunnerUp: boolean;
+}): Promise<ProcessOutcome> {
+  const { db, listingId, nowTs, hasRunnerUp } = params;
+  const resultRef = db.collection('auctionResults').doc(listingId);
+  const oldListingRef = db.collection('listings').doc(listingId);
+
+  return db.runTransaction(async (tx) => {
+    const [resultSnap, listingSnap] = await Promise.all([tx.get(resultRef), tx.get(oldListingRef)]);
+    if (!resultSnap.exists) {
+      return 'noop_missing_result' as const;
+    }
+    const ar = resultSnap.data() as any;
+    if (String(ar?.status || '') !== 'ended_winner_pending_payment') {
+      return 'noop_not_pending' as const;
+    }
+    const dueMs = toMillis(ar?.paymentDueAt);
+    if (!dueMs || dueMs > nowTs.toMillis()) {
+      return 'noop_not_due' as const;
+    }
+    if (!listingSnap.exists) {
+      // AuctionResult exists but listing missing; mark expired only.
+      tx.set(
+        resultRef,
+        { status: 'ended_unpaid_expired', unpaidExpiredAt: nowTs, updatedAt: nowTs },
+        { merge: true }
+      );
+      return 'expired_only' as const;
+    }
+
+    if (hasRunnerUp) {
+      tx.set(
+        resultRef,
+        {
+          status: 'ended_unpaid_expired',
+          unpaidExpiredAt: nowTs,
+          secondChanceDeadlineAt: Timestamp.fromMillis(nowTs.toMillis() + SECOND_CHANCE_DECISION_WINDOW_HOURS * 60 * 60 * 1000),
+          updatedAt: nowTs,
+        },
+        { merge: true }
+      );
+      tx.set(
+        oldListingRef,
+        {
+          purchaseReservedByOrderId: null,
+          purchaseReservedAt: null,
+          purchaseReservedUntil: null,
+          auctionResultStatus: 'ended_unpaid_expired',
+          updatedAt: FieldValue.serverTimestamp(),
+          updatedBy: 'system',
+        },
+        { merge: true }
+      );
+      return 'held_for_second_chance' as const;
+    }
+
+    relistInTransaction({ tx, db, listingId, listingSnap, ar, nowTs });
+    return 'relisted' as const;
+  });
+}
+
+/** Seller did not send a second-chance offer before the deadline: relist. */
+async function relistAfterSecondChanceDeadline(params: { db: Firestore; listingId: string; nowTs: Timestamp }): Promise<ProcessOutcome> {
+  const { db, listingId, nowTs } = params;
+  const resultRef = db.collection('auctionResults').doc(listingId);
+  const oldListingRef = db.collection('listings').doc(listingId);
+
+  return db.runTransaction(async (tx) => {
+    const [resultSnap, listingSnap] = await Promise.all([tx.get(resultRef), tx.get(oldListingRef)]);
+    if (!resultSnap.exists) return 'noop_missing_result' as const;
+    const ar = resultSnap.data() as any;
+    if (String(ar?.status || '') !== 'ended_unpaid_expired') return 'noop_not_pending' as const;
+    const deadlineMs = toMillis(ar?.secondChanceDeadlineAt);
+    if (!deadlineMs || deadlineMs > nowTs.toMillis()) return 'noop_not_due' as const;
+    if (!listingSnap.exists) return 'expired_only' as const;
+    const listing = listingSnap.data() as any;
+    if (listing?.status === 'sold' || listing?.soldAt) return 'noop_not_pending' as const;
+
+    relistInTransaction({ tx, db, listingId, listingSnap, ar, nowTs });
+    return 'relisted' as const;
+  });
+}
+
+/**
+ * Create the new auction cycle + mark the old one relisted (caller has already done all reads).
+ */
+function relistInTransaction(params: {
+  tx: Transaction;
+  db: Firestore;
+  listingId: string;
+  listingSnap: DocumentSnapshot;
+  ar: any;
+  nowTs: Timestamp;
+}) {
+  const { tx, db, listingId, listingSnap, ar, nowTs } = params;
+  const resultRef = db.collection('auctionResults').doc(listingId);
+  const oldListingRef = db.collection('listings').doc(listingId);
+  const newListingRef = db.collection('listings').doc(); // new auction cycle
+  const relistedToListingId = newListingRef.id;
+
+  const listing = listingSnap.data() as any;
+  const sellerId = String(listing?.sellerId || ar?.sellerId || '');
+  if (!sellerId) throw new Error('Missing sellerId');
+
+  const oldEndsAtMs = toMillis(listing?.endsAt);
+  const baseMs = toMillis(listing?.publishedAt) || toMillis(listing?.createdAt) || null;
+  const durationMs =
+    typeof oldEndsAtMs === 'number' && typeof baseMs === 'number' && oldEndsAtMs > baseMs
+      ? oldEndsAtMs - baseMs
+      : null;
+  if (!durationMs) throw new Error('Cannot compute original auction duration');
+
+  const newEndsAt = Timestamp.fromMillis(nowTs.toMillis() + durationMs);
+
+  // Create a new listing cycle. Copy safe fields; reset bid runtime state + reservations.
+  tx.set(newListingRef, {
+    // Core identity
+    title: listing?.title || 'Listing',
+    description: listing?.description || '',
+    type: 'auction',
+    category: listing?.category || '',
+    subcategory: typeof listing?.subcategory === 'string' ? listing.subcategory : FieldValue.delete(),
+    location: listing?.location || { city: '', state: 'TX' },
+    // Same location, so the point geocoded at publish still applies (radius search skips listings without it).
+    ...(listing?.geo && typeof listing.geo === 'object' ? { geo: listing.geo } : {}),
+    trust: listing?.trust || { verified: false, insuranceAvailable: false, transportReady: false },
+    attributes: listing?.attributes && typeof listing.attributes === 'object' ? listing.attributes : {},
+
+    // Media
+    images: Array.isArray(listing?.images) ? listing.images : [],
+    ...(Array.isArray(listing?.photoIds) ? { photoIds: listing.photoIds } : {}),
+    ...(Array.isArray(listing?.photos) ? { photos: listing.photos } : {}),
+    ...(typeof listing?.coverPhotoId === 'string' ? { coverPhotoId: listing.coverPhotoId } : {}),
+
+    // Pricing
+    startingBid: typeof listing?.startingBid === 'number' ? listing.startingBid : undefined,
+    reservePrice: typeof listing?.reservePrice === 'number' ? listing.reservePrice : undefined,
+    // Ensure a fresh auction window
+    endsAt: newEndsAt,
+    // Clear bid runtime state
+    currentBid: FieldValue.delete(),
+    currentBidCents: FieldValue.delete(),
+    currentBidderId: FieldValue.delete(),
+
+    // Best offer is irrelevant for auctions; clear if present
+    bestOfferEnabled: FieldValue.delete(),
+    bestOfferMinPrice: FieldValue.delete(),
+    bestOfferAutoAcceptPrice: FieldValue.delete(),
+    bestOfferSettings: FieldValue.delete(),
+
+    // Reservations cleared
+    offerReservedByOfferId: FieldValue.delete(),
+    offerReservedAt: FieldValue.delete(),
+    purchaseReservedByOrderId: FieldValue.delete(),
+    purchaseReservedAt: FieldValue.delete(),
+    purchaseReservedUntil: FieldValue.delete(),
+
+    // Status
+    status: 'active',
+    publishedAt: nowTs,
+
+    // Seller snapshots (keep if present)
+    sellerId,
+    ...(listing?.sellerSnapshot ? { sellerSnapshot: listing.sellerSnapshot } : {}),
+    ...(listing?.sellerTierSnapshot ? { sellerTierSnapshot: listing.sellerTierSnapshot } : {}),
+    ...(listing?.sellerTierWeightSnapshot ? { sellerTierWeightSnapshot: listing.sellerTierWeightSnapshot } : {}),
+
+    // Moderation/compliance (carry forward from a previously-active listing)
+    ...(listing?.complianceStatus ? { complianceStatus: listing.complianceStatus } : {}),
+    ...(listing?.internalFlags ? { internalFlags: listing.internalFlags } : {}),
+    ...(listing?.internalFlagsNotes ? { internalFlagsNotes: listing.internalFlagsNotes } : {}),
+
+    // Metrics reset
+    metrics: { views: 0, favorites: 0, bidCount: 0 },
+    watcherCount: FieldValue.delete(),
+
+    // Audit
+    createdAt: nowTs,
+    updatedAt: nowTs,
+    createdBy: sellerId,
+    updatedBy: 'system',
+
+    // Search index (same title/description/attributes, so rebuilt exactly as publish does)
+    searchTokens: buildListingSearchTokens(listing),
+    searchIndexVersion: LISTING_SEARCH_INDEX_VERSION,
+
+    // Traceability
+    relistedFromListingId: listingId,
+  });
+
+  // Clear stale reservation on old listing (if any), and record relist pointer.
+  tx.set(
+    oldListingRef,
+    {
+      purchaseReservedByOrderId: null,
+      purchaseReservedAt: null,
+      purchaseReservedUntil: null,
+      relistedToListingId,
+      auctionResultStatus: 'ended_relisted',
+      updatedAt: FieldValue.serverTimestamp(),
+      updatedBy: 'system',
+    },
+    { merge: true }
+  );
+
+  // Mark auction result as relisted (includes unpaid expiry).
+  tx.set(
+    resultRef,
+    {
+      status: 'ended_relisted',
+      unpaidExpiredAt: ar?.unpaidExpiredAt || nowTs,
+      relistedToListingId,
+      relistedAt: nowTs,
+      finalizedBy: ar?.finalizedBy || 'system',
+      finalizedVersion: ar?.finalizedVersion || 1,
+    },
+    { merge: true }
+  );
+}
+
 const baseHandler: Handler = async () => {
   const requestId = `cron_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
   const start = Date.now();
@@ -41,8 +289,12 @@ const baseHandler: Handler = async () => {
   let scanned = 0;
   let expired = 0;
   let relisted = 0;
+  let heldForSecondChance = 0;
+  let secondChanceSettled = 0;
   let noops = 0;
   let errors = 0;
+  const counts = () => ({ scanned, expired, relisted, heldForSecondChance, secondChanceSettled, noops, errors });
+  const overBudget = () => Date.now() - start > TIME_BUDGET_MS;
 
   try {
     // This requires an index on (status, paymentDueAt).
@@ -55,171 +307,32 @@ const baseHandler: Handler = async () => {
       .get();
 
     scanned = snap.size;
-    if (snap.empty) {
-      return { statusCode: 200, body: JSON.stringify({ ok: true, scanned, expired, relisted, noops, errors }) };
-    }
 
     for (const doc of snap.docs) {
-      if (Date.now() - start > TIME_BUDGET_MS) {
-        logWarn('expireUnpaidAuctions: time budget reached; exiting early', {
-          requestId,
-          route: 'expireUnpaidAuctions',
-          scanned,
-          expired,
-          relisted,
-          noops,
-          errors,
-        });
+      if (overBudget()) {
+        logWarn('expireUnpaidAuctions: time budget reached; exiting early', { requestId, route: 'expireUnpaidAuctions', ...counts() });
         break;
       }
 
       const listingId = doc.id;
-      const resultRef = db.collection('auctionResults').doc(listingId);
-      const oldListingRef = db.collection('listings').doc(listingId);
-      const newListingRef = db.collection('listings').doc(); // new auction cycle
-      const relistedToListingId = newListingRef.id;
-
       try {
-        const outcome = await db.runTransaction(async (tx) => {
-          const [resultSnap, listingSnap] = await Promise.all([tx.get(resultRef), tx.get(oldListingRef)]);
-          if (!resultSnap.exists) {
-            return 'noop_missing_result' as const;
-          }
-          const ar = resultSnap.data() as any;
-          if (String(ar?.status || '') !== 'ended_winner_pending_payment') {
-            return 'noop_not_pending' as const;
-          }
-          const dueMs = toMillis(ar?.paymentDueAt);
-          if (!dueMs || dueMs > nowTs.toMillis()) {
-            return 'noop_not_due' as const;
-          }
-          if (!listingSnap.exists) {
-            // AuctionResult exists but listing missing; mark expired only.
-            tx.set(
-              resultRef,
-              { status: 'ended_unpaid_expired', unpaidExpiredAt: nowTs, updatedAt: nowTs },
-              { merge: true }
-            );
-            return 'expired_only' as const;
-          }
-
-          const listing = listingSnap.data() as any;
-          const sellerId = String(listing?.sellerId || ar?.sellerId || '');
-          if (!sellerId) throw new Error('Missing sellerId');
-
-          const oldEndsAtMs = toMillis(listing?.endsAt);
-          const baseMs = toMillis(listing?.publishedAt) || toMillis(listing?.createdAt) || null;
-          const durationMs =
-            typeof oldEndsAtMs === 'number' && typeof baseMs === 'number' && oldEndsAtMs > baseMs
-              ? oldEndsAtMs - baseMs
-              : null;
-          if (!durationMs) throw new Error('Cannot compute original auction duration');
-
-          const newEndsAt = Timestamp.fromMillis(nowTs.toMillis() + durationMs);
-
-          // Create a new listing cycle. Copy safe fields; reset bid runtime state + reservations.
-          tx.set(newListingRef, {
-            // Core identity
-            title: listing?.title || 'Listing',
-            description: listing?.description || '',
-            type: 'auction',
-            category: listing?.category || '',
-            subcategory: typeof listing?.subcategory === 'string' ? listing.subcategory : FieldValue.delete(),
-            location: listing?.location || { city: '', state: 'TX' },
-            trust: listing?.trust || { verified: false, insuranceAvailable: false, transportReady: false },
-            attributes: listing?.attributes && typeof listing.attributes === 'object' ? listing.attributes : {},
-
-            // Media
-            images: Array.isArray(listing?.images) ? listing.images : [],
-            ...(Array.isArray(listing?.photoIds) ? { photoIds: listing.photoIds } : {}),
-            ...(Array.isArray(listing?.photos) ? { photos: listing.photos } : {}),
-            ...(typeof listing?.coverPhotoId === 'string' ? { coverPhotoId: listing.coverPhotoId } : {}),
-
-            // Pricing
-            startingBid: typeof listing?.startingBid === 'number' ? listing.startingBid : undefined,
-            reservePrice: typeof listing?.reservePrice === 'number' ? listing.reservePrice : undefined,
-            // Ensure a fresh auction window
-            endsAt: newEndsAt,
-            // Clear bid runtime state
-            currentBid: FieldValue.delete(),
-            currentBidCents: FieldValue.delete(),
-            currentBidderId: FieldValue.delete(),
-
-            // Best offer is irrelevant for auctions; clear if present
-            bestOfferEnabled: FieldValue.delete(),
-            bestOfferMinPrice: FieldValue.delete(),
-            bestOfferAutoAcceptPrice: FieldValue.delete(),
-            bestOfferSettings: FieldValue.delete(),
-
-            // Reservations cleared
-            offerReservedByOfferId: FieldValue.delete(),
-            offerReservedAt: FieldValue.delete(),
-            purchaseReservedByOrderId: FieldValue.delete(),
-            purchaseReservedAt: FieldValue.delete(),
-            purchaseReservedUntil: FieldValue.delete(),
-
-            // Status
-            status: 'active',
-            publishedAt: nowTs,
-
-            // Seller snapshots (keep if present)
-            sellerId,
-            ...(listing?.sellerSnapshot ? { sellerSnapshot: listing.sellerSnapshot } : {}),
-            ...(listing?.sellerTierSnapshot ? { sellerTierSnapshot: listing.sellerTierSnapshot } : {}),
-            ...(listing?.sellerTierWeightSnapshot ? { sellerTierWeightSnapshot: listing.sellerTierWeightSnapshot } : {}),
-
-            // Moderation/compliance (carry forward from a previously-active listing)
-            ...(listing?.complianceStatus ? { complianceStatus: listing.complianceStatus } : {}),
-            ...(listing?.internalFlags ? { internalFlags: listing.internalFlags } : {}),
-            ...(listing?.internalFlagsNotes ? { internalFlagsNotes: listing.internalFlagsNotes } : {}),
-
-            // Metrics reset
-            metrics: { views: 0, favorites: 0, bidCount: 0 },
-            watcherCount: FieldValue.delete(),
-
-            // Audit
-            createdAt: nowTs,
-            updatedAt: nowTs,
-            createdBy: sellerId,
-            updatedBy: 'system',
-
-            // Traceability
-            relistedFromListingId: listingId,
-          });
-
-          // Clear stale reservation on old listing (if any), and record relist pointer.
-          tx.set(
-            oldListingRef,
-            {
-              purchaseReservedByOrderId: null,
-              purchaseReservedAt: null,
-              purchaseReservedUntil: null,
-              relistedToListingId,
-              updatedAt: FieldValue.serverTimestamp(),
-              updatedBy: 'system',
-            },
-            { merge: true }
-          );
-
-          // Mark auction result as relisted (includes unpaid expiry).
-          tx.set(
-            resultRef,
-            {
-              status: 'ended_relisted',
-              unpaidExpiredAt: nowTs,
-              relistedToListingId,
-              relistedAt: nowTs,
-              finalizedBy: ar?.finalizedBy || 'system',
-              finalizedVersion: ar?.finalizedVersion || 1,
-            },
-            { merge: true }
-          );
-          return 'relisted' as const;
-        });
+        const candidates = await listSecondChanceCandidates({ db: db as any, listingId, auctionResult: doc.data() as any });
+        const outcome = await expireUnpaidWinner({ db: db as any, listingId, nowTs, hasRunnerUp: candidates.length > 0 });
 
         if (outcome === 'relisted') {
           expired++;
           relisted++;
+        } else if (outcome === 'held_for_second_chance') {
+          expired++;
+          heldForSecondChance++;
+          const after = await db.collection('auctionResults').doc(listingId).get();
+          await notifySellerSecondChanceAvailable({
+            db: db as any,
+            listingId,
+            reason: 'winner_unpaid',
+            deadlineAt: (after.data() as any)?.secondChanceDeadlineAt || null,
+            requestId,
+          });
         } else if (outcome === 'expired_only') {
           expired++;
         } else {
@@ -236,8 +349,70 @@ const baseHandler: Handler = async () => {
       }
     }
 
-    logInfo('expireUnpaidAuctions: completed', { requestId, route: 'expireUnpaidAuctions', scanned, expired, relisted, noops, errors });
-    return { statusCode: 200, body: JSON.stringify({ ok: true, scanned, expired, relisted, noops, errors }) };
+    // Second-chance deadline passed without an offer -> relist. Requires an index on (status, secondChanceDeadlineAt).
+    if (!overBudget()) {
+      try {
+        const deadlineSnap = await db
+          .collection('auctionResults')
+          .where('status', '==', 'ended_unpaid_expired')
+          .where('secondChanceDeadlineAt', '<=', nowTs)
+          .orderBy('secondChanceDeadlineAt', 'asc')
+          .limit(MAX_PER_RUN)
+          .get();
+        scanned += deadlineSnap.size;
+        for (const doc of deadlineSnap.docs) {
+          if (overBudget()) break;
+          try {
+            const outcome = await relistAfterSecondChanceDeadline({ db: db as any, listingId: doc.id, nowTs });
+            if (outcome === 'relisted') relisted++;
+            else noops++;
+          } catch (e: any) {
+            errors++;
+            logWarn('expireUnpaidAuctions: failed to relist after second-chance deadline', {
+              requestId,
+              route: 'expireUnpaidAuctions',
+              listingId: doc.id,
+              message: String(e?.message || e),
+            });
+          }
+        }
+      } catch (e: any) {
+        logWarn('expireUnpaidAuctions: second-chance deadline pass failed', { requestId, route: 'expireUnpaidAuctions', message: String(e?.message || e) });
+      }
+    }
+
+    // Pending second-chance offers: settle declined/expired (back to seller) and paid (ended_paid).
+    if (!overBudget()) {
+      try {
+        const offeredSnap = await db
+          .collection('auctionResults')
+          .where('status', '==', 'ended_second_chance_offered')
+          .limit(MAX_PER_RUN)
+          .get();
+        scanned += offeredSnap.size;
+        for (const doc of offeredSnap.docs) {
+          if (overBudget()) break;
+          try {
+            const outcome = await settleSecondChanceOffer({ db: db as any, listingId: doc.id, requestId, now: nowTs });
+            if (outcome === 'paid' || outcome === 'released') secondChanceSettled++;
+            else noops++;
+          } catch (e: any) {
+            errors++;
+            logWarn('expireUnpaidAuctions: failed to settle second-chance offer', {
+              requestId,
+              route: 'expireUnpaidAuctions',
+              listingId: doc.id,
+              message: String(e?.message || e),
+            });
+          }
+        }
+      } catch (e: any) {
+        logWarn('expireUnpaidAuctions: second-chance settle pass failed', { requestId, route: 'expireUnpaidAuctions', message: String(e?.message || e) });
+      }
+    }
+
+    logInfo('expireUnpaidAuctions: completed', { requestId, route: 'expireUnpaidAuctions', ...counts() });
+    return { statusCode: 200, body: JSON.stringify({ ok: true, ...counts() }) };
   } catch (e: any) {
     const code = String(e?.code || '');
     const msg = String(e?.message || '');
@@ -252,4 +427,3 @@ const baseHandler: Handler = async () => {
 };
 
 export const handler = schedule('*/5 * * * *', baseHandler);
-
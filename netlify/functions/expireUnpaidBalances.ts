@@ -0,0 +1,143 @@
+/**
+ * Netlify Scheduled Function: Balance Due Reminders + Expiry
+ *
+ * Scans orders with a balance due date (per-listing deposit terms) whose balance is still unpaid:
+ * - sends "balance due" reminders 7, 3 and 1 days ahead (each at most once per order)
+ * - once the due date plus grace has passed, cancels the order, forfeits (or refunds, if refundable) the
+ *   deposit and puts fixed-price listings back on sale (lib/orders/balanceDue.ts)
+ *
+ * Notes:
+ * - Scans `balanceDuePending == true`; the flag is cleared on payment and expiry, and here for orders that
+ *   ended some other way (refunded / cancelled by an admin) so they drop out of the scan.
+ * - Expired orders whose refund failed keep `depositRefundPending == true`; each run retries them.
+ * - Requires an index on (balanceDuePending, balanceDueAt).
+ */
+import { Handler, schedule } from '@netlify/functions';
+import { Timestamp } from 'firebase-admin/firestore';
+import { getAdminDb } from '../../lib/firebase/admin';
+import { logInfo, logWarn, logError } from '../../lib/monitoring/logger';
+import { BALANCE_REMINDER_DAYS_BEFORE, getDueBalanceReminder, isBalanceExpired } from '../../lib/pricing/deposit';
+import {
+  expireUnpaidBalance,
+  getOrderBalanceDueAt,
+  refundExpiredBalance,
+  sendBalanceDueReminder,
+} from '../../lib/orders/balanceDue';
+
+const MAX_PER_RUN = 200;
+const TIME_BUDGET_MS = 45_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const baseHandler: Handler = async () => {
+  const requestId = `cron_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+  const start = Date.now();
+  const db = getAdminDb();
+  const now = new Date();
+
+  let scanned = 0;
+  let reminders = 0;
+  let forfeited = 0;
+  let refunded = 0;
+  let refundRetries = 0;
+  let noops = 0;
+  let errors = 0;
+  const counts = () => ({ scanned, reminders, forfeited, refunded, refundRetries, noops, errors });
+  const overBudget = () => Date.now() - start > TIME_BUDGET_MS;
+
+  try {
+    // Everything due before the furthest reminder threshold (overdue orders sort first).
+    const horizon = Timestamp.fromMillis(now.getTime() + Math.max(...BALANCE_REMINDER_DAYS_BEFORE) * DAY_MS);
+    const snap = await db
+      .collection('orders')
+      .where('balanceDuePending', '==', true)
+      .where('balanceDueAt', '<=', horizon)
+      .orderBy('balanceDueAt', 'asc')
+      .limit(MAX_PER_RUN)
+      .get();
+
+    scanned = snap.size;
+
+    for (const doc of snap.docs) {
+      if (overBudget()) {
+        logWarn('expireUnpaidBalances: time budget reached; exiting early', { requestId, route: 'expireUnpaidBalances', ...counts() });
+        break;
+      }
+
+      const order = doc.data() as any;
+      const ended = ['CANCELLED', 'REFUNDED', 'COMPLETED'].includes(String(order.transactionStatus || ''));
+      if (order.finalPaymentConfirmedAt || order.depositExpiredAt || ended) {
+        await doc.ref.set({ balanceDuePending: false }, { merge: true }).catch(() => {});
+        noops++;
+        continue;
+      }
+      const dueAt = getOrderBalanceDueAt(order);
+      if (!dueAt) {
+        noops++;
+        continue;
+      }
+
+      try {
+        if (isBalanceExpired(dueAt, now)) {
+          const outcome = await expireUnpaidBalance({ db: db as any, orderId: doc.id, now, requestId });
+          if (outcome === 'forfeited') forfeited++;
+          else if (outcome === 'refunded') refunded++;
+          else noops++;
+          continue;
+        }
+
+        const sent = Array.isArray(order.balanceRemindersSent) ? order.balanceRemindersSent.map(Number) : [];
+        const daysBefore = getDueBalanceReminder(dueAt, now, sent);
+        if (daysBefore === null) {
+          noops++;
+          continue;
+        }
+        if (await sendBalanceDueReminder({ db: db as any, orderId: doc.id, order, daysBefore, requestId })) reminders++;
+        else errors++;
+      } catch (e: any) {
+        errors++;
+        logWarn('expireUnpaidBalances: failed to process order', {
+          requestId,
+          route: 'expireUnpaidBalances',
+          orderId: doc.id,
+          message: String(e?.message || e),
+        });
+      }
+    }
+
+    // Refunds owed by earlier expiries that Stripe didn't accept at the time.
+    if (!overBudget()) {
+      const pendingSnap = await db.collection('orders').where('depositRefundPending', '==', true).limit(MAX_PER_RUN).get();
+      for (const doc of pendingSnap.docs) {
+        if (overBudget()) break;
+        try {
+          const retry = await refundExpiredBalance({ db: db as any, orderId: doc.id, now, requestId });
+          if (retry.refunded) refundRetries++;
+          else errors++;
+        } catch (e: any) {
+          errors++;
+          logWarn('expireUnpaidBalances: refund retry failed', {
+            requestId,
+            route: 'expireUnpaidBalances',
+            orderId: doc.id,
+            message: String(e?.message || e),
+          });
+        }
+      }
+    }
+
+    logInfo('expireUnpaidBalances: completed', { requestId, route: 'expireUnpaidBalances', ...counts() });
+    return { statusCode: 200, body: JSON.stringify({ ok: true, ...counts() }) };
+  } catch (e: any) {
+    const code = String(e?.code || '');
+    const msg = String(e?.message || '');
+    const looksLikeIndex = code === 'failed-precondition' || /requires an index/i.test(msg);
+    if (looksLikeIndex) {
+      logWarn('expireUnpaidBalances: missing Firestore index; skipping run', { requestId, route: 'expireUnpaidBalances', code, message: msg });
+      return { statusCode: 200, body: JSON.stringify({ ok: true, skipped: true, reason: 'MISSING_INDEX' }) };
+    }
+    logError('expireUnpaidBalances: fatal error', e, { requestId, route: 'expireUnpaidBalances' });
+    return { statusCode: 500, body: JSON.stringify({ ok: false, error: msg || 'Unknown error' }) };
+  }
+};
+
+export const handler = schedule('0 * * * *', baseHandler);
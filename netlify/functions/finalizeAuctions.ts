@@ -3,8 +3,10 @@
  *
  * Purpose:
  * - Close ended auctions (type=auction, status=active, endsAt <= now)
+ *   (endsAt includes soft-close extensions; extended auctions simply stop matching the query)
  * - Persist an immutable AuctionResult at `auctionResults/{listingId}`
  * - Flip listing status to 'expired' and set finalization fields
+ * - Reserve not met with bidders: notify the seller that a second-chance offer is possible
  *
  * Safety:
  * - Idempotent: AuctionResult with finalizedAt causes a no-op
@@ -15,6 +17,7 @@ import { Handler, schedule } from '@netlify/functions';
 import { Timestamp } from 'firebase-admin/firestore';
 import { getAdminDb } from '../../lib/firebase/admin';
 import { finalizeAuctionIfNeeded } from '../../lib/auctions/finalizeAuction';
+import { notifySellerSecondChanceAvailable } from '../../lib/auctions/secondChance';
 import { logInfo, logWarn, logError } from '../../lib/monitoring/logger';
 
 const MAX_PER_RUN = 200;
@@ -71,6 +74,11 @@ const baseHandler: Handler = async () => {
       }
       if (res.didFinalize) finalized++;
       else noops++;
+
+      // Reserve not met: seller may send a second-chance offer to a bidder (best-effort, idempotent event).
+      if (res.didFinalize && res.auctionResult.status === 'ended_reserve_not_met') {
+        await notifySellerSecondChanceAvailable({ db: db as any, listingId, reason: 'reserve_not_met', requestId });
+      }
     }
 
     logInfo('finalizeAuctions: completed', { requestId, route: 'finalizeAuctions', scanned, finalized, noops, errors });
@@ -0,0 +1,125 @@
+/**
+ * Netlify Scheduled Function: Installment Plan Dunning
+ *
+ * Scans orders on an installment plan with installments left:
+ * - sends the next installment's reminders / overdue notices (3 and 1 days ahead, on the day, then 1, 3 and 7
+ *   days late; each at most once per installment)
+ * - once an installment is 14 days late, puts the plan in default for admin follow-up (lib/orders/installments.ts)
+ *
+ * Notes:
+ * - Scans `installmentsPending == true`; the flag is cleared when the plan completes or defaults, and here for
+ *   orders that ended some other way (refunded / cancelled by an admin) so they drop out of the scan.
+ * - Requires an index on (installmentsPending, nextInstallmentDueAt).
+ */
+import { Handler, schedule } from '@netlify/functions';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { getAdminDb } from '../../lib/firebase/admin';
+import { logInfo, logWarn, logError } from '../../lib/monitoring/logger';
+import {
+  INSTALLMENT_NOTICE_DAYS,
+  getDueInstallmentNotice,
+  getInstallmentDueAt,
+  getNextInstallment,
+  shouldDefaultInstallmentPlan,
+} from '../../lib/pricing/installments';
+import { markInstallmentPlanDefaulted, sendInstallmentNotice } from '../../lib/orders/installments';
+
+const MAX_PER_RUN = 200;
+const TIME_BUDGET_MS = 45_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const baseHandler: Handler = async () => {
+  const requestId = `cron_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+  const start = Date.now();
+  const db = getAdminDb();
+  const now = new Date();
+
+  let scanned = 0;
+  let notices = 0;
+  let defaulted = 0;
+  let noops = 0;
+  let errors = 0;
+  const counts = () => ({ scanned, notices, defaulted, noops, errors });
+  const overBudget = () => Date.now() - start > TIME_BUDGET_MS;
+
+  try {
+    // Everything due before the earliest reminder threshold (overdue installments sort first).
+    const horizon = Timestamp.fromMillis(now.getTime() - Math.min(...INSTALLMENT_NOTICE_DAYS) * DAY_MS);
+    const snap = await db
+      .collection('orders')
+      .where('installmentsPending', '==', true)
+      .where('nextInstallmentDueAt', '<=', horizon)
+      .orderBy('nextInstallmentDueAt', 'asc')
+      .limit(MAX_PER_RUN)
+      .get();
+
+    scanned = snap.size;
+
+    for (const doc of snap.docs) {
+      if (overBudget()) {
+        logWarn('installmentDunning: time budget reached; exiting early', { requestId, route: 'installmentDunning', ...counts() });
+        break;
+      }
+
+      const order = doc.data() as any;
+      const ended = ['CANCELLED', 'REFUNDED', 'COMPLETED'].includes(String(order.transactionStatus || ''));
+      if (order.finalPaymentConfirmedAt || order.installmentPlan?.status !== 'active' || ended) {
+        await doc.ref
+          .set({ installmentsPending: false, nextInstallmentDueAt: FieldValue.delete() }, { merge: true })
+          .catch(() => {});
+        noops++;
+        continue;
+      }
+      const next = getNextInstallment(order.installmentPlan);
+      const dueAt = getInstallmentDueAt(next);
+      if (!next || !dueAt) {
+        noops++;
+        continue;
+      }
+
+      try {
+        if (shouldDefaultInstallmentPlan(order.installmentPlan, now)) {
+          const outcome = await markInstallmentPlanDefaulted({ db: db as any, orderId: doc.id, now, requestId });
+          if (outcome === 'defaulted') defaulted++;
+          else noops++;
+          continue;
+        }
+
+        const sent = (Array.isArray(order.installmentNoticesSent) ? order.installmentNoticesSent : [])
+          .map(String)
+          .filter((k: string) => k.startsWith(`${next.number}:`))
+          .map((k: string) => Number(k.slice(k.indexOf(':') + 1)));
+        const offsetDays = getDueInstallmentNotice(dueAt, now, sent);
+        if (offsetDays === null) {
+          noops++;
+          continue;
+        }
+        if (await sendInstallmentNotice({ db: db as any, orderId: doc.id, order, offsetDays, now, requestId })) notices++;
+        else errors++;
+      } catch (e: any) {
+        errors++;
+        logWarn('installmentDunning: failed to process order', {
+          requestId,
+          route: 'installmentDunning',
+          orderId: doc.id,
+          message: String(e?.message || e),
+        });
+      }
+    }
+
+    logInfo('installmentDunning: completed', { requestId, route: 'installmentDunning', ...counts() });
+    return { statusCode: 200, body: JSON.stringify({ ok: true, ...counts() }) };
+  } catch (e: any) {
+    const code = String(e?.code || '');
+    const msg = String(e?.message || '');
+    const looksLikeIndex = code === 'failed-precondition' || /requires an index/i.test(msg);
+    if (looksLikeIndex) {
+      logWarn('installmentDunning: missing Firestore index; skipping run', { requestId, route: 'installmentDunning', code, message: msg });
+      return { statusCode: 200, body: JSON.stringify({ ok: true, skipped: true, reason: 'MISSING_INDEX' }) };
+    }
+    logError('installmentDunning: fatal error', e, { requestId, route: 'installmentDunning' });
+    return { statusCode: 500, body: JSON.stringify({ ok: false, error: msg || 'Unknown error' }) };
+  }
+};
+
+export const handler = schedule('15 * * * *', baseHandler);
@@ -2,7 +2,7 @@
  * Netlify Scheduled Function: Saved Search Instant Alerts
  *
  * Runs every 5 minutes:
- * - Finds listings created since last run
+ * - Finds listings that went live since last run (`publishedAt`, so scheduled listings alert at go-live)
  * - Matches against users/{uid}/savedSearches via simple `keys` reverse-index
  * - Emits Marketing.SavedSearchAlert events (marketing opt-in required by rules)
  */
@@ -48,9 +48,9 @@ const baseHandler: Handler = async () => {
     const listingsSnap = await db
       .collection('listings')
       .where('status', '==', 'active')
-      .where('createdAt', '>', startTs)
-      .where('createdAt', '<=', nowTs)
-      .orderBy('createdAt', 'asc')
+      .where('publishedAt', '>', startTs)
+      .where('publishedAt', '<=', nowTs)
+      .orderBy('publishedAt', 'asc')
       .limit(MAX_LISTINGS_PER_RUN)
       .get();
 
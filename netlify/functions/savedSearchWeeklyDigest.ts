@@ -3,7 +3,7 @@
  *
  * Runs weekly:
  * - Finds weekly saved searches
- * - Builds a small digest of matching listings from the last 7 days
+ * - Builds a small digest of matching listings that went live (`publishedAt`) in the last 7 days
  * - Emits Marketing.WeeklyDigest (marketing opt-in required by rules)
  */
 
@@ -49,11 +49,11 @@ const baseHandler: Handler = async () => {
       const criteria = ss.criteria || {};
 
       // Build a narrowed listings query when possible.
-      let q: FirebaseFirestore.Query = db.collection('listings').where('status', '==', 'active').where('createdAt', '>=', cutoffTs);
+      let q: FirebaseFirestore.Query = db.collection('listings').where('status', '==', 'active').where('publishedAt', '>=', cutoffTs);
       if (criteria.type) q = q.where('type', '==', criteria.type);
       if (criteria.category) q = q.where('category', '==', criteria.category);
       if (criteria.location?.state) q = q.where('location.state', '==', criteria.location.state);
-      q = q.orderBy('createdAt', 'desc').limit(MAX_LISTINGS_PER_SEARCH);
+      q = q.orderBy('publishedAt', 'desc').limit(MAX_LISTINGS_PER_SEARCH);
 
       const listingsSnap = await q.get();
       const matches: Array<{ listingId: string; title: string; url: string; price?: number; endsAt?: string }> = [];
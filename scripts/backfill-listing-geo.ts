@@ -0,0 +1,89 @@
+/**
+ * One-off script: geocode existing active listings (`geo: { lat, lng, geohash }`)
+ *
+ * Listings published before radius search existed have no `geo`, so /api/listings/nearby can't find
+ * them. Publish geocodes new listings; this catches up the rest.
+ *
+ * Run with: npx tsx scripts/backfill-listing-geo.ts [--dry-run] [--all]
+ *
+ * Prerequisites:
+ * - Firebase Admin SDK (same as seed-listings-admin)
+ * - GOOGLE_APPLICATION_CREDENTIALS or project/serviceAccountKey.json
+ * - GOOGLE_MAPS_SERVER_KEY (Geocoding API enabled)
+ *
+ * --dry-run  Count listings that would be geocoded; do not call the geocoder or write.
+ * --all      Re-geocode every active listing (default: only those missing `geo`).
+ */
+
+const admin = require('firebase-admin');
+import * as path from 'path';
+import * as fs from 'fs';
+import { geocodeListingLocation } from '../lib/geo/geocode';
+
+const dryRun = process.argv.includes('--dry-run');
+const rebuildAll = process.argv.includes('--all');
+const PAGE_SIZE = 200;
+
+async function main() {
+  if (!admin.apps.length) {
+    const serviceAccountPath =
+      process.env.GOOGLE_APPLICATION_CREDENTIALS || path.join(__dirname, '../serviceAccountKey.json');
+    if (fs.existsSync(serviceAccountPath)) {
+      const serviceAccount = JSON.parse(fs.readFileSync(serviceAccountPath, 'utf8'));
+      admin.initializeApp({ credential: admin.credential.cert(serviceAccount) });
+    } else {
+      try {
+        admin.initializeApp({
+          projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || 'wildlife-exchange',
+        });
+      } catch (e) {
+        console.error('❌ Could not initialize Firebase Admin. Set GOOGLE_APPLICATION_CREDENTIALS or use serviceAccountKey.json');
+        process.exit(1);
+      }
+    }
+  }
+
+  const db = admin.firestore();
+  let scanned = 0;
+  let updated = 0;
+  let failed = 0;
+  let last: any = null;
+
+  for (;;) {
+    let q = db
+      .collection('listings')
+      .where('status', '==', 'active')
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .limit(PAGE_SIZE);
+    if (last) q = q.startAfter(last);
+    const snap = await q.get();
+    if (snap.empty) break;
+
+    for (const d of snap.docs) {
+      scanned++;
+      const data = d.data();
+      if (!rebuildAll && data?.geo?.geohash) continue;
+      if (dryRun) {
+        updated++;
+        continue;
+      }
+      const geo = await geocodeListingLocation(data?.location);
+      if (!geo) {
+        failed++;
+        console.warn(`  ⚠️ ${d.id}: could not geocode ${JSON.stringify(data?.location || {})}`);
+        continue;
+      }
+      await d.ref.update({ geo: { ...geo, geocodedAt: admin.firestore.Timestamp.now() } });
+      updated++;
+    }
+    last = snap.docs[snap.docs.length - 1];
+    console.log(`  scanned ${scanned}, ${dryRun ? 'would geocode' : 'geocoded'} ${updated}, failed ${failed}`);
+  }
+
+  console.log(`\nDone. Scanned ${scanned} active listing(s); ${dryRun ? 'would geocode' : 'geocoded'} ${updated}; failed ${failed}.`);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,80 @@
+/**
+ * One-off script: backfill `searchTokens` on existing listings
+ *
+ * Listings written before the search index existed have no `searchTokens`, so /api/listings/search
+ * can't find them. New writes maintain the field (create/update/publish); this catches up the rest.
+ *
+ * Run with: npx tsx scripts/backfill-listing-search-tokens.ts [--dry-run] [--all]
+ *
+ * Prerequisites:
+ * - Firebase Admin SDK (same as seed-listings-admin)
+ * - GOOGLE_APPLICATION_CREDENTIALS or project/serviceAccountKey.json
+ *
+ * --dry-run  Count listings that would be updated; do not write.
+ * --all      Rebuild every listing (default: only docs missing the current index version).
+ */
+
+const admin = require('firebase-admin');
+import * as path from 'path';
+import * as fs from 'fs';
+import { buildListingSearchTokens, LISTING_SEARCH_INDEX_VERSION } from '../lib/search/listingSearchIndex';
+
+const dryRun = process.argv.includes('--dry-run');
+const rebuildAll = process.argv.includes('--all');
+const PAGE_SIZE = 300;
+
+async function main() {
+  if (!admin.apps.length) {
+    const serviceAccountPath =
+      process.env.GOOGLE_APPLICATION_CREDENTIALS || path.join(__dirname, '../serviceAccountKey.json');
+    if (fs.existsSync(serviceAccountPath)) {
+      const serviceAccount = JSON.parse(fs.readFileSync(serviceAccountPath, 'utf8'));
+      admin.initializeApp({ credential: admin.credential.cert(serviceAccount) });
+    } else {
+      try {
+        admin.initializeApp({
+          projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || 'wildlife-exchange',
+        });
+      } catch (e) {
+        console.error('❌ Could not initialize Firebase Admin. Set GOOGLE_APPLICATION_CREDENTIALS or use serviceAccountKey.json');
+        process.exit(1);
+      }
+    }
+  }
+
+  const db = admin.firestore();
+  let scanned = 0;
+  let updated = 0;
+  let last: any = null;
+
+  for (;;) {
+    let q = db.collection('listings').orderBy(admin.firestore.FieldPath.documentId()).limit(PAGE_SIZE);
+    if (last) q = q.startAfter(last);
+    const snap = await q.get();
+    if (snap.empty) break;
+
+    const batch = db.batch();
+    let batchWrites = 0;
+    for (const d of snap.docs) {
+      scanned++;
+      const data = d.data();
+      if (!rebuildAll && data?.searchIndexVersion === LISTING_SEARCH_INDEX_VERSION) continue;
+      batch.update(d.ref, {
+        searchTokens: buildListingSearchTokens(data),
+        searchIndexVersion: LISTING_SEARCH_INDEX_VERSION,
+      });
+      batchWrites++;
+    }
+    if (batchWrites > 0 && !dryRun) await batch.commit();
+    updated += batchWrites;
+    last = snap.docs[snap.docs.length - 1];
+    console.log(`  scanned ${scanned}, ${dryRun ? 'would update' : 'updated'} ${updated}`);
+  }
+
+  console.log(`\nDone. Scanned ${scanned} listing(s); ${dryRun ? 'would update' : 'updated'} ${updated}.`);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
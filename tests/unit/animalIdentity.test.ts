@@ -0,0 +1,102 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  getAnimalSaleReversal,
+  getListingAnimalIdentifiers,
+  isAnimalSaleConfirmed,
+  matchesAnimalIdentifiers,
+  mergeAnimalRecords,
+  toAnimalTransferHistory,
+} from '../../lib/animals/identity';
+
+test('animal identity: tags, microchips and registrations normalize to stable registry keys', () => {
+  const horse = getListingAnimalIdentifiers('horse_equestrian', {
+    registrationOrg: 'AQHA',
+    registrationNumber: '5-812-334',
+    identification: { microchip: '985 1410 0012 3456', brand: 'Lazy J', tattoo: 'n/a' },
+  });
+  assert.deepEqual(
+    horse.map((i) => i.key),
+    ['microchip:985141000123456', 'registration:AQHA-5812334']
+  );
+
+  // Same deer tag written differently resolves to one key; a multi-tag field or a lot doesn't register.
+  const tag = (deerIdTag: string, quantity = 1) =>
+    getListingAnimalIdentifiers('whitetail_breeder', { deerIdTag, quantity }).map((i) => i.key);
+  assert.deepEqual(tag('tx-1234'), tag('TX 1234'));
+  assert.deepEqual(tag('TX1234, TX5678'), []);
+  assert.deepEqual(tag('TX1234', 3), []);
+
+  // Cattle register only when the animal is a registered animal; equipment never does.
+  assert.deepEqual(getListingAnimalIdentifiers('cattle_livestock', { registrationNumber: 'P43821', registered: false }), []);
+  assert.equal(getListingAnimalIdentifiers('cattle_livestock', { registrationNumber: 'P43821', registered: true, breed: 'Angus' })[0]?.key, 'registration:ANGUS-P43821');
+  assert.deepEqual(getListingAnimalIdentifiers('ranch_equipment', { identification: { microchip: '123456789' } }), []);
+});
+
+test('animal identity: dispute matching and public transfer history', () => {
+  const ids = getListingAnimalIdentifiers('horse_equestrian', { identification: { microchip: '985141000123456' } });
+  assert.equal(matchesAnimalIdentifiers('985-141-000-123-456', ids), true);
+  assert.equal(matchesAnimalIdentifiers('985141000999999', ids), false);
+  assert.equal(matchesAnimalIdentifiers('', ids), false);
+
+  const history = toAnimalTransferHistory([
+    { type: 'SOLD', at: new Date('2026-03-02'), state: 'TX' },
+    { type: 'DISPUTE_OPENED', at: new Date('2026-03-05'), state: null },
+    { type: 'LISTED', at: new Date('2026-02-20'), state: 'TX' },
+  ]);
+  assert.deepEqual(
+    history.map((h) => h.type),
+    ['LISTED', 'SOLD']
+  );
+});
+
+test('animal sale: ownership only moves once the payment has cleared', () => {
+  // Async (ACH) checkout and wire orders exist before the money arrives.
+  assert.equal(isAnimalSaleConfirmed({ status: 'pending', paidAt: null }), false);
+  assert.equal(isAnimalSaleConfirmed({ status: 'awaiting_wire' }), false);
+  assert.equal(isAnimalSaleConfirmed({ status: 'paid', transactionStatus: 'FULFILLMENT_REQUIRED', paidAt: new Date() }), true);
+  assert.equal(isAnimalSaleConfirmed({ status: 'paid_held', paidAt: new Date() }), true);
+  // Refunded or cancelled (e.g. an expired balance) after paying: no transfer.
+  assert.equal(isAnimalSaleConfirmed({ status: 'refunded', paidAt: new Date() }), false);
+  assert.equal(isAnimalSaleConfirmed({ status: 'cancelled', transactionStatus: 'CANCELLED', paidAt: new Date() }), false);
+  assert.equal(isAnimalSaleConfirmed(null), false);
+});
+
+test('animal sale: refund, cancellation or expiry hands the animal back to the seller', () => {
+  const params = { orderId: 'o2', sellerId: 'seller', relistedListingId: 'l2' };
+  assert.deepEqual(getAnimalSaleReversal({ orderIds: ['o1', 'o2'] }, params), {
+    orderIds: ['o1'],
+    currentOwnerId: 'seller',
+    activeListingId: 'l2',
+  });
+  // Refund after the listing stays ended: back to the seller, not on sale.
+  assert.deepEqual(getAnimalSaleReversal({ orderIds: ['o2'] }, { ...params, relistedListingId: null }), {
+    orderIds: [],
+    currentOwnerId: 'seller',
+    activeListingId: null,
+  });
+  // Resold since: only the stale order is dropped; the current owner keeps it.
+  assert.deepEqual(getAnimalSaleReversal({ orderIds: ['o2', 'o3'] }, params), { orderIds: ['o3'] });
+  // Never sold through this order (unpaid, or already reversed): nothing to undo.
+  assert.equal(getAnimalSaleReversal({ orderIds: ['o1'] }, params), null);
+  assert.equal(getAnimalSaleReversal(null, params), null);
+});
+
+test('animal registry: a tag and a microchip first seen on different listings merge into one record', () => {
+  const tag = { type: 'ear_tag', value: 'TX1234', key: 'ear_tag:TX1234' } as const;
+  const chip = { type: 'microchip', value: '985141000123456', key: 'microchip:985141000123456' } as const;
+  const merge = mergeAnimalRecords([
+    { id: 'a1', animal: { identifiers: [tag], listingIds: ['l1'], orderIds: [] } },
+    { id: 'a2', animal: { identifiers: [chip], listingIds: ['l2', 'l3'], orderIds: ['o1', 'o2'] } },
+  ]);
+  // The record with sale history is kept, and its latest sale stays last.
+  assert.equal(merge.primaryId, 'a2');
+  assert.deepEqual(merge.mergedIds, ['a1']);
+  assert.deepEqual(merge.identifiers.map((i) => i.key), [chip.key, tag.key]);
+  assert.deepEqual(merge.listingIds, ['l1', 'l2', 'l3']);
+  assert.deepEqual(merge.orderIds, ['o1', 'o2']);
+
+  // Neither sold: the first match is kept.
+  assert.equal(mergeAnimalRecords([{ id: 'a1', animal: null }, { id: 'a2', animal: { identifiers: [chip] } }]).primaryId, 'a1');
+});
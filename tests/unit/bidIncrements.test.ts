@@ -0,0 +1,62 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  CATEGORY_BID_INCREMENT_LADDERS,
+  DEFAULT_BID_INCREMENT_LADDER,
+  getIncrementFromLadder,
+  getMinNextBidCents,
+  isValidBidIncrementLadder,
+  resolveBidIncrementLadder,
+} from '../../lib/auctions/bidIncrements';
+import { computeNextState } from '../../lib/auctions/proxyBidding';
+
+const ladder = [
+  { upToCents: 10_000, incrementCents: 500 },
+  { upToCents: 100_000, incrementCents: 2_500 },
+  { upToCents: null, incrementCents: 10_000 },
+];
+
+test('bid increments: tier lookup uses exclusive upper bounds', () => {
+  assert.equal(getIncrementFromLadder(0, ladder), 500);
+  assert.equal(getIncrementFromLadder(9_999, ladder), 500);
+  assert.equal(getIncrementFromLadder(10_000, ladder), 2_500);
+  assert.equal(getIncrementFromLadder(5_000_000, ladder), 10_000);
+});
+
+test('bid increments: first bid may equal starting bid; later bids need current + increment', () => {
+  assert.equal(getMinNextBidCents({ currentBidCents: 50_000, startingBidCents: 50_000, hasAnyBids: false, ladder }), 50_000);
+  assert.equal(getMinNextBidCents({ currentBidCents: 50_000, startingBidCents: 50_000, hasAnyBids: true, ladder }), 52_500);
+});
+
+test('bid increments: listing override wins, invalid override falls back to category, then default', () => {
+  assert.equal(resolveBidIncrementLadder({ category: 'horse_equestrian', bidIncrementLadder: ladder }), ladder);
+  assert.equal(
+    resolveBidIncrementLadder({ category: 'horse_equestrian', bidIncrementLadder: [{ upToCents: 100, incrementCents: 5 }] }),
+    CATEGORY_BID_INCREMENT_LADDERS.horse_equestrian
+  );
+  assert.equal(resolveBidIncrementLadder({ category: 'not_a_category' }), DEFAULT_BID_INCREMENT_LADDER);
+  assert.equal(resolveBidIncrementLadder(null), DEFAULT_BID_INCREMENT_LADDER);
+});
+
+test('bid increments: every built-in ladder is valid', () => {
+  assert.equal(isValidBidIncrementLadder(DEFAULT_BID_INCREMENT_LADDER), true);
+  for (const l of Object.values(CATEGORY_BID_INCREMENT_LADDERS)) assert.equal(isValidBidIncrementLadder(l), true);
+  assert.equal(isValidBidIncrementLadder([{ upToCents: 1_000, incrementCents: 0 }, { upToCents: null, incrementCents: 5 }]), false);
+  assert.equal(isValidBidIncrementLadder([{ upToCents: 1_000, incrementCents: 5 }, { upToCents: 500, incrementCents: 5 }, { upToCents: null, incrementCents: 5 }]), false);
+});
+
+test('bid increments: proxy engine steps by ladder increment when one is provided', () => {
+  const out = computeNextState({
+    currentBidCents: 20_000,
+    highBidderId: 'A',
+    autoBidSet: [
+      { userId: 'A', maxBidCents: 60_000, enabled: true, createdAtMs: 1 },
+      { userId: 'B', maxBidCents: 30_000, enabled: true, createdAtMs: 2 },
+    ],
+    incrementLadder: ladder,
+  });
+  assert.equal(out.newHighBidderId, 'A');
+  // Second-highest max (300.00) + ladder increment at that price (25.00).
+  assert.equal(out.newCurrentBidCents, 32_500);
+});
@@ -0,0 +1,64 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { applyBuyerReviewDelta, initBuyerReviewStats } from '../../lib/reviews/aggregates';
+import { getBuyerReviewEligibility, normalizeBuyerRatings, summarizeBuyerReviewStats } from '../../lib/reviews/buyerReputation';
+
+const NOW = Date.UTC(2026, 5, 5, 12, 0, 0);
+const DAY = 24 * 60 * 60 * 1000;
+
+test('buyer reputation: only completed or cancelled orders inside the window are eligible', () => {
+  const completed = getBuyerReviewEligibility(
+    { transactionStatus: 'COMPLETED', completedAt: new Date(NOW - DAY), transportOption: 'BUYER_TRANSPORT' },
+    NOW
+  );
+  assert.equal(completed.eligible, true);
+  assert.equal(completed.eligible && completed.outcome, 'completed');
+  assert.equal(completed.eligible && completed.pickupApplicable, true);
+
+  const cancelled = getBuyerReviewEligibility({ status: 'cancelled', updatedAt: new Date(NOW - DAY) }, NOW);
+  assert.equal(cancelled.eligible && cancelled.outcome, 'cancelled');
+  assert.equal(cancelled.eligible && cancelled.pickupApplicable, false);
+
+  assert.deepEqual(getBuyerReviewEligibility({ transactionStatus: 'PAID', paidAt: new Date(NOW) }, NOW), {
+    eligible: false,
+    reason: 'ORDER_NOT_CLOSED',
+  });
+  assert.deepEqual(
+    getBuyerReviewEligibility({ transactionStatus: 'COMPLETED', completedAt: new Date(NOW - 61 * DAY) }, NOW),
+    { eligible: false, reason: 'REVIEW_WINDOW_EXPIRED' }
+  );
+});
+
+test('buyer reputation: pickup is only rated when the buyer handled pickup', () => {
+  assert.deepEqual(normalizeBuyerRatings({ payment: 5, pickup: 1, communication: 4 }, { pickupApplicable: false }), {
+    ok: true,
+    ratings: { payment: 5, pickup: null, communication: 4 },
+    rating: 5,
+  });
+  assert.deepEqual(normalizeBuyerRatings({ payment: 5, pickup: 1, communication: 4 }, { pickupApplicable: true }), {
+    ok: true,
+    ratings: { payment: 5, pickup: 1, communication: 4 },
+    rating: 3,
+  });
+  assert.equal(normalizeBuyerRatings({ payment: 5, communication: 4 }, { pickupApplicable: true }).ok, false);
+  assert.equal(normalizeBuyerRatings({ payment: 4.5, communication: 4 }, { pickupApplicable: false }).ok, false);
+});
+
+test('buyer reputation: aggregates track overall and per-dimension averages', () => {
+  let stats = applyBuyerReviewDelta(initBuyerReviewStats(), { rating: 5, ratings: { payment: 5, pickup: null, communication: 4 } }, 1);
+  stats = applyBuyerReviewDelta(stats, { rating: 2, ratings: { payment: 1, pickup: 2, communication: 3 } }, 1);
+
+  const summary = summarizeBuyerReviewStats(stats);
+  assert.equal(summary?.reviewCount, 2);
+  assert.equal(summary?.avgRating, 3.5);
+  assert.deepEqual(summary?.dimensions, {
+    payment: { avg: 3, count: 2 },
+    pickup: { avg: 2, count: 1 },
+    communication: { avg: 3.5, count: 2 },
+  });
+
+  const reverted = applyBuyerReviewDelta(stats, { rating: 2, ratings: { payment: 1, pickup: 2, communication: 3 } }, -1);
+  assert.deepEqual(reverted.dimensions.pickup, { count: 0, total: 0 });
+  assert.equal(summarizeBuyerReviewStats(initBuyerReviewStats()), null);
+});
@@ -0,0 +1,77 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  attributeFacetsFromSearchParams,
+  computeAttributeFacetCounts,
+  getCategoryAttributeFacets,
+  getFacetOptionLabel,
+  getListingFacetValue,
+  listingMatchesAttributeFacets,
+  setAttributeFacetSearchParams,
+} from '../../lib/search/categoryFacets';
+import { listingMatchesFilters } from '../../lib/search/listingFilters';
+
+const cattle = (attributes: Record<string, unknown>) => ({ category: 'cattle_livestock', attributes });
+
+const angusBull = cattle({ breed: 'angus', sex: 'bull', age: 3, registered: true });
+const legacyHeifer = cattle({ breed: 'Black Angus', sex: 'heifer', age: '1 year', registered: false });
+const otherBreedCow = cattle({ breed: 'other', breedOther: 'Wagyu', sex: 'cow', registered: true });
+const tractor = {
+  category: 'ranch_equipment',
+  attributes: { equipmentType: 'tractor', make: 'john_deere', year: 2017, hours: 1200, condition: 'good', quantity: 1 },
+};
+
+function facet(category: string, field: string) {
+  const def = getCategoryAttributeFacets(category).find((d) => d.field === field);
+  assert.ok(def, `${category}.${field} facet`);
+  return def!;
+}
+
+test('category facets: values normalize legacy free text and bucket numeric fields', () => {
+  assert.equal(getListingFacetValue(legacyHeifer, facet('cattle_livestock', 'breed')), 'black_angus');
+  assert.equal(getListingFacetValue(otherBreedCow, facet('cattle_livestock', 'breed')), 'wagyu');
+  assert.equal(getListingFacetValue(legacyHeifer, facet('cattle_livestock', 'age')), '1_2');
+  assert.equal(getListingFacetValue(angusBull, facet('cattle_livestock', 'age')), '3_5');
+  assert.equal(getListingFacetValue(legacyHeifer, facet('cattle_livestock', 'registered')), 'false');
+  assert.equal(getListingFacetValue(otherBreedCow, facet('cattle_livestock', 'age')), null);
+  assert.equal(getListingFacetValue(tractor, facet('ranch_equipment', 'year')), '2015_2019');
+  assert.equal(getListingFacetValue(tractor, facet('ranch_equipment', 'hours')), '500_1999');
+  assert.equal(getFacetOptionLabel(facet('ranch_equipment', 'make'), 'john_deere'), 'John Deere');
+  assert.equal(getFacetOptionLabel(facet('cattle_livestock', 'breed'), 'black_angus'), 'Black Angus');
+});
+
+test('category facets: OR within a field, AND across fields; unknown fields never match', () => {
+  assert.equal(listingMatchesAttributeFacets(angusBull, { breed: ['angus', 'hereford'] }), true);
+  assert.equal(listingMatchesAttributeFacets(angusBull, { breed: ['angus'], sex: ['cow'] }), false);
+  assert.equal(listingMatchesAttributeFacets(angusBull, { registered: ['true'], sex: ['bull', 'cow'] }), true);
+  assert.equal(listingMatchesAttributeFacets(tractor, { breed: ['angus'] }), false);
+  assert.equal(listingMatchesAttributeFacets(tractor, {}), true);
+  // Browse and saved-search alerts get the same behavior through the shared evaluator.
+  assert.equal(listingMatchesFilters(angusBull, { attributes: { sex: ['bull'] } }), true);
+  assert.equal(listingMatchesFilters(legacyHeifer, { attributes: { sex: ['bull'] } }), false);
+});
+
+test('category facets: counts are disjunctive (a facet ignores its own selection)', () => {
+  const counts = computeAttributeFacetCounts([angusBull, legacyHeifer, otherBreedCow], 'cattle_livestock', {
+    registered: ['true'],
+  });
+  // registered counts ignore the registered selection
+  assert.deepEqual(counts.registered, { true: 2, false: 1 });
+  // other facets only count registered listings
+  assert.deepEqual(counts.sex, { bull: 1, cow: 1 });
+  assert.deepEqual(counts.breed, { angus: 1, wagyu: 1 });
+});
+
+test('category facets: URL params round-trip and drop fields the category does not facet', () => {
+  const params = new URLSearchParams('category=cattle_livestock');
+  setAttributeFacetSearchParams(params, { breed: ['angus', 'hereford'], registered: ['true'] });
+  assert.equal(params.get('attr.breed'), 'angus,hereford');
+
+  params.set('attr.hours', '5000_plus');
+  assert.deepEqual(attributeFacetsFromSearchParams(params, 'cattle_livestock'), {
+    breed: ['angus', 'hereford'],
+    registered: ['true'],
+  });
+  assert.equal(attributeFacetsFromSearchParams(new URLSearchParams(''), 'cattle_livestock'), undefined);
+});
@@ -0,0 +1,31 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  COMPLIANCE_EXPIRED_NOTICE,
+  getDueExpiryNotice,
+  isComplianceDocumentExpired,
+  toExpiryDate,
+} from '../../lib/compliance/expiry';
+
+test('compliance expiry: sends the closest 60/30/7-day notice once, then the expired notice', () => {
+  const expiresAt = new Date('2026-06-30T00:00:00Z');
+  assert.equal(getDueExpiryNotice(expiresAt, new Date('2026-04-15T00:00:00Z')), null);
+  assert.equal(getDueExpiryNotice(expiresAt, new Date('2026-05-01T00:00:00Z')), 60);
+  assert.equal(getDueExpiryNotice(expiresAt, new Date('2026-05-02T00:00:00Z'), [60]), null);
+  // Uploaded (or first scanned) inside the 30-day window: only the 30-day notice, not 60 as well.
+  assert.equal(getDueExpiryNotice(expiresAt, new Date('2026-06-10T00:00:00Z')), 30);
+  assert.equal(getDueExpiryNotice(expiresAt, new Date('2026-06-25T00:00:00Z'), [60, 30]), 7);
+
+  assert.equal(getDueExpiryNotice(expiresAt, new Date('2026-06-30T00:00:01Z'), [60, 30, 7]), COMPLIANCE_EXPIRED_NOTICE);
+  assert.equal(getDueExpiryNotice(expiresAt, new Date('2026-07-01T00:00:00Z'), [60, 30, 7, 0]), null);
+});
+
+test('compliance expiry: reads Firestore-style timestamps and ISO strings', () => {
+  const now = new Date('2026-06-01T00:00:00Z');
+  assert.equal(isComplianceDocumentExpired({ seconds: Date.parse('2026-05-31T00:00:00Z') / 1000 }, now), true);
+  assert.equal(isComplianceDocumentExpired({ toDate: () => new Date('2026-06-02T00:00:00Z') }, now), false);
+  assert.equal(isComplianceDocumentExpired('2026-05-01', now), true);
+  assert.equal(isComplianceDocumentExpired(null, now), false);
+  assert.equal(toExpiryDate('not a date'), null);
+});
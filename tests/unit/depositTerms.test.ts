@@ -0,0 +1,61 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  getBalanceExpiryRefundCents,
+  getDueBalanceReminder,
+  isBalanceExpired,
+  quoteDeposit,
+  resolveBalanceDueAt,
+  validateListingDepositTerms,
+} from '../../lib/pricing/deposit';
+
+test('deposit terms: validates seller input and clamps the quote to 10–90% of the total', () => {
+  const now = new Date('2026-05-01T00:00:00Z');
+  assert.equal(validateListingDepositTerms({ mode: 'percent', percent: 0.05 }, { now }).ok, false);
+  assert.equal(validateListingDepositTerms({ mode: 'percent', percent: 0.3, balanceDueDays: 30, balanceDueDate: '2026-06-01' }, { now }).ok, false);
+  assert.equal(validateListingDepositTerms({ mode: 'fixed', fixedAmount: 500, balanceDueDate: '2026-04-01' }, { now }).ok, false);
+
+  const res = validateListingDepositTerms({ mode: 'fixed', fixedAmount: 500, refundable: true, balanceDueDate: '2026-06-01', extra: 1 }, { now });
+  assert.equal(res.ok, true);
+  if (!res.ok || !res.terms) return;
+  assert.deepEqual(res.terms, { mode: 'fixed', refundable: true, fixedAmount: 500, balanceDueDate: '2026-06-01' });
+
+  // Fixed amount is per head: 3 × $500 of a $6,000 order.
+  const q = quoteDeposit(6000, res.terms, 3);
+  assert.equal(q.depositAmount, 1500);
+  assert.equal(q.finalPaymentAmount, 4500);
+  assert.equal(q.refundable, true);
+
+  // An auction that closed at $1,000 still leaves a 10% balance.
+  assert.equal(quoteDeposit(1000, res.terms, 3).depositAmount, 900);
+  // No terms: platform default.
+  assert.deepEqual(quoteDeposit(1000), { depositAmount: 200, finalPaymentAmount: 800, percent: 0.2, refundable: false, custom: false });
+});
+
+test('balance due: resolves the due date, picks one reminder at a time and expires after the grace period', () => {
+  const paidAt = new Date('2026-05-01T12:00:00Z');
+  const byDays = resolveBalanceDueAt({ percent: 0.3, refundable: false, custom: true, balanceDueDays: 30 }, paidAt);
+  assert.equal(byDays?.toISOString(), '2026-05-31T12:00:00.000Z');
+  // A calendar date already past when the deposit clears gives the buyer a day.
+  const late = resolveBalanceDueAt({ percent: 0.3, refundable: false, custom: true, balanceDueDate: '2026-04-20' }, paidAt);
+  assert.equal(late?.toISOString(), '2026-05-02T12:00:00.000Z');
+  assert.equal(resolveBalanceDueAt({ percent: 0.2, refundable: false, custom: false }, paidAt), null);
+
+  const due = new Date('2026-05-31T12:00:00Z');
+  assert.equal(getDueBalanceReminder(due, new Date('2026-05-20T12:00:00Z')), null);
+  assert.equal(getDueBalanceReminder(due, new Date('2026-05-25T12:00:00Z')), 7);
+  // First run inside the 1-day window only sends the 1-day reminder.
+  assert.equal(getDueBalanceReminder(due, new Date('2026-05-31T00:00:00Z')), 1);
+  assert.equal(getDueBalanceReminder(due, new Date('2026-05-31T00:00:00Z'), [7, 1]), null);
+
+  assert.equal(isBalanceExpired(due, new Date('2026-06-02T11:59:00Z')), false);
+  assert.equal(isBalanceExpired(due, new Date('2026-06-02T12:00:00Z')), true);
+});
+
+test('balance expiry: refundable deposits return the whole first payment, forfeited ones only the tax', () => {
+  const order = { depositAmount: 600, salesTax: { amount: 49.5 } };
+  assert.equal(getBalanceExpiryRefundCents(order, 'refunded'), 64_950);
+  assert.equal(getBalanceExpiryRefundCents(order, 'forfeited'), 4_950);
+  assert.equal(getBalanceExpiryRefundCents({ depositAmount: 600 }, 'forfeited'), 0);
+});
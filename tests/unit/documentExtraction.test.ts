@@ -0,0 +1,84 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { deflateSync } from 'zlib';
+
+import { extractPdfText } from '../../lib/compliance/extraction/pdfText';
+import {
+  diffExtractionAgainstListing,
+  documentFieldsFormFromDocument,
+  getExtractionConfidence,
+  parseDocumentFields,
+} from '../../lib/compliance/extraction/fields';
+
+function pdfWithContent(content: string): Buffer {
+  const stream = deflateSync(Buffer.from(content, 'latin1'));
+  return Buffer.concat([
+    Buffer.from('%PDF-1.4\n1 0 obj\n<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>\nendobj\n'),
+    Buffer.from(`2 0 obj\n<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`),
+    stream,
+    Buffer.from('\nendstream\nendobj\ntrailer\n<< /Root 3 0 R >>\n%%EOF\n'),
+  ]);
+}
+
+const PERMIT_CONTENT = [
+  'BT /F1 14 Tf 72 720 Td (TEXAS PARKS AND WILDLIFE DEPARTMENT) Tj ET',
+  'BT /F1 10 Tf 72 690 Td (Deer Breeder Permit) Tj 0 -14 Td (Permit Number: DB-48213) Tj',
+  '0 -14 Td [(Facility) -250 (ID: TX-F-0091)] TJ',
+  "0 -14 Td (Date Issued: 03/15/2026) Tj (Expiration Date: March 31, 2027) '",
+  '0 -14 Td (Ear Tags: TX1234, TX1235) Tj ET',
+].join('\n');
+
+test('document extraction: reads embedded text from a FlateDecode PDF and parses permit fields', () => {
+  const text = extractPdfText(pdfWithContent(PERMIT_CONTENT));
+  assert.match(text, /Permit Number: DB-48213/);
+  assert.match(text, /Facility ID: TX-F-0091/);
+
+  const fields = parseDocumentFields(text);
+  assert.equal(fields.permitNumber?.value, 'DB-48213');
+  assert.equal(fields.facilityId?.value, 'TX-F-0091');
+  assert.equal(fields.issuedAt?.value, '2026-03-15');
+  assert.equal(fields.expiresAt?.value, '2027-03-31');
+  assert.equal(fields.issuedBy?.value, 'Texas Parks and Wildlife Department');
+  assert.deepEqual(fields.animalIds?.value, ['TX1234', 'TX1235']);
+  assert.ok(getExtractionConfidence(fields) > 0.8);
+
+  assert.equal(extractPdfText(Buffer.from('%PDF-1.4\n%%EOF\n')), '');
+});
+
+test('document extraction: a deflate bomb is skipped and the text kept per file is capped', () => {
+  // A few KB on disk that would inflate to 8 MB.
+  assert.equal(extractPdfText(pdfWithContent(`BT (${'A'.repeat(8 * 1024 * 1024)}) Tj ET`)), '');
+
+  const lines = Array.from({ length: 20_000 }, (_, i) => `0 -14 Td (Line ${i} of a very long document) Tj`);
+  const text = extractPdfText(pdfWithContent(`BT ${lines.join('\n')} ET`));
+  assert.ok(text.length > 0 && text.length <= 200_000);
+});
+
+test('document extraction: diffs against declared attributes and prefills the verify form', () => {
+  const fields = parseDocumentFields(
+    'Permit No. DB-48213\nFacility ID: TX-F-0091\nExpires: 2027-03-31\nDeer ID Tag: TX9999'
+  );
+  const diffs = diffExtractionAgainstListing(fields, 'TPWD_BREEDER_PERMIT', {
+    tpwdBreederPermitNumber: 'db 48213',
+    breederFacilityId: 'TX-F-0092',
+    tpwdPermitExpirationDate: new Date('2027-03-31T05:00:00Z'),
+    deerIdTag: 'TX1234',
+  });
+  assert.deepEqual(
+    diffs.map((d) => [d.field, d.match]),
+    [
+      ['permitNumber', true],
+      ['facilityId', false],
+      ['expiresAt', true],
+      ['animalIds', false],
+    ]
+  );
+  // A CVI's certificate number is never compared with the breeder permit.
+  assert.equal(diffExtractionAgainstListing(fields, 'TAHC_CVI', { tpwdBreederPermitNumber: 'X1' }).length, 0);
+
+  const form = documentFieldsFormFromDocument({
+    permitNumber: 'DB-1',
+    extraction: { status: 'extracted', extractor: 'pdf_text', fields, confidence: 0.9, diffs, extractedAt: new Date() },
+  });
+  assert.deepEqual(form, { permitNumber: 'DB-1', issuedBy: '', issuedAt: '', expiresAt: '2027-03-31' });
+});
@@ -0,0 +1,70 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  distanceMiles,
+  encodeGeohash,
+  formatDistanceMiles,
+  geohashQueryBounds,
+  sellerDeliversTo,
+} from '../../lib/geo/geohash';
+import { listingLocationChanged } from '../../lib/geo/geocode';
+import { matchListingToSavedSearch } from '../../lib/search/matchListingToSavedSearch';
+
+const austin = { lat: 30.2672, lng: -97.7431 };
+const sanAntonio = { lat: 29.4241, lng: -98.4936 };
+const kerrville = { lat: 30.0474, lng: -99.1403 };
+
+function coveredBy(bounds: Array<[string, string]>, lat: number, lng: number): boolean {
+  const hash = encodeGeohash(lat, lng);
+  return bounds.some(([start, end]) => hash >= start && hash <= end);
+}
+
+test('geohash: encodes the reference point and measures great-circle distance', () => {
+  assert.equal(encodeGeohash(57.64911, 10.40744, 11), 'u4pruydqqvj');
+  const d = distanceMiles(austin, sanAntonio);
+  assert.ok(d > 70 && d < 78, `austin→san antonio ${d}`);
+  assert.equal(distanceMiles(austin, austin), 0);
+});
+
+test('geohash: query bounds cover every point inside the radius', () => {
+  for (const radius of [10, 50, 100, 250]) {
+    const bounds = geohashQueryBounds(austin, radius);
+    assert.ok(bounds.length >= 1 && bounds.length <= 9);
+    // Points on a ring just inside the radius.
+    for (let deg = 0; deg < 360; deg += 30) {
+      const rad = (deg * Math.PI) / 180;
+      const dLat = ((radius * 0.95) / 69) * Math.cos(rad);
+      const dLng = ((radius * 0.95) / (69 * Math.cos((austin.lat * Math.PI) / 180))) * Math.sin(rad);
+      assert.ok(coveredBy(bounds, austin.lat + dLat, austin.lng + dLng), `radius ${radius} bearing ${deg}`);
+    }
+  }
+  assert.equal(coveredBy(geohashQueryBounds(austin, 80), sanAntonio.lat, sanAntonio.lng), true);
+});
+
+test('geohash: seller delivery radius is compared against the buyer location', () => {
+  assert.equal(sellerDeliversTo({ listingGeo: austin, maxDeliveryRadiusMiles: 100, buyer: sanAntonio }), true);
+  assert.equal(sellerDeliversTo({ listingGeo: austin, maxDeliveryRadiusMiles: 50, buyer: sanAntonio }), false);
+  assert.equal(sellerDeliversTo({ listingGeo: austin, maxDeliveryRadiusMiles: undefined, buyer: sanAntonio }), false);
+  assert.equal(sellerDeliversTo({ listingGeo: null, maxDeliveryRadiusMiles: 100, buyer: sanAntonio }), false);
+  assert.equal(formatDistanceMiles(0.4), '< 1 mi');
+  assert.equal(formatDistanceMiles(73.6), '74 mi');
+});
+
+test('geohash: saved-search radius criteria uses listing coordinates', () => {
+  const listing = { type: 'fixed', price: 1000, geo: { ...kerrville, geohash: encodeGeohash(kerrville.lat, kerrville.lng) } };
+  const near = { zip: '78205', ...sanAntonio };
+  assert.equal(matchListingToSavedSearch(listing, { near: { ...near, radiusMiles: 100 } }), true);
+  assert.equal(matchListingToSavedSearch(listing, { near: { ...near, radiusMiles: 25 } }), false);
+  assert.equal(matchListingToSavedSearch({ ...listing, geo: undefined }, { near: { ...near, radiusMiles: 100 } }), false);
+  // ZIP-only criteria (center never resolved) doesn't filter.
+  assert.equal(matchListingToSavedSearch({ ...listing, geo: undefined }, { near: { zip: '78205', radiusMiles: 25 } }), true);
+});
+
+test('geohash: only a ZIP, city or state edit re-geocodes a listing', () => {
+  const location = { city: 'Kerrville', state: 'TX', zip: '78028' };
+  assert.equal(listingLocationChanged(location, { city: ' kerrville ', state: 'tx', zip: '78028-1234' }), false);
+  assert.equal(listingLocationChanged(location, { ...location, zip: '78029' }), true);
+  assert.equal(listingLocationChanged(location, { city: 'Boerne', state: 'TX' }), true);
+  assert.equal(listingLocationChanged(null, location), true);
+});
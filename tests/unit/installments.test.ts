@@ -0,0 +1,75 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  buildInstallmentSchedule,
+  getDueInstallmentNotice,
+  getInstallmentRisk,
+  getInstallmentsRemaining,
+  getNextInstallment,
+  isDuplicateInstallmentPayment,
+  isInstallmentEligible,
+  markInstallmentPaid,
+  quoteInstallments,
+  shouldDefaultInstallmentPlan,
+  validateListingInstallmentPlan,
+} from '../../lib/pricing/installments';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+test('installments: validates seller plans and splits the total with the remainder on the first payment', () => {
+  assert.equal(validateListingInstallmentPlan({ enabled: true, installmentCount: 1, intervalDays: 30 }).ok, false);
+  assert.equal(validateListingInstallmentPlan({ enabled: true, installmentCount: 4, intervalDays: 10 }).ok, false);
+  assert.deepEqual(validateListingInstallmentPlan({ enabled: false, installmentCount: 4 }), { ok: true, plan: null });
+
+  const res = validateListingInstallmentPlan({ enabled: true, installmentCount: 3, intervalDays: 30 });
+  assert.equal(res.ok, true);
+  if (!res.ok || !res.plan) return;
+  assert.equal(isInstallmentEligible(4999, res.plan), false);
+  assert.equal(isInstallmentEligible(10000, res.plan), true);
+
+  assert.deepEqual(quoteInstallments(10000, 3), [3333.34, 3333.33, 3333.33]);
+});
+
+test('installments: schedule starts paid, and paying the rest completes the plan', () => {
+  const paidAt = new Date('2026-03-01T00:00:00Z');
+  let plan = buildInstallmentSchedule(9000, { installmentCount: 3, intervalDays: 30 }, paidAt);
+  assert.equal(plan.installments[0]!.paidAt, paidAt);
+  assert.equal((plan.installments[2]!.dueAt as Date).getTime(), paidAt.getTime() + 60 * DAY_MS);
+  assert.equal(getNextInstallment(plan)?.number, 2);
+  assert.equal(getInstallmentsRemaining(plan), 6000);
+
+  plan = markInstallmentPaid(plan, 2, new Date('2026-03-30T00:00:00Z'));
+  plan = markInstallmentPaid(plan, 3, new Date('2026-04-29T00:00:00Z'));
+  assert.equal(plan.status, 'completed');
+  assert.equal(getNextInstallment(plan), null);
+  assert.equal(getInstallmentRisk(plan, new Date('2026-05-01T00:00:00Z')).level, 'completed');
+});
+
+test('installments: a second checkout paying the same installment is a duplicate, a webhook retry is not', () => {
+  const paid = markInstallmentPaid(
+    buildInstallmentSchedule(9000, { installmentCount: 3, intervalDays: 30 }, new Date('2026-03-01T00:00:00Z')),
+    2,
+    new Date('2026-03-20T00:00:00Z'),
+    { stripeCheckoutSessionId: 'cs_1', stripePaymentIntentId: 'pi_1' }
+  );
+  const second = paid.installments[1]!;
+  assert.equal(isDuplicateInstallmentPayment(second, { stripeCheckoutSessionId: 'cs_1', stripePaymentIntentId: 'pi_1' }), false);
+  assert.equal(isDuplicateInstallmentPayment(second, { stripeCheckoutSessionId: 'cs_2', stripePaymentIntentId: 'pi_2' }), true);
+  assert.equal(isDuplicateInstallmentPayment(paid.installments[2]!, { stripeCheckoutSessionId: 'cs_2' }), false);
+});
+
+test('installments: sends the latest notice reached once, and defaults 14 days late', () => {
+  const dueAt = new Date('2026-04-01T00:00:00Z');
+  assert.equal(getDueInstallmentNotice(dueAt, new Date('2026-03-27T00:00:00Z')), null);
+  assert.equal(getDueInstallmentNotice(dueAt, new Date('2026-03-29T12:00:00Z')), -3);
+  // A late run skips straight to the on-the-day notice.
+  assert.equal(getDueInstallmentNotice(dueAt, new Date('2026-04-01T06:00:00Z'), [-3]), 0);
+  assert.equal(getDueInstallmentNotice(dueAt, new Date('2026-04-01T18:00:00Z'), [-3, 0]), null);
+
+  const plan = buildInstallmentSchedule(6000, { installmentCount: 2, intervalDays: 30 }, new Date('2026-03-02T00:00:00Z'));
+  assert.equal(getInstallmentRisk(plan, new Date('2026-04-05T00:00:00Z')).level, 'overdue');
+  assert.equal(shouldDefaultInstallmentPlan(plan, new Date('2026-04-10T00:00:00Z')), false);
+  assert.equal(shouldDefaultInstallmentPlan(plan, new Date('2026-04-15T00:00:00Z')), true);
+  assert.equal(shouldDefaultInstallmentPlan({ ...plan, status: 'defaulted' }, new Date('2026-04-15T00:00:00Z')), false);
+});
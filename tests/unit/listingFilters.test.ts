@@ -0,0 +1,120 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { listingMatchesFilters } from '../../lib/search/listingFilters';
+import { matchListingToSavedSearch } from '../../lib/search/matchListingToSavedSearch';
+import { encodeGeohash } from '../../lib/geo/geohash';
+
+const NOW = Date.UTC(2026, 5, 1, 12, 0, 0);
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const kerrville = { lat: 30.0474, lng: -99.1403 };
+
+// Firestore-shaped doc (Timestamps as { seconds }), as the alert functions see it.
+const axisDoe: any = {
+  title: 'Registered Axis Doe',
+  description: 'Healthy, halter broke',
+  type: 'auction',
+  category: 'wildlife_exotics',
+  currentBid: 1800,
+  startingBid: 1200,
+  location: { city: 'Kerrville', state: 'TX' },
+  attributes: { speciesId: 'axis_deer', quantity: 3, registered: true, healthNotes: 'Excellent condition, vet checked' },
+  trust: { verified: true, transportReady: true, sellerOffersDelivery: true },
+  deliveryDetails: { deliveryTimeframe: '3_7', maxDeliveryRadiusMiles: 150 },
+  geo: { ...kerrville, geohash: encodeGeohash(kerrville.lat, kerrville.lng) },
+  featured: true,
+  createdAt: { seconds: (NOW - 2 * DAY) / 1000 },
+  endsAt: { seconds: (NOW + 6 * HOUR) / 1000 },
+};
+
+const trailer: any = {
+  title: '20ft Gooseneck Trailer',
+  type: 'fixed',
+  category: 'ranch_vehicles',
+  price: 9500,
+  location: { city: 'Amarillo', state: 'TX' },
+  attributes: { equipmentType: 'trailer', condition: 'good' },
+  createdAt: new Date(NOW - 30 * DAY),
+};
+
+function matches(listing: any, criteria: any, ctx: any = {}) {
+  return listingMatchesFilters(listing, criteria, { nowMs: NOW, ...ctx });
+}
+
+test('listing filters: empty criteria matches; type/category/location narrow', () => {
+  assert.equal(matches(axisDoe, {}), true);
+  assert.equal(matches(axisDoe, { type: 'auction' }), true);
+  assert.equal(matches(axisDoe, { type: 'fixed' }), false);
+  assert.equal(matches(axisDoe, { category: 'ranch_vehicles' }), false);
+  assert.equal(matches(axisDoe, { location: { state: 'TX', city: 'Kerrville' } }), true);
+  assert.equal(matches(axisDoe, { location: { state: 'OK' } }), false);
+  assert.equal(matches(axisDoe, { location: { city: 'Austin' } }), false);
+});
+
+test('listing filters: keyword query and price use card price', () => {
+  assert.equal(matches(axisDoe, { query: 'axis kerrville' }), true);
+  assert.equal(matches(axisDoe, { query: 'blackbuck' }), false);
+  assert.equal(matches(axisDoe, { minPrice: 1500 }), true); // currentBid, not startingBid
+  assert.equal(matches(axisDoe, { maxPrice: 1500 }), false);
+  assert.equal(matches(trailer, { minPrice: 9000, maxPrice: 10000 }), true);
+});
+
+test('listing filters: species, quantity, condition/health and papers', () => {
+  assert.equal(matches(axisDoe, { species: ['axis_deer'] }), true);
+  assert.equal(matches(axisDoe, { species: ['blackbuck'] }), false);
+  assert.equal(matches(trailer, { species: ['trailer'] }), true);
+
+  assert.equal(matches(axisDoe, { quantity: 'pair' }), true); // 2-5
+  assert.equal(matches(axisDoe, { quantity: 'single' }), false);
+  assert.equal(matches(trailer, { quantity: 'single' }), true); // missing quantity = 1
+
+  // Equipment categories compare attributes.condition exactly; animals match health notes.
+  assert.equal(matches(trailer, { healthStatus: ['good'] }), true);
+  assert.equal(matches(trailer, { healthStatus: ['excellent'] }), false);
+  assert.equal(matches(axisDoe, { healthStatus: ['excellent'] }), true);
+
+  assert.equal(matches(axisDoe, { papers: true }), true);
+  assert.equal(matches(axisDoe, { papers: false }), false);
+  assert.equal(matches(trailer, { papers: true }), false);
+});
+
+test('listing filters: seller, delivery and delivers-to-me criteria', () => {
+  assert.equal(matches(axisDoe, { verifiedSeller: true, transportReady: true, sellerOffersDelivery: true }), true);
+  assert.equal(matches(trailer, { verifiedSeller: true }), false);
+  assert.equal(matches(trailer, { transportReady: true }), false);
+  assert.equal(matches(trailer, { sellerOffersDelivery: true }), false);
+  assert.equal(matches({ ...trailer, transportOption: 'SELLER_TRANSPORT' }, { sellerOffersDelivery: true }), true);
+
+  assert.equal(matches(axisDoe, { deliveryTimeframe: '3_7' }), true);
+  assert.equal(matches(axisDoe, { deliveryTimeframe: 'same_day' }), false);
+
+  const sanAntonio = { lat: 29.4241, lng: -98.4936 };
+  const elPaso = { lat: 31.7619, lng: -106.485 };
+  assert.equal(matches(axisDoe, { deliversToMe: true }, { buyerLocation: sanAntonio }), true);
+  assert.equal(matches(axisDoe, { deliversToMe: true }, { buyerLocation: elPaso }), false);
+  assert.equal(matches(axisDoe, { deliversToMe: true }, { buyerLocation: null }), false);
+  // Unknown buyer location (alerts) doesn't filter.
+  assert.equal(matches(axisDoe, { deliversToMe: true }), true);
+});
+
+test('listing filters: ending soon, newly listed and featured are time/flag based', () => {
+  assert.equal(matches(axisDoe, { endingSoon: true }), true);
+  assert.equal(matches(axisDoe, { endingSoon: true }, { nowMs: NOW + 7 * HOUR }), false); // already ended
+  assert.equal(matches(axisDoe, { endingSoon: true }, { nowMs: NOW - 2 * DAY }), false); // > 24h left
+  assert.equal(matches(trailer, { endingSoon: true }), false); // not an auction
+
+  assert.equal(matches(axisDoe, { newlyListed: true }), true);
+  assert.equal(matches(trailer, { newlyListed: true }), false);
+
+  assert.equal(matches(axisDoe, { featured: true }), true);
+  assert.equal(matches(trailer, { featured: true }), false);
+});
+
+test('listing filters: saved-search alerts use the same evaluator as browse', () => {
+  const criteria: any = { category: 'wildlife_exotics', query: 'axis', papers: true, quantity: 'pair', deliveryTimeframe: '3_7' };
+  assert.equal(matchListingToSavedSearch(axisDoe, criteria, NOW), matches(axisDoe, criteria));
+  assert.equal(matchListingToSavedSearch(axisDoe, { ...criteria, quantity: 'lot' }, NOW), false);
+  assert.equal(matchListingToSavedSearch(axisDoe, { newlyListed: true }, NOW + 10 * DAY), false);
+});
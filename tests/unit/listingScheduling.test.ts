@@ -0,0 +1,38 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { isScheduledStartDue, resolveGoLive, validateScheduledStartAt } from '../../lib/listings/scheduling';
+
+const NOW = Date.UTC(2026, 5, 5, 12, 0, 0);
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+test('scheduling: requested start must be 15 min to 30 days out', () => {
+  assert.match(String(validateScheduledStartAt(NOW + 5 * 60 * 1000, NOW)), /15 minutes/);
+  assert.equal(validateScheduledStartAt(NOW + HOUR, NOW), null);
+  assert.equal(validateScheduledStartAt(NOW + 30 * DAY, NOW), null);
+  assert.match(String(validateScheduledStartAt(NOW + 31 * DAY, NOW)), /30 days/);
+  assert.match(String(validateScheduledStartAt(NaN, NOW)), /invalid/);
+});
+
+test('scheduling: approval before the requested start schedules with the full duration', () => {
+  const startMs = NOW + 2 * DAY;
+  const plan = resolveGoLive({ scheduledStartAt: new Date(startMs), durationDays: 5 }, NOW);
+  assert.deepEqual(plan, { status: 'scheduled', startAtMs: startMs, endAtMs: startMs + 5 * DAY, durationDays: 5 });
+});
+
+test('scheduling: no request, a passed request, or one inside the grace window goes live now', () => {
+  for (const scheduledStartAt of [undefined, null, new Date(NOW - HOUR), new Date(NOW + 30 * 1000)]) {
+    const plan = resolveGoLive({ scheduledStartAt, durationDays: 'bogus' }, NOW);
+    assert.equal(plan.status, 'active');
+    assert.equal(plan.startAtMs, NOW);
+    assert.equal(plan.endAtMs, NOW + 7 * DAY);
+  }
+});
+
+test('scheduling: only scheduled listings whose start has arrived are due', () => {
+  assert.equal(isScheduledStartDue({ status: 'scheduled', startAt: new Date(NOW) }, NOW), true);
+  assert.equal(isScheduledStartDue({ status: 'scheduled', startAt: { toMillis: () => NOW + 1 } }, NOW), false);
+  assert.equal(isScheduledStartDue({ status: 'active', startAt: new Date(NOW - HOUR) }, NOW), false);
+  assert.equal(isScheduledStartDue({ status: 'scheduled' }, NOW), false);
+});
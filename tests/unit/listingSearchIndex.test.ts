@@ -0,0 +1,56 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  buildListingSearchTokens,
+  listingMatchesSearchQuery,
+  parseSearchQuery,
+  scoreListingForQuery,
+  tokenizeSearchText,
+} from '../../lib/search/listingSearchIndex';
+import { matchListingToSavedSearch } from '../../lib/search/matchListingToSavedSearch';
+
+const axisDoe = {
+  title: 'Axis Doe - bred',
+  description: 'Gentle, bottle raised.',
+  attributes: { speciesId: 'axis_deer', breed: 'Axis' },
+  location: { city: 'Kerrville', state: 'TX' },
+};
+
+const trailer = {
+  title: 'Gooseneck stock trailer',
+  description: 'Great for hauling axis doe and bucks.',
+  attributes: { make: 'Circle J', model: 'Pro Series' },
+  location: { city: 'Fredericksburg', state: 'TX' },
+};
+
+test('search index: tokenizer lowercases, strips punctuation/diacritics and stop words', () => {
+  assert.deepEqual(tokenizeSearchText('The Élan 4x4 -- for SALE!'), ['elan', '4x4', 'sale']);
+  assert.deepEqual(tokenizeSearchText(null), []);
+});
+
+test('search index: tokens cover fields, with prefixes for short fields only', () => {
+  const tokens = buildListingSearchTokens(trailer);
+  for (const t of ['gooseneck', 'goose', 'circle', 'pro', 'series', 'fredericksburg', 'hauling']) {
+    assert.ok(tokens.includes(t), `expected token ${t}`);
+  }
+  // description words are whole-token only
+  assert.equal(tokens.includes('haul'), false);
+  assert.equal(new Set(tokens).size, tokens.length);
+});
+
+test('search index: multi-word query requires every token and ranks title matches higher', () => {
+  const q = parseSearchQuery('axis doe');
+  const doeScore = scoreListingForQuery(axisDoe, q);
+  const trailerScore = scoreListingForQuery(trailer, q);
+  assert.ok(doeScore > 0);
+  assert.ok(trailerScore > 0);
+  assert.ok(doeScore > trailerScore);
+  assert.equal(scoreListingForQuery(axisDoe, parseSearchQuery('axis trailer')), 0);
+});
+
+test('search index: saved-search keyword criteria uses the same matching', () => {
+  assert.equal(listingMatchesSearchQuery(axisDoe, '   '), true);
+  assert.equal(matchListingToSavedSearch(axisDoe, { query: 'axis kerrville' }), true);
+  assert.equal(matchListingToSavedSearch(axisDoe, { query: 'blackbuck' }), false);
+});
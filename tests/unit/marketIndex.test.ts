@@ -0,0 +1,69 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { computeMarketReport, getMarketDef, getMarketForListing, toMarketSale, type MarketSale } from '../../lib/market/marketIndex';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 9, 18);
+
+test('market index: slugs resolve to species/breed markets', () => {
+  assert.deepEqual(getMarketDef('axis-deer'), {
+    slug: 'axis-deer',
+    label: 'Axis Deer',
+    category: 'wildlife_exotics',
+    field: 'speciesId',
+    value: 'axis',
+  });
+  assert.equal(getMarketDef('angus')?.field, 'breed');
+  assert.equal(getMarketDef('aoudad')?.label, 'Aoudad');
+  assert.equal(getMarketDef('nope'), null);
+  assert.equal(getMarketForListing({ category: 'cattle_livestock', attributes: { breed: 'angus' } })?.slug, 'angus');
+  assert.equal(getMarketForListing({ category: 'whitetail_breeder', attributes: {} })?.slug, 'whitetail-deer');
+  assert.equal(getMarketForListing({ category: 'ranch_equipment', attributes: {} }), null);
+});
+
+test('market index: sale rows need a price and a sold date; non-auction sales count as fixed', () => {
+  assert.equal(toMarketSale({ soldPriceCents: 1000 }), null);
+  assert.deepEqual(toMarketSale({ soldPriceCents: 1000, soldAt: new Date(NOW), saleType: 'offer', location: { state: 'tx' } }), {
+    soldAtMs: NOW,
+    priceCents: 1000,
+    channel: 'fixed',
+    state: 'TX',
+  });
+});
+
+test('market index: trailing windows, monthly series, and state breakdown', () => {
+  const sale = (daysAgo: number, usd: number, channel: MarketSale['channel'], state: string): MarketSale => ({
+    soldAtMs: NOW - daysAgo * DAY_MS,
+    priceCents: usd * 100,
+    channel,
+    state,
+  });
+  const sales = [
+    sale(5, 1000, 'auction', 'TX'),
+    sale(10, 2000, 'fixed', 'TX'),
+    sale(60, 3000, 'auction', 'OK'),
+    sale(200, 4000, 'fixed', 'TX'),
+    sale(400, 9000, 'fixed', 'TX'), // outside the trailing year
+  ];
+
+  const report = computeMarketReport(sales, NOW);
+  assert.deepEqual(
+    report.windows.map((w) => [w.days, w.count, w.medianCents, w.auctionCount]),
+    [
+      [30, 2, 150000, 1],
+      [90, 3, 200000, 2],
+      [365, 4, 250000, 2],
+    ]
+  );
+  assert.equal(report.series.length, 12);
+  assert.deepEqual(report.series[11], { month: '2026-10', count: 2, medianUsd: 1500 });
+  assert.deepEqual(report.regions.map((r) => [r.state, r.count]), [
+    ['TX', 3],
+    ['OK', 1],
+  ]);
+
+  const ok = computeMarketReport(sales, NOW, { state: 'ok' });
+  assert.equal(ok.windows[2]?.count, 1);
+  assert.equal(ok.regions.length, 2);
+});
@@ -0,0 +1,44 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  allocateBundleOfferAmount,
+  formatBundleOfferTitle,
+  getOfferListingIds,
+  isBundleOffer,
+} from '../../lib/offers/bundle';
+import { buildOrderGroupLine } from '../../lib/orders/orderGroups';
+
+test('bundle offers: listing ids fall back to the single listing', () => {
+  assert.deepEqual(getOfferListingIds({ listingId: 'a' }), ['a']);
+  assert.deepEqual(getOfferListingIds({ listingId: 'a', listingIds: ['a', 'b', 'b', ''] }), ['a', 'b']);
+  assert.deepEqual(getOfferListingIds(null), []);
+  assert.equal(isBundleOffer({ listingIds: ['a'] }), false);
+  assert.equal(isBundleOffer({ bundle: { items: [] }, listingIds: ['a', 'b'] }), true);
+  assert.equal(formatBundleOfferTitle([{ title: 'Bred heifer #1' }, { title: 'Bred heifer #2' }, { title: 'Bred heifer #3' }]), 'Bred heifer #1 + 2 more');
+});
+
+test('bundle offers: agreed amount splits by list price and adds back up to the cent', () => {
+  const shares = allocateBundleOfferAmount(5000, [{ listPrice: 2000 }, { listPrice: 2000 }, { listPrice: 2000 }]);
+  assert.deepEqual(shares, [1666.66, 1666.66, 1666.68]);
+  assert.equal(Math.round(shares.reduce((a, b) => a + b, 0) * 100), 500000);
+
+  assert.deepEqual(allocateBundleOfferAmount(900, [{ listPrice: 600 }, { listPrice: 300 }]), [600, 300]);
+  // Unpriced items split evenly.
+  assert.deepEqual(allocateBundleOfferAmount(1000, [{ listPrice: 0 }, { listPrice: 500 }]), [500, 500]);
+  assert.deepEqual(allocateBundleOfferAmount(1000, []), []);
+});
+
+test('bundle offers: checkout lines use their share of the agreed amount', () => {
+  const line = buildOrderGroupLine({
+    listingId: 'heifers',
+    listingTitle: 'Bred heifers',
+    unitPrice: 800,
+    quantity: 2,
+    isGroupLot: false,
+    orderTotal: 1600,
+  });
+  assert.equal(line.orderTotal, 1600);
+  assert.equal(line.depositCents, 32000);
+  assert.equal(line.platformFeeCents, 3200);
+});
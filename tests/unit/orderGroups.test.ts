@@ -0,0 +1,95 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  buildOrderGroupLine,
+  buildOrderGroupLineMetadata,
+  getOrderGroupLineRefund,
+  groupCartItemsBySeller,
+  selectOrderGroupSiblings,
+  summarizeOrderGroupLines,
+} from '../../lib/orders/orderGroups';
+
+test('order groups: cart items are bucketed by seller in first-seen order', () => {
+  const groups = groupCartItemsBySeller([
+    { listingId: 'goat-1', sellerId: 'ranch-a' },
+    { listingId: 'trailer', sellerId: 'ranch-b' },
+    { listingId: 'goat-2', sellerId: 'ranch-a' },
+    { listingId: 'orphan', sellerId: '' },
+  ]);
+  assert.deepEqual(
+    groups.map((g) => [g.sellerId, g.items.map((i) => i.listingId)]),
+    [
+      ['ranch-a', ['goat-1', 'goat-2']],
+      ['ranch-b', ['trailer']],
+    ]
+  );
+});
+
+test('order groups: lines price per unit or per lot with a 20% deposit', () => {
+  const goats = buildOrderGroupLine({ listingId: 'goats', listingTitle: 'Boer goats', unitPrice: 350, quantity: 5, isGroupLot: false });
+  assert.equal(goats.orderTotal, 1750);
+  assert.equal(goats.depositCents, 35000);
+  assert.equal(goats.platformFeeCents, 3500);
+  assert.equal(goats.finalPaymentAmount, 1400);
+
+  const lot = buildOrderGroupLine({ listingId: 'lot', listingTitle: 'Heifer lot', unitPrice: 12000, quantity: 8, isGroupLot: true });
+  assert.equal(lot.orderTotal, 12000);
+  assert.equal(lot.quantity, 8);
+
+  assert.deepEqual(summarizeOrderGroupLines([goats, lot]), {
+    orderTotal: 13750,
+    depositCents: 35000 + 240000,
+    platformFeeCents: 3500 + 24000,
+  });
+});
+
+test('order groups: line metadata stands in for single-listing checkout metadata', () => {
+  const line = buildOrderGroupLine({ listingId: 'goats', listingTitle: 'Boer goats', unitPrice: 350, quantity: 5, isGroupLot: false });
+  const meta = buildOrderGroupLineMetadata({ orderGroupId: 'g1', buyerId: 'b', sellerId: 's', paymentType: 'deposit' }, 'g1', line);
+  assert.equal(meta.listingId, 'goats');
+  assert.equal(meta.orderGroupId, 'g1');
+  assert.equal(meta.orderTotal, '1750');
+  assert.equal(meta.quantity, '5');
+  assert.equal(meta.lineAmount, '35000');
+  assert.equal(meta.sellerAmount, '31500');
+  assert.equal(meta.buyerId, 'b');
+});
+
+test('order groups: fulfillment mirrors only onto open siblings of the same group', () => {
+  const base = { orderGroupId: 'g1', buyerId: 'b', sellerId: 's' };
+  const order = { id: 'o1', data: { ...base, transactionStatus: 'FULFILLMENT_REQUIRED' } };
+  const siblings = selectOrderGroupSiblings(
+    order,
+    [
+      order,
+      { id: 'o2', data: { ...base, transactionStatus: 'FULFILLMENT_REQUIRED' } },
+      { id: 'o3', data: { ...base, transactionStatus: 'CANCELLED' } },
+      { id: 'o4', data: { ...base, orderGroupId: 'g2', transactionStatus: 'FULFILLMENT_REQUIRED' } },
+      { id: 'o5', data: { ...base, buyerId: 'other', transactionStatus: 'FULFILLMENT_REQUIRED' } },
+    ],
+    ['FULFILLMENT_REQUIRED', 'AWAITING_TRANSFER_COMPLIANCE']
+  );
+  assert.deepEqual(
+    siblings.map((s) => s.id),
+    ['o2']
+  );
+  assert.deepEqual(selectOrderGroupSiblings({ id: 'x', data: { buyerId: 'b' } }, [order], ['FULFILLMENT_REQUIRED']), []);
+});
+
+test('order groups: a full refund of one cart line only refunds that line', () => {
+  // $2,000 line, 20% deposit + $33 tax charged on the shared PaymentIntent.
+  const line = { orderGroupId: 'grp-1', amount: 2000, depositAmount: 400, lineAmount: 433, salesTax: { amount: 33 } };
+  assert.deepEqual(getOrderGroupLineRefund(line, null), { amountCents: 43_300, lineLeftCents: 43_300, lineRefundedAmountAfter: 433 });
+  // Sized off the order total (what a full admin refund asks for): capped at the line.
+  assert.equal(getOrderGroupLineRefund(line, 200_000)?.amountCents, 43_300);
+
+  // After a $100 partial refund only the rest of the line is left.
+  const partlyRefunded = { ...line, lineRefundedAmount: 100 };
+  assert.equal(getOrderGroupLineRefund(partlyRefunded, null)?.amountCents, 33_300);
+  assert.equal(getOrderGroupLineRefund({ ...line, lineRefundedAmount: 433 }, null)?.amountCents, 0);
+
+  // Older orders without lineAmount: deposit + tax. Single orders aren't capped.
+  assert.equal(getOrderGroupLineRefund({ orderGroupId: 'grp-1', amount: 2000, depositAmount: 400, salesTax: { amount: 33 } }, null)?.amountCents, 43_300);
+  assert.equal(getOrderGroupLineRefund({ amount: 2000 }, null), null);
+});
@@ -0,0 +1,104 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  buildQuantityFulfillmentUpdate,
+  computeAmountRefund,
+  computePerHeadRefund,
+  getOrderPerHeadPrice,
+  getQuantityShortfall,
+} from '../../lib/orders/quantityRefunds';
+
+test('per-head refund: fixed_group uses unitPrice; group lots split the lot total', () => {
+  const fixed = { amount: 5000, quantity: 10, unitPrice: 500 };
+  assert.equal(getOrderPerHeadPrice(fixed), 500);
+  const r = computePerHeadRefund(fixed, 2);
+  assert.equal(r.ok, true);
+  if (r.ok) {
+    assert.equal(r.amountCents, 100_000);
+    assert.equal(r.refundedQuantityAfter, 2);
+    assert.equal(r.isFullRefund, false);
+  }
+
+  // Lot priced as a whole: unitPrice is the lot price, not per head.
+  const lot = { amount: 1000, quantity: 3, unitPrice: 1000 };
+  assert.equal(getOrderPerHeadPrice(lot), 333.33);
+});
+
+test('per-head refund: accumulates across refunds and the last head takes the remainder', () => {
+  const lot = { amount: 1000, quantity: 3, refundAmount: 666.66, refundedQuantity: 2, status: 'completed' };
+  const last = computePerHeadRefund(lot, 1);
+  assert.equal(last.ok, true);
+  if (last.ok) {
+    assert.equal(last.amountCents, 33_334);
+    assert.equal(last.refundAmountAfter, 1000);
+    assert.equal(last.isFullRefund, true);
+  }
+
+  const tooMany = computePerHeadRefund(lot, 2);
+  assert.equal(tooMany.ok, false);
+  if (!tooMany.ok) assert.equal(tooMany.code, 'INVALID_QUANTITY');
+  assert.equal(computePerHeadRefund({ ...lot, status: 'refunded' }, 1).ok, false);
+});
+
+test('amount refund: adds to earlier per-head refunds instead of replacing the total', () => {
+  const order = { amount: 5000, quantity: 10, unitPrice: 500, status: 'completed' };
+  const heads = computePerHeadRefund(order, 2);
+  assert.equal(heads.ok, true);
+  if (!heads.ok) return;
+  const afterHeads = { ...order, refundAmount: heads.refundAmountAfter, refundedQuantity: heads.refundedQuantityAfter };
+
+  const partial = computeAmountRefund(afterHeads, 25_000);
+  assert.equal(partial.ok, true);
+  if (partial.ok) {
+    assert.equal(partial.refundAmountAfter, 1250);
+    assert.equal(partial.isFullRefund, false);
+  }
+
+  // No amount refunds what is left; more than what is left is rejected.
+  const rest = computeAmountRefund({ ...afterHeads, refundAmount: 1250 }, null);
+  assert.equal(rest.ok && rest.amountCents, 375_000);
+  assert.equal(rest.ok && rest.isFullRefund, true);
+  const over = computeAmountRefund({ ...afterHeads, refundAmount: 1250 }, 400_000);
+  assert.equal(over.ok, false);
+  if (!over.ok) assert.equal(over.code, 'INVALID_AMOUNT');
+});
+
+test('refunds: sales tax goes back pro rata, and a full refund returns all of it', () => {
+  const order = { amount: 5000, quantity: 10, unitPrice: 500, salesTax: { amount: 412.5 }, status: 'completed' };
+  const heads = computePerHeadRefund(order, 2);
+  assert.equal(heads.ok, true);
+  if (!heads.ok) return;
+  assert.equal(heads.taxCents, 8_250);
+  assert.equal(heads.refundedTaxAmountAfter, 82.5);
+
+  const rest = computeAmountRefund(
+    { ...order, refundAmount: heads.refundAmountAfter, refundedTaxAmount: heads.refundedTaxAmountAfter },
+    null
+  );
+  assert.equal(rest.ok && rest.isFullRefund, true);
+  assert.equal(rest.ok && rest.taxCents, 33_000);
+  assert.equal(rest.ok && rest.refundedTaxAmountAfter, 412.5);
+
+  // Untaxed orders refund no tax.
+  const untaxed = computeAmountRefund({ amount: 5000 }, null);
+  assert.equal(untaxed.ok && untaxed.taxCents, 0);
+});
+
+test('quantity fulfillment: records each side and reports the shortfall', () => {
+  const at = new Date('2026-05-01T00:00:00Z');
+  const order = { quantity: 10, transportOption: 'SELLER_TRANSPORT' };
+  const seller = buildQuantityFulfillmentUpdate(order, 'seller', 10, at);
+  assert.equal(seller.ok, true);
+  if (!seller.ok) return;
+  assert.equal(seller.quantityFulfillment.method, 'delivery');
+  assert.equal(getQuantityShortfall(seller.quantityFulfillment), 0);
+
+  const buyer = buildQuantityFulfillmentUpdate({ ...order, quantityFulfillment: seller.quantityFulfillment }, 'buyer', 8, at);
+  assert.equal(buyer.ok, true);
+  if (buyer.ok) {
+    assert.equal(buyer.quantityFulfillment.sellerReported, 10);
+    assert.equal(getQuantityShortfall(buyer.quantityFulfillment), 2);
+  }
+  assert.equal(buildQuantityFulfillmentUpdate(order, 'buyer', 11, at).ok, false);
+});
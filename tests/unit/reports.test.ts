@@ -0,0 +1,31 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  REPORT_REASON_CODES,
+  getReportDocId,
+  getReportReasonLabel,
+  getReportReasons,
+  isReportReasonAllowed,
+} from '../../lib/safety/reports';
+
+test('reports: reason codes are scoped to the target type', () => {
+  assert.ok(isReportReasonAllowed('listing', 'misrepresented_animal'));
+  assert.ok(!isReportReasonAllowed('user', 'misrepresented_animal'));
+  assert.ok(isReportReasonAllowed('user', 'harassment'));
+  assert.ok(!isReportReasonAllowed('listing', 'harassment'));
+  assert.ok(!isReportReasonAllowed('listing', 'not_a_reason'));
+
+  for (const target of ['listing', 'user'] as const) {
+    const codes = getReportReasons(target).map((r) => r.code);
+    assert.ok(codes.includes('other'));
+    assert.ok(codes.every((c) => REPORT_REASON_CODES.includes(c)));
+  }
+});
+
+test('reports: labels and doc ids', () => {
+  assert.equal(getReportReasonLabel('off_platform_payment'), 'Asked to pay off-platform');
+  assert.equal(getReportReasonLabel('bogus'), 'Other');
+  assert.equal(getReportDocId('u1', 'listing', 'l9'), 'u1_listing_l9');
+  assert.notEqual(getReportDocId('u1', 'user', 'x'), getReportDocId('u1', 'listing', 'x'));
+});
@@ -0,0 +1,101 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  calculateSalesTaxFromRateTable,
+  formatSalesTaxLabel,
+  parseSalesTaxMetadata,
+  serializeSalesTaxMetadata,
+  summarizeSalesTax,
+  toOrderSalesTax,
+} from '../../lib/tax/salesTax';
+
+test('sales tax: taxable category uses state + county rate from the listing location', () => {
+  const quote = calculateSalesTaxFromRateTable({
+    category: 'ranch_equipment',
+    amountCents: 1_000_000,
+    location: { state: 'TX', city: 'Austin' },
+  });
+  assert.equal(quote.taxable, true);
+  assert.equal(quote.county, 'Travis');
+  assert.equal(quote.localRateSource, 'county');
+  assert.equal(quote.rate, 0.0825);
+  assert.equal(quote.taxCents, 82_500);
+
+  const bandera = calculateSalesTaxFromRateTable({
+    category: 'ranch_vehicles',
+    amountCents: 2_000_000,
+    location: { state: 'tx', county: 'Bandera County' },
+  });
+  assert.equal(bandera.rate, 0.0675);
+  assert.equal(bandera.taxCents, 135_000);
+});
+
+test('sales tax: unknown county falls back to the state default local rate', () => {
+  const quote = calculateSalesTaxFromRateTable({
+    category: 'hunting_outfitter_assets',
+    amountCents: 10_000,
+    location: { state: 'TX', city: 'Nowhere' },
+  });
+  assert.equal(quote.county, null);
+  assert.equal(quote.localRateSource, 'state_default');
+  assert.equal(quote.rate, 0.0825);
+});
+
+test('sales tax: livestock and unsupported states are not taxed', () => {
+  const livestock = calculateSalesTaxFromRateTable({
+    category: 'cattle_livestock',
+    amountCents: 500_000,
+    location: { state: 'TX', city: 'Austin' },
+  });
+  assert.equal(livestock.taxable, false);
+  assert.equal(livestock.exemptReason, 'livestock');
+  assert.equal(livestock.taxCents, 0);
+  assert.equal(formatSalesTaxLabel(toOrderSalesTax(livestock)), 'Sales tax: Exempt (livestock)');
+
+  const elsewhere = calculateSalesTaxFromRateTable({
+    category: 'ranch_equipment',
+    amountCents: 500_000,
+    location: { state: 'NM' },
+  });
+  assert.equal(elsewhere.exemptReason, 'no_rate_table');
+  assert.equal(elsewhere.taxCents, 0);
+});
+
+test('sales tax: snapshot round-trips through metadata and rolls up by jurisdiction', () => {
+  const tax = toOrderSalesTax(
+    calculateSalesTaxFromRateTable({ category: 'ranch_equipment', amountCents: 1_000_000, location: { state: 'TX', city: 'Austin' } })
+  );
+  assert.equal(formatSalesTaxLabel(tax), 'Sales tax (TX – Travis Co., 8.25%)');
+  assert.deepEqual(parseSalesTaxMetadata(serializeSalesTaxMetadata(tax)), tax);
+  assert.equal(parseSalesTaxMetadata('not json'), null);
+  assert.equal(parseSalesTaxMetadata(undefined), null);
+
+  const exempt = toOrderSalesTax(
+    calculateSalesTaxFromRateTable({ category: 'horse_equestrian', amountCents: 300_000, location: { state: 'TX' } })
+  );
+  const summary = summarizeSalesTax([
+    { amount: 10_000, salesTax: tax },
+    { amount: 10_000, salesTax: tax },
+    { amount: 3_000, salesTax: exempt },
+    { amount: 50 },
+  ]);
+  assert.equal(summary.totalCollected, 1650);
+  assert.equal(summary.taxableSales, 20_000);
+  assert.equal(summary.exemptSales, 3_000);
+  assert.equal(summary.byJurisdiction.length, 1);
+  assert.equal(summary.byJurisdiction[0].orders, 2);
+});
+
+test('sales tax report: tax refunded with an order is not counted as collected', () => {
+  const tax = toOrderSalesTax(
+    calculateSalesTaxFromRateTable({ category: 'ranch_equipment', amountCents: 1_000_000, location: { state: 'TX', city: 'Austin' } })
+  );
+  const summary = summarizeSalesTax([
+    { amount: 10_000, salesTax: tax },
+    { amount: 10_000, salesTax: tax, refundedTaxAmount: tax.amount },
+    { amount: 10_000, salesTax: tax, refundedTaxAmount: tax.amount / 2 },
+  ]);
+  assert.equal(summary.totalCollected, Math.round(tax.amount * 1.5 * 100) / 100);
+  assert.equal(summary.byJurisdiction[0].taxCollected, summary.totalCollected);
+});
@@ -0,0 +1,85 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  rankSecondChanceCandidates,
+  clampSecondChanceOfferHours,
+  SECOND_CHANCE_OFFER_DEFAULT_HOURS,
+  SECOND_CHANCE_OFFER_MAX_HOURS,
+  SECOND_CHANCE_OFFER_MIN_HOURS,
+  SECOND_CHANCE_DECISION_WINDOW_HOURS,
+  getOfferCheckoutListingError,
+  getSecondChanceDeadlineAfterRelease,
+} from '../../lib/auctions/secondChance';
+import { isAllowedAuctionResultTransition } from '../../lib/auctions/finalizeAuction';
+
+test('second chance: ranks by max bid desc, earliest bidder wins ties', () => {
+  const out = rankSecondChanceCandidates([
+    { userId: 'a', maxBidCents: 10_000, createdAtMs: 3 },
+    { userId: 'b', maxBidCents: 12_000, createdAtMs: 5 },
+    { userId: 'c', maxBidCents: 10_000, createdAtMs: 1 },
+  ]);
+  assert.deepEqual(
+    out.map((c) => c.userId),
+    ['b', 'c', 'a']
+  );
+});
+
+test('second chance: excludes the non-paying winner and empty/zero entries', () => {
+  const out = rankSecondChanceCandidates(
+    [
+      { userId: 'winner', maxBidCents: 50_000, createdAtMs: 1 },
+      { userId: 'runner', maxBidCents: 40_000, createdAtMs: 2 },
+      { userId: '', maxBidCents: 30_000 },
+      { userId: 'zero', maxBidCents: 0 },
+    ],
+    { excludeUserIds: ['winner', null] }
+  );
+  assert.deepEqual(
+    out.map((c) => c.userId),
+    ['runner']
+  );
+});
+
+test('second chance: keeps only the best entry per bidder', () => {
+  const out = rankSecondChanceCandidates([
+    { userId: 'a', maxBidCents: 5_000, createdAtMs: 1 },
+    { userId: 'a', maxBidCents: 9_000, createdAtMs: 4 },
+  ]);
+  assert.equal(out.length, 1);
+  assert.equal(out[0].maxBidCents, 9_000);
+});
+
+test('second chance: offer window is clamped', () => {
+  assert.equal(clampSecondChanceOfferHours(1), SECOND_CHANCE_OFFER_MIN_HOURS);
+  assert.equal(clampSecondChanceOfferHours(500), SECOND_CHANCE_OFFER_MAX_HOURS);
+  assert.equal(clampSecondChanceOfferHours('abc'), SECOND_CHANCE_OFFER_DEFAULT_HOURS);
+  assert.equal(clampSecondChanceOfferHours(24), 24);
+});
+
+test('second chance: auction result transitions allow offer and revert', () => {
+  assert.equal(isAllowedAuctionResultTransition('ended_reserve_not_met', 'ended_second_chance_offered'), true);
+  assert.equal(isAllowedAuctionResultTransition('ended_unpaid_expired', 'ended_second_chance_offered'), true);
+  assert.equal(isAllowedAuctionResultTransition('ended_second_chance_offered', 'ended_reserve_not_met'), true);
+  assert.equal(isAllowedAuctionResultTransition('ended_second_chance_offered', 'ended_paid'), true);
+});
+
+test('second chance: accepted offer can check out on the expired auction', () => {
+  const offer = { secondChance: { sourceStatus: 'ended_unpaid_expired' } };
+  assert.equal(getOfferCheckoutListingError({ type: 'auction', status: 'expired' }, offer), null);
+  assert.notEqual(getOfferCheckoutListingError({ type: 'auction', status: 'expired', soldAt: new Date() }, offer), null);
+  assert.notEqual(getOfferCheckoutListingError({ type: 'auction', status: 'active' }, offer), null);
+  // Regular offers still need a live fixed/classified listing.
+  assert.notEqual(getOfferCheckoutListingError({ type: 'auction', status: 'expired' }, {}), null);
+  assert.equal(getOfferCheckoutListingError({ type: 'fixed', status: 'active' }, {}), null);
+  assert.notEqual(getOfferCheckoutListingError({ type: 'fixed', status: 'expired' }, {}), null);
+});
+
+test('second chance: released offer restarts the relist deadline', () => {
+  const now = 1_000_000_000;
+  const windowMs = SECOND_CHANCE_DECISION_WINDOW_HOURS * 60 * 60 * 1000;
+  // Deadline already passed while the offer was pending -> fresh window.
+  assert.equal(getSecondChanceDeadlineAfterRelease(now - 1, now), now + windowMs);
+  assert.equal(getSecondChanceDeadlineAfterRelease(null, now), now + windowMs);
+  assert.equal(getSecondChanceDeadlineAfterRelease(now + windowMs + 5, now), now + windowMs + 5);
+});
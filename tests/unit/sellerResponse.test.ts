@@ -0,0 +1,37 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { getSellerResponseEditState, normalizeSellerResponseText } from '../../lib/reviews/sellerResponse';
+import { SELLER_RESPONSE_MAX_LENGTH } from '../../lib/reviews/constants';
+
+const NOW = Date.UTC(2026, 5, 5, 12, 0, 0);
+const HOUR = 60 * 60 * 1000;
+
+test('seller response: first response, edit window, then locked', () => {
+  assert.deepEqual(getSellerResponseEditState(null, NOW), { mode: 'create' });
+
+  const created = new Date(NOW - 2 * HOUR);
+  assert.deepEqual(getSellerResponseEditState({ createdAt: created, status: 'published' }, NOW), {
+    mode: 'edit',
+    editableUntil: new Date(created.getTime() + 72 * HOUR),
+  });
+
+  assert.deepEqual(getSellerResponseEditState({ createdAt: { toMillis: () => NOW - 73 * HOUR } }, NOW), {
+    mode: 'locked',
+    reason: 'window_closed',
+  });
+});
+
+test('seller response: moderation-hidden responses cannot be rewritten', () => {
+  assert.deepEqual(getSellerResponseEditState({ createdAt: new Date(NOW), status: 'hidden' }, NOW), {
+    mode: 'locked',
+    reason: 'hidden',
+  });
+});
+
+test('seller response: text is trimmed and length-limited', () => {
+  assert.deepEqual(normalizeSellerResponseText('  Thanks for the feedback!\r\n '), { ok: true, text: 'Thanks for the feedback!' });
+  assert.equal(normalizeSellerResponseText('   ').ok, false);
+  assert.equal(normalizeSellerResponseText(42).ok, false);
+  assert.equal(normalizeSellerResponseText('x'.repeat(SELLER_RESPONSE_MAX_LENGTH + 1)).ok, false);
+});
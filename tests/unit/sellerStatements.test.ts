@@ -0,0 +1,110 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  buildSellerStatement,
+  getSellerStatementPeriod,
+  sellerStatementToCsv,
+  toSellerStatementOrder,
+} from '../../lib/seller/statements';
+
+const orders = [
+  toSellerStatementOrder('o1', {
+    amount: 1000,
+    platformFee: 100,
+    paidAt: new Date('2026-02-10T15:00:00Z'),
+    listingSnapshot: { title: 'Boer goats', category: 'farm_animals' },
+  }),
+  toSellerStatementOrder('o2', {
+    amount: 5000,
+    platformFee: 500,
+    paidAt: new Date('2026-03-01T12:00:00Z'),
+    refundedAt: new Date('2026-03-20T12:00:00Z'),
+    refundAmount: 1250,
+    salesTax: { amount: 412.5 },
+    listingSnapshot: { title: 'Stock trailer', category: 'ranch_vehicles' },
+  }),
+  toSellerStatementOrder(
+    'o3',
+    {
+      amount: 2000,
+      platformFee: 200,
+      paidAt: new Date('2025-12-30T12:00:00Z'),
+      chargebackStatus: 'lost',
+      listingSnapshot: { title: 'Heifer', category: 'cattle_livestock' },
+    },
+    { amount: 200000, fundsWithdrawnAt: new Date('2026-01-15T12:00:00Z') }
+  ),
+  toSellerStatementOrder('unpaid', { amount: 900, platformFee: 90, paidAt: null }),
+];
+
+test('seller statements: annual totals attribute sales, refunds and chargebacks to their own dates', () => {
+  const s = buildSellerStatement(orders, getSellerStatementPeriod(2026));
+  assert.deepEqual(s.totals, {
+    orderCount: 2,
+    grossSales: 6000,
+    platformFees: 600,
+    refunds: 1250,
+    chargebacks: 2000,
+    salesTaxCollected: 412.5,
+    netPayout: 2150,
+  });
+  assert.equal(s.months.length, 12);
+  assert.equal(s.months[0].chargebacks, 2000);
+  assert.equal(s.months[2].refunds, 1250);
+  assert.equal(s.byCategory[0].label, 'Ranch Vehicles & Trailers');
+  assert.equal(s.byCategory.find((c) => c.category === 'cattle_livestock')?.netPayout, -2000);
+  assert.deepEqual(
+    s.lines.map((l) => `${l.date}:${l.type}:${l.orderId}`),
+    ['2026-01-15:chargeback:o3', '2026-02-10:sale:o1', '2026-03-01:sale:o2', '2026-03-20:refund:o2']
+  );
+});
+
+test('seller statements: monthly period and CSV export', () => {
+  const s = buildSellerStatement(orders, getSellerStatementPeriod(2026, 3));
+  assert.equal(s.period.label, 'March 2026');
+  assert.equal(s.months.length, 0);
+  assert.equal(s.totals.orderCount, 1);
+  assert.equal(s.totals.netPayout, 3250);
+
+  const csv = sellerStatementToCsv(s, 'Lazy K "Ranch"');
+  assert.ok(csv.includes('"Seller","Lazy K ""Ranch"""'));
+  assert.ok(csv.includes('"Net payout","3250.00"'));
+  assert.ok(csv.includes('"2026-03-20","refund","o2","Stock trailer","Ranch Vehicles & Trailers","0.00","0.00","-1250.00","-1250.00","0.00"'));
+});
+
+test('seller statements: deposit orders count only what was captured', () => {
+  const deposit = {
+    amount: 4000,
+    platformFee: 400,
+    platformFeeAmount: 80,
+    depositAmount: 800,
+    finalPaymentAmount: 3200,
+    paidAt: new Date('2026-04-02T12:00:00Z'),
+  };
+  const open = toSellerStatementOrder('d1', deposit);
+  assert.equal(open.grossAmount, 800);
+  assert.equal(open.platformFee, 80);
+
+  // Balance expired and the deposit was forfeited: the seller keeps the deposit, nothing more.
+  const forfeited = toSellerStatementOrder('d2', { ...deposit, status: 'cancelled', depositExpiredAt: new Date('2026-04-20T12:00:00Z') });
+  assert.deepEqual([forfeited.grossAmount, forfeited.platformFee, forfeited.refundAmount], [800, 80, 0]);
+
+  const paidOff = toSellerStatementOrder('d3', { ...deposit, finalPaymentConfirmedAt: new Date('2026-04-25T12:00:00Z') });
+  assert.deepEqual([paidOff.grossAmount, paidOff.platformFee], [4000, 400]);
+
+  const installments = toSellerStatementOrder('d4', {
+    ...deposit,
+    installmentPlan: {
+      installments: [
+        { number: 1, amount: 2000, paidAt: new Date('2026-04-02T12:00:00Z') },
+        { number: 2, amount: 2000, paidAt: null },
+      ],
+    },
+  });
+  assert.deepEqual([installments.grossAmount, installments.platformFee], [2000, 200]);
+
+  const s = buildSellerStatement([open, forfeited], getSellerStatementPeriod(2026, 4));
+  assert.equal(s.totals.grossSales, 1600);
+  assert.equal(s.totals.netPayout, 1440);
+});
@@ -0,0 +1,75 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  computeSoftCloseExtension,
+  resolveSoftCloseConfig,
+  DEFAULT_SOFT_CLOSE_CONFIG,
+} from '../../lib/auctions/softClose';
+
+const MIN = 60_000;
+const END = 1_000_000_000_000;
+
+test('soft-close: bid inside window extends end by extendMinutes', () => {
+  const out = computeSoftCloseExtension({
+    endMs: END,
+    nowMs: END - 2 * MIN,
+    extensionCount: 0,
+    config: { enabled: true, windowMinutes: 5, extendMinutes: 3, maxExtensions: 10 },
+  });
+  assert.equal(out.extended, true);
+  assert.equal(out.endMs, END + 3 * MIN);
+  assert.equal(out.extensionCount, 1);
+  if (out.extended) assert.equal(out.previousEndMs, END);
+});
+
+test('soft-close: bid outside window does not extend', () => {
+  const out = computeSoftCloseExtension({
+    endMs: END,
+    nowMs: END - 6 * MIN,
+    extensionCount: 0,
+    config: { enabled: true, windowMinutes: 5, extendMinutes: 5, maxExtensions: 10 },
+  });
+  assert.equal(out.extended, false);
+  if (!out.extended) assert.equal(out.reason, 'outside_window');
+  assert.equal(out.endMs, END);
+});
+
+test('soft-close: cap stops further extensions', () => {
+  const out = computeSoftCloseExtension({
+    endMs: END,
+    nowMs: END - MIN,
+    extensionCount: 2,
+    config: { enabled: true, windowMinutes: 5, extendMinutes: 5, maxExtensions: 2 },
+  });
+  assert.equal(out.extended, false);
+  if (!out.extended) assert.equal(out.reason, 'cap_reached');
+  assert.equal(out.extensionCount, 2);
+});
+
+test('soft-close: disabled or already ended never extends', () => {
+  const disabled = computeSoftCloseExtension({
+    endMs: END,
+    nowMs: END - MIN,
+    extensionCount: 0,
+    config: { ...DEFAULT_SOFT_CLOSE_CONFIG, enabled: false },
+  });
+  assert.equal(disabled.extended, false);
+
+  const ended = computeSoftCloseExtension({
+    endMs: END,
+    nowMs: END,
+    extensionCount: 0,
+    config: DEFAULT_SOFT_CLOSE_CONFIG,
+  });
+  assert.equal(ended.extended, false);
+});
+
+test('soft-close: listing override is merged with defaults and clamped', () => {
+  assert.deepEqual(resolveSoftCloseConfig({}), DEFAULT_SOFT_CLOSE_CONFIG);
+  const cfg = resolveSoftCloseConfig({ softClose: { windowMinutes: 10, extendMinutes: 999, maxExtensions: -4 } });
+  assert.equal(cfg.enabled, true);
+  assert.equal(cfg.windowMinutes, 10);
+  assert.equal(cfg.extendMinutes, 60);
+  assert.equal(cfg.maxExtensions, 0);
+});
@@ -0,0 +1,48 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { computeSoldCompsStats, getPriceGuidance, refineCompsByAttributes } from '../../lib/listings/soldComps';
+
+test('sold comps: stats need at least 3 priced comps', () => {
+  assert.equal(computeSoldCompsStats([100_00, 200_00]), undefined);
+  assert.deepEqual(computeSoldCompsStats([300_00, 100_00, 200_00, 0]), {
+    count: 3,
+    medianCents: 200_00,
+    p25Cents: 150_00,
+    p75Cents: 250_00,
+  });
+});
+
+test('sold comps: sex/age tightening is kept only when enough comps remain', () => {
+  const comps = [
+    { id: 'a', attributes: { sex: 'bull', age: 2 } },
+    { id: 'b', attributes: { sex: 'bull', age: '2 years' } },
+    { id: 'c', attributes: { sex: 'bull', age: 4 } },
+    { id: 'd', attributes: { sex: 'cow', age: 2 } },
+  ];
+  const bulls = refineCompsByAttributes(comps, { category: 'cattle_livestock', sex: 'bull', age: 2 });
+  // 3 bulls survive; only 2 of them are in the 1–2 yr bucket, so age isn't applied.
+  assert.deepEqual(bulls.refinedBy, ['sex']);
+  assert.deepEqual(bulls.comps.map((c) => c.id), ['a', 'b', 'c']);
+
+  const young = refineCompsByAttributes(comps, { category: 'cattle_livestock', sex: 'unknown', age: '1 yr' });
+  assert.deepEqual(young.refinedBy, ['age']);
+  assert.deepEqual(young.comps.map((c) => c.id), ['a', 'b', 'd']);
+});
+
+test('sold comps: guidance suggests a band and warns on outliers', () => {
+  const stats = { count: 8, p25Cents: 2_000_00, medianCents: 2_500_00, p75Cents: 3_000_00 };
+
+  const fixed = getPriceGuidance(stats, { type: 'fixed', priceUsd: 2_400 });
+  assert.deepEqual(fixed.band, { lowUsd: 2000, medianUsd: 2500, highUsd: 3000 });
+  assert.equal(fixed.suggestedPriceUsd, 2500);
+  assert.equal(fixed.warnings.length, 0);
+
+  assert.equal(getPriceGuidance(stats, { type: 'fixed', priceUsd: 5_000 }).warnings[0]?.field, 'price');
+  assert.equal(getPriceGuidance(stats, { type: 'fixed', priceUsd: 900 }).warnings[0]?.field, 'price');
+
+  const auction = getPriceGuidance(stats, { type: 'auction', startingBidUsd: 3_500, reservePriceUsd: 5_000 });
+  assert.equal(auction.suggestedStartingBidUsd, 1200);
+  assert.equal(auction.suggestedReserveUsd, 2000);
+  assert.deepEqual(auction.warnings.map((w) => w.field), ['startingBid', 'reservePrice']);
+});
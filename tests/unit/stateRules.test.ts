@@ -0,0 +1,112 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { resolveStateCompliance } from '../../lib/compliance/stateRules';
+import {
+  getOrderComplianceRoute,
+  getPayoutHoldRequirements,
+  getRequiredOrderDocsForListing,
+  getRouteMovementRequirements,
+} from '../../lib/compliance/policy';
+import { getComplianceDocsHoldReason } from '../../lib/orders/complianceDocsStatus';
+
+test('state rules: Texas-only by default, with TX outputs unchanged', () => {
+  const whitetail = resolveStateCompliance({ category: 'whitetail_breeder', originState: 'TX', destinationState: 'TX' });
+  assert.equal(whitetail.allowed, true);
+  assert.deepEqual(whitetail.requiredOrderDocuments, ['TPWD_TRANSFER_APPROVAL']);
+
+  const toOklahoma = resolveStateCompliance({ category: 'cattle_livestock', originState: 'TX', destinationState: 'OK' });
+  assert.equal(toOklahoma.allowed, false);
+  assert.equal(toOklahoma.code, 'BUYER_STATE_NOT_ALLOWED');
+  assert.equal(toOklahoma.message, 'Only Texas residents can buy this listing.');
+
+  // Full names and unparseable profile states never fall back to an intrastate sale.
+  assert.equal(resolveStateCompliance({ category: 'cattle_livestock', originState: 'TX', destinationState: 'Oklahoma' }).allowed, false);
+  assert.equal(resolveStateCompliance({ category: 'cattle_livestock', originState: 'TX', destinationState: 'Texas' }).allowed, true);
+  const blank = resolveStateCompliance({ category: 'whitetail_breeder', originState: 'TX', destinationState: '   ' });
+  assert.equal(blank.allowed, false);
+  assert.equal(blank.code, 'BUYER_STATE_NOT_ALLOWED');
+
+  const fromOklahoma = resolveStateCompliance({ category: 'horse_equestrian', originState: 'OK' });
+  assert.equal(fromOklahoma.code, 'LISTING_STATE_NOT_SUPPORTED');
+
+  // Equipment is never state-restricted.
+  assert.equal(resolveStateCompliance({ category: 'ranch_equipment', originState: 'CA', destinationState: 'NY' }).allowed, true);
+
+  assert.deepEqual(getRequiredOrderDocsForListing('horse_equestrian', {}), ['TAHC_CVI']);
+  assert.equal(getPayoutHoldRequirements('horse_equestrian', {}).holdReasonCode, 'MISSING_TAHC_CVI');
+  assert.deepEqual(getRequiredOrderDocsForListing('cattle_livestock', {}), []);
+});
+
+test('state rules: interstate routes require CVI, Coggins and NM brand inspection once enabled', () => {
+  const enabledStates = ['TX', 'OK', 'NM'] as const;
+
+  const cattle = resolveStateCompliance({
+    category: 'cattle_livestock',
+    attributes: { sex: 'steer' },
+    originState: 'TX',
+    destinationState: 'OK',
+    enabledStates: [...enabledStates],
+  });
+  assert.equal(cattle.allowed, true);
+  assert.equal(cattle.interstate, true);
+  assert.deepEqual(cattle.payoutHoldDocuments, ['TAHC_CVI']);
+
+  const horseToNm = resolveStateCompliance({
+    category: 'horse_equestrian',
+    originState: 'tx',
+    destinationState: 'NM',
+    enabledStates: [...enabledStates],
+  });
+  assert.deepEqual(horseToNm.requiredOrderDocuments, ['TAHC_CVI', 'COGGINS_TEST', 'BRAND_INSPECTION']);
+
+  const nmCattle = resolveStateCompliance({ category: 'cattle_livestock', originState: 'NM', enabledStates: [...enabledStates] });
+  assert.deepEqual(nmCattle.requiredOrderDocuments, ['BRAND_INSPECTION']);
+
+  // Deer and exotics stay intrastate Texas.
+  const deer = resolveStateCompliance({
+    category: 'whitetail_breeder',
+    originState: 'TX',
+    destinationState: 'OK',
+    enabledStates: [...enabledStates],
+  });
+  assert.equal(deer.allowed, false);
+  assert.match(deer.note || '', /TPWD/);
+  assert.equal(
+    resolveStateCompliance({ category: 'wildlife_exotics', originState: 'OK', enabledStates: [...enabledStates] }).code,
+    'LISTING_STATE_NOT_SUPPORTED'
+  );
+
+  const dogs = resolveStateCompliance({
+    category: 'sporting_working_dogs',
+    originState: 'OK',
+    destinationState: 'TX',
+    enabledStates: [...enabledStates],
+  });
+  assert.deepEqual(dogs.requiredOrderDocuments, ['HEALTH_CERTIFICATE']);
+  assert.deepEqual(dogs.payoutHoldDocuments, []);
+});
+
+test('state rules: movement tests by destination/species drive required docs and payout holds', () => {
+  const order = { deliveryAddress: { state: 'New Mexico' }, delivery: { buyerAddress: { state: 'TX' } } };
+  const route = getOrderComplianceRoute(order, { location: { state: 'TX' } }, 'OK');
+  assert.deepEqual(route, { originState: 'TX', destinationState: 'New Mexico' });
+
+  const bull = getRouteMovementRequirements('cattle_livestock', { sex: 'bull', age: 3 } as any, route);
+  assert.equal(bull.destinationState, 'NM');
+  assert.deepEqual(bull.documents, ['TAHC_CVI', 'BRAND_INSPECTION', 'TB_TEST']);
+  assert.equal(getPayoutHoldRequirements('cattle_livestock', { sex: 'bull' } as any, route).holdReasonCode, 'MISSING_TAHC_CVI');
+
+  // Steers skip the breeding-cattle tests; young heifers skip Oklahoma's brucellosis test.
+  assert.deepEqual(getRouteMovementRequirements('cattle_livestock', { sex: 'steer' } as any, route).documents, ['TAHC_CVI', 'BRAND_INSPECTION']);
+  const toOk = { originState: 'TX', destinationState: 'OK' };
+  assert.deepEqual(getRouteMovementRequirements('cattle_livestock', { sex: 'heifer', age: 1 } as any, toOk).documents, ['TAHC_CVI']);
+  assert.deepEqual(getRequiredOrderDocsForListing('farm_animals', { speciesId: 'pig' } as any, toOk), ['TAHC_CVI', 'BRUCELLOSIS_TEST']);
+
+  assert.equal(
+    getComplianceDocsHoldReason({ currentHoldReason: 'none', holdDocuments: ['TAHC_CVI', 'TB_TEST'], verified: ['TAHC_CVI'] }),
+    'MISSING_TB_TEST'
+  );
+  assert.equal(getComplianceDocsHoldReason({ currentHoldReason: 'MISSING_TB_TEST', holdDocuments: ['TB_TEST'], verified: ['TB_TEST'] }), 'none');
+  assert.equal(getComplianceDocsHoldReason({ currentHoldReason: 'admin_hold', holdDocuments: ['TB_TEST'], verified: [] }), 'admin_hold');
+});